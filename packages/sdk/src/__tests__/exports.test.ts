@@ -57,6 +57,7 @@ describe("PluginSDKError", () => {
     "INVALID_ADDRESS",
     "OPERATION_FAILED",
     "SECRET_NOT_FOUND",
+    "PERMISSION_DENIED",
   ] as const;
 
   describe.each(errorCodes)("error code: %s", (code) => {
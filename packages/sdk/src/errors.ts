@@ -4,7 +4,8 @@ export type SDKErrorCode =
   | "WALLET_NOT_INITIALIZED"
   | "INVALID_ADDRESS"
   | "OPERATION_FAILED"
-  | "SECRET_NOT_FOUND";
+  | "SECRET_NOT_FOUND"
+  | "PERMISSION_DENIED";
 
 /**
  * Error thrown by Plugin SDK operations.
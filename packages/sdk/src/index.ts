@@ -36,6 +36,7 @@ export type {
   PluginSDK,
   // TON
   TonSDK,
+  TonNetwork,
   TonBalance,
   TonPrice,
   TonSendResult,
@@ -73,6 +74,8 @@ export type {
   // Plugin definitions
   SimpleToolDef,
   PluginManifest,
+  PluginCapability,
+  PluginPermissions,
   ToolResult,
   ToolScope,
   ToolCategory,
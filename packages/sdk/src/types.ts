@@ -26,6 +26,9 @@ export type TransactionType =
   | "contract_call"
   | "multi_send";
 
+/** TON network the agent is connected to (`ton.network` in config) */
+export type TonNetwork = "mainnet" | "testnet";
+
 /** Balance information for a TON address */
 export interface TonBalance {
   /** Human-readable balance (e.g. "12.50") */
@@ -357,6 +360,20 @@ export interface TonSDK {
    */
   getAddress(): string | null;
 
+  /**
+   * Get the TON network the agent is connected to.
+   * Plugins should avoid mainnet-only services (DEXes, marketplaces) on testnet.
+   */
+  getNetwork(): TonNetwork;
+
+  /**
+   * Build an explorer link (Tonviewer) for the active network.
+   *
+   * @param kind — "address" or "transaction"
+   * @param id — Address or transaction hash
+   */
+  getExplorerUrl(kind: "address" | "transaction", id: string): string;
+
   /**
    * Get balance for a TON address.
    * Defaults to the bot's own wallet if no address provided.
@@ -1104,6 +1121,15 @@ export interface PluginToolContext {
   db: unknown;
   /** Sanitized bot config (no API keys) */
   config?: Record<string, unknown>;
+  /**
+   * Active trace span, present when tracing is enabled.
+   * Forward `traceparent` as an HTTP header to join outbound calls to the trace.
+   */
+  trace?: {
+    traceId: string;
+    spanId: string;
+    traceparent: string;
+  };
 }
 
 /** Result returned by a tool execution */
@@ -1135,6 +1161,8 @@ export interface SimpleToolDef {
   scope?: ToolScope;
   /** Tool category for masking behavior */
   category?: ToolCategory;
+  /** Allow concurrent execution with other parallel-safe calls (default: true for "data-bearing") */
+  parallelSafe?: boolean;
 }
 
 /**
@@ -1172,6 +1200,42 @@ export interface PluginManifest {
    * ```
    */
   secrets?: Record<string, SecretDeclaration>;
+  /**
+   * Capabilities the plugin needs. Plugins run in a sandboxed process and
+   * anything not declared here is refused. Shown to the admin for consent
+   * when installing from the marketplace.
+   *
+   * @example
+   * ```typescript
+   * permissions: {
+   *   capabilities: ["telegram.send"],
+   *   network: ["api.example.com", "*.tonapi.io"],
+   *   fs: ["~/Downloads/reports"],
+   * }
+   * ```
+   */
+  permissions?: PluginPermissions;
+}
+
+/**
+ * Privileged SDK capabilities a plugin can request.
+ *
+ * - `ton.send` — `sdk.ton.sendTON()` / `sendJetton()`
+ * - `telegram.send` — methods that send, edit, delete or moderate
+ * - `telegram.raw` — `sdk.telegram.getRawClient()`; the plugin then runs inside
+ *   the agent process with full access, since the GramJS client cannot be
+ *   shared with a sandbox
+ */
+export type PluginCapability = "ton.send" | "telegram.send" | "telegram.raw";
+
+/** Permissions declared in a plugin manifest */
+export interface PluginPermissions {
+  /** Privileged SDK capabilities */
+  capabilities?: PluginCapability[];
+  /** Hosts the plugin may connect to; `*.example.com` matches subdomains */
+  network?: string[];
+  /** Paths the plugin may read and write (`~` is the home directory) */
+  fs?: string[];
 }
 
 // ─── Root SDK ────────────────────────────────────────────────────
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { AgentConfigSchema, type AgentConfig } from "../../config/schema.js";
+import {
+  buildModelChain,
+  classifyProviderError,
+  providerErrorStatus,
+  ModelFailover,
+} from "../failover.js";
+
+const agent = (overrides: Partial<AgentConfig> = {}): AgentConfig =>
+  AgentConfigSchema.parse({
+    provider: "anthropic",
+    api_key: "sk-primary",
+    model: "claude-opus-4-5-20251101",
+    ...overrides,
+  });
+
+describe("buildModelChain", () => {
+  it("is the primary model alone without fallbacks", () => {
+    const primary = agent();
+    expect(buildModelChain(primary)).toEqual([primary]);
+  });
+
+  it("appends fallbacks that inherit the primary settings", () => {
+    const chain = buildModelChain(
+      agent({
+        base_url: "https://proxy.example",
+        fallbacks: [
+          { provider: "anthropic", model: "claude-sonnet-4-5-20250929" },
+          { provider: "openai", model: "gpt-4o", api_key: "sk-openai" },
+          { provider: "groq", model: "llama-3.3-70b-versatile", base_url: "https://groq.example" },
+        ],
+      })
+    );
+
+    expect(chain.map((c) => [c.provider, c.model, c.api_key, c.base_url])).toEqual([
+      ["anthropic", "claude-opus-4-5-20251101", "sk-primary", "https://proxy.example"],
+      // Same provider reuses the primary key
+      ["anthropic", "claude-sonnet-4-5-20250929", "sk-primary", "https://proxy.example"],
+      ["openai", "gpt-4o", "sk-openai", "https://proxy.example"],
+      // Another provider never gets the primary key
+      ["groq", "llama-3.3-70b-versatile", "", "https://groq.example"],
+    ]);
+    expect(chain[1].max_tokens).toBe(chain[0].max_tokens);
+  });
+});
+
+describe("classifyProviderError", () => {
+  it("reads the status of SDK errors and their messages", () => {
+    expect(providerErrorStatus(Object.assign(new Error("x"), { status: 503 }))).toBe(503);
+    expect(providerErrorStatus('529 {"type":"overloaded_error"}')).toBe(529);
+    expect(providerErrorStatus("got status: 500. {}")).toBe(500);
+    expect(providerErrorStatus('{"error":{"code":429,"message":"quota"}}')).toBe(429);
+  });
+
+  it("classifies rate limits, outages and connection errors", () => {
+    expect(classifyProviderError("429 Rate limit reached")).toBe("rate_limited");
+    expect(classifyProviderError('529 {"type":"overloaded_error"}')).toBe("unavailable");
+    expect(classifyProviderError("408 Request Timeout")).toBe("unavailable");
+    expect(classifyProviderError("Connection error.")).toBe("unavailable");
+    expect(
+      classifyProviderError(
+        new TypeError("fetch failed", { cause: Object.assign(new Error(), { code: "ECONNRESET" }) })
+      )
+    ).toBe("unavailable");
+  });
+
+  it("does not treat numbers in other errors or local bugs as provider failures", () => {
+    expect(classifyProviderError("400 max_tokens: 500 > 400 allowed")).toBeNull();
+    expect(classifyProviderError("Invalid value 503 for temperature")).toBeNull();
+    expect(classifyProviderError("Rate the answer from 1 to 5")).toBeNull();
+    expect(classifyProviderError(new TypeError("Cannot read properties of undefined"))).toBeNull();
+    expect(classifyProviderError(new Error("No API key for provider openai"))).toBeNull();
+  });
+});
+
+describe("ModelFailover", () => {
+  const chain = buildModelChain(
+    agent({ fallbacks: [{ provider: "openai", model: "gpt-4o", api_key: "sk-openai" }] })
+  );
+
+  it("fails over on an outage and gives up at the end of the chain", () => {
+    const models = new ModelFailover(chain);
+
+    expect(models.onFailure("unavailable")).toEqual({
+      action: "switch",
+      from: chain[0],
+      to: chain[1],
+    });
+    expect(models.current).toBe(chain[1]);
+    expect(models.isFallback).toBe(true);
+    expect(models.onFailure("unavailable")).toEqual({ action: "fail" });
+  });
+
+  it("retries a rate limit with backoff before failing over", () => {
+    const models = new ModelFailover(chain, 3);
+
+    const steps = Array.from({ length: 4 }, () => models.onFailure("rate_limited"));
+    expect(steps).toEqual([
+      { action: "retry", attempt: 1, delayMs: 1000 },
+      { action: "retry", attempt: 2, delayMs: 2000 },
+      { action: "retry", attempt: 3, delayMs: 4000 },
+      { action: "switch", from: chain[0], to: chain[1] },
+    ]);
+
+    // The fallback gets its own retries
+    expect(models.onFailure("rate_limited")).toEqual({
+      action: "retry",
+      attempt: 1,
+      delayMs: 1000,
+    });
+  });
+
+  it("switches models for other reasons with next()", () => {
+    const models = new ModelFailover(chain);
+    expect(models.next()).toBe(chain[1]);
+    expect(models.next()).toBeNull();
+    expect(models.current).toBe(chain[1]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../../memory/schema.js";
+import { UsageTracker, type UsageEntry } from "../usage-tracker.js";
+import { BudgetConfigSchema, type BudgetConfig } from "../../config/schema.js";
+
+describe("UsageTracker", () => {
+  let db: InstanceType<typeof Database>;
+
+  const call = (overrides: Partial<UsageEntry> = {}): UsageEntry => ({
+    chatId: "100",
+    userId: 7,
+    isGroup: false,
+    provider: "anthropic",
+    model: "claude-opus-4-5-20251101",
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0.5,
+    ...overrides,
+  });
+
+  const tracker = (budget: Partial<BudgetConfig> = {}) =>
+    new UsageTracker(db, BudgetConfigSchema.parse(budget));
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("allows everything when no budget is configured", () => {
+    const t = tracker();
+    t.record(call({ costUsd: 1000 }));
+
+    expect(t.checkBudget({ chatId: "100", userId: 7, isGroup: false, isAdmin: false })).toEqual({
+      exceeded: false,
+    });
+  });
+
+  it("enforces the per-user daily cap, except for admins", () => {
+    const t = tracker({ user_daily_usd: 1 });
+    t.record(call());
+    const subject = { chatId: "100", userId: 7, isGroup: false, isAdmin: false };
+
+    expect(t.checkBudget(subject).exceeded).toBe(false);
+
+    t.record(call());
+    expect(t.checkBudget(subject)).toEqual({
+      exceeded: true,
+      reason: "your daily budget ($1.00)",
+    });
+    expect(t.checkBudget({ ...subject, isAdmin: true }).exceeded).toBe(false);
+    expect(t.checkBudget({ ...subject, userId: 8 }).exceeded).toBe(false);
+  });
+
+  it("applies per-group overrides before the default group cap", () => {
+    const t = tracker({ group_daily_usd: 5, group_overrides: { "-200": 0.5 } });
+    t.record(call({ chatId: "-200", isGroup: true }));
+    t.record(call({ chatId: "-300", isGroup: true }));
+
+    expect(t.checkBudget({ chatId: "-200", userId: 9, isGroup: true, isAdmin: true })).toEqual({
+      exceeded: true,
+      reason: "this group's daily budget ($0.50)",
+    });
+    expect(
+      t.checkBudget({ chatId: "-300", userId: 9, isGroup: true, isAdmin: false }).exceeded
+    ).toBe(false);
+  });
+
+  it("only counts the current UTC day and month", () => {
+    const t = tracker({ user_daily_usd: 1, monthly_usd: 2 });
+    const now = new Date("2026-03-15T12:00:00Z");
+    const insert = db.prepare(
+      `INSERT INTO llm_usage (created_at, chat_id, user_id, provider, model, cost_usd)
+       VALUES (?, '100', '7', 'anthropic', 'm', ?)`
+    );
+    insert.run(Date.parse("2026-03-14T23:00:00Z") / 1000, 1.5);
+    insert.run(Date.parse("2026-02-28T12:00:00Z") / 1000, 10);
+
+    const subject = { chatId: "100", userId: 7, isGroup: false, isAdmin: false };
+    expect(t.checkBudget(subject, now).exceeded).toBe(false);
+
+    insert.run(Date.parse("2026-03-15T01:00:00Z") / 1000, 0.5);
+    expect(t.checkBudget(subject, now)).toEqual({
+      exceeded: true,
+      reason: "the monthly budget ($2.00)",
+    });
+  });
+
+  it("summarizes usage by day, model, chat and user", () => {
+    const t = tracker();
+    db.prepare(`INSERT INTO tg_users (id, username) VALUES ('7', 'alice')`).run();
+    db.prepare(`INSERT INTO tg_chats (id, type, title) VALUES ('-200', 'group', 'Traders')`).run();
+
+    t.record(call());
+    t.record(call({ chatId: "-200", isGroup: true, model: "claude-haiku", costUsd: 0.25 }));
+    t.record(call({ userId: undefined, costUsd: 0.1, cacheReadTokens: 500 }));
+
+    const summary = t.getSummary(7);
+
+    expect(summary.today.costUsd).toBeCloseTo(0.85);
+    expect(summary.today.requests).toBe(3);
+    expect(summary.today.inputTokens).toBe(3500);
+    expect(summary.daily).toHaveLength(1);
+    expect(summary.byModel.map((m) => m.model)).toEqual([
+      "claude-opus-4-5-20251101",
+      "claude-haiku",
+    ]);
+    expect(summary.topChats[0]).toMatchObject({ chatId: "100", isGroup: false, requests: 2 });
+    expect(summary.topChats[1]).toMatchObject({ chatId: "-200", title: "Traders", isGroup: true });
+    expect(summary.topUsers).toEqual([
+      expect.objectContaining({ userId: "7", username: "alice", requests: 2 }),
+    ]);
+  });
+});
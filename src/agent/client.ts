@@ -1,5 +1,6 @@
 import {
   complete,
+  stream,
   getModel,
   type Model,
   type Api,
@@ -17,6 +18,7 @@ import { getProviderMetadata, type SupportedProvider } from "../config/providers
 import { sanitizeToolsForGemini } from "./schema-sanitizer.js";
 import { createLogger } from "../utils/logger.js";
 import { fetchWithTimeout } from "../utils/fetch.js";
+import { measureLlmCall } from "../metrics/index.js";
 
 const log = createLogger("LLM");
 
@@ -239,6 +241,10 @@ export interface ChatOptions {
   temperature?: number;
   persistTranscript?: boolean;
   tools?: Tool[];
+  /** Stream the response: called with the text generated so far (think blocks removed) */
+  onTextDelta?: (text: string) => void;
+  /** Called once when the model starts emitting a tool call (streaming only) */
+  onToolCallStart?: () => void;
 }
 
 export interface ChatResponse {
@@ -292,7 +298,12 @@ export async function chatWithContext(
     completeOptions.onPayload = stripCocoonPayload;
   }
 
-  const response = await complete(model, context, completeOptions as ProviderStreamOptions);
+  // Cocoon tool calls arrive as <tool_call> text, so its output can't be shown while streaming
+  const response = await measureLlmCall(model, () =>
+    options.onTextDelta && !isCocoon
+      ? streamResponse(model, context, completeOptions as ProviderStreamOptions, options)
+      : complete(model, context, completeOptions as ProviderStreamOptions)
+  );
 
   // Cocoon: parse <tool_call> from text response
   if (isCocoon) {
@@ -339,6 +350,38 @@ export async function chatWithContext(
   };
 }
 
+async function streamResponse(
+  model: Model<Api>,
+  context: Context,
+  streamOptions: ProviderStreamOptions,
+  options: ChatOptions
+): Promise<AssistantMessage> {
+  const events = stream(model, context, streamOptions);
+  let toolCallStarted = false;
+
+  for await (const event of events) {
+    if (event.type === "text_delta") {
+      const textBlock = event.partial.content.find((b) => b.type === "text");
+      const text = textBlock?.type === "text" ? stripPartialThinking(textBlock.text) : "";
+      if (text) options.onTextDelta?.(text);
+    } else if (event.type === "toolcall_start" && !toolCallStarted) {
+      toolCallStarted = true;
+      options.onToolCallStart?.();
+    }
+  }
+
+  return events.result();
+}
+
+/**
+ * Remove <think> blocks from partial output, including one that hasn't been closed yet.
+ */
+export function stripPartialThinking(text: string): string {
+  const closed = text.replace(/<think>[\s\S]*?<\/think>/g, "");
+  const open = closed.indexOf("<think>");
+  return (open === -1 ? closed : closed.slice(0, open)).trim();
+}
+
 export function loadContextFromTranscript(sessionId: string, systemPrompt?: string): Context {
   const messages = readTranscript(sessionId) as Message[];
 
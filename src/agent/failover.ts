@@ -0,0 +1,136 @@
+/**
+ * Model failover — the primary model followed by `agent.fallbacks`, and the
+ * provider failures that move along that chain.
+ *
+ * Only failures of the provider count: HTTP 429, 408 and 5xx as the provider
+ * SDKs report them, and connection errors. Anything else (a bad request, a
+ * bug in teleton) is not retried on another model.
+ */
+
+import type { AgentConfig } from "../config/schema.js";
+import { RATE_LIMIT_MAX_RETRIES } from "../constants/limits.js";
+
+export type ProviderFailure = "rate_limited" | "unavailable";
+
+export type FailoverStep =
+  | { action: "retry"; attempt: number; delayMs: number }
+  | { action: "switch"; from: AgentConfig; to: AgentConfig }
+  | { action: "fail" };
+
+/**
+ * Status in the messages of provider errors. pi-ai reports stream errors as
+ * the SDK error's message only, so the status is read back from its format.
+ */
+const STATUS_PATTERNS = [
+  /^(\d{3}) /, // Anthropic and OpenAI SDKs: "<status> <body>"
+  /^got status: (\d{3})\b/, // Google streaming errors
+  /^\{"error":\{"code":(\d{3}),/, // Google API errors: the JSON error body
+];
+
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/** Messages of the SDKs' connection and timeout errors, and of a failed fetch */
+const CONNECTION_ERROR_MESSAGES = new Set([
+  "Connection error.",
+  "Request timed out.",
+  "fetch failed",
+  "terminated",
+]);
+
+/** Primary model followed by the configured fallbacks, as full agent configs */
+export function buildModelChain(agent: AgentConfig): AgentConfig[] {
+  return [
+    agent,
+    ...(agent.fallbacks ?? []).map((fallback) => ({
+      ...agent,
+      provider: fallback.provider,
+      model: fallback.model,
+      api_key: fallback.api_key || (fallback.provider === agent.provider ? agent.api_key : ""),
+      base_url: fallback.base_url ?? agent.base_url,
+    })),
+  ];
+}
+
+function errorCode(error: object): string | undefined {
+  const code = "code" in error ? error.code : undefined;
+  if (typeof code === "string") return code;
+  const cause = "cause" in error ? error.cause : undefined;
+  return cause && typeof cause === "object" ? errorCode(cause) : undefined;
+}
+
+/** HTTP status of a provider error (a thrown SDK error, or an error message) */
+export function providerErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === "object" && "status" in error) {
+    if (typeof error.status === "number") return error.status;
+  }
+  const message = typeof error === "string" ? error : error instanceof Error ? error.message : "";
+  for (const pattern of STATUS_PATTERNS) {
+    const match = pattern.exec(message);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+}
+
+/** How the provider failed, or null if the error is not a provider failure */
+export function classifyProviderError(error: unknown): ProviderFailure | null {
+  const status = providerErrorStatus(error);
+  if (status === 429) return "rate_limited";
+  if (status !== undefined) return status === 408 || status >= 500 ? "unavailable" : null;
+
+  const message = typeof error === "string" ? error : error instanceof Error ? error.message : "";
+  if (CONNECTION_ERROR_MESSAGES.has(message)) return "unavailable";
+  if (error && typeof error === "object") {
+    const code = errorCode(error);
+    if (code && CONNECTION_ERROR_CODES.has(code)) return "unavailable";
+  }
+  return null;
+}
+
+/**
+ * Position in the model chain of one agent turn. A rate-limited model is
+ * retried with exponential backoff before the next model is tried.
+ */
+export class ModelFailover {
+  private index = 0;
+  private rateLimitRetries = 0;
+
+  constructor(
+    private readonly chain: AgentConfig[],
+    private readonly maxRateLimitRetries = RATE_LIMIT_MAX_RETRIES
+  ) {}
+
+  get current(): AgentConfig {
+    return this.chain[this.index];
+  }
+
+  get isFallback(): boolean {
+    return this.index > 0;
+  }
+
+  /** Move to the next model; null at the end of the chain */
+  next(): AgentConfig | null {
+    if (this.index + 1 >= this.chain.length) return null;
+    this.index++;
+    this.rateLimitRetries = 0;
+    return this.current;
+  }
+
+  /** What to do after a provider failure of the current model */
+  onFailure(failure: ProviderFailure): FailoverStep {
+    if (failure === "rate_limited" && this.rateLimitRetries < this.maxRateLimitRetries) {
+      const attempt = ++this.rateLimitRetries;
+      return { action: "retry", attempt, delayMs: 1000 * Math.pow(2, attempt - 1) };
+    }
+    const from = this.current;
+    const to = this.next();
+    return to ? { action: "switch", from, to } : { action: "fail" };
+  }
+}
@@ -1,4 +1,4 @@
-import type { Config } from "../config/schema.js";
+import type { AgentConfig, Config } from "../config/schema.js";
 import {
   MAX_TOOL_RESULT_SIZE,
   COMPACTION_MAX_MESSAGES,
@@ -19,6 +19,12 @@ import {
   type ChatResponse,
 } from "./client.js";
 import { getProviderMetadata, type SupportedProvider } from "../config/providers.js";
+import {
+  buildModelChain,
+  classifyProviderError,
+  ModelFailover,
+  type ProviderFailure,
+} from "./failover.js";
 import { buildSystemPrompt } from "../soul/loader.js";
 import { getDatabase } from "../memory/index.js";
 import { sanitizeForContext } from "../utils/sanitize.js";
@@ -45,17 +51,23 @@ import type {
   UserMessage,
   ToolResultMessage,
   TextContent,
+  ImageContent,
   ToolCall,
 } from "@mariozechner/pi-ai";
 import { CompactionManager, DEFAULT_COMPACTION_CONFIG } from "../memory/compaction.js";
 import { maskOldToolResults } from "../memory/observation-masking.js";
 import { ContextBuilder } from "../memory/search/context.js";
+import { retrievalOptionsFromConfig } from "../memory/search/retriever.js";
 import type { EmbeddingProvider } from "../memory/embeddings/provider.js";
-import type { ToolRegistry } from "./tools/registry.js";
+import { matchesToolPattern, type ToolRegistry } from "./tools/registry.js";
 import type { ToolContext } from "./tools/types.js";
 import { appendToDailyLog, writeSessionEndSummary } from "../memory/daily-logs.js";
 import { saveSessionMemory } from "../session/memory-hook.js";
 import { createLogger } from "../utils/logger.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { getUsageTracker } from "./usage-tracker.js";
+import { withSpan } from "../tracing/tracer.js";
+import { getMcpAttachments } from "./tools/mcp-resources.js";
 
 const log = createLogger("Agent");
 
@@ -73,6 +85,15 @@ function isContextOverflowError(errorMessage?: string): boolean {
   );
 }
 
+/** Whether the model takes image input, so tool result images can be passed through */
+function acceptsImages(provider: SupportedProvider, modelId: string): boolean {
+  try {
+    return getProviderModel(provider, modelId).input.includes("image");
+  } catch {
+    return false;
+  }
+}
+
 function isTrivialMessage(text: string): boolean {
   const stripped = text.trim();
   if (stripped.length > 0 && !/[a-zA-Z0-9а-яА-ЯёЁ]/.test(stripped)) return true;
@@ -125,6 +146,25 @@ export interface AgentResponse {
   }>;
 }
 
+/**
+ * Receives the reply while it is generated (see telegram/reply-stream.ts).
+ * `update` gets the full reply text so far; `pause` is called when tool calls
+ * interrupt the text.
+ */
+export interface ReplyStream {
+  update(text: string): void;
+  pause(): void;
+}
+
+/** The model that produced the most recent reply */
+export interface AnsweringModel {
+  provider: string;
+  model: string;
+  /** True when a fallback answered instead of the primary model */
+  isFallback: boolean;
+  at: number;
+}
+
 export class AgentRuntime {
   private config: Config;
   private soul: string;
@@ -132,6 +172,7 @@ export class AgentRuntime {
   private contextBuilder: ContextBuilder | null = null;
   private toolRegistry: ToolRegistry | null = null;
   private embedder: EmbeddingProvider | null = null;
+  private lastModel: AnsweringModel | null = null;
 
   constructor(config: Config, soul?: string, toolRegistry?: ToolRegistry) {
     this.config = config;
@@ -158,7 +199,10 @@ export class AgentRuntime {
   initializeContextBuilder(embedder: EmbeddingProvider, vectorEnabled: boolean): void {
     this.embedder = embedder;
     const db = getDatabase().getDb();
-    this.contextBuilder = new ContextBuilder(db, embedder, vectorEnabled);
+    const retrieval = retrievalOptionsFromConfig(this.config.retrieval, this.config.agent);
+    // Pre-load the cross-encoder so the first reply does not wait for the download
+    void retrieval.reranker?.warmup?.();
+    this.contextBuilder = new ContextBuilder(db, embedder, vectorEnabled, retrieval);
   }
 
   getToolRegistry(): ToolRegistry | null {
@@ -176,9 +220,31 @@ export class AgentRuntime {
     senderUsername?: string,
     hasMedia?: boolean,
     mediaType?: string,
-    messageId?: number
+    messageId?: number,
+    transcript?: string,
+    replyStream?: ReplyStream
   ): Promise<AgentResponse> {
     try {
+      // Voice notes have no text body; search memory with what was said
+      const queryText = transcript ? `${userMessage}\n${transcript}`.trim() : userMessage;
+      const isAdmin =
+        toolContext?.config?.telegram.admin_ids.includes(toolContext.senderId) ?? false;
+
+      const usageTracker = getUsageTracker();
+      const budget = usageTracker?.checkBudget({
+        chatId,
+        userId: toolContext?.senderId,
+        isGroup: isGroup ?? false,
+        isAdmin,
+      });
+      if (budget?.exceeded && this.config.budget.on_exceeded === "decline") {
+        log.warn(`💸 Budget exceeded in ${chatId}: ${budget.reason}`);
+        return {
+          content: `Sorry, ${budget.reason} has been used up, so I can't reply right now. Please try again later.`,
+          toolCalls: [],
+        };
+      }
+
       let session = getOrCreateSession(chatId);
       const now = timestamp ?? Date.now();
 
@@ -231,6 +297,7 @@ export class AgentRuntime {
         hasMedia,
         mediaType,
         messageId,
+        transcript,
       });
 
       if (pendingContext) {
@@ -246,16 +313,26 @@ export class AgentRuntime {
       log.info(`📨 ${msgType}: "${preview}${formattedMessage.length > 50 ? "..." : ""}"`);
 
       let relevantContext = "";
-      if (this.contextBuilder && !isTrivialMessage(userMessage)) {
+      const contextBuilder = this.contextBuilder;
+      if (contextBuilder && !isTrivialMessage(queryText)) {
         try {
-          const dbContext = await this.contextBuilder.buildContext({
-            query: userMessage,
-            chatId,
-            includeAgentMemory: true,
-            includeFeedHistory: true,
-            searchAllChats: !isGroup,
-            maxRecentMessages: CONTEXT_MAX_RECENT_MESSAGES,
-            maxRelevantChunks: CONTEXT_MAX_RELEVANT_CHUNKS,
+          const dbContext = await withSpan("rag.retrieve", {}, async (span) => {
+            const built = await contextBuilder.buildContext({
+              query: queryText,
+              chatId,
+              senderId: toolContext?.senderId ? String(toolContext.senderId) : undefined,
+              includeAgentMemory: true,
+              includeFeedHistory: true,
+              // Messages from other chats only reach the admins' DMs
+              searchAllChats: !isGroup && isAdmin,
+              maxRecentMessages: CONTEXT_MAX_RECENT_MESSAGES,
+              maxRelevantChunks: CONTEXT_MAX_RELEVANT_CHUNKS,
+            });
+            span.setAttributes({
+              "rag.knowledge_chunks": built.relevantKnowledge.length,
+              "rag.feed_messages": built.relevantFeed.length,
+            });
+            return built;
           });
 
           const contextParts: string[] = [];
@@ -276,11 +353,32 @@ export class AgentRuntime {
             );
           }
 
+          const attached = getMcpAttachments()?.render(isGroup ?? false, isAdmin);
+          if (attached) contextParts.push(attached);
+
           if (contextParts.length > 0) {
+            contextParts.push(
+              `[Each item above starts with its source tag, e.g. [[kb:...]] or [[msg:...]]. When your answer relies on one, copy its tag verbatim after the statement so the user can check the source.]`
+            );
             relevantContext = contextParts.join("\n\n");
             log.debug(
               `🔍 Found ${dbContext.relevantKnowledge.length} knowledge chunks, ${dbContext.relevantFeed.length} feed messages`
             );
+            for (const source of dbContext.sources) {
+              if (source.score === undefined) continue;
+              log.debug(
+                `🔍 ${source.citation} score=${source.score.toFixed(3)}` +
+                  (source.vectorScore !== undefined
+                    ? ` vector=${source.vectorScore.toFixed(3)}`
+                    : "") +
+                  (source.keywordScore !== undefined
+                    ? ` keyword=${source.keywordScore.toFixed(3)}`
+                    : "") +
+                  (source.rerankScore !== undefined
+                    ? ` rerank=${source.rerankScore.toFixed(3)}`
+                    : "")
+              );
+            }
           }
         } catch (error) {
           log.warn({ err: error }, "Context building failed");
@@ -338,10 +436,18 @@ export class AgentRuntime {
 
       appendToTranscript(session.sessionId, userMsg);
 
-      const provider = (this.config.agent.provider || "anthropic") as SupportedProvider;
+      const modelChain = buildModelChain(this.config.agent);
+      if (budget?.exceeded) {
+        // on_exceeded: utility_model — answer cheaply, without failover to pricier models
+        const primary = (this.config.agent.provider || "anthropic") as SupportedProvider;
+        const model = this.config.agent.utility_model || getProviderMetadata(primary).utilityModel;
+        log.warn(`💸 Budget exceeded in ${chatId} (${budget.reason}), answering with ${model}`);
+        modelChain.splice(0, modelChain.length, { ...this.config.agent, model, fallbacks: [] });
+      }
+      const models = new ModelFailover(modelChain);
+      let agentConfig = models.current;
+      let provider = (agentConfig.provider || "anthropic") as SupportedProvider;
       const providerMeta = getProviderMetadata(provider);
-      const isAdmin =
-        toolContext?.config?.telegram.admin_ids.includes(toolContext.senderId) ?? false;
 
       let tools: PiAiTool[] | undefined;
       {
@@ -349,23 +455,32 @@ export class AgentRuntime {
         const useRAG =
           toolIndex?.isIndexed &&
           this.config.tool_rag?.enabled !== false &&
-          !isTrivialMessage(userMessage) &&
+          !isTrivialMessage(queryText) &&
           !(
             providerMeta.toolLimit === null &&
             this.config.tool_rag?.skip_unlimited_providers !== false
           );
 
-        if (useRAG && this.toolRegistry && this.embedder) {
-          const queryEmbedding = await this.embedder.embedQuery(userMessage);
-          tools = await this.toolRegistry.getForContextWithRAG(
-            userMessage,
-            queryEmbedding,
-            isGroup ?? false,
-            providerMeta.toolLimit,
-            chatId,
-            isAdmin
-          );
-          log.info(`🔍 Tool RAG: ${tools.length}/${this.toolRegistry.count} tools selected`);
+        const toolRegistry = this.toolRegistry;
+        const embedder = this.embedder;
+        if (useRAG && toolRegistry && embedder) {
+          tools = await withSpan("tool_rag.select", {}, async (span) => {
+            const queryEmbedding = await embedder.embedQuery(queryText);
+            const selected = await toolRegistry.getForContextWithRAG(
+              queryText,
+              queryEmbedding,
+              isGroup ?? false,
+              providerMeta.toolLimit,
+              chatId,
+              isAdmin
+            );
+            span.setAttributes({
+              "tool_rag.selected": selected.length,
+              "tool_rag.available": toolRegistry.count,
+            });
+            return selected;
+          });
+          log.info(`🔍 Tool RAG: ${tools.length}/${toolRegistry.count} tools selected`);
         } else {
           tools = this.toolRegistry?.getForContext(
             isGroup ?? false,
@@ -374,17 +489,61 @@ export class AgentRuntime {
             isAdmin
           );
         }
+        const allowedTools = toolContext?.allowedTools;
+        if (tools && allowedTools) {
+          tools = tools.filter((t) => matchesToolPattern(t.name, allowedTools));
+        }
       }
 
       const maxIterations = this.config.agent.max_agentic_iterations || 5;
       let iteration = 0;
       let overflowResets = 0;
-      let rateLimitRetries = 0;
       let finalResponse: ChatResponse | null = null;
       const totalToolCalls: Array<{ name: string; input: Record<string, unknown> }> = [];
       const accumulatedTexts: string[] = [];
       const accumulatedUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalCost: 0 };
 
+      // Switch to the next model in the chain; the conversation context carries over
+      const useModel = (next: AgentConfig, reason: string): void => {
+        const from = `${provider}/${agentConfig.model}`;
+        agentConfig = next;
+        provider = agentConfig.provider as SupportedProvider;
+        log.warn(`🔀 ${from} failed (${reason}), falling back to ${provider}/${agentConfig.model}`);
+
+        const toolLimit = getProviderMetadata(provider).toolLimit;
+        if (tools && toolLimit !== null && tools.length > toolLimit) {
+          tools = tools.slice(0, toolLimit);
+        }
+      };
+      const failover = (reason: string): boolean => {
+        const next = models.next();
+        if (next) useModel(next, reason);
+        return next !== null;
+      };
+
+      // Retry a rate-limited model, then fail over; false when the chain is exhausted
+      const recover = async (failure: ProviderFailure, reason: string): Promise<boolean> => {
+        const step = models.onFailure(failure);
+        if (step.action === "retry") {
+          log.warn(
+            `🚫 Rate limited, retrying in ${step.delayMs}ms (attempt ${step.attempt}/${RATE_LIMIT_MAX_RETRIES})...`
+          );
+          await new Promise((r) => setTimeout(r, step.delayMs));
+          return true;
+        }
+        if (step.action === "switch") {
+          useModel(step.to, reason);
+          return true;
+        }
+        if (failure === "rate_limited") {
+          log.error(`🚫 Rate limited after ${RATE_LIMIT_MAX_RETRIES} retries: ${reason}`);
+          throw new Error(
+            `API rate limited after ${RATE_LIMIT_MAX_RETRIES} retries. Please try again later.`
+          );
+        }
+        return false;
+      };
+
       while (iteration < maxIterations) {
         iteration++;
         log.debug(`🔄 Agentic iteration ${iteration}/${maxIterations}`);
@@ -396,19 +555,40 @@ export class AgentRuntime {
         );
         const maskedContext: Context = { ...context, messages: maskedMessages };
 
-        const response: ChatResponse = await chatWithContext(this.config.agent, {
-          systemPrompt,
-          context: maskedContext,
-          sessionId: session.sessionId,
-          persistTranscript: true,
-          tools,
-        });
+        let response: ChatResponse;
+        try {
+          response = await chatWithContext(agentConfig, {
+            systemPrompt,
+            context: maskedContext,
+            sessionId: session.sessionId,
+            persistTranscript: true,
+            tools,
+            ...(replyStream && {
+              // The final reply joins the text of every iteration, so stream it the same way
+              onTextDelta: (text: string) =>
+                replyStream.update([...accumulatedTexts, text].join("\n").trim()),
+              onToolCallStart: () => replyStream.pause(),
+            }),
+          });
+        } catch (error) {
+          // Provider outages and rate limits only; local errors are not retried
+          const failure = classifyProviderError(error);
+          if (failure && (await recover(failure, getErrorMessage(error)))) {
+            iteration--;
+            continue;
+          }
+          throw error;
+        }
 
         const assistantMsg = response.message;
         if (assistantMsg.stopReason === "error") {
           const errorMsg = assistantMsg.errorMessage || "";
 
           if (isContextOverflowError(errorMsg)) {
+            if (failover("context overflow")) {
+              iteration--;
+              continue;
+            }
             overflowResets++;
             if (overflowResets > 1) {
               throw new Error(
@@ -438,25 +618,15 @@ export class AgentRuntime {
 
             log.info(`🔄 Retrying with fresh context...`);
             continue;
-          } else if (errorMsg.toLowerCase().includes("rate") || errorMsg.includes("429")) {
-            rateLimitRetries++;
-            if (rateLimitRetries <= RATE_LIMIT_MAX_RETRIES) {
-              const delay = 1000 * Math.pow(2, rateLimitRetries - 1);
-              log.warn(
-                `🚫 Rate limited, retrying in ${delay}ms (attempt ${rateLimitRetries}/${RATE_LIMIT_MAX_RETRIES})...`
-              );
-              await new Promise((r) => setTimeout(r, delay));
-              iteration--;
-              continue;
-            }
-            log.error(`🚫 Rate limited after ${RATE_LIMIT_MAX_RETRIES} retries: ${errorMsg}`);
-            throw new Error(
-              `API rate limited after ${RATE_LIMIT_MAX_RETRIES} retries. Please try again later.`
-            );
-          } else {
-            log.error(`🚨 API error: ${errorMsg}`);
-            throw new Error(`API error: ${errorMsg || "Unknown error"}`);
           }
+
+          const failure = classifyProviderError(errorMsg);
+          if (failure && (await recover(failure, errorMsg))) {
+            iteration--;
+            continue;
+          }
+          log.error(`🚨 API error: ${errorMsg}`);
+          throw new Error(`API error: ${errorMsg || "Unknown error"}`);
         }
 
         // Accumulate usage across all iterations
@@ -467,13 +637,28 @@ export class AgentRuntime {
           accumulatedUsage.cacheRead += iterUsage.cacheRead ?? 0;
           accumulatedUsage.cacheWrite += iterUsage.cacheWrite ?? 0;
           accumulatedUsage.totalCost += iterUsage.cost?.total ?? 0;
+
+          usageTracker?.record({
+            chatId,
+            userId: toolContext?.senderId,
+            isGroup: isGroup ?? false,
+            provider,
+            model: agentConfig.model,
+            inputTokens: iterUsage.input,
+            outputTokens: iterUsage.output,
+            cacheReadTokens: iterUsage.cacheRead ?? 0,
+            cacheWriteTokens: iterUsage.cacheWrite ?? 0,
+            costUsd: iterUsage.cost?.total ?? 0,
+          });
         }
 
         if (response.text) {
           accumulatedTexts.push(response.text);
         }
 
-        const toolCalls = response.message.content.filter((block) => block.type === "toolCall");
+        const toolCalls = response.message.content.filter(
+          (block): block is ToolCall => block.type === "toolCall"
+        );
 
         if (toolCalls.length === 0) {
           log.info(`🔄 ${iteration}/${maxIterations} → done`);
@@ -492,16 +677,21 @@ export class AgentRuntime {
 
         const iterationToolNames: string[] = [];
 
-        for (const block of toolCalls) {
-          if (block.type !== "toolCall") continue;
+        const fullContext: ToolContext = {
+          ...toolContext,
+          chatId,
+          isGroup: isGroup ?? false,
+        };
 
-          const fullContext: ToolContext = {
-            ...toolContext,
-            chatId,
-            isGroup: isGroup ?? false,
-          };
+        // Independent read-only calls run concurrently; results keep the call order
+        const results = await this.toolRegistry.executeAll(
+          toolCalls,
+          fullContext,
+          this.config.agent.max_parallel_tools
+        );
 
-          const result = await this.toolRegistry.execute(block, fullContext);
+        for (const [index, block] of toolCalls.entries()) {
+          const result = results[index];
 
           log.debug(`${block.name}: ${result.success ? "✓" : "✗"} ${result.error || ""}`);
           iterationToolNames.push(`${block.name} ${result.success ? "✓" : "✗"}`);
@@ -511,7 +701,9 @@ export class AgentRuntime {
             input: block.arguments,
           });
 
-          let resultText = JSON.stringify(result, null, 2);
+          // Images go in separate content blocks, never into the JSON text
+          const { images, ...serializable } = result;
+          let resultText = JSON.stringify(serializable, null, 2);
           if (resultText.length > MAX_TOOL_RESULT_SIZE) {
             log.warn(`⚠️ Tool result too large (${resultText.length} chars), truncating...`);
             const data = result.data as Record<string, unknown> | undefined;
@@ -534,6 +726,15 @@ export class AgentRuntime {
             }
           }
 
+          const imageBlocks: ImageContent[] = [];
+          if (images?.length) {
+            if (acceptsImages(provider, agentConfig.model)) {
+              imageBlocks.push(...images.map((img) => ({ type: "image" as const, ...img })));
+            } else {
+              resultText += `\n[${images.length} image(s) omitted: ${agentConfig.model} has no vision support]`;
+            }
+          }
+
           if (provider === "cocoon") {
             // Cocoon/Qwen3: tool results as <tool_response> in a user message
             const { wrapToolResult } = await import("../cocoon/tool-adapter.js");
@@ -544,6 +745,7 @@ export class AgentRuntime {
                   type: "text",
                   text: wrapToolResult(resultText),
                 },
+                ...imageBlocks,
               ],
               timestamp: Date.now(),
             };
@@ -559,6 +761,7 @@ export class AgentRuntime {
                   type: "text",
                   text: resultText,
                 },
+                ...imageBlocks,
               ],
               isError: !result.success,
               timestamp: Date.now(),
@@ -601,6 +804,13 @@ export class AgentRuntime {
 
       const response = finalResponse;
 
+      this.lastModel = {
+        provider,
+        model: agentConfig.model,
+        isFallback: models.isFallback,
+        at: Date.now(),
+      };
+
       const lastMsg = context.messages[context.messages.length - 1];
       if (lastMsg?.role !== "assistant") {
         context.messages.push(response.message);
@@ -619,15 +829,15 @@ export class AgentRuntime {
           sessionId: newSessionId,
           updatedAt: Date.now(),
           messageCount: session.messageCount + 1,
-          model: this.config.agent.model,
-          provider: this.config.agent.provider,
+          model: agentConfig.model,
+          provider,
         });
       } else {
         updateSession(chatId, {
           updatedAt: Date.now(),
           messageCount: session.messageCount + 1,
-          model: this.config.agent.model,
-          provider: this.config.agent.provider,
+          model: agentConfig.model,
+          provider,
         });
       }
 
@@ -688,6 +898,11 @@ export class AgentRuntime {
     return this.config;
   }
 
+  /** Model that answered the most recent message (null until the first reply) */
+  getLastModel(): AnsweringModel | null {
+    return this.lastModel;
+  }
+
   getActiveChatIds(): string[] {
     const db = getDatabase().getDb();
 
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ToolRegistry } from "../registry.js";
+import {
+  loadMcpServers,
+  registerMcpTools,
+  closeMcpServers,
+  McpMonitor,
+  type McpConnection,
+} from "../mcp-loader.js";
+import { McpConfigSchema } from "../../../config/schema.js";
+import type { ToolContext } from "../types.js";
+import { Tracer, setTracer, withTrace } from "../../../tracing/tracer.js";
+
+/**
+ * HTTP and SSE client transports are replaced with in-memory pairs wired to
+ * an in-process McpServer exposing `fake.state.tools`.
+ */
+const fake = await vi.hoisted(async () => {
+  const { InMemoryTransport } = await import("@modelcontextprotocol/sdk/inMemory.js");
+  const { McpServer } = await import("@modelcontextprotocol/sdk/server/mcp.js");
+  const { z } = await import("zod");
+
+  const state = {
+    tools: ["echo"],
+    failHttp: false,
+    down: false,
+    requests: [] as Array<{ kind: string; url: string; headers: unknown }>,
+    servers: [] as Array<InstanceType<typeof McpServer>>,
+  };
+
+  function transport(kind: "http" | "sse", url: URL, opts?: { requestInit?: RequestInit }) {
+    state.requests.push({ kind, url: url.href, headers: opts?.requestInit?.headers });
+    if (state.down) throw new Error("ECONNREFUSED");
+    if (kind === "http" && state.failHttp) throw new Error("HTTP 405");
+
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    const mcp = new McpServer({ name: "fake", version: "1.0.0" });
+    for (const name of state.tools) {
+      mcp.registerTool(
+        name,
+        { description: `Tool ${name}`, inputSchema: { text: z.string() } },
+        async ({ text }, extra) => ({
+          content: [
+            { type: "text", text: `${name}:${text}:${String(extra._meta?.traceparent ?? "")}` },
+          ],
+        })
+      );
+    }
+    void mcp.connect(server);
+    state.servers.push(mcp);
+    return client;
+  }
+
+  return { state, transport };
+});
+
+vi.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+  StreamableHTTPClientTransport: class {
+    constructor(url: URL, opts?: { requestInit?: RequestInit }) {
+      return fake.transport("http", url, opts);
+    }
+  },
+}));
+
+vi.mock("@modelcontextprotocol/sdk/client/sse.js", () => ({
+  SSEClientTransport: class {
+    constructor(url: URL, opts?: { requestInit?: RequestInit }) {
+      return fake.transport("sse", url, opts);
+    }
+  },
+}));
+
+const context = { chatId: "1", senderId: 1, isGroup: false } as ToolContext;
+
+function config(server: Record<string, unknown>) {
+  return McpConfigSchema.parse({ servers: { remote: { url: "http://mcp.test/mcp", ...server } } });
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise((r) => setTimeout(r, 10));
+  expect(check()).toBe(true);
+}
+
+describe("MCP loader", () => {
+  let registry: ToolRegistry;
+  let connections: McpConnection[];
+  let monitor: McpMonitor | null;
+
+  beforeEach(() => {
+    fake.state.tools = ["echo"];
+    fake.state.failHttp = false;
+    fake.state.down = false;
+    fake.state.requests = [];
+    fake.state.servers = [];
+    registry = new ToolRegistry();
+    connections = [];
+    monitor = null;
+  });
+
+  afterEach(async () => {
+    await monitor?.stop();
+    await closeMcpServers(connections);
+  });
+
+  it("connects over Streamable HTTP with headers and bearer auth", async () => {
+    connections = await loadMcpServers(
+      config({ headers: { "X-Team": "ops" }, auth_token: "secret" })
+    );
+    const { count } = await registerMcpTools(connections, registry);
+
+    expect(count).toBe(1);
+    expect(connections[0]).toMatchObject({ transport: "http", health: "connected" });
+    expect(fake.state.requests).toEqual([
+      {
+        kind: "http",
+        url: "http://mcp.test/mcp",
+        headers: { "X-Team": "ops", Authorization: "Bearer secret" },
+      },
+    ]);
+
+    // The active span's traceparent is forwarded in _meta
+    setTracer(new Tracer([], 10));
+    try {
+      const result = await withTrace("test", {}, () =>
+        registry.execute(
+          { type: "toolCall", id: "c1", name: "mcp_remote_echo", arguments: { text: "hi" } },
+          context
+        )
+      );
+      expect(result.data).toMatch(/^echo:hi:00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    } finally {
+      setTracer(null);
+    }
+  });
+
+  it("falls back to SSE when Streamable HTTP fails, unless the transport is pinned", async () => {
+    fake.state.failHttp = true;
+    connections = await loadMcpServers(config({}));
+    expect(connections[0]).toMatchObject({ transport: "sse", health: "connected" });
+    expect(fake.state.requests.map((r) => r.kind)).toEqual(["http", "sse"]);
+
+    await closeMcpServers(connections);
+    connections = await loadMcpServers(config({ transport: "http" }));
+    expect(connections[0]).toMatchObject({
+      client: null,
+      health: "reconnecting",
+      lastError: "HTTP 405",
+    });
+  });
+
+  it("reconnects a dropped server and reports the outage meanwhile", async () => {
+    connections = await loadMcpServers(config({}));
+    await registerMcpTools(connections, registry);
+    monitor = new McpMonitor(connections, registry, {
+      healthCheckIntervalMs: 0,
+      maxReconnectDelayMs: 20,
+    });
+    monitor.start();
+
+    const conn = connections[0];
+    const call = () =>
+      registry.execute(
+        { type: "toolCall", id: "c2", name: "mcp_remote_echo", arguments: { text: "x" } },
+        context
+      );
+
+    // Server goes away: the transport closes and tools report the outage
+    fake.state.down = true;
+    await fake.state.servers[0].close();
+    expect(conn).toMatchObject({ health: "reconnecting", client: null });
+    expect((await call()).error).toMatch(/unavailable \(reconnecting\)/);
+    await waitFor(() => conn.reconnectAttempts >= 2);
+    expect(conn.lastError).toBe("ECONNREFUSED");
+
+    fake.state.down = false;
+    await waitFor(() => conn.health === "connected");
+    expect(conn.reconnectAttempts).toBe(0);
+    expect(await call()).toEqual({ success: true, data: "echo:x:" });
+  });
+
+  it("refreshes tool lists and notifies onToolsChanged", async () => {
+    connections = await loadMcpServers(config({}));
+    await registerMcpTools(connections, registry);
+    monitor = new McpMonitor(connections, registry, {
+      healthCheckIntervalMs: 0,
+      maxReconnectDelayMs: 20,
+    });
+    monitor.start();
+    const changes: Array<[string[], string[]]> = [];
+    registry.onToolsChanged((removed, added) => changes.push([removed, added.map((t) => t.name)]));
+
+    await monitor.checkAll();
+    expect(changes).toEqual([]);
+
+    // The server restarts with a different tool set
+    fake.state.tools = ["search"];
+    await fake.state.servers[0].close();
+    await waitFor(() => registry.has("mcp_remote_search"));
+
+    expect(registry.has("mcp_remote_echo")).toBe(false);
+    expect(changes).toEqual([[["mcp_remote_echo"], ["mcp_remote_search"]]]);
+    expect(connections[0].health).toBe("connected");
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ToolRegistry } from "../registry.js";
+import { convertMcpContent, registerMcpTools, type McpConnection } from "../mcp-loader.js";
+import { createMcpResourceTools, McpResourceAttachments } from "../mcp-resources.js";
+import { listMcpPrompts, parsePromptArguments, renderMcpPrompt } from "../mcp-prompts.js";
+import type { McpServerConfig } from "../../../config/schema.js";
+import { MCP_MAX_IMAGE_BYTES, MCP_MAX_IMAGES } from "../../../constants/limits.js";
+import type { ToolContext, ToolScope } from "../types.js";
+
+const PNG = "iVBORw0KGgo=";
+
+/** In-process server with resources (subscribable), prompts and an image tool */
+function createServer(docs: Map<string, string>) {
+  const mcp = new McpServer(
+    { name: "docs", version: "1.0.0" },
+    { capabilities: { resources: { subscribe: true } } }
+  );
+  for (const uri of docs.keys()) {
+    mcp.registerResource(uri, uri, { mimeType: "text/plain" }, async () => ({
+      contents: [{ uri, text: docs.get(uri) ?? "" }],
+    }));
+  }
+  mcp.registerResource("logo", "file:///logo.png", { mimeType: "image/png" }, async () => ({
+    contents: [{ uri: "file:///logo.png", mimeType: "image/png", blob: PNG }],
+  }));
+  mcp.server.setRequestHandler(SubscribeRequestSchema, async () => ({}));
+  mcp.registerPrompt(
+    "summarize",
+    { description: "Summarize a topic", argsSchema: { topic: z.string() } },
+    ({ topic }) => ({
+      messages: [{ role: "user", content: { type: "text", text: `Summarize ${topic}` } }],
+    })
+  );
+  mcp.registerTool("chart", { description: "Draw a chart" }, async () => ({
+    content: [
+      { type: "text", text: "Chart ready" },
+      { type: "image", data: PNG, mimeType: "image/png" },
+    ],
+  }));
+  return mcp;
+}
+
+async function connect(
+  mcp: McpServer,
+  scope: ToolScope = "always",
+  config: Partial<McpServerConfig> = {}
+): Promise<McpConnection> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await mcp.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return {
+    serverName: "docs",
+    config: { enabled: true, ...config } as McpServerConfig,
+    client,
+    scope,
+    transport: "stdio",
+    health: "connected",
+    lastError: null,
+    lastSeenAt: Date.now(),
+    reconnectAttempts: 0,
+  };
+}
+
+function context(isGroup = false): ToolContext {
+  return { chatId: "1", senderId: 1, isGroup } as ToolContext;
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise((r) => setTimeout(r, 10));
+  expect(check()).toBe(true);
+}
+
+describe("MCP resources and prompts", () => {
+  let docs: Map<string, string>;
+  let mcp: McpServer;
+  let conn: McpConnection;
+
+  beforeEach(() => {
+    docs = new Map([["notes://handbook", "Deploys happen on Tuesdays."]]);
+    mcp = createServer(docs);
+  });
+
+  afterEach(async () => {
+    await conn?.client?.close();
+    await mcp.close();
+  });
+
+  it("converts non-text MCP content instead of dropping it", () => {
+    expect(
+      convertMcpContent([
+        { type: "text", text: "Result" },
+        { type: "image", data: PNG, mimeType: "image/png" },
+        { type: "resource", resource: { uri: "file:///a.md", text: "# A" } },
+        { type: "resource", resource: { uri: "file:///b.gif", mimeType: "image/gif", blob: PNG } },
+        {
+          type: "resource",
+          resource: { uri: "file:///c.zip", mimeType: "application/zip", blob: "" },
+        },
+        { type: "resource_link", uri: "file:///d.txt", name: "d.txt" },
+        { type: "audio", data: "", mimeType: "audio/wav" },
+      ])
+    ).toEqual({
+      text: [
+        "Result",
+        "[image 1: image/png]",
+        "[resource file:///a.md]\n# A",
+        "[image 2: file:///b.gif]",
+        "[resource file:///c.zip: application/zip content omitted]",
+        "[resource link: d.txt (file:///d.txt)]",
+        "[audio content (audio/wav) omitted]",
+      ].join("\n"),
+      images: [
+        { data: PNG, mimeType: "image/png" },
+        { data: PNG, mimeType: "image/gif" },
+      ],
+    });
+  });
+
+  it("omits images over the size and count limits", () => {
+    const large = Buffer.alloc(MCP_MAX_IMAGE_BYTES + 1).toString("base64");
+    const { text, images } = convertMcpContent([
+      { type: "image", data: large, mimeType: "image/png" },
+      ...Array.from({ length: MCP_MAX_IMAGES + 1 }, () => ({
+        type: "image",
+        data: PNG,
+        mimeType: "image/png",
+      })),
+    ]);
+
+    expect(images).toHaveLength(MCP_MAX_IMAGES);
+    expect(text.split("\n")).toEqual([
+      `[image image/png omitted: ${MCP_MAX_IMAGE_BYTES + 1} bytes, over the ${MCP_MAX_IMAGE_BYTES} limit]`,
+      ...Array.from({ length: MCP_MAX_IMAGES }, (_, i) => `[image ${i + 1}: image/png]`),
+      `[image image/png omitted: more than ${MCP_MAX_IMAGES} images]`,
+    ]);
+  });
+
+  it("returns tool images alongside the text result", async () => {
+    conn = await connect(mcp);
+    const registry = new ToolRegistry();
+    await registerMcpTools([conn], registry);
+
+    const result = await registry.execute(
+      { type: "toolCall", id: "c1", name: "mcp_docs_chart", arguments: {} },
+      context()
+    );
+    expect(result).toEqual({
+      success: true,
+      data: "Chart ready\n[image 1: image/png]",
+      images: [{ data: PNG, mimeType: "image/png" }],
+    });
+  });
+
+  it("lists and reads resources through the generic tools, honoring scope", async () => {
+    conn = await connect(mcp, "dm-only");
+    const [list, read] = createMcpResourceTools([conn]);
+
+    const listed = await list.executor({}, context());
+    expect(listed.data).toMatchObject({
+      servers: [
+        {
+          server: "docs",
+          resources: [
+            { uri: "notes://handbook", mimeType: "text/plain" },
+            { uri: "file:///logo.png", mimeType: "image/png" },
+          ],
+        },
+      ],
+    });
+
+    expect(await read.executor({ server: "docs", uri: "notes://handbook" }, context())).toEqual({
+      success: true,
+      data: {
+        server: "docs",
+        uri: "notes://handbook",
+        content: "[resource notes://handbook]\nDeploys happen on Tuesdays.",
+      },
+    });
+    const image = await read.executor({ server: "docs", uri: "file:///logo.png" }, context());
+    expect(image.images).toEqual([{ data: PNG, mimeType: "image/png" }]);
+
+    // A dm-only server is invisible in groups
+    expect(await list.executor({}, context(true))).toEqual({
+      success: true,
+      data: { servers: [] },
+    });
+    expect(
+      (await read.executor({ server: "docs", uri: "notes://handbook" }, context(true))).error
+    ).toBe('Unknown MCP server "docs"');
+  });
+
+  it("keeps attached resources current through subscriptions", async () => {
+    conn = await connect(mcp, "always", { attach_resources: ["notes://handbook"] });
+    const attachments = new McpResourceAttachments(40);
+    await attachments.attach(conn);
+
+    expect(attachments.render(false, false)).toBe(
+      "[Attached MCP resources]\n[[mcp:docs|notes://handbook]] Deploys happen on Tuesdays."
+    );
+
+    docs.set("notes://handbook", "Deploys moved to Thursdays, see [[kb:fake]] for details.");
+    await mcp.server.sendResourceUpdated({ uri: "notes://handbook" });
+    await waitFor(() => attachments.render(false, false).includes("Thursdays"));
+    // Truncated to the limit, with forged citation tags removed
+    expect(attachments.render(false, false)).toBe(
+      "[Attached MCP resources]\n[[mcp:docs|notes://handbook]] Deploys moved to Thursdays, see  for det\n...[TRUNCATED]"
+    );
+  });
+
+  it("lists and renders prompts with parsed arguments", async () => {
+    conn = await connect(mcp);
+
+    expect(await listMcpPrompts([conn])).toEqual({
+      prompts: [
+        {
+          server: "docs",
+          name: "summarize",
+          description: "Summarize a topic",
+          arguments: [{ name: "topic", required: true }],
+        },
+      ],
+      errors: [],
+    });
+
+    const args = parsePromptArguments('topic="release notes" extra=1');
+    expect(args).toEqual({ topic: "release notes", extra: "1" });
+    expect(parsePromptArguments("topic")).toBeNull();
+
+    expect(await renderMcpPrompt([conn], "docs", "summarize", { topic: "release notes" })).toBe(
+      "Summarize release notes"
+    );
+    await expect(renderMcpPrompt([conn], "other", "summarize", {})).rejects.toThrow(
+      'Unknown MCP server "other"'
+    );
+  });
+});
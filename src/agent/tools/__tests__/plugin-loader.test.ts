@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigSchema, type Config } from "../../../config/schema.js";
+
+const RAW_MANIFEST = {
+  name: "raw-probe",
+  version: "1.0.0",
+  permissions: { capabilities: ["telegram.raw"] },
+};
+
+const sandbox = vi.hoisted(() => ({
+  describe: vi.fn(),
+  close: vi.fn(async () => {}),
+}));
+
+vi.mock("../../../sdk/sandbox/host.js", () => ({
+  PluginSandbox: { spawn: vi.fn(() => sandbox) },
+}));
+
+import { loadPlugin } from "../plugin-loader.js";
+
+describe("loadPlugin with telegram.raw", () => {
+  let dir: string;
+  let modulePath: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "teleton-plugin-loader-"));
+    modulePath = join(dir, "index.js");
+    writeFileSync(
+      modulePath,
+      `export const manifest = ${JSON.stringify(RAW_MANIFEST)};\nexport const tools = [];\n`
+    );
+    sandbox.describe.mockResolvedValue({ manifest: RAW_MANIFEST, tools: "array", hooks: [] });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const config = (trusted: string[]): Config =>
+    ConfigSchema.parse({
+      agent: { api_key: "sk-test" },
+      telegram: { api_id: 1, api_hash: "hash", phone: "+10000000000" },
+      plugin_sandbox: { trusted },
+    });
+
+  it("refuses a plugin that is not trusted", async () => {
+    await expect(loadPlugin("raw-probe", modulePath, config([]), [], {} as never)).rejects.toThrow(
+      /not listed in plugin_sandbox.trusted/
+    );
+    expect(sandbox.close).toHaveBeenCalled();
+  });
+
+  it("imports a trusted plugin into the agent process", async () => {
+    const module = await loadPlugin(
+      "raw-probe",
+      modulePath,
+      config(["raw-probe"]),
+      [],
+      {} as never
+    );
+
+    expect(module.name).toBe("raw-probe");
+    expect(module.sandboxed).toBe(false);
+  });
+});
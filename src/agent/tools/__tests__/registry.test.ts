@@ -516,6 +516,105 @@ describe("ToolRegistry", () => {
     });
   });
 
+  describe("executeAll()", () => {
+    const call = (name: string, id: string): ToolCall => ({
+      type: "toolCall",
+      id,
+      name,
+      arguments: { message: id },
+    });
+
+    // Executor that records start/end events and resolves after `ms`
+    const createTrackedExecutor = (events: string[], ms: number): ToolExecutor =>
+      vi.fn(async (params: { message: string }) => {
+        events.push(`start:${params.message}`);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        events.push(`end:${params.message}`);
+        return { success: true, data: params.message };
+      });
+
+    it("runs data-bearing calls concurrently and keeps results in call order", async () => {
+      const events: string[] = [];
+      registry.register(
+        createMockTool("slow_read", "data-bearing"),
+        createTrackedExecutor(events, 20)
+      );
+      registry.register(
+        createMockTool("fast_read", "data-bearing"),
+        createTrackedExecutor(events, 1)
+      );
+
+      const results = await registry.executeAll(
+        [call("slow_read", "a"), call("fast_read", "b")],
+        mockContext,
+        4
+      );
+
+      expect(events).toEqual(["start:a", "start:b", "end:b", "end:a"]);
+      expect(results.map((r) => r.data)).toEqual(["a", "b"]);
+    });
+
+    it("caps the number of concurrent calls", async () => {
+      let running = 0;
+      let peak = 0;
+      registry.register(
+        createMockTool("read", "data-bearing"),
+        vi.fn(async () => {
+          peak = Math.max(peak, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return { success: true };
+        })
+      );
+
+      const calls = ["1", "2", "3", "4", "5"].map((id) => call("read", id));
+      const results = await registry.executeAll(calls, mockContext, 2);
+
+      expect(results).toHaveLength(5);
+      expect(peak).toBe(2);
+    });
+
+    it("runs action tools alone, in order", async () => {
+      const events: string[] = [];
+      registry.register(createMockTool("read", "data-bearing"), createTrackedExecutor(events, 5));
+      registry.register(createMockTool("write", "action"), createTrackedExecutor(events, 1));
+
+      await registry.executeAll(
+        [call("read", "a"), call("write", "b"), call("read", "c")],
+        mockContext,
+        4
+      );
+
+      expect(events).toEqual(["start:a", "end:a", "start:b", "end:b", "start:c", "end:c"]);
+    });
+
+    it("honors an explicit parallelSafe flag", () => {
+      registry.register(
+        { ...createMockTool("pure_action", "action"), parallelSafe: true },
+        createMockExecutor()
+      );
+      registry.register(
+        { ...createMockTool("stateful_read", "data-bearing"), parallelSafe: false },
+        createMockExecutor()
+      );
+      registry.register(createMockTool("uncategorized"), createMockExecutor());
+
+      expect(registry.isParallelSafe("pure_action")).toBe(true);
+      expect(registry.isParallelSafe("stateful_read")).toBe(false);
+      expect(registry.isParallelSafe("uncategorized")).toBe(false);
+      expect(registry.isParallelSafe("missing")).toBe(false);
+    });
+
+    it("never parallelizes Telegram send tools", () => {
+      registry.register(
+        { ...createMockTool("telegram_send_message", "data-bearing"), parallelSafe: true },
+        createMockExecutor()
+      );
+
+      expect(registry.isParallelSafe("telegram_send_message")).toBe(false);
+    });
+  });
+
   // ---------- Tool configuration ----------
 
   describe("loadConfigFromDB()", () => {
@@ -3,6 +3,7 @@ import type { Tool, ToolExecutor, ToolResult } from "../types.js";
 import type { Deal } from "../../../deals/types.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { dealTransitions } from "../../../metrics/index.js";
 
 const log = createLogger("Tools");
 
@@ -79,6 +80,7 @@ export const dealCancelExecutor: ToolExecutor<DealCancelParams> = async (
       WHERE id = ?`
       )
       .run(notes, notes, dealId);
+    dealTransitions.inc({ status: "cancelled" });
 
     log.info(`[Deal] #${dealId} cancelled - reason: ${reason || "no reason given"}`);
 
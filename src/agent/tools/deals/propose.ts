@@ -9,6 +9,7 @@ import {
 } from "../../../deals/strategy-checker.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { dealTransitions } from "../../../metrics/index.js";
 
 const log = createLogger("Tools");
 
@@ -154,6 +155,7 @@ export const dealProposeExecutor: ToolExecutor<DealProposeParams> = async (
         createdAt,
         expiresAt
       );
+    dealTransitions.inc({ status: "proposed" });
 
     log.info(`[Deal] Created deal #${dealId} - profit: ${strategyCheck.profit.toFixed(2)} TON`);
 
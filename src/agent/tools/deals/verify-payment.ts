@@ -7,6 +7,7 @@ import { getWalletAddress } from "../../../ton/wallet-service.js";
 import { autoExecuteAfterVerification } from "../../../deals/executor.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { dealTransitions } from "../../../metrics/index.js";
 
 const log = createLogger("Tools");
 
@@ -77,6 +78,7 @@ export const dealVerifyPaymentExecutor: ToolExecutor<DealVerifyPaymentParams> =
           error: `Deal #${params.dealId} already transitioned by another process`,
         };
       }
+      dealTransitions.inc({ status: "expired" });
       return {
         success: false,
         error: `Deal #${params.dealId} has expired (2 minutes elapsed)`,
@@ -138,6 +140,7 @@ export const dealVerifyPaymentExecutor: ToolExecutor<DealVerifyPaymentParams> =
           error: `Deal #${params.dealId} already transitioned by another process (expected 'accepted')`,
         };
       }
+      dealTransitions.inc({ status: "verified" });
 
       log.info(
         `[Deal] Payment verified for #${params.dealId} - TX: ${verification.txHash?.slice(0, 8)}...`
@@ -219,6 +222,7 @@ export const dealVerifyPaymentExecutor: ToolExecutor<DealVerifyPaymentParams> =
           error: `Deal #${params.dealId} already transitioned by another process (expected 'accepted')`,
         };
       }
+      dealTransitions.inc({ status: "verified" });
 
       log.info(`[Deal] Gift verified for #${params.dealId} - msgId: ${matchingGift.msgId}`);
 
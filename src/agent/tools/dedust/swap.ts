@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, fromNano } from "@ton/ton";
 import { Address } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { Factory, Asset, PoolType, ReadinessStatus, JettonRoot, VaultJetton } from "@dedust/sdk";
 import { DEDUST_FACTORY_MAINNET, DEDUST_GAS, NATIVE_TON_ADDRESS } from "./constants.js";
 import { getDecimals, toUnits, fromUnits } from "./asset-cache.js";
@@ -93,144 +94,161 @@ export const dedustSwapExecutor: ToolExecutor<DedustSwapParams> = async (
       }
     }
 
-    const endpoint = await getCachedHttpEndpoint();
-    const tonClient = new TonClient({ endpoint });
+    return guardSpend(
+      {
+        tool: "dedust_swap",
+        kind: isTonInput ? "ton" : "jetton",
+        asset: isTonInput ? "TON" : fromAssetAddr,
+        symbol: isTonInput ? "TON" : "jetton",
+        amount,
+      },
+      context,
+      async () => {
+        const endpoint = await getCachedHttpEndpoint();
+        const tonClient = new TonClient({ endpoint });
 
-    const factory = tonClient.open(
-      Factory.createFromAddress(Address.parse(DEDUST_FACTORY_MAINNET))
-    );
+        const factory = tonClient.open(
+          Factory.createFromAddress(Address.parse(DEDUST_FACTORY_MAINNET))
+        );
 
-    const fromAssetObj = isTonInput ? Asset.native() : Asset.jetton(Address.parse(fromAssetAddr));
-    const toAssetObj = isTonOutput ? Asset.native() : Asset.jetton(Address.parse(toAssetAddr));
+        const fromAssetObj = isTonInput
+          ? Asset.native()
+          : Asset.jetton(Address.parse(fromAssetAddr));
+        const toAssetObj = isTonOutput ? Asset.native() : Asset.jetton(Address.parse(toAssetAddr));
 
-    const poolTypeEnum = pool_type === "stable" ? PoolType.STABLE : PoolType.VOLATILE;
+        const poolTypeEnum = pool_type === "stable" ? PoolType.STABLE : PoolType.VOLATILE;
 
-    const pool = tonClient.open(await factory.getPool(poolTypeEnum, [fromAssetObj, toAssetObj]));
+        const pool = tonClient.open(
+          await factory.getPool(poolTypeEnum, [fromAssetObj, toAssetObj])
+        );
 
-    const readinessStatus = await pool.getReadinessStatus();
-    if (readinessStatus !== ReadinessStatus.READY) {
-      return {
-        success: false,
-        error: `Pool not ready. Status: ${readinessStatus}. Try the other pool type (${pool_type === "volatile" ? "stable" : "volatile"}) or check if the pool exists.`,
-      };
-    }
+        const readinessStatus = await pool.getReadinessStatus();
+        if (readinessStatus !== ReadinessStatus.READY) {
+          return {
+            success: false,
+            error: `Pool not ready. Status: ${readinessStatus}. Try the other pool type (${pool_type === "volatile" ? "stable" : "volatile"}) or check if the pool exists.`,
+          };
+        }
 
-    // Resolve correct decimals using normalized addresses (friendly format)
-    const fromDecimals = await getDecimals(isTonInput ? "ton" : fromAssetAddr);
-    const toDecimals = await getDecimals(isTonOutput ? "ton" : toAssetAddr);
+        // Resolve correct decimals using normalized addresses (friendly format)
+        const fromDecimals = await getDecimals(isTonInput ? "ton" : fromAssetAddr);
+        const toDecimals = await getDecimals(isTonOutput ? "ton" : toAssetAddr);
 
-    // Convert amount using correct decimals
-    const amountIn = toUnits(amount, fromDecimals);
+        // Convert amount using correct decimals
+        const amountIn = toUnits(amount, fromDecimals);
 
-    const { amountOut, tradeFee } = await pool.getEstimatedSwapOut({
-      assetIn: fromAssetObj,
-      amountIn,
-    });
+        const { amountOut, tradeFee } = await pool.getEstimatedSwapOut({
+          assetIn: fromAssetObj,
+          amountIn,
+        });
 
-    // Calculate minimum output with slippage
-    const minAmountOut = amountOut - (amountOut * BigInt(Math.floor(slippage * 10000))) / 10000n;
+        // Calculate minimum output with slippage
+        const minAmountOut =
+          amountOut - (amountOut * BigInt(Math.floor(slippage * 10000))) / 10000n;
 
-    // Prepare wallet and sender
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
-    const walletContract = tonClient.open(wallet);
-    const sender = walletContract.sender(keyPair.secretKey);
-
-    if (isTonInput) {
-      // Check balance for TON swaps
-      const balance = await tonClient.getBalance(Address.parse(walletData.address));
-      const requiredAmount = amountIn + toNano(DEDUST_GAS.SWAP_TON_TO_JETTON);
-      if (balance < requiredAmount) {
-        return {
-          success: false,
-          error: `Insufficient balance. Have ${fromNano(balance)} TON, need ~${fromNano(requiredAmount)} TON (including gas).`,
-        };
-      }
+        // Prepare wallet and sender
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
+        const walletContract = tonClient.open(wallet);
+        const sender = walletContract.sender(keyPair.secretKey);
 
-      // TON -> Jetton swap using SDK's sendSwap method
-      const tonVault = tonClient.open(await factory.getNativeVault());
+        if (isTonInput) {
+          // Check balance for TON swaps
+          const balance = await tonClient.getBalance(Address.parse(walletData.address));
+          const requiredAmount = amountIn + toNano(DEDUST_GAS.SWAP_TON_TO_JETTON);
+          if (balance < requiredAmount) {
+            return {
+              success: false,
+              error: `Insufficient balance. Have ${fromNano(balance)} TON, need ~${fromNano(requiredAmount)} TON (including gas).`,
+            };
+          }
 
-      // Check vault readiness
-      const vaultStatus = await tonVault.getReadinessStatus();
-      if (vaultStatus !== ReadinessStatus.READY) {
-        return {
-          success: false,
-          error: "TON vault not ready",
-        };
-      }
+          // TON -> Jetton swap using SDK's sendSwap method
+          const tonVault = tonClient.open(await factory.getNativeVault());
 
-      // Use SDK's sendSwap method
-      await tonVault.sendSwap(sender, {
-        poolAddress: pool.address,
-        amount: amountIn,
-        limit: minAmountOut,
-        gasAmount: toNano(DEDUST_GAS.SWAP_TON_TO_JETTON),
-      });
-    } else {
-      // Jetton -> TON/Jetton swap (use normalized address)
-      const jettonAddress = Address.parse(fromAssetAddr);
-      const jettonVault = tonClient.open(await factory.getJettonVault(jettonAddress));
-
-      // Check vault readiness
-      const vaultStatus = await jettonVault.getReadinessStatus();
-      if (vaultStatus !== ReadinessStatus.READY) {
-        return {
-          success: false,
-          error: "Jetton vault not ready. The jetton may not be supported on DeDust.",
-        };
-      }
+          // Check vault readiness
+          const vaultStatus = await tonVault.getReadinessStatus();
+          if (vaultStatus !== ReadinessStatus.READY) {
+            return {
+              success: false,
+              error: "TON vault not ready",
+            };
+          }
 
-      const jettonRoot = tonClient.open(JettonRoot.createFromAddress(jettonAddress));
-      const jettonWallet = tonClient.open(
-        await jettonRoot.getWallet(Address.parse(walletData.address))
-      );
-
-      // Build swap payload using SDK
-      const swapPayload = VaultJetton.createSwapPayload({
-        poolAddress: pool.address,
-        limit: minAmountOut,
-      });
-
-      // Send jetton transfer with swap payload
-      await jettonWallet.sendTransfer(sender, toNano(DEDUST_GAS.SWAP_JETTON_TO_ANY), {
-        destination: jettonVault.address,
-        amount: amountIn,
-        responseAddress: Address.parse(walletData.address),
-        forwardAmount: toNano(DEDUST_GAS.FORWARD_GAS),
-        forwardPayload: swapPayload,
-      });
-    }
+          // Use SDK's sendSwap method
+          await tonVault.sendSwap(sender, {
+            poolAddress: pool.address,
+            amount: amountIn,
+            limit: minAmountOut,
+            gasAmount: toNano(DEDUST_GAS.SWAP_TON_TO_JETTON),
+          });
+        } else {
+          // Jetton -> TON/Jetton swap (use normalized address)
+          const jettonAddress = Address.parse(fromAssetAddr);
+          const jettonVault = tonClient.open(await factory.getJettonVault(jettonAddress));
 
-    // Calculate expected output for display using correct decimals
-    const expectedOutput = fromUnits(amountOut, toDecimals);
-    const minOutput = fromUnits(minAmountOut, toDecimals);
-    const feeAmount = fromUnits(tradeFee, toDecimals);
+          // Check vault readiness
+          const vaultStatus = await jettonVault.getReadinessStatus();
+          if (vaultStatus !== ReadinessStatus.READY) {
+            return {
+              success: false,
+              error: "Jetton vault not ready. The jetton may not be supported on DeDust.",
+            };
+          }
 
-    const fromSymbol = isTonInput ? "TON" : "Token";
-    const toSymbol = isTonOutput ? "TON" : "Token";
+          const jettonRoot = tonClient.open(JettonRoot.createFromAddress(jettonAddress));
+          const jettonWallet = tonClient.open(
+            await jettonRoot.getWallet(Address.parse(walletData.address))
+          );
 
-    return {
-      success: true,
-      data: {
-        dex: "DeDust",
-        from: isTonInput ? NATIVE_TON_ADDRESS : fromAssetAddr,
-        to: isTonOutput ? NATIVE_TON_ADDRESS : toAssetAddr,
-        amountIn: amount.toString(),
-        expectedOutput: expectedOutput.toFixed(6),
-        minOutput: minOutput.toFixed(6),
-        slippage: `${(slippage * 100).toFixed(2)}%`,
-        tradeFee: feeAmount.toFixed(6),
-        poolType: pool_type,
-        poolAddress: pool.address.toString(),
-        message: `Swapped ${amount} ${fromSymbol} for ~${expectedOutput.toFixed(4)} ${toSymbol} on DeDust\n  Minimum output: ${minOutput.toFixed(4)}\n  Slippage: ${(slippage * 100).toFixed(2)}%\n  Transaction sent (check balance in ~30 seconds)`,
-      },
-    };
+          // Build swap payload using SDK
+          const swapPayload = VaultJetton.createSwapPayload({
+            poolAddress: pool.address,
+            limit: minAmountOut,
+          });
+
+          // Send jetton transfer with swap payload
+          await jettonWallet.sendTransfer(sender, toNano(DEDUST_GAS.SWAP_JETTON_TO_ANY), {
+            destination: jettonVault.address,
+            amount: amountIn,
+            responseAddress: Address.parse(walletData.address),
+            forwardAmount: toNano(DEDUST_GAS.FORWARD_GAS),
+            forwardPayload: swapPayload,
+          });
+        }
+
+        // Calculate expected output for display using correct decimals
+        const expectedOutput = fromUnits(amountOut, toDecimals);
+        const minOutput = fromUnits(minAmountOut, toDecimals);
+        const feeAmount = fromUnits(tradeFee, toDecimals);
+
+        const fromSymbol = isTonInput ? "TON" : "Token";
+        const toSymbol = isTonOutput ? "TON" : "Token";
+
+        return {
+          success: true,
+          data: {
+            dex: "DeDust",
+            from: isTonInput ? NATIVE_TON_ADDRESS : fromAssetAddr,
+            to: isTonOutput ? NATIVE_TON_ADDRESS : toAssetAddr,
+            amountIn: amount.toString(),
+            expectedOutput: expectedOutput.toFixed(6),
+            minOutput: minOutput.toFixed(6),
+            slippage: `${(slippage * 100).toFixed(2)}%`,
+            tradeFee: feeAmount.toFixed(6),
+            poolType: pool_type,
+            poolAddress: pool.address.toString(),
+            message: `Swapped ${amount} ${fromSymbol} for ~${expectedOutput.toFixed(4)} ${toSymbol} on DeDust\n  Minimum output: ${minOutput.toFixed(4)}\n  Slippage: ${(slippage * 100).toFixed(2)}%\n  Transaction sent (check balance in ~30 seconds)`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in dedust_swap");
     return {
@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, internal } from "@ton/ton";
 import { Address, SendMode } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
@@ -101,47 +102,53 @@ export const dnsBidExecutor: ToolExecutor<DnsBidParams> = async (
       };
     }
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
-
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
-
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
-    const contract = client.open(wallet);
-
-    const seqno = await contract.getSeqno();
-
-    // Send bid (just TON, no body needed for bids - op=0 is implicit)
-    await contract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      messages: [
-        internal({
-          to: Address.parse(nftAddress),
-          value: toNano(amount),
-          body: "", // Empty body for bid
-          bounce: true,
-        }),
-      ],
-    });
+    return guardSpend(
+      { tool: "dns_bid", kind: "ton", asset: "TON", symbol: "TON", amount },
+      context,
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
 
-    return {
-      success: true,
-      data: {
-        domain: fullDomain,
-        amount: `${amount} TON`,
-        nftAddress,
-        from: walletData.address,
-        message: `Bid placed on ${fullDomain}: ${amount} TON\n  From: ${walletData.address}\n  NFT: ${nftAddress}\n  Transaction sent (check status in a few seconds)`,
-      },
-    };
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
+
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const contract = client.open(wallet);
+
+        const seqno = await contract.getSeqno();
+
+        // Send bid (just TON, no body needed for bids - op=0 is implicit)
+        await contract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: Address.parse(nftAddress),
+              value: toNano(amount),
+              body: "", // Empty body for bid
+              bounce: true,
+            }),
+          ],
+        });
+
+        return {
+          success: true,
+          data: {
+            domain: fullDomain,
+            amount: `${amount} TON`,
+            nftAddress,
+            from: walletData.address,
+            message: `Bid placed on ${fullDomain}: ${amount} TON\n  From: ${walletData.address}\n  NFT: ${nftAddress}\n  Transaction sent (check status in a few seconds)`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in dns_bid");
     return {
@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, internal, beginCell } from "@ton/ton";
 import { Address, SendMode } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
 
@@ -61,53 +62,59 @@ export const dnsStartAuctionExecutor: ToolExecutor<DnsStartAuctionParams> = asyn
       };
     }
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
+    return guardSpend(
+      { tool: "dns_start_auction", kind: "ton", asset: "TON", symbol: "TON", amount },
+      context,
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
 
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
 
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
-    const contract = client.open(wallet);
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const contract = client.open(wallet);
 
-    const seqno = await contract.getSeqno();
+        const seqno = await contract.getSeqno();
 
-    // Build message body: op=0, domain as UTF-8 string
-    const body = beginCell()
-      .storeUint(0, 32) // op = 0
-      .storeStringTail(domain) // domain without .ton
-      .endCell();
+        // Build message body: op=0, domain as UTF-8 string
+        const body = beginCell()
+          .storeUint(0, 32) // op = 0
+          .storeStringTail(domain) // domain without .ton
+          .endCell();
 
-    // Send transaction to DNS collection
-    await contract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      messages: [
-        internal({
-          to: Address.parse(DNS_COLLECTION),
-          value: toNano(amount),
-          body,
-          bounce: true,
-        }),
-      ],
-    });
+        // Send transaction to DNS collection
+        await contract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: Address.parse(DNS_COLLECTION),
+              value: toNano(amount),
+              body,
+              bounce: true,
+            }),
+          ],
+        });
 
-    return {
-      success: true,
-      data: {
-        domain: `${domain}.ton`,
-        amount: `${amount} TON`,
-        collection: DNS_COLLECTION,
-        from: walletData.address,
-        message: `Auction started for ${domain}.ton with ${amount} TON\n  From: ${walletData.address}\n  Collection: ${DNS_COLLECTION}\n  Transaction sent (check status in a few seconds)`,
-      },
-    };
+        return {
+          success: true,
+          data: {
+            domain: `${domain}.ton`,
+            amount: `${amount} TON`,
+            collection: DNS_COLLECTION,
+            from: walletData.address,
+            message: `Auction started for ${domain}.ton with ${amount} TON\n  From: ${walletData.address}\n  Collection: ${DNS_COLLECTION}\n  Transaction sent (check status in a few seconds)`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in dns_start_auction");
     return {
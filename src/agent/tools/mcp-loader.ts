@@ -1,15 +1,21 @@
 /**
  * MCP (Model Context Protocol) client loader.
  *
- * Connects to external MCP servers (stdio or SSE) declared in config.yaml,
- * discovers their tools, and registers them in the ToolRegistry.
+ * Connects to external MCP servers (stdio, Streamable HTTP or SSE) declared in
+ * config.yaml, discovers their tools, and registers them in the ToolRegistry.
+ * McpMonitor keeps the connections alive: it reconnects dropped servers with
+ * exponential backoff and refreshes their tool lists.
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 import { sanitizeForContext } from "../../utils/sanitize.js";
-import type { Tool, ToolExecutor, ToolResult, ToolScope } from "./types.js";
+import { MCP_MAX_IMAGE_BYTES, MCP_MAX_IMAGES } from "../../constants/limits.js";
+import type { Tool, ToolExecutor, ToolResult, ToolResultImage, ToolScope } from "./types.js";
 import type { ToolRegistry } from "./registry.js";
 import type { McpConfig, McpServerConfig } from "../../config/schema.js";
 import { getErrorMessage } from "../../utils/errors.js";
@@ -17,13 +23,40 @@ import { createLogger } from "../../utils/logger.js";
 
 const log = createLogger("MCP");
 
+export type McpTransportType = "stdio" | "http" | "sse";
+
+/** `reconnecting` covers both the backoff wait and the connection attempt */
+export type McpHealth = "connected" | "reconnecting" | "closed";
+
 export interface McpConnection {
   serverName: string;
-  client: Client;
+  config: McpServerConfig;
+  /** Live client; null while the server is down. Replaced on every reconnect. */
+  client: Client | null;
   scope: ToolScope;
+  /** Transport in use (for url servers, the one that answered) */
+  transport: McpTransportType;
+  health: McpHealth;
+  lastError: string | null;
+  /** Unix ms of the last successful connect or health check */
+  lastSeenAt: number | null;
+  reconnectAttempts: number;
+  /** Fingerprint of the registered tool list, so unchanged refreshes are no-ops */
+  toolsFingerprint?: string;
 }
 
 const MCP_CONNECT_TIMEOUT_MS = 30_000;
+const MCP_HEALTH_TIMEOUT_MS = 10_000;
+const MCP_RECONNECT_BASE_MS = 1_000;
+
+/** Block dangerous env vars that could enable code injection */
+const BLOCKED_ENV_KEYS = new Set([
+  "LD_PRELOAD",
+  "NODE_OPTIONS",
+  "LD_LIBRARY_PATH",
+  "DYLD_INSERT_LIBRARIES",
+  "ELECTRON_RUN_AS_NODE",
+]);
 
 /**
  * Parse a command string into command + args.
@@ -40,19 +73,178 @@ function parseCommand(config: McpServerConfig): { command: string; args: string[
   return { command: parts[0], args: parts.slice(1) };
 }
 
+/** Content block of an MCP tool result or embedded resource, loosely typed */
+export interface McpContentBlock {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  name?: string;
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+/**
+ * Convert MCP content to tool result text plus images. Text and embedded
+ * text resources are inlined; images (and image blobs) are passed on for
+ * vision-capable models with a placeholder in the text, up to MCP_MAX_IMAGES
+ * of at most MCP_MAX_IMAGE_BYTES each; anything else is described so the
+ * model knows it was there.
+ */
+export function convertMcpContent(content: McpContentBlock[]): {
+  text: string;
+  images: ToolResultImage[];
+} {
+  const parts: string[] = [];
+  const images: ToolResultImage[] = [];
+
+  const addImage = (data: string, mimeType: string, label: string) => {
+    const bytes = Buffer.byteLength(data, "base64");
+    if (bytes > MCP_MAX_IMAGE_BYTES) {
+      parts.push(`[image ${label} omitted: ${bytes} bytes, over the ${MCP_MAX_IMAGE_BYTES} limit]`);
+    } else if (images.length >= MCP_MAX_IMAGES) {
+      parts.push(`[image ${label} omitted: more than ${MCP_MAX_IMAGES} images]`);
+    } else {
+      images.push({ data, mimeType });
+      parts.push(`[image ${images.length}: ${label}]`);
+    }
+  };
+
+  for (const block of content) {
+    switch (block.type) {
+      case "text":
+        if (block.text) parts.push(block.text);
+        break;
+      case "image":
+        if (block.data && block.mimeType) addImage(block.data, block.mimeType, block.mimeType);
+        break;
+      case "resource": {
+        const resource = block.resource;
+        if (!resource) break;
+        if (resource.text !== undefined) {
+          parts.push(`[resource ${resource.uri}]\n${resource.text}`);
+        } else if (resource.blob && resource.mimeType?.startsWith("image/")) {
+          addImage(resource.blob, resource.mimeType, resource.uri);
+        } else {
+          parts.push(
+            `[resource ${resource.uri}: ${resource.mimeType ?? "binary"} content omitted]`
+          );
+        }
+        break;
+      }
+      case "resource_link":
+        parts.push(`[resource link: ${block.name ?? block.uri} (${block.uri})]`);
+        break;
+      default:
+        parts.push(
+          `[${block.type} content${block.mimeType ? ` (${block.mimeType})` : ""} omitted]`
+        );
+    }
+  }
+
+  return { text: parts.join("\n"), images };
+}
+
+function createStdioTransport(name: string, config: McpServerConfig): Transport {
+  const { command, args } = parseCommand(config);
+  // Only forward essential environment vars to child processes
+  const safeEnv: Record<string, string> = {};
+  for (const key of ["PATH", "HOME", "NODE_PATH", "LANG", "TERM"]) {
+    if (process.env[key]) safeEnv[key] = process.env[key]!;
+  }
+
+  const filteredEnv: Record<string, string> = {};
+  for (const [k, v] of Object.entries(config.env ?? {})) {
+    if (BLOCKED_ENV_KEYS.has(k.toUpperCase())) {
+      log.warn({ key: k, server: name }, "Blocked dangerous env var for MCP server");
+    } else {
+      filteredEnv[k] = v;
+    }
+  }
+
+  return new StdioClientTransport({
+    command,
+    args,
+    env: { ...safeEnv, ...filteredEnv },
+    stderr: "pipe",
+  });
+}
+
+function createHttpTransport(
+  url: string,
+  config: McpServerConfig,
+  type: "http" | "sse"
+): Transport {
+  const headers: Record<string, string> = { ...config.headers };
+  if (config.auth_token) headers.Authorization = `Bearer ${config.auth_token}`;
+  const requestInit = { headers };
+  return type === "http"
+    ? new StreamableHTTPClientTransport(new URL(url), { requestInit })
+    : new SSEClientTransport(new URL(url), { requestInit });
+}
+
+async function connectClient(name: string, transport: Transport): Promise<Client> {
+  const client = new Client({ name: `teleton-${name}`, version: "1.0.0" });
+
+  // Connect with timeout
+  let timeoutHandle: ReturnType<typeof setTimeout>;
+  try {
+    await Promise.race([
+      client.connect(transport),
+      new Promise<never>((_, reject) => {
+        timeoutHandle = setTimeout(
+          () => reject(new Error(`Connection timed out after ${MCP_CONNECT_TIMEOUT_MS / 1000}s`)),
+          MCP_CONNECT_TIMEOUT_MS
+        );
+      }),
+    ]).finally(() => clearTimeout(timeoutHandle));
+  } catch (error) {
+    await client.close().catch(() => {});
+    throw error;
+  }
+  return client;
+}
+
 /**
- * Extract text content from MCP tool result content array.
+ * Open a client for one server. URL servers without an explicit `transport`
+ * try Streamable HTTP first and fall back to legacy SSE, as the MCP spec
+ * recommends for backwards compatibility.
  */
-function extractText(content: Array<{ type: string; text?: string }>): string {
-  return content
-    .filter((c) => c.type === "text" && c.text)
-    .map((c) => c.text!)
-    .join("\n");
+export async function connectMcpServer(
+  name: string,
+  config: McpServerConfig
+): Promise<{ client: Client; transport: McpTransportType }> {
+  if (config.command) {
+    return {
+      client: await connectClient(name, createStdioTransport(name, config)),
+      transport: "stdio",
+    };
+  }
+  if (!config.url) {
+    throw new Error(`MCP server "${name}": needs 'command' or 'url'`);
+  }
+
+  const url = config.url;
+  if (config.transport) {
+    const transport = createHttpTransport(url, config, config.transport);
+    return { client: await connectClient(name, transport), transport: config.transport };
+  }
+  try {
+    const transport = createHttpTransport(url, config, "http");
+    return { client: await connectClient(name, transport), transport: "http" };
+  } catch (httpError) {
+    log.debug(
+      `MCP server "${name}": Streamable HTTP failed (${getErrorMessage(httpError)}), trying SSE`
+    );
+    const transport = createHttpTransport(url, config, "sse");
+    return { client: await connectClient(name, transport), transport: "sse" };
+  }
 }
 
 /**
  * Connect to all configured MCP servers in parallel.
- * Failed connections are logged and skipped.
+ * Failed connections are logged and returned without a client, so
+ * McpMonitor can keep retrying them.
  */
 export async function loadMcpServers(config: McpConfig): Promise<McpConnection[]> {
   const entries = Object.entries(config.servers).filter(([, cfg]) => cfg.enabled !== false);
@@ -60,78 +252,115 @@ export async function loadMcpServers(config: McpConfig): Promise<McpConnection[]
   if (entries.length === 0) return [];
 
   const results = await Promise.allSettled(
-    entries.map(async ([name, serverConfig]): Promise<McpConnection> => {
-      let transport;
-
-      if (serverConfig.command) {
-        const { command, args } = parseCommand(serverConfig);
-        // Only forward essential environment vars to child processes
-        const safeEnv: Record<string, string> = {};
-        for (const key of ["PATH", "HOME", "NODE_PATH", "LANG", "TERM"]) {
-          if (process.env[key]) safeEnv[key] = process.env[key]!;
-        }
+    entries.map(([name, serverConfig]) => connectMcpServer(name, serverConfig))
+  );
 
-        // Block dangerous env vars that could enable code injection
-        const BLOCKED_ENV_KEYS = new Set([
-          "LD_PRELOAD",
-          "NODE_OPTIONS",
-          "LD_LIBRARY_PATH",
-          "DYLD_INSERT_LIBRARIES",
-          "ELECTRON_RUN_AS_NODE",
-        ]);
-        const filteredEnv: Record<string, string> = {};
-        for (const [k, v] of Object.entries(serverConfig.env ?? {})) {
-          if (BLOCKED_ENV_KEYS.has(k.toUpperCase())) {
-            log.warn({ key: k, server: name }, "Blocked dangerous env var for MCP server");
-          } else {
-            filteredEnv[k] = v;
-          }
-        }
+  return results.map((result, i): McpConnection => {
+    const [name, serverConfig] = entries[i];
+    const base = {
+      serverName: name,
+      config: serverConfig,
+      scope: serverConfig.scope ?? "always",
+      reconnectAttempts: 0,
+    };
+    if (result.status === "fulfilled") {
+      return {
+        ...base,
+        client: result.value.client,
+        transport: result.value.transport,
+        health: "connected",
+        lastError: null,
+        lastSeenAt: Date.now(),
+      };
+    }
+    const message = getErrorMessage(result.reason);
+    log.warn(`MCP server "${name}" failed to connect: ${message}`);
+    return {
+      ...base,
+      client: null,
+      transport: serverConfig.command ? "stdio" : (serverConfig.transport ?? "http"),
+      health: "reconnecting",
+      lastError: message,
+      lastSeenAt: null,
+    };
+  });
+}
 
-        transport = new StdioClientTransport({
-          command,
-          args,
-          env: { ...safeEnv, ...filteredEnv },
-          stderr: "pipe",
-        });
-      } else if (serverConfig.url) {
-        transport = new SSEClientTransport(new URL(serverConfig.url));
-      } else {
-        throw new Error(`MCP server "${name}": needs 'command' or 'url'`);
-      }
+type McpToolInfo = Awaited<ReturnType<Client["listTools"]>>["tools"][number];
 
-      const client = new Client({ name: `teleton-${name}`, version: "1.0.0" });
+/**
+ * Registry entries for a server's tools, prefixed mcp_<server>_<tool_name>.
+ * Executors look up the live client at call time, so they survive reconnects.
+ */
+function buildMcpTools(
+  conn: McpConnection,
+  mcpTools: McpToolInfo[]
+): Array<{ tool: Tool; executor: ToolExecutor; scope?: ToolScope }> {
+  return mcpTools.map((mcpTool) => {
+    const prefixedName = `mcp_${conn.serverName}_${mcpTool.name}`;
+
+    const executor: ToolExecutor = async (params, context): Promise<ToolResult> => {
+      const client = conn.client;
+      if (!client || conn.health !== "connected") {
+        return {
+          success: false,
+          error: `MCP server "${conn.serverName}" is unavailable (${conn.health}), try again later`,
+        };
+      }
+      try {
+        const result = await client.callTool({
+          name: mcpTool.name,
+          arguments: params as Record<string, unknown>,
+          // Lets tracing-aware servers join the agent's trace
+          ...(context.trace && { _meta: { traceparent: context.trace.traceparent } }),
+        });
 
-      // Connect with timeout
-      let timeoutHandle: ReturnType<typeof setTimeout>;
-      await Promise.race([
-        client.connect(transport),
-        new Promise<never>((_, reject) => {
-          timeoutHandle = setTimeout(
-            () => reject(new Error(`Connection timed out after ${MCP_CONNECT_TIMEOUT_MS / 1000}s`)),
-            MCP_CONNECT_TIMEOUT_MS
-          );
-        }),
-      ]).finally(() => clearTimeout(timeoutHandle));
+        const { text, images } = convertMcpContent(result.content as McpContentBlock[]);
+        if (result.isError) {
+          return {
+            success: false,
+            error: sanitizeForContext(text) || "MCP tool returned error",
+          };
+        }
 
-      return { serverName: name, client, scope: serverConfig.scope ?? "always" };
-    })
-  );
+        return {
+          success: true,
+          data: sanitizeForContext(text),
+          ...(images.length > 0 && { images }),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: `MCP tool "${mcpTool.name}" failed: ${getErrorMessage(error)}`,
+        };
+      }
+    };
 
-  const connections: McpConnection[] = [];
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    const [name] = entries[i];
-    if (result.status === "fulfilled") {
-      connections.push(result.value);
-    } else {
+    const schema = mcpTool.inputSchema ?? { type: "object", properties: {} };
+    if (
+      !schema.properties ||
+      Object.keys(schema.properties as Record<string, unknown>).length === 0
+    ) {
       log.warn(
-        `MCP server "${name}" failed to connect: ${result.reason instanceof Error ? result.reason.message : result.reason}`
+        { tool: mcpTool.name, server: conn.serverName },
+        "MCP tool has no parameter schema — inputs will not be validated"
       );
     }
-  }
 
-  return connections;
+    return {
+      tool: {
+        name: prefixedName,
+        description: mcpTool.description || `MCP tool from ${conn.serverName}`,
+        parameters: schema as unknown as Tool["parameters"],
+      },
+      executor,
+      scope: conn.scope,
+    };
+  });
+}
+
+function toolsFingerprint(mcpTools: McpToolInfo[]): string {
+  return JSON.stringify(mcpTools.map((t) => [t.name, t.description, t.inputSchema]));
 }
 
 /**
@@ -146,78 +375,186 @@ export async function registerMcpTools(
   const serverNames: string[] = [];
 
   for (const conn of connections) {
+    if (!conn.client) continue;
     try {
       const { tools: mcpTools } = await conn.client.listTools();
 
       if (!mcpTools || mcpTools.length === 0) continue;
 
-      const registryTools: Array<{ tool: Tool; executor: ToolExecutor; scope?: ToolScope }> = [];
+      const count = registry.registerPluginTools(
+        `mcp_${conn.serverName}`,
+        buildMcpTools(conn, mcpTools)
+      );
+      conn.toolsFingerprint = toolsFingerprint(mcpTools);
+      if (count > 0) {
+        totalCount += count;
+        serverNames.push(conn.serverName);
+      }
+    } catch (error) {
+      log.warn(
+        `MCP server "${conn.serverName}" tool discovery failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return { count: totalCount, names: serverNames };
+}
 
-      for (const mcpTool of mcpTools) {
-        const prefixedName = `mcp_${conn.serverName}_${mcpTool.name}`;
+export interface McpMonitorOptions {
+  /** Tool list refresh / liveness check period; 0 disables periodic checks */
+  healthCheckIntervalMs: number;
+  /** Cap on the exponential reconnect delay */
+  maxReconnectDelayMs: number;
+  /** Called with the new client after a server reconnects */
+  onReconnect?: (conn: McpConnection) => void;
+}
 
-        const executor: ToolExecutor = async (params): Promise<ToolResult> => {
+/**
+ * Keeps MCP connections alive. A closed transport or a failed health check
+ * marks the server `reconnecting` and retries with exponential backoff.
+ * Tools stay registered meanwhile and report the outage when called.
+ * Tool lists are refreshed periodically and on `tools/list_changed`
+ * notifications; changes go through ToolRegistry.replacePluginTools, which
+ * fires onToolsChanged so Tool RAG re-indexes.
+ */
+export class McpMonitor {
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private stopped = false;
+
+  constructor(
+    private connections: McpConnection[],
+    private registry: ToolRegistry,
+    private options: McpMonitorOptions
+  ) {}
+
+  start(): void {
+    for (const conn of this.connections) {
+      if (conn.client) this.watch(conn);
+      else this.scheduleReconnect(conn);
+    }
+    if (this.options.healthCheckIntervalMs > 0) {
+      this.interval = setInterval(() => void this.checkAll(), this.options.healthCheckIntervalMs);
+      this.interval.unref();
+    }
+  }
+
+  /** Refresh every connected server's tool list; failures trigger a reconnect */
+  async checkAll(): Promise<void> {
+    await Promise.allSettled(
+      this.connections
+        .filter((conn) => conn.health === "connected")
+        .map(async (conn) => {
           try {
-            const result = await conn.client.callTool({
-              name: mcpTool.name,
-              arguments: params as Record<string, unknown>,
-            });
-
-            if (result.isError) {
-              const errorText = extractText(
-                result.content as Array<{ type: string; text?: string }>
-              );
-              return {
-                success: false,
-                error: sanitizeForContext(errorText) || "MCP tool returned error",
-              };
-            }
-
-            const text = extractText(result.content as Array<{ type: string; text?: string }>);
-            return { success: true, data: sanitizeForContext(text) };
+            await this.refreshTools(conn);
           } catch (error) {
-            return {
-              success: false,
-              error: `MCP tool "${mcpTool.name}" failed: ${getErrorMessage(error)}`,
-            };
+            this.onLost(conn, `Health check failed: ${getErrorMessage(error)}`);
           }
-        };
+        })
+    );
+  }
 
-        const schema = mcpTool.inputSchema ?? { type: "object", properties: {} };
-        if (
-          !schema.properties ||
-          Object.keys(schema.properties as Record<string, unknown>).length === 0
-        ) {
-          log.warn(
-            { tool: mcpTool.name, server: conn.serverName },
-            "MCP tool has no parameter schema — inputs will not be validated"
-          );
-        }
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    for (const timer of this.retryTimers.values()) clearTimeout(timer);
+    this.retryTimers.clear();
+  }
 
-        registryTools.push({
-          tool: {
-            name: prefixedName,
-            description: mcpTool.description || `MCP tool from ${conn.serverName}`,
-            parameters: schema as unknown as Tool["parameters"],
-          },
-          executor,
-          scope: conn.scope,
-        });
+  private watch(conn: McpConnection): void {
+    const client = conn.client;
+    if (!client) return;
+    client.onclose = () => {
+      // Ignore closes of clients we already replaced
+      if (conn.client === client) this.onLost(conn, "Connection closed");
+    };
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      try {
+        await this.refreshTools(conn);
+      } catch (error) {
+        log.warn(`MCP server "${conn.serverName}" tool refresh failed: ${getErrorMessage(error)}`);
       }
+    });
+  }
 
-      const count = registry.registerPluginTools(`mcp_${conn.serverName}`, registryTools);
-      if (count > 0) {
-        totalCount += count;
-        serverNames.push(conn.serverName);
+  private async refreshTools(conn: McpConnection): Promise<void> {
+    const client = conn.client;
+    if (!client) return;
+    const { tools: mcpTools } = await client.listTools(undefined, {
+      timeout: MCP_HEALTH_TIMEOUT_MS,
+    });
+    conn.lastSeenAt = Date.now();
+
+    const fingerprint = toolsFingerprint(mcpTools ?? []);
+    if (fingerprint === conn.toolsFingerprint) return;
+    const first = conn.toolsFingerprint === undefined;
+    conn.toolsFingerprint = fingerprint;
+    this.registry.replacePluginTools(`mcp_${conn.serverName}`, buildMcpTools(conn, mcpTools ?? []));
+    if (!first)
+      log.info(`🔌 MCP server "${conn.serverName}" tools changed (${mcpTools.length} tools)`);
+  }
+
+  private onLost(conn: McpConnection, reason: string): void {
+    if (this.stopped || conn.health !== "connected") return;
+    log.warn(`MCP server "${conn.serverName}" lost: ${reason}`);
+    const client = conn.client;
+    conn.client = null;
+    conn.health = "reconnecting";
+    conn.lastError = reason;
+    if (client) {
+      client.onclose = undefined;
+      client.close().catch(() => {});
+    }
+    this.scheduleReconnect(conn);
+  }
+
+  private scheduleReconnect(conn: McpConnection): void {
+    if (this.stopped) return;
+    const delay = Math.min(
+      MCP_RECONNECT_BASE_MS * 2 ** conn.reconnectAttempts,
+      this.options.maxReconnectDelayMs
+    );
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(conn.serverName);
+      void this.reconnect(conn);
+    }, delay);
+    timer.unref();
+    this.retryTimers.set(conn.serverName, timer);
+  }
+
+  private async reconnect(conn: McpConnection): Promise<void> {
+    try {
+      const { client, transport } = await connectMcpServer(conn.serverName, conn.config);
+      if (this.stopped) {
+        await client.close().catch(() => {});
+        return;
       }
+      conn.client = client;
+      conn.transport = transport;
+      conn.health = "connected";
+      conn.lastSeenAt = Date.now();
+      log.info(
+        `🔌 MCP server "${conn.serverName}" reconnected after ${conn.reconnectAttempts + 1} attempt(s)`
+      );
+      conn.reconnectAttempts = 0;
+      this.watch(conn);
+      this.options.onReconnect?.(conn);
+      await this.refreshTools(conn);
     } catch (error) {
-      log.warn(
-        `MCP server "${conn.serverName}" tool discovery failed: ${error instanceof Error ? error.message : error}`
+      conn.reconnectAttempts++;
+      if (conn.health === "connected") {
+        // Connected, but listing tools failed
+        this.onLost(conn, `Tool discovery failed: ${getErrorMessage(error)}`);
+        return;
+      }
+      conn.lastError = getErrorMessage(error);
+      log.debug(
+        `MCP server "${conn.serverName}" reconnect attempt ${conn.reconnectAttempts} failed: ${conn.lastError}`
       );
+      this.scheduleReconnect(conn);
     }
   }
-
-  return { count: totalCount, names: serverNames };
 }
 
 /**
@@ -226,8 +563,12 @@ export async function registerMcpTools(
 export async function closeMcpServers(connections: McpConnection[]): Promise<void> {
   await Promise.allSettled(
     connections.map(async (conn) => {
+      const client = conn.client;
+      conn.health = "closed";
+      conn.client = null;
+      if (!client) return;
       try {
-        await conn.client.close();
+        await client.close();
       } catch (error) {
         log.warn(
           `MCP server "${conn.serverName}" close failed: ${error instanceof Error ? error.message : error}`
@@ -0,0 +1,99 @@
+/**
+ * MCP prompts: templates exposed by MCP servers, listed and rendered for the
+ * admin /prompt command. The rendered text is run through the agent like a
+ * regular message.
+ */
+
+import { convertMcpContent, type McpConnection, type McpContentBlock } from "./mcp-loader.js";
+import { MCP_REQUEST_TIMEOUT_MS } from "../../constants/limits.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+export interface McpPromptInfo {
+  server: string;
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+function supportsPrompts(conn: McpConnection): boolean {
+  return (
+    conn.client !== null &&
+    conn.health === "connected" &&
+    conn.client.getServerCapabilities()?.prompts !== undefined
+  );
+}
+
+/** Prompts of every connected server that has the capability; failures are reported per server */
+export async function listMcpPrompts(
+  connections: McpConnection[]
+): Promise<{ prompts: McpPromptInfo[]; errors: string[] }> {
+  const prompts: McpPromptInfo[] = [];
+  const errors: string[] = [];
+
+  await Promise.all(
+    connections.filter(supportsPrompts).map(async (conn) => {
+      try {
+        const result = await conn.client?.listPrompts(undefined, {
+          timeout: MCP_REQUEST_TIMEOUT_MS,
+        });
+        for (const prompt of result?.prompts ?? []) {
+          prompts.push({
+            server: conn.serverName,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments ?? [],
+          });
+        }
+      } catch (error) {
+        errors.push(`${conn.serverName}: ${getErrorMessage(error)}`);
+      }
+    })
+  );
+
+  prompts.sort((a, b) => a.server.localeCompare(b.server) || a.name.localeCompare(b.name));
+  return { prompts, errors };
+}
+
+/**
+ * Parse `key=value` pairs; values may be double-quoted to include spaces.
+ * Returns null if any token is not a pair.
+ */
+export function parsePromptArguments(input: string): Record<string, string> | null {
+  const args: Record<string, string> = {};
+  const pattern = /\s*([\w-]+)=(?:"([^"]*)"|(\S+))|\s*(\S+)/g;
+  for (const match of input.matchAll(pattern)) {
+    if (match[4] !== undefined) return null;
+    args[match[1]] = match[2] ?? match[3];
+  }
+  return args;
+}
+
+/**
+ * Fetch a prompt and flatten its messages to text. A lone user message is
+ * returned as is; longer conversations keep a role label per message.
+ */
+export async function renderMcpPrompt(
+  connections: McpConnection[],
+  server: string,
+  name: string,
+  args: Record<string, string>
+): Promise<string> {
+  const conn = connections.find((c) => c.serverName === server);
+  if (!conn) throw new Error(`Unknown MCP server "${server}"`);
+  if (!conn.client || conn.health !== "connected") {
+    throw new Error(`MCP server "${server}" is unavailable (${conn.health})`);
+  }
+  if (!supportsPrompts(conn)) throw new Error(`MCP server "${server}" does not expose prompts`);
+
+  const { messages } = await conn.client.getPrompt(
+    { name, arguments: args },
+    { timeout: MCP_REQUEST_TIMEOUT_MS }
+  );
+  const parts = messages.map((message) => ({
+    role: message.role,
+    text: convertMcpContent([message.content as McpContentBlock]).text,
+  }));
+
+  if (parts.length === 1 && parts[0].role === "user") return parts[0].text;
+  return parts.map((p) => `[${p.role}]\n${p.text}`).join("\n\n");
+}
@@ -0,0 +1,263 @@
+/**
+ * MCP resources: generic tools to list and read resources of connected MCP
+ * servers, and McpResourceAttachments, which keeps the resources listed in a
+ * server's `attach_resources` cached (and subscribed, when the server
+ * supports it) so they can be added to the agent's RAG context.
+ */
+
+import { Type } from "@sinclair/typebox";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { Tool, ToolContext, ToolEntry, ToolExecutor, ToolResult, ToolScope } from "./types.js";
+import { convertMcpContent, type McpConnection, type McpContentBlock } from "./mcp-loader.js";
+import { mcpResourceCitation, stripCitations } from "../../memory/search/citations.js";
+import { MCP_ATTACHED_RESOURCE_MAX_CHARS, MCP_REQUEST_TIMEOUT_MS } from "../../constants/limits.js";
+import { sanitizeForContext } from "../../utils/sanitize.js";
+import { getErrorMessage } from "../../utils/errors.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("MCP");
+
+/** Whether a server with this scope is visible in the current chat */
+export function mcpScopeAllows(scope: ToolScope, isGroup: boolean, isAdmin: boolean): boolean {
+  if (scope === "dm-only") return !isGroup;
+  if (scope === "group-only") return isGroup;
+  if (scope === "admin-only") return isAdmin;
+  return true;
+}
+
+function supportsResources(conn: McpConnection): boolean {
+  return (
+    conn.client !== null &&
+    conn.health === "connected" &&
+    conn.client.getServerCapabilities()?.resources !== undefined
+  );
+}
+
+/** Read one resource as text plus images */
+async function readMcpResource(conn: McpConnection, uri: string) {
+  if (!conn.client) throw new Error(`MCP server "${conn.serverName}" is not connected`);
+  const { contents } = await conn.client.readResource({ uri }, { timeout: MCP_REQUEST_TIMEOUT_MS });
+  return convertMcpContent(
+    contents.map((resource): McpContentBlock => ({ type: "resource", resource }))
+  );
+}
+
+interface ListResourcesParams {
+  server?: string;
+}
+
+interface ReadResourceParams {
+  server: string;
+  uri: string;
+}
+
+const listResourcesTool: Tool = {
+  name: "mcp_list_resources",
+  description: `List resources (files, documents, records) exposed by connected MCP servers.
+
+Returns each server's resources (uri, name, description, mimeType) and URI templates. Read one with mcp_read_resource.`,
+  category: "data-bearing",
+  parameters: Type.Object({
+    server: Type.Optional(Type.String({ description: "Only list this MCP server's resources" })),
+  }),
+};
+
+const readResourceTool: Tool = {
+  name: "mcp_read_resource",
+  description: `Read a resource from an MCP server by URI (as listed by mcp_list_resources, or filled in from a URI template).`,
+  category: "data-bearing",
+  parameters: Type.Object({
+    server: Type.String({ description: "MCP server name" }),
+    uri: Type.String({ description: "Resource URI" }),
+  }),
+};
+
+/**
+ * Generic resource tools over all MCP connections. Servers are filtered by
+ * their scope and resources capability at call time, so servers that
+ * (re)connect later are picked up.
+ */
+export function createMcpResourceTools(connections: McpConnection[]): ToolEntry[] {
+  const visible = (
+    context: ToolContext,
+    server?: string
+  ): { conns: McpConnection[]; error?: string } => {
+    const isAdmin = context.config?.telegram.admin_ids.includes(context.senderId) ?? false;
+    const conns = connections.filter(
+      (c) =>
+        (!server || c.serverName === server) && mcpScopeAllows(c.scope, context.isGroup, isAdmin)
+    );
+    if (server && conns.length === 0) return { conns, error: `Unknown MCP server "${server}"` };
+    if (server && !supportsResources(conns[0])) {
+      const conn = conns[0];
+      return {
+        conns: [],
+        error:
+          conn.health === "connected"
+            ? `MCP server "${server}" does not expose resources`
+            : `MCP server "${server}" is unavailable (${conn.health}), try again later`,
+      };
+    }
+    return { conns: conns.filter(supportsResources) };
+  };
+
+  const listExecutor: ToolExecutor<ListResourcesParams> = async (
+    params,
+    context
+  ): Promise<ToolResult> => {
+    const { conns, error } = visible(context, params.server);
+    if (error) return { success: false, error };
+
+    const servers = await Promise.all(
+      conns.map(async (conn) => {
+        const client = conn.client;
+        if (!client) return { server: conn.serverName, error: "not connected" };
+        try {
+          const { resources } = await client.listResources(undefined, {
+            timeout: MCP_REQUEST_TIMEOUT_MS,
+          });
+          const { resourceTemplates } = await client
+            .listResourceTemplates(undefined, { timeout: MCP_REQUEST_TIMEOUT_MS })
+            .catch(() => ({ resourceTemplates: [] }));
+          return {
+            server: conn.serverName,
+            resources: resources.map((r) => ({
+              uri: r.uri,
+              name: r.name,
+              description: r.description,
+              mimeType: r.mimeType,
+            })),
+            templates: resourceTemplates.map((t) => ({
+              uriTemplate: t.uriTemplate,
+              name: t.name,
+              description: t.description,
+            })),
+          };
+        } catch (err) {
+          return { server: conn.serverName, error: getErrorMessage(err) };
+        }
+      })
+    );
+
+    return { success: true, data: { servers } };
+  };
+
+  const readExecutor: ToolExecutor<ReadResourceParams> = async (
+    params,
+    context
+  ): Promise<ToolResult> => {
+    const { conns, error } = visible(context, params.server);
+    if (error) return { success: false, error };
+
+    try {
+      const { text, images } = await readMcpResource(conns[0], params.uri);
+      return {
+        success: true,
+        data: { server: params.server, uri: params.uri, content: sanitizeForContext(text) },
+        ...(images.length > 0 && { images }),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: `Reading "${params.uri}" from MCP server "${params.server}" failed: ${getErrorMessage(err)}`,
+      };
+    }
+  };
+
+  return [
+    { tool: listResourcesTool, executor: listExecutor },
+    { tool: readResourceTool, executor: readExecutor },
+  ];
+}
+
+interface AttachedResource {
+  server: string;
+  uri: string;
+  scope: ToolScope;
+  text: string;
+}
+
+/**
+ * Cached text of the resources named in each server's `attach_resources`.
+ * Subscribes to updates when the server supports it; otherwise the text is
+ * re-read whenever the server reconnects.
+ */
+export class McpResourceAttachments {
+  private resources = new Map<string, AttachedResource>();
+
+  constructor(private maxChars = MCP_ATTACHED_RESOURCE_MAX_CHARS) {}
+
+  /** Read (and subscribe to) a server's attached resources. Call again after every reconnect. */
+  async attach(conn: McpConnection): Promise<void> {
+    const client = conn.client;
+    const uris = conn.config.attach_resources ?? [];
+    if (!client || uris.length === 0) return;
+
+    const subscribe = client.getServerCapabilities()?.resources?.subscribe === true;
+    if (subscribe) {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        if (uris.includes(notification.params.uri)) {
+          await this.refresh(conn, notification.params.uri);
+        }
+      });
+    }
+
+    await Promise.all(
+      uris.map(async (uri) => {
+        await this.refresh(conn, uri);
+        if (!subscribe) return;
+        try {
+          await client.subscribeResource({ uri }, { timeout: MCP_REQUEST_TIMEOUT_MS });
+        } catch (error) {
+          log.warn(
+            `MCP server "${conn.serverName}": subscribing to ${uri} failed: ${getErrorMessage(error)}`
+          );
+        }
+      })
+    );
+  }
+
+  private async refresh(conn: McpConnection, uri: string): Promise<void> {
+    const client = conn.client;
+    if (!client) return;
+    try {
+      // Only text contents are attached; the citation tag already names the URI
+      const { contents } = await client.readResource({ uri }, { timeout: MCP_REQUEST_TIMEOUT_MS });
+      const text = contents
+        .map((c) => ("text" in c && typeof c.text === "string" ? c.text : ""))
+        .filter(Boolean)
+        .join("\n");
+      let clean = stripCitations(sanitizeForContext(text));
+      if (clean.length > this.maxChars) clean = clean.slice(0, this.maxChars) + "\n...[TRUNCATED]";
+      this.resources.set(`${conn.serverName}\n${uri}`, {
+        server: conn.serverName,
+        uri,
+        scope: conn.scope,
+        text: clean,
+      });
+    } catch (error) {
+      // Keep the last good copy, if any
+      log.warn(`MCP server "${conn.serverName}": reading ${uri} failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /** Context block with a citation tag per resource, or "" when nothing is attached */
+  render(isGroup: boolean, isAdmin: boolean): string {
+    const items = [...this.resources.values()]
+      .filter((r) => r.text && mcpScopeAllows(r.scope, isGroup, isAdmin))
+      .map((r) => `${mcpResourceCitation(r.server, r.uri)} ${r.text}`);
+    return items.length > 0 ? `[Attached MCP resources]\n${items.join("\n---\n")}` : "";
+  }
+}
+
+let attachments: McpResourceAttachments | null = null;
+
+/** Create the attachment cache; only needed when some server has `attach_resources` */
+export function initMcpAttachments(): McpResourceAttachments {
+  attachments = new McpResourceAttachments();
+  return attachments;
+}
+
+export function getMcpAttachments(): McpResourceAttachments | null {
+  return attachments;
+}
@@ -10,10 +10,14 @@
  *   export async function stop() {...}      ← optional (cleanup)
  *
  * Each plugin is adapted into a PluginModule for unified lifecycle management.
+ * With `plugin_sandbox.enabled` (the default) a plugin runs in its own Node
+ * process limited to `manifest.permissions`; plugins that declare
+ * `telegram.raw` need the in-process GramJS client and are imported directly,
+ * but only when listed in `plugin_sandbox.trusted`.
  */
 
 import { readdirSync, readFileSync, existsSync, statSync } from "fs";
-import { join } from "path";
+import { basename, dirname, join } from "path";
 import { pathToFileURL } from "url";
 import { execFile } from "child_process";
 import { promisify } from "util";
@@ -21,14 +25,25 @@ import { promisify } from "util";
 const execFileAsync = promisify(execFile);
 import { WORKSPACE_PATHS, TELETON_ROOT } from "../../workspace/paths.js";
 import { openModuleDb, createDbWrapper, migrateFromMainDb } from "../../utils/module-db.js";
-import type { PluginModule, PluginContext, Tool, ToolExecutor, ToolScope } from "./types.js";
+import type {
+  PluginModule,
+  PluginContext,
+  Tool,
+  ToolContext,
+  ToolExecutor,
+  ToolScope,
+} from "./types.js";
 import type { Config } from "../../config/schema.js";
 import type Database from "better-sqlite3";
 import {
   validateManifest,
   validateToolDefs,
   sanitizeConfigForPlugins,
+  describePermissions,
+  permissionsCovered,
+  NO_PERMISSIONS,
   type PluginManifest,
+  type PluginPermissions,
   type SimpleToolDef,
 } from "./plugin-validator.js";
 import {
@@ -38,7 +53,9 @@ import {
   type SDKDependencies,
 } from "../../sdk/index.js";
 import type { PluginSDK } from "../../sdk/types.js";
+import { verifyInstalled } from "../../webui/services/plugin-integrity.js";
 import { createSecretsSDK } from "../../sdk/secrets.js";
+import { PluginSandbox, type PluginDescription } from "../../sdk/sandbox/host.js";
 import type {
   SecretDeclaration,
   PluginMessageEvent,
@@ -64,6 +81,10 @@ interface RawPluginExports {
 export interface PluginModuleWithHooks extends PluginModule {
   onMessage?: (event: PluginMessageEvent) => Promise<void>;
   onCallbackQuery?: (event: PluginCallbackEvent) => Promise<void>;
+  /** Declared in the manifest (nothing if undeclared) */
+  permissions?: PluginPermissions;
+  /** Runs in a sandbox process rather than the agent process */
+  sandboxed?: boolean;
 }
 
 interface EnhancedPluginContext extends Omit<PluginContext, "db" | "config"> {
@@ -73,20 +94,14 @@ interface EnhancedPluginContext extends Omit<PluginContext, "db" | "config"> {
   log: (...args: unknown[]) => void;
 }
 
-// ─── Plugin Adapter ─────────────────────────────────────────────────
+// ─── Manifest ───────────────────────────────────────────────────────
 
-export function adaptPlugin(
-  raw: RawPluginExports,
-  entryName: string,
-  config: Config,
-  loadedModuleNames: string[],
-  sdkDeps: SDKDependencies
-): PluginModuleWithHooks {
+function resolveManifest(rawManifest: unknown, entryName: string): PluginManifest | null {
   let manifest: PluginManifest | null = null;
 
-  if (raw.manifest) {
+  if (rawManifest) {
     try {
-      manifest = validateManifest(raw.manifest);
+      manifest = validateManifest(rawManifest);
     } catch (err) {
       log.warn(
         `[${entryName}] invalid manifest, ignoring: ${err instanceof Error ? err.message : err}`
@@ -119,6 +134,25 @@ export function adaptPlugin(
     }
   }
 
+  return manifest;
+}
+
+interface PluginIdentity {
+  manifest: PluginManifest | null;
+  pluginName: string;
+  pluginVersion: string;
+  pluginConfig: Record<string, unknown>;
+  permissions: PluginPermissions;
+}
+
+/** Name, config and permissions of a plugin; throws if its requirements are not met */
+function identifyPlugin(
+  rawManifest: unknown,
+  entryName: string,
+  config: Config,
+  loadedModuleNames: string[]
+): PluginIdentity {
+  const manifest = resolveManifest(rawManifest, entryName);
   const pluginName = manifest?.name ?? entryName.replace(/\.js$/, "");
   const pluginVersion = manifest?.version ?? "0.0.0";
 
@@ -142,11 +176,9 @@ export function adaptPlugin(
   const rawPluginConfig = (config.plugins?.[pluginConfigKey] as Record<string, unknown>) ?? {};
   const pluginConfig = { ...manifest?.defaultConfig, ...rawPluginConfig };
 
-  const pluginLog = createLogger(`Plugin:${pluginName}`);
-  const logFn = (...args: unknown[]) => pluginLog.info(args.map(String).join(" "));
-
   // Validate declared secrets and warn if missing
   if (manifest?.secrets) {
+    const pluginLog = createLogger(`Plugin:${pluginName}`);
     const dummyLogger = {
       info: (...a: unknown[]) => pluginLog.info(a.map(String).join(" ")),
       warn: (...a: unknown[]) => pluginLog.warn(a.map(String).join(" ")),
@@ -171,6 +203,66 @@ export function adaptPlugin(
     }
   }
 
+  return {
+    manifest,
+    pluginName,
+    pluginVersion,
+    pluginConfig,
+    permissions: manifest?.permissions ?? NO_PERMISSIONS,
+  };
+}
+
+/** Registry entry for a validated tool definition */
+function toRegisteredTool(def: SimpleToolDef, executor: ToolExecutor) {
+  return {
+    tool: {
+      name: def.name,
+      description: def.description,
+      parameters: def.parameters || {
+        type: "object" as const,
+        properties: {},
+      },
+      ...(def.category ? { category: def.category } : {}),
+      ...(def.parallelSafe !== undefined ? { parallelSafe: def.parallelSafe } : {}),
+    } as Tool,
+    executor,
+    scope: def.scope as ToolScope | undefined,
+  };
+}
+
+/** Copy rows of the plugin's tables left in the main DB by older versions */
+function migratePluginTables(pluginDb: Database.Database): void {
+  const pluginTables = (
+    pluginDb
+      .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`)
+      .all() as { name: string }[]
+  )
+    .map((t) => t.name)
+    .filter((n) => n !== "_kv"); // Exclude storage table
+  if (pluginTables.length > 0) {
+    migrateFromMainDb(pluginDb, pluginTables);
+  }
+}
+
+// ─── Plugin Adapter ─────────────────────────────────────────────────
+
+export function adaptPlugin(
+  raw: RawPluginExports,
+  entryName: string,
+  config: Config,
+  loadedModuleNames: string[],
+  sdkDeps: SDKDependencies
+): PluginModuleWithHooks {
+  const { pluginName, pluginVersion, pluginConfig, permissions } = identifyPlugin(
+    raw.manifest,
+    entryName,
+    config,
+    loadedModuleNames
+  );
+
+  const pluginLog = createLogger(`Plugin:${pluginName}`);
+  const logFn = (...args: unknown[]) => pluginLog.info(args.map(String).join(" "));
+
   const hasMigrate = typeof raw.migrate === "function";
   let pluginDb: Database.Database | null = null;
   const getDb = () => pluginDb;
@@ -181,6 +273,8 @@ export function adaptPlugin(
   const module: PluginModuleWithHooks = {
     name: pluginName,
     version: pluginVersion,
+    permissions,
+    sandboxed: false,
 
     // Store event hooks from plugin exports
     onMessage: typeof raw.onMessage === "function" ? raw.onMessage : undefined,
@@ -197,19 +291,7 @@ export function adaptPlugin(
         // Run plugin's custom migrations if provided
         if (hasMigrate) {
           raw.migrate!(pluginDb);
-
-          const pluginTables = (
-            pluginDb
-              .prepare(
-                `SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'`
-              )
-              .all() as { name: string }[]
-          )
-            .map((t) => t.name)
-            .filter((n) => n !== "_kv"); // Exclude storage table
-          if (pluginTables.length > 0) {
-            migrateFromMainDb(pluginDb, pluginTables);
-          }
+          migratePluginTables(pluginDb);
         }
       } catch (err) {
         pluginLog.error(`migrate() failed: ${err instanceof Error ? err.message : err}`);
@@ -253,19 +335,10 @@ export function adaptPlugin(
             return rawExecutor(params, sanitizedContext);
           };
 
-          return {
-            tool: {
-              name: def.name,
-              description: def.description,
-              parameters: def.parameters || {
-                type: "object" as const,
-                properties: {},
-              },
-              ...(def.category ? { category: def.category } : {}),
-            } as Tool,
-            executor: pluginDb ? withPluginDb(sandboxedExecutor) : sandboxedExecutor,
-            scope: def.scope as ToolScope | undefined,
-          };
+          return toRegisteredTool(
+            def,
+            pluginDb ? withPluginDb(sandboxedExecutor) : sandboxedExecutor
+          );
         });
       } catch (err) {
         pluginLog.error(`tools() failed: ${err instanceof Error ? err.message : err}`);
@@ -311,6 +384,247 @@ export function adaptPlugin(
   return module;
 }
 
+// ─── Sandboxed Plugins ──────────────────────────────────────────────
+
+function closeDb(db: Database.Database | null): void {
+  try {
+    db?.close();
+  } catch {
+    /* ignore */
+  }
+}
+
+export interface LoadPluginOptions {
+  /** Bypass the ESM cache (hot reloads) */
+  fresh?: boolean;
+  /** Refuse the plugin if its manifest declares more than this (marketplace consent) */
+  allowedPermissions?: PluginPermissions;
+}
+
+function checkAllowed(
+  pluginName: string,
+  permissions: PluginPermissions,
+  allowed?: PluginPermissions
+): void {
+  if (allowed && !permissionsCovered(allowed, permissions)) {
+    throw new Error(
+      `Plugin "${pluginName}" declares permissions that were not accepted: ${describePermissions(permissions).join("; ")}`
+    );
+  }
+}
+
+/**
+ * Load a plugin into a sandbox process. The first process only reports the
+ * manifest; if it declares network or fs permissions, a second one is started
+ * with them. Returns null for trusted plugins that need `telegram.raw`, which
+ * run in-process; untrusted ones are refused.
+ */
+async function loadSandboxedPlugin(
+  entryName: string,
+  modulePath: string,
+  config: Config,
+  loadedModuleNames: string[],
+  sdkDeps: SDKDependencies,
+  allowedPermissions?: PluginPermissions
+): Promise<PluginModuleWithHooks | null> {
+  const baseOptions = {
+    name: entryName.replace(/\.js$/, ""),
+    modulePath,
+    root: basename(modulePath) === "index.js" ? dirname(modulePath) : modulePath,
+    permissions: NO_PERMISSIONS,
+    maxMemoryMb: config.plugin_sandbox.max_memory_mb,
+  };
+
+  let sandbox = PluginSandbox.spawn(baseOptions);
+  let description: PluginDescription;
+  let identity: PluginIdentity;
+  try {
+    description = await sandbox.describe();
+    if (description.tools === "none") {
+      throw new Error("no 'tools' array or function exported");
+    }
+    identity = identifyPlugin(description.manifest, entryName, config, loadedModuleNames);
+    checkAllowed(identity.pluginName, identity.permissions, allowedPermissions);
+    if (identity.permissions.capabilities.includes("telegram.raw")) {
+      if (!config.plugin_sandbox.trusted.includes(identity.pluginName)) {
+        throw new Error(
+          `Plugin "${identity.pluginName}" declares telegram.raw but is not listed in plugin_sandbox.trusted`
+        );
+      }
+      await sandbox.close();
+      return null;
+    }
+  } catch (err) {
+    await sandbox.close();
+    throw err;
+  }
+
+  const { pluginName, pluginVersion, pluginConfig, permissions } = identity;
+  const options = { ...baseOptions, name: pluginName, permissions };
+  const pluginLog = createLogger(`Plugin:${pluginName}`);
+  const sanitizedConfig = sanitizeConfigForPlugins(config);
+
+  let pluginDb: Database.Database | null = null;
+  const openDb = () => (pluginDb ??= openModuleDb(join(PLUGIN_DATA_DIR, `${pluginName}.db`)));
+
+  /** Hand the process its SDK and run its migrations */
+  const boot = async (instance: PluginSandbox) => {
+    const db = openDb();
+    await instance.setup(
+      createPluginSDK(sdkDeps, { pluginName, db, sanitizedConfig, pluginConfig }),
+      { pluginName, config: sanitizedConfig, pluginConfig }
+    );
+    if (description.hooks.includes("migrate")) {
+      try {
+        await instance.migrate();
+        migratePluginTables(db);
+      } catch (err) {
+        pluginLog.error(`migrate() failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  };
+
+  let toolInfos: Awaited<ReturnType<PluginSandbox["listTools"]>>;
+  try {
+    if (permissions.network.length > 0 || permissions.fs.length > 0) {
+      await sandbox.close();
+      sandbox = PluginSandbox.spawn(options);
+      await sandbox.describe();
+    }
+    await boot(sandbox);
+    toolInfos = await sandbox.listTools();
+  } catch (err) {
+    await sandbox.close();
+    closeDb(pluginDb);
+    throw err;
+  }
+
+  // A process that died (crash, memory limit, stop()) is replaced on next use
+  let respawning: Promise<PluginSandbox> | null = null;
+  const ensureSandbox = (): Promise<PluginSandbox> => {
+    if (sandbox.running) return Promise.resolve(sandbox);
+    respawning ??= (async () => {
+      const next = PluginSandbox.spawn(options);
+      try {
+        await next.describe();
+        await boot(next);
+        await next.listTools();
+      } catch (err) {
+        await next.close();
+        throw err;
+      }
+      sandbox = next;
+      return next;
+    })().finally(() => {
+      respawning = null;
+    });
+    return respawning;
+  };
+
+  const toolDefs = validateToolDefs(
+    toolInfos.map((info) => ({
+      ...info,
+      execute: info.executable
+        ? async (params: unknown, context: ToolContext) =>
+            (await ensureSandbox()).execute(info.name as string, params, {
+              chatId: context.chatId,
+              senderId: context.senderId,
+              isGroup: context.isGroup,
+              config: context.config ? sanitizeConfigForPlugins(context.config) : undefined,
+              trace: context.trace,
+            })
+        : undefined,
+    })),
+    pluginName
+  );
+
+  const hook = <E>(
+    name: "onMessage" | "onCallbackQuery",
+    call: (s: PluginSandbox, e: E) => Promise<void>
+  ) =>
+    description.hooks.includes(name)
+      ? async (event: E) => call(await ensureSandbox(), event)
+      : undefined;
+
+  return {
+    name: pluginName,
+    version: pluginVersion,
+    permissions,
+    sandboxed: true,
+
+    onMessage: hook<PluginMessageEvent>("onMessage", (s, event) => s.onMessage(event)),
+    onCallbackQuery: hook<PluginCallbackEvent>("onCallbackQuery", (s, event) =>
+      s.onCallbackQuery(event)
+    ),
+
+    configure() {},
+
+    // Migrations ran in the sandbox at load; reopen the DB after a stop()
+    migrate() {
+      openDb();
+    },
+
+    tools() {
+      return toolDefs.map((def) => toRegisteredTool(def, def.execute as ToolExecutor));
+    },
+
+    async start() {
+      if (!description.hooks.includes("start")) return;
+      try {
+        await (await ensureSandbox()).start();
+      } catch (err) {
+        pluginLog.error(`start() failed: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+
+    async stop() {
+      try {
+        if (description.hooks.includes("stop") && sandbox.running) await sandbox.stop();
+      } catch (err) {
+        pluginLog.error(`stop() failed: ${err instanceof Error ? err.message : err}`);
+      } finally {
+        await sandbox.close();
+        closeDb(pluginDb);
+        pluginDb = null;
+      }
+    },
+  };
+}
+
+/**
+ * Load one plugin entry: in a sandbox process when `plugin_sandbox.enabled`,
+ * otherwise (or when it is trusted with `telegram.raw`) by importing it.
+ */
+export async function loadPlugin(
+  entryName: string,
+  modulePath: string,
+  config: Config,
+  loadedModuleNames: string[],
+  sdkDeps: SDKDependencies,
+  options: LoadPluginOptions = {}
+): Promise<PluginModuleWithHooks> {
+  if (config.plugin_sandbox.enabled) {
+    const sandboxed = await loadSandboxedPlugin(
+      entryName,
+      modulePath,
+      config,
+      loadedModuleNames,
+      sdkDeps,
+      options.allowedPermissions
+    );
+    if (sandboxed) return sandboxed;
+  }
+
+  const moduleUrl = pathToFileURL(modulePath).href + (options.fresh ? `?t=${Date.now()}` : "");
+  const mod = (await import(moduleUrl)) as RawPluginExports;
+  if (!mod.tools || (typeof mod.tools !== "function" && !Array.isArray(mod.tools))) {
+    throw new Error("no 'tools' array or function exported");
+  }
+  const adapted = adaptPlugin(mod, entryName, config, loadedModuleNames, sdkDeps);
+  checkAllowed(adapted.name, adapted.permissions ?? NO_PERMISSIONS, options.allowedPermissions);
+  return adapted;
+}
+
 // ─── Plugin Dependency Installation ─────────────────────────────────
 
 /**
@@ -372,7 +686,8 @@ export async function loadEnhancedPlugins(
   const pluginPaths: Array<{ entry: string; path: string }> = [];
 
   for (const entry of entries) {
-    if (entry === "data") continue;
+    // Dot directories are marketplace staging and backup copies
+    if (entry === "data" || entry.startsWith(".")) continue;
 
     const entryPath = join(pluginsDir, entry);
     let modulePath: string | null = null;
@@ -406,13 +721,17 @@ export async function loadEnhancedPlugins(
   // Phase 2: Load plugins in parallel
   const loadResults = await Promise.allSettled(
     pluginPaths.map(async ({ entry, path }) => {
-      const moduleUrl = pathToFileURL(path).href;
-      const mod = (await import(moduleUrl)) as RawPluginExports;
-      return { entry, mod };
+      try {
+        // Marketplace plugins must still be the files verified at install
+        if (path.endsWith("index.js")) verifyInstalled(entry, dirname(path));
+        return await loadPlugin(entry, path, config, loadedModuleNames, sdkDeps);
+      } catch (err) {
+        throw new Error(`Plugin "${entry}": ${err instanceof Error ? err.message : err}`);
+      }
     })
   );
 
-  // Phase 3: Validate and adapt plugins (sequential for consistency)
+  // Phase 3: Keep the first plugin of each name (sequential for consistency)
   for (const result of loadResults) {
     if (result.status === "rejected") {
       log.error(
@@ -421,26 +740,15 @@ export async function loadEnhancedPlugins(
       continue;
     }
 
-    const { entry, mod } = result.value;
-
-    try {
-      if (!mod.tools || (typeof mod.tools !== "function" && !Array.isArray(mod.tools))) {
-        log.warn(`Plugin "${entry}": no 'tools' array or function exported, skipping`);
-        continue;
-      }
-
-      const adapted = adaptPlugin(mod, entry, config, loadedModuleNames, sdkDeps);
-
-      if (loadedNames.has(adapted.name)) {
-        log.warn(`Plugin "${adapted.name}" already loaded, skipping duplicate from "${entry}"`);
-        continue;
-      }
-
-      loadedNames.add(adapted.name);
-      modules.push(adapted);
-    } catch (err) {
-      log.error(`Plugin "${entry}" failed to adapt: ${err instanceof Error ? err.message : err}`);
+    const adapted = result.value;
+    if (loadedNames.has(adapted.name)) {
+      log.warn(`Plugin "${adapted.name}" already loaded, skipping duplicate`);
+      if (adapted.sandboxed) await adapted.stop?.();
+      continue;
     }
+
+    loadedNames.add(adapted.name);
+    modules.push(adapted);
   }
 
   return modules;
@@ -2,6 +2,7 @@
  * Plugin validation utilities.
  *
  * - Manifest validation via Zod
+ * - Permission declarations (what the sandbox allows)
  * - Tool definition validation
  * - Config sanitization (strip sensitive fields before exposing to plugins)
  */
@@ -12,6 +13,23 @@ import { createLogger } from "../../utils/logger.js";
 
 const log = createLogger("PluginValidator");
 
+export const PLUGIN_CAPABILITIES = ["ton.send", "telegram.send", "telegram.raw"] as const;
+export type PluginCapability = (typeof PLUGIN_CAPABILITIES)[number];
+
+const HOST_PATTERN = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+const PermissionsSchema = z.object({
+  capabilities: z.array(z.enum(PLUGIN_CAPABILITIES)).default([]),
+  network: z
+    .array(z.string().max(253).regex(HOST_PATTERN, "Must be a hostname or *.domain"))
+    .default([]),
+  fs: z.array(z.string().min(1).max(512)).default([]),
+});
+
+export type PluginPermissions = z.infer<typeof PermissionsSchema>;
+
+export const NO_PERMISSIONS: PluginPermissions = { capabilities: [], network: [], fs: [] };
+
 const ManifestSchema = z.object({
   name: z
     .string()
@@ -37,6 +55,7 @@ const ManifestSchema = z.object({
       })
     )
     .optional(),
+  permissions: PermissionsSchema.optional(),
 });
 
 export type PluginManifest = z.infer<typeof ManifestSchema>;
@@ -45,6 +64,39 @@ export function validateManifest(raw: unknown): PluginManifest {
   return ManifestSchema.parse(raw);
 }
 
+/** Parse a `permissions` declaration; a missing one grants nothing */
+export function parsePermissions(raw: unknown): PluginPermissions {
+  return raw === undefined || raw === null ? NO_PERMISSIONS : PermissionsSchema.parse(raw);
+}
+
+/** Whether every permission in `requested` is also in `granted` */
+export function permissionsCovered(
+  granted: PluginPermissions,
+  requested: PluginPermissions
+): boolean {
+  return (
+    requested.capabilities.every((c) => granted.capabilities.includes(c)) &&
+    requested.network.every((h) => granted.network.includes(h)) &&
+    requested.fs.every((p) => granted.fs.includes(p))
+  );
+}
+
+/** Human-readable lines for consent prompts */
+export function describePermissions(permissions: PluginPermissions): string[] {
+  const lines: string[] = [];
+  if (permissions.capabilities.includes("telegram.raw")) {
+    lines.push("Full access to the Telegram account (raw client); runs inside the agent process");
+  }
+  if (permissions.capabilities.includes("ton.send"))
+    lines.push("Send TON and jettons from the wallet");
+  if (permissions.capabilities.includes("telegram.send")) {
+    lines.push("Send, edit and delete Telegram messages and moderate chats");
+  }
+  if (permissions.network.length > 0) lines.push(`Connect to ${permissions.network.join(", ")}`);
+  if (permissions.fs.length > 0) lines.push(`Read and write ${permissions.fs.join(", ")}`);
+  return lines;
+}
+
 export interface SimpleToolDef {
   name: string;
   description: string;
@@ -55,6 +107,7 @@ export interface SimpleToolDef {
   ) => Promise<{ success: boolean; data?: unknown; error?: string }>;
   scope?: "always" | "dm-only" | "group-only" | "admin-only";
   category?: "data-bearing" | "action";
+  parallelSafe?: boolean;
 }
 
 export function validateToolDefs(defs: unknown[], pluginName: string): SimpleToolDef[] {
@@ -5,16 +5,16 @@
  * Key design decisions:
  * - Validates new plugin BEFORE stopping old one ("keep old until new succeeds")
  * - Per-plugin debounce (300ms) to avoid reload storms
- * - ESM cache busting via ?t= query parameter
+ * - ESM cache busting via ?t= query parameter (sandboxed plugins get a new process)
  * - Never crashes the main process on reload failure
  */
 
 import chokidar from "chokidar";
-import { basename, relative, resolve, sep } from "path";
+import { basename, dirname, relative, resolve, sep } from "path";
 import { existsSync } from "fs";
-import { pathToFileURL } from "url";
 import { WORKSPACE_PATHS } from "../../workspace/paths.js";
-import { adaptPlugin, ensurePluginDeps } from "./plugin-loader.js";
+import { loadPlugin, ensurePluginDeps } from "./plugin-loader.js";
+import { verifyInstalled } from "../../webui/services/plugin-integrity.js";
 import type { PluginModule, PluginContext, Tool, ToolExecutor, ToolScope } from "./types.js";
 import type { ToolRegistry } from "./registry.js";
 import type { Config } from "../../config/schema.js";
@@ -61,6 +61,8 @@ export class PluginWatcher {
         "**/node_modules/**",
         "**/data/**",
         "**/.git/**",
+        "**/.staging-*/**",
+        "**/.previous-*/**",
         "**/*.map",
         "**/*.d.ts",
         "**/*.md",
@@ -204,23 +206,17 @@ export class PluginWatcher {
         await ensurePluginDeps(pluginDir, pluginName);
       }
 
-      // 2. Import with cache bust
-      const moduleUrl = pathToFileURL(modulePath).href + `?t=${Date.now()}`;
-      const freshMod = await import(moduleUrl);
-
-      // 3. Validate exports BEFORE stopping old plugin
-      if (
-        !freshMod.tools ||
-        (typeof freshMod.tools !== "function" && !Array.isArray(freshMod.tools))
-      ) {
-        throw new Error("No valid 'tools' export found");
-      }
-
-      // 4. Adapt and validate (old plugin still running)
+      // 2-3. Load with cache bust and validate exports BEFORE stopping old plugin
       const entryName = basename(modulePath) === "index.js" ? pluginName : `${pluginName}.js`;
-      const adapted = adaptPlugin(freshMod, entryName, config, loadedModuleNames, sdkDeps);
+      if (entryName === pluginName) verifyInstalled(pluginName, dirname(modulePath));
+      const adapted = await loadPlugin(entryName, modulePath, config, loadedModuleNames, sdkDeps, {
+        fresh: true,
+      });
+
+      // 4. Validate tools (old plugin still running)
       const newTools = adapted.tools(config);
       if (newTools.length === 0) {
+        if (adapted.sandboxed) await adapted.stop?.();
         throw new Error("Plugin produced zero valid tools");
       }
 
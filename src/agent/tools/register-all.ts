@@ -16,6 +16,7 @@ import { tools as dedustTools } from "./dedust/index.js";
 import { tools as journalTools } from "./journal/index.js";
 import { tools as workspaceTools } from "./workspace/index.js";
 import { tools as webTools } from "./web/index.js";
+import { isTestnet } from "../../ton/network.js";
 
 const ALL_CATEGORIES: ToolEntry[][] = [
   telegramTools,
@@ -28,8 +29,12 @@ const ALL_CATEGORIES: ToolEntry[][] = [
   webTools,
 ];
 
+/** DEX categories have no pools on testnet */
+const MAINNET_ONLY_CATEGORIES = new Set<ToolEntry[]>([stonfiTools, dedustTools]);
+
 export function registerAllTools(registry: ToolRegistry): void {
   for (const category of ALL_CATEGORIES) {
+    if (isTestnet() && MAINNET_ONLY_CATEGORIES.has(category)) continue;
     for (const { tool, executor, scope } of category) {
       registry.register(tool, executor, scope);
     }
@@ -10,6 +10,7 @@ import type {
 } from "./types.js";
 import type { ModulePermissions } from "./module-permissions.js";
 import { TOOL_EXECUTION_TIMEOUT_MS } from "../../constants/timeouts.js";
+import { TELEGRAM_SEND_TOOLS } from "../../constants/tools.js";
 import type Database from "better-sqlite3";
 import {
   loadAllToolConfigs,
@@ -18,11 +19,25 @@ import {
   type ToolConfig,
 } from "../../memory/tool-config.js";
 import type { ToolIndex } from "./tool-index.js";
+import { audit, type AuditActor } from "../../memory/audit-log.js";
+import { toolDuration, toolExecutions } from "../../metrics/index.js";
+import { withSpan, currentTraceContext, type SpanHandle } from "../../tracing/tracer.js";
 import { getErrorMessage } from "../../utils/errors.js";
 import { createLogger } from "../../utils/logger.js";
 
 const log = createLogger("Registry");
 
+function toolAuditActor(updatedBy: number | undefined): AuditActor {
+  return updatedBy !== undefined
+    ? { source: "telegram", actor: `telegram:${updatedBy}` }
+    : { source: "agent", actor: "system" };
+}
+
+/** Whether a tool name matches one of the patterns (exact, or `prefix*`) */
+export function matchesToolPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((p) => (p.endsWith("*") ? name.startsWith(p.slice(0, -1)) : name === p));
+}
+
 export class ToolRegistry {
   private tools: Map<string, RegisteredTool> = new Map();
   private scopes: Map<string, ToolScope> = new Map();
@@ -88,7 +103,10 @@ export class ToolRegistry {
   async execute(toolCall: ToolCall, context: ToolContext): Promise<ToolResult> {
     const registered = this.tools.get(toolCall.name);
 
-    if (!registered) {
+    if (
+      !registered ||
+      (context.allowedTools && !matchesToolPattern(toolCall.name, context.allowedTools))
+    ) {
       return {
         success: false,
         error: `Unknown tool: ${toolCall.name}`,
@@ -148,6 +166,22 @@ export class ToolRegistry {
       }
     }
 
+    return withSpan(
+      "tool.execute",
+      { "tool.name": toolCall.name, "tool.module": this.toolModules.get(toolCall.name) },
+      (span) => this.run(registered, toolCall, { ...context, trace: currentTraceContext() }, span)
+    );
+  }
+
+  /** Validate and run a permitted tool call under the execution timeout */
+  private async run(
+    registered: RegisteredTool,
+    toolCall: ToolCall,
+    context: ToolContext,
+    span: SpanHandle
+  ): Promise<ToolResult> {
+    const stopTimer = toolDuration.startTimer({ tool: toolCall.name });
+    let timedOut = false;
     try {
       const validatedArgs = validateToolCall(this.getAll(), toolCall);
 
@@ -155,20 +189,29 @@ export class ToolRegistry {
       const result = await Promise.race([
         registered.executor(validatedArgs, context),
         new Promise<never>((_, reject) => {
-          timeoutHandle = setTimeout(
-            () =>
-              reject(
-                new Error(
-                  `Tool "${toolCall.name}" timed out after ${TOOL_EXECUTION_TIMEOUT_MS / 1000}s`
-                )
-              ),
-            TOOL_EXECUTION_TIMEOUT_MS
-          );
+          timeoutHandle = setTimeout(() => {
+            timedOut = true;
+            reject(
+              new Error(
+                `Tool "${toolCall.name}" timed out after ${TOOL_EXECUTION_TIMEOUT_MS / 1000}s`
+              )
+            );
+          }, TOOL_EXECUTION_TIMEOUT_MS);
         }),
       ]).finally(() => clearTimeout(timeoutHandle));
 
+      stopTimer();
+      const status = result.success ? "success" : "error";
+      toolExecutions.inc({ tool: toolCall.name, status });
+      span.setAttribute("tool.status", status);
+      if (!result.success) span.recordError(result.error ?? "Tool failed");
       return result;
     } catch (error) {
+      stopTimer();
+      const status = timedOut ? "timeout" : "error";
+      toolExecutions.inc({ tool: toolCall.name, status });
+      span.setAttribute("tool.status", status);
+      span.recordError(error);
       log.error({ err: error }, `Error executing tool ${toolCall.name}`);
       return {
         success: false,
@@ -177,6 +220,52 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Execute the tool calls of one assistant message. Runs of consecutive
+   * parallel-safe calls execute concurrently (at most `maxParallel` at once);
+   * every other call runs alone, in order. Results are returned in call order.
+   */
+  async executeAll(
+    toolCalls: ToolCall[],
+    context: ToolContext,
+    maxParallel: number
+  ): Promise<ToolResult[]> {
+    const results: ToolResult[] = new Array(toolCalls.length);
+    let start = 0;
+
+    while (start < toolCalls.length) {
+      let end = start + 1;
+      if (maxParallel > 1 && this.isParallelSafe(toolCalls[start].name)) {
+        while (end < toolCalls.length && this.isParallelSafe(toolCalls[end].name)) end++;
+      }
+
+      let next = start;
+      const worker = async (): Promise<void> => {
+        while (next < end) {
+          const index = next++;
+          results[index] = await this.execute(toolCalls[index], context);
+        }
+      };
+      const workers = Math.min(maxParallel, end - start);
+      await Promise.all(Array.from({ length: workers }, worker));
+
+      start = end;
+    }
+
+    return results;
+  }
+
+  /**
+   * Whether a tool may run concurrently with other calls. Telegram send tools
+   * never do, so messages keep their order.
+   */
+  isParallelSafe(name: string): boolean {
+    if (TELEGRAM_SEND_TOOLS.has(name)) return false;
+    const tool = this.tools.get(name)?.tool;
+    if (!tool) return false;
+    return tool.parallelSafe ?? tool.category === "data-bearing";
+  }
+
   getForProvider(toolLimit: number | null): PiAiTool[] {
     const all = this.getAll();
     if (toolLimit === null || all.length <= toolLimit) {
@@ -289,13 +378,15 @@ export class ToolRegistry {
   }
 
   /**
-   * Update tool enabled status
+   * Update tool enabled status. `by` identifies the caller in the audit log
+   * (defaults to the Telegram user in `updatedBy`, else "system").
    */
-  setToolEnabled(toolName: string, enabled: boolean, updatedBy?: number): boolean {
+  setToolEnabled(toolName: string, enabled: boolean, updatedBy?: number, by?: AuditActor): boolean {
     if (!this.tools.has(toolName) || !this.db) return false;
 
     const currentConfig = this.toolConfigs.get(toolName);
     const scope = currentConfig?.scope ?? this.scopes.get(toolName) ?? "always";
+    const wasEnabled = currentConfig?.enabled ?? true;
 
     saveToolConfig(this.db, toolName, enabled, scope, updatedBy);
 
@@ -303,17 +394,31 @@ export class ToolRegistry {
     this.toolConfigs = loadAllToolConfigs(this.db);
     this.toolArrayCache = null;
 
+    audit({
+      ...(by ?? toolAuditActor(updatedBy)),
+      action: "tool.enabled",
+      target: toolName,
+      before: wasEnabled,
+      after: enabled,
+    });
+
     return true;
   }
 
   /**
    * Update tool scope
    */
-  updateToolScope(toolName: string, scope: ToolScope, updatedBy?: number): boolean {
+  updateToolScope(
+    toolName: string,
+    scope: ToolScope,
+    updatedBy?: number,
+    by?: AuditActor
+  ): boolean {
     if (!this.tools.has(toolName) || !this.db) return false;
 
     const currentConfig = this.toolConfigs.get(toolName);
     const enabled = currentConfig?.enabled ?? true;
+    const oldScope = currentConfig?.scope ?? this.scopes.get(toolName) ?? "always";
 
     saveToolConfig(this.db, toolName, enabled, scope, updatedBy);
 
@@ -321,6 +426,14 @@ export class ToolRegistry {
     this.toolConfigs = loadAllToolConfigs(this.db);
     this.toolArrayCache = null;
 
+    audit({
+      ...(by ?? toolAuditActor(updatedBy)),
+      action: "tool.scope",
+      target: toolName,
+      before: oldScope,
+      after: scope,
+    });
+
     return true;
   }
 
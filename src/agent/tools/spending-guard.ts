@@ -0,0 +1,92 @@
+import type { ToolContext, ToolResult } from "./types.js";
+import { auditSpend, getSpendingPolicy, type SpendRequest } from "../../ton/spending-policy.js";
+import { getErrorMessage } from "../../utils/errors.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Tools");
+
+/**
+ * Run a fund-moving tool under the wallet spending policy.
+ *
+ * `execute` performs the actual signing and is only called once the spend is
+ * allowed. When owner approval is needed the tool returns immediately with a
+ * pending status; `execute` runs after approval and the outcome is posted to
+ * the originating chat. Every outcome is recorded in the audit log.
+ */
+export async function guardSpend(
+  request: Omit<SpendRequest, "chatId" | "senderId">,
+  context: ToolContext,
+  execute: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  const spend: SpendRequest = { ...request, chatId: context.chatId, senderId: context.senderId };
+  const run = async (): Promise<ToolResult> => {
+    let result: ToolResult;
+    try {
+      result = await execute();
+    } catch (error) {
+      auditSpend(spend, "failed", getErrorMessage(error));
+      throw error;
+    }
+    auditSpend(spend, result.success ? "executed" : "failed", result.error);
+    return result;
+  };
+
+  const policy = getSpendingPolicy();
+  if (!policy) return run();
+
+  const { evaluation, logId, approval } = await policy.authorize(spend);
+
+  if (evaluation.decision === "denied") {
+    auditSpend(spend, "blocked", evaluation.reason);
+    log.warn(`🚫 ${request.tool} blocked by spending policy: ${evaluation.reason}`);
+    return { success: false, error: `Blocked by spending policy: ${evaluation.reason}` };
+  }
+
+  if (!approval) {
+    const result = await run();
+    if (logId !== null) policy.markExecuted(logId, result.success);
+    return result;
+  }
+
+  const { id, outcome } = approval;
+  log.info(`⏳ ${request.tool} waiting for owner approval #${id}: ${evaluation.reason}`);
+
+  void outcome.then(async ({ outcome: decision, logId: approvedLogId, reason }) => {
+    let text: string;
+    if (decision === "approved") {
+      let result: ToolResult;
+      try {
+        result = await run();
+      } catch (error) {
+        result = { success: false, error: getErrorMessage(error) };
+      }
+      if (approvedLogId !== null) policy.markExecuted(approvedLogId, result.success);
+      const data = result.data as { message?: string } | undefined;
+      text = result.success
+        ? `✅ Approved spend #${id} executed: ${data?.message ?? request.tool}`
+        : `⚠️ Approved spend #${id} failed: ${result.error}`;
+    } else if (decision === "blocked") {
+      auditSpend(spend, "blocked", reason);
+      text = `🚫 Spend #${id} (${request.amount} ${request.symbol}) was approved, but is blocked by the spending policy: ${reason}`;
+    } else {
+      auditSpend(spend, decision);
+      text = `❌ Spend #${id} (${request.amount} ${request.symbol}) was ${decision}.`;
+    }
+
+    try {
+      await context.bridge.sendMessage({ chatId: context.chatId, text });
+    } catch (error) {
+      log.error({ err: error }, `Failed to report spend #${id} outcome`);
+    }
+  });
+
+  return {
+    success: true,
+    data: {
+      status: "pending_approval",
+      approvalId: id,
+      reason: evaluation.reason,
+      message: `This spend needs owner approval (${evaluation.reason}). Request #${id} was sent to the owner; the transfer will run automatically once approved.`,
+    },
+  };
+}
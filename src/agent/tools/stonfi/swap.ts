@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, fromNano, internal } from "@ton/ton";
 import { SendMode } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { DEX, pTON } from "@ston-fi/sdk";
 import { StonApiClient } from "@ston-fi/api";
 import { getErrorMessage } from "../../../utils/errors.js";
@@ -76,117 +77,129 @@ export const stonfiSwapExecutor: ToolExecutor<JettonSwapParams> = async (
       };
     }
 
-    const endpoint = await getCachedHttpEndpoint();
-    const tonClient = new TonClient({ endpoint });
-    const stonApiClient = new StonApiClient();
-
-    // Fetch decimals for accurate conversion (TON=9, USDT=6, WBTC=8, etc.)
-    const fromAssetInfo = await stonApiClient.getAsset(fromAddress);
-    const fromDecimals = fromAssetInfo?.decimals ?? 9;
-    // String-based conversion to avoid float precision loss with high-decimal tokens
-    const amountStr = amount.toFixed(fromDecimals);
-    const [whole, frac = ""] = amountStr.split(".");
-    const offerUnits = BigInt(
-      whole + (frac + "0".repeat(fromDecimals)).slice(0, fromDecimals)
-    ).toString();
-
-    log.info(`Simulating swap: ${amount} ${fromAddress} → ${toAddress}`);
-    const simulationResult = await stonApiClient.simulateSwap({
-      offerAddress: fromAddress,
-      askAddress: toAddress,
-      offerUnits,
-      slippageTolerance: slippage.toString(),
-    });
-
-    if (!simulationResult || !simulationResult.router) {
-      return {
-        success: false,
-        error: "Failed to simulate swap. Pool may not exist or have insufficient liquidity.",
-      };
-    }
-
-    const { router: routerInfo } = simulationResult;
-    const router = tonClient.open(new DEX.v1.Router(routerInfo.address));
+    return guardSpend(
+      {
+        tool: "stonfi_swap",
+        kind: isTonInput ? "ton" : "jetton",
+        asset: isTonInput ? "TON" : fromAddress,
+        symbol: isTonInput ? "TON" : "jetton",
+        amount,
+      },
+      context,
+      async () => {
+        const endpoint = await getCachedHttpEndpoint();
+        const tonClient = new TonClient({ endpoint });
+        const stonApiClient = new StonApiClient();
+
+        // Fetch decimals for accurate conversion (TON=9, USDT=6, WBTC=8, etc.)
+        const fromAssetInfo = await stonApiClient.getAsset(fromAddress);
+        const fromDecimals = fromAssetInfo?.decimals ?? 9;
+        // String-based conversion to avoid float precision loss with high-decimal tokens
+        const amountStr = amount.toFixed(fromDecimals);
+        const [whole, frac = ""] = amountStr.split(".");
+        const offerUnits = BigInt(
+          whole + (frac + "0".repeat(fromDecimals)).slice(0, fromDecimals)
+        ).toString();
+
+        log.info(`Simulating swap: ${amount} ${fromAddress} → ${toAddress}`);
+        const simulationResult = await stonApiClient.simulateSwap({
+          offerAddress: fromAddress,
+          askAddress: toAddress,
+          offerUnits,
+          slippageTolerance: slippage.toString(),
+        });
+
+        if (!simulationResult || !simulationResult.router) {
+          return {
+            success: false,
+            error: "Failed to simulate swap. Pool may not exist or have insufficient liquidity.",
+          };
+        }
+
+        const { router: routerInfo } = simulationResult;
+        const router = tonClient.open(new DEX.v1.Router(routerInfo.address));
+
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
+        const walletContract = tonClient.open(wallet);
+        const seqno = await walletContract.getSeqno();
+
+        let txParams;
+
+        if (isTonInput) {
+          // Check balance for TON swaps
+          const balance = await tonClient.getBalance(wallet.address);
+          const requiredAmount = BigInt(simulationResult.offerUnits) + toNano("0.3"); // 0.3 TON for gas
+          if (balance < requiredAmount) {
+            return {
+              success: false,
+              error: `Insufficient balance. Have ${fromNano(balance)} TON, need ~${fromNano(requiredAmount)} TON (including gas).`,
+            };
+          }
+
+          // TON → Jetton swap
+          const proxyTon = new pTON.v1(routerInfo.ptonMasterAddress);
+
+          txParams = await router.getSwapTonToJettonTxParams({
+            userWalletAddress: walletData.address,
+            proxyTon,
+            askJettonAddress: toAddress,
+            offerAmount: BigInt(simulationResult.offerUnits),
+            minAskAmount: BigInt(simulationResult.minAskUnits),
+          });
+        } else {
+          // Jetton → Jetton or Jetton → TON swap
+          txParams = await router.getSwapJettonToJettonTxParams({
+            userWalletAddress: walletData.address,
+            offerJettonAddress: fromAddress,
+            askJettonAddress: toAddress,
+            offerAmount: BigInt(simulationResult.offerUnits),
+            minAskAmount: BigInt(simulationResult.minAskUnits),
+          });
+        }
+
+        await walletContract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: txParams.to,
+              value: txParams.value,
+              body: txParams.body,
+              bounce: true,
+            }),
+          ],
+        });
+
+        // Fetch ask asset decimals for accurate output conversion
+        const toAssetInfo = await stonApiClient.getAsset(toAddress);
+        const askDecimals = toAssetInfo?.decimals ?? 9;
+        const expectedOutput = Number(simulationResult.askUnits) / 10 ** askDecimals;
+        const minOutput = Number(simulationResult.minAskUnits) / 10 ** askDecimals;
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
-    const walletContract = tonClient.open(wallet);
-    const seqno = await walletContract.getSeqno();
-
-    let txParams;
-
-    if (isTonInput) {
-      // Check balance for TON swaps
-      const balance = await tonClient.getBalance(wallet.address);
-      const requiredAmount = BigInt(simulationResult.offerUnits) + toNano("0.3"); // 0.3 TON for gas
-      if (balance < requiredAmount) {
         return {
-          success: false,
-          error: `Insufficient balance. Have ${fromNano(balance)} TON, need ~${fromNano(requiredAmount)} TON (including gas).`,
+          success: true,
+          data: {
+            from: fromAddress,
+            to: toAddress,
+            amountIn: amount.toString(),
+            expectedOutput: expectedOutput.toFixed(6),
+            minOutput: minOutput.toFixed(6),
+            slippage: `${(slippage * 100).toFixed(2)}%`,
+            priceImpact: simulationResult.priceImpact || "N/A",
+            router: routerInfo.address,
+            message: `Swapped ${amount} ${isTonInput ? "TON" : "tokens"} for ~${expectedOutput.toFixed(4)} tokens\n  Minimum output: ${minOutput.toFixed(4)}\n  Slippage: ${(slippage * 100).toFixed(2)}%\n  Transaction sent (check balance in ~30 seconds)`,
+          },
         };
       }
-
-      // TON → Jetton swap
-      const proxyTon = new pTON.v1(routerInfo.ptonMasterAddress);
-
-      txParams = await router.getSwapTonToJettonTxParams({
-        userWalletAddress: walletData.address,
-        proxyTon,
-        askJettonAddress: toAddress,
-        offerAmount: BigInt(simulationResult.offerUnits),
-        minAskAmount: BigInt(simulationResult.minAskUnits),
-      });
-    } else {
-      // Jetton → Jetton or Jetton → TON swap
-      txParams = await router.getSwapJettonToJettonTxParams({
-        userWalletAddress: walletData.address,
-        offerJettonAddress: fromAddress,
-        askJettonAddress: toAddress,
-        offerAmount: BigInt(simulationResult.offerUnits),
-        minAskAmount: BigInt(simulationResult.minAskUnits),
-      });
-    }
-
-    await walletContract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      messages: [
-        internal({
-          to: txParams.to,
-          value: txParams.value,
-          body: txParams.body,
-          bounce: true,
-        }),
-      ],
-    });
-
-    // Fetch ask asset decimals for accurate output conversion
-    const toAssetInfo = await stonApiClient.getAsset(toAddress);
-    const askDecimals = toAssetInfo?.decimals ?? 9;
-    const expectedOutput = Number(simulationResult.askUnits) / 10 ** askDecimals;
-    const minOutput = Number(simulationResult.minAskUnits) / 10 ** askDecimals;
-
-    return {
-      success: true,
-      data: {
-        from: fromAddress,
-        to: toAddress,
-        amountIn: amount.toString(),
-        expectedOutput: expectedOutput.toFixed(6),
-        minOutput: minOutput.toFixed(6),
-        slippage: `${(slippage * 100).toFixed(2)}%`,
-        priceImpact: simulationResult.priceImpact || "N/A",
-        router: routerInfo.address,
-        message: `Swapped ${amount} ${isTonInput ? "TON" : "tokens"} for ~${expectedOutput.toFixed(4)} tokens\n  Minimum output: ${minOutput.toFixed(4)}\n  Slippage: ${(slippage * 100).toFixed(2)}%\n  Transaction sent (check balance in ~30 seconds)`,
-      },
-    };
+    );
   } catch (error) {
     log.error({ err: error }, "Error in stonfi_swap");
     return {
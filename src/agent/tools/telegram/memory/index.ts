@@ -6,6 +6,6 @@ export { memoryWriteTool, memoryWriteExecutor };
 export { memoryReadTool, memoryReadExecutor };
 
 export const tools: ToolEntry[] = [
-  { tool: memoryWriteTool, executor: memoryWriteExecutor, scope: "dm-only" },
+  { tool: memoryWriteTool, executor: memoryWriteExecutor },
   { tool: memoryReadTool, executor: memoryReadExecutor },
 ];
@@ -3,6 +3,7 @@ import type { Tool, ToolExecutor, ToolResult } from "../../types.js";
 import { readFileSync, existsSync, readdirSync } from "fs";
 import { join } from "path";
 import { WORKSPACE_PATHS } from "../../../../workspace/index.js";
+import { getMemoryProfiles } from "../../../../memory/agent/profiles.js";
 import { getErrorMessage } from "../../../../utils/errors.js";
 import { createLogger } from "../../../../utils/logger.js";
 
@@ -15,7 +16,9 @@ const MEMORY_FILE = WORKSPACE_PATHS.MEMORY;
  * Parameters for memory_read tool
  */
 interface MemoryReadParams {
-  target: "persistent" | "daily" | "recent" | "list";
+  target?: "persistent" | "daily" | "recent" | "list";
+  subject?: "global" | "user" | "chat";
+  user_id?: string;
   date?: string; // YYYY-MM-DD for specific daily log
 }
 
@@ -25,14 +28,29 @@ interface MemoryReadParams {
 export const memoryReadTool: Tool = {
   name: "memory_read",
   description:
-    "Read your memory files. Use 'persistent' for MEMORY.md, 'daily' for today's log, 'recent' for today+yesterday, or 'list' to see all available memory files.",
+    "Read your memory. subject='user' returns everything you remember about the person you're talking to, subject='chat' about this chat. subject='global' (default) reads memory files: 'persistent' for MEMORY.md, 'daily' for today's log, 'recent' for today+yesterday, or 'list' to see all available memory files.",
   category: "data-bearing",
   parameters: Type.Object({
-    target: Type.String({
-      description:
-        "'persistent' (MEMORY.md), 'daily' (today's log), 'recent' (today+yesterday), 'list' (show all files)",
-      enum: ["persistent", "daily", "recent", "list"],
-    }),
+    subject: Type.Optional(
+      Type.String({
+        description:
+          "'user' (facts about the current sender), 'chat' (facts about this chat), or 'global' (memory files, default)",
+        enum: ["global", "user", "chat"],
+      })
+    ),
+    user_id: Type.Optional(
+      Type.String({
+        description:
+          "Admins only, with subject='user': Telegram user ID to read facts about (default: the sender)",
+      })
+    ),
+    target: Type.Optional(
+      Type.String({
+        description:
+          "subject='global' only: 'persistent' (MEMORY.md, default), 'daily' (today's log), 'recent' (today+yesterday), 'list' (show all files)",
+        enum: ["persistent", "daily", "recent", "list"],
+      })
+    ),
     date: Type.Optional(
       Type.String({
         description:
@@ -57,10 +75,42 @@ function formatDate(date: Date): string {
  */
 export const memoryReadExecutor: ToolExecutor<MemoryReadParams> = async (
   params,
-  _context
+  context
 ): Promise<ToolResult> => {
   try {
-    const { target, date } = params;
+    const { target = "persistent", subject = "global", date } = params;
+
+    if (subject === "user" || subject === "chat") {
+      const isAdmin = context.config?.telegram.admin_ids.includes(context.senderId) ?? false;
+      if (params.user_id && params.user_id !== String(context.senderId) && !isAdmin) {
+        return {
+          success: false,
+          error: "Only admins can read facts about other users.",
+        };
+      }
+
+      const profiles = getMemoryProfiles();
+      if (!profiles) {
+        return { success: false, error: "Memory profiles are not available." };
+      }
+
+      const subjectId =
+        subject === "user" ? (params.user_id ?? String(context.senderId)) : context.chatId;
+      const facts = profiles.listFacts(subject, subjectId);
+      return {
+        success: true,
+        data: {
+          subject,
+          subjectId,
+          facts: facts.map((f) => ({
+            id: f.id,
+            text: f.text,
+            updatedAt: new Date(f.updatedAt * 1000).toISOString(),
+          })),
+          count: facts.length,
+        },
+      };
+    }
 
     if (target === "list") {
       // List all memory files
@@ -3,6 +3,7 @@ import type { Tool, ToolExecutor, ToolResult } from "../../types.js";
 import { appendFileSync, readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
 import { join } from "path";
 import { WORKSPACE_PATHS } from "../../../../workspace/index.js";
+import { getMemoryProfiles } from "../../../../memory/agent/profiles.js";
 import { getErrorMessage } from "../../../../utils/errors.js";
 import { createLogger } from "../../../../utils/logger.js";
 
@@ -27,7 +28,9 @@ function getMemoryLineCount(): number {
  */
 interface MemoryWriteParams {
   content: string;
-  target: "persistent" | "daily";
+  target?: "persistent" | "daily";
+  subject?: "global" | "user" | "chat";
+  user_id?: string;
   section?: string;
 }
 
@@ -37,16 +40,31 @@ interface MemoryWriteParams {
 export const memoryWriteTool: Tool = {
   name: "memory_write",
   description:
-    "Write important information to your persistent memory. Use this to remember facts, lessons learned, decisions, preferences, or anything you want to recall in future sessions. 'persistent' writes to MEMORY.md (long-term), 'daily' writes to today's log (short-term notes).",
+    "Write important information to your persistent memory. Use this to remember facts, lessons learned, decisions, preferences, or anything you want to recall in future sessions. subject='user' saves a fact about the person you're talking to (their preferences, background), subject='chat' a fact about this chat; these are only recalled when talking to that person or in that chat. subject='global' (default): 'persistent' writes to MEMORY.md (long-term), 'daily' writes to today's log (short-term notes).",
   parameters: Type.Object({
     content: Type.String({
       description: "The content to write to memory. Be concise but complete.",
     }),
-    target: Type.String({
-      description:
-        "'persistent' for MEMORY.md (long-term facts), 'daily' for today's log (notes, events)",
-      enum: ["persistent", "daily"],
-    }),
+    subject: Type.Optional(
+      Type.String({
+        description:
+          "Who the memory is about: 'user' (the current sender), 'chat' (this chat), or 'global' (general knowledge, default)",
+        enum: ["global", "user", "chat"],
+      })
+    ),
+    user_id: Type.Optional(
+      Type.String({
+        description:
+          "Admins only, with subject='user': Telegram user ID the fact is about (default: the sender)",
+      })
+    ),
+    target: Type.Optional(
+      Type.String({
+        description:
+          "subject='global' only: 'persistent' for MEMORY.md (long-term facts, default), 'daily' for today's log (notes, events)",
+        enum: ["persistent", "daily"],
+      })
+    ),
     section: Type.Optional(
       Type.String({
         description:
@@ -90,13 +108,25 @@ export const memoryWriteExecutor: ToolExecutor<MemoryWriteParams> = async (
   context
 ): Promise<ToolResult> => {
   try {
-    const { content, target, section } = params;
+    const { content, target = "persistent", subject = "global", section } = params;
+    const isAdmin = context.config?.telegram.admin_ids.includes(context.senderId) ?? false;
 
-    // SECURITY: Block memory writes in group chats to prevent memory poisoning
-    if (context.isGroup) {
+    // SECURITY: Block shared memory writes in group chats to prevent memory poisoning.
+    // Facts about the sender only ever reach that sender's own context.
+    if (context.isGroup && (subject === "global" || (subject === "chat" && !isAdmin))) {
       return {
         success: false,
-        error: "Memory writes are disabled in group chats for security reasons.",
+        error:
+          subject === "global"
+            ? "Memory writes are disabled in group chats for security reasons. Use subject 'user' to remember something about the sender."
+            : "Only admins can save facts about a group chat.",
+      };
+    }
+
+    if (params.user_id && params.user_id !== String(context.senderId) && !isAdmin) {
+      return {
+        success: false,
+        error: "Only admins can save facts about other users.",
       };
     }
 
@@ -108,6 +138,33 @@ export const memoryWriteExecutor: ToolExecutor<MemoryWriteParams> = async (
       };
     }
 
+    if (subject === "user" || subject === "chat") {
+      const profiles = getMemoryProfiles();
+      if (!profiles) {
+        return { success: false, error: "Memory profiles are not available." };
+      }
+
+      const subjectId =
+        subject === "user" ? (params.user_id ?? String(context.senderId)) : context.chatId;
+      const fact = await profiles.addFact(
+        subject,
+        subjectId,
+        section ? `${section}: ${content}` : content
+      );
+
+      log.info(`📝 Memory fact saved about ${subject} ${subjectId}`);
+
+      return {
+        success: true,
+        data: {
+          subject,
+          subjectId,
+          id: fact.id,
+          facts: profiles.listFacts(subject, subjectId).length,
+        },
+      };
+    }
+
     ensureMemoryDir();
 
     const now = new Date();
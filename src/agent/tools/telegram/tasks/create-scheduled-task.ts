@@ -1,8 +1,13 @@
 import { Type } from "@sinclair/typebox";
 import type { Tool, ToolExecutor, ToolResult } from "../../types.js";
-import { Api } from "telegram";
-import { randomLong } from "../../../../utils/gramjs-bigint.js";
 import { MAX_DEPENDENTS_PER_TASK } from "../../../../constants/limits.js";
+import { scheduleTaskReminder } from "../../../../telegram/task-reminder.js";
+import {
+  describeRecurrence,
+  nextRunAfter,
+  validateRecurrence,
+  type TaskRecurrence,
+} from "../../../../memory/agent/task-recurrence.js";
 import { getErrorMessage } from "../../../../utils/errors.js";
 import { createLogger } from "../../../../utils/logger.js";
 
@@ -18,6 +23,11 @@ interface CreateScheduledTaskParams {
   reason?: string;
   priority?: number;
   dependsOn?: string[];
+  cron?: string;
+  everyMinutes?: number;
+  dailyAt?: string;
+  timezone?: string;
+  maxRuns?: number;
 }
 
 /**
@@ -47,11 +57,19 @@ interface CreateScheduledTaskParams {
  *      scheduleDate: "2024-12-31T18:00:00Z",
  *      reason: "Weekly review"
  *    }
+ *
+ * 4. Recurring task (first run at the next matching time):
+ *    {
+ *      description: "Post morning market summary",
+ *      dailyAt: "09:00",
+ *      timezone: "Europe/Paris",
+ *      maxRuns: 30
+ *    }
  */
 export const telegramCreateScheduledTaskTool: Tool = {
   name: "telegram_create_scheduled_task",
   description:
-    "Create a scheduled task that will be executed at a specific time. The task will be stored in the database and a reminder message will be scheduled in Saved Messages. When the time comes, you'll receive the task context and can execute it with full agent capabilities. Supports both simple tool calls and complex multi-step tasks.",
+    "Create a scheduled task that will be executed at a specific time, or repeatedly (cron expression, every N minutes, or daily at HH:MM). The task will be stored in the database and a reminder message will be scheduled in Saved Messages. When the time comes, you'll receive the task context and can execute it with full agent capabilities. Supports both simple tool calls and complex multi-step tasks.",
   parameters: Type.Object({
     description: Type.String({
       description: "What the task is about (e.g., 'Check TON price and alert if > $5')",
@@ -59,7 +77,7 @@ export const telegramCreateScheduledTaskTool: Tool = {
     scheduleDate: Type.Optional(
       Type.String({
         description:
-          "When to execute the task (ISO 8601 format, e.g., '2024-12-25T10:00:00Z' or Unix timestamp). Optional if dependsOn is provided - task will execute when dependencies complete.",
+          "When to execute the task (ISO 8601 format, e.g., '2024-12-25T10:00:00Z' or Unix timestamp). Optional if dependsOn or a recurrence (cron, everyMinutes, dailyAt) is provided. For recurring tasks, sets the first run time.",
       })
     ),
     payload: Type.Optional(
@@ -96,6 +114,35 @@ If omitted, task is a simple reminder.`,
           "Array of parent task IDs that must complete before this task executes. When dependencies are provided, task executes automatically when all parents are done (scheduleDate is ignored).",
       })
     ),
+    cron: Type.Optional(
+      Type.String({
+        description:
+          "Repeat on a 5-field cron expression (minute hour day-of-month month day-of-week), e.g. '0 9 * * 1-5' for weekdays at 09:00. Evaluated in timezone.",
+      })
+    ),
+    everyMinutes: Type.Optional(
+      Type.Integer({
+        description: "Repeat every N minutes",
+        minimum: 1,
+      })
+    ),
+    dailyAt: Type.Optional(
+      Type.String({
+        description: "Repeat every day at this wall-clock time (HH:MM, 24h), in timezone",
+      })
+    ),
+    timezone: Type.Optional(
+      Type.String({
+        description:
+          "IANA timezone for cron/dailyAt (e.g. 'Europe/Paris'). Defaults to the server timezone.",
+      })
+    ),
+    maxRuns: Type.Optional(
+      Type.Integer({
+        description: "Stop a recurring task after this many runs (default: unlimited)",
+        minimum: 1,
+      })
+    ),
   }),
 };
 
@@ -107,13 +154,55 @@ export const telegramCreateScheduledTaskExecutor: ToolExecutor<CreateScheduledTa
   context
 ): Promise<ToolResult> => {
   try {
-    const { description, scheduleDate, payload, reason, priority, dependsOn } = params;
+    const { description, scheduleDate, payload, reason, priority, dependsOn, maxRuns } = params;
 
-    // Validate: either scheduleDate OR dependsOn must be provided
-    if (!scheduleDate && (!dependsOn || dependsOn.length === 0)) {
+    // Build recurrence rule (at most one of cron / everyMinutes / dailyAt)
+    const recurrences: TaskRecurrence[] = [];
+    if (params.cron) {
+      recurrences.push({ kind: "cron", expression: params.cron, timezone: params.timezone });
+    }
+    if (params.everyMinutes !== undefined) {
+      recurrences.push({ kind: "interval", minutes: params.everyMinutes });
+    }
+    if (params.dailyAt) {
+      recurrences.push({ kind: "daily", time: params.dailyAt, timezone: params.timezone });
+    }
+    if (recurrences.length > 1) {
       return {
         success: false,
-        error: "Either scheduleDate or dependsOn must be provided",
+        error: "Use only one of cron, everyMinutes or dailyAt",
+      };
+    }
+    const recurrence = recurrences[0];
+
+    if (recurrence) {
+      if (dependsOn && dependsOn.length > 0) {
+        return {
+          success: false,
+          error: "Recurring tasks cannot have dependencies",
+        };
+      }
+      try {
+        validateRecurrence(recurrence);
+      } catch (e) {
+        return {
+          success: false,
+          error: getErrorMessage(e),
+        };
+      }
+    } else if (maxRuns !== undefined) {
+      return {
+        success: false,
+        error: "maxRuns requires cron, everyMinutes or dailyAt",
+      };
+    }
+
+    // Validate: scheduleDate, dependsOn or a recurrence must be provided
+    if (!scheduleDate && !recurrence && (!dependsOn || dependsOn.length === 0)) {
+      return {
+        success: false,
+        error:
+          "Either scheduleDate, dependsOn or a recurrence (cron, everyMinutes, dailyAt) must be provided",
       };
     }
 
@@ -143,6 +232,11 @@ export const telegramCreateScheduledTaskExecutor: ToolExecutor<CreateScheduledTa
       }
     }
 
+    // Recurring tasks without an explicit start fire at the first matching time
+    if (recurrence && scheduleTimestamp === undefined) {
+      scheduleTimestamp = Math.floor(nextRunAfter(recurrence, new Date()).getTime() / 1000);
+    }
+
     // Validate payload if provided
     if (payload) {
       try {
@@ -233,6 +327,8 @@ export const telegramCreateScheduledTaskExecutor: ToolExecutor<CreateScheduledTa
       payload,
       reason,
       dependsOn,
+      recurrence,
+      maxRuns,
     });
 
     // 2. Schedule Telegram message with [TASK:uuid] format (only if not dependent on other tasks)
@@ -250,30 +346,10 @@ export const telegramCreateScheduledTaskExecutor: ToolExecutor<CreateScheduledTa
       };
     } else if (scheduleTimestamp) {
       // Task has schedule date - schedule Telegram message
-      const gramJsClient = context.bridge.getClient().getClient();
-
-      // Get "me" entity for Saved Messages
-      const me = await gramJsClient.getMe();
-
-      const taskMessage = `[TASK:${task.id}] ${description}`;
-
-      const result = await gramJsClient.invoke(
-        new Api.messages.SendMessage({
-          peer: me,
-          message: taskMessage,
-          scheduleDate: scheduleTimestamp,
-          randomId: randomLong(),
-        })
-      );
-
-      // Extract scheduled message ID
-      if (result instanceof Api.Updates || result instanceof Api.UpdatesCombined) {
-        for (const update of result.updates) {
-          if (update instanceof Api.UpdateMessageID) {
-            scheduledMessageId = update.id;
-            break;
-          }
-        }
+      const runAt = new Date(scheduleTimestamp * 1000);
+      scheduledMessageId = await scheduleTaskReminder(context.bridge, task, runAt);
+      if (scheduledMessageId !== undefined) {
+        taskStore.scheduleNextRun(task.id, runAt, scheduledMessageId);
       }
 
       return {
@@ -282,7 +358,11 @@ export const telegramCreateScheduledTaskExecutor: ToolExecutor<CreateScheduledTa
           taskId: task.id,
           scheduledFor: new Date(scheduleTimestamp * 1000).toISOString(),
           scheduledMessageId,
-          message: `Task scheduled: "${description}" at ${new Date(scheduleTimestamp * 1000).toLocaleString()}`,
+          recurrence: recurrence ? describeRecurrence(recurrence) : undefined,
+          maxRuns,
+          message: recurrence
+            ? `Recurring task scheduled: "${description}" (${describeRecurrence(recurrence)}), first run at ${new Date(scheduleTimestamp * 1000).toLocaleString()}`
+            : `Task scheduled: "${description}" at ${new Date(scheduleTimestamp * 1000).toLocaleString()}`,
         },
       };
     }
@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, internal } from "@ton/ton";
 import { Address, SendMode, beginCell } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
@@ -131,48 +132,61 @@ export const jettonSendExecutor: ToolExecutor<JettonSendParams> = async (
       .storeMaybeRef(comment ? forwardPayload : null) // forward_payload
       .endCell();
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
-
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
-    const walletContract = client.open(wallet);
-
-    const seqno = await walletContract.getSeqno();
-
-    // Send transfer to our jetton wallet (NOT to recipient!)
-    await walletContract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      messages: [
-        internal({
-          to: Address.parse(senderJettonWallet),
-          value: toNano("0.05"), // Gas for jetton transfer
-          body: messageBody,
-          bounce: true,
-        }),
-      ],
-    });
-
-    return {
-      success: true,
-      data: {
-        jetton: symbol,
-        jettonAddress: jetton_address,
-        amount: amount.toString(),
-        to,
-        from: walletData.address,
-        comment: comment || null,
-        message: `Sent ${amount} ${symbol} to ${to}${comment ? ` (${comment})` : ""}\n  Transaction sent (check balance in ~30 seconds)`,
+    return guardSpend(
+      {
+        tool: "jetton_send",
+        kind: "jetton",
+        asset: jettonBalance.jetton.address,
+        symbol,
+        amount,
+        destination: to,
       },
-    };
+      context,
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
+
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const walletContract = client.open(wallet);
+
+        const seqno = await walletContract.getSeqno();
+
+        // Send transfer to our jetton wallet (NOT to recipient!)
+        await walletContract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: Address.parse(senderJettonWallet),
+              value: toNano("0.05"), // Gas for jetton transfer
+              body: messageBody,
+              bounce: true,
+            }),
+          ],
+        });
+
+        return {
+          success: true,
+          data: {
+            jetton: symbol,
+            jettonAddress: jetton_address,
+            amount: amount.toString(),
+            to,
+            from: walletData.address,
+            comment: comment || null,
+            message: `Sent ${amount} ${symbol} to ${to}${comment ? ` (${comment})` : ""}\n  Transaction sent (check balance in ~30 seconds)`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in jetton_send");
     return {
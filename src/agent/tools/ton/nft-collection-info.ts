@@ -3,6 +3,7 @@ import type { Tool, ToolExecutor, ToolResult } from "../types.js";
 import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { explorerUrl } from "../../../ton/network.js";
 import { pickPreview } from "./nft-utils.js";
 
 const log = createLogger("Tools");
@@ -61,7 +62,7 @@ export const nftCollectionInfoExecutor: ToolExecutor<NftCollectionInfoParams> =
       preview: pickPreview(previews),
       socialLinks,
       verified: Array.isArray(data.approved_by) && data.approved_by.length > 0,
-      explorer: `https://tonviewer.com/${collection_address}`,
+      explorer: explorerUrl("address", collection_address),
     };
 
     const parts: string[] = [];
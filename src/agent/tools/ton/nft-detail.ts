@@ -3,6 +3,7 @@ import type { Tool, ToolExecutor, ToolResult } from "../types.js";
 import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { explorerUrl } from "../../../ton/network.js";
 import { pickPreview, formatSalePrice } from "./nft-utils.js";
 
 const log = createLogger("Tools");
@@ -79,7 +80,7 @@ export const nftDetailExecutor: ToolExecutor<NftDetailParams> = async (
       dns: item.dns || null,
       trust: item.trust || "none",
       verified: Array.isArray(item.approved_by) && item.approved_by.length > 0,
-      explorer: `https://tonviewer.com/${nft_address}`,
+      explorer: explorerUrl("address", nft_address),
     };
 
     // Build user-friendly message
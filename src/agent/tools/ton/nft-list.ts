@@ -4,6 +4,7 @@ import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getWalletAddress } from "../../../ton/wallet-service.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
+import { explorerUrl } from "../../../ton/network.js";
 
 const log = createLogger("Tools");
 
@@ -130,7 +131,7 @@ export const nftListExecutor: ToolExecutor<NftListParams> = async (
         marketplace: sale?.marketplace || null,
         dns: item.dns || null,
         trust: item.trust || "none",
-        explorer: `https://tonviewer.com/${item.address}`,
+        explorer: explorerUrl("address", item.address),
       };
     });
 
@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, internal } from "@ton/ton";
 import { Address, SendMode, beginCell } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { tonapiFetch } from "../../../constants/api-endpoints.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
@@ -40,7 +41,7 @@ export const nftTransferTool: Tool = {
 
 export const nftTransferExecutor: ToolExecutor<NftTransferParams> = async (
   params,
-  _context
+  context
 ): Promise<ToolResult> => {
   try {
     const { nft_address, to, comment } = params;
@@ -120,48 +121,61 @@ export const nftTransferExecutor: ToolExecutor<NftTransferParams> = async (
       .storeMaybeRef(comment ? forwardPayload : null) // forward_payload
       .endCell();
 
-    // 7. Derive keys and send transaction
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
-
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
-
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
-    const walletContract = client.open(wallet);
-    const seqno = await walletContract.getSeqno();
-
-    // Send TO the NFT contract (not to recipient!)
-    await walletContract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      messages: [
-        internal({
-          to: Address.parse(nft_address),
-          value: toNano("0.05"), // Gas for NFT transfer
-          body: messageBody,
-          bounce: true,
-        }),
-      ],
-    });
-
-    return {
-      success: true,
-      data: {
-        nftAddress: nft_address,
-        nftName,
-        to,
-        from: walletData.address,
-        comment: comment || null,
-        message: `Transferred NFT "${nftName}" to ${to}${comment ? ` (${comment})` : ""}\nTransaction sent (check in ~30 seconds)`,
+    // 7. Derive keys and send transaction (subject to the spending policy)
+    return guardSpend(
+      {
+        tool: "nft_transfer",
+        kind: "nft",
+        asset: nft_address,
+        symbol: nftName,
+        amount: 0,
+        destination: to,
       },
-    };
+      context,
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
+
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
+
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const walletContract = client.open(wallet);
+        const seqno = await walletContract.getSeqno();
+
+        // Send TO the NFT contract (not to recipient!)
+        await walletContract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: Address.parse(nft_address),
+              value: toNano("0.05"), // Gas for NFT transfer
+              body: messageBody,
+              bounce: true,
+            }),
+          ],
+        });
+
+        return {
+          success: true,
+          data: {
+            nftAddress: nft_address,
+            nftName,
+            to,
+            from: walletData.address,
+            comment: comment || null,
+            message: `Transferred NFT "${nftName}" to ${to}${comment ? ` (${comment})` : ""}\nTransaction sent (check in ~30 seconds)`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in nft_transfer");
     return { success: false, error: getErrorMessage(error) };
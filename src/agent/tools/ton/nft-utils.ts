@@ -3,6 +3,8 @@
  * Extracts common mapping logic used by nft_list, nft_detail, nft_collection_items, nft_on_sale.
  */
 
+import { explorerUrl } from "../../../ton/network.js";
+
 export interface NftItemSummary {
   address: string;
   index: number;
@@ -65,6 +67,6 @@ export function mapNftItemSummary(item: any): NftItemSummary {
     marketplace,
     dns: item.dns || null,
     trust: item.trust || "none",
-    explorer: `https://tonviewer.com/${item.address}`,
+    explorer: explorerUrl("address", item.address),
   };
 }
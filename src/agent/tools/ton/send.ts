@@ -4,6 +4,7 @@ import { loadWallet, getKeyPair } from "../../../ton/wallet-service.js";
 import { WalletContractV5R1, TonClient, toNano, internal } from "@ton/ton";
 import { Address, SendMode } from "@ton/core";
 import { getCachedHttpEndpoint } from "../../../ton/endpoint.js";
+import { guardSpend } from "../spending-guard.js";
 import { getErrorMessage } from "../../../utils/errors.js";
 import { createLogger } from "../../../utils/logger.js";
 
@@ -56,48 +57,54 @@ export const tonSendExecutor: ToolExecutor<SendParams> = async (
       };
     }
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      return { success: false, error: "Wallet key derivation failed." };
-    }
+    return guardSpend(
+      { tool: "ton_send", kind: "ton", asset: "TON", symbol: "TON", amount, destination: to },
+      context,
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          return { success: false, error: "Wallet key derivation failed." };
+        }
 
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
 
-    // Get decentralized endpoint from orbs network (no rate limits)
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
+        // Get decentralized endpoint from orbs network (no rate limits)
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
 
-    const contract = client.open(wallet);
+        const contract = client.open(wallet);
 
-    const seqno = await contract.getSeqno();
+        const seqno = await contract.getSeqno();
 
-    await contract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY,
-      messages: [
-        internal({
-          to: Address.parse(to),
-          value: toNano(amount),
-          body: comment || "",
-          bounce: false,
-        }),
-      ],
-    });
+        await contract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY,
+          messages: [
+            internal({
+              to: Address.parse(to),
+              value: toNano(amount),
+              body: comment || "",
+              bounce: false,
+            }),
+          ],
+        });
 
-    return {
-      success: true,
-      data: {
-        to,
-        amount,
-        comment: comment || null,
-        from: walletData.address,
-        message: `Sent ${amount} TON to ${to}${comment ? ` (${comment})` : ""}`,
-      },
-    };
+        return {
+          success: true,
+          data: {
+            to,
+            amount,
+            comment: comment || null,
+            from: walletData.address,
+            message: `Sent ${amount} TON to ${to}${comment ? ` (${comment})` : ""}`,
+          },
+        };
+      }
+    );
   } catch (error) {
     log.error({ err: error }, "Error in ton_send");
     return {
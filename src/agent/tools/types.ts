@@ -2,6 +2,7 @@ import type { TSchema } from "@sinclair/typebox";
 import type { TelegramBridge } from "../../telegram/bridge.js";
 import type Database from "better-sqlite3";
 import type { Config } from "../../config/schema.js";
+import type { TraceContext } from "../../tracing/tracer.js";
 
 /**
  * Context provided to tool executors
@@ -19,6 +20,10 @@ export interface ToolContext {
   isGroup: boolean;
   /** Full config for accessing API key, model, etc. (optional) */
   config?: Config;
+  /** Active trace span of this tool call, when tracing is enabled */
+  trace?: TraceContext;
+  /** Tool names usable in this context (exact, or `prefix*`); all tools when unset */
+  allowedTools?: string[];
 }
 
 /**
@@ -31,6 +36,16 @@ export interface ToolResult {
   data?: unknown;
   /** Error message if failed */
   error?: string;
+  /** Images for vision-capable models; sent as image blocks, not serialized with `data` */
+  images?: ToolResultImage[];
+}
+
+/**
+ * Base64 image returned by a tool (e.g. MCP image content)
+ */
+export interface ToolResultImage {
+  data: string;
+  mimeType: string;
 }
 
 /**
@@ -59,6 +74,11 @@ export interface Tool<TParameters extends TSchema = TSchema> {
   parameters: TParameters;
   /** Tool category (affects masking behavior) */
   category?: ToolCategory;
+  /**
+   * Whether calls may run concurrently with other parallel-safe calls in the
+   * same iteration. Defaults to true for "data-bearing" tools, false otherwise.
+   */
+  parallelSafe?: boolean;
 }
 
 /**
@@ -0,0 +1,285 @@
+import type Database from "better-sqlite3";
+import type { BudgetConfig, Config } from "../config/schema.js";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Token usage and cost of one LLM call.
+ */
+export interface UsageEntry {
+  chatId: string;
+  /** Telegram user ID of the sender (unset for system-initiated runs) */
+  userId?: number;
+  isGroup: boolean;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetSubject {
+  chatId: string;
+  userId?: number;
+  isGroup: boolean;
+  isAdmin: boolean;
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  /** Which cap was hit, e.g. "this group's daily budget ($2.00)" */
+  reason?: string;
+}
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** UTC day, YYYY-MM-DD */
+  day: string;
+}
+
+export interface ModelUsage extends UsageTotals {
+  provider: string;
+  model: string;
+}
+
+export interface ChatUsage extends UsageTotals {
+  chatId: string;
+  title: string | null;
+  isGroup: boolean;
+}
+
+export interface UserUsage extends UsageTotals {
+  userId: string;
+  username: string | null;
+  firstName: string | null;
+}
+
+export interface UsageSummary {
+  days: number;
+  today: UsageTotals;
+  month: UsageTotals;
+  range: UsageTotals;
+  daily: DailyUsage[];
+  byModel: ModelUsage[];
+  topChats: ChatUsage[];
+  topUsers: UserUsage[];
+  budget: BudgetConfig;
+}
+
+interface TotalsRow {
+  cost_usd: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  requests: number;
+}
+
+const TOTALS_COLUMNS = `
+  SUM(cost_usd) AS cost_usd,
+  SUM(input_tokens + cache_read_tokens + cache_write_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  COUNT(*) AS requests
+`;
+
+function toTotals(row: TotalsRow | undefined): UsageTotals {
+  return {
+    costUsd: row?.cost_usd ?? 0,
+    inputTokens: row?.input_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    requests: row?.requests ?? 0,
+  };
+}
+
+/** Unix seconds at the start of the current UTC day */
+function startOfDay(now: Date): number {
+  return Math.floor(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) / 1000);
+}
+
+/** Unix seconds at the start of the current UTC month */
+function startOfMonth(now: Date): number {
+  return Math.floor(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1) / 1000);
+}
+
+function usd(n: number): string {
+  return `$${n.toFixed(2)}`;
+}
+
+/**
+ * LLM cost accounting and budgets (`budget` config section).
+ *
+ * Every LLM call is appended to `llm_usage`; budgets are checked against
+ * the UTC day (per user, per group) and UTC calendar month (overall).
+ */
+export class UsageTracker {
+  constructor(
+    private db: Database.Database,
+    private config: BudgetConfig
+  ) {}
+
+  record(entry: UsageEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO llm_usage (
+          chat_id, user_id, is_group, provider, model,
+          input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.chatId,
+        entry.userId !== undefined ? String(entry.userId) : null,
+        entry.isGroup ? 1 : 0,
+        entry.provider,
+        entry.model,
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.cacheReadTokens,
+        entry.cacheWriteTokens,
+        entry.costUsd
+      );
+  }
+
+  /**
+   * Check the caps that apply to a message. The first exceeded cap wins.
+   */
+  checkBudget(subject: BudgetSubject, now: Date = new Date()): BudgetStatus {
+    const { monthly_usd, user_daily_usd, group_daily_usd, group_overrides } = this.config;
+    const today = startOfDay(now);
+
+    if (monthly_usd !== undefined) {
+      const spent = this.costSince(startOfMonth(now));
+      if (spent >= monthly_usd) {
+        return { exceeded: true, reason: `the monthly budget (${usd(monthly_usd)})` };
+      }
+    }
+
+    if (subject.isGroup) {
+      const cap = group_overrides[subject.chatId] ?? group_daily_usd;
+      if (cap !== undefined && this.costSince(today, "chat_id = ?", subject.chatId) >= cap) {
+        return { exceeded: true, reason: `this group's daily budget (${usd(cap)})` };
+      }
+    }
+
+    if (user_daily_usd !== undefined && subject.userId !== undefined && !subject.isAdmin) {
+      const spent = this.costSince(today, "user_id = ?", String(subject.userId));
+      if (spent >= user_daily_usd) {
+        return { exceeded: true, reason: `your daily budget (${usd(user_daily_usd)})` };
+      }
+    }
+
+    return { exceeded: false };
+  }
+
+  /**
+   * Aggregated usage for reports: today, this month, and the last `days` days.
+   */
+  getSummary(days: number, now: Date = new Date(), limit = 10): UsageSummary {
+    const since = startOfDay(now) - (days - 1) * DAY_SECONDS;
+
+    const daily = this.db
+      .prepare(
+        `SELECT date(created_at, 'unixepoch') AS day, ${TOTALS_COLUMNS}
+         FROM llm_usage WHERE created_at >= ?
+         GROUP BY day ORDER BY day`
+      )
+      .all(since) as Array<TotalsRow & { day: string }>;
+
+    const byModel = this.db
+      .prepare(
+        `SELECT provider, model, ${TOTALS_COLUMNS}
+         FROM llm_usage WHERE created_at >= ?
+         GROUP BY provider, model ORDER BY cost_usd DESC`
+      )
+      .all(since) as Array<TotalsRow & { provider: string; model: string }>;
+
+    const topChats = this.db
+      .prepare(
+        `SELECT u.chat_id, MAX(u.is_group) AS is_group, c.title, ${TOTALS_COLUMNS}
+         FROM llm_usage u LEFT JOIN tg_chats c ON c.id = u.chat_id
+         WHERE u.created_at >= ?
+         GROUP BY u.chat_id ORDER BY cost_usd DESC LIMIT ?`
+      )
+      .all(since, limit) as Array<
+      TotalsRow & { chat_id: string; is_group: number; title: string | null }
+    >;
+
+    const topUsers = this.db
+      .prepare(
+        `SELECT u.user_id, tu.username, tu.first_name, ${TOTALS_COLUMNS}
+         FROM llm_usage u LEFT JOIN tg_users tu ON tu.id = u.user_id
+         WHERE u.created_at >= ? AND u.user_id IS NOT NULL
+         GROUP BY u.user_id ORDER BY cost_usd DESC LIMIT ?`
+      )
+      .all(since, limit) as Array<
+      TotalsRow & { user_id: string; username: string | null; first_name: string | null }
+    >;
+
+    return {
+      days,
+      today: this.totalsSince(startOfDay(now)),
+      month: this.totalsSince(startOfMonth(now)),
+      range: this.totalsSince(since),
+      daily: daily.map((row) => ({ day: row.day, ...toTotals(row) })),
+      byModel: byModel.map((row) => ({
+        provider: row.provider,
+        model: row.model,
+        ...toTotals(row),
+      })),
+      topChats: topChats.map((row) => ({
+        chatId: row.chat_id,
+        title: row.title,
+        isGroup: row.is_group === 1,
+        ...toTotals(row),
+      })),
+      topUsers: topUsers.map((row) => ({
+        userId: row.user_id,
+        username: row.username,
+        firstName: row.first_name,
+        ...toTotals(row),
+      })),
+      budget: this.config,
+    };
+  }
+
+  private totalsSince(since: number): UsageTotals {
+    const row = this.db
+      .prepare(`SELECT ${TOTALS_COLUMNS} FROM llm_usage WHERE created_at >= ?`)
+      .get(since) as TotalsRow | undefined;
+    return toTotals(row);
+  }
+
+  private costSince(since: number, filter?: string, value?: string): number {
+    const where = filter ? `created_at >= ? AND ${filter}` : "created_at >= ?";
+    const params = filter ? [since, value] : [since];
+    const row = this.db
+      .prepare(`SELECT COALESCE(SUM(cost_usd), 0) AS total FROM llm_usage WHERE ${where}`)
+      .get(...params) as { total: number };
+    return row.total;
+  }
+}
+
+let instance: UsageTracker | null = null;
+
+/**
+ * Create the process-wide tracker (called once at startup).
+ */
+export function initUsageTracker(
+  db: Database.Database,
+  config: Pick<Config, "budget">
+): UsageTracker {
+  instance = new UsageTracker(db, config.budget);
+  return instance;
+}
+
+/**
+ * The active tracker, or null when the agent isn't running (CLI, tests).
+ */
+export function getUsageTracker(): UsageTracker | null {
+  return instance;
+}
@@ -5,6 +5,13 @@
 import type Database from "better-sqlite3";
 import type { DealContext, DealStatus } from "../types.js";
 import { DEAL_VERIFICATION_WINDOW_SECONDS } from "../../constants/limits.js";
+import { dealTransitions } from "../../metrics/index.js";
+
+/** Count a status change when the guarded UPDATE matched */
+function transitioned(changes: number, status: DealStatus): boolean {
+  if (changes > 0) dealTransitions.inc({ status }, changes);
+  return changes === 1;
+}
 
 interface DealRow {
   id: string;
@@ -79,7 +86,8 @@ export function getDeal(db: Database.Database, dealId: string): DealContext | nu
  * Update deal status
  */
 export function updateDealStatus(db: Database.Database, dealId: string, status: DealStatus): void {
-  db.prepare(`UPDATE deals SET status = ? WHERE id = ?`).run(status, dealId);
+  const r = db.prepare(`UPDATE deals SET status = ? WHERE id = ?`).run(status, dealId);
+  transitioned(r.changes, status);
 }
 
 /**
@@ -92,7 +100,7 @@ export function acceptDeal(db: Database.Database, dealId: string): boolean {
       `UPDATE deals SET status = 'accepted', expires_at = ? WHERE id = ? AND status = 'proposed'`
     )
     .run(newExpiry, dealId);
-  return r.changes === 1;
+  return transitioned(r.changes, "accepted");
 }
 
 /**
@@ -102,7 +110,7 @@ export function declineDeal(db: Database.Database, dealId: string): boolean {
   const r = db
     .prepare(`UPDATE deals SET status = 'declined' WHERE id = ? AND status = 'proposed'`)
     .run(dealId);
-  return r.changes === 1;
+  return transitioned(r.changes, "declined");
 }
 
 /**
@@ -114,7 +122,7 @@ export function claimPayment(db: Database.Database, dealId: string): boolean {
       `UPDATE deals SET status = 'payment_claimed', payment_claimed_at = unixepoch() WHERE id = ? AND status = 'accepted'`
     )
     .run(dealId);
-  return r.changes === 1;
+  return transitioned(r.changes, "payment_claimed");
 }
 
 /**
@@ -145,7 +153,7 @@ export function expireDeal(db: Database.Database, dealId: string): boolean {
       `UPDATE deals SET status = 'expired' WHERE id = ? AND status IN ('proposed', 'accepted')`
     )
     .run(dealId);
-  return r.changes === 1;
+  return transitioned(r.changes, "expired");
 }
 
 /**
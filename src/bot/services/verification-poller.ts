@@ -18,6 +18,7 @@ import { getWalletAddress } from "../../ton/wallet-service.js";
 import { executeDeal } from "../../deals/executor.js";
 import { DEALS_CONFIG } from "../../deals/config.js";
 import { createLogger } from "../../utils/logger.js";
+import { dealTransitions } from "../../metrics/index.js";
 
 const log = createLogger("Poller");
 
@@ -274,6 +275,7 @@ export class VerificationPoller {
       log.warn(`⚠️ [Poller] Deal ${deal.dealId} already transitioned by another poller, skipping`);
       return;
     }
+    dealTransitions.inc({ status: "verified" });
 
     // Update bot inline message to show "Sending..."
     if (deal.inlineMessageId) {
@@ -328,6 +330,7 @@ export class VerificationPoller {
       this.retryMap.delete(deal.dealId);
       return;
     }
+    dealTransitions.inc({ status: "failed" });
 
     // Update bot message
     if (deal.inlineMessageId) {
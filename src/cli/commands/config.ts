@@ -1,14 +1,22 @@
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { userInfo } from "os";
+import { join } from "path";
 import { getDefaultConfigPath } from "../../config/loader.js";
 import { createPrompter, CancelledError } from "../prompts.js";
 import {
   CONFIGURABLE_KEYS,
   getNestedValue,
+  getMaskedValue,
   setNestedValue,
   deleteNestedValue,
   readRawConfig,
   writeRawConfig,
 } from "../../config/configurable-keys.js";
 import type { ConfigKeyMeta } from "../../config/configurable-keys.js";
+import { AuditLog } from "../../memory/audit-log.js";
+import { TELETON_ROOT } from "../../workspace/paths.js";
+import { getErrorMessage } from "../../utils/errors.js";
 
 // ── Whitelist guard ────────────────────────────────────────────────────
 
@@ -22,6 +30,37 @@ function requireWhitelisted(key: string): ConfigKeyMeta {
   return meta;
 }
 
+// ── Audit ──────────────────────────────────────────────────────────────
+
+/**
+ * Record a config change in the agent's audit log. Skipped when the
+ * workspace database doesn't exist yet or predates the audit log.
+ */
+function auditChange(action: string, key: string, before: unknown, after: unknown): void {
+  const dbPath = join(TELETON_ROOT, "memory.db");
+  if (!existsSync(dbPath)) return;
+
+  const db = new Database(dbPath);
+  try {
+    const hasTable = db
+      .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'audit_log'`)
+      .get();
+    if (!hasTable) return;
+    new AuditLog(db).record({
+      source: "cli",
+      actor: `cli:${userInfo().username}`,
+      action,
+      target: key,
+      before,
+      after,
+    });
+  } catch (error) {
+    console.warn(`⚠️  Could not write audit log: ${getErrorMessage(error)}`);
+  } finally {
+    db.close();
+  }
+}
+
 // ── Actions ────────────────────────────────────────────────────────────
 
 async function actionSet(
@@ -69,8 +108,10 @@ async function actionSet(
   }
 
   const raw = readRawConfig(configPath);
+  const before = getMaskedValue(raw, key, meta);
   setNestedValue(raw, key, meta.parse(value));
   writeRawConfig(raw, configPath);
+  auditChange("config.set", key, before, meta.mask(value));
   console.log(`✓ ${key} = ${meta.mask(value)}`);
 }
 
@@ -104,10 +145,12 @@ function actionList(configPath: string): void {
 }
 
 function actionUnset(key: string, configPath: string): void {
-  requireWhitelisted(key);
+  const meta = requireWhitelisted(key);
   const raw = readRawConfig(configPath);
+  const before = getMaskedValue(raw, key, meta);
   deleteNestedValue(raw, key);
   writeRawConfig(raw, configPath);
+  auditChange("config.unset", key, before, null);
   console.log(`✓ ${key} unset`);
 }
 
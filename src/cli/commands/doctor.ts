@@ -211,10 +211,18 @@ async function checkWallet(workspaceDir: string): Promise<CheckResult> {
     const shortAddr =
       wallet.address.substring(0, 8) + "..." + wallet.address.substring(wallet.address.length - 6);
 
+    if (!wallet.keystore) {
+      return {
+        name: "TON wallet",
+        status: "warn",
+        message: `${shortAddr} (plaintext mnemonic, run: teleton wallet rotate-passphrase)`,
+      };
+    }
+
     return {
       name: "TON wallet",
       status: "ok",
-      message: shortAddr,
+      message: `${shortAddr} (encrypted)`,
     };
   } catch {
     return {
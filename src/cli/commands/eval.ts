@@ -0,0 +1,117 @@
+/**
+ * Offline retrieval evaluation.
+ *
+ *   teleton eval <file> [-k 5] [--rerank] [--rewrite]
+ *
+ * Scores memory search on a labelled set (see parseEvalSet) against the
+ * local database, once with plain hybrid search and once per enabled stage,
+ * so weights and top-k can be tuned before changing config.yaml.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { getDefaultConfigPath, loadConfig } from "../../config/loader.js";
+import { TELETON_ROOT } from "../../workspace/paths.js";
+import { initializeMemory, closeDatabase, getDatabase } from "../../memory/index.js";
+import { HybridSearch } from "../../memory/search/hybrid.js";
+import {
+  Retriever,
+  retrievalOptionsFromConfig,
+  type RetrievalOptions,
+} from "../../memory/search/retriever.js";
+import { evaluateRetrieval, parseEvalSet, type EvalMetrics } from "../../memory/search/eval.js";
+
+function formatRow(name: string, m: EvalMetrics): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`.padStart(8);
+  return (
+    name.padEnd(18) +
+    pct(m.recall) +
+    pct(m.hitRate) +
+    m.mrr.toFixed(3).padStart(8) +
+    `${Math.round(m.avgLatencyMs)}ms`.padStart(10)
+  );
+}
+
+export async function evalCommand(
+  file: string,
+  options: { k?: string; rerank?: boolean; rewrite?: boolean; config?: string }
+): Promise<void> {
+  const k = Number(options.k ?? 5);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`-k must be a positive integer, got "${options.k}"`);
+  }
+
+  const cases = parseEvalSet(readFileSync(file, "utf-8"));
+  if (cases.length === 0) {
+    throw new Error(`No labelled queries in ${file}`);
+  }
+
+  const config = loadConfig(options.config || getDefaultConfigPath());
+  const embeddingProvider = config.embedding.provider;
+  const memory = initializeMemory({
+    database: {
+      path: join(TELETON_ROOT, "memory.db"),
+      enableVectorSearch: embeddingProvider !== "none",
+    },
+    embeddings: {
+      provider: embeddingProvider,
+      model: config.embedding.model,
+      apiKey: embeddingProvider === "anthropic" ? config.agent.api_key : config.embedding.api_key,
+      baseUrl: config.embedding.base_url ?? config.agent.base_url,
+      dimensions: config.embedding.dimensions,
+      batchSize: config.embedding.batch_size,
+    },
+    workspaceDir: TELETON_ROOT,
+  });
+
+  try {
+    if (memory.embedder.warmup) await memory.embedder.warmup();
+    const hybridSearch = new HybridSearch(memory.db, getDatabase().isVectorSearchReady());
+
+    const configured = retrievalOptionsFromConfig(
+      {
+        ...config.retrieval,
+        rerank: {
+          ...config.retrieval.rerank,
+          enabled: config.retrieval.rerank.enabled || !!options.rerank,
+        },
+        query_rewrite: {
+          ...config.retrieval.query_rewrite,
+          enabled: config.retrieval.query_rewrite.enabled || !!options.rewrite,
+        },
+      },
+      config.agent
+    );
+    if (configured.reranker?.warmup && !(await configured.reranker.warmup())) {
+      throw new Error(`Reranker model ${configured.reranker.model} could not be loaded`);
+    }
+
+    const { reranker, rewriter, ...weights } = configured;
+    const variants: Array<[string, RetrievalOptions]> = [["hybrid", weights]];
+    if (rewriter) variants.push(["+rewrite", { ...weights, rewriter }]);
+    if (reranker) variants.push(["+rerank", { ...weights, reranker }]);
+    if (rewriter && reranker) variants.push(["+rewrite +rerank", configured]);
+
+    const sources = new Set(cases.map((c) => c.source));
+    console.log(
+      `\n📊 ${cases.length} labelled queries (${[...sources].join(", ")}), k=${k}, ` +
+        `weights vector=${weights.vectorWeight} keyword=${weights.keywordWeight}\n`
+    );
+    console.log(
+      "".padEnd(18) +
+        `recall@${k}`.padStart(8) +
+        `hit@${k}`.padStart(8) +
+        "MRR".padStart(8) +
+        "latency".padStart(10)
+    );
+
+    for (const [name, retrieval] of variants) {
+      const retriever = new Retriever(hybridSearch, memory.embedder, retrieval);
+      const metrics = await evaluateRetrieval(retriever, cases, k);
+      console.log(formatRow(name, metrics));
+    }
+    console.log();
+  } finally {
+    closeDatabase();
+  }
+}
@@ -4,10 +4,13 @@
  *   teleton mcp add <package> [args...]   — add an MCP server
  *   teleton mcp remove <name>             — remove an MCP server
  *   teleton mcp list                      — list configured MCP servers
+ *   teleton mcp serve                     — stdio bridge to the agent's own MCP endpoint
  */
 
 import { getDefaultConfigPath } from "../../config/loader.js";
 import { readRawConfig, writeRawConfig } from "../../config/configurable-keys.js";
+import { McpServeConfigSchema } from "../../config/schema.js";
+import { runStdioBridge } from "../../mcp-serve/stdio.js";
 
 function ensureMcpSection(raw: Record<string, unknown>): Record<string, Record<string, unknown>> {
   if (!raw.mcp || typeof raw.mcp !== "object") {
@@ -39,7 +42,15 @@ function deriveServerName(pkg: string): string {
 export async function mcpAddCommand(
   pkg: string,
   extraArgs: string[],
-  options: { name?: string; scope?: string; env?: string[]; url?: boolean; config?: string }
+  options: {
+    name?: string;
+    scope?: string;
+    env?: string[];
+    url?: boolean;
+    transport?: string;
+    header?: string[];
+    config?: string;
+  }
 ): Promise<void> {
   const configPath = options.config || getDefaultConfigPath();
   const raw = readRawConfig(configPath);
@@ -57,6 +68,26 @@ export async function mcpAddCommand(
   if (options.url) {
     // Treat pkg as a URL
     entry.url = pkg;
+    if (options.transport) {
+      if (options.transport !== "http" && options.transport !== "sse") {
+        console.error(`❌ Invalid --transport: "${options.transport}" (expected http or sse)`);
+        process.exit(1);
+      }
+      entry.transport = options.transport;
+    }
+    // Parse --header "Name: value" pairs
+    if (options.header && options.header.length > 0) {
+      const headers: Record<string, string> = {};
+      for (const line of options.header) {
+        const colon = line.indexOf(":");
+        if (colon <= 0) {
+          console.error(`❌ Invalid --header format: "${line}" (expected "Name: value")`);
+          process.exit(1);
+        }
+        headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+      }
+      entry.headers = headers;
+    }
   } else {
     // Store command and args separately to preserve arguments with spaces
     entry.command = "npx";
@@ -126,7 +157,7 @@ export async function mcpListCommand(options: { config?: string }): Promise<void
 
   console.log(`MCP servers (${entries.length}):\n`);
   for (const [name, cfg] of entries) {
-    const type = cfg.command ? "stdio" : "sse";
+    const type = cfg.command ? "stdio" : ((cfg.transport as string) ?? "http");
     const target = (cfg.command as string) || (cfg.url as string) || "?";
     const scope = (cfg.scope as string) || "always";
     const enabled = cfg.enabled !== false ? "✓" : "✗";
@@ -136,5 +167,26 @@ export async function mcpListCommand(options: { config?: string }): Promise<void
       const keys = Object.keys(cfg.env as object);
       console.log(`    env: ${keys.join(", ")}`);
     }
+    if (cfg.headers && typeof cfg.headers === "object") {
+      console.log(`    headers: ${Object.keys(cfg.headers as object).join(", ")}`);
+    }
+  }
+}
+
+/**
+ * Serve the running agent over stdio for MCP clients that spawn a command.
+ * Only protocol messages go to stdout; errors go to stderr.
+ */
+export async function mcpServeCommand(options: { config?: string }): Promise<void> {
+  const configPath = options.config || getDefaultConfigPath();
+  const serve = McpServeConfigSchema.parse(readRawConfig(configPath).mcp_serve ?? {});
+  const token = process.env.TELETON_MCP_TOKEN || serve.auth_token;
+
+  if (!serve.enabled) {
+    throw new Error("mcp_serve.enabled is false; enable it and start the agent first");
+  }
+  if (!token) {
+    throw new Error("Set mcp_serve.auth_token (or TELETON_MCP_TOKEN)");
   }
+  await runStdioBridge(serve, token);
 }
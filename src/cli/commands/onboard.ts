@@ -35,14 +35,23 @@ import { join } from "path";
 import { TELETON_ROOT } from "../../workspace/paths.js";
 import { TelegramUserClient } from "../../telegram/client.js";
 import YAML from "yaml";
-import { type Config, DealsConfigSchema } from "../../config/schema.js";
+import {
+  type Config,
+  DealsConfigSchema,
+  DocumentsConfigSchema,
+  RetrievalConfigSchema,
+  SttConfigSchema,
+} from "../../config/schema.js";
 import {
   generateWallet,
   importWallet,
   saveWallet,
   walletExists,
   loadWallet,
+  type WalletData,
+  type StoredWallet,
 } from "../../ton/wallet-service.js";
+import { promptNewWalletPassphrase } from "./wallet.js";
 import {
   getSupportedProviders,
   getProviderMetadata,
@@ -817,7 +826,7 @@ async function runInteractiveOnboarding(
   // ════════════════════════════════════════════════════════════════════
   redraw(5);
 
-  let wallet;
+  let wallet: WalletData | StoredWallet;
   const existingWallet = walletExists() ? loadWallet() : null;
 
   if (existingWallet) {
@@ -849,25 +858,28 @@ async function runInteractiveOnboarding(
           return words.length === 24 ? true : `Expected 24 words, got ${words.length}`;
         },
       });
+      const passphrase = await promptNewWalletPassphrase();
       spinner.start(DIM("Importing wallet..."));
       wallet = await importWallet(mnemonicInput.trim().split(/\s+/));
-      saveWallet(wallet);
+      await saveWallet(wallet, passphrase);
       spinner.succeed(DIM(`Wallet imported: ${wallet.address}`));
     } else {
+      const passphrase = await promptNewWalletPassphrase();
       spinner.start(DIM("Generating new TON wallet..."));
       wallet = await generateWallet();
-      saveWallet(wallet);
+      await saveWallet(wallet, passphrase);
       spinner.succeed(DIM("New TON wallet generated"));
     }
   } else {
+    const passphrase = await promptNewWalletPassphrase();
     spinner.start(DIM("Generating TON wallet..."));
     wallet = await generateWallet();
-    saveWallet(wallet);
+    await saveWallet(wallet, passphrase);
     spinner.succeed(DIM("TON wallet generated"));
   }
 
   // Display mnemonic for new/regenerated wallets
-  if (!existingWallet || wallet !== existingWallet) {
+  if ("mnemonic" in wallet) {
     const W = FRAME_WIDTH;
     const mnTitle = "  ⚠  BACKUP REQUIRED — WRITE DOWN THESE 24 WORDS";
 
@@ -934,6 +946,8 @@ async function runInteractiveOnboarding(
       temperature: 0.7,
       system_prompt: null,
       max_agentic_iterations: parseInt(maxAgenticIterations, 10),
+      max_parallel_tools: 4,
+      fallbacks: [],
       session_reset_policy: {
         daily_reset_enabled: true,
         daily_reset_hour: 4,
@@ -949,6 +963,8 @@ async function runInteractiveOnboarding(
       session_path: workspace.sessionPath,
       dm_policy: dmPolicy,
       allow_from: [],
+      pairing_code_ttl_minutes: 60,
+      pairing_expiry_days: 0,
       group_policy: groupPolicy,
       group_allow_from: [],
       require_mention: requireMention,
@@ -960,6 +976,7 @@ async function runInteractiveOnboarding(
       owner_id: userId,
       agent_channel: null,
       debounce_ms: 1500,
+      streaming: { dm: false, group: false, edit_interval_ms: 1500 },
       bot_token: botToken,
       bot_username: botUsername,
     },
@@ -969,20 +986,40 @@ async function runInteractiveOnboarding(
       memory_file: `${workspace.root}/memory.json`,
       history_limit: 100,
     },
-    embedding: { provider: "local" },
+    embedding: { provider: "local", batch_size: 64 },
     deals: DealsConfigSchema.parse({
       enabled: dealsEnabled,
       buy_max_floor_percent: buyMaxFloorPercent,
       sell_min_floor_percent: sellMinFloorPercent,
     }),
+    stt: SttConfigSchema.parse({}),
+    ton: { network: "mainnet" },
+    wallet: { allowlist: [], approval_timeout_minutes: 10 },
+    budget: { group_overrides: {}, on_exceeded: "decline" },
+    retention: { transcripts_days: 30 },
+    documents: DocumentsConfigSchema.parse({}),
+    retrieval: RetrievalConfigSchema.parse({}),
     webui: {
       enabled: false,
       port: 7777,
       host: "127.0.0.1",
+      token_auth: true,
       cors_origins: ["http://localhost:5173", "http://localhost:7777"],
       log_requests: false,
     },
+    metrics: { enabled: false, port: 9464, host: "127.0.0.1", path: "/metrics" },
+    tracing: {
+      enabled: false,
+      exporter: "file",
+      max_file_mb: 50,
+      otlp_endpoint: "http://localhost:4318/v1/traces",
+      otlp_headers: {},
+      service_name: "teleton",
+      recent_traces: 200,
+    },
     dev: { hot_reload: false },
+    plugin_sandbox: { enabled: true, max_memory_mb: 256, trusted: [] },
+    marketplace: { publisher_keys: {}, require_signature: false, allow_unpinned: false },
     tool_rag: {
       enabled: true,
       top_k: 25,
@@ -998,7 +1035,17 @@ async function runInteractiveOnboarding(
       skip_unlimited_providers: false,
     },
     logging: { level: "info", pretty: true },
-    mcp: { servers: {} },
+    mcp: { servers: {}, health_check_interval_s: 60, reconnect_max_delay_s: 300 },
+    mcp_serve: {
+      enabled: false,
+      port: 7790,
+      host: "127.0.0.1",
+      path: "/mcp",
+      tools: [],
+      ask_agent: false,
+      memory_resources: true,
+      chat_id: "mcp",
+    },
     plugins: {},
     ...(selectedProvider === "cocoon" ? { cocoon: { port: cocoonInstance } } : {}),
     tonapi_key: tonapiKey,
@@ -1109,6 +1156,8 @@ async function runNonInteractiveOnboarding(
       temperature: 0.7,
       system_prompt: null,
       max_agentic_iterations: 5,
+      max_parallel_tools: 4,
+      fallbacks: [],
       session_reset_policy: {
         daily_reset_enabled: true,
         daily_reset_hour: 4,
@@ -1124,6 +1173,8 @@ async function runNonInteractiveOnboarding(
       session_path: workspace.sessionPath,
       dm_policy: "open",
       allow_from: [],
+      pairing_code_ttl_minutes: 60,
+      pairing_expiry_days: 0,
       group_policy: "open",
       group_allow_from: [],
       require_mention: true,
@@ -1135,6 +1186,7 @@ async function runNonInteractiveOnboarding(
       owner_id: options.userId,
       agent_channel: null,
       debounce_ms: 1500,
+      streaming: { dm: false, group: false, edit_interval_ms: 1500 },
       bot_token: undefined,
       bot_username: undefined,
     },
@@ -1144,16 +1196,36 @@ async function runNonInteractiveOnboarding(
       memory_file: `${workspace.root}/memory.json`,
       history_limit: 100,
     },
-    embedding: { provider: "local" },
+    embedding: { provider: "local", batch_size: 64 },
     deals: DealsConfigSchema.parse({}),
+    stt: SttConfigSchema.parse({}),
+    ton: { network: "mainnet" },
+    wallet: { allowlist: [], approval_timeout_minutes: 10 },
+    budget: { group_overrides: {}, on_exceeded: "decline" },
+    retention: { transcripts_days: 30 },
+    documents: DocumentsConfigSchema.parse({}),
+    retrieval: RetrievalConfigSchema.parse({}),
     webui: {
       enabled: false,
       port: 7777,
       host: "127.0.0.1",
+      token_auth: true,
       cors_origins: ["http://localhost:5173", "http://localhost:7777"],
       log_requests: false,
     },
+    metrics: { enabled: false, port: 9464, host: "127.0.0.1", path: "/metrics" },
+    tracing: {
+      enabled: false,
+      exporter: "file",
+      max_file_mb: 50,
+      otlp_endpoint: "http://localhost:4318/v1/traces",
+      otlp_headers: {},
+      service_name: "teleton",
+      recent_traces: 200,
+    },
     dev: { hot_reload: false },
+    plugin_sandbox: { enabled: true, max_memory_mb: 256, trusted: [] },
+    marketplace: { publisher_keys: {}, require_signature: false, allow_unpinned: false },
     tool_rag: {
       enabled: true,
       top_k: 25,
@@ -1169,7 +1241,17 @@ async function runNonInteractiveOnboarding(
       skip_unlimited_providers: false,
     },
     logging: { level: "info", pretty: true },
-    mcp: { servers: {} },
+    mcp: { servers: {}, health_check_interval_s: 60, reconnect_max_delay_s: 300 },
+    mcp_serve: {
+      enabled: false,
+      port: 7790,
+      host: "127.0.0.1",
+      path: "/mcp",
+      tools: [],
+      ask_agent: false,
+      memory_resources: true,
+      chat_id: "mcp",
+    },
     plugins: {},
     tavily_api_key: options.tavilyApiKey,
   };
@@ -0,0 +1,177 @@
+import {
+  walletExists,
+  loadWallet,
+  isWalletLocked,
+  unlockWallet,
+  exportMnemonic,
+  setWalletPassphrase,
+  WALLET_PASSPHRASE_ENV,
+} from "../../ton/wallet-service.js";
+import { KeystoreDecryptError, MIN_PASSPHRASE_LENGTH } from "../../ton/keystore.js";
+import { password, confirm, inquirerTheme as theme, RED, DIM } from "../prompts.js";
+
+const MAX_UNLOCK_ATTEMPTS = 3;
+
+function isInteractive(): boolean {
+  return !!process.stdin.isTTY && !process.env.CI;
+}
+
+/**
+ * Remove the passphrase from the environment once used, so it isn't
+ * inherited by plugins or MCP server subprocesses.
+ */
+function consumeEnvPassphrase(): string | undefined {
+  const value = process.env[WALLET_PASSPHRASE_ENV];
+  delete process.env[WALLET_PASSPHRASE_ENV];
+  return value || undefined;
+}
+
+/**
+ * Ask for a new wallet passphrase (with confirmation). Uses
+ * TELETON_WALLET_PASSPHRASE when set, unless `useEnv` is false.
+ */
+export async function promptNewWalletPassphrase(useEnv = true): Promise<string> {
+  const fromEnv = process.env[WALLET_PASSPHRASE_ENV];
+  if (useEnv && fromEnv) return fromEnv;
+
+  const passphrase = await password({
+    message: `Wallet passphrase (encrypts the mnemonic on disk, min ${MIN_PASSPHRASE_LENGTH} chars)`,
+    mask: "*",
+    theme,
+    validate: (value = "") =>
+      value.length >= MIN_PASSPHRASE_LENGTH
+        ? true
+        : `Must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+  });
+  await password({
+    message: "Confirm passphrase",
+    mask: "*",
+    theme,
+    validate: (value = "") => (value === passphrase ? true : "Passphrases do not match"),
+  });
+  return passphrase;
+}
+
+async function promptCurrentPassphrase(): Promise<string> {
+  return password({ message: "Wallet passphrase", mask: "*", theme });
+}
+
+/**
+ * Unlock (or migrate) the wallet before the agent starts.
+ *
+ * - Encrypted wallet: unlock with TELETON_WALLET_PASSPHRASE, else prompt.
+ * - Legacy plaintext wallet: encrypt it with the env passphrase, or offer
+ *   to set one interactively.
+ *
+ * Without a passphrase the agent still starts, but the wallet stays locked
+ * and every signing attempt fails.
+ */
+export async function prepareWalletForStart(): Promise<void> {
+  const wallet = walletExists() ? loadWallet() : null;
+  if (!wallet) return;
+
+  const envPassphrase = consumeEnvPassphrase();
+
+  if (!wallet.encrypted) {
+    if (envPassphrase) {
+      await setWalletPassphrase(envPassphrase);
+      console.log("🔐 Wallet mnemonic encrypted with the passphrase from the environment");
+      return;
+    }
+    if (!isInteractive()) {
+      console.warn(
+        `⚠️  wallet.json stores the mnemonic in plaintext. Set ${WALLET_PASSPHRASE_ENV} to encrypt it.`
+      );
+      return;
+    }
+    const encrypt = await confirm({
+      message: "Your wallet mnemonic is stored in plaintext. Encrypt it with a passphrase now?",
+      default: true,
+      theme,
+    });
+    if (encrypt) {
+      await setWalletPassphrase(await promptNewWalletPassphrase());
+      console.log("🔐 Wallet encrypted");
+    }
+    return;
+  }
+
+  if (envPassphrase) {
+    await unlockWallet(envPassphrase);
+    return;
+  }
+
+  if (!isInteractive()) {
+    console.warn(
+      `⚠️  Wallet is locked (set ${WALLET_PASSPHRASE_ENV} to unlock). TON transfers are disabled.`
+    );
+    return;
+  }
+
+  for (let attempt = 1; attempt <= MAX_UNLOCK_ATTEMPTS && isWalletLocked(); attempt++) {
+    try {
+      await unlockWallet(await promptCurrentPassphrase());
+    } catch (error) {
+      if (!(error instanceof KeystoreDecryptError)) throw error;
+      console.error(RED(`  ✗ Wrong passphrase (${attempt}/${MAX_UNLOCK_ATTEMPTS})`));
+    }
+  }
+  if (isWalletLocked()) {
+    throw new Error("Could not unlock wallet");
+  }
+}
+
+/**
+ * `teleton wallet export` — print the 24-word mnemonic.
+ */
+export async function walletExportCommand(): Promise<void> {
+  const wallet = walletExists() ? loadWallet() : null;
+  if (!wallet) {
+    console.error("❌ No wallet found (run teleton setup)");
+    process.exit(1);
+  }
+
+  const proceed = await confirm({
+    message: "This prints your recovery phrase. Anyone who sees it controls the wallet. Continue?",
+    default: false,
+    theme,
+  });
+  if (!proceed) return;
+
+  const passphrase = wallet.encrypted
+    ? (consumeEnvPassphrase() ?? (await promptCurrentPassphrase()))
+    : undefined;
+  const words = await exportMnemonic(passphrase);
+
+  console.log(`\n  Address: ${wallet.address}\n`);
+  for (let i = 0; i < words.length; i += 4) {
+    const row = words
+      .slice(i, i + 4)
+      .map((w, j) => `${DIM(String(i + j + 1).padStart(2, " ") + ".")} ${w.padEnd(10)}`)
+      .join("  ");
+    console.log(`  ${row}`);
+  }
+  console.log();
+}
+
+/**
+ * `teleton wallet rotate-passphrase` — re-encrypt under a new passphrase
+ * (or encrypt a legacy plaintext wallet).
+ */
+export async function walletRotatePassphraseCommand(): Promise<void> {
+  const wallet = walletExists() ? loadWallet() : null;
+  if (!wallet) {
+    console.error("❌ No wallet found (run teleton setup)");
+    process.exit(1);
+  }
+
+  const current = wallet.encrypted ? await promptCurrentPassphrase() : undefined;
+  if (current !== undefined) {
+    // Fail fast before asking for the new passphrase
+    await exportMnemonic(current);
+  }
+
+  const next = await promptNewWalletPassphrase(false);
+  await setWalletPassphrase(next, current);
+  console.log(wallet.encrypted ? "✓ Wallet passphrase changed" : "✓ Wallet encrypted");
+}
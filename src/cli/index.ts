@@ -1,8 +1,19 @@
 import { Command } from "commander";
 import { onboardCommand } from "./commands/onboard.js";
 import { doctorCommand } from "./commands/doctor.js";
-import { mcpAddCommand, mcpRemoveCommand, mcpListCommand } from "./commands/mcp.js";
+import {
+  mcpAddCommand,
+  mcpRemoveCommand,
+  mcpListCommand,
+  mcpServeCommand,
+} from "./commands/mcp.js";
 import { configCommand } from "./commands/config.js";
+import { evalCommand } from "./commands/eval.js";
+import {
+  prepareWalletForStart,
+  walletExportCommand,
+  walletRotatePassphraseCommand,
+} from "./commands/wallet.js";
 import { main as startApp } from "../index.js";
 import { configExists, getDefaultConfigPath } from "../config/loader.js";
 import { readFileSync, existsSync } from "fs";
@@ -91,6 +102,7 @@ program
         process.env.TELETON_WEBUI_PORT = options.webuiPort;
       }
 
+      await prepareWalletForStart();
       await startApp(options.config);
     } catch (error) {
       console.error("Error:", getErrorMessage(error));
@@ -110,6 +122,49 @@ program
     }
   });
 
+program
+  .command("eval <file>")
+  .description("Score memory retrieval on a labelled query set (JSON or JSONL)")
+  .option("-k <n>", "Results per query to score", "5")
+  .option("--rerank", "Also evaluate cross-encoder reranking (even if disabled in config)")
+  .option("--rewrite", "Also evaluate query rewriting (even if disabled in config)")
+  .option("-c, --config <path>", "Config file path")
+  .action(async (file: string, options) => {
+    try {
+      await evalCommand(file, options);
+    } catch (error) {
+      console.error("Error:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+// Wallet management
+const wallet = program.command("wallet").description("Manage the encrypted TON wallet");
+
+wallet
+  .command("export")
+  .description("Print the wallet's 24-word recovery phrase")
+  .action(async () => {
+    try {
+      await walletExportCommand();
+    } catch (error) {
+      console.error("Error:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+wallet
+  .command("rotate-passphrase")
+  .description("Change the wallet passphrase (or encrypt a plaintext wallet)")
+  .action(async () => {
+    try {
+      await walletRotatePassphraseCommand();
+    } catch (error) {
+      console.error("Error:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
 // MCP server management
 const mcp = program.command("mcp").description("Manage MCP (Model Context Protocol) servers");
 
@@ -127,6 +182,13 @@ mcp
     [] as string[]
   )
   .option("--url", "Treat <package> as an SSE/HTTP URL instead of an npx package")
+  .option("-t, --transport <type>", "URL transport: http | sse (default: try http, then sse)")
+  .option(
+    "-H, --header <Name: value...>",
+    "HTTP header for URL servers (repeatable)",
+    (v: string, prev: string[]) => [...prev, v],
+    [] as string[]
+  )
   .option("-c, --config <path>", "Config file path")
   .action(async (pkg: string, args: string[], options) => {
     try {
@@ -163,6 +225,19 @@ mcp
     }
   });
 
+mcp
+  .command("serve")
+  .description("Serve the running agent's published tools over stdio (needs mcp_serve.enabled)")
+  .option("-c, --config <path>", "Config file path")
+  .action(async (options) => {
+    try {
+      await mcpServeCommand(options);
+    } catch (error) {
+      console.error("Error:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
 // Config management
 program
   .command("config")
@@ -410,6 +410,41 @@ telegram:
 
       expect(config.agent.model).toBe("gpt-4o-mini");
     });
+
+    it("should parse an ordered fallback chain", () => {
+      const configWithFallbacks = `
+agent:
+  api_key: sk-ant-api03-test123
+  provider: anthropic
+  fallbacks:
+    - provider: openai
+      model: gpt-4o
+      api_key: sk-proj-test
+    - provider: anthropic
+      model: claude-haiku-4-5-20251001
+telegram:
+  api_id: 12345
+  api_hash: abcdef
+  phone: "+1234567890"
+`;
+      writeTestConfig(configWithFallbacks);
+      const config = loadConfig(TEST_CONFIG_PATH);
+
+      expect(config.agent.fallbacks).toEqual([
+        { provider: "openai", model: "gpt-4o", api_key: "sk-proj-test" },
+        { provider: "anthropic", model: "claude-haiku-4-5-20251001", api_key: "" },
+      ]);
+    });
+
+    it("should reject cocoon as a fallback provider", () => {
+      writeTestConfig(
+        MINIMAL_CONFIG.replace(
+          "  provider: anthropic\n",
+          "  provider: anthropic\n  fallbacks:\n    - provider: cocoon\n      model: qwen\n"
+        )
+      );
+      expect(() => loadConfig(TEST_CONFIG_PATH)).toThrow(/Invalid config/);
+    });
   });
 
   // ─── Environment Variable Override Tests ───────────────────────────────────
@@ -166,6 +166,15 @@ export const CONFIGURABLE_KEYS: Record<string, ConfigKeyMeta> = {
     mask: identity,
     parse: (v) => Number(v),
   },
+  "agent.max_parallel_tools": {
+    type: "number",
+    category: "Agent",
+    description: "Max read-only tool calls run concurrently (1 = sequential)",
+    sensitive: false,
+    validate: numberInRange(1, 16),
+    mask: identity,
+    parse: (v) => Number(v),
+  },
 
   // ─── Session ───────────────────────────────────────────────────
   "agent.session_reset_policy.daily_reset_enabled": {
@@ -296,8 +305,26 @@ export const CONFIGURABLE_KEYS: Record<string, ConfigKeyMeta> = {
     category: "Embedding",
     description: "Embedding provider for RAG",
     sensitive: false,
-    options: ["local", "anthropic", "none"],
-    validate: enumValidator(["local", "anthropic", "none"]),
+    options: ["local", "anthropic", "openai-compatible", "none"],
+    validate: enumValidator(["local", "anthropic", "openai-compatible", "none"]),
+    mask: identity,
+    parse: identity,
+  },
+  "embedding.model": {
+    type: "string",
+    category: "Embedding",
+    description: "Embedding model ID (provider default if empty)",
+    sensitive: false,
+    validate: nonEmpty,
+    mask: identity,
+    parse: identity,
+  },
+  "embedding.base_url": {
+    type: "string",
+    category: "Embedding",
+    description: "Server URL for openai-compatible embeddings (requires restart)",
+    sensitive: false,
+    validate: (v) => (/^https?:\/\//.test(v) ? undefined : "Must be an http(s) URL"),
     mask: identity,
     parse: identity,
   },
@@ -405,6 +432,16 @@ export function deleteNestedValue(obj: Record<string, any>, path: string): void
   }
 }
 
+/** Masked value of a configurable key in a raw config, or null when unset */
+export function getMaskedValue(
+  obj: Record<string, unknown>,
+  key: string,
+  meta: ConfigKeyMeta
+): string | null {
+  const value = getNestedValue(obj, key);
+  return value != null && value !== "" ? meta.mask(String(value)) : null;
+}
+
 // ── Raw YAML read/write (preserves ~ paths, no expansion) ─────────────
 
 export function readRawConfig(configPath: string): Record<string, any> {
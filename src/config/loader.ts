@@ -61,6 +61,12 @@ export function loadConfig(configPath: string = DEFAULT_CONFIG_PATH): Config {
   config.storage.sessions_file = expandPath(config.storage.sessions_file);
   config.storage.pairing_file = expandPath(config.storage.pairing_file);
   config.storage.memory_file = expandPath(config.storage.memory_file);
+  if (config.stt.whisper_model) {
+    config.stt.whisper_model = expandPath(config.stt.whisper_model);
+  }
+  if (config.tracing.file) {
+    config.tracing.file = expandPath(config.tracing.file);
+  }
 
   if (process.env.TELETON_API_KEY) {
     config.agent.api_key = process.env.TELETON_API_KEY;
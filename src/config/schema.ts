@@ -19,21 +19,31 @@ export const SessionResetPolicySchema = z.object({
     .describe("Minutes of inactivity before session reset (default: 24h)"),
 });
 
+export const AgentProvider = z.enum([
+  "anthropic",
+  "openai",
+  "google",
+  "xai",
+  "groq",
+  "openrouter",
+  "moonshot",
+  "mistral",
+  "cocoon",
+  "local",
+]);
+
+export const FallbackModelSchema = z.object({
+  provider: AgentProvider.exclude(["cocoon"]),
+  model: z.string(),
+  api_key: z
+    .string()
+    .default("")
+    .describe("API key for this provider (empty = reuse agent.api_key when the provider matches)"),
+  base_url: z.string().url().optional().describe("Base URL for a local LLM server"),
+});
+
 export const AgentConfigSchema = z.object({
-  provider: z
-    .enum([
-      "anthropic",
-      "openai",
-      "google",
-      "xai",
-      "groq",
-      "openrouter",
-      "moonshot",
-      "mistral",
-      "cocoon",
-      "local",
-    ])
-    .default("anthropic"),
+  provider: AgentProvider.default("anthropic"),
   api_key: z.string().default(""),
   base_url: z
     .string()
@@ -52,9 +62,31 @@ export const AgentConfigSchema = z.object({
     .number()
     .default(5)
     .describe("Maximum number of agentic loop iterations (tool call → result → tool call cycles)"),
+  max_parallel_tools: z
+    .number()
+    .int()
+    .min(1)
+    .default(4)
+    .describe(
+      "Maximum read-only tool calls executed concurrently in one iteration (1 = sequential)"
+    ),
+  fallbacks: z
+    .array(FallbackModelSchema)
+    .default([])
+    .describe("Ordered models to fail over to on rate limits, provider errors or context overflow"),
   session_reset_policy: SessionResetPolicySchema.default(SessionResetPolicySchema.parse({})),
 });
 
+export const StreamingConfigSchema = z.object({
+  dm: z.boolean().default(false).describe("Stream replies token by token in private chats"),
+  group: z.boolean().default(false).describe("Stream replies token by token in groups"),
+  edit_interval_ms: z
+    .number()
+    .min(500)
+    .default(1500)
+    .describe("Minimum delay between edits of a streamed reply (Telegram rate-limits edits)"),
+});
+
 export const TelegramConfigSchema = z.object({
   api_id: z.number(),
   api_hash: z.string(),
@@ -63,6 +95,16 @@ export const TelegramConfigSchema = z.object({
   session_path: z.string().default("~/.teleton"),
   dm_policy: DMPolicy.default("pairing"),
   allow_from: z.array(z.number()).default([]),
+  pairing_code_ttl_minutes: z
+    .number()
+    .min(1)
+    .default(60)
+    .describe("Minutes a DM pairing code stays valid (dm_policy: pairing)"),
+  pairing_expiry_days: z
+    .number()
+    .min(0)
+    .default(0)
+    .describe("Days an approved DM pairing lasts (0 = never expires)"),
   group_policy: GroupPolicy.default("open"),
   group_allow_from: z.array(z.number()).default([]),
   require_mention: z.boolean().default(true),
@@ -79,6 +121,7 @@ export const TelegramConfigSchema = z.object({
     .number()
     .default(1500)
     .describe("Debounce delay in milliseconds for group messages (0 = disabled)"),
+  streaming: StreamingConfigSchema.default(StreamingConfigSchema.parse({})),
   bot_token: z
     .string()
     .optional()
@@ -114,6 +157,163 @@ const _DealsObject = z.object({
 });
 export const DealsConfigSchema = _DealsObject.default(_DealsObject.parse({}));
 
+const _TonObject = z.object({
+  network: z
+    .enum(["mainnet", "testnet"])
+    .default("mainnet")
+    .describe("TON network for RPC, TonAPI, addresses and explorer links"),
+});
+export const TonConfigSchema = _TonObject.default(_TonObject.parse({}));
+
+const optionalLimit = (description: string) =>
+  z.number().positive().optional().describe(description);
+
+const _WalletObject = z.object({
+  max_per_tx_ton: optionalLimit("Max TON value of a single outgoing transfer or swap"),
+  max_per_tx_usd: optionalLimit("Max USD value of a single outgoing transfer or swap"),
+  daily_limit_ton: optionalLimit("Max TON value spent in a rolling 24h window"),
+  daily_limit_usd: optionalLimit("Max USD value spent in a rolling 24h window"),
+  recipient_daily_limit_ton: optionalLimit("Max TON value sent to one address per 24h"),
+  recipient_daily_limit_usd: optionalLimit("Max USD value sent to one address per 24h"),
+  allowlist: z
+    .array(z.string())
+    .default([])
+    .describe("Only these destination addresses may receive transfers (empty = any)"),
+  approval_above_ton: optionalLimit("Require owner approval above this TON value"),
+  approval_above_usd: optionalLimit("Require owner approval above this USD value"),
+  approval_timeout_minutes: z
+    .number()
+    .min(1)
+    .default(10)
+    .describe("Minutes an approval prompt stays open before it expires"),
+});
+export const WalletConfigSchema = _WalletObject.default(_WalletObject.parse({}));
+
+const _BudgetObject = z.object({
+  user_daily_usd: optionalLimit("Max LLM spend per user per UTC day (admins are exempt)"),
+  group_daily_usd: optionalLimit("Max LLM spend per group chat per UTC day"),
+  group_overrides: z
+    .record(z.string(), z.number().positive())
+    .default({})
+    .describe("Daily USD caps for specific groups, keyed by chat ID (override group_daily_usd)"),
+  monthly_usd: optionalLimit("Max total LLM spend per UTC calendar month"),
+  on_exceeded: z
+    .enum(["decline", "utility_model"])
+    .default("decline")
+    .describe("Over budget: politely decline, or answer with agent.utility_model"),
+});
+export const BudgetConfigSchema = _BudgetObject.default(_BudgetObject.parse({}));
+
+const retentionDays = (description: string) =>
+  z.number().int().positive().optional().describe(`${description} (unset = keep forever)`);
+
+const _RetentionObject = z.object({
+  messages_days: retentionDays(
+    "Delete Telegram messages, their voice transcripts and embeddings after this many days"
+  ),
+  summaries_days: retentionDays(
+    "Delete session summaries from the knowledge base after this many days"
+  ),
+  daily_logs_days: retentionDays(
+    "Delete daily memory logs (memory/YYYY-MM-DD.md) after this many days"
+  ),
+  transcripts_days: z
+    .number()
+    .int()
+    .positive()
+    .default(30)
+    .describe("Delete session transcript files after this many days"),
+  usage_days: retentionDays("Delete LLM usage records after this many days"),
+});
+export const RetentionConfigSchema = _RetentionObject.default(_RetentionObject.parse({}));
+
+const _DocumentsObject = z.object({
+  enabled: z
+    .boolean()
+    .default(true)
+    .describe("Index documents from workspace folders into the knowledge base"),
+  paths: z
+    .array(z.string())
+    .default(["docs"])
+    .describe("Workspace folders to index, recursively (relative to the workspace)"),
+  chunk_size: z.number().int().min(200).default(1000).describe("Target chunk size in characters"),
+  chunk_overlap: z
+    .number()
+    .int()
+    .min(0)
+    .default(150)
+    .describe("Characters repeated from the end of the previous chunk"),
+  max_file_mb: z.number().positive().default(20).describe("Larger files are skipped"),
+  pdftotext_binary: z
+    .string()
+    .default("pdftotext")
+    .describe("pdftotext CLI (poppler-utils) used for PDFs (name on PATH or absolute path)"),
+  watch: z.boolean().default(true).describe("Re-index files when they change while running"),
+});
+export const DocumentsConfigSchema = _DocumentsObject.default(_DocumentsObject.parse({}));
+
+const _RerankObject = z.object({
+  enabled: z
+    .boolean()
+    .default(false)
+    .describe("Re-score the best hybrid results with a local cross-encoder"),
+  model: z
+    .string()
+    .default("Xenova/ms-marco-MiniLM-L-6-v2")
+    .describe("ONNX cross-encoder model (downloaded to ~/.teleton/models/)"),
+  top_k: z
+    .number()
+    .int()
+    .min(1)
+    .default(20)
+    .describe("Hybrid candidates passed to the cross-encoder"),
+  weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.7)
+    .describe("Share of the cross-encoder score in the final score (1 = rerank only)"),
+});
+
+const _QueryRewriteObject = z.object({
+  enabled: z
+    .boolean()
+    .default(false)
+    .describe("Expand each query with rewrites from agent.utility_model"),
+  max_queries: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .default(2)
+    .describe("Rewritten queries searched in addition to the original"),
+  top_k: z.number().int().min(1).default(10).describe("Results kept per rewritten query"),
+  weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.8)
+    .describe("Score multiplier for results found through a rewritten query"),
+});
+
+const _RetrievalObject = z.object({
+  vector_weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Weight of vector similarity in the hybrid score"),
+  keyword_weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.5)
+    .describe("Weight of BM25 keyword relevance in the hybrid score"),
+  rerank: _RerankObject.default(_RerankObject.parse({})),
+  query_rewrite: _QueryRewriteObject.default(_QueryRewriteObject.parse({})),
+});
+export const RetrievalConfigSchema = _RetrievalObject.default(_RetrievalObject.parse({}));
+
 const _WebUIObject = z.object({
   enabled: z.boolean().default(false).describe("Enable WebUI server"),
   port: z.number().default(7777).describe("HTTP server port"),
@@ -122,6 +322,12 @@ const _WebUIObject = z.object({
     .string()
     .optional()
     .describe("Bearer token for API auth (auto-generated if omitted)"),
+  token_auth: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Accept auth_token as an admin login. Disable once named admin accounts exist (kept on while there are none)"
+    ),
   cors_origins: z
     .array(z.string())
     .default(["http://localhost:5173", "http://localhost:7777"])
@@ -130,18 +336,116 @@ const _WebUIObject = z.object({
 });
 export const WebUIConfigSchema = _WebUIObject.default(_WebUIObject.parse({}));
 
+const _MetricsObject = z.object({
+  enabled: z.boolean().default(false).describe("Serve metrics in OpenMetrics text format"),
+  port: z.number().min(1).max(65535).default(9464).describe("HTTP port for the metrics endpoint"),
+  host: z.string().default("127.0.0.1").describe("Bind address"),
+  path: z.string().startsWith("/").default("/metrics").describe("Scrape path"),
+  auth_token: z
+    .string()
+    .optional()
+    .describe("Require this bearer token on scrapes (unset = no auth, keep the bind local)"),
+});
+export const MetricsConfigSchema = _MetricsObject.default(_MetricsObject.parse({}));
+
+const _TracingObject = z.object({
+  enabled: z.boolean().default(false).describe("Trace each agent turn as a tree of spans"),
+  exporter: z
+    .enum(["file", "otlp", "none"])
+    .default("file")
+    .describe("Where finished spans go: a local JSONL file, an OTLP/HTTP collector, or nowhere"),
+  file: z.string().optional().describe("JSONL span file (default: ~/.teleton/traces.jsonl)"),
+  max_file_mb: z
+    .number()
+    .positive()
+    .default(50)
+    .describe("Roll the span file over to <file>.1 past this size"),
+  otlp_endpoint: z
+    .string()
+    .url()
+    .default("http://localhost:4318/v1/traces")
+    .describe("OTLP/HTTP traces endpoint"),
+  otlp_headers: z
+    .record(z.string(), z.string())
+    .default({})
+    .describe("Extra headers for the OTLP collector (e.g. an API key)"),
+  service_name: z.string().default("teleton").describe("service.name resource attribute"),
+  recent_traces: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .default(200)
+    .describe("Recent traces kept in memory for the WebUI trace viewer"),
+});
+export const TracingConfigSchema = _TracingObject.default(_TracingObject.parse({}));
+
 const _EmbeddingObject = z.object({
   provider: z
-    .enum(["local", "anthropic", "none"])
+    .enum(["local", "anthropic", "openai-compatible", "none"])
     .default("local")
-    .describe("Embedding provider: local (ONNX), anthropic (API), or none (FTS5-only)"),
+    .describe(
+      "Embedding provider: local (ONNX), anthropic (API), openai-compatible (any /embeddings server), or none (FTS5-only)"
+    ),
   model: z
     .string()
     .optional()
     .describe("Model override (default: Xenova/all-MiniLM-L6-v2 for local)"),
+  base_url: z
+    .string()
+    .url()
+    .optional()
+    .describe("openai-compatible: server URL (default: agent.base_url)"),
+  api_key: z.string().optional().describe("openai-compatible: API key, if the server needs one"),
+  dimensions: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("openai-compatible: embedding size (detected from the server if omitted)"),
+  batch_size: z
+    .number()
+    .int()
+    .min(1)
+    .default(64)
+    .describe("openai-compatible: texts per embedding request"),
 });
 export const EmbeddingConfigSchema = _EmbeddingObject.default(_EmbeddingObject.parse({}));
 
+const _SttObject = z.object({
+  provider: z
+    .enum(["none", "whisper-cpp", "openai"])
+    .default("none")
+    .describe(
+      "Speech-to-text for incoming voice notes: whisper-cpp (local binary), openai (OpenAI-compatible API), or none"
+    ),
+  language: z
+    .string()
+    .optional()
+    .describe("Spoken language hint (ISO 639-1, e.g. 'en'). Auto-detected if omitted"),
+  max_duration_seconds: z
+    .number()
+    .positive()
+    .default(300)
+    .describe("Voice notes longer than this are not transcribed"),
+  whisper_binary: z
+    .string()
+    .default("whisper-cli")
+    .describe("whisper.cpp CLI binary (name on PATH or absolute path)"),
+  whisper_model: z.string().optional().describe("Path to the whisper.cpp ggml model file"),
+  base_url: z
+    .string()
+    .url()
+    .default("https://api.openai.com/v1")
+    .describe("OpenAI-compatible API base URL (serves /audio/transcriptions)"),
+  api_key: z
+    .string()
+    .optional()
+    .describe("API key for the transcription endpoint (falls back to OPENAI_API_KEY)"),
+  model: z.string().default("whisper-1").describe("Transcription model for the openai provider"),
+});
+export const SttConfigSchema = _SttObject.default(_SttObject.parse({}));
+
 const _LoggingObject = z.object({
   level: z
     .enum(["trace", "debug", "info", "warn", "error", "fatal"])
@@ -162,6 +466,50 @@ const _DevObject = z.object({
 });
 export const DevConfigSchema = _DevObject.default(_DevObject.parse({}));
 
+const _PluginSandboxObject = z.object({
+  enabled: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Run each external plugin in its own Node process, limited to the permissions in its manifest"
+    ),
+  max_memory_mb: z
+    .number()
+    .min(32)
+    .max(4096)
+    .default(256)
+    .describe("Heap limit of each plugin process"),
+  trusted: z
+    .array(z.string())
+    .default([])
+    .describe(
+      "Plugins allowed to declare telegram.raw and run in the agent process, by name; others declaring it are refused"
+    ),
+});
+export const PluginSandboxConfigSchema = _PluginSandboxObject.default(
+  _PluginSandboxObject.parse({})
+);
+
+const _MarketplaceObject = z.object({
+  publisher_keys: z
+    .record(z.string(), z.string().regex(/^[A-Za-z0-9+/]{43}=$/, "Must be a base64 ed25519 key"))
+    .default({})
+    .describe(
+      "Trusted ed25519 publisher keys (base64, 32 bytes) by publisher name; signed registry entries must verify against one"
+    ),
+  require_signature: z
+    .boolean()
+    .default(false)
+    .describe("Refuse marketplace plugins without a valid publisher signature"),
+  allow_unpinned: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Allow installing registry entries without a commit SHA and file hashes (not recommended)"
+    ),
+});
+export const MarketplaceConfigSchema = _MarketplaceObject.default(_MarketplaceObject.parse({}));
+
 const McpServerSchema = z
   .object({
     command: z
@@ -177,6 +525,24 @@ const McpServerSchema = z
       .optional()
       .describe("Environment variables for stdio server"),
     url: z.string().url().optional().describe("SSE/HTTP endpoint URL (alternative to command)"),
+    transport: z
+      .enum(["http", "sse"])
+      .optional()
+      .describe(
+        "Transport for url servers: Streamable HTTP or legacy SSE (default: try HTTP, fall back to SSE)"
+      ),
+    headers: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe("Extra HTTP headers sent to url servers"),
+    auth_token: z
+      .string()
+      .optional()
+      .describe("Bearer token for url servers (sent as Authorization: Bearer <token>)"),
+    attach_resources: z
+      .array(z.string())
+      .optional()
+      .describe("Resource URIs kept in the agent's RAG context (subscribed when supported)"),
     scope: z
       .enum(["always", "dm-only", "group-only", "admin-only"])
       .default("always")
@@ -189,9 +555,58 @@ const McpServerSchema = z
 
 const _McpObject = z.object({
   servers: z.record(z.string(), McpServerSchema).default({}),
+  health_check_interval_s: z
+    .number()
+    .min(0)
+    .default(60)
+    .describe("Seconds between tool list refreshes / liveness checks per server (0 = off)"),
+  reconnect_max_delay_s: z
+    .number()
+    .min(1)
+    .default(300)
+    .describe("Upper bound of the exponential reconnect backoff"),
 });
 export const McpConfigSchema = _McpObject.default(_McpObject.parse({}));
 
+const _McpServeObject = z.object({
+  enabled: z
+    .boolean()
+    .default(false)
+    .describe("Publish teleton's tools to other MCP clients over Streamable HTTP"),
+  port: z.number().min(1).max(65535).default(7790).describe("HTTP port of the MCP endpoint"),
+  host: z.string().default("127.0.0.1").describe("Bind address"),
+  path: z.string().startsWith("/").default("/mcp").describe("Endpoint path"),
+  auth_token: z
+    .string()
+    .optional()
+    .describe("Bearer token clients must send; the endpoint does not start without one"),
+  tools: z
+    .array(z.string())
+    .default([])
+    .describe("Tools to publish by name; a trailing * matches a prefix (e.g. 'telegram_get_*')"),
+  ask_agent: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Publish teleton_ask, which runs a message through the agent (limited to the published tools) and returns its reply"
+    ),
+  memory_resources: z
+    .boolean()
+    .default(true)
+    .describe("Expose memory search as teleton://memory resources"),
+  sender_id: z
+    .number()
+    .optional()
+    .describe(
+      "Telegram user ID MCP clients act as, for tool scopes and memory; required, must not be an admin"
+    ),
+  chat_id: z
+    .string()
+    .default("mcp")
+    .describe("Chat ID of MCP tool calls and the teleton_ask session"),
+});
+export const McpServeConfigSchema = _McpServeObject.default(_McpServeObject.parse({}));
+
 const _ToolRagObject = z.object({
   enabled: z.boolean().default(false).describe("Enable semantic tool retrieval (Tool RAG)"),
   top_k: z.number().default(25).describe("Max tools to retrieve per LLM call"),
@@ -220,12 +635,24 @@ export const ConfigSchema = z.object({
   telegram: TelegramConfigSchema,
   storage: StorageConfigSchema.default(StorageConfigSchema.parse({})),
   embedding: EmbeddingConfigSchema,
+  stt: SttConfigSchema,
   deals: DealsConfigSchema,
+  ton: TonConfigSchema,
+  wallet: WalletConfigSchema,
+  budget: BudgetConfigSchema,
+  retention: RetentionConfigSchema,
+  documents: DocumentsConfigSchema,
+  retrieval: RetrievalConfigSchema,
   webui: WebUIConfigSchema,
+  metrics: MetricsConfigSchema,
+  tracing: TracingConfigSchema,
   logging: LoggingConfigSchema,
   dev: DevConfigSchema,
+  plugin_sandbox: PluginSandboxConfigSchema,
+  marketplace: MarketplaceConfigSchema,
   tool_rag: ToolRagConfigSchema,
   mcp: McpConfigSchema,
+  mcp_serve: McpServeConfigSchema,
   plugins: z
     .record(z.string(), z.unknown())
     .default({})
@@ -253,14 +680,28 @@ export const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+export type FallbackModel = z.infer<typeof FallbackModelSchema>;
 export type TelegramConfig = z.infer<typeof TelegramConfigSchema>;
+export type StreamingConfig = z.infer<typeof StreamingConfigSchema>;
 export type StorageConfig = z.infer<typeof StorageConfigSchema>;
 export type SessionResetPolicy = z.infer<typeof SessionResetPolicySchema>;
 export type DealsConfig = z.infer<typeof DealsConfigSchema>;
+export type TonConfig = z.infer<typeof TonConfigSchema>;
+export type WalletConfig = z.infer<typeof WalletConfigSchema>;
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+export type DocumentsConfig = z.infer<typeof DocumentsConfigSchema>;
+export type RetentionConfig = z.infer<typeof RetentionConfigSchema>;
+export type RetrievalConfig = z.infer<typeof RetrievalConfigSchema>;
 export type WebUIConfig = z.infer<typeof WebUIConfigSchema>;
+export type MetricsConfig = z.infer<typeof MetricsConfigSchema>;
+export type TracingConfig = z.infer<typeof TracingConfigSchema>;
 export type EmbeddingConfig = z.infer<typeof EmbeddingConfigSchema>;
+export type SttConfig = z.infer<typeof SttConfigSchema>;
 export type LoggingConfig = z.infer<typeof LoggingConfigSchema>;
 export type DevConfig = z.infer<typeof DevConfigSchema>;
+export type PluginSandboxConfig = z.infer<typeof PluginSandboxConfigSchema>;
+export type MarketplaceConfig = z.infer<typeof MarketplaceConfigSchema>;
 export type McpConfig = z.infer<typeof McpConfigSchema>;
 export type ToolRagConfig = z.infer<typeof ToolRagConfigSchema>;
 export type McpServerConfig = z.infer<typeof McpServerSchema>;
+export type McpServeConfig = z.infer<typeof McpServeConfigSchema>;
@@ -1,5 +1,11 @@
 import { fetchWithTimeout } from "../utils/fetch.js";
+import { isTestnet } from "../ton/network.js";
 export const TONAPI_BASE_URL = "https://tonapi.io/v2";
+export const TONAPI_TESTNET_BASE_URL = "https://testnet.tonapi.io/v2";
+
+export function getTonapiBaseUrl(): string {
+  return isTestnet() ? TONAPI_TESTNET_BASE_URL : TONAPI_BASE_URL;
+}
 
 let _tonapiKey: string | undefined;
 
@@ -38,7 +44,7 @@ export async function tonapiFetch(
   init?: RequestInit & { timeoutMs?: number }
 ): Promise<Response> {
   await waitForTonapiSlot();
-  return fetchWithTimeout(`${TONAPI_BASE_URL}${path}`, {
+  return fetchWithTimeout(`${getTonapiBaseUrl()}${path}`, {
     ...init,
     headers: { ...tonapiHeaders(), ...(init?.headers as Record<string, string>) },
   });
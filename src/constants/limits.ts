@@ -18,6 +18,8 @@ export const COMPACTION_MAX_TOKENS_RATIO = 0.75;
 export const COMPACTION_SOFT_THRESHOLD_RATIO = 0.5;
 export const PENDING_HISTORY_MAX_PER_CHAT = 50;
 export const PENDING_HISTORY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const PAIRING_MAX_PENDING = 50;
+export const PAIRING_NOTICE_MAX_LISTED = 10;
 export const DEBOUNCE_MAX_MULTIPLIER = 3;
 export const DEBOUNCE_MAX_BUFFER_SIZE = 20;
 export const CONTEXT_MAX_RECENT_MESSAGES = 10;
@@ -73,3 +75,9 @@ export const TOOL_RAG_DEFAULT_TOP_K = 25;
 export const TOOL_RAG_MIN_SCORE = 0.1;
 export const TOOL_RAG_VECTOR_WEIGHT = 0.6;
 export const TOOL_RAG_KEYWORD_WEIGHT = 0.4;
+
+// ─── MCP ───────────────────────────────────────────────────────
+export const MCP_REQUEST_TIMEOUT_MS = 30_000;
+export const MCP_ATTACHED_RESOURCE_MAX_CHARS = 4_000;
+export const MCP_MAX_IMAGE_BYTES = 5 * 1024 * 1024; // decoded size of one tool result image
+export const MCP_MAX_IMAGES = 4; // images kept per tool result
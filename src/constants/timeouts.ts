@@ -1,5 +1,7 @@
 /** TTS generation timeout */
 export const TTS_TIMEOUT_MS = 30_000;
+/** STT transcription timeout (API request or whisper.cpp run) */
+export const STT_TIMEOUT_MS = 120_000;
 export const ONBOARDING_PROMPT_TIMEOUT_MS = 120_000;
 export const BATCH_TRIGGER_DELAY_MS = 500;
 export const DEFAULT_FETCH_TIMEOUT_MS = 15_000;
@@ -13,3 +15,15 @@ export const RETRY_BLOCKCHAIN_TIMEOUT_MS = 30_000;
 export const GRAMJS_RETRY_DELAY_MS = 1_000;
 export const TOOL_EXECUTION_TIMEOUT_MS = 90_000;
 export const SHUTDOWN_TIMEOUT_MS = 10_000;
+/** How often retention policies run while the agent is up */
+export const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+/** pdftotext run per PDF during document indexing */
+export const DOCUMENT_EXTRACT_TIMEOUT_MS = 60_000;
+/** utility_model call that rewrites a search query; retrieval continues without it */
+export const QUERY_REWRITE_TIMEOUT_MS = 8_000;
+/** Lifecycle calls into a sandboxed plugin process (load, start, hooks) */
+export const PLUGIN_SANDBOX_CALL_TIMEOUT_MS = 30_000;
+/** Wait for a sandboxed plugin process to exit before killing it */
+export const PLUGIN_SANDBOX_STOP_GRACE_MS = 5_000;
+/** Minimum gap between pairing request notices to the admins; requests in between are batched */
+export const PAIRING_NOTICE_INTERVAL_MS = 60_000;
@@ -11,6 +11,7 @@ import { formatAsset } from "./utils.js";
 import { JournalStore } from "../memory/journal-store.js";
 import { getErrorMessage } from "../utils/errors.js";
 import { createLogger } from "../utils/logger.js";
+import { dealTransitions } from "../metrics/index.js";
 
 const log = createLogger("Deal");
 
@@ -92,6 +93,7 @@ export async function executeDeal(
         toAddress: deal.user_payment_wallet,
         amount: deal.agent_gives_ton_amount,
         comment: `Deal #${dealId} - ${formatAsset(deal.agent_gives_type, deal.agent_gives_ton_amount, deal.agent_gives_gift_slug)}`,
+        tool: "deals",
       });
 
       if (!txHash) {
@@ -99,6 +101,7 @@ export async function executeDeal(
         db.prepare(
           `UPDATE deals SET agent_sent_at = NULL, status = 'failed', notes = 'TON transfer returned no tx hash' WHERE id = ?`
         ).run(dealId);
+        dealTransitions.inc({ status: "failed" });
         return {
           success: false,
           error: "TON transfer failed (no tx hash returned)",
@@ -113,6 +116,7 @@ export async function executeDeal(
           completed_at = unixepoch()
         WHERE id = ?`
       ).run(txHash, dealId);
+      dealTransitions.inc({ status: "completed" });
 
       log.info(`Deal #${dealId} completed - TON sent - TX: ${txHash.slice(0, 8)}...`);
 
@@ -208,6 +212,7 @@ Thank you for trading! 🎉`,
             completed_at = unixepoch()
           WHERE id = ?`
         ).run(sentMsgId, dealId);
+        dealTransitions.inc({ status: "completed" });
 
         log.info(`Deal #${dealId} completed - Gift transferred`);
 
@@ -239,6 +244,7 @@ Thank you for trading! 🎉`,
             notes = ?
           WHERE id = ?`
         ).run(`Gift transfer error: ${getErrorMessage(error)}`, dealId);
+        dealTransitions.inc({ status: "failed" });
 
         return {
           success: false,
@@ -256,9 +262,12 @@ Thank you for trading! 🎉`,
     log.error({ err: error }, `Error executing deal #${dealId}`);
     // Release lock on unexpected error
     try {
-      db.prepare(
-        `UPDATE deals SET agent_sent_at = NULL, status = 'failed', notes = ? WHERE id = ? AND status = 'verified'`
-      ).run(`Execution error: ${getErrorMessage(error)}`, dealId);
+      const r = db
+        .prepare(
+          `UPDATE deals SET agent_sent_at = NULL, status = 'failed', notes = ? WHERE id = ? AND status = 'verified'`
+        )
+        .run(`Execution error: ${getErrorMessage(error)}`, dealId);
+      if (r.changes > 0) dealTransitions.inc({ status: "failed" });
     } catch (rollbackErr) {
       log.error({ err: rollbackErr }, `CRITICAL: Could not rollback deal #${dealId}`);
     }
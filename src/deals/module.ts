@@ -2,6 +2,7 @@ import type { PluginModule } from "../agent/tools/types.js";
 import { initDealsConfig, DEALS_CONFIG } from "./config.js";
 import { DealBot, VerificationPoller } from "../bot/index.js";
 import { createLogger } from "../utils/logger.js";
+import { dealTransitions } from "../metrics/index.js";
 import { openDealsDb, closeDealsDb, getDealsDb } from "./db.js";
 
 const log = createLogger("Deal");
@@ -102,7 +103,10 @@ const dealsModule: PluginModule = {
           `UPDATE deals SET status = 'expired' WHERE status IN ('proposed', 'accepted') AND expires_at < ?`
         )
         .run(now);
-      if (r.changes > 0) log.debug(`Expired ${r.changes} stale deal(s)`);
+      if (r.changes > 0) {
+        dealTransitions.inc({ status: "expired" }, r.changes);
+        log.debug(`Expired ${r.changes} stale deal(s)`);
+      }
     }, DEALS_CONFIG.expiryCheckIntervalMs);
   },
 
@@ -6,10 +6,25 @@ import { TelegramBridge, type TelegramMessage } from "./telegram/bridge.js";
 import { MessageHandler } from "./telegram/handlers.js";
 import { AdminHandler } from "./telegram/admin.js";
 import { MessageDebouncer } from "./telegram/debounce.js";
-import { getDatabase, closeDatabase, initializeMemory, type MemorySystem } from "./memory/index.js";
-import { getWalletAddress } from "./ton/wallet-service.js";
+import { PairingStore, pairingOptionsFromConfig } from "./telegram/pairing-store.js";
+import { initSpendingPolicy, getSpendingPolicy } from "./ton/spending-policy.js";
+import { initUsageTracker } from "./agent/usage-tracker.js";
+import {
+  getDatabase,
+  closeDatabase,
+  initializeMemory,
+  syncVectorDimensions,
+  initMemoryEraser,
+  initAuditLog,
+  DocumentIndexer,
+  DocumentWatcher,
+  type DocumentIndexResult,
+  type MemorySystem,
+} from "./memory/index.js";
+import { getWalletAddress, walletExists, unlockWalletFromEnv } from "./ton/wallet-service.js";
 import { setTonapiKey } from "./constants/api-endpoints.js";
-import { TELETON_ROOT } from "./workspace/paths.js";
+import { setTonNetwork } from "./ton/network.js";
+import { TELETON_ROOT, WORKSPACE_ROOT } from "./workspace/paths.js";
 import { TELEGRAM_CONNECTION_RETRIES, TELEGRAM_FLOOD_SLEEP_THRESHOLD } from "./constants/limits.js";
 import { join } from "path";
 import { ToolRegistry } from "./agent/tools/registry.js";
@@ -20,15 +35,20 @@ import { getProviderMetadata, type SupportedProvider } from "./config/providers.
 import { readRawConfig, setNestedValue, writeRawConfig } from "./config/configurable-keys.js";
 import { loadModules } from "./agent/tools/module-loader.js";
 import { ModulePermissions } from "./agent/tools/module-permissions.js";
-import { SHUTDOWN_TIMEOUT_MS } from "./constants/timeouts.js";
+import { SHUTDOWN_TIMEOUT_MS, RETENTION_INTERVAL_MS } from "./constants/timeouts.js";
 import type { PluginModule, PluginContext } from "./agent/tools/types.js";
+import type { MetricsServer } from "./metrics/server.js";
+import type { McpServeServer } from "./mcp-serve/http.js";
+import { initTracing, shutdownTracing, withTrace } from "./tracing/index.js";
 import { PluginWatcher } from "./agent/tools/plugin-watcher.js";
 import {
   loadMcpServers,
   registerMcpTools,
   closeMcpServers,
+  McpMonitor,
   type McpConnection,
 } from "./agent/tools/mcp-loader.js";
+import { createMcpResourceTools, initMcpAttachments } from "./agent/tools/mcp-resources.js";
 import { getErrorMessage } from "./utils/errors.js";
 import { createLogger, initLoggerFromConfig } from "./utils/logger.js";
 
@@ -48,9 +68,15 @@ export class TeletonApp {
   private memory: MemorySystem;
   private sdkDeps: SDKDependencies;
   private webuiServer: any = null; // WebUIServer, imported lazily
+  private metricsServer: MetricsServer | null = null;
+  private mcpServeServer: McpServeServer | null = null;
   private pluginWatcher: PluginWatcher | null = null;
+  private retentionTimer: ReturnType<typeof setInterval> | null = null;
+  private documentWatcher: DocumentWatcher | null = null;
   private mcpConnections: McpConnection[] = [];
+  private mcpMonitor: McpMonitor | null = null;
   private callbackHandlerRegistered = false;
+  private pairingStore: PairingStore;
 
   private configPath: string;
 
@@ -61,6 +87,7 @@ export class TeletonApp {
     // Wire YAML logging config to pino (H2 fix)
     initLoggerFromConfig(this.config.logging);
 
+    setTonNetwork(this.config.ton.network);
     if (this.config.tonapi_key) {
       setTonapiKey(this.config.tonapi_key);
     }
@@ -87,12 +114,17 @@ export class TeletonApp {
       database: {
         path: join(TELETON_ROOT, "memory.db"),
         enableVectorSearch: embeddingProvider !== "none",
-        vectorDimensions: 384,
       },
       embeddings: {
         provider: embeddingProvider,
         model: this.config.embedding.model,
-        apiKey: embeddingProvider === "anthropic" ? this.config.agent.api_key : undefined,
+        apiKey:
+          embeddingProvider === "anthropic"
+            ? this.config.agent.api_key
+            : this.config.embedding.api_key,
+        baseUrl: this.config.embedding.base_url ?? this.config.agent.base_url,
+        dimensions: this.config.embedding.dimensions,
+        batchSize: this.config.embedding.batch_size,
       },
       workspaceDir: join(TELETON_ROOT),
     });
@@ -103,6 +135,11 @@ export class TeletonApp {
 
     this.modules = loadModules(this.toolRegistry, this.config, db);
 
+    initAuditLog(db);
+    initTracing(this.config.tracing);
+    initSpendingPolicy(db, this.config).setBridge(this.bridge);
+    initUsageTracker(db, this.config);
+
     const modulePermissions = new ModulePermissions(db);
     this.toolRegistry.setPermissions(modulePermissions);
 
@@ -124,6 +161,13 @@ export class TeletonApp {
       modulePermissions,
       this.toolRegistry
     );
+
+    this.pairingStore = new PairingStore(
+      this.config.storage.pairing_file,
+      pairingOptionsFromConfig(this.config.telegram)
+    );
+    this.messageHandler.setPairingStore(this.pairingStore);
+    this.adminHandler.setPairingStore(this.pairingStore);
   }
 
   /**
@@ -145,6 +189,12 @@ ${blue}  ┌──────────────────────
   └────────────────────────────────────────────────────────────────── DEV: ZKPROOF.T.ME ──┘${reset}
 `);
 
+    // Unlock an encrypted wallet before plugins and MCP servers start, so the
+    // passphrase env var is gone before any subprocess is spawned
+    if (walletExists() && !(await unlockWalletFromEnv())) {
+      log.warn("🔒 Wallet is locked: TON transfers are disabled until it is unlocked");
+    }
+
     // Load modules
     const moduleNames = this.modules
       .filter((m) => m.tools(this.config).length > 0)
@@ -188,6 +238,25 @@ ${blue}  ┌──────────────────────
             `🔌 MCP: ${mcp.count} tools from ${mcp.names.length} server(s) (${mcp.names.join(", ")})`
           );
         }
+        this.adminHandler.setMcpConnections(this.mcpConnections);
+
+        // Generic resource tools; servers without the capability are skipped at call time
+        this.toolRegistry.registerPluginTools("mcp", createMcpResourceTools(this.mcpConnections));
+        this.toolCount = this.toolRegistry.count;
+
+        const attachments = this.mcpConnections.some((c) => c.config.attach_resources?.length)
+          ? initMcpAttachments()
+          : null;
+        if (attachments) {
+          await Promise.all(this.mcpConnections.map((conn) => attachments.attach(conn)));
+        }
+
+        this.mcpMonitor = new McpMonitor(this.mcpConnections, this.toolRegistry, {
+          healthCheckIntervalMs: this.config.mcp.health_check_interval_s * 1000,
+          maxReconnectDelayMs: this.config.mcp.reconnect_max_delay_s * 1000,
+          onReconnect: attachments ? (conn) => void attachments.attach(conn) : undefined,
+        });
+        this.mcpMonitor.start();
       }
     }
 
@@ -233,18 +302,51 @@ ${blue}  ┌──────────────────────
     const { migrateSessionsToDb } = await import("./session/migrate.js");
     migrateSessionsToDb();
 
-    // Cleanup old transcript files (>30 days)
-    const { cleanupOldTranscripts } = await import("./session/transcript.js");
-    cleanupOldTranscripts(30);
+    // Apply retention policies now and daily (old messages, summaries, logs, transcripts)
+    const eraser = initMemoryEraser(getDatabase().getDb());
+    const applyRetention = () => {
+      try {
+        eraser.applyRetention(this.config.retention);
+      } catch (error) {
+        log.warn(`Retention cleanup failed: ${getErrorMessage(error)}`);
+      }
+    };
+    applyRetention();
+    this.retentionTimer = setInterval(applyRetention, RETENTION_INTERVAL_MS);
+    this.retentionTimer.unref();
 
     // Warmup embedding model (pre-download at startup, not on first message)
-    if (this.memory.embedder.warmup) {
-      await this.memory.embedder.warmup();
+    const embedderReady = this.memory.embedder.warmup ? await this.memory.embedder.warmup() : true;
+
+    // Rebuild vector tables if the embedding size changed (provider/model switch)
+    if (embedderReady && getDatabase().isVectorSearchReady()) {
+      try {
+        await syncVectorDimensions(getDatabase().getDb(), this.memory.embedder);
+      } catch (error) {
+        log.warn(`Re-embedding failed, will retry on next start: ${getErrorMessage(error)}`);
+      }
     }
 
     // Index knowledge base (MEMORY.md, memory/*.md)
     const indexResult = await this.memory.knowledge.indexAll();
 
+    // Index workspace documents (PDF, HTML, Markdown, text, CSV) and watch for changes
+    let documentResult: DocumentIndexResult | null = null;
+    if (this.config.documents.enabled) {
+      const documents = new DocumentIndexer(
+        getDatabase().getDb(),
+        WORKSPACE_ROOT,
+        this.memory.embedder,
+        getDatabase().isVectorSearchReady(),
+        this.config.documents
+      );
+      documentResult = await documents.indexAll();
+      if (this.config.documents.watch) {
+        this.documentWatcher = new DocumentWatcher(documents);
+        this.documentWatcher.start();
+      }
+    }
+
     // Rebuild FTS indexes to ensure search works
     const db = getDatabase();
     const ftsResult = db.rebuildFtsIndexes();
@@ -252,6 +354,8 @@ ${blue}  ┌──────────────────────
     // Index tools for Tool RAG
     const toolIndex = this.toolRegistry.getToolIndex();
     if (toolIndex) {
+      // Dimensions may only be known after warmup
+      toolIndex.ensureSchema();
       const t0 = Date.now();
       const indexedCount = await toolIndex.indexAll(this.toolRegistry.getAll());
       log.info(`🔍 Tool RAG: ${indexedCount} tools indexed (${Date.now() - t0}ms)`);
@@ -306,6 +410,16 @@ ${blue}  ┌──────────────────────
       }
     }
 
+    // Local LLM fallbacks — a missing server only disables that fallback
+    for (const fallback of this.config.agent.fallbacks) {
+      if (fallback.provider !== "local" || !fallback.base_url) continue;
+      const { registerLocalModels } = await import("./agent/client.js");
+      const models = await registerLocalModels(fallback.base_url);
+      if (!models.includes(fallback.model)) {
+        log.warn(`Fallback model ${fallback.model} not found at ${fallback.base_url}`);
+      }
+    }
+
     // Connect to Telegram
     await this.bridge.connect();
 
@@ -370,6 +484,13 @@ ${blue}  ┌──────────────────────
     // Display startup summary
     log.info(`✅ SOUL.md loaded`);
     log.info(`✅ Knowledge: ${indexResult.indexed} files, ${ftsResult.knowledge} chunks indexed`);
+    if (documentResult) {
+      log.info(
+        `📄 Documents: ${documentResult.indexed} indexed, ${documentResult.skipped} unchanged` +
+          (documentResult.removed > 0 ? `, ${documentResult.removed} removed` : "") +
+          (documentResult.failed > 0 ? `, ${documentResult.failed} failed` : "")
+      );
+    }
     log.info(`✅ Telegram: @${username} connected`);
     log.info(`✅ TON Blockchain: connected`);
     if (this.config.tonapi_key) {
@@ -389,25 +510,32 @@ ${blue}  ┌──────────────────────
     if (this.config.webui.enabled) {
       try {
         const { WebUIServer } = await import("./webui/server.js");
-        // Build MCP server info for WebUI
-        const mcpServers = Object.entries(this.config.mcp.servers).map(([name, serverConfig]) => {
-          const type = serverConfig.command ? ("stdio" as const) : ("sse" as const);
-          const target = serverConfig.command ?? serverConfig.url ?? "";
-          const connected = this.mcpConnections.some((c) => c.serverName === name);
-          const moduleName = `mcp_${name}`;
-          const moduleTools = this.toolRegistry.getModuleTools(moduleName);
-          return {
-            name,
-            type,
-            target,
-            scope: serverConfig.scope ?? "always",
-            enabled: serverConfig.enabled ?? true,
-            connected,
-            toolCount: moduleTools.length,
-            tools: moduleTools.map((t) => t.name),
-            envKeys: Object.keys(serverConfig.env ?? {}),
-          };
-        });
+        // MCP server info for WebUI, rebuilt per request so health stays current
+        const mcpServers = () =>
+          Object.entries(this.config.mcp.servers).map(([name, serverConfig]) => {
+            const conn = this.mcpConnections.find((c) => c.serverName === name);
+            const type =
+              conn?.transport ??
+              (serverConfig.command ? ("stdio" as const) : (serverConfig.transport ?? "http"));
+            const target = serverConfig.command ?? serverConfig.url ?? "";
+            const moduleName = `mcp_${name}`;
+            const moduleTools = this.toolRegistry.getModuleTools(moduleName);
+            return {
+              name,
+              type,
+              target,
+              scope: serverConfig.scope ?? "always",
+              enabled: serverConfig.enabled ?? true,
+              connected: conn?.health === "connected",
+              health: conn?.health ?? null,
+              lastError: conn?.lastError ?? null,
+              lastSeenAt: conn?.lastSeenAt ?? null,
+              reconnectAttempts: conn?.reconnectAttempts ?? 0,
+              toolCount: moduleTools.length,
+              tools: moduleTools.map((t) => t.name),
+              envKeys: Object.keys(serverConfig.env ?? {}),
+            };
+          });
 
         this.webuiServer = new WebUIServer({
           agent: this.agent,
@@ -418,6 +546,7 @@ ${blue}  ┌──────────────────────
             .filter((m) => this.toolRegistry.isPluginModule(m.name))
             .map((m) => ({ name: m.name, version: m.version ?? "0.0.0" })),
           mcpServers,
+          pairing: this.pairingStore,
           config: this.config.webui,
           configPath: this.configPath,
           marketplace: {
@@ -436,6 +565,35 @@ ${blue}  ┌──────────────────────
       }
     }
 
+    if (this.config.metrics.enabled) {
+      try {
+        const { MetricsServer } = await import("./metrics/server.js");
+        this.metricsServer = new MetricsServer(this.config.metrics);
+        await this.metricsServer.start();
+      } catch (error) {
+        log.error({ err: error }, "❌ Failed to start metrics endpoint");
+        this.metricsServer = null;
+      }
+    }
+
+    if (this.config.mcp_serve.enabled) {
+      try {
+        const { McpServeServer } = await import("./mcp-serve/http.js");
+        this.mcpServeServer = new McpServeServer({
+          config: this.config,
+          agent: this.agent,
+          registry: this.toolRegistry,
+          bridge: this.bridge,
+          db: getDatabase().getDb(),
+          context: this.memory.context,
+        });
+        await this.mcpServeServer.start();
+      } catch (error) {
+        log.error({ err: error }, "❌ Failed to start MCP endpoint");
+        this.mcpServeServer = null;
+      }
+    }
+
     // Initialize message debouncer with bypass logic
     this.debouncer = new MessageDebouncer(
       {
@@ -599,6 +757,23 @@ ${blue}  ┌──────────────────────
             `- Always include a reason explaining why this task is being created\n\n` +
             `Task: "${taskDescription}"`;
           // Fall through to handleMessage below
+        } else if (adminCmd.command === "prompt" && adminCmd.args.length > 0) {
+          // /prompt <server> <name> renders an MCP prompt and passes it to the agent
+          const prompt = await this.adminHandler.renderPromptCommand(
+            adminCmd,
+            message.chatId,
+            message.senderId
+          );
+          if ("error" in prompt) {
+            await this.bridge.sendMessage({
+              chatId: message.chatId,
+              text: prompt.error,
+              replyToId: message.id,
+            });
+            return;
+          }
+          message.text = `[MCP PROMPT ${adminCmd.args[0]}/${adminCmd.args[1]}]\n${prompt.text}`;
+          // Fall through to handleMessage below
         } else {
           const response = await this.adminHandler.handleCommand(
             adminCmd,
@@ -636,6 +811,8 @@ ${blue}  ┌──────────────────────
     const { executeScheduledTask } = await import("./telegram/task-executor.js");
     const { TaskDependencyResolver } = await import("./telegram/task-dependency-resolver.js");
     const { getDatabase } = await import("./memory/index.js");
+    const { nextRunAfter } = await import("./memory/agent/task-recurrence.js");
+    const { scheduleTaskReminder } = await import("./telegram/task-reminder.js");
 
     const db = getDatabase().getDb();
     const taskStore = getTaskStore(db);
@@ -648,6 +825,24 @@ ${blue}  ┌──────────────────────
     }
 
     const taskId = match[1];
+    let runId: number | undefined;
+
+    // Recurring tasks: arm the next reminder. Returns false once there are no runs left
+    const rescheduleRecurring = async (): Promise<boolean> => {
+      const current = taskStore.getTask(taskId);
+      if (!current?.recurrence || current.status === "cancelled") return false;
+
+      if (current.maxRuns !== undefined && current.runCount >= current.maxRuns) {
+        log.info(`🏁 Recurring task ${taskId} reached ${current.maxRuns} run(s)`);
+        return false;
+      }
+
+      const nextRun = nextRunAfter(current.recurrence, new Date(), current.scheduledFor);
+      const scheduledMessageId = await scheduleTaskReminder(this.bridge, current, nextRun);
+      taskStore.scheduleNextRun(taskId, nextRun, scheduledMessageId);
+      log.info(`🔁 Task ${taskId} next run at ${nextRun.toISOString()}`);
+      return true;
+    };
 
     try {
       const task = taskStore.getTask(taskId);
@@ -668,6 +863,14 @@ ${blue}  ┌──────────────────────
         return;
       }
 
+      // Paused recurring tasks keep their schedule but skip this run
+      if (task.paused) {
+        log.info(`⏸️ Task ${taskId} is paused, skipping run`);
+        taskStore.startRun(taskId, "skipped");
+        await rescheduleRecurring();
+        return;
+      }
+
       // Check if all dependencies are satisfied
       if (!taskStore.canExecute(taskId)) {
         log.warn(`Task ${taskId} cannot execute yet - dependencies not satisfied`);
@@ -681,6 +884,7 @@ ${blue}  ┌──────────────────────
 
       // Mark task as in_progress
       taskStore.startTask(taskId);
+      runId = taskStore.startRun(taskId);
 
       // Get parent task results for context
       const parentResults = taskStore.getParentResults(taskId);
@@ -708,18 +912,23 @@ ${blue}  ┌──────────────────────
       );
 
       // Feed prompt to agent (agent loop with full context)
-      const response = await this.agent.processMessage(
-        message.chatId,
-        agentPrompt,
-        "self-scheduled-task",
-        message.timestamp.getTime(),
-        false, // not group
-        null, // no pending context
-        toolContext,
-        undefined,
-        false,
-        undefined,
-        message.id
+      const response = await withTrace(
+        "task.run",
+        { "task.id": taskId, "chat.id": message.chatId, "message.id": message.id },
+        () =>
+          this.agent.processMessage(
+            message.chatId,
+            agentPrompt,
+            "self-scheduled-task",
+            message.timestamp.getTime(),
+            false, // not group
+            null, // no pending context
+            toolContext,
+            undefined,
+            false,
+            undefined,
+            message.id
+          )
       );
 
       // Send agent response
@@ -731,11 +940,17 @@ ${blue}  ┌──────────────────────
         });
       }
 
+      taskStore.finishRun(runId, "done", { result: response.content });
+      log.info(`✅ Executed scheduled task ${taskId}: ${task.description}`);
+
+      if (task.recurrence) {
+        if (await rescheduleRecurring()) return;
+        // Final run: fall through so dependents see the task as done
+      }
+
       // Mark task as done if agent responded successfully
       taskStore.completeTask(taskId, response.content);
 
-      log.info(`✅ Executed scheduled task ${taskId}: ${task.description}`);
-
       // Initialize dependency resolver if needed
       if (!this.dependencyResolver) {
         this.dependencyResolver = new TaskDependencyResolver(taskStore, this.bridge);
@@ -748,6 +963,13 @@ ${blue}  ┌──────────────────────
 
       // Try to mark task as failed and cascade to dependents
       try {
+        if (runId !== undefined) {
+          taskStore.finishRun(runId, "failed", { error: getErrorMessage(error) });
+        }
+
+        // A failed run doesn't end a recurring schedule
+        if (await rescheduleRecurring()) return;
+
         taskStore.failTask(taskId, getErrorMessage(error));
 
         // Initialize resolver if needed
@@ -819,6 +1041,13 @@ ${blue}  ┌──────────────────────
           }
         };
 
+        // Core actions: spend approvals from the wallet spending policy
+        if (action === "spend") {
+          const policy = getSpendingPolicy();
+          await answer(policy ? policy.handleCallback(params, userId) : "Spending policy inactive");
+          return;
+        }
+
         const event: import("@teleton-agent/sdk").PluginCallbackEvent = {
           data,
           action,
@@ -859,6 +1088,11 @@ ${blue}  ┌──────────────────────
   async stop(): Promise<void> {
     log.info("👋 Stopping Teleton AI...");
 
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+
     // Stop WebUI server first (if running)
     if (this.webuiServer) {
       try {
@@ -868,6 +1102,30 @@ ${blue}  ┌──────────────────────
       }
     }
 
+    if (this.metricsServer) {
+      try {
+        await this.metricsServer.stop();
+      } catch (e) {
+        log.error({ err: e }, "⚠️ Metrics endpoint stop failed");
+      }
+    }
+
+    if (this.mcpServeServer) {
+      try {
+        await this.mcpServeServer.stop();
+      } catch (e) {
+        log.error({ err: e }, "⚠️ MCP endpoint stop failed");
+      }
+    }
+
+    if (this.documentWatcher) {
+      try {
+        await this.documentWatcher.stop();
+      } catch (e) {
+        log.error({ err: e }, "⚠️ Document watcher stop failed");
+      }
+    }
+
     // Stop plugin watcher first
     if (this.pluginWatcher) {
       try {
@@ -880,6 +1138,7 @@ ${blue}  ┌──────────────────────
     // Close MCP connections
     if (this.mcpConnections.length > 0) {
       try {
+        await this.mcpMonitor?.stop();
         await closeMcpServers(this.mcpConnections);
       } catch (e) {
         log.error({ err: e }, "⚠️ MCP close failed");
@@ -916,6 +1175,12 @@ ${blue}  ┌──────────────────────
       log.error({ err: e }, "⚠️ Bridge disconnect failed");
     }
 
+    try {
+      await shutdownTracing();
+    } catch (e) {
+      log.error({ err: e }, "⚠️ Trace export flush failed");
+    }
+
     try {
       closeDatabase();
     } catch (e) {
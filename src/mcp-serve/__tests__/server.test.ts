@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+import { Type } from "@sinclair/typebox";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ToolRegistry, matchesToolPattern } from "../../agent/tools/registry.js";
+import { McpServeConfigSchema, type Config } from "../../config/schema.js";
+import { createMcpServeApp, McpServeServer } from "../http.js";
+import type { McpServeDeps } from "../server.js";
+
+const TOKEN = "s3cret";
+
+function createDeps(db: Database.Database, serve: Record<string, unknown> = {}): McpServeDeps {
+  const registry = new ToolRegistry();
+  const echo = { type: "object", properties: { text: { type: "string" } } };
+  registry.register(
+    { name: "ton_get_balance", description: "Balance", parameters: Type.Object({}) },
+    async () => ({ success: true, data: { balance: "1.5" } })
+  );
+  registry.register(
+    { name: "ton_send", description: "Send TON", parameters: Type.Object({}) },
+    async () => ({ success: true })
+  );
+  registry.register(
+    { name: "telegram_echo", description: "Echo", parameters: Type.Unsafe(echo) },
+    async (params: { text: string }) => ({ success: true, data: params.text }),
+    "group-only"
+  );
+
+  return {
+    config: {
+      telegram: { admin_ids: [42] },
+      mcp_serve: McpServeConfigSchema.parse({
+        enabled: true,
+        auth_token: TOKEN,
+        tools: ["ton_get_*", "telegram_echo"],
+        ask_agent: true,
+        sender_id: 1001,
+        ...serve,
+      }),
+    } as unknown as Config,
+    agent: {
+      processMessage: vi.fn(async (_chatId: string, text: string) => ({
+        content: `You said: ${text}`,
+        toolCalls: [],
+      })),
+    } as unknown as McpServeDeps["agent"],
+    registry,
+    bridge: {} as McpServeDeps["bridge"],
+    db,
+    context: {
+      buildContext: vi.fn(async () => ({
+        recentContext: [],
+        relevantKnowledge: ["[[kb:k1]] Deploys happen on Tuesdays."],
+        relevantFeed: [],
+      })),
+    } as unknown as McpServeDeps["context"],
+  };
+}
+
+async function connect(deps: McpServeDeps): Promise<Client> {
+  const app = createMcpServeApp(deps);
+  const transport = new StreamableHTTPClientTransport(new URL("http://teleton.test/mcp"), {
+    fetch: (url, init) => app.request(url.toString(), init),
+    requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+describe("MCP server mode", () => {
+  let db: Database.Database;
+  let client: Client | undefined;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE knowledge (id TEXT PRIMARY KEY, text TEXT, scope TEXT, subject_id TEXT);
+      INSERT INTO knowledge VALUES ('k1', 'Deploys happen on Tuesdays.', 'global', NULL);
+      INSERT INTO knowledge VALUES ('k2', 'Bob prefers email.', 'user', '7');
+    `);
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+    db.close();
+  });
+
+  it("matches exact names and prefix patterns", () => {
+    expect(matchesToolPattern("ton_get_balance", ["ton_get_*"])).toBe(true);
+    expect(matchesToolPattern("ton_send", ["ton_get_*", "ton_sen"])).toBe(false);
+    expect(matchesToolPattern("ton_send", ["ton_send"])).toBe(true);
+  });
+
+  it("refuses to start without an explicit non-admin sender_id", async () => {
+    const missing = createDeps(db, { sender_id: undefined });
+    expect(() => createMcpServeApp(missing)).toThrow("mcp_serve.sender_id is required");
+    await expect(new McpServeServer(missing).start()).rejects.toThrow(
+      "mcp_serve.sender_id is required"
+    );
+
+    // The first admin is never used as a fallback, nor accepted explicitly
+    const admin = createDeps(db, { sender_id: 42 });
+    expect(() => createMcpServeApp(admin)).toThrow("must not be an admin");
+    expect(admin.agent.processMessage).not.toHaveBeenCalled();
+  });
+
+  it("does not publish teleton_ask unless enabled", async () => {
+    expect(McpServeConfigSchema.parse({}).ask_agent).toBe(false);
+
+    client = await connect(createDeps(db, { ask_agent: false }));
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(["ton_get_balance"]);
+    const refused = await client.callTool({ name: "teleton_ask", arguments: { message: "hi" } });
+    expect(refused).toMatchObject({ isError: true });
+  });
+
+  it("refuses requests without the bearer token", async () => {
+    const app = createMcpServeApp(createDeps(db));
+    const res = await app.request("/mcp", { method: "POST", body: "{}" });
+    expect(res.status).toBe(401);
+    const wrong = await app.request("/mcp", {
+      method: "POST",
+      body: "{}",
+      headers: { Authorization: "Bearer nope" },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("publishes only configured tools the client identity may use", async () => {
+    client = await connect(createDeps(db));
+    const { tools } = await client.listTools();
+    // telegram_echo is group-only and the default identity is a DM
+    expect(tools.map((t) => t.name)).toEqual(["ton_get_balance", "teleton_ask"]);
+
+    const result = await client.callTool({ name: "ton_get_balance", arguments: {} });
+    expect(result.content).toEqual([{ type: "text", text: '{\n  "balance": "1.5"\n}' }]);
+
+    const refused = await client.callTool({ name: "ton_send", arguments: {} });
+    expect(refused).toMatchObject({ isError: true, content: [{ text: "Unknown tool: ton_send" }] });
+  });
+
+  it("applies group scope when acting in a group chat", async () => {
+    client = await connect(createDeps(db, { chat_id: "-100123", ask_agent: false }));
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(["ton_get_balance", "telegram_echo"]);
+
+    const result = await client.callTool({ name: "telegram_echo", arguments: { text: "hi" } });
+    expect(result.content).toEqual([{ type: "text", text: "hi" }]);
+  });
+
+  it("runs agent turns through teleton_ask as the configured sender", async () => {
+    const deps = createDeps(db);
+    client = await connect(deps);
+
+    const result = await client.callTool({ name: "teleton_ask", arguments: { message: "ping" } });
+    expect(result.content).toEqual([{ type: "text", text: "You said: ping" }]);
+    expect(deps.agent.processMessage).toHaveBeenCalledWith(
+      "mcp",
+      "ping",
+      "mcp-client",
+      expect.any(Number),
+      false,
+      null,
+      expect.objectContaining({ senderId: 1001, allowedTools: ["ton_get_*", "telegram_echo"] })
+    );
+  });
+
+  it("limits teleton_ask turns to the published tools", async () => {
+    const deps = createDeps(db);
+    const agent = deps.agent.processMessage as ReturnType<typeof vi.fn>;
+    agent.mockImplementationOnce(async (chatId, _text, _name, _ts, isGroup, _pending, ctx) => {
+      const call = (name: string) =>
+        deps.registry.execute(
+          { type: "toolCall", id: name, name, arguments: {} },
+          { ...ctx, chatId, isGroup }
+        );
+      const [allowed, refused] = await Promise.all([call("ton_get_balance"), call("ton_send")]);
+      return { content: `${allowed.success} ${refused.error}`, toolCalls: [] };
+    });
+    client = await connect(deps);
+
+    const result = await client.callTool({ name: "teleton_ask", arguments: { message: "go" } });
+    expect(result.content).toEqual([{ type: "text", text: "true Unknown tool: ton_send" }]);
+  });
+
+  it("serves memory search and scoped knowledge as resources", async () => {
+    const deps = createDeps(db);
+    client = await connect(deps);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "teleton://memory/search/{query}",
+      "teleton://memory/knowledge/{id}",
+    ]);
+
+    const search = await client.readResource({ uri: "teleton://memory/search/deploy%20day" });
+    expect(search.contents[0]).toMatchObject({ text: "[[kb:k1]] Deploys happen on Tuesdays." });
+    expect(deps.context.buildContext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: "deploy day",
+        chatId: "mcp",
+        senderId: "1001",
+        searchAllChats: false,
+      })
+    );
+
+    const fact = await client.readResource({ uri: "teleton://memory/knowledge/k1" });
+    expect(fact.contents[0]).toMatchObject({ text: "Deploys happen on Tuesdays." });
+    // Another user's private fact is not readable
+    await expect(client.readResource({ uri: "teleton://memory/knowledge/k2" })).rejects.toThrow(
+      "Resource not found"
+    );
+  });
+});
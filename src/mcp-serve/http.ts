@@ -0,0 +1,82 @@
+import { Hono } from "hono";
+import { serve } from "@hono/node-server";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { safeCompare } from "../webui/middleware/auth.js";
+import { createLogger } from "../utils/logger.js";
+import { clientIdentity, createTeletonMcpServer, type McpServeDeps } from "./server.js";
+
+const log = createLogger("MCPServe");
+
+/**
+ * Stateless Streamable HTTP endpoint: every request gets a fresh server and
+ * transport with JSON responses. Requests without the bearer token are refused.
+ * Throws if the client identity is not configured.
+ */
+export function createMcpServeApp(deps: McpServeDeps) {
+  const config = deps.config.mcp_serve;
+  clientIdentity(deps.config);
+  const app = new Hono();
+
+  app.all(config.path, async (c) => {
+    const header = c.req.header("Authorization") ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+    if (!config.auth_token || !safeCompare(token, config.auth_token)) {
+      return c.text("Unauthorized", 401, { "WWW-Authenticate": "Bearer" });
+    }
+
+    const server = createTeletonMcpServer(deps);
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    await server.connect(transport);
+    try {
+      return await transport.handleRequest(c.req.raw);
+    } finally {
+      await server.close();
+    }
+  });
+
+  return app;
+}
+
+export class McpServeServer {
+  private server: ReturnType<typeof serve> | null = null;
+
+  constructor(private deps: McpServeDeps) {}
+
+  async start(): Promise<void> {
+    const config = this.deps.config.mcp_serve;
+    if (!config.auth_token) {
+      throw new Error("mcp_serve.auth_token is required to publish tools over MCP");
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        this.server = serve(
+          {
+            fetch: createMcpServeApp(this.deps).fetch,
+            hostname: config.host,
+            port: config.port,
+          },
+          (info) => {
+            log.info(`MCP endpoint: http://${info.address}:${info.port}${config.path}`);
+            resolve();
+          }
+        );
+        this.server.once("error", reject);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,263 @@
+import { randomUUID } from "node:crypto";
+import type Database from "better-sqlite3";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config/schema.js";
+import type { AgentRuntime } from "../agent/runtime.js";
+import { matchesToolPattern, type ToolRegistry } from "../agent/tools/registry.js";
+import type { ToolContext, ToolResult } from "../agent/tools/types.js";
+import type { TelegramBridge } from "../telegram/bridge.js";
+import type { ContextBuilder } from "../memory/search/context.js";
+import { withTrace } from "../tracing/tracer.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("MCPServe");
+
+export const ASK_TOOL_NAME = "teleton_ask";
+const SEARCH_TEMPLATE = "teleton://memory/search/{query}";
+const KNOWLEDGE_TEMPLATE = "teleton://memory/knowledge/{id}";
+const MEMORY_SEARCH_RESULTS = 10;
+
+export interface McpServeDeps {
+  config: Config;
+  agent: Pick<AgentRuntime, "processMessage">;
+  registry: ToolRegistry;
+  bridge: TelegramBridge;
+  db: Database.Database;
+  context: Pick<ContextBuilder, "buildContext">;
+}
+
+/**
+ * Who MCP clients act as: the configured sender in the configured chat.
+ * The sender must be set explicitly and must not be an admin.
+ */
+export function clientIdentity(config: Config) {
+  const { sender_id, chat_id } = config.mcp_serve;
+  if (sender_id === undefined) {
+    throw new Error("mcp_serve.sender_id is required to publish tools over MCP");
+  }
+  if (config.telegram.admin_ids.includes(sender_id)) {
+    throw new Error("mcp_serve.sender_id must not be an admin (telegram.admin_ids)");
+  }
+  return {
+    senderId: sender_id,
+    chatId: chat_id,
+    isGroup: chat_id.startsWith("-"),
+    isAdmin: false,
+  };
+}
+
+/** Tool result as MCP content; images become image blocks */
+function toCallToolResult(result: ToolResult): CallToolResult {
+  if (!result.success) {
+    return { content: [{ type: "text", text: result.error ?? "Tool failed" }], isError: true };
+  }
+  const text =
+    typeof result.data === "string" ? result.data : JSON.stringify(result.data ?? null, null, 2);
+  return {
+    content: [
+      { type: "text", text },
+      ...(result.images ?? []).map((img) => ({ type: "image" as const, ...img })),
+    ],
+  };
+}
+
+/**
+ * MCP server over teleton's tool registry. Published tools are those in
+ * `mcp_serve.tools` that the client identity may use: ToolScope and
+ * per-group ModulePermissions apply exactly as for a Telegram message from
+ * that sender in that chat. A new instance is created per HTTP request.
+ */
+export function createTeletonMcpServer(deps: McpServeDeps): Server {
+  const serveConfig = deps.config.mcp_serve;
+  const identity = clientIdentity(deps.config);
+  const toolContext: ToolContext = {
+    bridge: deps.bridge,
+    db: deps.db,
+    chatId: identity.chatId,
+    senderId: identity.senderId,
+    isGroup: identity.isGroup,
+    config: deps.config,
+  };
+
+  const server = new Server(
+    { name: "teleton", version: "1.0.0" },
+    {
+      capabilities: {
+        tools: {},
+        ...(serveConfig.memory_resources && { resources: {} }),
+      },
+    }
+  );
+
+  const publishedTools = () =>
+    deps.registry
+      .getForContext(identity.isGroup, null, identity.chatId, identity.isAdmin)
+      .filter((tool) => matchesToolPattern(tool.name, serveConfig.tools));
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      ...publishedTools().map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters as unknown as { type: "object" },
+      })),
+      ...(serveConfig.ask_agent
+        ? [
+            {
+              name: ASK_TOOL_NAME,
+              description:
+                "Send a message to the Teleton agent and get its reply. The agent keeps a conversation session across calls and can use the published tools.",
+              inputSchema: {
+                type: "object" as const,
+                properties: { message: { type: "string", description: "Message to the agent" } },
+                required: ["message"],
+              },
+            },
+          ]
+        : []),
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    return withTrace(
+      "mcp.call_tool",
+      { "tool.name": name, "chat.id": identity.chatId },
+      async () => {
+        if (name === ASK_TOOL_NAME && serveConfig.ask_agent) {
+          return askAgent(deps, { ...toolContext, allowedTools: serveConfig.tools }, args.message);
+        }
+        if (!publishedTools().some((tool) => tool.name === name)) {
+          return { content: [{ type: "text", text: `Unknown tool: ${name}` }], isError: true };
+        }
+        const result = await deps.registry.execute(
+          { type: "toolCall", id: randomUUID(), name, arguments: args },
+          toolContext
+        );
+        return toCallToolResult(result);
+      }
+    );
+  });
+
+  if (serveConfig.memory_resources) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: SEARCH_TEMPLATE,
+          name: "memory-search",
+          description:
+            "Hybrid search over the agent's knowledge and Telegram messages. Results carry citation tags.",
+          mimeType: "text/plain",
+        },
+        {
+          uriTemplate: KNOWLEDGE_TEMPLATE,
+          name: "memory-knowledge",
+          description: "One knowledge chunk by id (the id in a [[kb:<id>]] tag)",
+          mimeType: "text/plain",
+        },
+      ],
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      const text = await readMemoryResource(deps, identity, uri);
+      return { contents: [{ uri, mimeType: "text/plain", text }] };
+    });
+  }
+
+  return server;
+}
+
+/** teleton_ask: one agent turn per call, serialized so the session stays consistent */
+let askQueue: Promise<unknown> = Promise.resolve();
+
+async function askAgent(
+  deps: McpServeDeps,
+  toolContext: ToolContext,
+  message: unknown
+): Promise<CallToolResult> {
+  if (typeof message !== "string" || !message.trim()) {
+    return { content: [{ type: "text", text: "'message' is required" }], isError: true };
+  }
+
+  const turn = askQueue.then(() =>
+    deps.agent.processMessage(
+      toolContext.chatId,
+      message,
+      "mcp-client",
+      Date.now(),
+      toolContext.isGroup,
+      null,
+      {
+        bridge: toolContext.bridge,
+        db: toolContext.db,
+        senderId: toolContext.senderId,
+        config: toolContext.config,
+        allowedTools: toolContext.allowedTools,
+      }
+    )
+  );
+  askQueue = turn.catch(() => {});
+
+  try {
+    const response = await turn;
+    return { content: [{ type: "text", text: response.content }] };
+  } catch (error) {
+    log.warn({ err: error }, "teleton_ask failed");
+    return { content: [{ type: "text", text: getErrorMessage(error) }], isError: true };
+  }
+}
+
+async function readMemoryResource(
+  deps: McpServeDeps,
+  identity: ReturnType<typeof clientIdentity>,
+  uri: string
+): Promise<string> {
+  const search = /^teleton:\/\/memory\/search\/(.+)$/.exec(uri);
+  if (search) {
+    const query = decodeURIComponent(search[1]);
+    const built = await deps.context.buildContext({
+      query,
+      chatId: identity.chatId,
+      senderId: String(identity.senderId),
+      includeAgentMemory: true,
+      includeFeedHistory: true,
+      searchAllChats: false,
+      maxRecentMessages: 0,
+      maxRelevantChunks: MEMORY_SEARCH_RESULTS,
+    });
+    const parts = [...built.relevantKnowledge, ...built.relevantFeed];
+    return parts.length > 0 ? parts.join("\n---\n") : "No results";
+  }
+
+  const knowledge = /^teleton:\/\/memory\/knowledge\/(.+)$/.exec(uri);
+  if (knowledge) {
+    // Facts about other users and chats stay private, as in agent retrieval
+    const row = deps.db
+      .prepare(
+        `SELECT text FROM knowledge WHERE id = ?
+           AND (scope = 'global'
+             OR (scope = 'user' AND subject_id = ?)
+             OR (scope = 'chat' AND subject_id = ?))`
+      )
+      .get(decodeURIComponent(knowledge[1]), String(identity.senderId), identity.chatId) as
+      | { text: string }
+      | undefined;
+    if (row) return row.text;
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
@@ -0,0 +1,51 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { McpServeConfig } from "../config/schema.js";
+
+/**
+ * Relay JSON-RPC messages between two transports until either side closes.
+ * Resolves once both are closed.
+ */
+export async function relayTransports(local: Transport, upstream: Transport): Promise<void> {
+  const closed = new Promise<void>((resolve) => {
+    let open = true;
+    const close = () => {
+      if (!open) return;
+      open = false;
+      void Promise.allSettled([local.close(), upstream.close()]).then(() => resolve());
+    };
+    local.onclose = close;
+    upstream.onclose = close;
+  });
+
+  local.onmessage = (message) => {
+    upstream.send(message).catch((error) => local.onerror?.(error));
+  };
+  upstream.onmessage = (message) => {
+    void local.send(message);
+  };
+
+  await upstream.start();
+  await local.start();
+  return closed;
+}
+
+/**
+ * stdio mode for MCP clients that spawn a command: bridges stdin/stdout to the
+ * running agent's HTTP endpoint, so one agent (and one Telegram session)
+ * serves both. Nothing but protocol messages may go to stdout.
+ */
+export async function runStdioBridge(config: McpServeConfig, token: string): Promise<void> {
+  const host = config.host === "0.0.0.0" ? "127.0.0.1" : config.host;
+  const upstream = new StreamableHTTPClientTransport(
+    new URL(`http://${host}:${config.port}${config.path}`),
+    { requestInit: { headers: { Authorization: `Bearer ${token}` } } }
+  );
+  const local = new StdioServerTransport();
+  const report = (error: Error) => process.stderr.write(`teleton mcp serve: ${error.message}\n`);
+  local.onerror = report;
+  upstream.onerror = report;
+
+  await relayTransports(local, upstream);
+}
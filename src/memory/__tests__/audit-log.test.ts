@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema, runMigrations, setSchemaVersion } from "../schema.js";
+import { AuditLog, AUDIT_GENESIS_HASH } from "../audit-log.js";
+
+describe("AuditLog", () => {
+  let db: InstanceType<typeof Database>;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+    auditLog = new AuditLog(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const seed = () => {
+    auditLog.record(
+      {
+        source: "telegram",
+        actor: "telegram:42",
+        action: "policy.dm",
+        target: "telegram.dm_policy",
+        before: "open",
+        after: "pairing",
+      },
+      1_000
+    );
+    auditLog.record(
+      {
+        source: "webui",
+        actor: "webui:alice",
+        action: "config.set",
+        target: "agent.model",
+        before: "a",
+        after: "b",
+      },
+      2_000
+    );
+    auditLog.record(
+      {
+        source: "agent",
+        actor: "telegram:42",
+        action: "spend.ton_send",
+        target: "EQabc",
+        details: { amount: 1.5, outcome: "executed" },
+      },
+      3_000
+    );
+  };
+
+  it("chains each entry to the previous hash", () => {
+    seed();
+    const { entries, total } = auditLog.list();
+
+    expect(total).toBe(3);
+    const [third, second, first] = entries;
+    expect(first.prevHash).toBe(AUDIT_GENESIS_HASH);
+    expect(second.prevHash).toBe(first.hash);
+    expect(third.prevHash).toBe(second.hash);
+    expect(first).toMatchObject({ before: "open", after: "pairing", details: null });
+    expect(third.details).toEqual({ amount: 1.5, outcome: "executed" });
+    expect(auditLog.verify()).toEqual({ ok: true, checked: 3, brokenAt: null });
+  });
+
+  it("rejects updates and deletes", () => {
+    seed();
+    expect(() => db.prepare(`UPDATE audit_log SET after_json = '"x"' WHERE id = 2`).run()).toThrow(
+      /append-only/
+    );
+    expect(() => db.prepare(`DELETE FROM audit_log WHERE id = 1`).run()).toThrow(/append-only/);
+  });
+
+  it("detects rows changed behind the triggers", () => {
+    seed();
+    db.exec(`DROP TRIGGER audit_log_no_update`);
+    db.prepare(`UPDATE audit_log SET after_json = '"gpt"' WHERE id = 2`).run();
+
+    expect(auditLog.verify()).toEqual({ ok: false, checked: 1, brokenAt: 2 });
+  });
+
+  it("detects deleted rows", () => {
+    seed();
+    db.exec(`DROP TRIGGER audit_log_no_delete`);
+    db.prepare(`DELETE FROM audit_log WHERE id = 2`).run();
+
+    expect(auditLog.verify()).toMatchObject({ ok: false, brokenAt: 3 });
+  });
+
+  it("filters by source, actor, action prefix, text and time", () => {
+    seed();
+    const actions = (filter: Parameters<AuditLog["list"]>[0]) =>
+      auditLog.list(filter).entries.map((e) => e.action);
+
+    expect(actions({ source: "webui" })).toEqual(["config.set"]);
+    expect(actions({ actor: "telegram:42" })).toEqual(["spend.ton_send", "policy.dm"]);
+    expect(actions({ action: "spend" })).toEqual(["spend.ton_send"]);
+    expect(actions({ action: "config.set" })).toEqual(["config.set"]);
+    expect(actions({ search: "model" })).toEqual(["config.set"]);
+    expect(actions({ since: 2_000, until: 2_500 })).toEqual(["config.set"]);
+    expect(auditLog.list({ limit: 1, offset: 1 })).toMatchObject({
+      total: 3,
+      entries: [{ action: "config.set" }],
+    });
+  });
+
+  it("folds WebUI request entries into the chain on migration", () => {
+    const legacy = new Database(":memory:");
+    legacy.exec(`
+      CREATE TABLE webui_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        role TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        status INTEGER NOT NULL
+      );
+      INSERT INTO webui_audit (created_at, actor, role, method, path, status)
+      VALUES (100, 'token', 'admin', 'POST', '/api/accounts', 200),
+             (200, 'alice', 'operator', 'DELETE', '/api/tasks/1', 404);
+    `);
+    ensureSchema(legacy);
+    setSchemaVersion(legacy, "1.18.0");
+
+    runMigrations(legacy);
+
+    const migrated = new AuditLog(legacy);
+    expect(migrated.list().entries.map((e) => [e.createdAt, e.actor, e.target])).toEqual([
+      [200, "webui:alice", "/api/tasks/1"],
+      [100, "webui:token", "/api/accounts"],
+    ]);
+    expect(migrated.verify()).toMatchObject({ ok: true, checked: 2 });
+    expect(
+      legacy.prepare(`SELECT name FROM sqlite_master WHERE name = 'webui_audit'`).get()
+    ).toBeUndefined();
+    legacy.close();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ensureSchema } from "../schema.js";
+import { NoopEmbeddingProvider } from "../embeddings/provider.js";
+import { DocumentsConfigSchema } from "../../config/schema.js";
+import { chunkDocument, DocumentIndexer } from "../documents/indexer.js";
+import { csvToText, htmlToText } from "../documents/extract.js";
+import { HybridSearch } from "../search/hybrid.js";
+
+describe("document extraction", () => {
+  it("turns HTML into readable lines", () => {
+    const html = `<html><head><title>Guide</title><style>p{}</style></head>
+      <body><h2>Fees</h2><p>Swaps cost&nbsp;0.3%&amp;more</p><ul><li>One</li><li>Two</li></ul>
+      <script>alert(1)</script></body></html>`;
+
+    expect(htmlToText(html)).toBe("Guide\n\n## Fees\n\nSwaps cost 0.3%&more\n\n- One\n- Two");
+  });
+
+  it("labels CSV values with their column, keeping line numbers", () => {
+    expect(csvToText('name,price\nTON,"5,20"\n\nUSDT,1')).toBe(
+      "name,price\nname: TON; price: 5,20\n\nname: USDT; price: 1"
+    );
+  });
+});
+
+describe("chunkDocument", () => {
+  it("chunks on line boundaries with overlap and line ranges", () => {
+    const text = Array.from({ length: 10 }, (_, i) => `line ${i + 1} ${"x".repeat(20)}`).join("\n");
+
+    const chunks = chunkDocument([{ text }], "docs/a.md", 100, 30);
+
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [1, 3],
+      [3, 5],
+      [5, 7],
+      [7, 9],
+      [9, 10],
+    ]);
+    expect(chunks[1].text.startsWith("line 3 ")).toBe(true);
+    expect(chunks.every((c) => c.source === "document" && c.path === "docs/a.md")).toBe(true);
+  });
+
+  it("keeps the page of each chunk and splits overlong lines", () => {
+    const chunks = chunkDocument(
+      [
+        { text: "intro", page: 1 },
+        { text: "word ".repeat(60), page: 2 },
+      ],
+      "docs/a.pdf",
+      100,
+      0
+    );
+
+    expect(chunks[0]).toMatchObject({ text: "intro", page: 1, startLine: 1, endLine: 1 });
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.slice(1).every((c) => c.page === 2 && c.text.length <= 100)).toBe(true);
+  });
+});
+
+describe("DocumentIndexer", () => {
+  let db: InstanceType<typeof Database>;
+  let workspace: string;
+  let indexer: DocumentIndexer;
+
+  const chunkCount = (path: string) =>
+    (
+      db
+        .prepare(`SELECT COUNT(*) AS n FROM knowledge WHERE source = 'document' AND path = ?`)
+        .get(path) as { n: number }
+    ).n;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+    workspace = mkdtempSync(join(tmpdir(), "teleton-docs-"));
+    mkdirSync(join(workspace, "docs", "sub"), { recursive: true });
+
+    // Stand-in for pdftotext: two pages separated by form feeds
+    const fakePdftotext = join(workspace, "fake-pdftotext");
+    writeFileSync(fakePdftotext, `#!/bin/sh\nprintf 'Cover page\\fStaking pays 4%% APY\\f'\n`);
+    chmodSync(fakePdftotext, 0o755);
+
+    indexer = new DocumentIndexer(
+      db,
+      workspace,
+      new NoopEmbeddingProvider(),
+      false,
+      DocumentsConfigSchema.parse({ pdftotext_binary: fakePdftotext })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("indexes supported files incrementally by content hash", async () => {
+    writeFileSync(join(workspace, "docs", "guide.md"), "# Guide\nUse the bridge.");
+    writeFileSync(join(workspace, "docs", "sub", "prices.csv"), "coin,price\nTON,5");
+    writeFileSync(join(workspace, "docs", "manual.pdf"), "%PDF-1.4 fake");
+    writeFileSync(join(workspace, "docs", "photo.png"), "png");
+    writeFileSync(join(workspace, "notes.md"), "outside the configured folders");
+
+    expect(await indexer.indexAll()).toEqual({ indexed: 3, skipped: 0, removed: 0, failed: 0 });
+    expect(indexer.listDocuments().map((d) => [d.path, d.pages])).toEqual([
+      ["docs/guide.md", null],
+      ["docs/manual.pdf", 2],
+      ["docs/sub/prices.csv", null],
+    ]);
+
+    expect(await indexer.indexAll()).toMatchObject({ indexed: 0, skipped: 3 });
+
+    writeFileSync(join(workspace, "docs", "guide.md"), "# Guide\nUse the new bridge.");
+    unlinkSync(join(workspace, "docs", "sub", "prices.csv"));
+    expect(await indexer.indexAll()).toEqual({ indexed: 1, skipped: 1, removed: 1, failed: 0 });
+    expect(chunkCount("docs/sub/prices.csv")).toBe(0);
+  });
+
+  it("finds document chunks with their path and page", async () => {
+    writeFileSync(join(workspace, "docs", "manual.pdf"), "%PDF-1.4 fake");
+    await indexer.indexAll();
+
+    const results = await new HybridSearch(db, false).searchKnowledge("staking", []);
+
+    expect(results[0]).toMatchObject({
+      source: "document",
+      path: "docs/manual.pdf",
+      page: 2,
+      startLine: 1,
+      endLine: 1,
+    });
+  });
+
+  it("records extraction failures and retries them", async () => {
+    const broken = new DocumentIndexer(
+      db,
+      workspace,
+      new NoopEmbeddingProvider(),
+      false,
+      DocumentsConfigSchema.parse({ pdftotext_binary: join(workspace, "missing") })
+    );
+    writeFileSync(join(workspace, "docs", "manual.pdf"), "%PDF-1.4 fake");
+
+    expect(await broken.indexAll()).toMatchObject({ indexed: 0, failed: 1 });
+    expect(broken.listDocuments()[0].error).toMatch(/not found/);
+
+    expect(await indexer.indexAll()).toMatchObject({ indexed: 1 });
+    expect(indexer.listDocuments()[0].error).toBeNull();
+    expect(chunkCount("docs/manual.pdf")).toBe(2);
+  });
+});
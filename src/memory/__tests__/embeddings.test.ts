@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+import { ensureSchema, ensureVectorTables } from "../schema.js";
+import { OpenAICompatibleEmbeddingProvider } from "../embeddings/openai-compatible.js";
+import { CachedEmbeddingProvider } from "../embeddings/cached.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import { syncVectorDimensions } from "../reembed.js";
+
+/** Fake /embeddings endpoint: each vector is [text length, 1, 1, ...] */
+function mockEmbeddingServer(dims: number) {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string) as { input: string[] };
+    const data = body.input.map((text, index) => ({
+      index,
+      embedding: [text.length, ...Array(dims - 1).fill(1)],
+    }));
+    // Return out of order to check index-based sorting
+    return new Response(JSON.stringify({ data: data.reverse() }), { status: 200 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("OpenAICompatibleEmbeddingProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("detects dimensions on warmup and batches requests", async () => {
+    const fetchMock = mockEmbeddingServer(8);
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: "http://localhost:11434/v1/",
+      batchSize: 2,
+    });
+
+    expect(provider.dimensions).toBe(0);
+    expect(await provider.warmup()).toBe(true);
+    expect(provider.dimensions).toBe(8);
+
+    const vectors = await provider.embedBatch(["a", "bb", "ccc"]);
+    expect(vectors.map((v) => v[0])).toEqual([1, 2, 3]);
+    // warmup + 2 batches
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[1][0]).toBe("http://localhost:11434/v1/embeddings");
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string)).toEqual({
+      input: ["a", "bb"],
+      model: "nomic-embed-text",
+    });
+  });
+
+  it("falls back to empty embeddings when the server is unreachable", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+    const provider = new OpenAICompatibleEmbeddingProvider({ baseUrl: "http://localhost:1" });
+
+    expect(await provider.warmup()).toBe(false);
+    expect(await provider.embedQuery("hello")).toEqual([]);
+    expect(await provider.embedBatch(["hello"])).toEqual([]);
+  });
+
+  it("rejects a model whose size differs from the configured dimensions", async () => {
+    mockEmbeddingServer(8);
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      baseUrl: "http://localhost:11434/v1",
+      dimensions: 16,
+    });
+
+    expect(await provider.warmup()).toBe(false);
+  });
+
+  it("is cached with dimensions read through after warmup", async () => {
+    const fetchMock = mockEmbeddingServer(4);
+    const db = new Database(":memory:");
+    ensureSchema(db);
+    const cached = new CachedEmbeddingProvider(
+      new OpenAICompatibleEmbeddingProvider({ baseUrl: "http://localhost:11434/v1" }),
+      db
+    );
+
+    await cached.warmup?.();
+    expect(cached.dimensions).toBe(4);
+
+    await cached.embedQuery("hello");
+    await cached.embedQuery("hello");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    db.close();
+  });
+});
+
+describe("syncVectorDimensions", () => {
+  let db: InstanceType<typeof Database>;
+
+  const embedder = (dimensions: number): EmbeddingProvider => ({
+    id: "test",
+    model: "test",
+    dimensions,
+    embedQuery: async (text) => [text.length, ...Array(dimensions - 1).fill(0)],
+    embedBatch: async (texts) => texts.map((t) => [t.length, ...Array(dimensions - 1).fill(0)]),
+  });
+
+  const vecDims = () =>
+    (
+      db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'knowledge_vec'`).get() as {
+        sql: string;
+      }
+    ).sql.match(/FLOAT\[(\d+)\]/)?.[1];
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    sqliteVec.load(db);
+    ensureSchema(db);
+    db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash) VALUES ('k1', 'memory', 'likes tea', 'h1')`
+    ).run();
+    db.prepare(`INSERT INTO tg_chats (id, type) VALUES ('c', 'dm')`).run();
+    db.prepare(
+      `INSERT INTO tg_messages (id, chat_id, text, timestamp) VALUES
+       ('m1', 'c', 'hello', 1), ('m2', 'c', NULL, 2)`
+    ).run();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("does nothing when the tables already match", async () => {
+    ensureVectorTables(db, 4);
+    expect(await syncVectorDimensions(db, embedder(4))).toBeNull();
+  });
+
+  it("rebuilds the vector tables at the new size and re-embeds", async () => {
+    ensureVectorTables(db, 4);
+
+    const result = await syncVectorDimensions(db, embedder(8));
+
+    expect(result).toEqual({ dimensions: 8, knowledge: 1, messages: 1 });
+    expect(vecDims()).toBe("8");
+    const count = (table: string) =>
+      (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    expect(count("knowledge_vec")).toBe(1);
+    expect(count("tg_messages_vec")).toBe(1);
+    expect(await syncVectorDimensions(db, embedder(8))).toBeNull();
+  });
+
+  it("re-embeds when the tables were rebuilt on open", async () => {
+    ensureVectorTables(db, 4);
+    // Dimension change detected when opening the database, before warmup
+    ensureVectorTables(db, 8);
+
+    const result = await syncVectorDimensions(db, embedder(8));
+
+    expect(result).toEqual({ dimensions: 8, knowledge: 1, messages: 1 });
+  });
+
+  it("keeps the stale flag when the provider returns nothing", async () => {
+    ensureVectorTables(db, 4);
+    const broken = { ...embedder(8), embedBatch: async () => [] };
+
+    await expect(syncVectorDimensions(db, broken)).rejects.toThrow(/no vectors/);
+    expect(await syncVectorDimensions(db, embedder(8))).toMatchObject({ knowledge: 1 });
+  });
+});
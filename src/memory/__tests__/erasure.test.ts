@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync, existsSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ensureSchema, ensureVectorTables } from "../schema.js";
+import { MemoryEraser } from "../erasure.js";
+
+const transcripts = vi.hoisted(() => ({
+  deleteTranscriptFiles: vi.fn((id: string) => [`${id}.jsonl`]),
+  redactTranscripts: vi.fn(() => ({ files: [] as string[], lines: 0 })),
+  cleanupOldTranscripts: vi.fn(() => 0),
+}));
+
+vi.mock("../../session/transcript.js", () => transcripts);
+
+describe("MemoryEraser", () => {
+  let db: InstanceType<typeof Database>;
+  let dir: string;
+  let eraser: MemoryEraser;
+
+  const count = (sql: string) => (db.prepare(sql).get() as { n: number }).n;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db = new Database(":memory:");
+    sqliteVec.load(db);
+    ensureSchema(db);
+    ensureVectorTables(db, 2);
+
+    dir = mkdtempSync(join(tmpdir(), "teleton-erasure-"));
+    mkdirSync(join(dir, "memory"));
+    eraser = new MemoryEraser(db, {
+      memoryFile: join(dir, "MEMORY.md"),
+      memoryDir: join(dir, "memory"),
+    });
+
+    db.exec(`
+      INSERT INTO tg_users (id, username) VALUES ('7', 'alice'), ('8', 'bob');
+      INSERT INTO tg_chats (id, type) VALUES ('7', 'dm'), ('8', 'dm'), ('-200', 'group');
+      INSERT INTO tg_messages (id, chat_id, sender_id, text, timestamp) VALUES
+        ('m1', '7', '7', 'hi from alice', 100),
+        ('m2', '-200', '7', 'alice in group', 200),
+        ('m3', '-200', '8', 'bob in group', 300),
+        ('m4', '8', '8', 'bob dm', 400);
+      INSERT INTO tg_messages_vec (id, embedding) VALUES
+        ('m1', '[1,0]'), ('m2', '[1,0]'), ('m3', '[0,1]'), ('m4', '[0,1]');
+      INSERT INTO knowledge (id, source, text, hash, scope, subject_id) VALUES
+        ('f1', 'learned', 'Alice likes tea', 'h1', 'user', '7'),
+        ('f2', 'learned', 'Group speaks French', 'h2', 'chat', '-200'),
+        ('k1', 'memory', 'Met @Alice at the conference', 'h3', 'global', NULL),
+        ('k2', 'memory', 'User 77 prefers TON', 'h4', 'global', NULL);
+      INSERT INTO knowledge_vec (id, embedding) VALUES ('f1', '[1,0]'), ('k1', '[1,0]'), ('k2', '[0,1]');
+      INSERT INTO sessions (id, chat_id, started_at, updated_at) VALUES
+        ('s7', 'telegram:7', 0, 0), ('s200', 'telegram:-200', 0, 0);
+      INSERT INTO llm_usage (chat_id, user_id, provider, model) VALUES ('7', '7', 'p', 'm'), ('-200', '7', 'p', 'm');
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("forgets a user everywhere and records a report", () => {
+    writeFileSync(
+      join(dir, "MEMORY.md"),
+      "# Memory\n- @alice trades jettons\n- User 77 is bob's friend\n"
+    );
+    writeFileSync(join(dir, "memory", "2026-01-02.md"), "Talked to user 7 about fees\n");
+
+    expect(eraser.resolveUser("@ALICE")).toEqual({ id: "7", username: "alice" });
+    const report = eraser.forgetUser("7", "1");
+
+    expect(count(`SELECT COUNT(*) AS n FROM tg_messages`)).toBe(2);
+    expect(count(`SELECT COUNT(*) AS n FROM tg_messages_vec`)).toBe(2);
+    expect(count(`SELECT COUNT(*) AS n FROM tg_users WHERE id = '7'`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM tg_chats WHERE id = '7'`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM sessions WHERE id = 's7'`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM llm_usage WHERE user_id = '7' OR chat_id = '7'`)).toBe(
+      0
+    );
+    expect(
+      (db.prepare(`SELECT id FROM knowledge ORDER BY id`).all() as Array<{ id: string }>).map(
+        (r) => r.id
+      )
+    ).toEqual(["f2", "k2"]);
+
+    expect(readFileSync(join(dir, "MEMORY.md"), "utf-8")).toBe(
+      "# Memory\n- User 77 is bob's friend\n"
+    );
+    expect(readFileSync(join(dir, "memory", "2026-01-02.md"), "utf-8")).toBe("");
+    expect(transcripts.deleteTranscriptFiles).toHaveBeenCalledWith("s7");
+    const matcher = transcripts.redactTranscripts.mock.calls[0][0] as (line: string) => boolean;
+    expect(matcher('{"text":"[id:7 @alice] hi"}')).toBe(true);
+    expect(matcher('{"text":"[id:77] hi"}')).toBe(false);
+
+    expect(report).toMatchObject({
+      kind: "user",
+      subject: "7",
+      requestedBy: "1",
+      deleted: {
+        tg_messages: 2,
+        tg_messages_vec: 2,
+        knowledge: 2,
+        knowledge_vec: 2,
+        sessions: 1,
+        "session transcripts": 1,
+        "llm_usage (unlinked)": 2,
+        tg_users: 1,
+        tg_chats: 1,
+        "memory file lines": 2,
+      },
+    });
+    expect(report.files).toEqual(
+      expect.arrayContaining([
+        { path: "sessions/s7.jsonl", action: "deleted" },
+        { path: "MEMORY.md", action: "redacted", lines: 1 },
+        { path: "memory/2026-01-02.md", action: "redacted", lines: 1 },
+      ])
+    );
+    expect(eraser.listReports()).toEqual([report]);
+  });
+
+  it("forgets a chat without touching other chats", () => {
+    const report = eraser.forgetChat("-200", "1");
+
+    expect(count(`SELECT COUNT(*) AS n FROM tg_messages WHERE chat_id = '-200'`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM tg_messages`)).toBe(2);
+    expect(count(`SELECT COUNT(*) AS n FROM knowledge WHERE id = 'f2'`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM knowledge WHERE id = 'f1'`)).toBe(1);
+    expect(count(`SELECT COUNT(*) AS n FROM sessions WHERE id = 's7'`)).toBe(1);
+    expect(report.deleted).toMatchObject({ tg_messages: 2, tg_chats: 1, sessions: 1 });
+  });
+
+  it("applies retention per data class and skips empty runs", () => {
+    db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash, updated_at) VALUES ('session:old', 'session', 'summary', 'h', 10)`
+    ).run();
+    writeFileSync(join(dir, "memory", "1970-01-01.md"), "old log\n");
+    writeFileSync(join(dir, "memory", "1970-01-20.md"), "recent log\n");
+    const now = new Date(30 * 86400 * 1000);
+
+    const report = eraser.applyRetention(
+      { messages_days: 29, summaries_days: 29, daily_logs_days: 15, transcripts_days: 30 },
+      now
+    );
+
+    expect(count(`SELECT COUNT(*) AS n FROM tg_messages`)).toBe(0);
+    expect(count(`SELECT COUNT(*) AS n FROM knowledge WHERE source = 'session'`)).toBe(0);
+    expect(existsSync(join(dir, "memory", "1970-01-01.md"))).toBe(false);
+    expect(existsSync(join(dir, "memory", "1970-01-20.md"))).toBe(true);
+    expect(transcripts.cleanupOldTranscripts).toHaveBeenCalledWith(30);
+    expect(report).toMatchObject({
+      kind: "retention",
+      deleted: { tg_messages: 4, tg_messages_vec: 4, knowledge: 1 },
+      files: [{ path: "memory/1970-01-01.md", action: "deleted" }],
+    });
+
+    expect(eraser.applyRetention({ transcripts_days: 30 }, now)).toBeNull();
+  });
+});
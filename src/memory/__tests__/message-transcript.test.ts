@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../schema.js";
+import { MessageStore } from "../feed/messages.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+
+describe("MessageStore transcripts", () => {
+  let db: InstanceType<typeof Database>;
+  let store: MessageStore;
+
+  const voiceNote = {
+    id: "42",
+    chatId: "100",
+    senderId: "7",
+    text: "",
+    isFromAgent: false,
+    hasMedia: true,
+    mediaType: "voice",
+    timestamp: 1_700_000_000,
+  };
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+    store = new MessageStore(db, {} as EmbeddingProvider, false);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("caches a transcript per message", async () => {
+    await store.storeMessage(voiceNote);
+    expect(store.getTranscript("100", "42")).toBeUndefined();
+
+    store.setTranscript("100", "42", "see you at five");
+    expect(store.getTranscript("100", "42")).toBe("see you at five");
+    expect(store.getTranscript("200", "42")).toBeUndefined();
+  });
+
+  it("keeps the cached transcript when the message is stored again", async () => {
+    await store.storeMessage(voiceNote);
+    store.setTranscript("100", "42", "see you at five");
+
+    await store.storeMessage(voiceNote);
+    expect(store.getTranscript("100", "42")).toBe("see you at five");
+  });
+});
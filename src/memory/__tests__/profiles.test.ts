@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../schema.js";
+import { NoopEmbeddingProvider } from "../embeddings/provider.js";
+import { MemoryProfiles } from "../agent/profiles.js";
+import { ContextBuilder } from "../search/context.js";
+
+describe("MemoryProfiles", () => {
+  let db: InstanceType<typeof Database>;
+  let profiles: MemoryProfiles;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+    profiles = new MemoryProfiles(db, new NoopEmbeddingProvider(), false);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("adds, edits and deletes facts about a user", async () => {
+    const fact = await profiles.addFact("user", "7", "Prefers answers in French");
+    expect(fact).toMatchObject({
+      scope: "user",
+      subjectId: "7",
+      text: "Prefers answers in French",
+    });
+
+    const updated = await profiles.updateFact(fact.id, "Prefers answers in Spanish");
+    expect(updated?.text).toBe("Prefers answers in Spanish");
+    expect(profiles.listFacts("user", "7")).toHaveLength(1);
+
+    expect(profiles.deleteFact(fact.id)).toBe(true);
+    expect(profiles.listFacts("user", "7")).toEqual([]);
+    expect(profiles.deleteFact(fact.id)).toBe(false);
+  });
+
+  it("lists profiles with their Telegram names", async () => {
+    db.prepare(`INSERT INTO tg_users (id, username) VALUES ('7', 'alice')`).run();
+    db.prepare(`INSERT INTO tg_chats (id, type, title) VALUES ('-200', 'group', 'Traders')`).run();
+    await profiles.addFact("user", "7", "Likes tea");
+    await profiles.addFact("user", "7", "Lives in Lisbon");
+    await profiles.addFact("chat", "-200", "Speaks Portuguese");
+
+    const list = profiles.listProfiles();
+
+    expect(list).toHaveLength(2);
+    expect(list).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ scope: "user", subjectId: "7", name: "@alice", facts: 2 }),
+        expect.objectContaining({ scope: "chat", subjectId: "-200", name: "Traders", facts: 1 }),
+      ])
+    );
+
+    expect(profiles.deleteProfile("user", "7")).toBe(2);
+    expect(profiles.listProfiles().map((p) => p.scope)).toEqual(["chat"]);
+  });
+
+  it("never touches global knowledge", async () => {
+    db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash) VALUES ('k1', 'memory', 'global', 'h')`
+    ).run();
+
+    expect(profiles.getFact("k1")).toBeNull();
+    expect(await profiles.updateFact("k1", "changed")).toBeNull();
+    expect(profiles.deleteFact("k1")).toBe(false);
+  });
+
+  it("only surfaces facts about the current sender and chat in context", async () => {
+    db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash) VALUES ('k1', 'memory', 'Tea shop opens at nine', 'h')`
+    ).run();
+    await profiles.addFact("user", "7", "Alice drinks green tea");
+    await profiles.addFact("user", "8", "Bob drinks black tea");
+    await profiles.addFact("chat", "-200", "This group orders tea on Fridays");
+
+    const builder = new ContextBuilder(db, new NoopEmbeddingProvider(), false);
+    const context = await builder.buildContext({
+      query: "tea",
+      chatId: "-200",
+      senderId: "7",
+      includeFeedHistory: false,
+    });
+
+    expect(context.relevantKnowledge).toEqual(
+      expect.arrayContaining([
+        "[[kb:k1]] Tea shop opens at nine",
+        expect.stringMatching(
+          /^\[\[kb:user:7:[^\]]+\]\] \[About the sender\] Alice drinks green tea$/
+        ),
+        expect.stringMatching(
+          /^\[\[kb:chat:-200:[^\]]+\]\] \[About this chat\] This group orders tea on Fridays$/
+        ),
+      ])
+    );
+    expect(context.relevantKnowledge.join("\n")).not.toContain("Bob");
+  });
+
+  it("keeps messages from other chats out of a DM unless all chats are searched", async () => {
+    db.exec(`
+      INSERT INTO tg_chats (id, type) VALUES ('-200', 'group'), ('7', 'dm');
+      INSERT INTO tg_messages (id, chat_id, text, timestamp)
+        VALUES ('1', '-200', 'Bob: the tea order goes to Lisbon', 1),
+               ('2', '7', 'Where can I buy tea?', 2);
+    `);
+    const builder = new ContextBuilder(db, new NoopEmbeddingProvider(), false);
+    const options = { query: "tea", chatId: "7", senderId: "7", maxRecentMessages: 0 };
+
+    const stranger = await builder.buildContext(options);
+    expect(stranger.relevantFeed.join("\n")).toContain("Where can I buy tea?");
+    expect(stranger.relevantFeed.join("\n")).not.toContain("Lisbon");
+
+    const admin = await builder.buildContext({ ...options, searchAllChats: true });
+    expect(admin.relevantFeed.join("\n")).toContain("[From chat -200]: Bob: the tea order");
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../schema.js";
+import { NoopEmbeddingProvider } from "../embeddings/provider.js";
+import { HybridSearch } from "../search/hybrid.js";
+import { Retriever } from "../search/retriever.js";
+import { rerankResults, type Reranker } from "../search/reranker.js";
+import { parseRewrites } from "../search/rewrite.js";
+import { evaluateRetrieval, parseEvalSet, scoreRanking } from "../search/eval.js";
+import { RetrievalConfigSchema } from "../../config/schema.js";
+
+/** Scores a passage by whether it contains `word` */
+function keywordReranker(word: string): Reranker {
+  return {
+    model: "test",
+    score: async (_query, passages) => passages.map((p) => (p.includes(word) ? 0.99 : 0.01)),
+  };
+}
+
+describe("Retriever", () => {
+  let db: InstanceType<typeof Database>;
+  let hybrid: HybridSearch;
+  const embedder = new NoopEmbeddingProvider();
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+    const insert = db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash, path) VALUES (?, 'document', ?, ?, ?)`
+    );
+    insert.run("k1", "wallet wallet wallet backup notes", "h1", "docs/notes.md");
+    insert.run("k2", "How to restore a wallet from the seed phrase", "h2", "docs/restore.md");
+    insert.run("k3", "Mnemonic recovery steps for a lost device", "h3", "docs/recovery.md");
+    hybrid = new HybridSearch(db, false);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("matches plain hybrid search without optional stages", async () => {
+    const retriever = new Retriever(hybrid, embedder);
+    const queries = await retriever.prepareQueries("wallet");
+
+    expect(queries).toEqual([{ text: "wallet", embedding: [], weight: 1 }]);
+    expect(await retriever.searchKnowledge(queries, { limit: 5 })).toEqual(
+      await hybrid.searchKnowledge("wallet", [], { limit: 5 })
+    );
+  });
+
+  it("reranks the candidates against the original query", async () => {
+    const retriever = new Retriever(hybrid, embedder, {
+      reranker: keywordReranker("restore"),
+      rerankTopK: 10,
+      rerankWeight: 1,
+    });
+
+    const results = await retriever.searchKnowledge(await retriever.prepareQueries("wallet"), {
+      limit: 1,
+    });
+
+    expect(results.map((r) => r.id)).toEqual(["k2"]);
+    expect(results[0].rerankScore).toBe(0.99);
+  });
+
+  it("adds results found through rewritten queries, down-weighted", async () => {
+    const rewrite = vi.fn(async () => ["mnemonic recovery"]);
+    const retriever = new Retriever(hybrid, embedder, {
+      rewriter: { rewrite },
+      rewriteWeight: 0.5,
+    });
+
+    const queries = await retriever.prepareQueries("wallet");
+    const results = await retriever.searchKnowledge(queries, { limit: 5 });
+
+    expect(rewrite).toHaveBeenCalledWith("wallet");
+    expect(queries.map((q) => [q.text, q.weight])).toEqual([
+      ["wallet", 1],
+      ["mnemonic recovery", 0.5],
+    ]);
+    const k3 = results.find((r) => r.id === "k3");
+    const [direct] = await hybrid.searchKnowledge("mnemonic recovery", [], { limit: 1 });
+    expect(k3?.score).toBeCloseTo(direct.score * 0.5);
+  });
+});
+
+describe("rerankResults", () => {
+  const results = [
+    { id: "a", text: "alpha", source: "memory", score: 0.9 },
+    { id: "b", text: "beta", source: "memory", score: 0.5 },
+    { id: "c", text: "gamma", source: "memory", score: 0.4 },
+  ];
+
+  it("blends scores and leaves results past top-k in place", async () => {
+    const reranked = await rerankResults(keywordReranker("beta"), "q", results, {
+      topK: 2,
+      weight: 0.5,
+    });
+
+    expect(reranked.map((r) => r.id)).toEqual(["b", "a", "c"]);
+    expect(reranked[0].score).toBeCloseTo(0.5 * 0.99 + 0.5 * 0.5);
+    expect(reranked[2]).toEqual(results[2]);
+  });
+
+  it("keeps the hybrid order when the reranker fails", async () => {
+    const broken: Reranker = {
+      model: "test",
+      score: async () => {
+        throw new Error("model not loaded");
+      },
+    };
+
+    expect(await rerankResults(broken, "q", results, { topK: 3, weight: 1 })).toBe(results);
+  });
+});
+
+describe("parseRewrites", () => {
+  it("strips list markers and drops duplicates of the original", () => {
+    const text = `1. "restore wallet from seed"\n- Wallet backup\n\n* restore wallet from seed\n• lost mnemonic`;
+
+    expect(parseRewrites(text, "wallet backup", 5)).toEqual([
+      "restore wallet from seed",
+      "lost mnemonic",
+    ]);
+    expect(parseRewrites(text, "wallet backup", 1)).toEqual(["restore wallet from seed"]);
+  });
+});
+
+describe("retrieval evaluation", () => {
+  it("parses JSON Lines and JSON arrays", () => {
+    const jsonl = `{"query":"wallet","relevant":["docs/a.md"]}\n\n{"query":"hi","relevant":["m1"],"source":"messages","chat_id":"-100"}`;
+
+    expect(parseEvalSet(jsonl)).toEqual([
+      { query: "wallet", relevant: ["docs/a.md"], source: "knowledge", chatId: undefined },
+      { query: "hi", relevant: ["m1"], source: "messages", chatId: "-100" },
+    ]);
+    expect(parseEvalSet(`[{"query":"wallet","relevant":["k1"]}]`)).toHaveLength(1);
+    expect(() => parseEvalSet(`{"query":"wallet","relevant":[]}`)).toThrow(/relevant/);
+    expect(() => parseEvalSet(`{"query":"wallet"`)).toThrow(/Line 1/);
+  });
+
+  it("counts chunks of the same relevant file once", () => {
+    const ranked = [
+      { id: "x", text: "", source: "document", score: 1, path: "docs/other.md" },
+      { id: "a1", text: "", source: "document", score: 0.9, path: "docs/a.md" },
+      { id: "a2", text: "", source: "document", score: 0.8, path: "docs/a.md" },
+    ];
+
+    expect(scoreRanking(ranked, ["docs/a.md", "k9"], 3)).toEqual({
+      recall: 0.5,
+      reciprocalRank: 0.5,
+      hit: true,
+    });
+    expect(scoreRanking(ranked, ["docs/a.md"], 1).hit).toBe(false);
+  });
+
+  it("averages metrics over the labelled set", async () => {
+    const db = new Database(":memory:");
+    ensureSchema(db);
+    db.prepare(
+      `INSERT INTO knowledge (id, source, text, hash, path)
+       VALUES ('k1', 'document', 'Restore a wallet from the seed phrase', 'h', 'docs/restore.md')`
+    ).run();
+    const retriever = new Retriever(new HybridSearch(db, false), new NoopEmbeddingProvider());
+
+    const metrics = await evaluateRetrieval(
+      retriever,
+      [
+        { query: "restore wallet", relevant: ["docs/restore.md"], source: "knowledge" },
+        { query: "unrelated topic", relevant: ["k1"], source: "knowledge" },
+      ],
+      5
+    );
+
+    expect(metrics).toMatchObject({ queries: 2, recall: 0.5, mrr: 0.5, hitRate: 0.5 });
+    db.close();
+  });
+
+  it("has rerank and rewrite disabled by default", () => {
+    const config = RetrievalConfigSchema.parse(undefined);
+    expect(config.rerank).toMatchObject({ enabled: false, top_k: 20, weight: 0.7 });
+    expect(config.query_rewrite).toMatchObject({ enabled: false, max_queries: 2 });
+  });
+});
@@ -1059,7 +1059,7 @@ describe("Memory Schema", () => {
     });
 
     it("CURRENT_SCHEMA_VERSION is set to expected value", () => {
-      expect(CURRENT_SCHEMA_VERSION).toBe("1.11.0");
+      expect(CURRENT_SCHEMA_VERSION).toBe("1.19.0");
     });
   });
 
@@ -1129,6 +1129,161 @@ describe("Memory Schema", () => {
       expect(columnNames).toContain("last_reset_date");
     });
 
+    it("runMigrations from version 1.11.0 adds recurring task columns and task_runs", () => {
+      // Simulate a pre-1.12.0 tasks table
+      db.exec(`
+        CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER);
+        CREATE TABLE tasks (
+          id TEXT PRIMARY KEY,
+          description TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          priority INTEGER DEFAULT 0,
+          created_by TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          started_at INTEGER,
+          completed_at INTEGER,
+          result TEXT,
+          error TEXT,
+          scheduled_for INTEGER,
+          payload TEXT,
+          reason TEXT,
+          scheduled_message_id INTEGER
+        );
+      `);
+      setSchemaVersion(db, "1.11.0");
+
+      runMigrations(db);
+
+      const columnNames = (
+        db.prepare("PRAGMA table_info(tasks)").all() as Array<{ name: string }>
+      ).map((c) => c.name);
+      expect(columnNames).toContain("recurrence");
+      expect(columnNames).toContain("max_runs");
+      expect(columnNames).toContain("run_count");
+      expect(columnNames).toContain("paused");
+
+      const runsTable = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='task_runs'`)
+        .get();
+      expect(runsTable).toBeDefined();
+    });
+
+    it("runMigrations from version 1.12.0 adds the tg_messages transcript column", () => {
+      ensureSchema(db);
+      db.exec(`ALTER TABLE tg_messages DROP COLUMN transcript`);
+      setSchemaVersion(db, "1.12.0");
+
+      runMigrations(db);
+
+      const columnNames = (
+        db.prepare("PRAGMA table_info(tg_messages)").all() as Array<{ name: string }>
+      ).map((c) => c.name);
+      expect(columnNames).toContain("transcript");
+      expect(getSchemaVersion(db)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it("runMigrations from version 1.13.0 creates the llm_usage table", () => {
+      ensureSchema(db);
+      db.exec(`DROP TABLE llm_usage`);
+      setSchemaVersion(db, "1.13.0");
+
+      runMigrations(db);
+
+      const usageTable = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='llm_usage'`)
+        .get();
+      expect(usageTable).toBeDefined();
+      expect(getSchemaVersion(db)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it("runMigrations from version 1.14.0 adds memory scope columns to knowledge", () => {
+      db.exec(`
+        CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER);
+        CREATE TABLE knowledge (
+          id TEXT PRIMARY KEY,
+          source TEXT NOT NULL,
+          path TEXT,
+          text TEXT NOT NULL,
+          embedding TEXT,
+          start_line INTEGER,
+          end_line INTEGER,
+          hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        INSERT INTO knowledge (id, source, text, hash) VALUES ('k1', 'memory', 'old fact', 'h');
+      `);
+      setSchemaVersion(db, "1.14.0");
+
+      runMigrations(db);
+
+      const row = db.prepare(`SELECT scope, subject_id FROM knowledge WHERE id = 'k1'`).get();
+      expect(row).toEqual({ scope: "global", subject_id: null });
+      expect(getSchemaVersion(db)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it("runMigrations from version 1.15.0 creates the erasure_log table", () => {
+      ensureSchema(db);
+      db.exec(`DROP TABLE erasure_log`);
+      setSchemaVersion(db, "1.15.0");
+
+      runMigrations(db);
+
+      const table = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='erasure_log'`)
+        .get();
+      expect(table).toBeDefined();
+      expect(getSchemaVersion(db)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it("runMigrations from version 1.16.0 allows document chunks and keeps FTS rows", () => {
+      db.exec(`
+        CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER);
+        CREATE TABLE knowledge (
+          id TEXT PRIMARY KEY,
+          source TEXT NOT NULL CHECK(source IN ('memory', 'session', 'learned')),
+          path TEXT,
+          text TEXT NOT NULL,
+          embedding TEXT,
+          start_line INTEGER,
+          end_line INTEGER,
+          hash TEXT NOT NULL,
+          scope TEXT NOT NULL DEFAULT 'global',
+          subject_id TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        CREATE VIRTUAL TABLE knowledge_fts USING fts5(
+          text, id UNINDEXED, path UNINDEXED, source UNINDEXED,
+          content='knowledge', content_rowid='rowid'
+        );
+        INSERT INTO knowledge (rowid, id, source, text, hash) VALUES (5, 'k1', 'memory', 'lisbon trip', 'h');
+        INSERT INTO knowledge_fts (rowid, text, id, path, source) VALUES (5, 'lisbon trip', 'k1', NULL, 'memory');
+      `);
+      setSchemaVersion(db, "1.16.0");
+
+      runMigrations(db);
+      ensureSchema(db);
+
+      db.prepare(
+        `INSERT INTO knowledge (id, source, path, text, page, hash) VALUES ('d1', 'document', 'docs/a.pdf', 'porto trip', 3, 'h2')`
+      ).run();
+      const ids = (query: string) =>
+        (
+          db
+            .prepare(
+              `SELECT k.id FROM knowledge_fts f JOIN knowledge k ON k.rowid = f.rowid WHERE knowledge_fts MATCH ?`
+            )
+            .all(query) as Array<{ id: string }>
+        ).map((r) => r.id);
+      expect(ids("lisbon")).toEqual(["k1"]);
+      expect(ids("porto")).toEqual(["d1"]);
+      expect(
+        db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='documents'`).get()
+      ).toBeDefined();
+      expect(getSchemaVersion(db)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
     it("runMigrations is idempotent (can run multiple times)", () => {
       ensureSchema(db);
       runMigrations(db);
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import {
+  parseCron,
+  nextCronRun,
+  nextRunAfter,
+  validateRecurrence,
+  describeRecurrence,
+} from "../agent/task-recurrence.js";
+import { ensureSchema } from "../schema.js";
+import { TaskStore } from "../agent/tasks.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, lists and steps", () => {
+    const s = parseCron("*/15 9-11 1,15 * MON-FRI");
+    expect([...s.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...s.hours]).toEqual([9, 10, 11]);
+    expect([...s.daysOfMonth]).toEqual([1, 15]);
+    expect(s.months.size).toBe(12);
+    expect([...s.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday and expands macros", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCron("@daily").hours]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/out of range/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("5-1 * * * *")).toThrow(/range/);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute in UTC", () => {
+    const s = parseCron("30 9 * * *");
+    expect(nextCronRun(s, at("2025-03-10T08:00:00Z"), "UTC").toISOString()).toBe(
+      "2025-03-10T09:30:00.000Z"
+    );
+    expect(nextCronRun(s, at("2025-03-10T09:30:00Z"), "UTC").toISOString()).toBe(
+      "2025-03-11T09:30:00.000Z"
+    );
+  });
+
+  it("honours weekdays", () => {
+    // 2025-03-14 is a Friday
+    const s = parseCron("0 9 * * 1-5");
+    expect(nextCronRun(s, at("2025-03-14T10:00:00Z"), "UTC").toISOString()).toBe(
+      "2025-03-17T09:00:00.000Z"
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 1st of the month OR Sunday; 2025-03-02 is a Sunday
+    const s = parseCron("0 0 1 * 0");
+    expect(nextCronRun(s, at("2025-03-01T12:00:00Z"), "UTC").toISOString()).toBe(
+      "2025-03-02T00:00:00.000Z"
+    );
+  });
+
+  it("evaluates wall-clock time in the given timezone across DST", () => {
+    const s = parseCron("0 9 * * *");
+    // Paris is UTC+1 before 2025-03-30 and UTC+2 after
+    expect(nextCronRun(s, at("2025-03-29T12:00:00Z"), "Europe/Paris").toISOString()).toBe(
+      "2025-03-30T07:00:00.000Z"
+    );
+    expect(nextCronRun(s, at("2025-03-28T12:00:00Z"), "Europe/Paris").toISOString()).toBe(
+      "2025-03-29T08:00:00.000Z"
+    );
+  });
+
+  it("throws for schedules that never fire", () => {
+    expect(() => nextCronRun(parseCron("0 0 30 2 *"), at("2025-01-01T00:00:00Z"), "UTC")).toThrow(
+      /never fires/
+    );
+  });
+});
+
+describe("nextRunAfter", () => {
+  it("daily rule fires at HH:MM in the timezone", () => {
+    const next = nextRunAfter(
+      { kind: "daily", time: "18:45", timezone: "Asia/Tokyo" },
+      at("2025-06-01T10:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-06-02T09:45:00.000Z");
+  });
+
+  it("interval rule anchors on the previous run and skips missed slots", () => {
+    const rule = { kind: "interval" as const, minutes: 10 };
+    expect(nextRunAfter(rule, at("2025-01-01T00:03:00Z")).toISOString()).toBe(
+      "2025-01-01T00:13:00.000Z"
+    );
+    expect(
+      nextRunAfter(rule, at("2025-01-01T00:35:30Z"), at("2025-01-01T00:00:00Z")).toISOString()
+    ).toBe("2025-01-01T00:40:00.000Z");
+  });
+});
+
+describe("validateRecurrence / describeRecurrence", () => {
+  it("rejects invalid rules", () => {
+    expect(() => validateRecurrence({ kind: "interval", minutes: 0 })).toThrow();
+    expect(() => validateRecurrence({ kind: "daily", time: "25:00" })).toThrow(/HH:MM/);
+    expect(() =>
+      validateRecurrence({ kind: "daily", time: "09:00", timezone: "Mars/Base" })
+    ).toThrow(/timezone/);
+    expect(() => validateRecurrence({ kind: "cron", expression: "bad" })).toThrow();
+  });
+
+  it("describes rules", () => {
+    expect(describeRecurrence({ kind: "interval", minutes: 15 })).toBe("every 15 min");
+    expect(describeRecurrence({ kind: "daily", time: "09:00", timezone: "UTC" })).toBe(
+      "daily at 09:00 UTC"
+    );
+  });
+});
+
+describe("TaskStore recurring tasks", () => {
+  let db: InstanceType<typeof Database>;
+  let store: TaskStore;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+    ensureSchema(db);
+    store = new TaskStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("persists recurrence and max runs", () => {
+    const created = store.createTask({
+      description: "digest",
+      recurrence: { kind: "daily", time: "09:00", timezone: "UTC" },
+      maxRuns: 3,
+    });
+    const task = store.getTask(created.id)!;
+    expect(task.recurrence).toEqual({ kind: "daily", time: "09:00", timezone: "UTC" });
+    expect(task.maxRuns).toBe(3);
+    expect(task.runCount).toBe(0);
+    expect(task.paused).toBe(false);
+  });
+
+  it("records runs newest first and counts finished runs", () => {
+    const { id } = store.createTask({
+      description: "poll",
+      recurrence: { kind: "interval", minutes: 5 },
+    });
+
+    const first = store.startRun(id);
+    store.finishRun(first, "done", { result: "ok" });
+    const second = store.startRun(id);
+    store.finishRun(second, "failed", { error: "boom" });
+    store.startRun(id, "skipped");
+
+    const runs = store.listRuns(id);
+    expect(runs.map((r) => r.status)).toEqual(["skipped", "failed", "done"]);
+    expect(runs[2].result).toBe("ok");
+    expect(runs[1].error).toBe("boom");
+    expect(store.getTask(id)!.runCount).toBe(2);
+
+    // Finishing twice doesn't double count
+    store.finishRun(first, "done");
+    expect(store.getTask(id)!.runCount).toBe(2);
+  });
+
+  it("re-arms and pauses tasks", () => {
+    const { id } = store.createTask({
+      description: "poll",
+      recurrence: { kind: "interval", minutes: 5 },
+    });
+    store.startTask(id);
+
+    const next = new Date("2030-01-01T00:00:00Z");
+    const rearmed = store.scheduleNextRun(id, next, 77)!;
+    expect(rearmed.status).toBe("pending");
+    expect(rearmed.scheduledFor?.toISOString()).toBe(next.toISOString());
+    expect(rearmed.scheduledMessageId).toBe(77);
+
+    expect(store.setPaused(id, true)!.paused).toBe(true);
+    expect(store.setPaused(id, false)!.paused).toBe(false);
+    expect(store.setPaused("missing", true)).toBeUndefined();
+  });
+
+  it("deletes run history with the task", () => {
+    const { id } = store.createTask({ description: "once" });
+    store.startRun(id);
+    store.deleteTask(id);
+    expect(store.listRuns(id)).toHaveLength(0);
+  });
+});
@@ -1,3 +1,4 @@
 export * from "./knowledge.js";
+export * from "./profiles.js";
 export * from "./sessions.js";
 export * from "./tasks.js";
@@ -7,11 +7,13 @@ import { hashText, serializeEmbedding, deserializeEmbedding } from "../embedding
 
 export interface KnowledgeChunk {
   id: string;
-  source: "memory" | "session" | "learned";
+  source: "memory" | "session" | "learned" | "document";
   path: string | null;
   text: string;
   startLine?: number;
   endLine?: number;
+  /** PDF page, for documents */
+  page?: number;
   hash: string;
 }
 
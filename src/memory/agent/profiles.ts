@@ -0,0 +1,207 @@
+import type Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import { hashText, serializeEmbedding } from "../embeddings/index.js";
+
+/** Who a knowledge row is about: everyone, one Telegram user, or one chat */
+export type MemoryScope = "global" | "user" | "chat";
+
+export interface MemoryFact {
+  id: string;
+  scope: Exclude<MemoryScope, "global">;
+  subjectId: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MemoryProfile {
+  scope: Exclude<MemoryScope, "global">;
+  subjectId: string;
+  /** @username for users, title for chats, when known */
+  name: string | null;
+  facts: number;
+  updatedAt: number;
+}
+
+interface FactRow {
+  id: string;
+  scope: "user" | "chat";
+  subject_id: string;
+  text: string;
+  created_at: number;
+  updated_at: number;
+}
+
+function toFact(row: FactRow): MemoryFact {
+  return {
+    id: row.id,
+    scope: row.scope,
+    subjectId: row.subject_id,
+    text: row.text,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Per-user and per-chat memory profiles.
+ *
+ * Facts are `learned` rows in the `knowledge` table tagged with a scope and
+ * subject, so they share FTS/vector search with global knowledge while
+ * ContextBuilder only surfaces those about the current sender and chat.
+ */
+export class MemoryProfiles {
+  constructor(
+    private db: Database.Database,
+    private embedder: EmbeddingProvider,
+    private vectorEnabled: boolean
+  ) {}
+
+  async addFact(scope: MemoryFact["scope"], subjectId: string, text: string): Promise<MemoryFact> {
+    const id = `${scope}:${subjectId}:${randomUUID()}`;
+    const embedding = this.vectorEnabled ? await this.embedder.embedQuery(text) : [];
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO knowledge (id, source, text, embedding, hash, scope, subject_id)
+           VALUES (?, 'learned', ?, ?, ?, ?, ?)`
+        )
+        .run(id, text, serializeEmbedding(embedding), hashText(text), scope, subjectId);
+      this.writeVector(id, embedding);
+    })();
+
+    return this.getFact(id) as MemoryFact;
+  }
+
+  getFact(id: string): MemoryFact | null {
+    const row = this.db
+      .prepare(
+        `SELECT id, scope, subject_id, text, created_at, updated_at
+         FROM knowledge WHERE id = ? AND scope != 'global'`
+      )
+      .get(id) as FactRow | undefined;
+    return row ? toFact(row) : null;
+  }
+
+  listFacts(scope: MemoryFact["scope"], subjectId: string): MemoryFact[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, scope, subject_id, text, created_at, updated_at
+         FROM knowledge WHERE scope = ? AND subject_id = ?
+         ORDER BY created_at, rowid`
+      )
+      .all(scope, subjectId) as FactRow[];
+    return rows.map(toFact);
+  }
+
+  async updateFact(id: string, text: string): Promise<MemoryFact | null> {
+    if (!this.getFact(id)) return null;
+    const embedding = this.vectorEnabled ? await this.embedder.embedQuery(text) : [];
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE knowledge SET text = ?, embedding = ?, hash = ?, updated_at = unixepoch()
+           WHERE id = ?`
+        )
+        .run(text, serializeEmbedding(embedding), hashText(text), id);
+      this.writeVector(id, embedding);
+    })();
+
+    return this.getFact(id);
+  }
+
+  deleteFact(id: string): boolean {
+    if (!this.getFact(id)) return false;
+    this.db.transaction(() => {
+      if (this.vectorEnabled) {
+        this.db.prepare(`DELETE FROM knowledge_vec WHERE id = ?`).run(id);
+      }
+      this.db.prepare(`DELETE FROM knowledge WHERE id = ?`).run(id);
+    })();
+    return true;
+  }
+
+  /**
+   * Delete every fact about a user or chat. Returns the number removed.
+   */
+  deleteProfile(scope: MemoryFact["scope"], subjectId: string): number {
+    return this.db.transaction(() => {
+      if (this.vectorEnabled) {
+        this.db
+          .prepare(
+            `DELETE FROM knowledge_vec WHERE id IN (
+              SELECT id FROM knowledge WHERE scope = ? AND subject_id = ?
+            )`
+          )
+          .run(scope, subjectId);
+      }
+      return this.db
+        .prepare(`DELETE FROM knowledge WHERE scope = ? AND subject_id = ?`)
+        .run(scope, subjectId).changes;
+    })();
+  }
+
+  /**
+   * All users and chats that have at least one fact, most recently updated first.
+   */
+  listProfiles(): MemoryProfile[] {
+    const rows = this.db
+      .prepare(
+        `SELECT k.scope, k.subject_id, COUNT(*) AS facts, MAX(k.updated_at) AS updated_at,
+                CASE
+                  WHEN k.scope = 'user' THEN COALESCE('@' || u.username, u.first_name)
+                  ELSE c.title
+                END AS name
+         FROM knowledge k
+         LEFT JOIN tg_users u ON k.scope = 'user' AND u.id = k.subject_id
+         LEFT JOIN tg_chats c ON k.scope = 'chat' AND c.id = k.subject_id
+         WHERE k.scope != 'global'
+         GROUP BY k.scope, k.subject_id
+         ORDER BY updated_at DESC`
+      )
+      .all() as Array<{
+      scope: "user" | "chat";
+      subject_id: string;
+      facts: number;
+      updated_at: number;
+      name: string | null;
+    }>;
+
+    return rows.map((row) => ({
+      scope: row.scope,
+      subjectId: row.subject_id,
+      name: row.name,
+      facts: row.facts,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  private writeVector(id: string, embedding: number[]): void {
+    if (!this.vectorEnabled) return;
+    this.db.prepare(`DELETE FROM knowledge_vec WHERE id = ?`).run(id);
+    if (embedding.length > 0) {
+      this.db
+        .prepare(`INSERT INTO knowledge_vec (id, embedding) VALUES (?, ?)`)
+        .run(id, serializeEmbedding(embedding));
+    }
+  }
+}
+
+let instance: MemoryProfiles | null = null;
+
+/**
+ * Register the process-wide profile store (called from initializeMemory).
+ */
+export function setMemoryProfiles(profiles: MemoryProfiles): void {
+  instance = profiles;
+}
+
+/**
+ * The active profile store, or null when memory isn't initialized (CLI, tests).
+ */
+export function getMemoryProfiles(): MemoryProfiles | null {
+  return instance;
+}
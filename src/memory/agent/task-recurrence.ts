@@ -0,0 +1,332 @@
+/**
+ * Recurrence rules for scheduled tasks.
+ *
+ * A recurring task keeps a single pending `[TASK:uuid]` reminder in Saved
+ * Messages; after each run the next fire time is computed from its rule and
+ * a new reminder is scheduled.
+ */
+
+export type TaskRecurrence =
+  | { kind: "cron"; expression: string; timezone?: string }
+  | { kind: "interval"; minutes: number }
+  | { kind: "daily"; time: string; timezone?: string };
+
+const MINUTE_MS = 60 * 1000;
+/** Cron search horizon: long enough to reach the next Feb 29 */
+const CRON_SEARCH_MS = 4 * 366 * 24 * 60 * MINUTE_MS;
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value of names[0] (months start at 1, weekdays at 0) */
+  nameOffset?: number;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron semantics: if both day fields are restricted, either may match */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names) {
+    const idx = spec.names.indexOf(upper);
+    if (idx !== -1) return idx + (spec.nameOffset ?? 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepRaw, ...rest] = part.split("/");
+    if (rest.length > 0 || range === "") {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || parseInt(stepRaw, 10) < 1) {
+        throw new Error(`Invalid ${spec.name} step "${stepRaw}"`);
+      }
+      step = parseInt(stepRaw, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      start = parseValue(a, spec);
+      end = parseValue(b, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means "from 5 every 15"
+      end = stepRaw !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports `*`, ranges, lists, steps, month/weekday names and @hourly-style macros.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) =>
+    parseField(f, FIELD_SPECS[i])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !fields[2].startsWith("*"),
+    dowRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone?: string): Intl.DateTimeFormat {
+  const key = timezone ?? "";
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timezone?: string): ZonedParts {
+  const parts: ZonedParts = { month: 0, day: 0, weekday: 0, hour: 0, minute: 0 };
+  for (const p of getFormatter(timezone).formatToParts(date)) {
+    switch (p.type) {
+      case "month":
+        parts.month = parseInt(p.value, 10);
+        break;
+      case "day":
+        parts.day = parseInt(p.value, 10);
+        break;
+      case "weekday":
+        parts.weekday = DAY_NAMES.indexOf(p.value.toUpperCase());
+        break;
+      case "hour":
+        parts.hour = parseInt(p.value, 10) % 24;
+        break;
+      case "minute":
+        parts.minute = parseInt(p.value, 10);
+        break;
+    }
+  }
+  return parts;
+}
+
+function dayMatches(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dom = schedule.daysOfMonth.has(parts.day);
+  const dow = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Next minute strictly after `after` matching the cron schedule, evaluated
+ * in wall-clock time of `timezone` (system zone when omitted).
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timezone?: string): Date {
+  let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = t + CRON_SEARCH_MS;
+
+  // Step hour-by-hour until the day and hour match, then minute-by-minute.
+  // Re-reading wall-clock parts on every step keeps DST transitions correct.
+  while (t < limit) {
+    const parts = zonedParts(new Date(t), timezone);
+    if (
+      !schedule.months.has(parts.month) ||
+      !dayMatches(schedule, parts) ||
+      !schedule.hours.has(parts.hour)
+    ) {
+      t += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.minutes.has(parts.minute)) {
+      t += MINUTE_MS;
+      continue;
+    }
+    return new Date(t);
+  }
+
+  throw new Error("Cron expression never fires");
+}
+
+function assertTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+}
+
+function parseDailyTime(time: string): { hour: number; minute: number } {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  const hour = match ? parseInt(match[1], 10) : NaN;
+  const minute = match ? parseInt(match[2], 10) : NaN;
+  if (!match || hour > 23 || minute > 59) {
+    throw new Error(`Invalid daily time "${time}" (expected HH:MM)`);
+  }
+  return { hour, minute };
+}
+
+/**
+ * Validate a recurrence rule. Throws with a user-facing message when invalid.
+ */
+export function validateRecurrence(recurrence: TaskRecurrence): void {
+  switch (recurrence.kind) {
+    case "interval":
+      if (!Number.isInteger(recurrence.minutes) || recurrence.minutes < 1) {
+        throw new Error("Interval must be a whole number of minutes (>= 1)");
+      }
+      return;
+    case "daily":
+      parseDailyTime(recurrence.time);
+      if (recurrence.timezone) assertTimezone(recurrence.timezone);
+      return;
+    case "cron":
+      if (recurrence.timezone) assertTimezone(recurrence.timezone);
+      nextCronRun(parseCron(recurrence.expression), new Date(), recurrence.timezone);
+      return;
+    default:
+      throw new Error("Unknown recurrence kind");
+  }
+}
+
+/**
+ * Compute the next fire time after `after`.
+ *
+ * Intervals are anchored on `previous` (the last scheduled time) so runs
+ * don't drift; missed slots are skipped rather than replayed.
+ */
+export function nextRunAfter(recurrence: TaskRecurrence, after: Date, previous?: Date): Date {
+  switch (recurrence.kind) {
+    case "interval": {
+      const step = recurrence.minutes * MINUTE_MS;
+      if (!previous) return new Date(after.getTime() + step);
+      let next = previous.getTime() + step;
+      if (next <= after.getTime()) {
+        next += Math.ceil((after.getTime() - next + 1) / step) * step;
+      }
+      return new Date(next);
+    }
+    case "daily": {
+      const { hour, minute } = parseDailyTime(recurrence.time);
+      return nextCronRun(parseCron(`${minute} ${hour} * * *`), after, recurrence.timezone);
+    }
+    case "cron":
+      return nextCronRun(parseCron(recurrence.expression), after, recurrence.timezone);
+  }
+}
+
+/**
+ * Short human-readable description (e.g. "every 15 min", "daily at 09:00 Europe/Paris").
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  switch (recurrence.kind) {
+    case "interval":
+      return `every ${recurrence.minutes} min`;
+    case "daily":
+      return `daily at ${recurrence.time}${recurrence.timezone ? ` ${recurrence.timezone}` : ""}`;
+    case "cron":
+      return `cron "${recurrence.expression}"${recurrence.timezone ? ` ${recurrence.timezone}` : ""}`;
+  }
+}
@@ -1,8 +1,10 @@
 import type Database from "better-sqlite3";
 import { randomUUID } from "crypto";
-import type { TaskRow } from "../types/db-rows.js";
+import type { TaskRow, TaskRunRow } from "../types/db-rows.js";
+import type { TaskRecurrence } from "./task-recurrence.js";
 
 export type TaskStatus = "pending" | "in_progress" | "done" | "failed" | "cancelled";
+export type TaskRunStatus = "running" | "done" | "failed" | "skipped";
 
 export interface Task {
   id: string;
@@ -19,6 +21,64 @@ export interface Task {
   payload?: string;
   reason?: string;
   scheduledMessageId?: number;
+  recurrence?: TaskRecurrence;
+  maxRuns?: number;
+  runCount: number;
+  paused: boolean;
+}
+
+export interface TaskRun {
+  id: number;
+  taskId: string;
+  status: TaskRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  result?: string;
+  error?: string;
+}
+
+function parseRecurrence(raw: string | null): TaskRecurrence | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as TaskRecurrence;
+  } catch {
+    return undefined;
+  }
+}
+
+function rowToTask(row: TaskRow): Task {
+  return {
+    id: row.id,
+    description: row.description,
+    status: row.status as TaskStatus,
+    priority: row.priority,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at * 1000),
+    startedAt: row.started_at ? new Date(row.started_at * 1000) : undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at * 1000) : undefined,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    scheduledFor: row.scheduled_for ? new Date(row.scheduled_for * 1000) : undefined,
+    payload: row.payload ?? undefined,
+    reason: row.reason ?? undefined,
+    scheduledMessageId: row.scheduled_message_id ?? undefined,
+    recurrence: parseRecurrence(row.recurrence),
+    maxRuns: row.max_runs ?? undefined,
+    runCount: row.run_count ?? 0,
+    paused: row.paused === 1,
+  };
+}
+
+function rowToTaskRun(row: TaskRunRow): TaskRun {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    status: row.status as TaskRunStatus,
+    startedAt: new Date(row.started_at * 1000),
+    finishedAt: row.finished_at ? new Date(row.finished_at * 1000) : undefined,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+  };
 }
 
 export class TaskStore {
@@ -33,6 +93,8 @@ export class TaskStore {
     reason?: string;
     scheduledMessageId?: number;
     dependsOn?: string[];
+    recurrence?: TaskRecurrence;
+    maxRuns?: number;
   }): Task {
     const id = randomUUID();
     const now = Math.floor(Date.now() / 1000);
@@ -40,8 +102,8 @@ export class TaskStore {
     this.db
       .prepare(
         `
-      INSERT INTO tasks (id, description, status, priority, created_by, created_at, scheduled_for, payload, reason, scheduled_message_id)
-      VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tasks (id, description, status, priority, created_by, created_at, scheduled_for, payload, reason, scheduled_message_id, recurrence, max_runs)
+      VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `
       )
       .run(
@@ -53,7 +115,9 @@ export class TaskStore {
         task.scheduledFor ? Math.floor(task.scheduledFor.getTime() / 1000) : null,
         task.payload ?? null,
         task.reason ?? null,
-        task.scheduledMessageId ?? null
+        task.scheduledMessageId ?? null,
+        task.recurrence ? JSON.stringify(task.recurrence) : null,
+        task.maxRuns ?? null
       );
 
     if (task.dependsOn && task.dependsOn.length > 0) {
@@ -73,6 +137,10 @@ export class TaskStore {
       payload: task.payload,
       reason: task.reason,
       scheduledMessageId: task.scheduledMessageId,
+      recurrence: task.recurrence,
+      maxRuns: task.maxRuns,
+      runCount: 0,
+      paused: false,
     };
   }
 
@@ -152,22 +220,7 @@ export class TaskStore {
 
     if (!row) return undefined;
 
-    return {
-      id: row.id,
-      description: row.description,
-      status: row.status as TaskStatus,
-      priority: row.priority,
-      createdBy: row.created_by ?? undefined,
-      createdAt: new Date(row.created_at * 1000),
-      startedAt: row.started_at ? new Date(row.started_at * 1000) : undefined,
-      completedAt: row.completed_at ? new Date(row.completed_at * 1000) : undefined,
-      result: row.result ?? undefined,
-      error: row.error ?? undefined,
-      scheduledFor: row.scheduled_for ? new Date(row.scheduled_for * 1000) : undefined,
-      payload: row.payload ?? undefined,
-      reason: row.reason ?? undefined,
-      scheduledMessageId: row.scheduled_message_id ?? undefined,
-    };
+    return rowToTask(row);
   }
 
   listTasks(filter?: { status?: TaskStatus; createdBy?: string }): Task[] {
@@ -188,22 +241,7 @@ export class TaskStore {
 
     const rows = this.db.prepare(sql).all(...params) as TaskRow[];
 
-    return rows.map((row) => ({
-      id: row.id,
-      description: row.description,
-      status: row.status as TaskStatus,
-      priority: row.priority,
-      createdBy: row.created_by ?? undefined,
-      createdAt: new Date(row.created_at * 1000),
-      startedAt: row.started_at ? new Date(row.started_at * 1000) : undefined,
-      completedAt: row.completed_at ? new Date(row.completed_at * 1000) : undefined,
-      result: row.result ?? undefined,
-      error: row.error ?? undefined,
-      scheduledFor: row.scheduled_for ? new Date(row.scheduled_for * 1000) : undefined,
-      payload: row.payload ?? undefined,
-      reason: row.reason ?? undefined,
-      scheduledMessageId: row.scheduled_message_id ?? undefined,
-    }));
+    return rows.map(rowToTask);
   }
 
   getActiveTasks(): Task[] {
@@ -217,22 +255,7 @@ export class TaskStore {
       )
       .all() as TaskRow[];
 
-    return rows.map((row) => ({
-      id: row.id,
-      description: row.description,
-      status: row.status as TaskStatus,
-      priority: row.priority,
-      createdBy: row.created_by ?? undefined,
-      createdAt: new Date(row.created_at * 1000),
-      startedAt: row.started_at ? new Date(row.started_at * 1000) : undefined,
-      completedAt: row.completed_at ? new Date(row.completed_at * 1000) : undefined,
-      result: row.result ?? undefined,
-      error: row.error ?? undefined,
-      scheduledFor: row.scheduled_for ? new Date(row.scheduled_for * 1000) : undefined,
-      payload: row.payload ?? undefined,
-      reason: row.reason ?? undefined,
-      scheduledMessageId: row.scheduled_message_id ?? undefined,
-    }));
+    return rows.map(rowToTask);
   }
 
   deleteTask(taskId: string): boolean {
@@ -256,6 +279,81 @@ export class TaskStore {
     return this.updateTask(taskId, { status: "cancelled" });
   }
 
+  /**
+   * Pause or resume a recurring task. A paused task keeps its schedule
+   * but its runs are skipped until resumed.
+   */
+  setPaused(taskId: string, paused: boolean): Task | undefined {
+    const result = this.db
+      .prepare(`UPDATE tasks SET paused = ? WHERE id = ?`)
+      .run(paused ? 1 : 0, taskId);
+    return result.changes > 0 ? this.getTask(taskId) : undefined;
+  }
+
+  /**
+   * Re-arm a recurring task for its next run (back to pending).
+   */
+  scheduleNextRun(taskId: string, nextRun: Date, scheduledMessageId?: number): Task | undefined {
+    this.db
+      .prepare(
+        `UPDATE tasks SET status = 'pending', scheduled_for = ?, scheduled_message_id = ? WHERE id = ?`
+      )
+      .run(Math.floor(nextRun.getTime() / 1000), scheduledMessageId ?? null, taskId);
+    return this.getTask(taskId);
+  }
+
+  /**
+   * Record the start of a task execution. Returns the run id.
+   */
+  startRun(taskId: string, status: TaskRunStatus = "running"): number {
+    const now = Math.floor(Date.now() / 1000);
+    const result = this.db
+      .prepare(
+        `INSERT INTO task_runs (task_id, status, started_at, finished_at) VALUES (?, ?, ?, ?)`
+      )
+      .run(taskId, status, now, status === "running" ? null : now);
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Close a run with its outcome. Completed and failed runs count toward max_runs.
+   */
+  finishRun(
+    runId: number,
+    status: "done" | "failed",
+    outcome: { result?: string; error?: string } = {}
+  ): void {
+    const now = Math.floor(Date.now() / 1000);
+    this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE task_runs SET status = ?, finished_at = ?, result = ?, error = ?
+           WHERE id = ? AND status = 'running'`
+        )
+        .run(status, now, outcome.result ?? null, outcome.error ?? null, runId);
+      if (result.changes > 0) {
+        this.db
+          .prepare(
+            `UPDATE tasks SET run_count = run_count + 1
+             WHERE id = (SELECT task_id FROM task_runs WHERE id = ?)`
+          )
+          .run(runId);
+      }
+    })();
+  }
+
+  /**
+   * Execution history for a task, newest first.
+   */
+  listRuns(taskId: string, limit = 20): TaskRun[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM task_runs WHERE task_id = ? ORDER BY started_at DESC, id DESC LIMIT ?`
+      )
+      .all(taskId, limit) as TaskRunRow[];
+    return rows.map(rowToTaskRun);
+  }
+
   /**
    * Check if adding a dependency would create a cycle.
    * Uses BFS to traverse the dependency graph.
@@ -8,6 +8,7 @@ import {
   type ToolCall,
 } from "@mariozechner/pi-ai";
 import { getUtilityModel } from "../agent/client.js";
+import { measureLlmCall } from "../metrics/index.js";
 import type { SupportedProvider } from "../config/providers.js";
 import {
   CHARS_PER_TOKEN_ESTIMATE,
@@ -204,10 +205,12 @@ Be specific but concise. Preserve critical information.`;
       ],
     };
 
-    const response = await complete(model, context, {
-      apiKey: params.apiKey,
-      maxTokens,
-    });
+    const response = await measureLlmCall(model, () =>
+      complete(model, context, {
+        apiKey: params.apiKey,
+        maxTokens,
+      })
+    );
 
     const textContent = response.content.find((block) => block.type === "text");
     const summary = textContent?.type === "text" ? textContent.text : "";
@@ -299,10 +302,12 @@ ${partialSummaries.map((s, i) => `Part ${i + 1}:\n${s}`).join("\n\n---\n\n")}`,
     ],
   };
 
-  const mergeResponse = await complete(model, mergeContext, {
-    apiKey: params.apiKey,
-    maxTokens: params.maxSummaryTokens ?? DEFAULT_SUMMARY_FALLBACK_TOKENS,
-  });
+  const mergeResponse = await measureLlmCall(model, () =>
+    complete(model, mergeContext, {
+      apiKey: params.apiKey,
+      maxTokens: params.maxSummaryTokens ?? DEFAULT_SUMMARY_FALLBACK_TOKENS,
+    })
+  );
 
   const textContent = mergeResponse.content.find((block) => block.type === "text");
   const merged = textContent?.type === "text" ? textContent.text : "";
@@ -0,0 +1,266 @@
+import type Database from "better-sqlite3";
+import { createHash } from "crypto";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Audit");
+
+export type AuditSource = "telegram" | "webui" | "cli" | "agent";
+
+export const AUDIT_SOURCES: AuditSource[] = ["telegram", "webui", "cli", "agent"];
+
+/** `prev_hash` of the first entry */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Who performed an action. `actor` is prefixed with where the identity comes
+ * from: "telegram:<user id>", "webui:<username>", "cli:<os user>", "system".
+ */
+export interface AuditActor {
+  source: AuditSource;
+  actor: string;
+}
+
+export interface AuditEvent extends AuditActor {
+  /** Dotted action name, e.g. "policy.dm", "tool.enabled", "config.set", "spend.ton_send" */
+  action: string;
+  /** What was acted on (config key, tool name, chat ID, ...) */
+  target?: string | null;
+  /** Values before and after the change; secrets must be masked by the caller */
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEntry extends AuditActor {
+  id: number;
+  createdAt: number;
+  action: string;
+  target: string | null;
+  before: unknown;
+  after: unknown;
+  details: Record<string, unknown> | null;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilter {
+  source?: AuditSource;
+  /** Exact actor, e.g. "webui:alice" */
+  actor?: string;
+  /** Action or action prefix ("policy" matches "policy.dm") */
+  action?: string;
+  /** Substring of target, actor or action */
+  search?: string;
+  /** Unix seconds, inclusive */
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  checked: number;
+  /** First entry whose hash or link doesn't match, if any */
+  brokenAt: number | null;
+}
+
+interface AuditRow {
+  id: number;
+  created_at: number;
+  source: AuditSource;
+  actor: string;
+  action: string;
+  target: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  details_json: string | null;
+  prev_hash: string;
+  hash: string;
+}
+
+type HashedFields = Omit<AuditRow, "id" | "hash">;
+
+/**
+ * SHA-256 over the previous entry's hash and every stored column, so editing,
+ * deleting or reordering any row breaks the chain from that point on.
+ */
+export function auditHash(row: HashedFields): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        row.prev_hash,
+        row.created_at,
+        row.source,
+        row.actor,
+        row.action,
+        row.target,
+        row.before_json,
+        row.after_json,
+        row.details_json,
+      ])
+    )
+    .digest("hex");
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function fromJson(text: string | null): unknown {
+  return text === null ? null : JSON.parse(text);
+}
+
+function toEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    source: row.source,
+    actor: row.actor,
+    action: row.action,
+    target: row.target,
+    before: fromJson(row.before_json),
+    after: fromJson(row.after_json),
+    details: fromJson(row.details_json) as Record<string, unknown> | null,
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
+}
+
+/**
+ * Append-only, hash-chained record of privileged actions: admin commands,
+ * tool and config changes, WebUI writes and fund-moving tools.
+ *
+ * UPDATE and DELETE on `audit_log` are rejected by triggers; `verify()`
+ * recomputes the chain to detect rows changed outside of SQLite's checks.
+ */
+export class AuditLog {
+  constructor(private db: Database.Database) {}
+
+  record(event: AuditEvent, createdAt = Math.floor(Date.now() / 1000)): AuditEntry {
+    // IMMEDIATE so a CLI process and the agent can't both extend the same head
+    return this.db
+      .transaction(() => {
+        const head = this.db
+          .prepare(`SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1`)
+          .get() as { hash: string } | undefined;
+
+        const fields: HashedFields = {
+          created_at: createdAt,
+          source: event.source,
+          actor: event.actor,
+          action: event.action,
+          target: event.target ?? null,
+          before_json: toJson(event.before),
+          after_json: toJson(event.after),
+          details_json: toJson(event.details),
+          prev_hash: head?.hash ?? AUDIT_GENESIS_HASH,
+        };
+        const hash = auditHash(fields);
+
+        const { lastInsertRowid } = this.db
+          .prepare(
+            `INSERT INTO audit_log (created_at, source, actor, action, target, before_json, after_json, details_json, prev_hash, hash)
+             VALUES (@created_at, @source, @actor, @action, @target, @before_json, @after_json, @details_json, @prev_hash, @hash)`
+          )
+          .run({ ...fields, hash });
+
+        return toEntry({ ...fields, id: Number(lastInsertRowid), hash });
+      })
+      .immediate();
+  }
+
+  /**
+   * Entries matching the filter, newest first, with the total match count.
+   */
+  list(filter: AuditFilter = {}): { entries: AuditEntry[]; total: number } {
+    const where: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.source) {
+      where.push("source = @source");
+      params.source = filter.source;
+    }
+    if (filter.actor) {
+      where.push("actor = @actor");
+      params.actor = filter.actor;
+    }
+    if (filter.action) {
+      where.push("(action = @action OR action LIKE @actionPrefix)");
+      params.action = filter.action;
+      params.actionPrefix = `${filter.action}.%`;
+    }
+    if (filter.search) {
+      where.push("(target LIKE @search OR actor LIKE @search OR action LIKE @search)");
+      params.search = `%${filter.search}%`;
+    }
+    if (filter.since !== undefined) {
+      where.push("created_at >= @since");
+      params.since = filter.since;
+    }
+    if (filter.until !== undefined) {
+      where.push("created_at <= @until");
+      params.until = filter.until;
+    }
+
+    const clause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM audit_log ${clause}`)
+      .get(params) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_log ${clause} ORDER BY id DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: filter.limit ?? 100, offset: filter.offset ?? 0 }) as AuditRow[];
+
+    return { entries: rows.map(toEntry), total };
+  }
+
+  /**
+   * Recompute the hash chain from the first entry.
+   */
+  verify(): AuditVerification {
+    let prevHash = AUDIT_GENESIS_HASH;
+    let checked = 0;
+
+    for (const row of this.db
+      .prepare(`SELECT * FROM audit_log ORDER BY id`)
+      .iterate() as IterableIterator<AuditRow>) {
+      if (row.prev_hash !== prevHash || auditHash(row) !== row.hash) {
+        return { ok: false, checked, brokenAt: row.id };
+      }
+      prevHash = row.hash;
+      checked++;
+    }
+
+    return { ok: true, checked, brokenAt: null };
+  }
+}
+
+let instance: AuditLog | null = null;
+
+/**
+ * Create the process-wide audit log (called once at startup).
+ */
+export function initAuditLog(db: Database.Database): AuditLog {
+  instance = new AuditLog(db);
+  return instance;
+}
+
+/**
+ * The active audit log, or null when the agent isn't running (CLI, tests).
+ */
+export function getAuditLog(): AuditLog | null {
+  return instance;
+}
+
+/**
+ * Record an event in the active audit log. Never throws: a failed audit
+ * write is logged, not allowed to break the action being audited.
+ */
+export function audit(event: AuditEvent): void {
+  if (!instance) return;
+  try {
+    instance.record(event);
+  } catch (error) {
+    log.error({ err: error }, `Failed to audit ${event.action}`);
+  }
+}
@@ -7,6 +7,8 @@ import { saveSessionMemory } from "../session/memory-hook.js";
 import { encodingForModel } from "js-tiktoken";
 import type { SupportedProvider } from "../config/providers.js";
 import { createLogger } from "../utils/logger.js";
+import { compactions, compactionDuration } from "../metrics/index.js";
+import { withSpan } from "../tracing/tracer.js";
 import {
   COMPACTION_MAX_MESSAGES,
   COMPACTION_KEEP_RECENT,
@@ -291,28 +293,44 @@ export async function compactAndSaveTranscript(
   utilityModel?: string
 ): Promise<string> {
   const newSessionId = randomUUID();
+  const stopTimer = compactionDuration.startTimer();
 
   log.info(`Creating compacted transcript: ${sessionId} → ${newSessionId}`);
 
-  if (chatId) {
-    await saveSessionMemory({
-      oldSessionId: sessionId,
-      newSessionId,
-      context,
-      chatId,
-      apiKey,
-      provider,
-      utilityModel,
-    });
-  }
+  return withSpan(
+    "memory.compaction",
+    { "session.id": sessionId, "compaction.messages_before": context.messages.length },
+    async (span) => {
+      if (chatId) {
+        await saveSessionMemory({
+          oldSessionId: sessionId,
+          newSessionId,
+          context,
+          chatId,
+          apiKey,
+          provider,
+          utilityModel,
+        });
+      }
 
-  const compactedContext = await compactContext(context, config, apiKey, provider, utilityModel);
+      const compactedContext = await compactContext(
+        context,
+        config,
+        apiKey,
+        provider,
+        utilityModel
+      );
 
-  for (const message of compactedContext.messages) {
-    appendToTranscript(newSessionId, message);
-  }
+      for (const message of compactedContext.messages) {
+        appendToTranscript(newSessionId, message);
+      }
 
-  return newSessionId;
+      span.setAttribute("compaction.messages_after", compactedContext.messages.length);
+      stopTimer();
+      compactions.inc();
+      return newSessionId;
+    }
+  );
 }
 
 export class CompactionManager {
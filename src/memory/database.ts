@@ -79,7 +79,10 @@ export class MemoryDatabase {
       sqliteVec.load(this.db);
       this.db.prepare("SELECT vec_version() as vec_version").get();
       const dims = this.config.vectorDimensions ?? 512;
-      ensureVectorTables(this.db, dims);
+      // 0 = detected on warmup; syncVectorDimensions() creates the tables then
+      if (dims > 0) {
+        ensureVectorTables(this.db, dims);
+      }
       this.vectorReady = true;
     } catch (error) {
       log.warn(`sqlite-vec not available, vector search disabled: ${(error as Error).message}`);
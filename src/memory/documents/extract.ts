@@ -0,0 +1,176 @@
+import { execFile } from "child_process";
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { promisify } from "util";
+import { DOCUMENT_EXTRACT_TIMEOUT_MS } from "../../constants/timeouts.js";
+
+const execFileAsync = promisify(execFile);
+
+/** File types the document indexer can read */
+export const DOCUMENT_EXTENSIONS = [".md", ".markdown", ".txt", ".csv", ".html", ".htm", ".pdf"];
+
+/**
+ * Plain text of a document, or of one PDF page.
+ * Line numbers of chunks are counted within a section.
+ */
+export interface DocumentSection {
+  text: string;
+  /** 1-based PDF page */
+  page?: number;
+}
+
+export interface ExtractOptions {
+  /** pdftotext (poppler-utils) binary */
+  pdftotextBinary: string;
+}
+
+export function isDocumentFile(path: string): boolean {
+  return DOCUMENT_EXTENSIONS.includes(extname(path).toLowerCase());
+}
+
+/**
+ * Extract plain text from a workspace document.
+ * Throws on unsupported types and on extraction failures.
+ */
+export async function extractDocument(
+  absPath: string,
+  options: ExtractOptions
+): Promise<DocumentSection[]> {
+  const ext = extname(absPath).toLowerCase();
+  switch (ext) {
+    case ".md":
+    case ".markdown":
+    case ".txt":
+      return [{ text: readFileSync(absPath, "utf-8") }];
+    case ".csv":
+      return [{ text: csvToText(readFileSync(absPath, "utf-8")) }];
+    case ".html":
+    case ".htm":
+      return [{ text: htmlToText(readFileSync(absPath, "utf-8")) }];
+    case ".pdf":
+      return extractPdf(absPath, options.pdftotextBinary);
+    default:
+      throw new Error(`Unsupported document type: ${ext || absPath}`);
+  }
+}
+
+/**
+ * One section per page: pdftotext separates pages with form feeds.
+ */
+async function extractPdf(absPath: string, binary: string): Promise<DocumentSection[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(binary, ["-enc", "UTF-8", absPath, "-"], {
+      timeout: DOCUMENT_EXTRACT_TIMEOUT_MS,
+      maxBuffer: 64 * 1024 * 1024,
+    }));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      throw new Error(
+        `${binary} not found (install poppler-utils or set documents.pdftotext_binary)`
+      );
+    }
+    throw error;
+  }
+
+  const pages = stdout.split("\f");
+  // Output ends with a form feed after the last page
+  if (pages.length > 1 && pages[pages.length - 1].trim() === "") pages.pop();
+  return pages.map((text, i) => ({ text, page: i + 1 }));
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Readable text from HTML: drops scripts, styles and comments, and keeps
+ * block structure (paragraphs, headings, list items, table rows) as lines.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<h([1-6])\b[^>]*>/gi, (_m, level: string) => `\n\n${"#".repeat(Number(level))} `)
+    .replace(/<(br|hr)\b[^>]*>/gi, "\n")
+    .replace(/<\/(td|th)\s*>/gi, " | ")
+    .replace(
+      /<\/?(p|div|section|article|header|footer|main|nav|aside|h[1-6]|ul|ol|table|tr|pre|blockquote|title)\b[^>]*>/gi,
+      "\n"
+    )
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Split one CSV record, honouring quoted fields */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Rows as "column: value" lines so each chunk is readable on its own.
+ * Line N of the output is line N of the file.
+ */
+export function csvToText(csv: string): string {
+  const lines = csv.replace(/\r\n/g, "\n").split("\n");
+  const header = parseCsvLine(lines[0] ?? "");
+
+  return lines
+    .map((line, i) => {
+      if (i === 0 || line.trim() === "") return line;
+      return parseCsvLine(line)
+        .map((value, col) => (header[col] ? `${header[col]}: ${value}` : value))
+        .filter((part) => part.length > 0)
+        .join("; ");
+    })
+    .join("\n");
+}
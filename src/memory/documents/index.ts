@@ -0,0 +1,3 @@
+export * from "./extract.js";
+export * from "./indexer.js";
+export * from "./watcher.js";
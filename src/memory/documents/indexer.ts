@@ -0,0 +1,353 @@
+import type Database from "better-sqlite3";
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { isAbsolute, join, relative, resolve, sep } from "path";
+import type { DocumentsConfig } from "../../config/schema.js";
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import { hashText, serializeEmbedding } from "../embeddings/index.js";
+import type { KnowledgeChunk } from "../agent/knowledge.js";
+import { extractDocument, isDocumentFile, type DocumentSection } from "./extract.js";
+import { getErrorMessage } from "../../utils/errors.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Memory");
+
+export interface DocumentInfo {
+  /** Relative to the workspace */
+  path: string;
+  hash: string;
+  size: number;
+  pages: number | null;
+  chunks: number;
+  error: string | null;
+  indexedAt: number;
+}
+
+export interface DocumentIndexResult {
+  indexed: number;
+  skipped: number;
+  removed: number;
+  failed: number;
+}
+
+/** Break lines longer than `max` at whitespace where possible */
+function splitLongLine(line: string, max: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > max) {
+    let cut = rest.lastIndexOf(" ", max);
+    if (cut < max / 2) cut = max;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Split sections into chunks of about `size` characters on line boundaries.
+ * Each chunk after the first repeats up to `overlap` characters of trailing
+ * lines from the previous one, so facts spanning a boundary stay searchable.
+ */
+export function chunkDocument(
+  sections: DocumentSection[],
+  path: string,
+  size: number,
+  overlap: number
+): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+
+  for (const section of sections) {
+    const units = section.text
+      .replace(/\r\n/g, "\n")
+      .split("\n")
+      .flatMap((line, i) => splitLongLine(line, size).map((text) => ({ text, line: i + 1 })));
+
+    let start = 0;
+    while (start < units.length) {
+      let end = start;
+      let length = 0;
+      while (end < units.length && (end === start || length + units[end].text.length + 1 <= size)) {
+        length += units[end].text.length + 1;
+        end++;
+      }
+
+      const text = units
+        .slice(start, end)
+        .map((u) => u.text)
+        .join("\n")
+        .trim();
+      if (text.length > 0) {
+        chunks.push({
+          id: hashText(`document:${path}:${chunks.length}`),
+          source: "document",
+          path,
+          text,
+          startLine: units[start].line,
+          endLine: units[end - 1].line,
+          page: section.page,
+          hash: hashText(text),
+        });
+      }
+
+      if (end >= units.length) break;
+
+      // Step back over trailing lines for the overlap, always moving forward
+      let next = end;
+      let overlapLength = 0;
+      while (next > start + 1 && overlapLength + units[next - 1].text.length + 1 <= overlap) {
+        overlapLength += units[next - 1].text.length + 1;
+        next--;
+      }
+      start = next;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Indexes documents from configured workspace folders (PDF, HTML, Markdown,
+ * text, CSV) into the knowledge base as `document` chunks with their path,
+ * line range and PDF page.
+ *
+ * Files are re-indexed only when their content hash changes; the `documents`
+ * table keeps one row per file with its hash, chunk count and last error.
+ */
+export class DocumentIndexer {
+  private workspaceDir: string;
+
+  constructor(
+    private db: Database.Database,
+    workspaceDir: string,
+    private embedder: EmbeddingProvider,
+    private vectorEnabled: boolean,
+    private config: DocumentsConfig
+  ) {
+    this.workspaceDir = resolve(workspaceDir);
+  }
+
+  /** Absolute paths of the configured folders inside the workspace */
+  getRoots(): string[] {
+    return this.config.paths
+      .map((p) => resolve(this.workspaceDir, p))
+      .filter((p) => p === this.workspaceDir || p.startsWith(this.workspaceDir + sep));
+  }
+
+  /** Whether a file is inside a configured folder and of a supported type */
+  isIndexable(absPath: string): boolean {
+    const path = resolve(absPath);
+    return (
+      isDocumentFile(path) &&
+      !relative(this.workspaceDir, path)
+        .split(sep)
+        .some((s) => s.startsWith(".")) &&
+      this.getRoots().some((root) => path.startsWith(root + sep))
+    );
+  }
+
+  /**
+   * Index new and changed files, and drop documents whose file is gone.
+   */
+  async indexAll(): Promise<DocumentIndexResult> {
+    const result: DocumentIndexResult = { indexed: 0, skipped: 0, removed: 0, failed: 0 };
+    const seen = new Set<string>();
+
+    for (const file of this.listFiles()) {
+      seen.add(this.toRelative(file));
+      try {
+        if (await this.indexFile(file)) {
+          result.indexed++;
+        } else {
+          result.skipped++;
+        }
+      } catch {
+        result.failed++;
+      }
+    }
+
+    for (const doc of this.listDocuments()) {
+      if (!seen.has(doc.path)) {
+        this.removeFile(doc.path);
+        result.removed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Index one file if its content changed. Returns true when (re)indexed.
+   * Extraction errors are recorded on the document row and rethrown.
+   */
+  async indexFile(absPath: string): Promise<boolean> {
+    if (!existsSync(absPath) || !this.isIndexable(absPath)) return false;
+
+    const relPath = this.toRelative(absPath);
+    const size = statSync(absPath).size;
+    if (size > this.config.max_file_mb * 1024 * 1024) {
+      log.warn(`Skipping ${relPath}: larger than ${this.config.max_file_mb} MB`);
+      return false;
+    }
+
+    const hash = createHash("sha256").update(readFileSync(absPath)).digest("hex");
+    const existing = this.db
+      .prepare(`SELECT hash, error FROM documents WHERE path = ?`)
+      .get(relPath) as { hash: string; error: string | null } | undefined;
+    // Failed extractions are retried (e.g. pdftotext installed since)
+    if (existing?.hash === hash && !existing.error) return false;
+
+    let sections: DocumentSection[];
+    try {
+      sections = await extractDocument(absPath, {
+        pdftotextBinary: this.config.pdftotext_binary,
+      });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      log.warn(`Could not extract ${relPath}: ${message}`);
+      this.db.transaction(() => {
+        this.deleteChunks(relPath);
+        this.upsertDocument(relPath, hash, size, null, 0, message);
+      })();
+      throw error;
+    }
+
+    const chunks = chunkDocument(
+      sections,
+      relPath,
+      this.config.chunk_size,
+      Math.min(this.config.chunk_overlap, this.config.chunk_size / 2)
+    );
+    const embeddings =
+      chunks.length > 0 ? await this.embedder.embedBatch(chunks.map((c) => c.text)) : [];
+    const pages = sections.some((s) => s.page !== undefined) ? sections.length : null;
+
+    this.db.transaction(() => {
+      this.deleteChunks(relPath);
+
+      const insert = this.db.prepare(`
+        INSERT INTO knowledge (id, source, path, text, embedding, start_line, end_line, page, hash)
+        VALUES (?, 'document', ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const insertVec = this.vectorEnabled
+        ? this.db.prepare(`INSERT INTO knowledge_vec (id, embedding) VALUES (?, ?)`)
+        : null;
+
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        const embedding = embeddings[i] ?? [];
+        insert.run(
+          chunk.id,
+          chunk.path,
+          chunk.text,
+          serializeEmbedding(embedding),
+          chunk.startLine,
+          chunk.endLine,
+          chunk.page ?? null,
+          chunk.hash
+        );
+        if (insertVec && embedding.length > 0) {
+          insertVec.run(chunk.id, serializeEmbedding(embedding));
+        }
+      }
+
+      this.upsertDocument(relPath, hash, size, pages, chunks.length, null);
+    })();
+
+    log.info(`📄 Indexed ${relPath} (${chunks.length} chunks${pages ? `, ${pages} pages` : ""})`);
+    return true;
+  }
+
+  /**
+   * Forget a document and its chunks (absolute or workspace-relative path).
+   */
+  removeFile(path: string): boolean {
+    const relPath = isAbsolute(path) ? this.toRelative(path) : path;
+    return this.db.transaction(() => {
+      this.deleteChunks(relPath);
+      return this.db.prepare(`DELETE FROM documents WHERE path = ?`).run(relPath).changes > 0;
+    })();
+  }
+
+  listDocuments(): DocumentInfo[] {
+    const rows = this.db
+      .prepare(
+        `SELECT path, hash, size, pages, chunks, error, indexed_at FROM documents ORDER BY path`
+      )
+      .all() as Array<{
+      path: string;
+      hash: string;
+      size: number;
+      pages: number | null;
+      chunks: number;
+      error: string | null;
+      indexed_at: number;
+    }>;
+
+    return rows.map((row) => ({
+      path: row.path,
+      hash: row.hash,
+      size: row.size,
+      pages: row.pages,
+      chunks: row.chunks,
+      error: row.error,
+      indexedAt: row.indexed_at,
+    }));
+  }
+
+  private toRelative(absPath: string): string {
+    return relative(this.workspaceDir, resolve(absPath)).split(sep).join("/");
+  }
+
+  private listFiles(): string[] {
+    const files: string[] = [];
+    const walk = (dir: string) => {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith(".")) continue;
+        const absPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(absPath);
+        } else if (entry.isFile() && isDocumentFile(entry.name)) {
+          files.push(absPath);
+        }
+      }
+    };
+
+    for (const root of this.getRoots()) {
+      if (existsSync(root) && statSync(root).isDirectory()) walk(root);
+    }
+    return [...new Set(files)];
+  }
+
+  private deleteChunks(relPath: string): void {
+    if (this.vectorEnabled) {
+      this.db
+        .prepare(
+          `DELETE FROM knowledge_vec WHERE id IN (
+            SELECT id FROM knowledge WHERE path = ? AND source = 'document'
+          )`
+        )
+        .run(relPath);
+    }
+    this.db.prepare(`DELETE FROM knowledge WHERE path = ? AND source = 'document'`).run(relPath);
+  }
+
+  private upsertDocument(
+    relPath: string,
+    hash: string,
+    size: number,
+    pages: number | null,
+    chunks: number,
+    error: string | null
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO documents (path, hash, size, pages, chunks, error, indexed_at)
+         VALUES (?, ?, ?, ?, ?, ?, unixepoch())
+         ON CONFLICT(path) DO UPDATE SET
+           hash = excluded.hash, size = excluded.size, pages = excluded.pages,
+           chunks = excluded.chunks, error = excluded.error, indexed_at = excluded.indexed_at`
+      )
+      .run(relPath, hash, size, pages, chunks, error);
+  }
+}
@@ -0,0 +1,85 @@
+import chokidar from "chokidar";
+import { existsSync } from "fs";
+import type { DocumentIndexer } from "./indexer.js";
+import { getErrorMessage } from "../../utils/errors.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Memory");
+
+const INDEX_DEBOUNCE_MS = 1000;
+
+/**
+ * Re-indexes workspace documents when they are added, changed or deleted
+ * (workspace_write, WebUI uploads, files copied in by hand).
+ */
+export class DocumentWatcher {
+  private watcher: ReturnType<typeof chokidar.watch> | null = null;
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private indexer: DocumentIndexer) {}
+
+  start(): void {
+    const roots = this.indexer.getRoots();
+    if (roots.length === 0) return;
+
+    this.watcher = chokidar.watch(roots, {
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 500,
+        pollInterval: 100,
+      },
+      ignored: (path: string) => /(^|[/\\])\./.test(path),
+      followSymlinks: false,
+      ignorePermissionErrors: true,
+    });
+
+    const schedule = (path: string) => {
+      if (!this.indexer.isIndexable(path)) return;
+      this.scheduleIndex(path);
+    };
+    this.watcher.on("add", schedule);
+    this.watcher.on("change", schedule);
+    this.watcher.on("unlink", schedule);
+
+    this.watcher.on("error", (err: unknown) => {
+      log.error(`Document watcher error: ${getErrorMessage(err)}`);
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private scheduleIndex(path: string): void {
+    const existing = this.timers.get(path);
+    if (existing) clearTimeout(existing);
+
+    this.timers.set(
+      path,
+      setTimeout(() => {
+        this.timers.delete(path);
+        this.sync(path).catch((err) => {
+          log.warn(`Document indexing failed for ${path}: ${getErrorMessage(err)}`);
+        });
+      }, INDEX_DEBOUNCE_MS)
+    );
+  }
+
+  private async sync(path: string): Promise<void> {
+    if (existsSync(path)) {
+      await this.indexer.indexFile(path);
+      return;
+    }
+    if (this.indexer.removeFile(path)) {
+      log.info(`📄 Removed ${path} from knowledge`);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import type Database from "better-sqlite3";
 import type { EmbeddingProvider } from "./provider.js";
 import { hashText, serializeEmbedding, deserializeEmbedding } from "./index.js";
 import { createLogger } from "../../utils/logger.js";
+import { embeddingCacheLookups } from "../../metrics/index.js";
 import {
   EMBEDDING_CACHE_MAX_ENTRIES,
   EMBEDDING_CACHE_TTL_DAYS,
@@ -16,7 +17,6 @@ import {
 export class CachedEmbeddingProvider implements EmbeddingProvider {
   readonly id: string;
   readonly model: string;
-  readonly dimensions: number;
 
   private static readonly log = createLogger("Memory");
   private hits = 0;
@@ -29,15 +29,22 @@ export class CachedEmbeddingProvider implements EmbeddingProvider {
   ) {
     this.id = inner.id;
     this.model = inner.model;
-    this.dimensions = inner.dimensions;
+  }
+
+  /** Read through: some providers only know their size after warmup */
+  get dimensions(): number {
+    return this.inner.dimensions;
   }
 
   private cacheGet(hash: string): { embedding: Buffer | string } | undefined {
+    // dims is part of the key: the same model can be asked for a different size
     return this.db
       .prepare(
-        `SELECT embedding FROM embedding_cache WHERE hash = ? AND model = ? AND provider = ?`
+        `SELECT embedding FROM embedding_cache WHERE hash = ? AND model = ? AND provider = ? AND dims = ?`
       )
-      .get(hash, this.model, this.id) as { embedding: Buffer | string } | undefined;
+      .get(hash, this.model, this.id, this.dimensions) as
+      | { embedding: Buffer | string }
+      | undefined;
   }
 
   private cachePut(hash: string, blob: Buffer): void {
@@ -67,12 +74,14 @@ export class CachedEmbeddingProvider implements EmbeddingProvider {
     const row = this.cacheGet(hash);
     if (row) {
       this.hits++;
+      embeddingCacheLookups.inc({ result: "hit" });
       this.cacheTouch(hash);
       this.tick();
       return deserializeEmbedding(row.embedding);
     }
 
     this.misses++;
+    embeddingCacheLookups.inc({ result: "miss" });
     const embedding = await this.inner.embedQuery(text);
     this.cachePut(hash, serializeEmbedding(embedding));
     this.tick();
@@ -93,10 +102,12 @@ export class CachedEmbeddingProvider implements EmbeddingProvider {
 
       if (row) {
         this.hits++;
+        embeddingCacheLookups.inc({ result: "hit" });
         this.cacheTouch(hashes[i]);
         results[i] = deserializeEmbedding(row.embedding);
       } else {
         this.misses++;
+        embeddingCacheLookups.inc({ result: "miss" });
         missIndices.push(i);
         missTexts.push(texts[i]);
       }
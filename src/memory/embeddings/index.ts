@@ -3,10 +3,12 @@ import type { EmbeddingProvider, EmbeddingProviderConfig } from "./provider.js";
 import { NoopEmbeddingProvider } from "./provider.js";
 import { AnthropicEmbeddingProvider } from "./anthropic.js";
 import { LocalEmbeddingProvider } from "./local.js";
+import { OpenAICompatibleEmbeddingProvider } from "./openai-compatible.js";
 
 export * from "./provider.js";
 export * from "./anthropic.js";
 export * from "./local.js";
+export * from "./openai-compatible.js";
 export * from "./cached.js";
 
 export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
@@ -25,6 +27,18 @@ export function createEmbeddingProvider(config: EmbeddingProviderConfig): Embedd
         model: config.model,
       });
 
+    case "openai-compatible":
+      if (!config.baseUrl) {
+        throw new Error("base_url required for openai-compatible embedding provider");
+      }
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey,
+        dimensions: config.dimensions,
+        batchSize: config.batchSize,
+      });
+
     case "none":
       return new NoopEmbeddingProvider();
 
@@ -0,0 +1,111 @@
+import type { EmbeddingProvider } from "./provider.js";
+import { fetchWithTimeout } from "../../utils/fetch.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Memory");
+
+/**
+ * Embeddings from any OpenAI-compatible `/embeddings` endpoint
+ * (OpenAI, Ollama, llama.cpp server, vLLM, LM Studio...).
+ *
+ * When `dimensions` isn't configured it is detected on warmup from the
+ * length of a probe embedding.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "openai-compatible";
+  readonly model: string;
+  dimensions: number;
+  private baseUrl: string;
+  private apiKey?: string;
+  private batchSize: number;
+  private requestDimensions: boolean;
+  private _disabled = false;
+
+  constructor(config: {
+    baseUrl: string;
+    model?: string;
+    apiKey?: string;
+    dimensions?: number;
+    batchSize?: number;
+  }) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.model = config.model || "nomic-embed-text";
+    this.apiKey = config.apiKey;
+    this.dimensions = config.dimensions ?? 0;
+    this.requestDimensions = config.dimensions !== undefined;
+    this.batchSize = config.batchSize ?? 64;
+  }
+
+  /**
+   * Check the server and detect the embedding size.
+   * If the server is unreachable, the provider returns empty embeddings (FTS5-only search).
+   */
+  async warmup(): Promise<boolean> {
+    try {
+      const [probe] = await this.embed(["warmup"]);
+      if (!probe?.length) throw new Error("empty embedding");
+      if (this.dimensions === 0) {
+        this.dimensions = probe.length;
+      } else if (probe.length !== this.dimensions) {
+        throw new Error(
+          `model returned ${probe.length} dimensions, embedding.dimensions is ${this.dimensions}`
+        );
+      }
+      log.info(`Embedding server ready: ${this.model} (${this.dimensions} dims)`);
+      return true;
+    } catch (err) {
+      log.warn(
+        `Embedding server at ${this.baseUrl} unavailable (${(err as Error).message}) — falling back to FTS5-only search`
+      );
+      this._disabled = true;
+      return false;
+    }
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    if (this._disabled) return [];
+    const result = await this.embed([text]);
+    return result[0] ?? [];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (this._disabled) return [];
+    if (texts.length === 0) return [];
+
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      results.push(...(await this.embed(batch)));
+    }
+    return results;
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetchWithTimeout(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        input: texts,
+        model: this.model,
+        ...(this.requestDimensions ? { dimensions: this.dimensions } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Embedding API error: ${response.status} ${error}`);
+    }
+
+    const data = (await response.json()) as {
+      data: Array<{ embedding: number[]; index?: number }>;
+    };
+
+    // Servers may return items out of order; `index` is authoritative when present
+    return [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding);
+  }
+}
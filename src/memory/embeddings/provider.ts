@@ -11,10 +11,14 @@ export interface EmbeddingProvider {
 }
 
 export interface EmbeddingProviderConfig {
-  provider: "anthropic" | "local" | "none";
+  provider: "anthropic" | "local" | "openai-compatible" | "none";
   model?: string;
   apiKey?: string;
   dimensions?: number;
+  /** openai-compatible: server URL (e.g. http://localhost:11434/v1) */
+  baseUrl?: string;
+  /** openai-compatible: texts per request */
+  batchSize?: number;
 }
 
 export class NoopEmbeddingProvider implements EmbeddingProvider {
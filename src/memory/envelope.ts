@@ -14,6 +14,7 @@ export interface EnvelopeParams {
   hasMedia?: boolean;
   mediaType?: string;
   messageId?: number; // For media download reference
+  transcript?: string; // Speech-to-text of a voice/audio message
 }
 
 function formatElapsed(elapsedMs: number): string {
@@ -98,7 +99,11 @@ export function formatMessageEnvelope(params: EnvelopeParams): string {
 
   const header = `[${parts.join(" ")}]`;
 
-  const safeBody = params.body.replace(/<\/?user_message>/gi, "");
+  // A transcript is what the user said, so it goes inside the user_message tags
+  const spoken = params.transcript
+    ? [params.body, `(transcribed) ${params.transcript}`].filter(Boolean).join("\n")
+    : params.body;
+  const safeBody = spoken.replace(/<\/?user_message>/gi, "");
   let body = params.isGroup
     ? `${senderLabel}: <user_message>${safeBody}</user_message>`
     : `<user_message>${safeBody}</user_message>`;
@@ -0,0 +1,408 @@
+import type Database from "better-sqlite3";
+import { existsSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import type { RetentionConfig } from "../config/schema.js";
+import { WORKSPACE_PATHS } from "../workspace/paths.js";
+import {
+  cleanupOldTranscripts,
+  deleteTranscriptFiles,
+  redactTranscripts,
+} from "../session/transcript.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Memory");
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export type ErasureKind = "user" | "chat" | "retention";
+
+export interface ErasedFile {
+  /** Relative to the workspace (memory files) or the sessions directory (transcripts) */
+  path: string;
+  action: "deleted" | "redacted";
+  /** Lines removed, for redacted files */
+  lines?: number;
+}
+
+/**
+ * What one erasure removed: row counts per table/store, and touched files.
+ */
+export interface ErasureReport {
+  id: number;
+  createdAt: number;
+  kind: ErasureKind;
+  /** User or chat ID (null for retention runs) */
+  subject: string | null;
+  /** Admin user ID, or "retention" */
+  requestedBy: string | null;
+  deleted: Record<string, number>;
+  files: ErasedFile[];
+}
+
+interface ErasureDetails {
+  deleted: Record<string, number>;
+  files: ErasedFile[];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches text mentioning any of the terms: numeric IDs as whole numbers,
+ * @usernames case-insensitively.
+ */
+function mentionMatcher(terms: string[]): (text: string) => boolean {
+  const pattern = terms
+    .map((t) => (t.startsWith("@") ? `${escapeRegExp(t)}\\b` : `(?<!\\d)${escapeRegExp(t)}(?!\\d)`))
+    .join("|");
+  const re = new RegExp(pattern, "i");
+  return (text) => re.test(text);
+}
+
+/**
+ * Right-to-erasure (`/forget`) and retention policies for everything the
+ * agent stores about people: Telegram messages (with FTS, vectors and voice
+ * transcripts), users/chats, scoped facts, session summaries and transcripts,
+ * LLM usage, and workspace memory files.
+ *
+ * Every run is recorded in `erasure_log` with counts and touched files
+ * (never the erased content itself).
+ */
+export class MemoryEraser {
+  private memoryFile: string;
+  private memoryDir: string;
+
+  constructor(
+    private db: Database.Database,
+    paths: { memoryFile?: string; memoryDir?: string } = {}
+  ) {
+    this.memoryFile = paths.memoryFile ?? WORKSPACE_PATHS.MEMORY;
+    this.memoryDir = paths.memoryDir ?? WORKSPACE_PATHS.MEMORY_DIR;
+  }
+
+  /**
+   * Find a known user by numeric ID or @username.
+   */
+  resolveUser(ref: string): { id: string; username: string | null } | null {
+    const clean = ref.replace(/^@/, "");
+    const row = (
+      /^\d+$/.test(clean)
+        ? this.db.prepare(`SELECT id, username FROM tg_users WHERE id = ?`).get(clean)
+        : this.db
+            .prepare(`SELECT id, username FROM tg_users WHERE username = ? COLLATE NOCASE`)
+            .get(clean)
+    ) as { id: string; username: string | null } | undefined;
+    if (row) return row;
+    return /^\d+$/.test(clean) ? { id: clean, username: null } : null;
+  }
+
+  /**
+   * Erase everything about a user: their messages (in any chat), their DM
+   * chat and session, facts about them, and lines mentioning them in
+   * transcripts and memory files. LLM usage rows are kept for cost totals
+   * but unlinked from the user.
+   */
+  forgetUser(userId: string, requestedBy: string | null): ErasureReport {
+    const user = this.db.prepare(`SELECT username FROM tg_users WHERE id = ?`).get(userId) as
+      | { username: string | null }
+      | undefined;
+    const terms = [userId, ...(user?.username ? [`@${user.username}`] : [])];
+    const mentions = mentionMatcher(terms);
+    const deleted: Record<string, number> = {};
+
+    // A DM chat has the same ID as the user
+    this.deleteMessages(`sender_id = ? OR chat_id = ?`, [userId, userId], deleted);
+    this.deleteKnowledge(
+      `(scope = 'user' AND subject_id = ?) OR (scope = 'chat' AND subject_id = ?)`,
+      [userId, userId],
+      deleted
+    );
+    this.deleteKnowledgeMentioning(mentions, deleted);
+    const files = this.deleteSession(userId, deleted);
+
+    this.count(
+      deleted,
+      "llm_usage (unlinked)",
+      this.db
+        .prepare(
+          `UPDATE llm_usage SET user_id = CASE WHEN user_id = ? THEN NULL ELSE user_id END,
+                                chat_id = CASE WHEN chat_id = ? THEN 'erased' ELSE chat_id END
+           WHERE user_id = ? OR chat_id = ?`
+        )
+        .run(userId, userId, userId, userId).changes
+    );
+    this.count(deleted, "tg_chats", this.run(`DELETE FROM tg_chats WHERE id = ?`, userId));
+    this.count(deleted, "tg_users", this.run(`DELETE FROM tg_users WHERE id = ?`, userId));
+
+    files.push(...this.redactFiles(mentions, deleted));
+
+    return this.record("user", userId, requestedBy, { deleted, files });
+  }
+
+  /**
+   * Erase a chat: its messages, session, facts about it, and lines
+   * mentioning its ID in transcripts and memory files.
+   */
+  forgetChat(chatId: string, requestedBy: string | null): ErasureReport {
+    const mentions = mentionMatcher([chatId]);
+    const deleted: Record<string, number> = {};
+
+    this.deleteMessages(`chat_id = ?`, [chatId], deleted);
+    this.deleteKnowledge(`scope = 'chat' AND subject_id = ?`, [chatId], deleted);
+    this.deleteKnowledgeMentioning(mentions, deleted);
+    const files = this.deleteSession(chatId, deleted);
+
+    this.count(
+      deleted,
+      "llm_usage (unlinked)",
+      this.run(`UPDATE llm_usage SET chat_id = 'erased' WHERE chat_id = ?`, chatId)
+    );
+    this.count(deleted, "tg_chats", this.run(`DELETE FROM tg_chats WHERE id = ?`, chatId));
+
+    files.push(...this.redactFiles(mentions, deleted));
+
+    return this.record("chat", chatId, requestedBy, { deleted, files });
+  }
+
+  /**
+   * Delete data older than the configured age per data class.
+   * Returns null when nothing was old enough to delete.
+   */
+  applyRetention(config: RetentionConfig, now: Date = new Date()): ErasureReport | null {
+    const nowSec = Math.floor(now.getTime() / 1000);
+    const cutoff = (days: number) => nowSec - days * DAY_SECONDS;
+    const deleted: Record<string, number> = {};
+    const files: ErasedFile[] = [];
+
+    if (config.messages_days) {
+      this.deleteMessages(`timestamp < ?`, [cutoff(config.messages_days)], deleted);
+    }
+
+    if (config.summaries_days) {
+      this.deleteKnowledge(
+        `source = 'session' AND updated_at < ?`,
+        [cutoff(config.summaries_days)],
+        deleted
+      );
+    }
+
+    if (config.daily_logs_days && existsSync(this.memoryDir)) {
+      const oldest = new Date(cutoff(config.daily_logs_days) * 1000).toISOString().slice(0, 10);
+      for (const file of readdirSync(this.memoryDir)) {
+        const day = /^(\d{4}-\d{2}-\d{2})\.md$/.exec(file)?.[1];
+        if (!day || day >= oldest) continue;
+        unlinkSync(join(this.memoryDir, file));
+        files.push({ path: `memory/${file}`, action: "deleted" });
+        this.deleteKnowledge(`source = 'memory' AND path LIKE ?`, [`%memory/${file}`], deleted);
+      }
+    }
+
+    if (config.usage_days) {
+      this.count(
+        deleted,
+        "llm_usage",
+        this.run(`DELETE FROM llm_usage WHERE created_at < ?`, cutoff(config.usage_days))
+      );
+    }
+
+    this.count(deleted, "session transcripts", cleanupOldTranscripts(config.transcripts_days));
+
+    if (Object.keys(deleted).length === 0 && files.length === 0) return null;
+    return this.record("retention", null, "retention", { deleted, files });
+  }
+
+  listReports(limit = 50): ErasureReport[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, created_at, kind, subject, requested_by, details
+         FROM erasure_log ORDER BY created_at DESC, id DESC LIMIT ?`
+      )
+      .all(limit) as Array<{
+      id: number;
+      created_at: number;
+      kind: ErasureKind;
+      subject: string | null;
+      requested_by: string | null;
+      details: string;
+    }>;
+
+    return rows.map((row) => {
+      const details = JSON.parse(row.details) as ErasureDetails;
+      return {
+        id: row.id,
+        createdAt: row.created_at,
+        kind: row.kind,
+        subject: row.subject,
+        requestedBy: row.requested_by,
+        deleted: details.deleted,
+        files: details.files,
+      };
+    });
+  }
+
+  private record(
+    kind: ErasureKind,
+    subject: string | null,
+    requestedBy: string | null,
+    details: ErasureDetails
+  ): ErasureReport {
+    const result = this.db
+      .prepare(`INSERT INTO erasure_log (kind, subject, requested_by, details) VALUES (?, ?, ?, ?)`)
+      .run(kind, subject, requestedBy, JSON.stringify(details));
+
+    const total = Object.values(details.deleted).reduce((a, b) => a + b, 0);
+    log.info(
+      `🧹 Erasure #${result.lastInsertRowid} (${kind}${subject ? ` ${subject}` : ""}): ${total} rows, ${details.files.length} files`
+    );
+
+    return this.listReports(1)[0];
+  }
+
+  private run(sql: string, ...params: unknown[]): number {
+    return this.db.prepare(sql).run(...params).changes;
+  }
+
+  private count(deleted: Record<string, number>, key: string, n: number): void {
+    if (n > 0) deleted[key] = (deleted[key] ?? 0) + n;
+  }
+
+  private hasTable(name: string): boolean {
+    return !!this.db
+      .prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?`)
+      .get(name);
+  }
+
+  /** Delete tg_messages (FTS via triggers) and their vectors */
+  private deleteMessages(where: string, params: unknown[], deleted: Record<string, number>): void {
+    this.db.transaction(() => {
+      if (this.hasTable("tg_messages_vec")) {
+        this.count(
+          deleted,
+          "tg_messages_vec",
+          this.run(
+            `DELETE FROM tg_messages_vec WHERE id IN (SELECT id FROM tg_messages WHERE ${where})`,
+            ...params
+          )
+        );
+      }
+      this.count(
+        deleted,
+        "tg_messages",
+        this.run(`DELETE FROM tg_messages WHERE ${where}`, ...params)
+      );
+    })();
+  }
+
+  /** Delete knowledge rows (FTS via triggers) and their vectors */
+  private deleteKnowledge(where: string, params: unknown[], deleted: Record<string, number>): void {
+    this.db.transaction(() => {
+      if (this.hasTable("knowledge_vec")) {
+        this.count(
+          deleted,
+          "knowledge_vec",
+          this.run(
+            `DELETE FROM knowledge_vec WHERE id IN (SELECT id FROM knowledge WHERE ${where})`,
+            ...params
+          )
+        );
+      }
+      this.count(deleted, "knowledge", this.run(`DELETE FROM knowledge WHERE ${where}`, ...params));
+    })();
+  }
+
+  /** Global knowledge chunks (memory files, summaries) that mention the subject */
+  private deleteKnowledgeMentioning(
+    mentions: (text: string) => boolean,
+    deleted: Record<string, number>
+  ): void {
+    const ids = (
+      this.db.prepare(`SELECT id, text FROM knowledge WHERE scope = 'global'`).all() as Array<{
+        id: string;
+        text: string;
+      }>
+    )
+      .filter((row) => mentions(row.text))
+      .map((row) => row.id);
+
+    for (const id of ids) {
+      this.deleteKnowledge(`id = ?`, [id], deleted);
+    }
+  }
+
+  /** Delete the chat's session row, summary and transcript files */
+  private deleteSession(chatId: string, deleted: Record<string, number>): ErasedFile[] {
+    const session = this.db
+      .prepare(`SELECT id FROM sessions WHERE chat_id = ?`)
+      .get(`telegram:${chatId}`) as { id: string } | undefined;
+    if (!session) return [];
+
+    this.deleteKnowledge(`id = ?`, [`session:${session.id}`], deleted);
+    this.count(deleted, "sessions", this.run(`DELETE FROM sessions WHERE id = ?`, session.id));
+
+    const files = deleteTranscriptFiles(session.id);
+    this.count(deleted, "session transcripts", files.length);
+    return files.map((file) => ({ path: `sessions/${file}`, action: "deleted" as const }));
+  }
+
+  /** Remove lines mentioning the subject from transcripts and memory files */
+  private redactFiles(
+    mentions: (text: string) => boolean,
+    deleted: Record<string, number>
+  ): ErasedFile[] {
+    const files: ErasedFile[] = [];
+
+    const transcripts = redactTranscripts(mentions);
+    this.count(deleted, "transcript lines", transcripts.lines);
+    files.push(
+      ...transcripts.files.map((file) => ({
+        path: `sessions/${file}`,
+        action: "redacted" as const,
+      }))
+    );
+
+    const memoryFiles = [this.memoryFile];
+    if (existsSync(this.memoryDir)) {
+      memoryFiles.push(
+        ...readdirSync(this.memoryDir)
+          .filter((f) => f.endsWith(".md"))
+          .map((f) => join(this.memoryDir, f))
+      );
+    }
+
+    for (const path of memoryFiles) {
+      if (!existsSync(path)) continue;
+      const lines = readFileSync(path, "utf-8").split("\n");
+      const kept = lines.filter((line) => !mentions(line));
+      const removed = lines.length - kept.length;
+      if (removed === 0) continue;
+
+      writeFileSync(path, kept.join("\n"), "utf-8");
+      this.count(deleted, "memory file lines", removed);
+      files.push({
+        path: path === this.memoryFile ? "MEMORY.md" : `memory/${basename(path)}`,
+        action: "redacted",
+        lines: removed,
+      });
+    }
+
+    return files;
+  }
+}
+
+let instance: MemoryEraser | null = null;
+
+/**
+ * Create the process-wide eraser (called once at startup).
+ */
+export function initMemoryEraser(db: Database.Database): MemoryEraser {
+  instance = new MemoryEraser(db);
+  return instance;
+}
+
+/**
+ * The active eraser, or null when the agent isn't running (CLI, tests).
+ */
+export function getMemoryEraser(): MemoryEraser | null {
+  return instance;
+}
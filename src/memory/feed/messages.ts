@@ -11,6 +11,8 @@ export interface TelegramMessage {
   isFromAgent: boolean;
   hasMedia: boolean;
   mediaType?: string;
+  /** Speech-to-text transcript of a voice/audio message */
+  transcript?: string;
   timestamp: number;
 }
 
@@ -47,6 +49,8 @@ export class MessageStore {
     const embedding =
       this.vectorEnabled && message.text ? await this.embedder.embedQuery(message.text) : [];
     const embeddingBuffer = serializeEmbedding(embedding);
+    // REPLACE drops the old row, so carry over a transcript cached by an earlier store
+    const transcript = message.transcript ?? this.getTranscript(message.chatId, message.id);
 
     this.db.transaction(() => {
       this.db
@@ -54,8 +58,8 @@ export class MessageStore {
           `
         INSERT OR REPLACE INTO tg_messages (
           id, chat_id, sender_id, text, embedding, reply_to_id,
-          is_from_agent, has_media, media_type, timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          is_from_agent, has_media, media_type, transcript, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
         )
         .run(
@@ -68,6 +72,7 @@ export class MessageStore {
           message.isFromAgent ? 1 : 0,
           message.hasMedia ? 1 : 0,
           message.mediaType,
+          transcript ?? null,
           message.timestamp
         );
 
@@ -84,6 +89,19 @@ export class MessageStore {
     })();
   }
 
+  getTranscript(chatId: string, messageId: string): string | undefined {
+    const row = this.db
+      .prepare(`SELECT transcript FROM tg_messages WHERE id = ? AND chat_id = ?`)
+      .get(messageId, chatId) as { transcript: string | null } | undefined;
+    return row?.transcript ?? undefined;
+  }
+
+  setTranscript(chatId: string, messageId: string, transcript: string): void {
+    this.db
+      .prepare(`UPDATE tg_messages SET transcript = ? WHERE id = ? AND chat_id = ?`)
+      .run(transcript, messageId, chatId);
+  }
+
   getRecentMessages(chatId: string, limit: number = 20): TelegramMessage[] {
     const rows = this.db
       .prepare(
@@ -5,6 +5,14 @@ export * from "./agent/index.js";
 export * from "./feed/index.js";
 export * from "./search/hybrid.js";
 export * from "./search/context.js";
+export * from "./search/retriever.js";
+export * from "./search/reranker.js";
+export * from "./search/rewrite.js";
+export * from "./search/eval.js";
+export * from "./reembed.js";
+export * from "./erasure.js";
+export * from "./audit-log.js";
+export * from "./documents/index.js";
 
 import type Database from "better-sqlite3";
 import { getDatabase, type DatabaseConfig } from "./database.js";
@@ -14,6 +22,7 @@ import {
   type EmbeddingProviderConfig,
 } from "./embeddings/index.js";
 import { KnowledgeIndexer } from "./agent/knowledge.js";
+import { MemoryProfiles, setMemoryProfiles } from "./agent/profiles.js";
 import { MessageStore } from "./feed/messages.js";
 import { ContextBuilder } from "./search/context.js";
 
@@ -21,6 +30,7 @@ export interface MemorySystem {
   db: Database.Database;
   embedder: ReturnType<typeof createEmbeddingProvider>;
   knowledge: KnowledgeIndexer;
+  profiles: MemoryProfiles;
   messages: MessageStore;
   context: ContextBuilder;
 }
@@ -30,17 +40,24 @@ export function initializeMemory(config: {
   embeddings: EmbeddingProviderConfig;
   workspaceDir: string;
 }): MemorySystem {
-  const db = getDatabase(config.database);
   const rawEmbedder = createEmbeddingProvider(config.embeddings);
+  const db = getDatabase({
+    ...config.database,
+    vectorDimensions: config.database.vectorDimensions ?? rawEmbedder.dimensions,
+  });
   const vectorEnabled = db.isVectorSearchReady();
   const database: Database.Database = db.getDb();
   const embedder =
     rawEmbedder.id === "noop" ? rawEmbedder : new CachedEmbeddingProvider(rawEmbedder, database);
 
+  const profiles = new MemoryProfiles(database, embedder, vectorEnabled);
+  setMemoryProfiles(profiles);
+
   return {
     db: database,
     embedder,
     knowledge: new KnowledgeIndexer(database, config.workspaceDir, embedder, vectorEnabled),
+    profiles,
     messages: new MessageStore(database, embedder, vectorEnabled),
     context: new ContextBuilder(database, embedder, vectorEnabled),
   };
@@ -0,0 +1,119 @@
+import type Database from "better-sqlite3";
+import type { EmbeddingProvider } from "./embeddings/provider.js";
+import { serializeEmbedding } from "./embeddings/index.js";
+import { ensureVectorTables } from "./schema.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Memory");
+
+const REEMBED_CHUNK_SIZE = 256;
+
+export interface ReembedResult {
+  dimensions: number;
+  knowledge: number;
+  messages: number;
+}
+
+function getStoredDimensions(db: Database.Database): number | null {
+  const row = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type='table' AND name='knowledge_vec'`)
+    .get() as { sql?: string } | undefined;
+  const match = row?.sql?.match(/FLOAT\[(\d+)\]/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function isStale(db: Database.Database): boolean {
+  const row = db.prepare(`SELECT value FROM meta WHERE key = 'vectors_stale'`).get() as
+    | { value: string }
+    | undefined;
+  return row?.value === "1";
+}
+
+function setStale(db: Database.Database, stale: boolean): void {
+  db.prepare(
+    `
+    INSERT INTO meta (key, value, updated_at)
+    VALUES ('vectors_stale', ?, unixepoch())
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `
+  ).run(stale ? "1" : "0");
+}
+
+/**
+ * Embed every row of `table` again and rewrite both the row's `embedding`
+ * column and its vec0 table. Returns the number of rows embedded.
+ */
+async function reembedTable(
+  db: Database.Database,
+  embedder: EmbeddingProvider,
+  table: "knowledge" | "tg_messages"
+): Promise<number> {
+  const rows = db
+    .prepare(`SELECT id, text FROM ${table} WHERE text IS NOT NULL AND text != '' ORDER BY rowid`)
+    .all() as Array<{ id: string; text: string }>;
+
+  const updateRow = db.prepare(`UPDATE ${table} SET embedding = ? WHERE id = ?`);
+  const insertVec = db.prepare(`INSERT INTO ${table}_vec (id, embedding) VALUES (?, ?)`);
+
+  let count = 0;
+  for (let i = 0; i < rows.length; i += REEMBED_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + REEMBED_CHUNK_SIZE);
+    const embeddings = await embedder.embedBatch(chunk.map((r) => r.text));
+    if (embeddings.length === 0) {
+      // Provider went away mid-run: keep the stale flag so the next start retries
+      throw new Error(`embedding provider returned no vectors for ${table}`);
+    }
+
+    db.transaction(() => {
+      for (let j = 0; j < chunk.length; j++) {
+        const embedding = embeddings[j];
+        if (!embedding || embedding.length !== embedder.dimensions) continue;
+        const blob = serializeEmbedding(embedding);
+        updateRow.run(blob, chunk[j].id);
+        insertVec.run(chunk[j].id, blob);
+        count++;
+      }
+    })();
+  }
+  return count;
+}
+
+/**
+ * Make the vector tables match the embedder's dimensions, re-embedding
+ * knowledge chunks and messages when they don't (provider or model changed).
+ *
+ * Call after warmup, since some providers only know their size then.
+ * Runs again on next start if interrupted (`vectors_stale` flag in meta).
+ * Returns null when nothing had to be done.
+ */
+export async function syncVectorDimensions(
+  db: Database.Database,
+  embedder: EmbeddingProvider
+): Promise<ReembedResult | null> {
+  const dims = embedder.dimensions;
+  if (dims === 0) return null;
+
+  const stored = getStoredDimensions(db);
+  if (stored === dims && !isStale(db)) return null;
+
+  if (stored !== null) {
+    log.info(`Embedding dimensions changed (${stored} → ${dims}), re-embedding memory...`);
+  }
+
+  setStale(db, true);
+  ensureVectorTables(db, dims);
+  db.exec(`DELETE FROM knowledge_vec`);
+  db.exec(`DELETE FROM tg_messages_vec`);
+
+  const t0 = Date.now();
+  const knowledge = await reembedTable(db, embedder, "knowledge");
+  const messages = await reembedTable(db, embedder, "tg_messages");
+  setStale(db, false);
+
+  if (stored !== null || knowledge + messages > 0) {
+    log.info(
+      `Re-embedded ${knowledge} knowledge chunks and ${messages} messages at ${dims} dims (${Date.now() - t0}ms)`
+    );
+  }
+  return { dimensions: dims, knowledge, messages };
+}
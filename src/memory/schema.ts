@@ -1,6 +1,7 @@
 import type Database from "better-sqlite3";
 import { JOURNAL_SCHEMA } from "../utils/module-db.js";
 import { createLogger } from "../utils/logger.js";
+import { AuditLog } from "./audit-log.js";
 
 const log = createLogger("Memory");
 
@@ -27,6 +28,39 @@ function versionLessThan(a: string, b: string): boolean {
   return compareSemver(a, b) < 0;
 }
 
+/**
+ * Append-only, hash-chained privileged actions (see audit-log.ts).
+ */
+const AUDIT_LOG_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+    source TEXT NOT NULL CHECK(source IN ('telegram', 'webui', 'cli', 'agent')),
+    actor TEXT NOT NULL,               -- telegram:<id>, webui:<username>, cli:<user>, system
+    action TEXT NOT NULL,              -- e.g. policy.dm, tool.enabled, config.set, spend.ton_send
+    target TEXT,
+    before_json TEXT,
+    after_json TEXT,
+    details_json TEXT,
+    prev_hash TEXT NOT NULL,           -- hash of the previous entry (zeros for the first)
+    hash TEXT NOT NULL                 -- SHA-256 of prev_hash and this row's columns
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+  CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+`;
+
 export function ensureSchema(db: Database.Database): void {
   db.exec(`
     -- ============================================
@@ -45,19 +79,23 @@ export function ensureSchema(db: Database.Database): void {
     -- Knowledge chunks from MEMORY.md, memory/*.md, learned facts
     CREATE TABLE IF NOT EXISTS knowledge (
       id TEXT PRIMARY KEY,
-      source TEXT NOT NULL CHECK(source IN ('memory', 'session', 'learned')),
+      source TEXT NOT NULL CHECK(source IN ('memory', 'session', 'learned', 'document')),
       path TEXT,
       text TEXT NOT NULL,
       embedding TEXT,
       start_line INTEGER,
       end_line INTEGER,
+      page INTEGER,                      -- PDF page (documents only)
       hash TEXT NOT NULL,
+      scope TEXT NOT NULL DEFAULT 'global' CHECK(scope IN ('global', 'user', 'chat')),
+      subject_id TEXT,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch())
     );
 
     CREATE INDEX IF NOT EXISTS idx_knowledge_source ON knowledge(source);
     CREATE INDEX IF NOT EXISTS idx_knowledge_hash ON knowledge(hash);
+    CREATE INDEX IF NOT EXISTS idx_knowledge_scope ON knowledge(scope, subject_id);
     CREATE INDEX IF NOT EXISTS idx_knowledge_updated ON knowledge(updated_at DESC);
 
     -- Full-text search for knowledge
@@ -124,7 +162,11 @@ export function ensureSchema(db: Database.Database): void {
       scheduled_for INTEGER,
       payload TEXT,
       reason TEXT,
-      scheduled_message_id INTEGER
+      scheduled_message_id INTEGER,
+      recurrence TEXT,
+      max_runs INTEGER,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      paused INTEGER NOT NULL DEFAULT 0 CHECK(paused IN (0, 1))
     );
 
     CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
@@ -132,6 +174,19 @@ export function ensureSchema(db: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_tasks_scheduled ON tasks(scheduled_for) WHERE scheduled_for IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_tasks_created_by ON tasks(created_by) WHERE created_by IS NOT NULL;
 
+    -- Task Runs (execution history, one row per fire of a task)
+    CREATE TABLE IF NOT EXISTS task_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'done', 'failed', 'skipped')),
+      started_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      finished_at INTEGER,
+      result TEXT,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs(task_id, started_at DESC);
+
     -- Task Dependencies (for chained tasks)
     CREATE TABLE IF NOT EXISTS task_dependencies (
       task_id TEXT NOT NULL,
@@ -198,6 +253,7 @@ export function ensureSchema(db: Database.Database): void {
       is_edited INTEGER DEFAULT 0,
       has_media INTEGER DEFAULT 0,
       media_type TEXT,
+      transcript TEXT,
       timestamp INTEGER NOT NULL,
       indexed_at INTEGER NOT NULL DEFAULT (unixepoch()),
       FOREIGN KEY (chat_id) REFERENCES tg_chats(id) ON DELETE CASCADE,
@@ -254,6 +310,88 @@ export function ensureSchema(db: Database.Database): void {
 
     CREATE INDEX IF NOT EXISTS idx_embedding_cache_accessed ON embedding_cache(accessed_at);
 
+    -- ============================================
+    -- LLM USAGE (cost accounting)
+    -- ============================================
+
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      chat_id TEXT NOT NULL,
+      user_id TEXT,
+      is_group INTEGER NOT NULL DEFAULT 0 CHECK(is_group IN (0, 1)),
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_chat ON llm_usage(chat_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at);
+
+    -- ============================================
+    -- ERASURE LOG (/forget and retention reports)
+    -- ============================================
+
+    CREATE TABLE IF NOT EXISTS erasure_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      kind TEXT NOT NULL CHECK(kind IN ('user', 'chat', 'retention')),
+      subject TEXT,
+      requested_by TEXT,
+      details TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_erasure_log_created ON erasure_log(created_at DESC);
+
+    -- Workspace documents indexed into knowledge (source = 'document')
+    CREATE TABLE IF NOT EXISTS documents (
+      path TEXT PRIMARY KEY,             -- Relative to the workspace
+      hash TEXT NOT NULL,                -- Content hash of the file
+      size INTEGER NOT NULL,
+      pages INTEGER,                     -- PDFs only
+      chunks INTEGER NOT NULL DEFAULT 0,
+      error TEXT,                        -- Extraction error, if any
+      indexed_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+
+    -- ============================================
+    -- WEBUI ACCOUNTS
+    -- ============================================
+
+    CREATE TABLE IF NOT EXISTS webui_users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,       -- scrypt$N$r$p$salt$hash
+      role TEXT NOT NULL CHECK(role IN ('viewer', 'operator', 'admin')),
+      totp_secret TEXT,                  -- Base32, set once the first code is confirmed
+      totp_pending TEXT,                 -- Secret shown to the user, awaiting confirmation
+      totp_last_step INTEGER,            -- Last accepted 30s step (replay protection)
+      disabled INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      last_login_at INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS webui_sessions (
+      token_hash TEXT PRIMARY KEY,       -- SHA-256 of the cookie value
+      user_id INTEGER NOT NULL REFERENCES webui_users(id) ON DELETE CASCADE,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      expires_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webui_sessions_user ON webui_sessions(user_id);
+
+
+    -- ============================================
+    -- AUDIT LOG
+    -- ============================================
+
+    ${AUDIT_LOG_SCHEMA}
+
     -- =====================================================
     -- JOURNAL (Trading & Business Operations)
     -- =====================================================
@@ -274,6 +412,14 @@ export function ensureVectorTables(db: Database.Database, dimensions: number): v
   if (existingDims?.sql && !existingDims.sql.includes(`[${dimensions}]`)) {
     db.exec(`DROP TABLE IF EXISTS knowledge_vec`);
     db.exec(`DROP TABLE IF EXISTS tg_messages_vec`);
+    // Stored vectors are now gone; syncVectorDimensions() re-embeds them
+    db.prepare(
+      `
+      INSERT INTO meta (key, value, updated_at)
+      VALUES ('vectors_stale', '1', unixepoch())
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `
+    ).run();
   }
 
   db.exec(`
@@ -306,7 +452,7 @@ export function setSchemaVersion(db: Database.Database, version: string): void {
   ).run(version);
 }
 
-export const CURRENT_SCHEMA_VERSION = "1.11.0";
+export const CURRENT_SCHEMA_VERSION = "1.19.0";
 
 export function runMigrations(db: Database.Database): void {
   const currentVersion = getSchemaVersion(db);
@@ -514,5 +660,282 @@ export function runMigrations(db: Database.Database): void {
     }
   }
 
+  if (!currentVersion || versionLessThan(currentVersion, "1.12.0")) {
+    log.info("Running migration 1.12.0: Add recurring tasks and task run history");
+    try {
+      const tableInfo = db.prepare("PRAGMA table_info(tasks)").all() as Array<{ name: string }>;
+      const existingColumns = tableInfo.map((col) => col.name);
+      if (!existingColumns.includes("recurrence")) {
+        db.exec(`ALTER TABLE tasks ADD COLUMN recurrence TEXT`);
+      }
+      if (!existingColumns.includes("max_runs")) {
+        db.exec(`ALTER TABLE tasks ADD COLUMN max_runs INTEGER`);
+      }
+      if (!existingColumns.includes("run_count")) {
+        db.exec(`ALTER TABLE tasks ADD COLUMN run_count INTEGER NOT NULL DEFAULT 0`);
+      }
+      if (!existingColumns.includes("paused")) {
+        db.exec(
+          `ALTER TABLE tasks ADD COLUMN paused INTEGER NOT NULL DEFAULT 0 CHECK(paused IN (0, 1))`
+        );
+      }
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'done', 'failed', 'skipped')),
+          started_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          finished_at INTEGER,
+          result TEXT,
+          error TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs(task_id, started_at DESC);
+      `);
+      log.info("Migration 1.12.0 complete: recurring tasks supported");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.12.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.13.0")) {
+    log.info("Running migration 1.13.0: Add transcript column to tg_messages");
+    try {
+      const tableInfo = db.prepare("PRAGMA table_info(tg_messages)").all() as Array<{
+        name: string;
+      }>;
+      if (tableInfo.length > 0 && !tableInfo.some((col) => col.name === "transcript")) {
+        db.exec(`ALTER TABLE tg_messages ADD COLUMN transcript TEXT`);
+      }
+      log.info("Migration 1.13.0 complete: voice transcripts cached in tg_messages");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.13.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.14.0")) {
+    log.info("Running migration 1.14.0: Add llm_usage table for cost accounting");
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS llm_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          chat_id TEXT NOT NULL,
+          user_id TEXT,
+          is_group INTEGER NOT NULL DEFAULT 0 CHECK(is_group IN (0, 1)),
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_chat ON llm_usage(chat_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at);
+      `);
+      log.info("Migration 1.14.0 complete: llm_usage table created");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.14.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.15.0")) {
+    log.info("Running migration 1.15.0: Add memory scopes to knowledge");
+    try {
+      const tableInfo = db.prepare("PRAGMA table_info(knowledge)").all() as Array<{
+        name: string;
+      }>;
+      if (tableInfo.length > 0) {
+        if (!tableInfo.some((col) => col.name === "scope")) {
+          db.exec(
+            `ALTER TABLE knowledge ADD COLUMN scope TEXT NOT NULL DEFAULT 'global' CHECK(scope IN ('global', 'user', 'chat'))`
+          );
+        }
+        if (!tableInfo.some((col) => col.name === "subject_id")) {
+          db.exec(`ALTER TABLE knowledge ADD COLUMN subject_id TEXT`);
+        }
+        db.exec(`CREATE INDEX IF NOT EXISTS idx_knowledge_scope ON knowledge(scope, subject_id)`);
+      }
+      log.info("Migration 1.15.0 complete: knowledge rows can be scoped to a user or chat");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.15.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.16.0")) {
+    log.info("Running migration 1.16.0: Add erasure_log table");
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS erasure_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          kind TEXT NOT NULL CHECK(kind IN ('user', 'chat', 'retention')),
+          subject TEXT,
+          requested_by TEXT,
+          details TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_erasure_log_created ON erasure_log(created_at DESC);
+      `);
+      log.info("Migration 1.16.0 complete: erasure_log table created");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.16.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.17.0")) {
+    log.info("Running migration 1.17.0: Add document source and page to knowledge");
+    try {
+      const tableInfo = db.prepare("PRAGMA table_info(knowledge)").all() as Array<{
+        name: string;
+      }>;
+      if (tableInfo.length > 0 && !tableInfo.some((col) => col.name === "page")) {
+        // Rebuild to widen the source CHECK; rowids are kept so knowledge_fts stays valid.
+        // Indexes and FTS triggers are recreated by ensureSchema().
+        db.transaction(() => {
+          db.exec(`
+            CREATE TABLE knowledge_new (
+              id TEXT PRIMARY KEY,
+              source TEXT NOT NULL CHECK(source IN ('memory', 'session', 'learned', 'document')),
+              path TEXT,
+              text TEXT NOT NULL,
+              embedding TEXT,
+              start_line INTEGER,
+              end_line INTEGER,
+              page INTEGER,
+              hash TEXT NOT NULL,
+              scope TEXT NOT NULL DEFAULT 'global' CHECK(scope IN ('global', 'user', 'chat')),
+              subject_id TEXT,
+              created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+              updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+            );
+            INSERT INTO knowledge_new (rowid, id, source, path, text, embedding, start_line,
+                                       end_line, hash, scope, subject_id, created_at, updated_at)
+              SELECT rowid, id, source, path, text, embedding, start_line,
+                     end_line, hash, scope, subject_id, created_at, updated_at
+              FROM knowledge;
+            DROP TABLE knowledge;
+            ALTER TABLE knowledge_new RENAME TO knowledge;
+          `);
+        })();
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS documents (
+          path TEXT PRIMARY KEY,
+          hash TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          pages INTEGER,
+          chunks INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          indexed_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+      `);
+      log.info("Migration 1.17.0 complete: workspace documents can be indexed");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.17.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.18.0")) {
+    log.info("Running migration 1.18.0: Add WebUI accounts, sessions and audit");
+    try {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webui_users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL CHECK(role IN ('viewer', 'operator', 'admin')),
+          totp_secret TEXT,
+          totp_pending TEXT,
+          totp_last_step INTEGER,
+          disabled INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          last_login_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS webui_sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES webui_users(id) ON DELETE CASCADE,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          expires_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_webui_sessions_user ON webui_sessions(user_id);
+
+        CREATE TABLE IF NOT EXISTS webui_audit (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          actor TEXT NOT NULL,
+          role TEXT NOT NULL,
+          method TEXT NOT NULL,
+          path TEXT NOT NULL,
+          status INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_webui_audit_created ON webui_audit(created_at DESC);
+      `);
+      log.info("Migration 1.18.0 complete: WebUI accounts tables created");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.18.0 failed");
+      throw error;
+    }
+  }
+
+  if (!currentVersion || versionLessThan(currentVersion, "1.19.0")) {
+    log.info("Running migration 1.19.0: Add hash-chained audit log");
+    try {
+      db.exec(AUDIT_LOG_SCHEMA);
+      const hasWebuiAudit = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='webui_audit'`)
+        .get();
+      if (hasWebuiAudit) {
+        // Fold the WebUI request trail into the chain, oldest first
+        const rows = db
+          .prepare(
+            `SELECT created_at, actor, role, method, path, status FROM webui_audit ORDER BY id`
+          )
+          .all() as Array<{
+          created_at: number;
+          actor: string;
+          role: string;
+          method: string;
+          path: string;
+          status: number;
+        }>;
+        const auditLog = new AuditLog(db);
+        db.transaction(() => {
+          for (const row of rows) {
+            auditLog.record(
+              {
+                source: "webui",
+                actor: `webui:${row.actor}`,
+                action: "api.request",
+                target: row.path,
+                details: { method: row.method, status: row.status, role: row.role },
+              },
+              row.created_at
+            );
+          }
+          db.exec(`DROP TABLE webui_audit`);
+        })();
+        log.info(`Moved ${rows.length} WebUI audit entries into audit_log`);
+      }
+      log.info("Migration 1.19.0 complete: audit_log created");
+    } catch (error) {
+      log.error({ err: error }, "Migration 1.19.0 failed");
+      throw error;
+    }
+  }
+
   setSchemaVersion(db, CURRENT_SCHEMA_VERSION);
 }
@@ -0,0 +1,87 @@
+/**
+ * Citation tags for RAG context.
+ *
+ * Every chunk injected into the prompt carries a tag the model can copy into
+ * its reply; the Telegram formatter turns tags into message links or file
+ * references (see renderCitations in telegram/formatting.ts).
+ *
+ *   [[kb:<knowledge id>|<path> p.<page> L<start>-<end>]]   knowledge chunk
+ *   [[kb:<knowledge id>]]                                  fact or summary without a file
+ *   [[msg:<chat id or @username>/<message id>]]            Telegram message
+ *   [[mcp:<server>|<resource uri>]]                         attached MCP resource
+ */
+
+/** Matches any citation tag; group 1 = kind, group 2 = body */
+export const CITATION_PATTERN = /\[\[(kb|msg|mcp):([^\]\n]+)\]\]/g;
+
+/**
+ * Human-readable location of a knowledge chunk: "docs/manual.pdf p.3 L10-24".
+ * Returns null for chunks without a file (learned facts, session summaries).
+ */
+export function describeKnowledgeSource(chunk: {
+  path?: string | null;
+  startLine?: number | null;
+  endLine?: number | null;
+  page?: number | null;
+}): string | null {
+  if (!chunk.path) return null;
+  let label = chunk.path;
+  if (chunk.page) label += ` p.${chunk.page}`;
+  if (chunk.startLine) {
+    label +=
+      chunk.endLine && chunk.endLine !== chunk.startLine
+        ? ` L${chunk.startLine}-${chunk.endLine}`
+        : ` L${chunk.startLine}`;
+  }
+  return label;
+}
+
+export function knowledgeCitation(chunk: {
+  id: string;
+  path?: string | null;
+  startLine?: number | null;
+  endLine?: number | null;
+  page?: number | null;
+}): string {
+  const label = describeKnowledgeSource(chunk);
+  return label ? `[[kb:${chunk.id}|${label.replace(/[\]|]/g, "")}]]` : `[[kb:${chunk.id}]]`;
+}
+
+/**
+ * Tag for a Telegram message. Public chats are referenced by @username so
+ * the link works for anyone in them.
+ */
+export function messageCitation(
+  chatId: string,
+  messageId: string,
+  chatUsername?: string | null
+): string {
+  return `[[msg:${chatUsername ? `@${chatUsername}` : chatId}/${messageId}]]`;
+}
+
+/** Tag for a resource attached from an MCP server */
+export function mcpResourceCitation(server: string, uri: string): string {
+  return `[[mcp:${server}|${uri.replace(/[\]|\n]/g, "")}]]`;
+}
+
+/**
+ * Remove citation-like tags from stored text before it is injected, so a
+ * message or file can't pose as a different source.
+ */
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, "").trim();
+}
+
+/**
+ * t.me link for a message citation body ("@name/42" or "-1001234567890/42").
+ * Only public chats and supergroups/channels have links; returns null otherwise.
+ */
+export function messageLink(body: string): string | null {
+  const match = /^(@?[\w-]+)\/(\d+)$/.exec(body.trim());
+  if (!match) return null;
+  const [, chat, messageId] = match;
+
+  if (chat.startsWith("@")) return `https://t.me/${chat.slice(1)}/${messageId}`;
+  if (chat.startsWith("-100")) return `https://t.me/c/${chat.slice(4)}/${messageId}`;
+  return null;
+}
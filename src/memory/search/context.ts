@@ -1,7 +1,9 @@
 import type Database from "better-sqlite3";
 import type { EmbeddingProvider } from "../embeddings/provider.js";
 import { HybridSearch } from "./hybrid.js";
+import { Retriever, type RetrievalOptions } from "./retriever.js";
 import { MessageStore } from "../feed/messages.js";
+import { knowledgeCitation, messageCitation, stripCitations } from "./citations.js";
 import { createLogger } from "../../utils/logger.js";
 
 const log = createLogger("Memory");
@@ -9,6 +11,8 @@ const log = createLogger("Memory");
 export interface ContextOptions {
   query: string;
   chatId: string;
+  /** Sender of the message; only their user-scoped facts are retrieved */
+  senderId?: string;
   includeAgentMemory?: boolean;
   includeFeedHistory?: boolean;
   searchAllChats?: boolean; // Search across all chats, not just current
@@ -17,23 +21,38 @@ export interface ContextOptions {
   maxTokens?: number;
 }
 
+/** Where an injected chunk came from, with its retrieval scores */
+export interface ContextSource {
+  /** Citation tag, e.g. [[kb:id|docs/a.pdf p.3]] or [[msg:-100123/42]] */
+  citation: string;
+  kind: "knowledge" | "message";
+  score?: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number;
+}
+
 export interface Context {
   recentMessages: Array<{ role: string; content: string }>;
+  /** Each entry starts with its citation tag */
   relevantKnowledge: string[];
+  /** Each entry starts with its citation tag */
   relevantFeed: string[];
+  sources: ContextSource[];
   estimatedTokens: number;
 }
 
 export class ContextBuilder {
-  private hybridSearch: HybridSearch;
+  private retriever: Retriever;
   private messageStore: MessageStore;
 
   constructor(
     private db: Database.Database,
-    private embedder: EmbeddingProvider,
-    vectorEnabled: boolean
+    embedder: EmbeddingProvider,
+    vectorEnabled: boolean,
+    retrieval: RetrievalOptions = {}
   ) {
-    this.hybridSearch = new HybridSearch(db, vectorEnabled);
+    this.retriever = new Retriever(new HybridSearch(db, vectorEnabled), embedder, retrieval);
     this.messageStore = new MessageStore(db, embedder, vectorEnabled);
   }
 
@@ -41,6 +60,7 @@ export class ContextBuilder {
     const {
       query,
       chatId,
+      senderId,
       includeAgentMemory = true,
       includeFeedHistory = true,
       searchAllChats = false,
@@ -48,7 +68,7 @@ export class ContextBuilder {
       maxRelevantChunks = 5,
     } = options;
 
-    const queryEmbedding = await this.embedder.embedQuery(query);
+    const queries = await this.retriever.prepareQueries(query);
 
     const recentTgMessages = this.messageStore.getRecentMessages(chatId, maxRecentMessages);
     const recentMessages = recentTgMessages.map((m) => ({
@@ -56,13 +76,40 @@ export class ContextBuilder {
       content: m.text ?? "",
     }));
 
+    const sources: ContextSource[] = [];
+    const cite = (
+      citation: string,
+      kind: ContextSource["kind"],
+      r?: { score: number; vectorScore?: number; keywordScore?: number; rerankScore?: number }
+    ) => {
+      sources.push({
+        citation,
+        kind,
+        score: r?.score,
+        vectorScore: r?.vectorScore,
+        keywordScore: r?.keywordScore,
+        rerankScore: r?.rerankScore,
+      });
+      return citation;
+    };
+
     const relevantKnowledge: string[] = [];
     if (includeAgentMemory) {
       try {
-        const knowledgeResults = await this.hybridSearch.searchKnowledge(query, queryEmbedding, {
+        const knowledgeResults = await this.retriever.searchKnowledge(queries, {
           limit: maxRelevantChunks,
+          subjects: { userId: senderId, chatId },
         });
-        relevantKnowledge.push(...knowledgeResults.map((r) => r.text));
+        for (const r of knowledgeResults) {
+          const label =
+            r.scope === "user"
+              ? "[About the sender] "
+              : r.scope === "chat"
+                ? "[About this chat] "
+                : "";
+          const citation = cite(knowledgeCitation(r), "knowledge", r);
+          relevantKnowledge.push(`${citation} ${label}${stripCitations(r.text)}`);
+        }
       } catch (error) {
         log.warn({ err: error }, "Knowledge search failed");
       }
@@ -75,24 +122,28 @@ export class ContextBuilder {
     const relevantFeed: string[] = [];
     if (includeFeedHistory) {
       try {
-        const feedResults = await this.hybridSearch.searchMessages(query, queryEmbedding, {
+        const feedResults = await this.retriever.searchMessages(queries, {
           chatId,
           limit: maxRelevantChunks,
         });
+        const existingTexts = new Set<string>();
         for (const r of feedResults) {
           if (!recentTextsSet.has(r.text)) {
-            relevantFeed.push(r.text);
+            const citation = cite(this.messageCitation(r.source, r.id), "message", r);
+            relevantFeed.push(`${citation} ${stripCitations(r.text)}`);
+            existingTexts.add(r.text);
           }
         }
 
         if (searchAllChats) {
-          const globalResults = await this.hybridSearch.searchMessages(query, queryEmbedding, {
+          const globalResults = await this.retriever.searchMessages(queries, {
             limit: maxRelevantChunks,
           });
-          const existingTexts = new Set(relevantFeed);
           for (const r of globalResults) {
             if (!existingTexts.has(r.text)) {
-              relevantFeed.push(`[From chat ${r.source}]: ${r.text}`);
+              const citation = cite(this.messageCitation(r.source, r.id), "message", r);
+              relevantFeed.push(`${citation} [From chat ${r.source}]: ${stripCitations(r.text)}`);
+              existingTexts.add(r.text);
             }
           }
         }
@@ -106,7 +157,8 @@ export class ContextBuilder {
           .slice(-maxRelevantChunks)
           .map((m) => {
             const sender = m.isFromAgent ? "Agent" : "User";
-            return `[${sender}]: ${m.text}`;
+            const citation = cite(this.messageCitation(m.chatId, m.id), "message");
+            return `${citation} [${sender}]: ${stripCitations(m.text ?? "")}`;
           });
         relevantFeed.push(...recentTexts);
       }
@@ -122,7 +174,15 @@ export class ContextBuilder {
       recentMessages,
       relevantKnowledge,
       relevantFeed,
+      sources,
       estimatedTokens,
     };
   }
+
+  private messageCitation(chatId: string, messageId: string): string {
+    const chat = this.db.prepare(`SELECT username FROM tg_chats WHERE id = ?`).get(chatId) as
+      | { username: string | null }
+      | undefined;
+    return messageCitation(chatId, messageId, chat?.username);
+  }
 }
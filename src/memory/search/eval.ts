@@ -0,0 +1,139 @@
+import type { HybridSearchResult } from "./hybrid.js";
+import type { Retriever } from "./retriever.js";
+
+/**
+ * One labelled query. `relevant` lists knowledge/message ids or, for
+ * knowledge, file paths (any chunk of the file counts).
+ */
+export interface EvalCase {
+  query: string;
+  relevant: string[];
+  source: "knowledge" | "messages";
+  /** messages only: restrict the search to this chat */
+  chatId?: string;
+}
+
+export interface EvalMetrics {
+  queries: number;
+  /** Share of relevant items found in the top k, averaged over queries */
+  recall: number;
+  /** Mean reciprocal rank of the first relevant result (0 when none in the top k) */
+  mrr: number;
+  /** Share of queries with at least one relevant result in the top k */
+  hitRate: number;
+  avgLatencyMs: number;
+}
+
+/**
+ * Parse a labelled set: a JSON array or JSON Lines of
+ * `{ "query": "...", "relevant": ["docs/faq.md"], "source"?: "knowledge" | "messages", "chat_id"?: "..." }`.
+ */
+export function parseEvalSet(content: string): EvalCase[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  const entries: unknown[] = trimmed.startsWith("[")
+    ? (JSON.parse(trimmed) as unknown[])
+    : trimmed
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line, i) => {
+          try {
+            return JSON.parse(line) as unknown;
+          } catch {
+            throw new Error(`Line ${i + 1}: invalid JSON`);
+          }
+        });
+
+  return entries.map((entry, i) => {
+    const e = entry as Record<string, unknown>;
+    const relevant = e.relevant;
+    if (typeof e.query !== "string" || !e.query.trim()) {
+      throw new Error(`Case ${i + 1}: "query" must be a non-empty string`);
+    }
+    if (
+      !Array.isArray(relevant) ||
+      relevant.length === 0 ||
+      !relevant.every((r) => typeof r === "string")
+    ) {
+      throw new Error(`Case ${i + 1}: "relevant" must be a non-empty array of strings`);
+    }
+    if (e.source !== undefined && e.source !== "knowledge" && e.source !== "messages") {
+      throw new Error(`Case ${i + 1}: "source" must be "knowledge" or "messages"`);
+    }
+    return {
+      query: e.query,
+      relevant: relevant as string[],
+      source: e.source ?? "knowledge",
+      chatId: typeof e.chat_id === "string" ? e.chat_id : undefined,
+    };
+  });
+}
+
+/** Label a result matches: its id, or the file it was indexed from */
+function matchedLabel(result: HybridSearchResult, relevant: Set<string>): string | null {
+  if (relevant.has(result.id)) return result.id;
+  if (result.path && relevant.has(result.path)) return result.path;
+  return null;
+}
+
+/**
+ * Recall, reciprocal rank and hit for one ranked list. Several chunks of
+ * the same relevant file count once.
+ */
+export function scoreRanking(
+  results: HybridSearchResult[],
+  relevant: string[],
+  k: number
+): { recall: number; reciprocalRank: number; hit: boolean } {
+  const labels = new Set(relevant);
+  const found = new Set<string>();
+  let reciprocalRank = 0;
+
+  for (const [i, result] of results.slice(0, k).entries()) {
+    const label = matchedLabel(result, labels);
+    if (!label) continue;
+    if (found.size === 0) reciprocalRank = 1 / (i + 1);
+    found.add(label);
+  }
+
+  return { recall: found.size / labels.size, reciprocalRank, hit: found.size > 0 };
+}
+
+/**
+ * Run every case through the retriever and average the metrics.
+ */
+export async function evaluateRetrieval(
+  retriever: Retriever,
+  cases: EvalCase[],
+  k: number
+): Promise<EvalMetrics> {
+  let recall = 0;
+  let mrr = 0;
+  let hits = 0;
+  let elapsed = 0;
+
+  for (const c of cases) {
+    const start = Date.now();
+    const queries = await retriever.prepareQueries(c.query);
+    const results =
+      c.source === "messages"
+        ? await retriever.searchMessages(queries, { limit: k, chatId: c.chatId })
+        : await retriever.searchKnowledge(queries, { limit: k });
+    elapsed += Date.now() - start;
+
+    const score = scoreRanking(results, c.relevant, k);
+    recall += score.recall;
+    mrr += score.reciprocalRank;
+    if (score.hit) hits++;
+  }
+
+  const n = cases.length || 1;
+  return {
+    queries: cases.length,
+    recall: recall / n,
+    mrr: mrr / n,
+    hitRate: hits / n,
+    avgLatencyMs: elapsed / n,
+  };
+}
@@ -2,6 +2,7 @@ import type Database from "better-sqlite3";
 import { serializeEmbedding } from "../embeddings/index.js";
 import { HYBRID_SEARCH_MIN_SCORE } from "../../constants/limits.js";
 import { createLogger } from "../../utils/logger.js";
+import type { MemoryScope } from "../agent/profiles.js";
 
 const log = createLogger("Memory");
 
@@ -12,6 +13,58 @@ export interface HybridSearchResult {
   score: number;
   vectorScore?: number;
   keywordScore?: number;
+  /** Cross-encoder relevance (0-1), when the reranking stage ran */
+  rerankScore?: number;
+  /** Knowledge only: global, or a fact about a user/chat */
+  scope?: MemoryScope;
+  /** Knowledge only: file the chunk came from, its line range and PDF page */
+  path?: string | null;
+  startLine?: number | null;
+  endLine?: number | null;
+  page?: number | null;
+}
+
+interface KnowledgeRow {
+  id: string;
+  text: string;
+  source: string;
+  scope: MemoryScope;
+  path: string | null;
+  start_line: number | null;
+  end_line: number | null;
+  page: number | null;
+}
+
+function fromKnowledgeRow(row: KnowledgeRow) {
+  return {
+    id: row.id,
+    text: row.text,
+    source: row.source,
+    scope: row.scope,
+    path: row.path,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    page: row.page,
+  };
+}
+
+/**
+ * Restrict knowledge results to global rows plus facts about these subjects.
+ */
+export interface KnowledgeSubjects {
+  userId?: string;
+  chatId?: string;
+}
+
+/** WHERE clause (alias `k`) and params for a KnowledgeSubjects filter */
+function subjectFilter(subjects?: KnowledgeSubjects): { sql: string; params: string[] } {
+  if (!subjects) return { sql: "", params: [] };
+  return {
+    sql: `AND (k.scope = 'global'
+      OR (k.scope = 'user' AND k.subject_id = ?)
+      OR (k.scope = 'chat' AND k.subject_id = ?))`,
+    params: [subjects.userId ?? "", subjects.chatId ?? ""],
+  };
 }
 
 /**
@@ -40,6 +93,7 @@ export class HybridSearch {
       limit?: number;
       vectorWeight?: number;
       keywordWeight?: number;
+      subjects?: KnowledgeSubjects;
     } = {}
   ): Promise<HybridSearchResult[]> {
     const limit = options.limit ?? 10;
@@ -47,10 +101,14 @@ export class HybridSearch {
     const keywordWeight = options.keywordWeight ?? 0.5;
 
     const vectorResults = this.vectorEnabled
-      ? this.vectorSearchKnowledge(queryEmbedding, Math.ceil(limit * 3))
+      ? this.vectorSearchKnowledge(queryEmbedding, Math.ceil(limit * 3), options.subjects)
       : [];
 
-    const keywordResults = this.keywordSearchKnowledge(query, Math.ceil(limit * 3));
+    const keywordResults = this.keywordSearchKnowledge(
+      query,
+      Math.ceil(limit * 3),
+      options.subjects
+    );
 
     return this.mergeResults(vectorResults, keywordResults, vectorWeight, keywordWeight, limit);
   }
@@ -78,35 +136,40 @@ export class HybridSearch {
     return this.mergeResults(vectorResults, keywordResults, vectorWeight, keywordWeight, limit);
   }
 
-  private vectorSearchKnowledge(embedding: number[], limit: number): HybridSearchResult[] {
+  private vectorSearchKnowledge(
+    embedding: number[],
+    limit: number,
+    subjects?: KnowledgeSubjects
+  ): HybridSearchResult[] {
     if (!this.vectorEnabled || embedding.length === 0) return [];
 
     try {
       const embeddingBuffer = serializeEmbedding(embedding);
+      const filter = subjectFilter(subjects);
 
+      // The KNN runs before the scope filter; over-fetch so other people's facts don't crowd out results
       const rows = this.db
         .prepare(
           `
-        SELECT kv.id, k.text, k.source, kv.distance
+        SELECT kv.id, k.text, k.source, k.scope, k.path, k.start_line, k.end_line, k.page,
+               kv.distance
         FROM (
           SELECT id, distance
           FROM knowledge_vec
           WHERE embedding MATCH ? AND k = ?
         ) kv
         JOIN knowledge k ON k.id = kv.id
+        WHERE 1 = 1 ${filter.sql}
+        ORDER BY kv.distance
+        LIMIT ?
       `
         )
-        .all(embeddingBuffer, limit) as Array<{
-        id: string;
-        text: string;
-        source: string;
-        distance: number;
-      }>;
+        .all(embeddingBuffer, subjects ? limit * 4 : limit, ...filter.params, limit) as Array<
+        KnowledgeRow & { distance: number }
+      >;
 
       return rows.map((row) => ({
-        id: row.id,
-        text: row.text,
-        source: row.source,
+        ...fromKnowledgeRow(row),
         score: 1 - row.distance,
         vectorScore: 1 - row.distance,
       }));
@@ -116,31 +179,33 @@ export class HybridSearch {
     }
   }
 
-  private keywordSearchKnowledge(query: string, limit: number): HybridSearchResult[] {
+  private keywordSearchKnowledge(
+    query: string,
+    limit: number,
+    subjects?: KnowledgeSubjects
+  ): HybridSearchResult[] {
     const safeQuery = escapeFts5Query(query);
     if (!safeQuery) return [];
 
     try {
+      const filter = subjectFilter(subjects);
       const rows = this.db
         .prepare(
           `
-        SELECT k.id, k.text, k.source, rank as score
+        SELECT k.id, k.text, k.source, k.scope, k.path, k.start_line, k.end_line, k.page,
+               rank as score
         FROM knowledge_fts kf
         JOIN knowledge k ON k.rowid = kf.rowid
-        WHERE knowledge_fts MATCH ?
+        WHERE knowledge_fts MATCH ? ${filter.sql}
         ORDER BY rank
         LIMIT ?
       `
         )
-        .all(safeQuery, limit) as Array<{
-        id: string;
-        text: string;
-        source: string;
-        score: number;
-      }>;
+        .all(safeQuery, ...filter.params, limit) as Array<KnowledgeRow & { score: number }>;
 
       return rows.map((row) => ({
-        ...row,
+        ...fromKnowledgeRow(row),
+        score: row.score,
         keywordScore: this.bm25ToScore(row.score),
       }));
     } catch (error) {
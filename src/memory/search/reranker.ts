@@ -0,0 +1,139 @@
+import {
+  AutoModelForSequenceClassification,
+  AutoTokenizer,
+  env,
+  type PreTrainedModel,
+  type PreTrainedTokenizer,
+  type Tensor,
+} from "@huggingface/transformers";
+import { join } from "node:path";
+import type { HybridSearchResult } from "./hybrid.js";
+import { TELETON_ROOT } from "../../workspace/paths.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Memory");
+
+// Same cache as LocalEmbeddingProvider (~/.teleton/models/)
+env.cacheDir = join(TELETON_ROOT, "models");
+
+/**
+ * Scores (query, passage) pairs; higher = more relevant, in [0, 1].
+ */
+export interface Reranker {
+  readonly model: string;
+  warmup?(): Promise<boolean>;
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+const encoders = new Map<string, Promise<CrossEncoder>>();
+
+function getCrossEncoder(model: string): Promise<CrossEncoder> {
+  let encoder = encoders.get(model);
+  if (!encoder) {
+    log.info(`Loading reranker model: ${model} (cache: ${env.cacheDir})`);
+    encoder = Promise.all([
+      AutoTokenizer.from_pretrained(model),
+      AutoModelForSequenceClassification.from_pretrained(model, { dtype: "fp32" }),
+    ])
+      .then(([tokenizer, classifier]) => {
+        log.info(`Reranker model ready`);
+        return { tokenizer, model: classifier };
+      })
+      .catch((err) => {
+        log.error(`Failed to load reranker model: ${(err as Error).message}`);
+        encoders.delete(model);
+        throw err;
+      });
+    encoders.set(model, encoder);
+  }
+  return encoder;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Local cross-encoder (e.g. MS MARCO MiniLM) run through ONNX Runtime, like
+ * LocalEmbeddingProvider. Reads query and passage together, so it ranks far
+ * better than cosine similarity, at the cost of one forward pass per pair.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly model: string;
+  private _disabled = false;
+
+  constructor(config: { model?: string } = {}) {
+    this.model = config.model || "Xenova/ms-marco-MiniLM-L-6-v2";
+  }
+
+  /**
+   * Download and load the model. On failure the reranker is disabled and
+   * score() returns nothing, so search keeps its hybrid order.
+   */
+  async warmup(): Promise<boolean> {
+    try {
+      await getCrossEncoder(this.model);
+      return true;
+    } catch {
+      log.warn(`Reranker model unavailable — keeping hybrid search order`);
+      this._disabled = true;
+      return false;
+    }
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (this._disabled || passages.length === 0) return [];
+
+    const { tokenizer, model } = await getCrossEncoder(this.model);
+    const inputs = tokenizer(
+      passages.map(() => query),
+      { text_pair: passages, padding: true, truncation: true }
+    );
+    const { logits } = (await model(inputs)) as { logits: Tensor };
+    const data = logits.data as Float32Array;
+    // One relevance logit per pair; multi-label heads put "relevant" last
+    const labels = logits.dims[1] ?? 1;
+
+    return passages.map((_, i) => sigmoid(data[i * labels + labels - 1]));
+  }
+}
+
+/**
+ * Re-score the top `topK` results with the reranker and blend:
+ * score = weight × rerank + (1 − weight) × hybrid. Results past topK keep
+ * their hybrid score. If the reranker fails, results are returned unchanged.
+ */
+export async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  results: HybridSearchResult[],
+  options: { topK: number; weight: number }
+): Promise<HybridSearchResult[]> {
+  const candidates = results.slice(0, options.topK);
+  if (candidates.length === 0) return results;
+
+  let scores: number[];
+  try {
+    scores = await reranker.score(
+      query,
+      candidates.map((r) => r.text)
+    );
+  } catch (error) {
+    log.warn({ err: error }, "Reranking failed, keeping hybrid order");
+    return results;
+  }
+  if (scores.length !== candidates.length) return results;
+
+  const reranked = candidates.map((r, i) => ({
+    ...r,
+    rerankScore: scores[i],
+    score: options.weight * scores[i] + (1 - options.weight) * r.score,
+  }));
+
+  return [...reranked.sort((a, b) => b.score - a.score), ...results.slice(options.topK)];
+}
@@ -0,0 +1,149 @@
+import type { EmbeddingProvider } from "../embeddings/provider.js";
+import type { HybridSearch, HybridSearchResult, KnowledgeSubjects } from "./hybrid.js";
+import { CrossEncoderReranker, rerankResults, type Reranker } from "./reranker.js";
+import { UtilityQueryRewriter, type QueryRewriter } from "./rewrite.js";
+import { getEffectiveApiKey } from "../../agent/client.js";
+import type { AgentConfig, RetrievalConfig } from "../../config/schema.js";
+import type { SupportedProvider } from "../../config/providers.js";
+
+/**
+ * Optional stages around hybrid search. Without a reranker or rewriter,
+ * results are exactly HybridSearch's.
+ */
+export interface RetrievalOptions {
+  vectorWeight?: number;
+  keywordWeight?: number;
+  reranker?: Reranker;
+  /** Hybrid candidates re-scored by the reranker */
+  rerankTopK?: number;
+  /** Share of the reranker score in the final score */
+  rerankWeight?: number;
+  rewriter?: QueryRewriter;
+  /** Results kept per rewritten query */
+  rewriteTopK?: number;
+  /** Score multiplier for results found through a rewritten query */
+  rewriteWeight?: number;
+}
+
+/** A query to search with: the user's own (weight 1) or a rewrite */
+export interface RetrievalQuery {
+  text: string;
+  embedding: number[];
+  weight: number;
+}
+
+export function retrievalOptionsFromConfig(
+  retrieval: RetrievalConfig,
+  agent: Pick<AgentConfig, "provider" | "api_key" | "utility_model">
+): RetrievalOptions {
+  return {
+    vectorWeight: retrieval.vector_weight,
+    keywordWeight: retrieval.keyword_weight,
+    reranker: retrieval.rerank.enabled
+      ? new CrossEncoderReranker({ model: retrieval.rerank.model })
+      : undefined,
+    rerankTopK: retrieval.rerank.top_k,
+    rerankWeight: retrieval.rerank.weight,
+    rewriter: retrieval.query_rewrite.enabled
+      ? new UtilityQueryRewriter({
+          apiKey: getEffectiveApiKey(agent.provider, agent.api_key),
+          provider: agent.provider as SupportedProvider,
+          utilityModel: agent.utility_model,
+          maxQueries: retrieval.query_rewrite.max_queries,
+        })
+      : undefined,
+    rewriteTopK: retrieval.query_rewrite.top_k,
+    rewriteWeight: retrieval.query_rewrite.weight,
+  };
+}
+
+/**
+ * Retrieval pipeline: query rewriting → hybrid search per query → merge →
+ * cross-encoder reranking against the original query.
+ */
+export class Retriever {
+  constructor(
+    private hybridSearch: HybridSearch,
+    private embedder: EmbeddingProvider,
+    private options: RetrievalOptions = {}
+  ) {}
+
+  /**
+   * The original query followed by its rewrites, embedded. Prepare once and
+   * reuse for knowledge and message search.
+   */
+  async prepareQueries(query: string): Promise<RetrievalQuery[]> {
+    const [embedding, rewrites] = await Promise.all([
+      this.embedder.embedQuery(query),
+      this.options.rewriter ? this.options.rewriter.rewrite(query) : Promise.resolve([]),
+    ]);
+    const queries: RetrievalQuery[] = [{ text: query, embedding, weight: 1 }];
+    if (rewrites.length === 0) return queries;
+
+    const embeddings = await this.embedder.embedBatch(rewrites);
+    const weight = this.options.rewriteWeight ?? 0.8;
+    for (const [i, text] of rewrites.entries()) {
+      queries.push({ text, embedding: embeddings[i] ?? [], weight });
+    }
+    return queries;
+  }
+
+  async searchKnowledge(
+    queries: RetrievalQuery[],
+    options: { limit?: number; subjects?: KnowledgeSubjects } = {}
+  ): Promise<HybridSearchResult[]> {
+    return this.retrieve(queries, options.limit ?? 10, (query, limit) =>
+      this.hybridSearch.searchKnowledge(query.text, query.embedding, {
+        limit,
+        vectorWeight: this.options.vectorWeight,
+        keywordWeight: this.options.keywordWeight,
+        subjects: options.subjects,
+      })
+    );
+  }
+
+  async searchMessages(
+    queries: RetrievalQuery[],
+    options: { limit?: number; chatId?: string } = {}
+  ): Promise<HybridSearchResult[]> {
+    return this.retrieve(queries, options.limit ?? 10, (query, limit) =>
+      this.hybridSearch.searchMessages(query.text, query.embedding, {
+        limit,
+        vectorWeight: this.options.vectorWeight,
+        keywordWeight: this.options.keywordWeight,
+        chatId: options.chatId,
+      })
+    );
+  }
+
+  private async retrieve(
+    queries: RetrievalQuery[],
+    limit: number,
+    search: (query: RetrievalQuery, limit: number) => Promise<HybridSearchResult[]>
+  ): Promise<HybridSearchResult[]> {
+    const { reranker } = this.options;
+    const rerankTopK = this.options.rerankTopK ?? 20;
+    // The reranker needs a wider candidate pool than the final cut
+    const candidates = reranker ? Math.max(limit, rerankTopK) : limit;
+
+    // A result found by several queries keeps its best weighted score
+    const byId = new Map<string, HybridSearchResult>();
+    for (const [i, query] of queries.entries()) {
+      const results = await search(query, i === 0 ? candidates : (this.options.rewriteTopK ?? 10));
+      for (const r of results) {
+        const weighted = { ...r, score: r.score * query.weight };
+        const existing = byId.get(r.id);
+        if (!existing || weighted.score > existing.score) byId.set(r.id, weighted);
+      }
+    }
+
+    let merged = Array.from(byId.values()).sort((a, b) => b.score - a.score);
+    if (reranker) {
+      merged = await rerankResults(reranker, queries[0].text, merged, {
+        topK: rerankTopK,
+        weight: this.options.rerankWeight ?? 0.7,
+      });
+    }
+    return merged.slice(0, limit);
+  }
+}
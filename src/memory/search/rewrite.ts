@@ -0,0 +1,90 @@
+import { complete, type Context } from "@mariozechner/pi-ai";
+import { getUtilityModel } from "../../agent/client.js";
+import { measureLlmCall } from "../../metrics/index.js";
+import type { SupportedProvider } from "../../config/providers.js";
+import { QUERY_REWRITE_TIMEOUT_MS } from "../../constants/timeouts.js";
+import { createLogger } from "../../utils/logger.js";
+
+const log = createLogger("Memory");
+
+/** Max tokens for the rewrite completion (a few short lines) */
+const QUERY_REWRITE_MAX_TOKENS = 200;
+
+/**
+ * Produces alternative phrasings of a search query (synonyms, expanded
+ * abbreviations, a standalone version of a follow-up question).
+ */
+export interface QueryRewriter {
+  rewrite(query: string): Promise<string[]>;
+}
+
+/**
+ * Parse the model's answer: one query per line, list markers and quotes
+ * removed, without duplicates of each other or of the original.
+ */
+export function parseRewrites(text: string, original: string, max: number): string[] {
+  const seen = new Set([original.trim().toLowerCase()]);
+  const queries: string[] = [];
+
+  for (const line of text.split("\n")) {
+    const query = line
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")
+      .replace(/^["'`]+|["'`]+$/g, "")
+      .trim();
+    const key = query.toLowerCase();
+    if (!query || seen.has(key)) continue;
+    seen.add(key);
+    queries.push(query);
+    if (queries.length >= max) break;
+  }
+  return queries;
+}
+
+/**
+ * Query rewriting with agent.utility_model. Any failure (timeout, provider
+ * error) yields no rewrites, so retrieval falls back to the original query.
+ */
+export class UtilityQueryRewriter implements QueryRewriter {
+  constructor(
+    private options: {
+      apiKey: string;
+      provider: SupportedProvider;
+      utilityModel?: string;
+      maxQueries: number;
+    }
+  ) {}
+
+  async rewrite(query: string): Promise<string[]> {
+    const model = getUtilityModel(this.options.provider, this.options.utilityModel);
+    const context: Context = {
+      messages: [
+        {
+          role: "user",
+          content: `Rewrite this search query for a knowledge base and chat history search.
+Give up to ${this.options.maxQueries} alternative queries, one per line, nothing else.
+Use synonyms, expand abbreviations, and turn follow-up questions into standalone ones.
+Keep names, numbers and addresses exactly as written.
+
+Query: ${query}`,
+          timestamp: Date.now(),
+        },
+      ],
+    };
+
+    try {
+      const response = await measureLlmCall(model, () =>
+        complete(model, context, {
+          apiKey: this.options.apiKey,
+          maxTokens: QUERY_REWRITE_MAX_TOKENS,
+          signal: AbortSignal.timeout(QUERY_REWRITE_TIMEOUT_MS),
+        })
+      );
+      const textContent = response.content.find((block) => block.type === "text");
+      const text = textContent?.type === "text" ? textContent.text : "";
+      return parseRewrites(text, query, this.options.maxQueries);
+    } catch (error) {
+      log.warn({ err: error }, "Query rewrite failed, searching with the original query");
+      return [];
+    }
+  }
+}
@@ -18,6 +18,20 @@ export interface TaskRow {
   payload: string | null;
   reason: string | null;
   scheduled_message_id: number | null;
+  recurrence: string | null;
+  max_runs: number | null;
+  run_count: number;
+  paused: number;
+}
+
+export interface TaskRunRow {
+  id: number;
+  task_id: string;
+  status: string;
+  started_at: number;
+  finished_at: number | null;
+  result: string | null;
+  error: string | null;
 }
 
 export interface SessionRow {
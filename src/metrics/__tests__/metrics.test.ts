@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { MetricsRegistry, OPENMETRICS_CONTENT_TYPE } from "../registry.js";
+import { metrics, measureLlmCall, llmRequests, llmTokens, llmCost } from "../index.js";
+import { createMetricsApp } from "../server.js";
+import { MetricsConfigSchema } from "../../config/schema.js";
+
+describe("MetricsRegistry", () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it("renders counters and gauges in OpenMetrics text format", () => {
+    const requests = registry.counter({
+      name: "app_requests",
+      help: "Requests",
+      labelNames: ["route"],
+    });
+    const depth = registry.gauge({ name: "app_depth", help: "Queue depth" });
+
+    requests.inc({ route: "/a" });
+    requests.inc({ route: "/a" }, 2);
+    requests.inc({ route: '/b"\n' });
+    depth.inc();
+    depth.inc();
+    depth.dec();
+
+    expect(registry.render()).toBe(
+      [
+        "# TYPE app_requests counter",
+        "# HELP app_requests Requests",
+        'app_requests_total{route="/a"} 3',
+        'app_requests_total{route="/b\\"\\n"} 1',
+        "# TYPE app_depth gauge",
+        "# HELP app_depth Queue depth",
+        "app_depth 1",
+        "# EOF",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("keeps cumulative histogram buckets with sum and count", () => {
+    const latency = registry.histogram({
+      name: "app_latency_seconds",
+      help: "Latency",
+      labelNames: ["tool"],
+      buckets: [0.1, 1],
+    });
+
+    latency.observe({ tool: "x" }, 0.05);
+    latency.observe({ tool: "x" }, 0.5);
+    latency.observe({ tool: "x" }, 3);
+
+    const lines = registry.render().split("\n");
+    expect(lines).toContain('app_latency_seconds_bucket{tool="x",le="0.1"} 1');
+    expect(lines).toContain('app_latency_seconds_bucket{tool="x",le="1"} 2');
+    expect(lines).toContain('app_latency_seconds_bucket{tool="x",le="+Inf"} 3');
+    expect(lines).toContain('app_latency_seconds_count{tool="x"} 3');
+    expect(lines).toContain('app_latency_seconds_sum{tool="x"} 3.55');
+  });
+
+  it("rejects bad names, duplicates, missing labels and decrements", () => {
+    expect(() => registry.counter({ name: "bad-name", help: "" })).toThrow(/Invalid metric name/);
+    expect(() => registry.histogram({ name: "h", help: "", labelNames: ["le"] })).toThrow(
+      /Invalid label name/
+    );
+    expect(() => registry.histogram({ name: "h2", help: "", buckets: [1, 1] })).toThrow(
+      /ascending/
+    );
+
+    const c = registry.counter({ name: "c", help: "", labelNames: ["a"] });
+    expect(() => registry.gauge({ name: "c", help: "" })).toThrow(/already registered/);
+    expect(() => c.inc({} as { a: string })).toThrow(/Missing label "a"/);
+    expect(() => c.inc({ a: "x" }, -1)).toThrow(/only increase/);
+  });
+
+  it("refreshes collected gauges on each render", () => {
+    let value = 1;
+    registry.gauge({ name: "live", help: "", collect: (g) => g.set(undefined, value) });
+
+    expect(registry.render()).toContain("live 1\n");
+    value = 5;
+    expect(registry.render()).toContain("live 5\n");
+  });
+});
+
+describe("measureLlmCall", () => {
+  const model = { provider: "anthropic", id: "claude-test" };
+  const labels = { provider: "anthropic", model: "claude-test" };
+
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it("records outcome, tokens and cost", async () => {
+    const message = {
+      stopReason: "stop",
+      usage: { input: 100, output: 20, cacheRead: 5, cacheWrite: 0, cost: { total: 0.01 } },
+    } as unknown as AssistantMessage;
+
+    await measureLlmCall(model, async () => message);
+    await measureLlmCall(model, async () => ({ ...message, stopReason: "error" }));
+    await expect(
+      measureLlmCall(model, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(llmRequests.get({ ...labels, status: "success" })).toBe(1);
+    expect(llmRequests.get({ ...labels, status: "error" })).toBe(2);
+    expect(llmTokens.get({ ...labels, type: "input" })).toBe(200);
+    expect(llmTokens.get({ ...labels, type: "cache_read" })).toBe(10);
+    expect(llmCost.get(labels)).toBeCloseTo(0.02);
+    expect(metrics.render()).toContain(
+      'teleton_llm_request_duration_seconds_count{provider="anthropic",model="claude-test"} 3'
+    );
+  });
+});
+
+describe("metrics endpoint", () => {
+  it("serves the registry on the configured path", async () => {
+    const app = createMetricsApp(MetricsConfigSchema.parse({ enabled: true }));
+
+    const res = await app.request("/metrics");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe(OPENMETRICS_CONTENT_TYPE);
+    const body = await res.text();
+    expect(body).toContain("# TYPE teleton_tool_executions counter");
+    expect(body.endsWith("# EOF\n")).toBe(true);
+
+    expect((await app.request("/other")).status).toBe(404);
+  });
+
+  it("requires the bearer token when one is configured", async () => {
+    const app = createMetricsApp(
+      MetricsConfigSchema.parse({ enabled: true, path: "/scrape", auth_token: "secret-token" })
+    );
+
+    expect((await app.request("/scrape")).status).toBe(401);
+    const bad = await app.request("/scrape", { headers: { Authorization: "Bearer nope" } });
+    expect(bad.status).toBe(401);
+    const ok = await app.request("/scrape", {
+      headers: { Authorization: "Bearer secret-token" },
+    });
+    expect(ok.status).toBe(200);
+  });
+});
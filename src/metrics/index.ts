@@ -0,0 +1,185 @@
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { MetricsRegistry } from "./registry.js";
+import { withSpan } from "../tracing/tracer.js";
+
+export * from "./registry.js";
+
+/** Process-wide registry scraped by the /metrics endpoint */
+export const metrics = new MetricsRegistry();
+
+const processStart = Date.now();
+
+// ── LLM ──────────────────────────────────────────────────────────────
+
+export const llmRequests = metrics.counter({
+  name: "teleton_llm_requests",
+  help: "LLM API calls by outcome",
+  labelNames: ["provider", "model", "status"],
+});
+
+export const llmRequestDuration = metrics.histogram({
+  name: "teleton_llm_request_duration_seconds",
+  help: "LLM API call latency",
+  labelNames: ["provider", "model"],
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300],
+});
+
+export const llmTokens = metrics.counter({
+  name: "teleton_llm_tokens",
+  help: "LLM tokens by type (input, output, cache_read, cache_write)",
+  labelNames: ["provider", "model", "type"],
+});
+
+export const llmCost = metrics.counter({
+  name: "teleton_llm_cost_usd",
+  help: "LLM spend in USD as reported by the provider pricing table",
+  labelNames: ["provider", "model"],
+});
+
+/**
+ * Time an LLM call and record its outcome, token usage and cost, as metrics
+ * and as an `llm.call` span. A thrown error and an `error` stop reason both
+ * count as failures.
+ */
+export function measureLlmCall(
+  model: { provider: string; id: string },
+  call: () => Promise<AssistantMessage>
+): Promise<AssistantMessage> {
+  const labels = { provider: model.provider, model: model.id };
+  const attributes = { "llm.provider": model.provider, "llm.model": model.id };
+
+  return withSpan(
+    "llm.call",
+    attributes,
+    async (span) => {
+      const stopTimer = llmRequestDuration.startTimer(labels);
+      let message: AssistantMessage;
+      try {
+        message = await call();
+      } catch (error) {
+        stopTimer();
+        llmRequests.inc({ ...labels, status: "error" });
+        throw error;
+      }
+      stopTimer();
+
+      const failed = message.stopReason === "error";
+      llmRequests.inc({ ...labels, status: failed ? "error" : "success" });
+      span.setAttribute("llm.stop_reason", message.stopReason);
+      if (failed) span.recordError(message.errorMessage ?? "LLM error");
+
+      const usage = message.usage;
+      if (usage) {
+        llmTokens.inc({ ...labels, type: "input" }, usage.input);
+        llmTokens.inc({ ...labels, type: "output" }, usage.output);
+        llmTokens.inc({ ...labels, type: "cache_read" }, usage.cacheRead ?? 0);
+        llmTokens.inc({ ...labels, type: "cache_write" }, usage.cacheWrite ?? 0);
+        llmCost.inc(labels, usage.cost?.total ?? 0);
+        span.setAttributes({
+          "llm.tokens.input": usage.input,
+          "llm.tokens.output": usage.output,
+          "llm.tokens.cache_read": usage.cacheRead,
+          "llm.cost_usd": usage.cost?.total,
+        });
+      }
+      return message;
+    },
+    "client"
+  );
+}
+
+// ── Tools ────────────────────────────────────────────────────────────
+
+export const toolExecutions = metrics.counter({
+  name: "teleton_tool_executions",
+  help: "Tool executions by outcome (success, error, timeout)",
+  labelNames: ["tool", "status"],
+});
+
+export const toolDuration = metrics.histogram({
+  name: "teleton_tool_duration_seconds",
+  help: "Tool execution latency",
+  labelNames: ["tool"],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 90],
+});
+
+// ── Telegram ─────────────────────────────────────────────────────────
+
+export const chatQueueDepth = metrics.gauge({
+  name: "teleton_chat_queue_depth",
+  help: "Messages queued or being processed across all chats",
+});
+
+export const chatQueueActiveChats = metrics.gauge({
+  name: "teleton_chat_queue_active_chats",
+  help: "Chats with at least one message queued or being processed",
+});
+
+export const debounceFlushes = metrics.counter({
+  name: "teleton_debounce_flushes",
+  help: "Debounce buffer flushes by reason (timer, full, bypass, shutdown)",
+  labelNames: ["reason"],
+});
+
+export const debounceFlushedMessages = metrics.counter({
+  name: "teleton_debounce_flushed_messages",
+  help: "Messages handed to the agent by debounce flushes",
+});
+
+export const floodWaits = metrics.counter({
+  name: "teleton_telegram_flood_waits",
+  help: "Telegram FLOOD_WAIT errors by outcome (retried, aborted)",
+  labelNames: ["outcome"],
+});
+
+export const floodWaitSeconds = metrics.counter({
+  name: "teleton_telegram_flood_wait_seconds",
+  help: "Seconds spent waiting out Telegram FLOOD_WAIT errors",
+});
+
+// ── Memory ───────────────────────────────────────────────────────────
+
+export const compactions = metrics.counter({
+  name: "teleton_compactions",
+  help: "Session compactions",
+});
+
+export const compactionDuration = metrics.histogram({
+  name: "teleton_compaction_duration_seconds",
+  help: "Session compaction latency, including the summary call",
+  buckets: [0.5, 1, 2, 5, 10, 30, 60, 120],
+});
+
+export const embeddingCacheLookups = metrics.counter({
+  name: "teleton_embedding_cache_lookups",
+  help: "Embedding cache lookups by result (hit, miss)",
+  labelNames: ["result"],
+});
+
+// ── Deals ────────────────────────────────────────────────────────────
+
+export const dealTransitions = metrics.counter({
+  name: "teleton_deal_transitions",
+  help: "Deal state transitions by new status",
+  labelNames: ["status"],
+});
+
+// ── Process ──────────────────────────────────────────────────────────
+
+metrics.gauge({
+  name: "teleton_process_uptime_seconds",
+  help: "Seconds since the process started",
+  collect: (g) => g.set(undefined, (Date.now() - processStart) / 1000),
+});
+
+metrics.gauge({
+  name: "teleton_process_resident_memory_bytes",
+  help: "Resident set size",
+  collect: (g) => g.set(undefined, process.memoryUsage.rss()),
+});
+
+metrics.gauge({
+  name: "teleton_process_heap_used_bytes",
+  help: "V8 heap in use",
+  collect: (g) => g.set(undefined, process.memoryUsage().heapUsed),
+});
@@ -0,0 +1,274 @@
+/**
+ * Minimal in-process metrics registry with OpenMetrics text exposition.
+ *
+ * Counters, gauges and histograms keep one series per label combination.
+ * Label values must stay low-cardinality (provider, model, tool name, status):
+ * never label by chat, user or message id.
+ */
+
+type LabelValues<L extends string> = Record<L, string>;
+
+/** Samples are collected as [suffix, labels, value] */
+type Sample = [suffix: string, labels: Array<[string, string]>, value: number];
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export interface MetricOptions<L extends string> {
+  name: string;
+  help: string;
+  labelNames?: readonly L[];
+}
+
+export interface GaugeOptions<L extends string> extends MetricOptions<L> {
+  /** Called before each scrape to refresh the gauge (e.g. process memory) */
+  collect?: (gauge: Gauge<L>) => void;
+}
+
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  /** Upper bounds, ascending; +Inf is implicit */
+  buckets?: readonly number[];
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10] as const;
+
+const NAME_RE = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+abstract class Metric<L extends string, S> {
+  abstract readonly type: MetricType;
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly L[];
+  protected series = new Map<string, { labels: Array<[string, string]>; state: S }>();
+
+  constructor(options: MetricOptions<L>) {
+    if (!NAME_RE.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    for (const label of options.labelNames ?? []) {
+      if (!LABEL_RE.test(label) || label === "le") {
+        throw new Error(`Invalid label name "${label}" on ${options.name}`);
+      }
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  protected abstract initial(): S;
+
+  protected state(labels?: LabelValues<L>): S {
+    const pairs = this.labelNames.map((name): [string, string] => {
+      const value = labels?.[name];
+      if (value === undefined) {
+        throw new Error(`Missing label "${name}" on ${this.name}`);
+      }
+      return [name, String(value)];
+    });
+    const key = pairs.map(([, v]) => v).join("\u0000");
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: pairs, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /** Called by the registry right before collect() */
+  refresh(): void {}
+
+  abstract collect(): Sample[];
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Counter<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = "counter";
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  inc(labels?: LabelValues<L>, value = 1): void {
+    if (value < 0 || !Number.isFinite(value)) {
+      throw new Error(`Counter ${this.name} can only increase by a finite amount`);
+    }
+    this.state(labels).value += value;
+  }
+
+  get(labels?: LabelValues<L>): number {
+    return this.state(labels).value;
+  }
+
+  collect(): Sample[] {
+    return [...this.series.values()].map(({ labels, state }) => ["_total", labels, state.value]);
+  }
+}
+
+export class Gauge<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = "gauge";
+  private collectFn?: (gauge: Gauge<L>) => void;
+
+  constructor(options: GaugeOptions<L>) {
+    super(options);
+    this.collectFn = options.collect;
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  set(labels: LabelValues<L> | undefined, value: number): void {
+    this.state(labels).value = value;
+  }
+
+  inc(labels?: LabelValues<L>, value = 1): void {
+    this.state(labels).value += value;
+  }
+
+  dec(labels?: LabelValues<L>, value = 1): void {
+    this.state(labels).value -= value;
+  }
+
+  get(labels?: LabelValues<L>): number {
+    return this.state(labels).value;
+  }
+
+  refresh(): void {
+    this.collectFn?.(this);
+  }
+
+  collect(): Sample[] {
+    return [...this.series.values()].map(({ labels, state }) => ["", labels, state.value]);
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends Metric<L, HistogramState> {
+  readonly type = "histogram";
+  readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions<L>) {
+    super(options);
+    const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)];
+    if (buckets.some((b, i) => i > 0 && b <= buckets[i - 1])) {
+      throw new Error(`Histogram ${this.name} buckets must be strictly ascending`);
+    }
+    this.buckets = buckets;
+  }
+
+  protected initial(): HistogramState {
+    return { counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+  }
+
+  observe(labels: LabelValues<L> | undefined, value: number): void {
+    const state = this.state(labels);
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) state.counts[i]++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  /** Start a timer; the returned function observes the elapsed seconds */
+  startTimer(labels?: LabelValues<L>): () => number {
+    const start = performance.now();
+    return () => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  collect(): Sample[] {
+    const samples: Sample[] = [];
+    for (const { labels, state } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        samples.push(["_bucket", [...labels, ["le", formatValue(bound)]], state.counts[i]]);
+      });
+      samples.push(["_bucket", [...labels, ["le", "+Inf"]], state.count]);
+      samples.push(["_count", labels, state.count]);
+      samples.push(["_sum", labels, state.sum]);
+    }
+    return samples;
+  }
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Array<[string, string]>): string {
+  if (labels.length === 0) return "";
+  return `{${labels.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+type RegisteredMetric = Pick<
+  Metric<string, unknown>,
+  "name" | "help" | "type" | "refresh" | "collect" | "reset"
+>;
+
+export class MetricsRegistry {
+  private metrics = new Map<string, RegisteredMetric>();
+
+  counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.register(new Counter<L>(options));
+  }
+
+  gauge<L extends string = never>(options: GaugeOptions<L>): Gauge<L> {
+    return this.register(new Gauge<L>(options));
+  }
+
+  histogram<L extends string = never>(options: HistogramOptions<L>): Histogram<L> {
+    return this.register(new Histogram<L>(options));
+  }
+
+  private register<M extends RegisteredMetric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /** Render every metric in the OpenMetrics text format */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      metric.refresh();
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      for (const [suffix, labels, value] of metric.collect()) {
+        lines.push(`${metric.name}${suffix}${formatLabels(labels)} ${formatValue(value)}`);
+      }
+    }
+    lines.push("# EOF");
+    return lines.join("\n") + "\n";
+  }
+
+  /** Drop all recorded series (tests) */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+}
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
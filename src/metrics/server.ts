@@ -0,0 +1,62 @@
+import { Hono } from "hono";
+import { serve } from "@hono/node-server";
+import type { MetricsConfig } from "../config/schema.js";
+import { safeCompare } from "../webui/middleware/auth.js";
+import { createLogger } from "../utils/logger.js";
+import { metrics, OPENMETRICS_CONTENT_TYPE, type MetricsRegistry } from "./index.js";
+
+const log = createLogger("Metrics");
+
+/** Scrape endpoint; everything else is a 404 */
+export function createMetricsApp(config: MetricsConfig, registry: MetricsRegistry = metrics) {
+  const app = new Hono();
+
+  app.get(config.path, (c) => {
+    if (config.auth_token) {
+      const header = c.req.header("Authorization") ?? "";
+      const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+      if (!safeCompare(token, config.auth_token)) {
+        return c.text("Unauthorized", 401, { "WWW-Authenticate": "Bearer" });
+      }
+    }
+    return c.body(registry.render(), 200, { "Content-Type": OPENMETRICS_CONTENT_TYPE });
+  });
+
+  return app;
+}
+
+export class MetricsServer {
+  private server: ReturnType<typeof serve> | null = null;
+
+  constructor(private config: MetricsConfig) {}
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        this.server = serve(
+          {
+            fetch: createMetricsApp(this.config).fetch,
+            hostname: this.config.host,
+            port: this.config.port,
+          },
+          (info) => {
+            log.info(`Metrics endpoint: http://${info.address}:${info.port}${this.config.path}`);
+            resolve();
+          }
+        );
+        this.server.once("error", reject);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+}
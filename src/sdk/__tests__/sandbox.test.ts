@@ -0,0 +1,384 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { existsSync, mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { build } from "esbuild";
+import Database from "better-sqlite3";
+import { createPluginSDK } from "../index.js";
+import { PluginSandbox, pathAllowed } from "../sandbox/host.js";
+import { hostAllowed } from "../sandbox/protocol.js";
+import { Tracer, setTracer, traceparent, type SpanData } from "../../tracing/tracer.js";
+import { NO_PERMISSIONS, type PluginPermissions } from "../../agent/tools/plugin-validator.js";
+
+// The sandbox runs the built runner (tsx cannot run under the permission model)
+const PLUGIN_SOURCE = `
+import { readFileSync } from "node:fs";
+import dns, { lookup } from "node:dns";
+
+export const manifest = { name: "probe", version: "1.0.0" };
+
+const fail = (e) => ({ success: false, error: [e.name, e.code ?? e.cause?.code].join(":") });
+
+export function migrate(db) {
+  db.exec("CREATE TABLE IF NOT EXISTS notes (text TEXT NOT NULL)");
+}
+
+export const tools = (sdk) => [
+  {
+    name: "probe_storage",
+    description: "storage round trip",
+    execute: async (params) => {
+      sdk.storage.set("key", params.value);
+      return { success: true, data: sdk.storage.get("key") };
+    },
+  },
+  {
+    name: "probe_db",
+    description: "plugin database",
+    execute: async (params, context) => {
+      context.db.prepare("INSERT INTO notes (text) VALUES (?)").run(params.value);
+      return { success: true, data: context.db.prepare("SELECT text FROM notes").all() };
+    },
+  },
+  {
+    name: "probe_send",
+    description: "send a message",
+    execute: async () => {
+      try {
+        return { success: true, data: await sdk.telegram.sendMessage("123", "hi") };
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  },
+  {
+    name: "probe_read",
+    description: "read a file",
+    execute: async (params) => {
+      try {
+        return { success: true, data: readFileSync(params.path, "utf-8") };
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  },
+  {
+    name: "probe_sql",
+    description: "run SQL on the plugin database",
+    execute: async (params, context) => {
+      try {
+        if (params.via === "prepare") context.db.prepare(params.sql).run();
+        else if (params.via === "pragma") context.db.pragma(params.sql);
+        else context.db.exec(params.sql);
+        return { success: true };
+      } catch (e) {
+        return { success: false, error: e.message };
+      }
+    },
+  },
+  {
+    name: "probe_dns",
+    description: "resolve a host name",
+    execute: async (params) => {
+      const queries = {
+        lookup: () => new Promise((ok, ko) => lookup(params.host, (e, a) => (e ? ko(e) : ok(a)))),
+        promises: () => dns.promises.lookup(params.host),
+        resolver: () => new dns.promises.Resolver().resolveTxt(params.host),
+        reverse: () => new Promise((ok, ko) => dns.reverse(params.host, (e, a) => (e ? ko(e) : ok(a)))),
+      };
+      try {
+        return { success: true, data: await queries[params.via]() };
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  },
+  {
+    name: "probe_fetch",
+    description: "fetch a URL",
+    execute: async (params) => {
+      try {
+        return { success: true, data: await (await fetch(params.url)).text() };
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  },
+];
+`;
+
+const mockBridge = {
+  isAvailable: vi.fn(() => true),
+  getClient: () => ({ getClient: () => ({}), getMe: vi.fn() }),
+  sendMessage: vi.fn(async () => ({ id: 42 })),
+} as any;
+
+describe("PluginSandbox", () => {
+  let dir: string;
+  let runnerPath: string;
+  let pluginDir: string;
+  let outsideDir: string;
+  let server: Server;
+  let port: number;
+  let db: InstanceType<typeof Database>;
+  let sandbox: PluginSandbox | null = null;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "teleton-sandbox-"));
+    runnerPath = join(dir, "runner", "plugin-sandbox.js");
+    await build({
+      entryPoints: [join(import.meta.dirname, "../sandbox/runner.ts")],
+      bundle: true,
+      platform: "node",
+      format: "esm",
+      outfile: runnerPath,
+      logLevel: "silent",
+    });
+
+    pluginDir = join(dir, "plugins", "probe");
+    mkdirSync(pluginDir, { recursive: true });
+    writeFileSync(join(pluginDir, "index.js"), PLUGIN_SOURCE);
+
+    outsideDir = join(dir, "outside");
+    mkdirSync(outsideDir);
+    writeFileSync(join(outsideDir, "secret.txt"), "top secret");
+
+    server = createServer((_req, res) => res.end("pong"));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await sandbox?.close();
+    sandbox = null;
+    db?.close();
+    mockBridge.sendMessage.mockClear();
+  });
+
+  async function startSandbox(permissions: PluginPermissions = NO_PERMISSIONS) {
+    db = new Database(":memory:");
+    sandbox = PluginSandbox.spawn({
+      name: "probe",
+      modulePath: join(pluginDir, "index.js"),
+      root: pluginDir,
+      permissions,
+      maxMemoryMb: 128,
+      runnerPath,
+    });
+    const description = await sandbox.describe();
+    const setup = { pluginName: "probe", config: {}, pluginConfig: {} };
+    await sandbox.setup(
+      createPluginSDK({ bridge: mockBridge }, { ...setup, db, sanitizedConfig: {} }),
+      setup
+    );
+    await sandbox.migrate();
+    return { sandbox, description };
+  }
+
+  const context = { chatId: "123", senderId: 1, isGroup: false };
+
+  it("describes the plugin and lists its tools", async () => {
+    const { sandbox, description } = await startSandbox();
+
+    expect(description.manifest).toEqual({ name: "probe", version: "1.0.0" });
+    expect(description.tools).toBe("function");
+    expect(description.hooks).toEqual(["migrate"]);
+
+    const tools = await sandbox.listTools();
+    expect(tools.map((t) => t.name)).toEqual([
+      "probe_storage",
+      "probe_db",
+      "probe_send",
+      "probe_read",
+      "probe_sql",
+      "probe_dns",
+      "probe_fetch",
+    ]);
+    expect(tools.every((t) => t.executable)).toBe(true);
+  });
+
+  it("serves sdk.storage and the plugin database from the agent", async () => {
+    const { sandbox } = await startSandbox();
+    await sandbox.listTools();
+
+    const stored = await sandbox.execute("probe_storage", { value: { n: 1 } }, context);
+    expect(stored).toEqual({ success: true, data: { n: 1 } });
+
+    const rows = await sandbox.execute("probe_db", { value: "hello" }, context);
+    expect(rows).toEqual({ success: true, data: [{ text: "hello" }] });
+    expect(db.prepare("SELECT text FROM notes").all()).toEqual([{ text: "hello" }]);
+  });
+
+  it("refuses undeclared capabilities and allows declared ones", async () => {
+    const denied = await startSandbox();
+    await denied.sandbox.listTools();
+    expect(await denied.sandbox.execute("probe_send", {}, context)).toEqual({
+      success: false,
+      error: "PluginSDKError:PERMISSION_DENIED",
+    });
+    expect(mockBridge.sendMessage).not.toHaveBeenCalled();
+    await denied.sandbox.close();
+    db.close();
+
+    const allowed = await startSandbox({ ...NO_PERMISSIONS, capabilities: ["telegram.send"] });
+    await allowed.sandbox.listTools();
+    expect(await allowed.sandbox.execute("probe_send", {}, context)).toEqual({
+      success: true,
+      data: 42,
+    });
+  });
+
+  it("traces SDK calls under the tool call's span", async () => {
+    const spans: SpanData[] = [];
+    setTracer(new Tracer([{ export: (span) => spans.push(span), shutdown: async () => {} }], 1));
+    try {
+      const { sandbox } = await startSandbox({
+        ...NO_PERMISSIONS,
+        capabilities: ["telegram.send"],
+      });
+      await sandbox.listTools();
+      const trace = { traceId: "a".repeat(32), spanId: "b".repeat(16) };
+      const traced = {
+        ...context,
+        trace: { ...trace, traceparent: traceparent(trace.traceId, trace.spanId) },
+      };
+
+      expect(await sandbox.execute("probe_send", {}, traced)).toEqual({ success: true, data: 42 });
+      expect(spans).toEqual([
+        expect.objectContaining({
+          name: "sdk.telegram.sendMessage",
+          traceId: trace.traceId,
+          parentSpanId: trace.spanId,
+          attributes: { "plugin.name": "probe" },
+        }),
+      ]);
+
+      await sandbox.execute("probe_send", {}, context);
+      expect(spans).toHaveLength(1);
+    } finally {
+      setTracer(null);
+    }
+  });
+
+  it("limits file reads to the plugin directory and declared paths", async () => {
+    const path = join(outsideDir, "secret.txt");
+
+    const denied = await startSandbox();
+    await denied.sandbox.listTools();
+    expect(await denied.sandbox.execute("probe_read", { path }, context)).toEqual({
+      success: false,
+      error: "Error:ERR_ACCESS_DENIED",
+    });
+    await denied.sandbox.close();
+    db.close();
+
+    const allowed = await startSandbox({ ...NO_PERMISSIONS, fs: [outsideDir] });
+    await allowed.sandbox.listTools();
+    expect(await allowed.sandbox.execute("probe_read", { path }, context)).toEqual({
+      success: true,
+      data: "top secret",
+    });
+  });
+
+  it("keeps plugin SQL on the plugin database", async () => {
+    const target = join(outsideDir, "escape.db");
+    const { sandbox } = await startSandbox();
+    await sandbox.listTools();
+
+    const attempts = [
+      { sql: `ATTACH '${target}' AS m` },
+      { sql: `attach database '${target}' as m` },
+      { sql: `SELECT 1; /* x */ ATTACH '${target}' AS m` },
+      { sql: `ATTACH '${target}' AS m`, via: "prepare" },
+      { sql: "DETACH m" },
+      { sql: `VACUUM INTO '${target}'` },
+      { sql: `vacuum main\n into '${target}'`, via: "prepare" },
+      { sql: `user_version; ATTACH '${target}' AS m`, via: "pragma" },
+    ];
+    for (const attempt of attempts) {
+      expect(await sandbox.execute("probe_sql", attempt, context)).toEqual({
+        success: false,
+        error: expect.stringMatching(/not allowed in plugin context/),
+      });
+    }
+    expect(existsSync(target)).toBe(false);
+    expect(db.pragma("database_list")).toHaveLength(1);
+
+    expect(await sandbox.execute("probe_sql", { sql: "VACUUM" }, context)).toEqual({
+      success: true,
+    });
+  });
+
+  it("limits network access to declared hosts", async () => {
+    const url = `http://127.0.0.1:${port}/`;
+
+    const denied = await startSandbox();
+    await denied.sandbox.listTools();
+    expect(await denied.sandbox.execute("probe_fetch", { url }, context)).toEqual({
+      success: false,
+      error: "TypeError:PERMISSION_DENIED",
+    });
+    await denied.sandbox.close();
+    db.close();
+
+    const allowed = await startSandbox({ ...NO_PERMISSIONS, network: ["127.0.0.1"] });
+    await allowed.sandbox.listTools();
+    expect(await allowed.sandbox.execute("probe_fetch", { url }, context)).toEqual({
+      success: true,
+      data: "pong",
+    });
+  });
+
+  it("limits DNS queries to declared hosts", async () => {
+    const denied = await startSandbox();
+    await denied.sandbox.listTools();
+    for (const via of ["lookup", "promises", "resolver"]) {
+      expect(
+        await denied.sandbox.execute("probe_dns", { via, host: "leak.example.com" }, context)
+      ).toEqual({ success: false, error: "PluginSDKError:PERMISSION_DENIED" });
+    }
+    expect(
+      await denied.sandbox.execute("probe_dns", { via: "reverse", host: "127.0.0.1" }, context)
+    ).toEqual({ success: false, error: "PluginSDKError:PERMISSION_DENIED" });
+    await denied.sandbox.close();
+    db.close();
+
+    const allowed = await startSandbox({ ...NO_PERMISSIONS, network: ["localhost"] });
+    await allowed.sandbox.listTools();
+    expect(
+      await allowed.sandbox.execute("probe_dns", { via: "promises", host: "localhost" }, context)
+    ).toMatchObject({ success: true, data: { address: expect.any(String) } });
+  });
+
+  it("fails pending calls when the process is closed", async () => {
+    const { sandbox } = await startSandbox();
+    await sandbox.close();
+
+    expect(sandbox.running).toBe(false);
+    await expect(sandbox.listTools()).rejects.toThrow(/exited/);
+  });
+});
+
+describe("sandbox allowlists", () => {
+  it("matches hosts exactly or by *.domain subdomains", () => {
+    expect(hostAllowed("api.example.com", ["api.example.com"])).toBe(true);
+    expect(hostAllowed("API.example.com.", ["api.example.com"])).toBe(true);
+    expect(hostAllowed("example.com", ["*.example.com"])).toBe(false);
+    expect(hostAllowed("a.example.com", ["*.example.com"])).toBe(true);
+    expect(hostAllowed("evilexample.com", ["*.example.com"])).toBe(false);
+  });
+
+  it("matches paths inside declared directories only", () => {
+    expect(pathAllowed("/data/plugin/file.txt", ["/data/plugin"])).toBe(true);
+    expect(pathAllowed("/data/plugin", ["/data/plugin"])).toBe(true);
+    expect(pathAllowed("/data/plugin-other/file.txt", ["/data/plugin"])).toBe(false);
+    expect(pathAllowed("/data/plugin/../secret", ["/data/plugin"])).toBe(false);
+  });
+});
@@ -67,6 +67,7 @@ vi.mock("../../ton/format-transactions.js", () => ({
 // ─── Imports (after mocks) ────────────────────────────────────────
 
 import { createTonSDK } from "../ton.js";
+import { setTonNetwork } from "../../ton/network.js";
 import {
   getWalletAddress,
   getWalletBalance,
@@ -156,6 +157,23 @@ describe("createTonSDK", () => {
       });
     });
 
+    describe("getNetwork()", () => {
+      afterEach(() => {
+        setTonNetwork("mainnet");
+      });
+
+      it("reports the configured network and its explorer", () => {
+        expect(sdk.getNetwork()).toBe("mainnet");
+        expect(sdk.getExplorerUrl("transaction", "ab")).toBe(
+          "https://tonviewer.com/transaction/ab"
+        );
+
+        setTonNetwork("testnet");
+        expect(sdk.getNetwork()).toBe("testnet");
+        expect(sdk.getExplorerUrl("address", "kQx")).toBe("https://testnet.tonviewer.com/kQx");
+      });
+    });
+
     describe("getBalance()", () => {
       const balance = { balance: "12.50", balanceNano: "12500000000" };
 
@@ -263,6 +281,7 @@ describe("createTonSDK", () => {
           amount: 1.5,
           comment: "hello",
           bounce: false,
+          tool: "sdk.sendTON",
         });
       });
 
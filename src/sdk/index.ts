@@ -7,6 +7,7 @@ import { createTelegramSDK } from "./telegram.js";
 import { createSecretsSDK } from "./secrets.js";
 import { createStorageSDK } from "./storage.js";
 import { createLogger as pinoCreateLogger } from "../utils/logger.js";
+import { traceMethods } from "../tracing/tracer.js";
 
 const sdkLog = pinoCreateLogger("SDK");
 
@@ -63,8 +64,18 @@ export interface CreatePluginSDKOptions {
   pluginConfig: Record<string, unknown>;
 }
 
-/** Block ATTACH/DETACH to prevent cross-plugin DB access */
-const BLOCKED_SQL_RE = /\b(ATTACH|DETACH)\s+DATABASE\b/i;
+/**
+ * Block statements that reach other database files: ATTACH (with or without
+ * DATABASE), DETACH and VACUUM INTO. better-sqlite3 has no authorizer or
+ * SQLITE_LIMIT_ATTACHED, so the SQL is checked before it is prepared.
+ */
+const BLOCKED_SQL_RE = /\b(ATTACH|DETACH)\b|\bVACUUM\b[\s\S]*\bINTO\b/i;
+
+function checkSql(sql: string): void {
+  if (BLOCKED_SQL_RE.test(sql)) {
+    throw new Error("ATTACH, DETACH and VACUUM INTO are not allowed in plugin context");
+  }
+}
 
 function createSafeDb(db: Database.Database): Database.Database {
   return new Proxy(db, {
@@ -72,20 +83,22 @@ function createSafeDb(db: Database.Database): Database.Database {
       const value = Reflect.get(target, prop, receiver);
       if (prop === "exec") {
         return (sql: string) => {
-          if (BLOCKED_SQL_RE.test(sql)) {
-            throw new Error("ATTACH/DETACH DATABASE is not allowed in plugin context");
-          }
+          checkSql(sql);
           return target.exec(sql);
         };
       }
       if (prop === "prepare") {
         return (sql: string) => {
-          if (BLOCKED_SQL_RE.test(sql)) {
-            throw new Error("ATTACH/DETACH DATABASE is not allowed in plugin context");
-          }
+          checkSql(sql);
           return target.prepare(sql);
         };
       }
+      if (prop === "pragma") {
+        return (source: string, options?: Database.PragmaOptions) => {
+          checkSql(source);
+          return target.pragma(source, options);
+        };
+      }
       return typeof value === "function" ? value.bind(target) : value;
     },
   });
@@ -95,8 +108,11 @@ export function createPluginSDK(deps: SDKDependencies, opts: CreatePluginSDKOpti
   const log = createLogger(opts.pluginName);
 
   const safeDb = opts.db ? createSafeDb(opts.db) : null;
-  const ton = Object.freeze(createTonSDK(log, safeDb));
-  const telegram = Object.freeze(createTelegramSDK(deps.bridge, log));
+  const traceAttrs = { "plugin.name": opts.pluginName };
+  const ton = Object.freeze(traceMethods("sdk.ton", traceAttrs, createTonSDK(log, safeDb)));
+  const telegram = Object.freeze(
+    traceMethods("sdk.telegram", traceAttrs, createTelegramSDK(deps.bridge, log))
+  );
   const secrets = Object.freeze(createSecretsSDK(opts.pluginName, opts.pluginConfig, log));
   const storage = safeDb ? Object.freeze(createStorageSDK(safeDb)) : null;
   const frozenLog = Object.freeze(log);
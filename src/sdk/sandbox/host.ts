@@ -0,0 +1,425 @@
+/**
+ * Agent side of a sandboxed plugin: spawns the runner in its own Node process
+ * under the permission model, forwards lifecycle calls to it, and serves its
+ * SDK calls from a real PluginSDK — refusing anything the manifest does not
+ * declare.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, realpathSync } from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import type { Readable, Duplex } from "node:stream";
+import type { PluginSDK } from "@teleton-agent/sdk";
+import { PluginSDKError, SDK_VERSION } from "@teleton-agent/sdk";
+import type { PluginCapability, PluginPermissions } from "../../agent/tools/plugin-validator.js";
+import { expandPath } from "../../config/loader.js";
+import {
+  PLUGIN_SANDBOX_CALL_TIMEOUT_MS,
+  PLUGIN_SANDBOX_STOP_GRACE_MS,
+  TOOL_EXECUTION_TIMEOUT_MS,
+} from "../../constants/timeouts.js";
+import { createLogger } from "../../utils/logger.js";
+import { withTraceparent } from "../../tracing/tracer.js";
+import {
+  SANDBOX_ENV,
+  SYNC_SDK_METHODS,
+  RpcPeer,
+  decodeFrames,
+  encodeFrame,
+  hostAllowed,
+  isSdkMethod,
+  toRpcError,
+  type SandboxStartParams,
+  type SyncRequest,
+  type SyncResponse,
+} from "./protocol.js";
+
+const TELEGRAM_SEND_METHODS = [
+  "sendMessage",
+  "editMessage",
+  "sendDice",
+  "sendReaction",
+  "deleteMessage",
+  "forwardMessage",
+  "pinMessage",
+  "scheduleMessage",
+  "sendPhoto",
+  "sendVideo",
+  "sendVoice",
+  "sendFile",
+  "sendGif",
+  "sendSticker",
+  "createPoll",
+  "createQuiz",
+  "banUser",
+  "unbanUser",
+  "muteUser",
+  "sendGift",
+  "buyResaleGift",
+  "sendStory",
+  "setTyping",
+];
+
+/** SDK methods that need a declared capability; everything else is read-only */
+const METHOD_CAPABILITIES: Record<string, PluginCapability> = {
+  "ton.sendTON": "ton.send",
+  "ton.sendJetton": "ton.send",
+  ...Object.fromEntries(
+    TELEGRAM_SEND_METHODS.map((m) => [`telegram.${m}`, "telegram.send" as const])
+  ),
+};
+
+/** Media argument position; a string there is a path or URL the agent would open */
+const MEDIA_ARGUMENTS: Record<string, number> = {
+  "telegram.sendPhoto": 1,
+  "telegram.sendVideo": 1,
+  "telegram.sendVoice": 1,
+  "telegram.sendFile": 1,
+  "telegram.sendGif": 1,
+  "telegram.sendSticker": 1,
+  "telegram.sendStory": 0,
+};
+
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has("--permission")
+  ? "--permission"
+  : "--experimental-permission";
+
+export interface PluginSandboxOptions {
+  /** Plugin entry name, for logs */
+  name: string;
+  /** Plugin entry module */
+  modulePath: string;
+  /** Plugin directory, or the file itself for single-file plugins */
+  root: string;
+  permissions: PluginPermissions;
+  maxMemoryMb: number;
+  /** Built runner script (defaults to dist/plugin-sandbox.js) */
+  runnerPath?: string;
+}
+
+export interface PluginDescription {
+  manifest: unknown;
+  tools: "array" | "function" | "none";
+  hooks: Array<"migrate" | "start" | "stop" | "onMessage" | "onCallbackQuery">;
+}
+
+export interface SandboxToolInfo {
+  name: unknown;
+  description: unknown;
+  parameters?: Record<string, unknown>;
+  scope?: unknown;
+  category?: unknown;
+  parallelSafe?: unknown;
+  executable: boolean;
+}
+
+export interface SandboxSetup {
+  pluginName: string;
+  config: Record<string, unknown>;
+  pluginConfig: Record<string, unknown>;
+}
+
+function findRunner(): string {
+  const here = dirname(fileURLToPath(import.meta.url));
+  const candidates = [
+    join(here, "plugin-sandbox.js"), // dist/ (bundled)
+    resolve(here, "../plugin-sandbox.js"), // dist/cli/
+    resolve(here, "../../../dist/plugin-sandbox.js"), // src/sdk/sandbox/ with tsx
+  ];
+  const found = candidates.find((p) => existsSync(p));
+  if (!found) {
+    throw new Error(
+      "Plugin sandbox runner not found (dist/plugin-sandbox.js): run the build first"
+    );
+  }
+  return found;
+}
+
+function resolvePath(path: string): string {
+  const absolute = resolve(expandPath(path));
+  try {
+    return realpathSync(absolute);
+  } catch {
+    return absolute;
+  }
+}
+
+/** Whether `path` is one of the declared fs paths or inside one */
+export function pathAllowed(path: string, allowed: string[]): boolean {
+  const target = resolvePath(path);
+  return allowed.some((p) => {
+    const root = resolvePath(p);
+    return target === root || target.startsWith(root.endsWith(sep) ? root : root + sep);
+  });
+}
+
+function denied(message: string): PluginSDKError {
+  return new PluginSDKError(message, "PERMISSION_DENIED");
+}
+
+export class PluginSandbox {
+  private rpc: RpcPeer;
+  private sdk: PluginSDK | null = null;
+  private syncInput: Buffer = Buffer.alloc(0);
+  private callbackAnswers = new Map<number, (text?: string, alert?: boolean) => Promise<void>>();
+  private nextAnswerId = 1;
+  private exited = false;
+  private closing = false;
+  private log;
+
+  private constructor(
+    private child: ChildProcess,
+    private options: PluginSandboxOptions
+  ) {
+    this.log = createLogger(`Plugin:${options.name}`);
+    this.rpc = new RpcPeer(
+      child as unknown as ConstructorParameters<typeof RpcPeer>[0],
+      (method, args, traceparent) => this.handleRequest(method, args, traceparent),
+      (method, args) => this.handleNotify(method, args)
+    );
+
+    child.on("error", (err) => this.rpc.close(err));
+    child.on("exit", (code, signal) => {
+      this.exited = true;
+      this.rpc.close(new Error(`Plugin sandbox exited (${signal ?? `code ${code}`})`));
+      if (!this.closing) this.log.warn(`Sandbox process exited (${signal ?? `code ${code}`})`);
+    });
+
+    (child.stdio[3] as Duplex).on("data", (chunk: Buffer) => this.receiveSync(chunk));
+    this.forwardOutput(child.stdout, "info");
+    this.forwardOutput(child.stderr, "warn");
+  }
+
+  /**
+   * Start the plugin process. It may read the runner and the plugin root, read
+   * and write the declared fs paths, and connect to the declared hosts.
+   */
+  static spawn(options: PluginSandboxOptions): PluginSandbox {
+    const runnerPath = options.runnerPath ?? findRunner();
+    const fsPaths = options.permissions.fs.map(resolvePath);
+    const args = [
+      PERMISSION_FLAG,
+      `--allow-fs-read=${dirname(runnerPath)}`,
+      `--allow-fs-read=${options.root}`,
+      ...fsPaths.flatMap((p) => [`--allow-fs-read=${p}`, `--allow-fs-write=${p}`]),
+      `--max-old-space-size=${options.maxMemoryMb}`,
+      "--no-warnings",
+      runnerPath,
+    ];
+    const params: SandboxStartParams = {
+      modulePath: options.modulePath,
+      network: options.permissions.network,
+    };
+
+    // No inherited environment: API keys stay in the agent, secrets go through sdk.secrets
+    const child = spawn(process.execPath, args, {
+      cwd: dirname(options.modulePath),
+      env: {
+        [SANDBOX_ENV]: JSON.stringify(params),
+        NODE_ENV: process.env.NODE_ENV ?? "production",
+        ...(process.env.TZ && { TZ: process.env.TZ }),
+      },
+      stdio: ["ignore", "pipe", "pipe", "pipe", "ipc"],
+      serialization: "advanced",
+    });
+    return new PluginSandbox(child, options);
+  }
+
+  get running(): boolean {
+    return !this.exited;
+  }
+
+  describe(): Promise<PluginDescription> {
+    return this.rpc.call("describe", [], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  /** Serve SDK calls from `sdk` and build the plugin's SDK proxy */
+  async setup(sdk: PluginSDK, setup: SandboxSetup): Promise<void> {
+    this.sdk = sdk;
+    await this.rpc.call(
+      "setup",
+      [{ ...setup, sdkVersion: SDK_VERSION }],
+      PLUGIN_SANDBOX_CALL_TIMEOUT_MS
+    );
+  }
+
+  async migrate(): Promise<void> {
+    await this.rpc.call("migrate", [], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  listTools(): Promise<SandboxToolInfo[]> {
+    return this.rpc.call("tools", [], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  execute<T>(tool: string, params: unknown, context: Record<string, unknown>): Promise<T> {
+    return this.rpc.call("execute", [tool, params, context], TOOL_EXECUTION_TIMEOUT_MS);
+  }
+
+  async start(): Promise<void> {
+    await this.rpc.call("start", [], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  async stop(): Promise<void> {
+    await this.rpc.call("stop", [], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  async onMessage(event: unknown): Promise<void> {
+    await this.rpc.call("onMessage", [event], PLUGIN_SANDBOX_CALL_TIMEOUT_MS);
+  }
+
+  async onCallbackQuery(event: {
+    answer: (text?: string, alert?: boolean) => Promise<void>;
+  }): Promise<void> {
+    const { answer, ...data } = event;
+    const answerId = this.nextAnswerId++;
+    this.callbackAnswers.set(answerId, answer);
+    try {
+      await this.rpc.call(
+        "onCallbackQuery",
+        [{ ...data, answerId }],
+        PLUGIN_SANDBOX_CALL_TIMEOUT_MS
+      );
+    } finally {
+      this.callbackAnswers.delete(answerId);
+    }
+  }
+
+  /** End the process: disconnect, then kill if it has not exited within the grace period */
+  async close(): Promise<void> {
+    if (this.exited) return;
+    this.closing = true;
+    const exited = new Promise<void>((resolve) => this.child.once("exit", () => resolve()));
+    const timer = setTimeout(() => this.child.kill("SIGKILL"), PLUGIN_SANDBOX_STOP_GRACE_MS);
+    if (this.child.connected) this.child.disconnect();
+    else this.child.kill();
+    await exited;
+    clearTimeout(timer);
+  }
+
+  // ─── Calls from the plugin ─────────────────────────────────────────
+
+  /** SDK calls run in the span of the tool call that made them, so they are traced */
+  private handleRequest(method: string, args: unknown[], traceparent?: string): unknown {
+    if (method === "callback.answer") {
+      const [answerId, text, alert] = args as [number, string | undefined, boolean | undefined];
+      const answer = this.callbackAnswers.get(answerId);
+      if (!answer) throw new Error("Callback query already handled");
+      return answer(text, alert);
+    }
+    if (SYNC_SDK_METHODS.has(method)) throw new Error(`"${method}" is synchronous`);
+    return withTraceparent(traceparent, () => this.invokeSdk(method, args));
+  }
+
+  private handleNotify(method: string, args: unknown[]): void {
+    if (method !== "log") return;
+    const [level, message] = args as [string, string];
+    switch (level) {
+      case "warn":
+        this.log.warn(message);
+        break;
+      case "error":
+        this.log.error(message);
+        break;
+      case "debug":
+        this.log.debug(message);
+        break;
+      default:
+        this.log.info(message);
+    }
+  }
+
+  private receiveSync(chunk: Buffer): void {
+    const { frames, rest } = decodeFrames(Buffer.concat([this.syncInput, chunk]));
+    this.syncInput = rest;
+    for (const frame of frames) {
+      const request = frame as SyncRequest;
+      let response: SyncResponse;
+      try {
+        response = {
+          result: withTraceparent(request.traceparent, () =>
+            this.handleSync(request.method, request.args)
+          ),
+        };
+      } catch (err) {
+        response = { error: toRpcError(err) };
+      }
+      (this.child.stdio[3] as Duplex).write(encodeFrame(response));
+    }
+  }
+
+  private handleSync(method: string, args: unknown[]): unknown {
+    if (method.startsWith("db.")) return this.invokeDb(method, args);
+    if (!SYNC_SDK_METHODS.has(method)) throw new Error(`"${method}" is asynchronous`);
+    return this.invokeSdk(method, args);
+  }
+
+  private invokeSdk(method: string, args: unknown[]): unknown {
+    const sdk = this.requireSdk();
+    if (!isSdkMethod(method)) {
+      throw new PluginSDKError(`Unknown SDK method "${method}"`, "OPERATION_FAILED");
+    }
+    this.checkPermission(method, args);
+
+    const [namespace, name] = method.split(".") as [keyof PluginSDK, string];
+    const target = sdk[namespace] as unknown as Record<string, (...a: unknown[]) => unknown> | null;
+    if (!target) throw new PluginSDKError(`sdk.${namespace} is unavailable`, "OPERATION_FAILED");
+    return target[name](...args);
+  }
+
+  private invokeDb(method: string, args: unknown[]): unknown {
+    const db = this.requireSdk().db;
+    if (!db) throw new PluginSDKError("Plugin database is unavailable", "OPERATION_FAILED");
+    switch (method) {
+      case "db.exec":
+        db.exec(args[0] as string);
+        return null;
+      case "db.run":
+      case "db.get":
+      case "db.all": {
+        const [sql, params] = args as [string, unknown[]];
+        const statement = db.prepare(sql);
+        if (method === "db.run") return statement.run(...params);
+        return method === "db.get" ? statement.get(...params) : statement.all(...params);
+      }
+      case "db.pragma": {
+        const [source, simple] = args as [string, boolean];
+        return db.pragma(source, { simple });
+      }
+      default:
+        throw new Error(`Unknown database call "${method}"`);
+    }
+  }
+
+  private checkPermission(method: string, args: unknown[]): void {
+    const { permissions } = this.options;
+    const capability = METHOD_CAPABILITIES[method];
+    if (capability && !permissions.capabilities.includes(capability)) {
+      throw denied(
+        `sdk.${method}() requires the "${capability}" permission in manifest.permissions`
+      );
+    }
+
+    const media = MEDIA_ARGUMENTS[method] !== undefined ? args[MEDIA_ARGUMENTS[method]] : undefined;
+    if (typeof media !== "string") return;
+    if (/^https?:\/\//i.test(media)) {
+      const host = new URL(media).hostname;
+      if (!hostAllowed(host, permissions.network)) {
+        throw denied(`Network access to ${host} is not declared in manifest.permissions.network`);
+      }
+    } else if (!pathAllowed(media, permissions.fs)) {
+      throw denied(`File ${media} is outside manifest.permissions.fs`);
+    }
+  }
+
+  private requireSdk(): PluginSDK {
+    if (!this.sdk) throw new Error("Sandbox is not set up");
+    return this.sdk;
+  }
+
+  private forwardOutput(stream: Readable | null, level: "info" | "warn"): void {
+    if (!stream) return;
+    createInterface({ input: stream }).on("line", (line) => this.log[level](line));
+  }
+}
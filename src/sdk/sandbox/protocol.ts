@@ -0,0 +1,299 @@
+/**
+ * Wire protocol between the agent and a sandboxed plugin process.
+ *
+ * Async calls travel in both directions over the IPC channel with advanced
+ * serialization, so Buffers, bigints and Dates survive. The plugin process also
+ * makes synchronous calls (sdk.db, sdk.storage, sdk.secrets and the sync
+ * getters) over SYNC_FD: it writes one frame and blocks until the reply frame
+ * arrives.
+ *
+ * The sandbox runner loads this module, so it may only import Node builtins.
+ */
+
+import { serialize, deserialize } from "node:v8";
+
+/** File descriptor of the synchronous call channel in the plugin process */
+export const SYNC_FD = 3;
+
+/** Environment variable carrying the runner's start parameters */
+export const SANDBOX_ENV = "TELETON_SANDBOX";
+
+export interface SandboxStartParams {
+  modulePath: string;
+  network: string[];
+}
+
+export interface RpcError {
+  message: string;
+  code?: string;
+}
+
+export type RpcMessage =
+  | { type: "request"; id: number; method: string; args: unknown[]; traceparent?: string }
+  | { type: "response"; id: number; result?: unknown; error?: RpcError }
+  | { type: "notify"; method: string; args: unknown[] };
+
+export interface SyncRequest {
+  method: string;
+  args: unknown[];
+  /** Trace of the tool call that made the request */
+  traceparent?: string;
+}
+
+export interface SyncResponse {
+  result?: unknown;
+  error?: RpcError;
+}
+
+/** Error raised on one side of the channel and rethrown on the other */
+export class RemoteError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    // SDK errors keep their name so plugin code can tell them apart
+    this.name = code ? "PluginSDKError" : "Error";
+  }
+}
+
+export function toRpcError(err: unknown): RpcError {
+  if (err instanceof Error) {
+    const code = (err as { code?: unknown }).code;
+    return { message: err.message, ...(typeof code === "string" && { code }) };
+  }
+  return { message: String(err) };
+}
+
+/** Frame: 4-byte little-endian length, then the v8-serialized value */
+export function encodeFrame(value: unknown): Buffer {
+  const payload = serialize(value);
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(payload.length);
+  return Buffer.concat([header, payload]);
+}
+
+/** Split the complete frames off the front of `buffer` */
+export function decodeFrames(buffer: Buffer): { frames: unknown[]; rest: Buffer } {
+  const frames: unknown[] = [];
+  let offset = 0;
+  while (buffer.length - offset >= 4) {
+    const length = buffer.readUInt32LE(offset);
+    if (buffer.length - offset - 4 < length) break;
+    frames.push(deserialize(buffer.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+interface RpcEndpoint {
+  send(message: RpcMessage): unknown;
+  on(event: "message", listener: (message: unknown) => void): unknown;
+}
+
+type RpcHandler = (method: string, args: unknown[], traceparent?: string) => unknown;
+
+/** Request/response and notifications over an IPC endpoint (process or ChildProcess) */
+export class RpcPeer {
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (err: Error) => void }
+  >();
+  private closed: Error | null = null;
+
+  constructor(
+    private endpoint: RpcEndpoint,
+    private handleRequest: RpcHandler,
+    private handleNotify: RpcHandler = () => {}
+  ) {
+    endpoint.on("message", (message) => this.receive(message as RpcMessage));
+  }
+
+  call<T = unknown>(
+    method: string,
+    args: unknown[] = [],
+    timeoutMs?: number,
+    traceparent?: string
+  ): Promise<T> {
+    if (this.closed) return Promise.reject(this.closed);
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer =
+        timeoutMs !== undefined
+          ? setTimeout(() => {
+              this.pending.delete(id);
+              reject(new Error(`Sandbox call "${method}" timed out after ${timeoutMs}ms`));
+            }, timeoutMs)
+          : undefined;
+      this.pending.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value as T);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      });
+      this.post({ type: "request", id, method, args, ...(traceparent && { traceparent }) });
+    });
+  }
+
+  notify(method: string, args: unknown[] = []): void {
+    if (!this.closed) this.post({ type: "notify", method, args });
+  }
+
+  /** Fail pending and future calls */
+  close(reason: Error): void {
+    this.closed ??= reason;
+    for (const { reject } of this.pending.values()) reject(reason);
+    this.pending.clear();
+  }
+
+  private post(message: RpcMessage): void {
+    try {
+      this.endpoint.send(message);
+    } catch (err) {
+      if (message.type === "request") {
+        this.pending.get(message.id)?.reject(new RemoteError(toRpcError(err).message));
+        this.pending.delete(message.id);
+      }
+    }
+  }
+
+  private receive(message: RpcMessage): void {
+    switch (message.type) {
+      case "request":
+        void Promise.resolve()
+          .then(() => this.handleRequest(message.method, message.args, message.traceparent))
+          .then(
+            (result) => this.post({ type: "response", id: message.id, result }),
+            (err) => this.post({ type: "response", id: message.id, error: toRpcError(err) })
+          );
+        break;
+      case "response": {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+        this.pending.delete(message.id);
+        if (message.error)
+          pending.reject(new RemoteError(message.error.message, message.error.code));
+        else pending.resolve(message.result);
+        break;
+      }
+      case "notify":
+        try {
+          void this.handleNotify(message.method, message.args);
+        } catch {
+          // Notifications have no reply
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * SDK methods a sandboxed plugin can reach, by namespace. Methods in
+ * SYNC_SDK_METHODS are synchronous in the SDK and use the blocking channel.
+ */
+export const SDK_METHODS = {
+  ton: [
+    "getAddress",
+    "getNetwork",
+    "getExplorerUrl",
+    "getBalance",
+    "getPrice",
+    "sendTON",
+    "getTransactions",
+    "verifyPayment",
+    "getJettonBalances",
+    "getJettonInfo",
+    "sendJetton",
+    "getJettonWalletAddress",
+    "getNftItems",
+    "getNftInfo",
+    "toNano",
+    "fromNano",
+    "validateAddress",
+  ],
+  telegram: [
+    "sendMessage",
+    "editMessage",
+    "sendDice",
+    "sendReaction",
+    "getMessages",
+    "getMe",
+    "isAvailable",
+    "deleteMessage",
+    "forwardMessage",
+    "pinMessage",
+    "searchMessages",
+    "scheduleMessage",
+    "getReplies",
+    "sendPhoto",
+    "sendVideo",
+    "sendVoice",
+    "sendFile",
+    "sendGif",
+    "sendSticker",
+    "downloadMedia",
+    "getChatInfo",
+    "getUserInfo",
+    "resolveUsername",
+    "getParticipants",
+    "createPoll",
+    "createQuiz",
+    "banUser",
+    "unbanUser",
+    "muteUser",
+    "getStarsBalance",
+    "sendGift",
+    "getAvailableGifts",
+    "getMyGifts",
+    "getResaleGifts",
+    "buyResaleGift",
+    "sendStory",
+    "setTyping",
+  ],
+  secrets: ["get", "require", "has"],
+  storage: ["get", "set", "delete", "has", "clear"],
+} as const;
+
+export type SdkNamespace = keyof typeof SDK_METHODS;
+
+export const SYNC_SDK_METHODS: ReadonlySet<string> = new Set([
+  "ton.getAddress",
+  "ton.getNetwork",
+  "ton.getExplorerUrl",
+  "ton.toNano",
+  "ton.fromNano",
+  "ton.validateAddress",
+  "telegram.getMe",
+  "telegram.isAvailable",
+  "secrets.get",
+  "secrets.require",
+  "secrets.has",
+  "storage.get",
+  "storage.set",
+  "storage.delete",
+  "storage.has",
+  "storage.clear",
+]);
+
+export function isSdkMethod(method: string): boolean {
+  const [namespace, name] = method.split(".");
+  const methods = SDK_METHODS[namespace as SdkNamespace] as readonly string[] | undefined;
+  return methods?.includes(name) ?? false;
+}
+
+/** Whether `host` is in the allowlist; `*.example.com` matches subdomains only */
+export function hostAllowed(host: string, allowed: string[]): boolean {
+  const normalized = host
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  return allowed.some((pattern) => {
+    const p = pattern.toLowerCase();
+    return p.startsWith("*.") ? normalized.endsWith(p.slice(1)) : normalized === p;
+  });
+}
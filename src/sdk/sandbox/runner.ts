@@ -0,0 +1,416 @@
+/**
+ * Entry point of a sandboxed plugin process (started by PluginSandbox).
+ *
+ * The process runs under the Node permission model: it can read the plugin's
+ * own files and the paths declared in manifest.permissions.fs, and nothing
+ * else; child processes, workers and native addons are off. This runner adds
+ * the network allowlist (connections and DNS queries) on top, then imports the plugin and serves lifecycle
+ * calls from the agent. The PluginSDK handed to the plugin forwards every call
+ * to the agent, which refuses undeclared capabilities.
+ */
+
+import net from "node:net";
+import dgram from "node:dgram";
+import dns from "node:dns";
+import { syncBuiltinESMExports } from "node:module";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readSync, writeSync } from "node:fs";
+import { pathToFileURL } from "node:url";
+import {
+  SANDBOX_ENV,
+  SDK_METHODS,
+  SYNC_FD,
+  SYNC_SDK_METHODS,
+  RemoteError,
+  RpcPeer,
+  decodeFrames,
+  encodeFrame,
+  hostAllowed,
+  type SandboxStartParams,
+  type SdkNamespace,
+  type SyncResponse,
+} from "./protocol.js";
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+interface PluginExports {
+  tools?: unknown;
+  manifest?: unknown;
+  migrate?: (db: unknown) => void;
+  start?: (ctx: unknown) => Promise<void>;
+  stop?: () => Promise<void>;
+  onMessage?: (event: unknown) => Promise<void>;
+  onCallbackQuery?: (event: unknown) => Promise<void>;
+}
+
+interface ToolDef {
+  name?: unknown;
+  description?: unknown;
+  parameters?: unknown;
+  scope?: unknown;
+  category?: unknown;
+  parallelSafe?: unknown;
+  execute?: unknown;
+}
+
+const params = JSON.parse(process.env[SANDBOX_ENV] ?? "{}") as SandboxStartParams;
+delete process.env[SANDBOX_ENV];
+
+installNetworkGuard(params.network ?? []);
+
+// ─── Network guard ──────────────────────────────────────────────────
+
+function denied(target: string): RemoteError {
+  return new RemoteError(
+    `Network access to ${target} is not declared in manifest.permissions.network`,
+    "PERMISSION_DENIED"
+  );
+}
+
+/** Host or socket path of a Socket#connect call, in any of its signatures */
+function connectTarget(args: unknown[]): { host?: string; path?: string } {
+  const first = Array.isArray(args[0]) ? args[0][0] : args[0];
+  if (first && typeof first === "object") {
+    const opts = first as { host?: string; path?: string };
+    if (opts.path) return { path: opts.path };
+    return { host: opts.host ?? "localhost" };
+  }
+  if (typeof first === "string" && !/^\d+$/.test(first)) return { path: first };
+  return { host: typeof args[1] === "string" ? args[1] : "localhost" };
+}
+
+/**
+ * Every TCP/TLS connection (fetch, http, https, net, tls) goes through
+ * Socket#connect; refuse hosts outside the allowlist and all IPC sockets.
+ */
+function installNetworkGuard(allowed: string[]): void {
+  const connect = net.Socket.prototype.connect as AnyFunction;
+  net.Socket.prototype.connect = function (this: net.Socket, ...args: unknown[]) {
+    const target = connectTarget(args);
+    if (target.path !== undefined || !hostAllowed(target.host ?? "", allowed)) {
+      const err = denied(target.path ?? target.host ?? "unknown host");
+      process.nextTick(() => this.destroy(err));
+      return this;
+    }
+    return connect.apply(this, args);
+  } as typeof net.Socket.prototype.connect;
+
+  dgram.createSocket = (() => {
+    throw denied("UDP sockets");
+  }) as typeof dgram.createSocket;
+
+  for (const target of [dns, dns.Resolver.prototype]) guardResolvers(target, allowed, false);
+  for (const target of [dns.promises, dns.promises.Resolver.prototype]) {
+    guardResolvers(target, allowed, true);
+  }
+
+  // Named imports of node: builtins in the plugin see the patched functions
+  syncBuiltinESMExports();
+}
+
+/**
+ * A DNS query carries data out even without a connection; refuse names (and
+ * reverse lookups of addresses) outside the allowlist. Connections to allowed
+ * hosts still resolve through the patched lookup.
+ */
+function guardResolvers(target: object, allowed: string[], promises: boolean): void {
+  const methods = target as Record<string, AnyFunction>;
+  for (const name of [
+    "lookup",
+    "lookupService",
+    "resolve",
+    "resolve4",
+    "resolve6",
+    "resolveAny",
+    "resolveCaa",
+    "resolveCname",
+    "resolveMx",
+    "resolveNaptr",
+    "resolveNs",
+    "resolvePtr",
+    "resolveSoa",
+    "resolveSrv",
+    "resolveTxt",
+    "reverse",
+  ]) {
+    const original = methods[name];
+    if (typeof original !== "function") continue;
+    methods[name] = function (this: unknown, host: unknown, ...rest: unknown[]) {
+      if (typeof host !== "string" || !hostAllowed(host, allowed)) {
+        const err = denied(`DNS lookup of ${String(host)}`);
+        if (promises) return Promise.reject(err);
+        throw err;
+      }
+      return original.call(this, host, ...rest);
+    };
+  }
+}
+
+// ─── Calls to the agent ─────────────────────────────────────────────
+
+const rpc = new RpcPeer(process as unknown as ConstructorParameters<typeof RpcPeer>[0], (m, a) =>
+  handle(m, a)
+);
+
+/** traceparent of the tool call being executed, sent along with its SDK calls */
+const traceContext = new AsyncLocalStorage<string>();
+
+const readBuffer = Buffer.alloc(64 * 1024);
+const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+function writeAll(data: Buffer): void {
+  let offset = 0;
+  while (offset < data.length) {
+    try {
+      offset += writeSync(SYNC_FD, data, offset);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EAGAIN") throw err;
+      Atomics.wait(sleeper, 0, 0, 1);
+    }
+  }
+}
+
+/** Blocking call to the agent; only for methods that are synchronous in the SDK */
+function callSync(method: string, args: unknown[]): unknown {
+  writeAll(encodeFrame({ method, args, traceparent: traceContext.getStore() }));
+  let received = Buffer.alloc(0);
+  for (;;) {
+    const { frames } = decodeFrames(received);
+    if (frames.length > 0) {
+      const response = frames[0] as SyncResponse;
+      if (response.error) throw new RemoteError(response.error.message, response.error.code);
+      return response.result;
+    }
+    let n: number;
+    try {
+      n = readSync(SYNC_FD, readBuffer, 0, readBuffer.length, null);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EAGAIN") throw err;
+      Atomics.wait(sleeper, 0, 0, 1);
+      continue;
+    }
+    if (n === 0) throw new RemoteError("Agent closed the sandbox channel");
+    received = Buffer.concat([received, readBuffer.subarray(0, n)]);
+  }
+}
+
+// ─── PluginSDK proxy ────────────────────────────────────────────────
+
+function createNamespace(namespace: SdkNamespace): Record<string, AnyFunction> {
+  const methods: Record<string, AnyFunction> = {};
+  for (const name of SDK_METHODS[namespace]) {
+    const method = `${namespace}.${name}`;
+    methods[name] = SYNC_SDK_METHODS.has(method)
+      ? (...args) => callSync(method, args)
+      : (...args) => rpc.call(method, args, undefined, traceContext.getStore());
+  }
+  return methods;
+}
+
+class RemoteStatement {
+  constructor(private sql: string) {}
+  run(...args: unknown[]) {
+    return callSync("db.run", [this.sql, args]);
+  }
+  get(...args: unknown[]) {
+    return callSync("db.get", [this.sql, args]);
+  }
+  all(...args: unknown[]) {
+    return callSync("db.all", [this.sql, args]) as unknown[];
+  }
+  iterate(...args: unknown[]) {
+    return this.all(...args)[Symbol.iterator]();
+  }
+}
+
+/** The subset of better-sqlite3 plugins use, executed by the agent on the plugin's DB */
+function createRemoteDb(name: string) {
+  const db = {
+    name,
+    open: true,
+    inTransaction: false,
+    exec(sql: string) {
+      callSync("db.exec", [sql]);
+      return db;
+    },
+    prepare(sql: string) {
+      return new RemoteStatement(sql);
+    },
+    pragma(source: string, options?: { simple?: boolean }) {
+      return callSync("db.pragma", [source, options?.simple ?? false]);
+    },
+    transaction<T extends AnyFunction>(fn: T) {
+      return (...args: Parameters<T>) => {
+        db.exec("BEGIN");
+        db.inTransaction = true;
+        try {
+          const result = fn(...args);
+          db.exec("COMMIT");
+          return result;
+        } catch (err) {
+          db.exec("ROLLBACK");
+          throw err;
+        } finally {
+          db.inTransaction = false;
+        }
+      };
+    },
+  };
+  return db;
+}
+
+interface PluginSetup {
+  pluginName: string;
+  sdkVersion: string;
+  config: Record<string, unknown>;
+  pluginConfig: Record<string, unknown>;
+}
+
+/** Log lines go to the agent's logger under the plugin's name */
+function createLog() {
+  const send =
+    (level: string) =>
+    (...args: unknown[]) =>
+      rpc.notify("log", [level, args.map(String).join(" ")]);
+  return { info: send("info"), warn: send("warn"), error: send("error"), debug: send("debug") };
+}
+
+function createSdk(setup: PluginSetup, db: unknown) {
+  const telegram = {
+    ...createNamespace("telegram"),
+    getRawClient() {
+      throw new RemoteError(
+        'sdk.telegram.getRawClient() requires the "telegram.raw" permission in manifest.permissions',
+        "PERMISSION_DENIED"
+      );
+    },
+  };
+  return Object.freeze({
+    version: setup.sdkVersion,
+    ton: Object.freeze(createNamespace("ton")),
+    telegram: Object.freeze(telegram),
+    secrets: Object.freeze(createNamespace("secrets")),
+    storage: Object.freeze(createNamespace("storage")),
+    db,
+    config: Object.freeze(setup.config),
+    pluginConfig: Object.freeze(setup.pluginConfig),
+    log: Object.freeze(createLog()),
+  });
+}
+
+// ─── Lifecycle ──────────────────────────────────────────────────────
+
+const loaded: Promise<PluginExports> = import(pathToFileURL(params.modulePath).href);
+// Reported by describe(); keep the rejection from surfacing as unhandled meanwhile
+loaded.catch(() => {});
+
+let plugin: PluginExports = {};
+let setup: PluginSetup | null = null;
+let sdk: ReturnType<typeof createSdk> | null = null;
+let db: ReturnType<typeof createRemoteDb> | null = null;
+const tools = new Map<string, AnyFunction>();
+
+/** Plain-data copy for values that must cross the channel (drops functions) */
+function plain(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function requireSetup(): PluginSetup {
+  if (!setup) throw new Error("Sandbox is not set up");
+  return setup;
+}
+
+async function handle(method: string, args: unknown[]): Promise<unknown> {
+  switch (method) {
+    case "describe": {
+      plugin = await loaded;
+      return {
+        manifest: plain(plugin.manifest),
+        tools:
+          typeof plugin.tools === "function"
+            ? "function"
+            : Array.isArray(plugin.tools)
+              ? "array"
+              : "none",
+        hooks: (["migrate", "start", "stop", "onMessage", "onCallbackQuery"] as const).filter(
+          (hook) => typeof plugin[hook] === "function"
+        ),
+      };
+    }
+
+    case "setup":
+      setup = args[0] as PluginSetup;
+      db = createRemoteDb(setup.pluginName);
+      sdk = createSdk(setup, db);
+      return null;
+
+    case "migrate":
+      plugin.migrate?.(db);
+      return null;
+
+    case "tools": {
+      requireSetup();
+      const defs = (
+        typeof plugin.tools === "function" ? (plugin.tools as AnyFunction)(sdk) : plugin.tools
+      ) as ToolDef[];
+      tools.clear();
+      return (Array.isArray(defs) ? defs : []).map((def) => {
+        if (def && typeof def.name === "string" && typeof def.execute === "function") {
+          tools.set(def.name, def.execute as AnyFunction);
+        }
+        return {
+          name: def?.name,
+          description: def?.description,
+          parameters: plain(def?.parameters),
+          scope: def?.scope,
+          category: def?.category,
+          parallelSafe: def?.parallelSafe,
+          executable: typeof def?.execute === "function",
+        };
+      });
+    }
+
+    case "execute": {
+      const [name, toolParams, context] = args as [string, unknown, Record<string, unknown>];
+      const execute = tools.get(name);
+      if (!execute) throw new Error(`Unknown tool "${name}"`);
+      const trace = context.trace as { traceparent?: string } | undefined;
+      if (!trace?.traceparent) return await execute(toolParams, { ...context, db });
+      return await traceContext.run(trace.traceparent, () =>
+        execute(toolParams, { ...context, db })
+      );
+    }
+
+    case "start": {
+      const { config, pluginConfig } = requireSetup();
+      await plugin.start?.({ bridge: null, db, config, pluginConfig, log: createLog().info });
+      return null;
+    }
+
+    case "stop":
+      await plugin.stop?.();
+      return null;
+
+    case "onMessage":
+      await plugin.onMessage?.(args[0]);
+      return null;
+
+    case "onCallbackQuery": {
+      const { answerId, ...event } = args[0] as { answerId: number } & Record<string, unknown>;
+      await plugin.onCallbackQuery?.({
+        ...event,
+        answer: (text?: string, alert?: boolean) =>
+          rpc.call("callback.answer", [answerId, text, alert]),
+      });
+      return null;
+    }
+
+    default:
+      throw new Error(`Unknown sandbox method "${method}"`);
+  }
+}
+
+process.on("unhandledRejection", (reason) => {
+  rpc.notify("log", ["error", `Unhandled rejection: ${String(reason)}`]);
+});
+process.on("disconnect", () => process.exit(0));
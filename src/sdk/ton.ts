@@ -22,9 +22,11 @@ import {
   getKeyPair,
 } from "../ton/wallet-service.js";
 import { sendTon } from "../ton/transfer.js";
+import { withSpendingPolicy, SpendingPolicyError } from "../ton/spending-policy.js";
 import { PAYMENT_TOLERANCE_RATIO } from "../constants/limits.js";
 import { withBlockchainRetry } from "../utils/retry.js";
 import { tonapiFetch } from "../constants/api-endpoints.js";
+import { getTonNetwork, explorerUrl } from "../ton/network.js";
 
 const DEFAULT_MAX_AGE_MINUTES = 10;
 
@@ -62,6 +64,14 @@ export function createTonSDK(log: PluginLogger, db: Database.Database | null): T
       }
     },
 
+    getNetwork() {
+      return getTonNetwork();
+    },
+
+    getExplorerUrl(kind, id) {
+      return explorerUrl(kind, id);
+    },
+
     async getBalance(address?: string): Promise<TonBalance | null> {
       try {
         const addr = address ?? getWalletAddress();
@@ -106,6 +116,7 @@ export function createTonSDK(log: PluginLogger, db: Database.Database | null): T
           amount,
           comment,
           bounce: false,
+          tool: "sdk.sendTON",
         });
 
         if (!txRef) {
@@ -391,36 +402,57 @@ export function createTonSDK(log: PluginLogger, db: Database.Database | null): T
         .storeMaybeRef(comment ? forwardPayload : null)
         .endCell();
 
-      const keyPair = await getKeyPair();
-      if (!keyPair) {
-        throw new PluginSDKError("Wallet key derivation failed", "OPERATION_FAILED");
-      }
+      const send = async (): Promise<JettonSendResult> => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          throw new PluginSDKError("Wallet key derivation failed", "OPERATION_FAILED");
+        }
+
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
 
-      const wallet = WalletContractV5R1.create({
-        workchain: 0,
-        publicKey: keyPair.publicKey,
-      });
-
-      const endpoint = await getCachedHttpEndpoint();
-      const client = new TonClient({ endpoint });
-      const walletContract = client.open(wallet);
-      const seqno = await walletContract.getSeqno();
-
-      await walletContract.sendTransfer({
-        seqno,
-        secretKey: keyPair.secretKey,
-        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-        messages: [
-          internal({
-            to: Address.parse(senderJettonWallet),
-            value: toNano("0.05"),
-            body: messageBody,
-            bounce: true,
-          }),
-        ],
-      });
-
-      return { success: true, seqno };
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const walletContract = client.open(wallet);
+        const seqno = await walletContract.getSeqno();
+
+        await walletContract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+          messages: [
+            internal({
+              to: Address.parse(senderJettonWallet),
+              value: toNano("0.05"),
+              body: messageBody,
+              bounce: true,
+            }),
+          ],
+        });
+
+        return { success: true, seqno };
+      };
+
+      try {
+        return await withSpendingPolicy(
+          {
+            tool: "sdk.sendJetton",
+            kind: "jetton",
+            asset: jettonBalance.jetton.address,
+            symbol: jettonBalance.jetton.symbol || "JETTON",
+            amount,
+            destination: to,
+          },
+          send
+        );
+      } catch (err) {
+        if (err instanceof SpendingPolicyError) {
+          throw new PluginSDKError(err.message, "OPERATION_FAILED");
+        }
+        throw err;
+      }
     },
 
     async getJettonWalletAddress(
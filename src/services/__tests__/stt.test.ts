@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SttConfigSchema } from "../../config/schema.js";
+import { transcribeAudio, normalizeTranscript } from "../stt.js";
+
+const audio = Buffer.from("OggS fake audio");
+
+function sttConfig(overrides: Record<string, unknown> = {}) {
+  return SttConfigSchema.parse({ provider: "openai", ...overrides });
+}
+
+describe("transcribeAudio", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("returns null when STT is disabled", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await transcribeAudio({ audio }, SttConfigSchema.parse({}))).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("posts the audio to an OpenAI-compatible endpoint", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ text: "  hello   there " })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await transcribeAudio(
+      { audio, fileName: "voice.ogg" },
+      sttConfig({ base_url: "http://localhost:8000/v1/", api_key: "sk-test", language: "en" })
+    );
+
+    expect(result).toEqual({ text: "hello there", provider: "openai" });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8000/v1/audio/transcriptions");
+    expect(init.headers).toEqual({ Authorization: "Bearer sk-test" });
+    const form = init.body as FormData;
+    expect(form.get("model")).toBe("whisper-1");
+    expect(form.get("language")).toBe("en");
+    expect((form.get("file") as File).name).toBe("voice.ogg");
+  });
+
+  it("falls back to OPENAI_API_KEY", async () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-env");
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ text: "hi" })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await transcribeAudio({ audio }, sttConfig());
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ Authorization: "Bearer sk-env" });
+  });
+
+  it("throws on API errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(new Response("model not found", { status: 404 }))
+    );
+
+    await expect(transcribeAudio({ audio }, sttConfig())).rejects.toThrow(
+      "STT API error (404): model not found"
+    );
+  });
+
+  it("requires a model for whisper.cpp", async () => {
+    await expect(
+      transcribeAudio({ audio }, SttConfigSchema.parse({ provider: "whisper-cpp" }))
+    ).rejects.toThrow(/whisper_model is not set/);
+    await expect(
+      transcribeAudio(
+        { audio },
+        SttConfigSchema.parse({ provider: "whisper-cpp", whisper_model: "/nonexistent.bin" })
+      )
+    ).rejects.toThrow(/model not found/);
+  });
+});
+
+describe("normalizeTranscript", () => {
+  it("drops whisper non-speech markers and collapses whitespace", () => {
+    expect(normalizeTranscript("\n [BLANK_AUDIO]\n Hello,\n  world. [Music]\n")).toBe(
+      "Hello, world."
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * STT Service - Speech-to-Text for incoming voice notes
+ *
+ * Providers:
+ * - whisper-cpp: Local whisper.cpp CLI (audio converted to 16 kHz WAV with ffmpeg)
+ * - openai: Any OpenAI-compatible /audio/transcriptions endpoint
+ * - none: Disabled
+ */
+
+import { spawn } from "child_process";
+import { writeFileSync, mkdirSync, existsSync, unlinkSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { randomUUID } from "crypto";
+import type { SttConfig } from "../config/schema.js";
+import { fetchWithTimeout } from "../utils/fetch.js";
+import { STT_TIMEOUT_MS } from "../constants/timeouts.js";
+
+export type STTProvider = SttConfig["provider"];
+
+export interface STTOptions {
+  /** Raw audio bytes (Telegram voice notes are OGG/Opus) */
+  audio: Buffer;
+  /** Original file name, used for the extension and the API upload */
+  fileName?: string;
+}
+
+export interface STTResult {
+  text: string;
+  provider: STTProvider;
+}
+
+/**
+ * Transcribe audio with the configured provider.
+ * Returns null when STT is disabled; throws on provider errors.
+ */
+export async function transcribeAudio(
+  options: STTOptions,
+  config: SttConfig
+): Promise<STTResult | null> {
+  switch (config.provider) {
+    case "none":
+      return null;
+    case "whisper-cpp":
+      return transcribeWhisperCpp(options, config);
+    case "openai":
+      return transcribeOpenAI(options, config);
+    default:
+      throw new Error(`Unknown STT provider: ${config.provider}`);
+  }
+}
+
+function getTempDir(): string {
+  const tempDir = join(tmpdir(), "teleton-stt");
+  if (!existsSync(tempDir)) {
+    mkdirSync(tempDir, { recursive: true });
+  }
+  return tempDir;
+}
+
+function removeQuietly(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Run a process to completion, collecting stdout. Killed after STT_TIMEOUT_MS.
+ */
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    let stdout = "";
+    let stderr = "";
+    proc.stdout?.on("data", (data) => {
+      stdout += data.toString();
+    });
+    proc.stderr?.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    const timer = setTimeout(() => proc.kill("SIGKILL"), STT_TIMEOUT_MS);
+
+    proc.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} failed (code ${code}): ${stderr.slice(-500)}`));
+      }
+    });
+
+    proc.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`${command} spawn error: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Transcribe with a local whisper.cpp binary.
+ * whisper.cpp only reads 16 kHz mono WAV, so the input is converted with ffmpeg first.
+ */
+async function transcribeWhisperCpp(options: STTOptions, config: SttConfig): Promise<STTResult> {
+  if (!config.whisper_model) {
+    throw new Error("stt.whisper_model is not set (path to a ggml model file)");
+  }
+  if (!existsSync(config.whisper_model)) {
+    throw new Error(`whisper.cpp model not found: ${config.whisper_model}`);
+  }
+
+  const tempDir = getTempDir();
+  const id = randomUUID();
+  const inputPath = join(tempDir, `${id}.${extensionOf(options.fileName)}`);
+  const wavPath = join(tempDir, `${id}.wav`);
+
+  try {
+    writeFileSync(inputPath, options.audio);
+    await run("ffmpeg", ["-y", "-i", inputPath, "-ar", "16000", "-ac", "1", wavPath]);
+
+    const args = ["-m", config.whisper_model, "-f", wavPath, "-nt", "-np"];
+    if (config.language) {
+      args.push("-l", config.language);
+    }
+    const stdout = await run(config.whisper_binary, args);
+
+    return { text: normalizeTranscript(stdout), provider: "whisper-cpp" };
+  } finally {
+    removeQuietly(inputPath);
+    removeQuietly(wavPath);
+  }
+}
+
+/**
+ * Transcribe with an OpenAI-compatible /audio/transcriptions endpoint
+ * (OpenAI, Groq, a local faster-whisper server, ...).
+ */
+async function transcribeOpenAI(options: STTOptions, config: SttConfig): Promise<STTResult> {
+  const apiKey = config.api_key ?? process.env.OPENAI_API_KEY;
+
+  const form = new FormData();
+  const fileName = options.fileName ?? "voice.ogg";
+  form.append("file", new Blob([new Uint8Array(options.audio)]), fileName);
+  form.append("model", config.model);
+  form.append("response_format", "json");
+  if (config.language) {
+    form.append("language", config.language);
+  }
+
+  const response = await fetchWithTimeout(
+    `${config.base_url.replace(/\/+$/, "")}/audio/transcriptions`,
+    {
+      method: "POST",
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      body: form,
+      timeoutMs: STT_TIMEOUT_MS,
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`STT API error (${response.status}): ${error.slice(0, 500)}`);
+  }
+
+  const data = (await response.json()) as { text?: string };
+  return { text: normalizeTranscript(data.text ?? ""), provider: "openai" };
+}
+
+function extensionOf(fileName?: string): string {
+  const match = fileName?.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : "ogg";
+}
+
+/**
+ * Collapse whitespace and drop whisper's non-speech markers ([BLANK_AUDIO], [MUSIC], ...).
+ */
+export function normalizeTranscript(raw: string): string {
+  return raw
+    .replace(/\[(BLANK_AUDIO|MUSIC|NOISE|SILENCE)\]/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { readFileSync, rmSync } from "fs";
+import type { ToolResultMessage } from "@mariozechner/pi-ai";
+
+const paths = vi.hoisted(() => {
+  const { mkdtempSync } = require("fs") as typeof import("fs");
+  const { tmpdir } = require("os") as typeof import("os");
+  const { join: joinPath } = require("path") as typeof import("path");
+  return { root: mkdtempSync(joinPath(tmpdir(), "teleton-transcript-")) };
+});
+
+vi.mock("../../workspace/paths.js", () => ({ TELETON_ROOT: paths.root }));
+
+import { appendToTranscript, getTranscriptPath } from "../transcript.js";
+
+describe("appendToTranscript", () => {
+  afterAll(() => {
+    rmSync(paths.root, { recursive: true, force: true });
+  });
+
+  it("writes image blocks as placeholders instead of their data", () => {
+    const data = Buffer.alloc(3000, 1).toString("base64");
+    const message: ToolResultMessage = {
+      role: "toolResult",
+      toolCallId: "c1",
+      toolName: "mcp_docs_chart",
+      content: [
+        { type: "text", text: "Chart ready\n[image 1: image/png]" },
+        { type: "image", data, mimeType: "image/png" },
+      ],
+      isError: false,
+      timestamp: 1,
+    };
+
+    appendToTranscript("s1", message);
+
+    const written = readFileSync(getTranscriptPath("s1"), "utf-8");
+    expect(written).not.toContain(data);
+    expect(JSON.parse(written)).toEqual({
+      ...message,
+      content: [message.content[0], { type: "text", text: "[image: image/png, 3000 bytes]" }],
+    });
+    // The message kept in context still has the image
+    expect(message.content[1]).toMatchObject({ type: "image", data });
+  });
+});
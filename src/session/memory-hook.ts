@@ -3,6 +3,7 @@ import { join } from "path";
 import { complete, type Context } from "@mariozechner/pi-ai";
 import { summarizeViaClaude, formatMessagesForSummary } from "../memory/ai-summarization.js";
 import { getUtilityModel } from "../agent/client.js";
+import { measureLlmCall } from "../metrics/index.js";
 import type { SupportedProvider } from "../config/providers.js";
 import { createLogger } from "../utils/logger.js";
 import {
@@ -50,10 +51,12 @@ Slug:`,
       ],
     };
 
-    const response = await complete(model, context, {
-      apiKey: params.apiKey,
-      maxTokens: SESSION_SLUG_MAX_TOKENS,
-    });
+    const response = await measureLlmCall(model, () =>
+      complete(model, context, {
+        apiKey: params.apiKey,
+        maxTokens: SESSION_SLUG_MAX_TOKENS,
+      })
+    );
 
     const textContent = response.content.find((block) => block.type === "text");
     const slug = textContent?.type === "text" ? textContent.text.trim() : "";
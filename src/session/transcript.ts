@@ -1,6 +1,7 @@
 import {
   appendFileSync,
   readFileSync,
+  writeFileSync,
   existsSync,
   mkdirSync,
   unlinkSync,
@@ -27,11 +28,26 @@ function ensureSessionsDir(): void {
   }
 }
 
+/** Image blocks as `[image: mime, N bytes]` text, so transcripts don't carry base64 data */
+function withoutImageData(message: Message | AssistantMessage): Message | AssistantMessage {
+  if (message.role === "assistant" || typeof message.content === "string") return message;
+  if (!message.content.some((block) => block.type === "image")) return message;
+  const content = message.content.map((block) =>
+    block.type === "image"
+      ? {
+          type: "text" as const,
+          text: `[image: ${block.mimeType}, ${Buffer.byteLength(block.data, "base64")} bytes]`,
+        }
+      : block
+  );
+  return { ...message, content } as Message;
+}
+
 export function appendToTranscript(sessionId: string, message: Message | AssistantMessage): void {
   ensureSessionsDir();
 
   const transcriptPath = getTranscriptPath(sessionId);
-  const line = JSON.stringify(message) + "\n";
+  const line = JSON.stringify(withoutImageData(message)) + "\n";
 
   try {
     appendFileSync(transcriptPath, line, "utf-8");
@@ -178,6 +194,53 @@ export function deleteTranscript(sessionId: string): boolean {
   }
 }
 
+/**
+ * Delete a session's transcript and all its archives. Returns the deleted file names.
+ */
+export function deleteTranscriptFiles(sessionId: string): string[] {
+  if (!existsSync(SESSIONS_DIR)) return [];
+
+  const deleted: string[] = [];
+  for (const file of readdirSync(SESSIONS_DIR)) {
+    if (file !== `${sessionId}.jsonl` && !file.startsWith(`${sessionId}.jsonl.`)) continue;
+    try {
+      unlinkSync(join(SESSIONS_DIR, file));
+      deleted.push(file);
+    } catch (error) {
+      log.error({ err: error }, `Failed to delete transcript file ${file}`);
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Remove matching lines from every transcript (current and archived).
+ * Returns the rewritten file names and the number of lines removed.
+ */
+export function redactTranscripts(shouldRemove: (line: string) => boolean): {
+  files: string[];
+  lines: number;
+} {
+  const result = { files: [] as string[], lines: 0 };
+  if (!existsSync(SESSIONS_DIR)) return result;
+
+  for (const file of readdirSync(SESSIONS_DIR)) {
+    if (!file.endsWith(".jsonl") && !file.endsWith(".archived")) continue;
+    const filePath = join(SESSIONS_DIR, file);
+    try {
+      const lines = readFileSync(filePath, "utf-8").split("\n");
+      const kept = lines.filter((line) => !line.trim() || !shouldRemove(line));
+      if (kept.length === lines.length) continue;
+      writeFileSync(filePath, kept.join("\n"), "utf-8");
+      result.files.push(file);
+      result.lines += lines.length - kept.length;
+    } catch (error) {
+      log.error({ err: error }, `Failed to redact transcript ${file}`);
+    }
+  }
+  return result;
+}
+
 /**
  * Archive a transcript (rename with timestamped .archived suffix).
  */
@@ -172,7 +172,7 @@ You have a personal workspace at \`~/.teleton/workspace/\` where you can store a
 
 **Tips:**
 - Save interesting memes to \`memes/\` with descriptive names for easy retrieval
-- Use \`memory_write\` for important facts (goes to MEMORY.md)
+- Use \`memory_write\` for important facts (goes to MEMORY.md), with \`subject: "user"\` for facts about the person you're talking to
 - Rename downloaded files to meaningful names (e.g., "user_avatar.jpg" instead of "123_456_789.jpg")
 `);
 
@@ -238,6 +238,7 @@ Your conversation context is approaching the limit and may be compacted soon.
 
 - \`target: "persistent"\` for facts, lessons, contacts, decisions
 - \`target: "daily"\` for session notes, events, temporary context
+- \`subject: "user"\` for preferences and details about the person you're talking to
 `);
   }
 
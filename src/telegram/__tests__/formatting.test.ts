@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { markdownToTelegramHtml } from "../formatting.js";
+
+describe("markdownToTelegramHtml citations", () => {
+  it("renders message citations as t.me links", () => {
+    expect(markdownToTelegramHtml("Rewards doubled [[msg:-1001234567890/42]]")).toBe(
+      'Rewards doubled <a href="https://t.me/c/1234567890/42">[source]</a>'
+    );
+    expect(markdownToTelegramHtml("Said so [[msg:@ton_news/7]]")).toBe(
+      'Said so <a href="https://t.me/ton_news/7">[source]</a>'
+    );
+  });
+
+  it("renders private messages and knowledge as references", () => {
+    expect(markdownToTelegramHtml("Hi [[msg:5551234/9]]")).toBe("Hi <i>[message 9]</i>");
+    expect(markdownToTelegramHtml("**APY** is 4% [[kb:d1|docs/a&b.pdf p.3 L1-2]]")).toBe(
+      "<b>APY</b> is 4% <i>[docs/a&amp;b.pdf p.3 L1-2]</i>"
+    );
+    expect(markdownToTelegramHtml("Likes tea [[kb:user:7:abc]]")).toBe("Likes tea <i>[memory]</i>");
+  });
+
+  it("leaves citations inside code untouched", () => {
+    expect(markdownToTelegramHtml("`[[kb:x]]`")).toBe("<code>[[kb:x]]</code>");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PairingNotifier } from "../pairing-notifier.js";
+import type { PairingRequest } from "../pairing-store.js";
+import { PAIRING_NOTICE_INTERVAL_MS } from "../../constants/timeouts.js";
+
+function request(peerId: number): PairingRequest {
+  return {
+    code: `CODE${peerId}`,
+    peerId,
+    username: `user${peerId}`,
+    createdAt: 0,
+    expiresAt: 0,
+  };
+}
+
+describe("PairingNotifier", () => {
+  let sendMessage: ReturnType<typeof vi.fn>;
+  let notifier: PairingNotifier;
+
+  const texts = () => sendMessage.mock.calls.map(([m]) => (m as { text: string }).text);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendMessage = vi.fn().mockResolvedValue(undefined);
+    notifier = new PairingNotifier({ sendMessage } as never, () => [1, 2]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("notifies every admin of the first request right away", async () => {
+    notifier.notify(request(10));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sendMessage.mock.calls.map(([m]) => m.chatId)).toEqual(["1", "2"]);
+    expect(texts()[0]).toContain("/pair approve CODE10");
+  });
+
+  it("batches requests within the interval into one digest", async () => {
+    notifier.notify(request(10));
+    for (let peerId = 11; peerId <= 25; peerId++) {
+      notifier.notify(request(peerId));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(PAIRING_NOTICE_INTERVAL_MS);
+    expect(sendMessage).toHaveBeenCalledTimes(4);
+    const digest = texts()[2];
+    expect(digest).toContain("15 pairing requests");
+    expect(digest).toContain("@user11");
+    expect(digest).not.toContain("@user21");
+    expect(digest).toContain("…and 5 more");
+
+    // A quiet interval closes the window, so the next request goes out at once
+    await vi.advanceTimersByTimeAsync(PAIRING_NOTICE_INTERVAL_MS);
+    notifier.notify(request(30));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenCalledTimes(6);
+    expect(texts()[4]).toContain("/pair approve CODE30");
+  });
+
+  it("keeps notifying the other admins when one send fails", async () => {
+    sendMessage.mockRejectedValueOnce(new Error("blocked"));
+    notifier.notify(request(10));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { PairingStore, pairingOptionsFromConfig } from "../pairing-store.js";
+import { TelegramConfigSchema } from "../../config/schema.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("PairingStore", () => {
+  let dir: string;
+  let file: string;
+  let store: PairingStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "teleton-pairing-"));
+    file = join(dir, "pairing.json");
+    store = new PairingStore(file, { codeTtlMs: HOUR, pairingTtlMs: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("requestCode", () => {
+    it("issues a 6-char code for an unknown peer", () => {
+      const { request, isNew } = store.requestCode({ peerId: 42, username: "alice" });
+      expect(isNew).toBe(true);
+      expect(request.code).toMatch(/^[A-Z2-9]{6}$/);
+      expect(request.peerId).toBe(42);
+      expect(request.expiresAt - request.createdAt).toBe(HOUR);
+    });
+
+    it("returns the same pending code on repeated requests", () => {
+      const first = store.requestCode({ peerId: 42 });
+      const second = store.requestCode({ peerId: 42 });
+      expect(second.isNew).toBe(false);
+      expect(second.request.code).toBe(first.request.code);
+    });
+
+    it("issues a fresh code after the previous one expires", () => {
+      vi.useFakeTimers();
+      store.requestCode({ peerId: 42 });
+      vi.advanceTimersByTime(HOUR + 1);
+      const second = store.requestCode({ peerId: 42 });
+      expect(second.isNew).toBe(true);
+      expect(store.listPending()).toHaveLength(1);
+      expect(store.listPending()[0].code).toBe(second.request.code);
+    });
+
+    it("drops the oldest pending codes once maxPending is reached", () => {
+      store = new PairingStore(file, { codeTtlMs: HOUR, pairingTtlMs: null, maxPending: 3 });
+      for (const peerId of [1, 2, 3, 4, 5]) {
+        store.requestCode({ peerId });
+      }
+
+      expect(store.listPending().map((r) => r.peerId)).toEqual([3, 4, 5]);
+      expect(JSON.parse(readFileSync(file, "utf-8")).pending).toHaveLength(3);
+      // A dropped peer gets a new code the next time it writes
+      expect(store.requestCode({ peerId: 1 }).isNew).toBe(true);
+    });
+  });
+
+  describe("approve", () => {
+    it("pairs the peer and removes the pending code", () => {
+      const { request } = store.requestCode({ peerId: 42, username: "alice" });
+      const paired = store.approve(request.code, "telegram:1");
+
+      expect(paired).not.toBeNull();
+      expect(paired!.peerId).toBe(42);
+      expect(paired!.approvedBy).toBe("telegram:1");
+      expect(paired!.expiresAt).toBeNull();
+      expect(store.isPaired(42)).toBe(true);
+      expect(store.listPending()).toHaveLength(0);
+    });
+
+    it("accepts lowercase codes", () => {
+      const { request } = store.requestCode({ peerId: 42 });
+      expect(store.approve(request.code.toLowerCase(), "webui")).not.toBeNull();
+    });
+
+    it("rejects unknown codes", () => {
+      expect(store.approve("ZZZZZZ", "webui")).toBeNull();
+      expect(store.isPaired(42)).toBe(false);
+    });
+
+    it("rejects expired codes", () => {
+      vi.useFakeTimers();
+      const { request } = store.requestCode({ peerId: 42 });
+      vi.advanceTimersByTime(HOUR + 1);
+      expect(store.approve(request.code, "webui")).toBeNull();
+    });
+
+    it("expires pairings after pairingTtlMs", () => {
+      vi.useFakeTimers();
+      store = new PairingStore(file, { codeTtlMs: HOUR, pairingTtlMs: 24 * HOUR });
+      const { request } = store.requestCode({ peerId: 42 });
+      store.approve(request.code, "webui");
+      expect(store.isPaired(42)).toBe(true);
+
+      vi.advanceTimersByTime(24 * HOUR + 1);
+      expect(store.isPaired(42)).toBe(false);
+      expect(store.pruneExpired()).toEqual({ pending: 0, approved: 1 });
+      expect(store.listApproved()).toHaveLength(0);
+    });
+  });
+
+  describe("deny / revoke", () => {
+    it("deny drops the pending code", () => {
+      const { request } = store.requestCode({ peerId: 42 });
+      expect(store.deny(request.code)).toBe(true);
+      expect(store.deny(request.code)).toBe(false);
+      expect(store.listPending()).toHaveLength(0);
+    });
+
+    it("revoke removes an approved peer", () => {
+      const { request } = store.requestCode({ peerId: 42 });
+      store.approve(request.code, "webui");
+      expect(store.revoke(42)).toBe(true);
+      expect(store.revoke(42)).toBe(false);
+      expect(store.isPaired(42)).toBe(false);
+    });
+  });
+
+  describe("persistence", () => {
+    it("writes state to disk and reloads it in a new instance", () => {
+      const { request } = store.requestCode({ peerId: 42 });
+      store.approve(request.code, "webui");
+      store.requestCode({ peerId: 7 });
+
+      expect(existsSync(file)).toBe(true);
+      const raw = JSON.parse(readFileSync(file, "utf-8"));
+      expect(raw.approved).toHaveLength(1);
+      expect(raw.pending).toHaveLength(1);
+
+      const reloaded = new PairingStore(file, { codeTtlMs: HOUR, pairingTtlMs: null });
+      expect(reloaded.isPaired(42)).toBe(true);
+      expect(reloaded.listPending()[0].peerId).toBe(7);
+    });
+  });
+
+  describe("pairingOptionsFromConfig", () => {
+    it("converts minutes/days and treats 0 days as never", () => {
+      const config = TelegramConfigSchema.parse({ api_id: 1, api_hash: "x", phone: "+1" });
+      expect(pairingOptionsFromConfig(config)).toEqual({ codeTtlMs: HOUR, pairingTtlMs: null });
+
+      const withExpiry = { ...config, pairing_code_ttl_minutes: 10, pairing_expiry_days: 2 };
+      expect(pairingOptionsFromConfig(withExpiry)).toEqual({
+        codeTtlMs: 10 * 60 * 1000,
+        pairingTtlMs: 48 * HOUR,
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ReplyStreamer } from "../reply-stream.js";
+import { stripPartialThinking } from "../../agent/client.js";
+import type { TelegramBridge } from "../bridge.js";
+
+const LONG = "The quick brown fox jumps over the lazy dog";
+
+function createBridge() {
+  return {
+    sendMessage: vi.fn().mockResolvedValue({ id: 500, date: 1 }),
+    editMessage: vi.fn().mockResolvedValue({}),
+    deleteMessage: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe("ReplyStreamer", () => {
+  let bridge: ReturnType<typeof createBridge>;
+  let streamer: ReplyStreamer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    bridge = createBridge();
+    streamer = new ReplyStreamer(bridge as unknown as TelegramBridge, {
+      chatId: "100",
+      replyToId: 7,
+      intervalMs: 1000,
+      maxLength: 4096,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("waits for enough text before opening a draft", async () => {
+    streamer.update("Hi");
+    await vi.runAllTimersAsync();
+    expect(bridge.sendMessage).not.toHaveBeenCalled();
+
+    streamer.update(LONG);
+    await vi.runAllTimersAsync();
+    expect(bridge.sendMessage).toHaveBeenCalledWith({
+      chatId: "100",
+      text: `${LONG} ▍`,
+      replyToId: 7,
+    });
+    expect(streamer.messageId).toBe(500);
+  });
+
+  it("throttles edits to the configured interval", async () => {
+    streamer.update(LONG);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(bridge.sendMessage).toHaveBeenCalledTimes(1);
+
+    streamer.update(`${LONG}, once`);
+    streamer.update(`${LONG}, twice`);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(bridge.editMessage).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(bridge.editMessage).toHaveBeenCalledTimes(1);
+    expect(bridge.editMessage).toHaveBeenCalledWith({
+      chatId: "100",
+      messageId: 500,
+      text: `${LONG}, twice ▍`,
+    });
+  });
+
+  it("drops the cursor when tool calls interrupt, then finalizes in place", async () => {
+    streamer.update(LONG);
+    streamer.pause();
+    await vi.runAllTimersAsync();
+    expect(bridge.sendMessage).toHaveBeenLastCalledWith(expect.objectContaining({ text: LONG }));
+
+    const id = await streamer.finalize(`${LONG}. Done.`);
+    expect(id).toBe(500);
+    expect(bridge.editMessage).toHaveBeenLastCalledWith({
+      chatId: "100",
+      messageId: 500,
+      text: `${LONG}. Done.`,
+    });
+
+    streamer.update("ignored after finalize");
+    await vi.runAllTimersAsync();
+    expect(bridge.editMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends the reply on finalize when no draft was opened", async () => {
+    expect(await streamer.finalize("Ok")).toBe(500);
+    expect(bridge.sendMessage).toHaveBeenCalledWith({ chatId: "100", text: "Ok", replyToId: 7 });
+  });
+
+  it("reports a failed final edit so the caller can fall back", async () => {
+    streamer.update(LONG);
+    await vi.runAllTimersAsync();
+    bridge.editMessage.mockRejectedValueOnce(new Error("MESSAGE_ID_INVALID"));
+
+    expect(await streamer.finalize(`${LONG}!`)).toBeNull();
+  });
+
+  it("deletes the draft on discard", async () => {
+    streamer.update(LONG);
+    await vi.runAllTimersAsync();
+
+    await streamer.discard();
+    expect(bridge.deleteMessage).toHaveBeenCalledWith("100", 500);
+    expect(streamer.messageId).toBeNull();
+  });
+});
+
+describe("stripPartialThinking", () => {
+  it("removes closed and still-open think blocks", () => {
+    expect(stripPartialThinking("<think>plan</think>Hello")).toBe("Hello");
+    expect(stripPartialThinking("Hello <think>still thin")).toBe("Hello");
+    expect(stripPartialThinking("<think>only thinking")).toBe("");
+  });
+});
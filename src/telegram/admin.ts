@@ -1,7 +1,7 @@
 import type { TelegramConfig } from "../config/schema.js";
 import type { AgentRuntime } from "../agent/runtime.js";
 import { TelegramBridge } from "./bridge.js";
-import { getWalletAddress, getWalletBalance } from "../ton/wallet-service.js";
+import { getWalletAddress, getWalletBalance, isWalletLocked } from "../ton/wallet-service.js";
 import { getProviderMetadata, type SupportedProvider } from "../config/providers.js";
 import { DEALS_CONFIG } from "../deals/config.js";
 import { loadTemplate } from "../workspace/manager.js";
@@ -12,6 +12,17 @@ import type { ModulePermissions, ModuleLevel } from "../agent/tools/module-permi
 import type { ToolRegistry } from "../agent/tools/registry.js";
 import { writePluginSecret, deletePluginSecret, listPluginSecretKeys } from "../sdk/secrets.js";
 import { getErrorMessage } from "../utils/errors.js";
+import type { PairingStore } from "./pairing-store.js";
+import { getSpendingPolicy } from "../ton/spending-policy.js";
+import { getUsageTracker, type UsageTotals } from "../agent/usage-tracker.js";
+import { getMemoryEraser, type ErasureReport } from "../memory/erasure.js";
+import { audit } from "../memory/audit-log.js";
+import type { McpConnection } from "../agent/tools/mcp-loader.js";
+import {
+  listMcpPrompts,
+  parsePromptArguments,
+  renderMcpPrompt,
+} from "../agent/tools/mcp-prompts.js";
 
 export interface AdminCommand {
   command: string;
@@ -31,6 +42,8 @@ export class AdminHandler {
   private paused = false;
   private permissions: ModulePermissions | null;
   private registry: ToolRegistry | null;
+  private pairingStore: PairingStore | null = null;
+  private mcpConnections: McpConnection[] = [];
 
   constructor(
     bridge: TelegramBridge,
@@ -46,6 +59,14 @@ export class AdminHandler {
     this.registry = registry ?? null;
   }
 
+  setPairingStore(store: PairingStore): void {
+    this.pairingStore = store;
+  }
+
+  setMcpConnections(connections: McpConnection[]): void {
+    this.mcpConnections = connections;
+  }
+
   isAdmin(userId: number): boolean {
     return this.config.admin_ids.includes(userId);
   }
@@ -97,23 +118,33 @@ export class AdminHandler {
       case "policy":
         return this.handlePolicyCommand(command);
       case "pause":
-        return this.handlePauseCommand();
+        return this.handlePauseCommand(command);
       case "resume":
-        return this.handleResumeCommand();
+        return this.handleResumeCommand(command);
       case "wallet":
-        return await this.handleWalletCommand();
+        return await this.handleWalletCommand(command);
       case "strategy":
         return this.handleStrategyCommand(command);
       case "stop":
-        return await this.handleStopCommand();
+        return await this.handleStopCommand(command);
       case "verbose":
-        return this.handleVerboseCommand();
+        return this.handleVerboseCommand(command);
       case "rag":
         return this.handleRagCommand(command);
       case "modules":
         return this.handleModulesCommand(command, isGroup ?? false);
       case "plugin":
         return this.handlePluginCommand(command);
+      case "pair":
+        return this.handlePairCommand(command);
+      case "spend":
+        return this.handleSpendCommand(command);
+      case "usage":
+        return this.handleUsageCommand(command);
+      case "forget":
+        return this.handleForgetCommand(command);
+      case "prompt":
+        return await this.handlePromptListCommand();
       case "help":
         return this.handleHelpCommand();
       case "ping":
@@ -123,6 +154,25 @@ export class AdminHandler {
     }
   }
 
+  /** Record a privileged command in the audit log */
+  private audit(
+    command: AdminCommand,
+    action: string,
+    target: string | null,
+    before?: unknown,
+    after?: unknown
+  ): void {
+    audit({
+      source: "telegram",
+      actor: `telegram:${command.senderId}`,
+      action,
+      target,
+      before,
+      after,
+      details: { chatId: command.chatId },
+    });
+  }
+
   private async handleStatusCommand(command: AdminCommand): Promise<string> {
     const activeChatIds = this.agent.getActiveChatIds();
     const chatCount = activeChatIds.length;
@@ -133,6 +183,10 @@ export class AdminHandler {
     status += `💬 Active conversations: ${chatCount}\n`;
     status += `🧠 Provider: ${cfg.agent.provider}\n`;
     status += `🤖 Model: ${cfg.agent.model}\n`;
+    const lastModel = this.agent.getLastModel();
+    if (lastModel?.isFallback) {
+      status += `🔀 Last reply by fallback: ${lastModel.provider}/${lastModel.model}\n`;
+    }
     status += `🔄 Max iterations: ${cfg.agent.max_agentic_iterations}\n`;
     status += `📬 DM policy: ${this.config.dm_policy}\n`;
     status += `👥 Group policy: ${this.config.group_policy}\n`;
@@ -149,6 +203,7 @@ export class AdminHandler {
 
     try {
       this.agent.clearHistory(targetChatId);
+      this.audit(command, "history.clear", targetChatId);
       return `✅ Cleared conversation history for chat: ${targetChatId}`;
     } catch (error) {
       return `❌ Error clearing history: ${error}`;
@@ -161,7 +216,9 @@ export class AdminHandler {
       const current = this.agent.getConfig().agent.max_agentic_iterations || 5;
       return `🔄 Current loop: **${current}** iterations\n\nUsage: /loop <1-50>`;
     }
+    const old = this.agent.getConfig().agent.max_agentic_iterations;
     this.agent.getConfig().agent.max_agentic_iterations = n;
+    this.audit(command, "config.set", "agent.max_agentic_iterations", old, n);
     return `🔄 Max iterations set to **${n}**`;
   }
 
@@ -173,6 +230,7 @@ export class AdminHandler {
     const newModel = command.args[0];
     const oldModel = cfg.agent.model;
     cfg.agent.model = newModel;
+    this.audit(command, "model.set", "agent.model", oldModel, newModel);
     return `🧠 Model: **${oldModel}** → **${newModel}**`;
   }
 
@@ -193,6 +251,7 @@ export class AdminHandler {
       }
       const old = this.config.dm_policy;
       this.config.dm_policy = value as typeof this.config.dm_policy;
+      this.audit(command, "policy.dm", "telegram.dm_policy", old, value);
       return `📬 DM policy: **${old}** → **${value}**`;
     }
 
@@ -202,21 +261,24 @@ export class AdminHandler {
       }
       const old = this.config.group_policy;
       this.config.group_policy = value as typeof this.config.group_policy;
+      this.audit(command, "policy.group", "telegram.group_policy", old, value);
       return `👥 Group policy: **${old}** → **${value}**`;
     }
 
     return `❌ Unknown target: ${target}. Use "dm" or "group".`;
   }
 
-  private handlePauseCommand(): string {
+  private handlePauseCommand(command: AdminCommand): string {
     if (this.paused) return "⏸️ Already paused.";
     this.paused = true;
+    this.audit(command, "agent.pause", null, false, true);
     return "⏸️ Agent paused. Use /resume to restart.";
   }
 
-  private handleResumeCommand(): string {
+  private handleResumeCommand(command: AdminCommand): string {
     if (!this.paused) return "▶️ Already running.";
     this.paused = false;
+    this.audit(command, "agent.pause", null, true, false);
     return "▶️ Agent resumed.";
   }
 
@@ -241,6 +303,7 @@ export class AdminHandler {
       }
       const old = Math.round(DEALS_CONFIG.strategy.buyMaxMultiplier * 100);
       DEALS_CONFIG.strategy.buyMaxMultiplier = value / 100;
+      this.audit(command, "strategy.buy", "deals.strategy.buyMaxMultiplier", old, value);
       return `📊 Buy threshold: **${old}%** → **${value}%** of floor`;
     }
 
@@ -250,26 +313,30 @@ export class AdminHandler {
       }
       const old = Math.round(DEALS_CONFIG.strategy.sellMinMultiplier * 100);
       DEALS_CONFIG.strategy.sellMinMultiplier = value / 100;
+      this.audit(command, "strategy.sell", "deals.strategy.sellMinMultiplier", old, value);
       return `📊 Sell threshold: **${old}%** → **${value}%** of floor`;
     }
 
     return `❌ Unknown target: ${target}. Use "buy" or "sell".`;
   }
 
-  private async handleStopCommand(): Promise<string> {
+  private async handleStopCommand(command: AdminCommand): Promise<string> {
     log.info("🛑 [Admin] /stop command received - shutting down");
+    this.audit(command, "agent.stop", null);
     setTimeout(() => process.kill(process.pid, "SIGTERM"), 1000);
     return "🛑 Shutting down...";
   }
 
-  private async handleWalletCommand(): Promise<string> {
+  private async handleWalletCommand(command: AdminCommand): Promise<string> {
     const address = getWalletAddress();
     if (!address) return "❌ No wallet configured.";
+    this.audit(command, "wallet.view", address);
 
     const result = await getWalletBalance(address);
     if (!result) return "❌ Failed to fetch balance.";
 
-    return `💎 **${result.balance} TON**\n📍 \`${address}\``;
+    const lock = isWalletLocked() ? "\n🔒 Locked (transfers disabled)" : "";
+    return `💎 **${result.balance} TON**\n📍 \`${address}\`${lock}`;
   }
 
   getBootstrapContent(): string | null {
@@ -280,9 +347,10 @@ export class AdminHandler {
     }
   }
 
-  private handleVerboseCommand(): string {
+  private handleVerboseCommand(command: AdminCommand): string {
     const next = !isVerbose();
     setVerbose(next);
+    this.audit(command, "logging.verbose", null, !next, next);
     return next ? "🔊 Verbose logging **ON**" : "🔇 Verbose logging **OFF**";
   }
 
@@ -313,12 +381,14 @@ export class AdminHandler {
       }
       const old = cfg.tool_rag.top_k;
       cfg.tool_rag.top_k = n;
+      this.audit(command, "config.set", "tool_rag.top_k", old, n);
       return `🔍 Tool RAG top_k: **${old}** → **${n}**`;
     }
 
     // Toggle ON/OFF
     const next = !cfg.tool_rag.enabled;
     cfg.tool_rag.enabled = next;
+    this.audit(command, "config.set", "tool_rag.enabled", !next, next);
     return next ? "🔍 Tool RAG **ON**" : "🔇 Tool RAG **OFF**";
   }
 
@@ -340,11 +410,11 @@ export class AdminHandler {
 
     switch (sub) {
       case "set":
-        return this.setModuleLevel(chatId, command.args[1], command.args[2], command.senderId);
+        return this.setModuleLevel(command, command.args[1], command.args[2]);
       case "info":
         return this.showModuleInfo(command.args[1], chatId);
       case "reset":
-        return this.resetModules(chatId, command.args[1]);
+        return this.resetModules(command, command.args[1]);
       default:
         return `❌ Unknown subcommand: "${sub}"\n\nUsage: /modules | /modules set <module> <level> | /modules info <module> | /modules reset [module]`;
     }
@@ -387,10 +457,9 @@ export class AdminHandler {
   }
 
   private setModuleLevel(
-    chatId: string,
+    command: AdminCommand,
     module: string | undefined,
-    level: string | undefined,
-    senderId: number
+    level: string | undefined
   ): string {
     if (!module || !level) {
       return "❌ Usage: /modules set <module> <level>";
@@ -412,8 +481,9 @@ export class AdminHandler {
       return `❌ Invalid level: "${level}". Valid: ${VALID_MODULE_LEVELS.join(", ")}`;
     }
 
-    const oldLevel = this.permissions!.getLevel(chatId, module);
-    this.permissions!.setLevel(chatId, module, level as ModuleLevel, senderId);
+    const oldLevel = this.permissions!.getLevel(command.chatId, module);
+    this.permissions!.setLevel(command.chatId, module, level as ModuleLevel, command.senderId);
+    this.audit(command, "modules.set", `${command.chatId}/${module}`, oldLevel, level);
 
     const icons: Record<string, string> = { open: "✅", admin: "🔐", disabled: "❌" };
     return `${icons[level]} **${module}**: ${oldLevel} → ${level}`;
@@ -449,7 +519,8 @@ export class AdminHandler {
     return lines.join("\n");
   }
 
-  private resetModules(chatId: string, module: string | undefined): string {
+  private resetModules(command: AdminCommand, module: string | undefined): string {
+    const chatId = command.chatId;
     if (module) {
       module = module.toLowerCase();
       const available = this.registry!.getAvailableModules();
@@ -459,11 +530,15 @@ export class AdminHandler {
       if (this.permissions!.isProtected(module)) {
         return `⛔ Module "${module}" is protected (already open)`;
       }
+      const oldLevel = this.permissions?.getLevel(chatId, module);
       this.permissions!.resetModule(chatId, module);
+      this.audit(command, "modules.set", `${chatId}/${module}`, oldLevel, "open");
       return `✅ **${module}** → open`;
     }
 
+    const before = Object.fromEntries(this.permissions?.getOverrides(chatId) ?? []);
     this.permissions!.resetAll(chatId);
+    this.audit(command, "modules.reset", chatId, before, {});
     return "✅ All modules reset to **open**";
   }
 
@@ -490,6 +565,7 @@ export class AdminHandler {
         }
         const value = valueParts.join(" ");
         writePluginSecret(pluginName, key, value);
+        this.audit(command, "plugin.secret.set", `${pluginName}/${key}`);
         return `✅ Secret **${key}** saved for **${pluginName}**\n\n⚠️ Restart agent or reload plugin for changes to take effect.`;
       }
 
@@ -499,6 +575,7 @@ export class AdminHandler {
           return "❌ Usage: /plugin unset <name> <key>";
         }
         const deleted = deletePluginSecret(pluginName, key);
+        if (deleted) this.audit(command, "plugin.secret.unset", `${pluginName}/${key}`);
         return deleted
           ? `✅ Secret **${key}** removed from **${pluginName}**`
           : `⚠️ Secret **${key}** not found for **${pluginName}**`;
@@ -521,6 +598,269 @@ export class AdminHandler {
     }
   }
 
+  private handlePairCommand(command: AdminCommand): string {
+    if (!this.pairingStore) {
+      return "❌ Pairing store not available";
+    }
+
+    const sub = command.args[0]?.toLowerCase();
+    const usage =
+      "Usage: /pair list | /pair approve <code> | /pair deny <code> | /pair revoke <user_id>";
+
+    if (!sub || sub === "list") {
+      const pending = this.pairingStore.listPending();
+      const approved = this.pairingStore.listApproved();
+      const label = (p: { peerId: number; username?: string; firstName?: string }) =>
+        p.username ? `@${p.username}` : p.firstName || `user:${p.peerId}`;
+
+      const lines: string[] = [`🔐 **Pairing** (DM policy: ${this.config.dm_policy})\n`];
+      lines.push(`**Pending** (${pending.length})`);
+      for (const r of pending) {
+        const mins = Math.max(0, Math.round((r.expiresAt - Date.now()) / 60000));
+        lines.push(` \`${r.code}\`  ${label(r)} (\`${r.peerId}\`) — expires in ${mins} min`);
+      }
+      lines.push("");
+      lines.push(`**Paired** (${approved.length})`);
+      for (const p of approved) {
+        const expiry = p.expiresAt
+          ? ` — until ${new Date(p.expiresAt).toISOString().slice(0, 10)}`
+          : "";
+        lines.push(` ${label(p)} (\`${p.peerId}\`)${expiry}`);
+      }
+      lines.push("");
+      lines.push(usage);
+      return lines.join("\n");
+    }
+
+    switch (sub) {
+      case "approve": {
+        const code = command.args[1];
+        if (!code) return "❌ Usage: /pair approve <code>";
+        const paired = this.pairingStore.approve(code, `telegram:${command.senderId}`);
+        if (!paired) return `❌ Unknown or expired code: ${code}`;
+        log.info(`🔐 Pairing approved for ${paired.peerId} by ${command.senderId}`);
+        this.audit(command, "pairing.approve", String(paired.peerId));
+        return `✅ Paired with ${paired.username ? `@${paired.username}` : `user:${paired.peerId}`}`;
+      }
+
+      case "deny": {
+        const code = command.args[1];
+        if (!code) return "❌ Usage: /pair deny <code>";
+        if (!this.pairingStore.deny(code)) return `❌ Unknown or expired code: ${code}`;
+        this.audit(command, "pairing.deny", code.toUpperCase());
+        return `🚫 Pairing request ${code.toUpperCase()} denied`;
+      }
+
+      case "revoke": {
+        const peerId = parseInt(command.args[1], 10);
+        if (isNaN(peerId)) return "❌ Usage: /pair revoke <user_id>";
+        if (!this.pairingStore.revoke(peerId)) return `⚠️ user:${peerId} is not paired`;
+        this.audit(command, "pairing.revoke", String(peerId));
+        return `✅ Pairing revoked for user:${peerId}`;
+      }
+
+      default:
+        return `❌ Unknown subcommand: "${sub}"\n\n${usage}`;
+    }
+  }
+
+  private handleSpendCommand(command: AdminCommand): string {
+    const policy = getSpendingPolicy();
+    if (!policy) {
+      return "❌ Spending policy not available";
+    }
+
+    const sub = command.args[0]?.toLowerCase();
+    const usage = "Usage: /spend list | /spend approve <id> | /spend deny <id>";
+
+    if (!sub || sub === "list") {
+      const pending = policy.listPending();
+      const spent = policy.getUsage();
+      const lines: string[] = [
+        `💸 **Spending** (${policy.isActive() ? "limits active" : "no limits configured"})\n`,
+        `Last 24h: ${spent.ton.toFixed(4)} TON · $${spent.usd.toFixed(2)}`,
+        "",
+        `**Pending approvals** (${pending.length})`,
+      ];
+      for (const p of pending) {
+        const mins = Math.max(0, Math.round((p.expiresAt - Date.now()) / 60000));
+        const what =
+          p.request.kind === "nft" ? p.request.symbol : `${p.request.amount} ${p.request.symbol}`;
+        lines.push(` \`${p.id}\`  ${p.request.tool}: ${what} — expires in ${mins} min`);
+      }
+      lines.push("");
+      lines.push(usage);
+      return lines.join("\n");
+    }
+
+    switch (sub) {
+      case "approve":
+      case "deny": {
+        const id = command.args[1];
+        if (!id) return `❌ Usage: /spend ${sub} <id>`;
+        const result = policy.resolve(id, sub === "approve", `telegram:${command.senderId}`);
+        if (!result) return `❌ Unknown or expired request: ${id}`;
+        log.info(
+          `💸 Spend #${id} ${sub === "approve" ? "approved" : "denied"} by ${command.senderId}`
+        );
+        this.audit(command, `spend.${sub}`, id);
+        if (result.outcome === "blocked") {
+          return `🚫 Spend #${id} approved, but blocked by the spending policy: ${result.reason}`;
+        }
+        return sub === "approve" ? `✅ Spend #${id} approved` : `🚫 Spend #${id} denied`;
+      }
+
+      default:
+        return `❌ Unknown subcommand: "${sub}"\n\n${usage}`;
+    }
+  }
+
+  private handleUsageCommand(command: AdminCommand): string {
+    const tracker = getUsageTracker();
+    if (!tracker) {
+      return "❌ Usage tracking not available";
+    }
+
+    const days = command.args[0] ? parseInt(command.args[0], 10) : 7;
+    if (isNaN(days) || days < 1 || days > 365) {
+      return "❌ Usage: /usage [days 1-365]";
+    }
+
+    const summary = tracker.getSummary(days, new Date(), 5);
+    const fmt = (t: UsageTotals) =>
+      `$${t.costUsd.toFixed(2)} · ${t.requests} calls · ${(t.inputTokens / 1000).toFixed(1)}K in / ${(t.outputTokens / 1000).toFixed(1)}K out`;
+
+    const lines: string[] = [
+      `💰 **LLM Usage**\n`,
+      `Today: ${fmt(summary.today)}`,
+      `This month: ${fmt(summary.month)}`,
+      `Last ${days}d: ${fmt(summary.range)}`,
+    ];
+
+    const { budget } = summary;
+    const caps: string[] = [];
+    if (budget.user_daily_usd !== undefined) caps.push(`user $${budget.user_daily_usd}/day`);
+    if (budget.group_daily_usd !== undefined) caps.push(`group $${budget.group_daily_usd}/day`);
+    if (budget.monthly_usd !== undefined) caps.push(`total $${budget.monthly_usd}/month`);
+    lines.push(
+      caps.length > 0
+        ? `Budgets: ${caps.join(", ")} (over budget: ${budget.on_exceeded})`
+        : "Budgets: none configured"
+    );
+
+    if (summary.byModel.length > 0) {
+      lines.push("", "**By model**");
+      for (const m of summary.byModel) {
+        lines.push(` ${m.provider}/${m.model}: $${m.costUsd.toFixed(2)} (${m.requests} calls)`);
+      }
+    }
+    if (summary.topChats.length > 0) {
+      lines.push("", "**Top chats**");
+      for (const c of summary.topChats) {
+        lines.push(` ${c.title ?? c.chatId}: $${c.costUsd.toFixed(2)}`);
+      }
+    }
+    if (summary.topUsers.length > 0) {
+      lines.push("", "**Top users**");
+      for (const u of summary.topUsers) {
+        const name = u.username ? `@${u.username}` : (u.firstName ?? u.userId);
+        lines.push(` ${name}: $${u.costUsd.toFixed(2)}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  private handleForgetCommand(command: AdminCommand): string {
+    const eraser = getMemoryEraser();
+    if (!eraser) {
+      return "❌ Erasure not available";
+    }
+
+    const usage = "Usage:\n/forget @username | <user_id>\n/forget chat [chat_id]";
+    const target = command.args[0];
+    if (!target) return usage;
+
+    const requestedBy = String(command.senderId);
+    let report: ErasureReport;
+    let label: string;
+
+    try {
+      if (target.toLowerCase() === "chat") {
+        const chatId = command.args[1] || command.chatId;
+        report = eraser.forgetChat(chatId, requestedBy);
+        label = `chat ${chatId}`;
+      } else {
+        const user = eraser.resolveUser(target);
+        if (!user) return `❌ Unknown user: ${target}\n\n${usage}`;
+        report = eraser.forgetUser(user.id, requestedBy);
+        label = user.username ? `@${user.username} (${user.id})` : `user ${user.id}`;
+      }
+    } catch (error) {
+      return `❌ Erasure failed: ${getErrorMessage(error)}`;
+    }
+
+    log.info(`🧹 Erasure #${report.id} of ${label} requested by ${requestedBy}`);
+    this.audit(command, "memory.forget", report.subject);
+
+    const lines = [`🧹 **Forgot ${label}** (report #${report.id})\n`];
+    const deleted = Object.entries(report.deleted);
+    if (deleted.length === 0 && report.files.length === 0) {
+      lines.push("Nothing stored.");
+    }
+    for (const [store, count] of deleted) {
+      lines.push(` ${store}: ${count}`);
+    }
+    for (const file of report.files) {
+      lines.push(` ${file.path}: ${file.action}${file.lines ? ` (${file.lines} lines)` : ""}`);
+    }
+    return lines.join("\n");
+  }
+
+  /** /prompt without arguments: MCP prompt templates with their arguments */
+  private async handlePromptListCommand(): Promise<string> {
+    if (this.mcpConnections.length === 0) return "❌ No MCP servers configured";
+
+    const { prompts, errors } = await listMcpPrompts(this.mcpConnections);
+    const lines = [`🧩 **MCP Prompts** (${prompts.length})\n`];
+    if (prompts.length === 0) lines.push("No connected server exposes prompts.");
+    for (const p of prompts) {
+      const args = p.arguments.map((a) => (a.required ? `${a.name}=…` : `[${a.name}=…]`));
+      lines.push(`\`${p.server} ${p.name}\` ${args.join(" ")}`);
+      if (p.description) lines.push(`  ${p.description}`);
+    }
+    for (const error of errors) lines.push(`⚠️ ${error}`);
+    lines.push(`\nRun: /prompt <server> <name> [key=value ...]`);
+    return lines.join("\n");
+  }
+
+  /**
+   * Render `/prompt <server> <name> [key=value ...]` into the text the agent
+   * should answer. Returns an error reply instead when the prompt can't be fetched.
+   */
+  async renderPromptCommand(
+    command: AdminCommand,
+    chatId: string,
+    senderId: number
+  ): Promise<{ text: string } | { error: string }> {
+    command.chatId = chatId;
+    command.senderId = senderId;
+
+    const [server, name, ...rest] = command.args;
+    const args = parsePromptArguments(rest.join(" "));
+    if (!server || !name || !args) {
+      return { error: "❌ Usage: /prompt <server> <name> [key=value ...]" };
+    }
+
+    try {
+      const text = await renderMcpPrompt(this.mcpConnections, server, name, args);
+      this.audit(command, "mcp.prompt", `${server}/${name}`, undefined, args);
+      return { text };
+    } catch (error) {
+      return { error: `❌ Prompt failed: ${getErrorMessage(error)}` };
+    }
+  }
+
   private handleHelpCommand(): string {
     return `🤖 **Teleton Admin Commands**
 
@@ -536,6 +876,18 @@ Set max agentic iterations
 **/policy** <dm|group> <value>
 Change access policy
 
+**/pair** [list|approve|deny|revoke]
+Manage DM pairing requests
+
+**/spend** [list|approve|deny]
+Review wallet spend approvals and 24h usage
+
+**/usage** [days]
+LLM cost by model, chat and user (default: 7 days)
+
+**/forget** @user | chat [id]
+Erase everything stored about a user or chat
+
 **/strategy** [buy|sell <percent>]
 View or change trading thresholds
 
@@ -554,6 +906,9 @@ Toggle verbose debug logging
 **/rag** [status|topk <n>]
 Toggle Tool RAG or view status
 
+**/prompt** [<server> <name> key=value ...]
+List MCP prompt templates or run one through the agent
+
 **/pause** / **/resume**
 Pause or resume the agent
 
@@ -184,6 +184,16 @@ export class TelegramBridge {
     }
   }
 
+  async deleteMessage(chatId: string, messageId: number): Promise<void> {
+    try {
+      const peer = this.peerCache.get(chatId) || chatId;
+      await this.client.getClient().deleteMessages(peer, [messageId], { revoke: true });
+    } catch (error) {
+      log.error({ err: error }, "Error deleting message");
+      throw error;
+    }
+  }
+
   async getDialogs(): Promise<
     Array<{
       id: string;
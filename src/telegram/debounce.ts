@@ -1,6 +1,7 @@
 import type { TelegramMessage } from "./bridge.js";
 import { DEBOUNCE_MAX_MULTIPLIER, DEBOUNCE_MAX_BUFFER_SIZE } from "../constants/limits.js";
 import { createLogger } from "../utils/logger.js";
+import { debounceFlushes, debounceFlushedMessages } from "../metrics/index.js";
 
 const log = createLogger("Telegram");
 
@@ -9,6 +10,9 @@ interface DebounceBuffer {
   timer: NodeJS.Timeout | null;
 }
 
+/** Why a buffer was flushed: timer expiry, size cap, a bypassing message, or shutdown */
+type FlushReason = "timer" | "full" | "bypass" | "shutdown";
+
 interface DebounceConfig {
   debounceMs: number;
   maxDebounceMs?: number;
@@ -42,7 +46,7 @@ export class MessageDebouncer {
       const key = message.chatId;
       if (this.buffers.has(key)) {
         log.debug(`📤 [Debouncer] Flushing pending buffer for ${key} before immediate processing`);
-        await this.flushKey(key);
+        await this.flushKey(key, "bypass");
       }
       log.debug(`⚡ [Debouncer] Processing immediately (no debounce)`);
       await this.processMessages([message]);
@@ -57,7 +61,7 @@ export class MessageDebouncer {
         log.debug(
           `📤 [Debouncer] Buffer full for ${key} (${existing.messages.length}/${this.maxBufferSize}), flushing`
         );
-        await this.flushKey(key);
+        await this.flushKey(key, "full");
         const newBuffer: DebounceBuffer = { messages: [message], timer: null };
         this.buffers.set(key, newBuffer);
         this.resetTimer(key, newBuffer);
@@ -90,7 +94,7 @@ export class MessageDebouncer {
     const delay = Math.min(this.config.debounceMs, remaining);
 
     buffer.timer = setTimeout(() => {
-      this.flushKey(key).catch((error) => {
+      this.flushKey(key, "timer").catch((error) => {
         log.error({ err: error }, `Debouncer flush error for chat ${key}`);
         this.onError?.(error, buffer.messages);
       });
@@ -99,7 +103,7 @@ export class MessageDebouncer {
     buffer.timer.unref?.();
   }
 
-  private async flushKey(key: string): Promise<void> {
+  private async flushKey(key: string, reason: FlushReason): Promise<void> {
     const buffer = this.buffers.get(key);
     if (!buffer) {
       log.debug(`📭 [Debouncer] No buffer to flush for ${key}`);
@@ -119,6 +123,8 @@ export class MessageDebouncer {
     }
 
     log.debug(`📤 [Debouncer] Flushing ${buffer.messages.length} message(s) for ${key}`);
+    debounceFlushes.inc({ reason });
+    debounceFlushedMessages.inc(undefined, buffer.messages.length);
     await this.processMessages(buffer.messages);
   }
 
@@ -141,7 +147,7 @@ export class MessageDebouncer {
   async flushAll(): Promise<void> {
     const keys = Array.from(this.buffers.keys());
     for (const key of keys) {
-      await this.flushKey(key);
+      await this.flushKey(key, "shutdown");
     }
   }
 }
@@ -1,4 +1,5 @@
 import { createLogger } from "../utils/logger.js";
+import { floodWaits, floodWaitSeconds } from "../metrics/index.js";
 
 const log = createLogger("Telegram");
 
@@ -25,12 +26,18 @@ export async function withFloodRetry<T>(
       lastError = error as Error;
 
       if (waitSeconds > maxWaitSeconds) {
+        floodWaits.inc({ outcome: "aborted" });
         throw new Error(`FLOOD_WAIT ${waitSeconds}s exceeds max ${maxWaitSeconds}s — aborting`);
       }
 
-      if (attempt >= maxRetries) break;
+      if (attempt >= maxRetries) {
+        floodWaits.inc({ outcome: "aborted" });
+        break;
+      }
 
       log.warn(`[FLOOD_WAIT] Waiting ${waitSeconds}s before retry ${attempt + 1}/${maxRetries}`);
+      floodWaits.inc({ outcome: "retried" });
+      floodWaitSeconds.inc(undefined, waitSeconds);
       await new Promise((r) => setTimeout(r, waitSeconds * 1000));
     }
   }
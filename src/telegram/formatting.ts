@@ -1,3 +1,5 @@
+import { CITATION_PATTERN, messageLink } from "../memory/search/citations.js";
+
 function escapeHtml(text: string): string {
   return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
@@ -8,6 +10,22 @@ function sanitizeUrl(url: string): string {
   return url.replace(/"/g, "&quot;");
 }
 
+/**
+ * Render a RAG citation tag: messages as t.me links where the chat has one,
+ * knowledge chunks as their file reference.
+ */
+function renderCitation(kind: string, body: string): string {
+  if (kind === "msg") {
+    const link = messageLink(body);
+    const messageId = body.split("/").pop();
+    return link
+      ? `<a href="${link}">[source]</a>`
+      : `<i>[message ${escapeHtml(messageId ?? "")}]</i>`;
+  }
+  const label = body.split("|")[1]?.trim();
+  return `<i>[${escapeHtml(label || "memory")}]</i>`;
+}
+
 export function markdownToTelegramHtml(markdown: string): string {
   if (!markdown) return "";
 
@@ -34,6 +52,13 @@ export function markdownToTelegramHtml(markdown: string): string {
     return `\x00INLINECODE${index}\x00`;
   });
 
+  const citations: string[] = [];
+  html = html.replace(CITATION_PATTERN, (_match, kind: string, body: string) => {
+    const index = citations.length;
+    citations.push(renderCitation(kind, body));
+    return `\x00CITATION${index}\x00`;
+  });
+
   const listPattern = /^(- .+(?:\n- .+){2,})/gm;
   html = html.replace(listPattern, (match) => {
     const index = blockquotes.length;
@@ -113,5 +138,9 @@ export function markdownToTelegramHtml(markdown: string): string {
     html = html.replace(`\x00INLINECODE${index}\x00`, code);
   });
 
+  citations.forEach((citation, index) => {
+    html = html.replace(`\x00CITATION${index}\x00`, citation);
+  });
+
   return html;
 }
@@ -15,7 +15,14 @@ import {
 } from "../agent/tools/telegram/index.js";
 import type { ToolContext } from "../agent/tools/types.js";
 import { TELEGRAM_SEND_TOOLS } from "../constants/tools.js";
+import type { PairingStore } from "./pairing-store.js";
+import { PairingNotifier } from "./pairing-notifier.js";
+import { transcribeAudio } from "../services/stt.js";
+import { ReplyStreamer } from "./reply-stream.js";
+import { Api } from "telegram";
 import { createLogger } from "../utils/logger.js";
+import { chatQueueActiveChats, chatQueueDepth } from "../metrics/index.js";
+import { withTrace, type SpanHandle } from "../tracing/tracer.js";
 
 const log = createLogger("Telegram");
 import type { PluginMessageEvent } from "@teleton-agent/sdk";
@@ -85,14 +92,18 @@ class ChatQueue {
     const next = prev
       .then(task, () => task())
       .finally(() => {
+        chatQueueDepth.dec();
         // Auto-cleanup: remove entry if this is still the tail of the chain
         if (this.chains.get(chatId) === next) {
           this.chains.delete(chatId);
+          chatQueueActiveChats.set(undefined, this.chains.size);
         }
       });
 
     // Register as new tail BEFORE awaiting (atomic in single-threaded JS)
     this.chains.set(chatId, next);
+    chatQueueDepth.inc();
+    chatQueueActiveChats.set(undefined, this.chains.size);
     return next;
   }
 
@@ -123,6 +134,8 @@ export class MessageHandler {
   private db: Database.Database;
   private chatQueue: ChatQueue = new ChatQueue();
   private pluginMessageHooks: Array<(e: PluginMessageEvent) => Promise<void>> = [];
+  private pairingStore: PairingStore | null = null;
+  private pairingNotifier: PairingNotifier;
 
   constructor(
     bridge: TelegramBridge,
@@ -147,6 +160,7 @@ export class MessageHandler {
     this.chatStore = new ChatStore(db);
     this.userStore = new UserStore(db);
     this.pendingHistory = new PendingHistory();
+    this.pairingNotifier = new PairingNotifier(bridge, () => this.config.admin_ids);
 
     this.lastProcessedMessageId = 0;
   }
@@ -155,6 +169,10 @@ export class MessageHandler {
     this.ownUserId = userId;
   }
 
+  setPairingStore(store: PairingStore): void {
+    this.pairingStore = store;
+  }
+
   setPluginMessageHooks(hooks: Array<(e: PluginMessageEvent) => Promise<void>>): void {
     this.pluginMessageHooks = hooks;
   }
@@ -205,7 +223,11 @@ export class MessageHandler {
           }
           break;
         case "pairing":
-          if (!this.config.allow_from.includes(message.senderId) && !isAdmin) {
+          if (
+            !this.config.allow_from.includes(message.senderId) &&
+            !isAdmin &&
+            !this.pairingStore?.isPaired(message.senderId)
+          ) {
             return {
               message,
               isAdmin,
@@ -303,6 +325,10 @@ export class MessageHandler {
     }
 
     if (!context.shouldRespond) {
+      if (context.reason === "Not paired") {
+        await this.handleUnpairedSender(message);
+        return;
+      }
       if (message.isGroup && context.reason === "Not mentioned") {
         const chatShort =
           message.chatId.length > 10
@@ -327,105 +353,246 @@ export class MessageHandler {
     }
 
     // Enqueue for serial processing — messages wait their turn per chat
-    await this.chatQueue.enqueue(message.chatId, async () => {
-      try {
-        // Re-check offset after queue wait to prevent duplicate processing
-        // (GramJS may fire duplicate NewMessage events during reconnection)
-        const postQueueOffset = readOffset(message.chatId) ?? 0;
-        if (message.id <= postQueueOffset) {
-          log.debug(`Skipping message ${message.id} (already processed after queue wait)`);
-          return;
-        }
-
-        // 4. Typing simulation if enabled
-        if (this.config.typing_simulation) {
-          await this.bridge.setTyping(message.chatId);
-        }
-
-        // 5. Get pending history for groups (if any)
-        let pendingContext: string | null = null;
-        if (message.isGroup) {
-          pendingContext = this.pendingHistory.getAndClearPending(message.chatId);
+    const enqueuedAt = Date.now();
+    await this.chatQueue.enqueue(message.chatId, () =>
+      withTrace(
+        "telegram.message",
+        {
+          "chat.id": message.chatId,
+          "chat.type": msgType,
+          "message.id": message.id,
+          "sender.id": message.senderId,
+        },
+        (span) => {
+          span.setAttribute("queue.wait_ms", Date.now() - enqueuedAt);
+          return this.respond(message, span);
         }
+      )
+    );
+  }
 
-        // 6. Build tool context
-        const toolContext: Omit<ToolContext, "chatId" | "isGroup"> = {
-          bridge: this.bridge,
-          db: this.db,
-          senderId: message.senderId,
-          config: this.fullConfig,
-        };
-
-        // 7. Get response from agent (with tools)
-        const userName =
-          message.senderFirstName || message.senderUsername || `user:${message.senderId}`;
-        const response = await this.agent.processMessage(
-          message.chatId,
-          message.text,
-          userName,
-          message.timestamp.getTime(),
-          message.isGroup,
-          pendingContext,
-          toolContext,
-          message.senderUsername,
-          message.hasMedia,
-          message.mediaType,
-          message.id
-        );
+  /**
+   * Run the agent on a queued message and deliver its reply.
+   * Errors are logged and recorded on the trace, never rethrown.
+   */
+  private async respond(message: TelegramMessage, span: SpanHandle): Promise<void> {
+    let replyStream: ReplyStreamer | undefined;
+    try {
+      // Re-check offset after queue wait to prevent duplicate processing
+      // (GramJS may fire duplicate NewMessage events during reconnection)
+      const postQueueOffset = readOffset(message.chatId) ?? 0;
+      if (message.id <= postQueueOffset) {
+        log.debug(`Skipping message ${message.id} (already processed after queue wait)`);
+        span.setAttribute("skipped", true);
+        return;
+      }
 
-        // 8. Handle response based on whether tools were used
-        const hasToolCalls = response.toolCalls && response.toolCalls.length > 0;
+      // 4. Typing simulation if enabled
+      if (this.config.typing_simulation) {
+        await this.bridge.setTyping(message.chatId);
+      }
 
-        // Check if agent used any Telegram send tool - it already sent the message
-        const telegramSendCalled =
-          hasToolCalls && response.toolCalls?.some((tc) => TELEGRAM_SEND_TOOLS.has(tc.name));
+      // 5. Get pending history for groups (if any)
+      let pendingContext: string | null = null;
+      if (message.isGroup) {
+        pendingContext = this.pendingHistory.getAndClearPending(message.chatId);
+      }
 
-        if (!telegramSendCalled && response.content && response.content.trim().length > 0) {
-          // Agent returned text but didn't use the send tool - send it manually
-          let responseText = response.content;
+      // 5b. Transcribe voice notes (cached in tg_messages)
+      const transcript = await this.transcribeVoice(message);
 
-          // Truncate if needed
-          if (responseText.length > this.config.max_message_length) {
-            responseText = responseText.slice(0, this.config.max_message_length - 3) + "...";
-          }
+      // 6. Build tool context
+      const toolContext: Omit<ToolContext, "chatId" | "isGroup"> = {
+        bridge: this.bridge,
+        db: this.db,
+        senderId: message.senderId,
+        config: this.fullConfig,
+      };
 
-          const sentMessage = await this.bridge.sendMessage({
+      // 7. Get response from agent (with tools), streamed into a draft if enabled
+      const streaming = this.config.streaming;
+      replyStream = (message.isGroup ? streaming.group : streaming.dm)
+        ? new ReplyStreamer(this.bridge, {
             chatId: message.chatId,
-            text: responseText,
             replyToId: message.id,
-          });
-
-          // Store agent's response to feed
-          await this.storeTelegramMessage(
-            {
-              id: sentMessage.id,
-              chatId: message.chatId,
-              senderId: this.ownUserId ? parseInt(this.ownUserId) : 0,
-              text: responseText,
-              isGroup: message.isGroup,
-              isChannel: message.isChannel,
-              isBot: false,
-              mentionsMe: false,
-              timestamp: new Date(sentMessage.date * 1000),
-              hasMedia: false,
-            },
-            true
-          );
+            intervalMs: streaming.edit_interval_ms,
+            maxLength: this.config.max_message_length,
+          })
+        : undefined;
+      const userName =
+        message.senderFirstName || message.senderUsername || `user:${message.senderId}`;
+      const response = await this.agent.processMessage(
+        message.chatId,
+        message.text,
+        userName,
+        message.timestamp.getTime(),
+        message.isGroup,
+        pendingContext,
+        toolContext,
+        message.senderUsername,
+        message.hasMedia,
+        message.mediaType,
+        message.id,
+        transcript,
+        replyStream
+      );
+
+      // 8. Handle response based on whether tools were used
+      const hasToolCalls = response.toolCalls && response.toolCalls.length > 0;
+
+      // Check if agent used any Telegram send tool - it already sent the message
+      const telegramSendCalled =
+        hasToolCalls && response.toolCalls?.some((tc) => TELEGRAM_SEND_TOOLS.has(tc.name));
+
+      if (!telegramSendCalled && response.content && response.content.trim().length > 0) {
+        // Agent returned text but didn't use the send tool - send it manually
+        let responseText = response.content;
+
+        // Truncate if needed
+        if (responseText.length > this.config.max_message_length) {
+          responseText = responseText.slice(0, this.config.max_message_length - 3) + "...";
         }
 
-        // 9. Clear pending history after responding (for groups)
-        if (message.isGroup) {
-          this.pendingHistory.clearPending(message.chatId);
+        // Streamed: the draft becomes the reply. Fall back to a fresh message if that fails.
+        const streamedId = replyStream ? await replyStream.finalize(responseText) : null;
+        if (replyStream && streamedId === null) {
+          await replyStream.discard();
         }
 
-        // Mark as processed AFTER successful handling (prevents message loss on crash)
-        writeOffset(message.id, message.chatId);
+        const sentMessage =
+          streamedId !== null
+            ? { id: streamedId, date: Math.floor(Date.now() / 1000) }
+            : await this.bridge.sendMessage({
+                chatId: message.chatId,
+                text: responseText,
+                replyToId: message.id,
+              });
+
+        // Store agent's response to feed
+        await this.storeTelegramMessage(
+          {
+            id: sentMessage.id,
+            chatId: message.chatId,
+            senderId: this.ownUserId ? parseInt(this.ownUserId) : 0,
+            text: responseText,
+            isGroup: message.isGroup,
+            isChannel: message.isChannel,
+            isBot: false,
+            mentionsMe: false,
+            timestamp: new Date(sentMessage.date * 1000),
+            hasMedia: false,
+          },
+          true
+        );
+      } else if (replyStream) {
+        // Reply went out through a send tool (or there is none): drop the draft
+        await replyStream.discard();
+      }
+
+      // 9. Clear pending history after responding (for groups)
+      if (message.isGroup) {
+        this.pendingHistory.clearPending(message.chatId);
+      }
+
+      // Mark as processed AFTER successful handling (prevents message loss on crash)
+      writeOffset(message.id, message.chatId);
+
+      log.debug(`Processed message ${message.id} in chat ${message.chatId}`);
+    } catch (error) {
+      log.error({ err: error }, "Error handling message");
+      span.recordError(error);
+      // Don't leave a half-written draft behind
+      await replyStream?.discard();
+    }
+  }
+
+  /**
+   * Issue a pairing code to an unknown DM sender and notify the admins.
+   * The code is only sent once per TTL window to avoid replying to every message.
+   */
+  private async handleUnpairedSender(message: TelegramMessage): Promise<void> {
+    if (!this.pairingStore) {
+      log.debug(`Skipping message ${message.id} from ${message.senderId}: Not paired`);
+      return;
+    }
 
-        log.debug(`Processed message ${message.id} in chat ${message.chatId}`);
-      } catch (error) {
-        log.error({ err: error }, "Error handling message");
+    try {
+      const { request, isNew } = this.pairingStore.requestCode({
+        peerId: message.senderId,
+        username: message.senderUsername,
+        firstName: message.senderFirstName,
+      });
+
+      if (!isNew) {
+        log.debug(`Skipping message ${message.id} from ${message.senderId}: pairing pending`);
+        return;
       }
-    });
+
+      const minutes = Math.max(1, Math.round((request.expiresAt - Date.now()) / 60000));
+      await this.bridge.sendMessage({
+        chatId: message.chatId,
+        text:
+          `🔐 This agent only talks to paired users.\n\n` +
+          `Your pairing code: **${request.code}**\n` +
+          `Send it to the owner for approval. The code expires in ${minutes} min.`,
+        replyToId: message.id,
+      });
+
+      this.pairingNotifier.notify(request);
+
+      const who = message.senderUsername
+        ? `@${message.senderUsername}`
+        : message.senderFirstName || `user:${message.senderId}`;
+      log.info(`🔐 Pairing code issued to ${who} (${message.senderId})`);
+    } catch (error) {
+      log.error({ err: error }, "Error issuing pairing code");
+    }
+  }
+
+  /**
+   * Speech-to-text for voice/audio messages. The transcript is cached in
+   * tg_messages so a message is only transcribed once. Failures are logged and
+   * the message is processed without a transcript.
+   */
+  private async transcribeVoice(message: TelegramMessage): Promise<string | undefined> {
+    const stt = this.fullConfig?.stt;
+    if (!stt || stt.provider === "none") return undefined;
+    if (message.mediaType !== "voice" && message.mediaType !== "audio") return undefined;
+    if (!message._rawMessage) return undefined;
+
+    const messageId = message.id.toString();
+    const cached = this.messageStore.getTranscript(message.chatId, messageId);
+    if (cached) return cached;
+
+    const document = message._rawMessage.document;
+    const audioAttr =
+      document instanceof Api.Document
+        ? document.attributes.find((a) => a instanceof Api.DocumentAttributeAudio)
+        : undefined;
+    const duration = audioAttr instanceof Api.DocumentAttributeAudio ? audioAttr.duration : 0;
+    if (duration > stt.max_duration_seconds) {
+      log.info(
+        `🎤 Voice message ${message.id} too long to transcribe (${duration}s > ${stt.max_duration_seconds}s)`
+      );
+      return undefined;
+    }
+
+    try {
+      const gramJsClient = this.bridge.getClient().getClient();
+      const audio = await gramJsClient.downloadMedia(message._rawMessage, {});
+      if (!audio || !Buffer.isBuffer(audio) || audio.length === 0) return undefined;
+
+      const fileName = message.mediaType === "voice" ? "voice.ogg" : audioFileName(document);
+      const result = await transcribeAudio({ audio, fileName }, stt);
+      if (!result?.text) return undefined;
+
+      this.messageStore.setTranscript(message.chatId, messageId, result.text);
+      log.info(`🎤 Transcribed ${message.mediaType} ${message.id} (${result.provider})`);
+      return result.text;
+    } catch (error) {
+      log.warn({ err: error }, `Failed to transcribe ${message.mediaType} ${message.id}`);
+      return undefined;
+    }
   }
 
   /**
@@ -478,3 +645,11 @@ export class MessageHandler {
     return this.lastProcessedMessageId;
   }
 }
+
+function audioFileName(document: Api.TypeDocument | undefined): string {
+  if (document instanceof Api.Document) {
+    const named = document.attributes.find((a) => a instanceof Api.DocumentAttributeFilename);
+    if (named instanceof Api.DocumentAttributeFilename) return named.fileName;
+  }
+  return "audio.mp3";
+}
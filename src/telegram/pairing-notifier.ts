@@ -0,0 +1,74 @@
+import type { TelegramBridge } from "./bridge.js";
+import type { PairingRequest } from "./pairing-store.js";
+import { PAIRING_NOTICE_MAX_LISTED } from "../constants/limits.js";
+import { PAIRING_NOTICE_INTERVAL_MS } from "../constants/timeouts.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Telegram");
+
+function describePeer(request: PairingRequest): string {
+  const who = request.username ? `@${request.username}` : request.firstName || "user";
+  return `${who} (\`${request.peerId}\`)`;
+}
+
+/**
+ * Tells the admins about new pairing requests. The first request is sent
+ * right away; requests arriving within PAIRING_NOTICE_INTERVAL_MS of a notice
+ * are batched into one digest, so a wave of unknown senders sends the admins
+ * one message per interval instead of one each.
+ */
+export class PairingNotifier {
+  private queued: PairingRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private bridge: Pick<TelegramBridge, "sendMessage">,
+    private adminIds: () => number[]
+  ) {}
+
+  notify(request: PairingRequest): void {
+    this.queued.push(request);
+    if (!this.timer) this.flush();
+  }
+
+  private flush(): void {
+    const requests = this.queued.splice(0);
+    if (requests.length === 0) {
+      this.timer = null;
+      return;
+    }
+    this.timer = setTimeout(() => this.flush(), PAIRING_NOTICE_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.send(requests.length === 1 ? this.single(requests[0]) : this.digest(requests));
+  }
+
+  private single(request: PairingRequest): string {
+    return (
+      `🔐 **Pairing request** from ${describePeer(request)}\n\n` +
+      `Approve: \`/pair approve ${request.code}\`\n` +
+      `Deny: \`/pair deny ${request.code}\``
+    );
+  }
+
+  private digest(requests: PairingRequest[]): string {
+    const listed = requests
+      .slice(0, PAIRING_NOTICE_MAX_LISTED)
+      .map((r) => `• ${describePeer(r)}: \`${r.code}\``);
+    const more = requests.length - listed.length;
+    return (
+      `🔐 **${requests.length} pairing requests**\n\n${listed.join("\n")}` +
+      (more > 0 ? `\n…and ${more} more` : "") +
+      `\n\nSee all with \`/pair list\`; approve with \`/pair approve <code>\``
+    );
+  }
+
+  private async send(text: string): Promise<void> {
+    for (const adminId of this.adminIds()) {
+      try {
+        await this.bridge.sendMessage({ chatId: adminId.toString(), text });
+      } catch (error) {
+        log.warn({ err: error }, `Failed to notify admin ${adminId} of pairing requests`);
+      }
+    }
+  }
+}
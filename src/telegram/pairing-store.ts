@@ -0,0 +1,253 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { dirname } from "path";
+import { randomInt } from "crypto";
+import type { TelegramConfig } from "../config/schema.js";
+import { PAIRING_MAX_PENDING } from "../constants/limits.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Telegram");
+
+/** Unambiguous alphabet (no 0/O, 1/I/L) so codes survive being read aloud or retyped */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export interface PairingRequest {
+  code: string;
+  peerId: number;
+  username?: string;
+  firstName?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface PairedPeer {
+  peerId: number;
+  username?: string;
+  firstName?: string;
+  approvedAt: number;
+  /** Who approved the pairing (e.g. "telegram:123456" or "webui") */
+  approvedBy: string;
+  /** Epoch ms after which the pairing lapses (null = never) */
+  expiresAt: number | null;
+}
+
+export interface PairingStoreOptions {
+  /** How long a one-time code stays valid */
+  codeTtlMs: number;
+  /** How long an approved pairing lasts (null = forever) */
+  pairingTtlMs: number | null;
+  /** Most pending codes kept; the oldest is dropped to issue a new one */
+  maxPending?: number;
+}
+
+interface PairingState {
+  version: number;
+  pending: PairingRequest[];
+  approved: PairedPeer[];
+}
+
+const STORE_VERSION = 1;
+
+/**
+ * File-backed store for DM pairing (dm_policy: "pairing").
+ *
+ * Unknown DM senders receive a one-time code; the owner approves it with
+ * `/pair approve <code>` or from the WebUI, which moves the peer into the
+ * approved list persisted at `storage.pairing_file`. At most `maxPending`
+ * codes are pending at once, so a wave of new senders can't grow the file.
+ */
+export class PairingStore {
+  private state: PairingState | null = null;
+
+  constructor(
+    private filePath: string,
+    private options: PairingStoreOptions
+  ) {}
+
+  private load(): PairingState {
+    if (this.state) return this.state;
+
+    try {
+      if (!existsSync(this.filePath)) {
+        this.state = { version: STORE_VERSION, pending: [], approved: [] };
+        return this.state;
+      }
+
+      const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      this.state = {
+        version: STORE_VERSION,
+        pending: Array.isArray(raw.pending) ? raw.pending : [],
+        approved: Array.isArray(raw.approved) ? raw.approved : [],
+      };
+      return this.state;
+    } catch (error) {
+      log.warn({ err: error }, "Failed to read pairing store");
+      this.state = { version: STORE_VERSION, pending: [], approved: [] };
+      return this.state;
+    }
+  }
+
+  private save(state: PairingState): void {
+    try {
+      const dir = dirname(this.filePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      // Atomic write: write to temp file, then rename (POSIX atomic)
+      const tmpFile = this.filePath + ".tmp";
+      writeFileSync(tmpFile, JSON.stringify(state, null, 2), { encoding: "utf-8", mode: 0o600 });
+      renameSync(tmpFile, this.filePath);
+      this.state = state;
+    } catch (error) {
+      log.error({ err: error }, "Failed to write pairing store");
+    }
+  }
+
+  private generateCode(taken: Set<string>): string {
+    let code: string;
+    do {
+      code = "";
+      for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+      }
+    } while (taken.has(code));
+    return code;
+  }
+
+  /**
+   * Drop expired codes and lapsed pairings. Returns how many of each were removed.
+   */
+  pruneExpired(now = Date.now()): { pending: number; approved: number } {
+    const state = this.load();
+    const pending = state.pending.filter((r) => r.expiresAt > now);
+    const approved = state.approved.filter((p) => p.expiresAt === null || p.expiresAt > now);
+
+    const removed = {
+      pending: state.pending.length - pending.length,
+      approved: state.approved.length - approved.length,
+    };
+    if (removed.pending > 0 || removed.approved > 0) {
+      this.save({ ...state, pending, approved });
+    }
+    return removed;
+  }
+
+  isPaired(peerId: number): boolean {
+    const now = Date.now();
+    return this.load().approved.some(
+      (p) => p.peerId === peerId && (p.expiresAt === null || p.expiresAt > now)
+    );
+  }
+
+  /**
+   * Get (or issue) the pending pairing code for a peer.
+   * `isNew` is true only when a fresh code was generated, so callers can
+   * avoid re-sending the same code on every message.
+   */
+  requestCode(peer: { peerId: number; username?: string; firstName?: string }): {
+    request: PairingRequest;
+    isNew: boolean;
+  } {
+    this.pruneExpired();
+    const state = this.load();
+
+    const existing = state.pending.find((r) => r.peerId === peer.peerId);
+    if (existing) {
+      return { request: existing, isNew: false };
+    }
+
+    const now = Date.now();
+    const request: PairingRequest = {
+      code: this.generateCode(new Set(state.pending.map((r) => r.code))),
+      peerId: peer.peerId,
+      username: peer.username,
+      firstName: peer.firstName,
+      createdAt: now,
+      expiresAt: now + this.options.codeTtlMs,
+    };
+    const maxPending = this.options.maxPending ?? PAIRING_MAX_PENDING;
+    const kept = state.pending.slice(Math.max(0, state.pending.length - maxPending + 1));
+    if (kept.length < state.pending.length) {
+      log.debug(
+        `Pairing requests at the limit of ${maxPending}, dropped ${state.pending.length - kept.length} oldest`
+      );
+    }
+    this.save({ ...state, pending: [...kept, request] });
+    return { request, isNew: true };
+  }
+
+  /**
+   * Approve a pending code. Returns the new pairing, or null if the code
+   * is unknown or expired.
+   */
+  approve(code: string, approvedBy: string): PairedPeer | null {
+    this.pruneExpired();
+    const state = this.load();
+    const normalized = code.trim().toUpperCase();
+
+    const request = state.pending.find((r) => r.code === normalized);
+    if (!request) return null;
+
+    const now = Date.now();
+    const paired: PairedPeer = {
+      peerId: request.peerId,
+      username: request.username,
+      firstName: request.firstName,
+      approvedAt: now,
+      approvedBy,
+      expiresAt: this.options.pairingTtlMs !== null ? now + this.options.pairingTtlMs : null,
+    };
+
+    this.save({
+      ...state,
+      pending: state.pending.filter((r) => r.code !== normalized),
+      approved: [...state.approved.filter((p) => p.peerId !== request.peerId), paired],
+    });
+    return paired;
+  }
+
+  /**
+   * Reject a pending code without pairing.
+   */
+  deny(code: string): boolean {
+    const state = this.load();
+    const normalized = code.trim().toUpperCase();
+    const pending = state.pending.filter((r) => r.code !== normalized);
+    if (pending.length === state.pending.length) return false;
+    this.save({ ...state, pending });
+    return true;
+  }
+
+  /**
+   * Revoke an approved pairing.
+   */
+  revoke(peerId: number): boolean {
+    const state = this.load();
+    const approved = state.approved.filter((p) => p.peerId !== peerId);
+    if (approved.length === state.approved.length) return false;
+    this.save({ ...state, approved });
+    return true;
+  }
+
+  listPending(): PairingRequest[] {
+    this.pruneExpired();
+    return [...this.load().pending];
+  }
+
+  listApproved(): PairedPeer[] {
+    this.pruneExpired();
+    return [...this.load().approved];
+  }
+}
+
+/**
+ * Build store options from the telegram config section.
+ */
+export function pairingOptionsFromConfig(config: TelegramConfig): PairingStoreOptions {
+  return {
+    codeTtlMs: config.pairing_code_ttl_minutes * 60 * 1000,
+    pairingTtlMs:
+      config.pairing_expiry_days > 0 ? config.pairing_expiry_days * 24 * 60 * 60 * 1000 : null,
+  };
+}
@@ -0,0 +1,156 @@
+import type { TelegramBridge } from "./bridge.js";
+import type { ReplyStream } from "../agent/runtime.js";
+import { withFloodRetry } from "./flood-retry.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Telegram");
+
+/** Appended to the draft while the reply is still being generated */
+const CURSOR = " ▍";
+
+/** Don't open a draft for the first few tokens */
+const MIN_DRAFT_CHARS = 20;
+
+/** Skip an intermediate edit rather than wait out a long FLOOD_WAIT; the final edit catches up */
+const MAX_EDIT_FLOOD_WAIT_SECONDS = 10;
+
+export interface ReplyStreamerOptions {
+  chatId: string;
+  replyToId?: number;
+  /** Minimum delay between two edits of the draft */
+  intervalMs: number;
+  maxLength: number;
+}
+
+/**
+ * Streams an agent reply into Telegram: the text is sent early as a draft
+ * message, then edited in place as more tokens arrive (at most once per
+ * `intervalMs`). Sends and edits are serialized, so the draft never goes
+ * backwards.
+ */
+export class ReplyStreamer implements ReplyStream {
+  private text = "";
+  private shown = "";
+  private draftId: number | null = null;
+  private lastFlushAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private bridge: TelegramBridge,
+    private options: ReplyStreamerOptions
+  ) {}
+
+  /** Telegram message ID of the draft, once it has been sent */
+  get messageId(): number | null {
+    return this.draftId;
+  }
+
+  update(text: string): void {
+    if (this.closed) return;
+    this.text = text;
+    if (this.draftId === null && text.length < MIN_DRAFT_CHARS) return;
+    this.schedule();
+  }
+
+  /**
+   * Tool calls interrupted the text: show what we have without the cursor,
+   * the next update resumes editing the same message.
+   */
+  pause(): void {
+    if (this.closed) return;
+    this.cancelTimer();
+    this.enqueue(() => this.flush(false));
+  }
+
+  /**
+   * Write the final reply into the draft (or send it, if no draft was opened).
+   * Returns the message ID, or null if nothing could be delivered.
+   */
+  async finalize(text: string): Promise<number | null> {
+    this.closed = true;
+    this.cancelTimer();
+    this.text = text;
+    await this.enqueue(() => this.flush(false));
+    return this.shown === this.clip(text, false) ? this.draftId : null;
+  }
+
+  /**
+   * Drop the draft (the agent delivered its reply another way, or has nothing to say).
+   */
+  async discard(): Promise<void> {
+    this.closed = true;
+    this.cancelTimer();
+    await this.queue;
+    if (this.draftId === null) return;
+    try {
+      await this.bridge.deleteMessage(this.options.chatId, this.draftId);
+    } catch (error) {
+      log.warn(`Failed to delete streamed draft ${this.draftId}: ${getErrorMessage(error)}`);
+    }
+    this.draftId = null;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastFlushAt + this.options.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.closed) this.enqueue(() => this.flush(true));
+    }, wait);
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    this.queue = next;
+    return next;
+  }
+
+  private clip(text: string, withCursor: boolean): string {
+    const suffix = withCursor ? CURSOR : "";
+    const max = this.options.maxLength - suffix.length;
+    const body = text.length > max ? text.slice(0, max - 3) + "..." : text;
+    return body + suffix;
+  }
+
+  private async flush(withCursor: boolean): Promise<void> {
+    if (!this.text.trim()) return;
+    const body = this.clip(this.text, withCursor);
+    if (body === this.shown) return;
+
+    this.lastFlushAt = Date.now();
+    const { chatId, replyToId } = this.options;
+    try {
+      if (this.draftId === null) {
+        const sent = await withFloodRetry(
+          () => this.bridge.sendMessage({ chatId, text: body, replyToId }),
+          MAX_EDIT_FLOOD_WAIT_SECONDS
+        );
+        this.draftId = sent.id;
+      } else {
+        const messageId = this.draftId;
+        await withFloodRetry(
+          () => this.bridge.editMessage({ chatId, messageId, text: body }),
+          MAX_EDIT_FLOOD_WAIT_SECONDS
+        );
+      }
+      this.shown = body;
+    } catch (error) {
+      const message = getErrorMessage(error);
+      if (message.includes("MESSAGE_NOT_MODIFIED")) {
+        this.shown = body;
+        return;
+      }
+      log.warn(`Streamed reply update failed: ${message}`);
+    }
+  }
+}
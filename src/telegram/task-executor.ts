@@ -1,4 +1,5 @@
 import type { Task } from "../memory/agent/tasks.js";
+import { describeRecurrence } from "../memory/agent/task-recurrence.js";
 import type { ToolContext } from "../agent/tools/types.js";
 import type { AgentRuntime } from "../agent/runtime.js";
 import {
@@ -134,6 +135,11 @@ function buildAgentPrompt(
 
   prompt += `Scheduled: ${timeAgo}\n`;
 
+  if (task.recurrence) {
+    const run = task.runCount + 1;
+    prompt += `Recurring: ${describeRecurrence(task.recurrence)} (run ${run}${task.maxRuns ? ` of ${task.maxRuns}` : ""})\n`;
+  }
+
   // Add parent task results if this is a dependent task
   if (parentResults && parentResults.length > 0) {
     prompt += `\n`;
@@ -0,0 +1,39 @@
+import { Api } from "telegram";
+import type { TelegramBridge } from "./bridge.js";
+import { randomLong } from "../utils/gramjs-bigint.js";
+
+/**
+ * Schedule the `[TASK:uuid] description` message in Saved Messages that
+ * fires a task at `runAt`. Returns the scheduled message id when Telegram
+ * reports one.
+ */
+export async function scheduleTaskReminder(
+  bridge: TelegramBridge,
+  task: { id: string; description: string },
+  runAt: Date
+): Promise<number | undefined> {
+  const gramJsClient = bridge.getClient().getClient();
+
+  // Get "me" entity for Saved Messages
+  const me = await gramJsClient.getMe();
+
+  const result = await gramJsClient.invoke(
+    new Api.messages.SendMessage({
+      peer: me,
+      message: `[TASK:${task.id}] ${task.description}`,
+      scheduleDate: Math.floor(runAt.getTime() / 1000),
+      randomId: randomLong(),
+    })
+  );
+
+  // Extract scheduled message ID
+  if (result instanceof Api.Updates || result instanceof Api.UpdatesCombined) {
+    for (const update of result.updates) {
+      if (update instanceof Api.UpdateMessageID) {
+        return update.id;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { join } from "path";
+
+const paths = vi.hoisted(() => {
+  const { mkdtempSync } = require("fs") as typeof import("fs");
+  const { tmpdir } = require("os") as typeof import("os");
+  const { join: joinPath } = require("path") as typeof import("path");
+  return { root: mkdtempSync(joinPath(tmpdir(), "teleton-keystore-")) };
+});
+
+vi.mock("../../workspace/paths.js", () => ({ TELETON_ROOT: paths.root }));
+
+import {
+  encryptMnemonic,
+  decryptMnemonic,
+  isEncryptedKeystore,
+  KeystoreDecryptError,
+} from "../keystore.js";
+import {
+  generateWallet,
+  saveWallet,
+  loadWallet,
+  getKeyPair,
+  isWalletLocked,
+  unlockWallet,
+  lockWallet,
+  exportMnemonic,
+  setWalletPassphrase,
+  WalletLockedError,
+  type WalletData,
+} from "../wallet-service.js";
+
+// Cheap KDF parameters keep the unit tests fast
+const FAST = { n: 1024, r: 8, p: 1 };
+const WORDS = Array.from({ length: 24 }, (_, i) => `word${i}`);
+const WALLET_FILE = join(paths.root, "wallet.json");
+
+describe("keystore", () => {
+  it("round-trips a mnemonic", async () => {
+    const ks = await encryptMnemonic(WORDS, "correct horse", "pub", FAST);
+    expect(isEncryptedKeystore(ks)).toBe(true);
+    expect(JSON.stringify(ks)).not.toContain("word0");
+    expect(await decryptMnemonic(ks, "correct horse", "pub")).toEqual(WORDS);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const ks = await encryptMnemonic(WORDS, "correct horse", "pub", FAST);
+    await expect(decryptMnemonic(ks, "wrong horse", "pub")).rejects.toBeInstanceOf(
+      KeystoreDecryptError
+    );
+  });
+
+  it("detects tampering and a mismatched public key", async () => {
+    const ks = await encryptMnemonic(WORDS, "correct horse", "pub", FAST);
+    const flipped = Buffer.from(ks.ciphertext, "base64");
+    flipped[0] ^= 1;
+    await expect(
+      decryptMnemonic({ ...ks, ciphertext: flipped.toString("base64") }, "correct horse", "pub")
+    ).rejects.toBeInstanceOf(KeystoreDecryptError);
+    await expect(decryptMnemonic(ks, "correct horse", "other")).rejects.toBeInstanceOf(
+      KeystoreDecryptError
+    );
+  });
+
+  it("uses a fresh salt and IV per encryption", async () => {
+    const a = await encryptMnemonic(WORDS, "correct horse", "pub", FAST);
+    const b = await encryptMnemonic(WORDS, "correct horse", "pub", FAST);
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.iv).not.toBe(b.iv);
+    expect(isEncryptedKeystore({ ...a, tag: 1 })).toBe(false);
+  });
+});
+
+describe("encrypted wallet file", () => {
+  let wallet: WalletData;
+
+  beforeEach(async () => {
+    wallet ??= await generateWallet();
+    rmSync(WALLET_FILE, { force: true });
+    lockWallet();
+  });
+
+  afterAll(() => {
+    rmSync(paths.root, { recursive: true, force: true });
+  });
+
+  it("never writes the mnemonic when a passphrase is given", async () => {
+    await saveWallet(wallet, "passphrase-1");
+    const raw = readFileSync(WALLET_FILE, "utf-8");
+    expect(raw).not.toContain(wallet.mnemonic[0] + '"');
+    expect(JSON.parse(raw).mnemonic).toBeUndefined();
+    expect(loadWallet()).toMatchObject({ address: wallet.address, encrypted: true });
+  });
+
+  it("fails closed while locked and signs after unlock", async () => {
+    await saveWallet(wallet, "passphrase-1");
+    lockWallet();
+
+    expect(isWalletLocked()).toBe(true);
+    await expect(getKeyPair()).rejects.toBeInstanceOf(WalletLockedError);
+    await expect(unlockWallet("nope-nope")).rejects.toBeInstanceOf(KeystoreDecryptError);
+
+    await unlockWallet("passphrase-1");
+    expect(isWalletLocked()).toBe(false);
+    expect((await getKeyPair())?.publicKey.toString("hex")).toBe(wallet.publicKey);
+  });
+
+  it("migrates a plaintext wallet and rotates the passphrase", async () => {
+    await saveWallet(wallet, "");
+    expect(loadWallet()?.encrypted).toBe(false);
+    expect(isWalletLocked()).toBe(false);
+
+    await setWalletPassphrase("passphrase-1");
+    expect(JSON.parse(readFileSync(WALLET_FILE, "utf-8")).mnemonic).toBeUndefined();
+
+    lockWallet();
+    await expect(setWalletPassphrase("passphrase-2", "bad-passphrase")).rejects.toBeInstanceOf(
+      KeystoreDecryptError
+    );
+    await setWalletPassphrase("passphrase-2", "passphrase-1");
+
+    lockWallet();
+    await expect(exportMnemonic()).rejects.toBeInstanceOf(WalletLockedError);
+    expect(await exportMnemonic("passphrase-2")).toEqual(wallet.mnemonic);
+    expect(existsSync(`${WALLET_FILE}.tmp`)).toBe(false);
+  });
+
+  it("rejects short passphrases", async () => {
+    await expect(saveWallet(wallet, "short")).rejects.toThrow(/at least 8/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Address } from "@ton/core";
+import { setTonNetwork, getTonNetwork, isTestnet, formatAddress, explorerUrl } from "../network.js";
+import { getCachedHttpEndpoint } from "../endpoint.js";
+import { getTonapiBaseUrl } from "../../constants/api-endpoints.js";
+import { registerAllTools } from "../../agent/tools/register-all.js";
+import type { ToolRegistry } from "../../agent/tools/registry.js";
+
+const RAW = "0:" + "ab".repeat(32);
+
+function registeredToolNames(): string[] {
+  const names: string[] = [];
+  registerAllTools({
+    register: (tool: { name: string }) => names.push(tool.name),
+  } as unknown as ToolRegistry);
+  return names;
+}
+
+describe("ton network", () => {
+  afterEach(() => {
+    setTonNetwork("mainnet");
+    vi.unstubAllGlobals();
+  });
+
+  it("defaults to mainnet", () => {
+    expect(getTonNetwork()).toBe("mainnet");
+    expect(isTestnet()).toBe(false);
+    expect(getTonapiBaseUrl()).toBe("https://tonapi.io/v2");
+  });
+
+  it("formats addresses with the testOnly flag on testnet", () => {
+    const mainnet = formatAddress(RAW);
+    expect(mainnet.startsWith("EQ")).toBe(true);
+
+    setTonNetwork("testnet");
+    expect(formatAddress(RAW).startsWith("kQ")).toBe(true);
+    expect(formatAddress(Address.parse(RAW), false).startsWith("0Q")).toBe(true);
+    // Same account, whichever flags the input carried
+    expect(formatAddress(mainnet)).toBe(formatAddress(RAW));
+  });
+
+  it("points explorer links and TonAPI at testnet", () => {
+    expect(explorerUrl("transaction", "abc")).toBe("https://tonviewer.com/transaction/abc");
+
+    setTonNetwork("testnet");
+    expect(explorerUrl("address", "kQx")).toBe("https://testnet.tonviewer.com/kQx");
+    expect(getTonapiBaseUrl()).toBe("https://testnet.tonapi.io/v2");
+  });
+
+  it("falls back to the testnet toncenter endpoint", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+    setTonNetwork("testnet");
+
+    expect(await getCachedHttpEndpoint()).toBe("https://testnet.toncenter.com/api/v2/jsonRPC");
+  });
+
+  it("skips DEX tools on testnet", () => {
+    expect(registeredToolNames()).toContain("stonfi_swap");
+
+    setTonNetwork("testnet");
+    const names = registeredToolNames();
+    expect(names.some((n) => n.startsWith("stonfi_") || n.startsWith("dedust_"))).toBe(false);
+    expect(names).toContain("ton_send");
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { Address } from "@ton/core";
+
+vi.mock("../wallet-service.js", () => ({
+  getTonPrice: vi.fn().mockResolvedValue({ usd: 5, source: "test", timestamp: 0 }),
+}));
+
+vi.mock("../../constants/api-endpoints.js", () => ({
+  tonapiFetch: vi.fn(),
+}));
+
+import {
+  SpendingPolicy,
+  SpendingPolicyError,
+  initSpendingPolicy,
+  withSpendingPolicy,
+  type SpendRequest,
+} from "../spending-policy.js";
+import { WalletConfigSchema, type WalletConfig } from "../../config/schema.js";
+
+const ALICE = new Address(0, Buffer.alloc(32, 1));
+const BOB = new Address(0, Buffer.alloc(32, 2));
+
+function tonSpend(amount: number, destination?: string): SpendRequest {
+  return { tool: "ton_send", kind: "ton", asset: "TON", symbol: "TON", amount, destination };
+}
+
+describe("SpendingPolicy", () => {
+  let db: InstanceType<typeof Database>;
+
+  const make = (overrides: Partial<WalletConfig> = {}) =>
+    new SpendingPolicy(
+      db,
+      { ...WalletConfigSchema.parse({}), ...overrides },
+      { admin_ids: [1], owner_id: 2 }
+    );
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("is inactive and allows everything without configuration", async () => {
+    const policy = make();
+    expect(policy.isActive()).toBe(false);
+    const result = await policy.authorize(tonSpend(1_000_000));
+    expect(result).toMatchObject({ evaluation: { decision: "allowed" }, logId: null });
+    expect(policy.listLog()).toEqual([]);
+  });
+
+  it("reserves concurrent spends against the limits as they are authorized", async () => {
+    const policy = make({ daily_limit_ton: 10, recipient_daily_limit_ton: 100 });
+    const spend = tonSpend(6, ALICE.toString());
+
+    // Both are priced before either is recorded
+    const [first, second] = await Promise.all([policy.authorize(spend), policy.authorize(spend)]);
+
+    expect(first.evaluation.decision).toBe("allowed");
+    expect(first.logId).not.toBeNull();
+    expect(second.evaluation.decision).toBe("denied");
+    expect(second.evaluation.reason).toMatch(/daily limit/);
+    expect(policy.listLog().map((e) => e.decision)).toEqual(["denied", "allowed"]);
+  });
+
+  it("denies destinations outside the allowlist, matching any address form", () => {
+    const policy = make({ allowlist: [ALICE.toString({ bounceable: true })] });
+    const value = { ton: 1, usd: 5 };
+
+    expect(policy.evaluate(tonSpend(1, ALICE.toRawString()), value).decision).toBe("allowed");
+    const denied = policy.evaluate(tonSpend(1, BOB.toString()), value);
+    expect(denied.decision).toBe("denied");
+    expect(denied.reason).toMatch(/allowlist/);
+
+    // Swaps have no destination and skip the allowlist
+    expect(policy.evaluate(tonSpend(1), value).decision).toBe("allowed");
+  });
+
+  it("enforces per-transaction limits in TON and USD", () => {
+    const policy = make({ max_per_tx_ton: 10, max_per_tx_usd: 20 });
+    expect(policy.evaluate(tonSpend(3), { ton: 3, usd: 15 }).decision).toBe("allowed");
+    expect(policy.evaluate(tonSpend(11), { ton: 11, usd: 5 }).reason).toMatch(/per-transaction/);
+    expect(policy.evaluate(tonSpend(5), { ton: 5, usd: 25 }).decision).toBe("denied");
+  });
+
+  it("counts executed spends from the last 24h toward the daily limit", () => {
+    const policy = make({ daily_limit_ton: 10 });
+    const spend = tonSpend(6, ALICE.toString());
+    const first = policy.evaluate(spend, { ton: 6, usd: null });
+    expect(first.decision).toBe("allowed");
+    const logId = policy.record(spend, first, "allowed");
+    policy.markExecuted(logId, true);
+
+    const second = policy.evaluate(spend, { ton: 6, usd: null });
+    expect(second.decision).toBe("denied");
+    expect(second.reason).toMatch(/daily limit/);
+
+    // Failed transfers don't consume the budget
+    policy.markExecuted(logId, false);
+    expect(policy.evaluate(spend, { ton: 6, usd: null }).decision).toBe("allowed");
+
+    // Old rows fall out of the window
+    policy.markExecuted(logId, true);
+    db.prepare("UPDATE wallet_spend_log SET created_at = created_at - 90000").run();
+    expect(policy.getUsage().ton).toBe(0);
+  });
+
+  it("tracks the per-recipient limit separately", () => {
+    const policy = make({ recipient_daily_limit_ton: 5 });
+    const toAlice = tonSpend(4, ALICE.toString());
+    policy.record(toAlice, policy.evaluate(toAlice, { ton: 4, usd: null }), "allowed");
+
+    expect(policy.evaluate(toAlice, { ton: 4, usd: null }).decision).toBe("denied");
+    expect(policy.evaluate(tonSpend(4, BOB.toString()), { ton: 4, usd: null }).decision).toBe(
+      "allowed"
+    );
+    expect(policy.getUsage(ALICE.toRawString()).ton).toBe(4);
+  });
+
+  it("requires approval above the threshold or when the value is unknown", () => {
+    const policy = make({ approval_above_usd: 50, max_per_tx_ton: 100 });
+    expect(policy.evaluate(tonSpend(5), { ton: 5, usd: 25 }).decision).toBe("allowed");
+    expect(policy.evaluate(tonSpend(20), { ton: 20, usd: 100 }).decision).toBe("approval_required");
+
+    const unpriced = policy.evaluate(
+      { tool: "jetton_send", kind: "jetton", asset: "EQx", symbol: "X", amount: 1 },
+      { ton: null, usd: null }
+    );
+    expect(unpriced.decision).toBe("approval_required");
+    expect(unpriced.reason).toMatch(/could not determine/);
+  });
+
+  it("settles approvals once and logs every decision", async () => {
+    const policy = make({ approval_above_ton: 1 });
+    const spend = tonSpend(5, ALICE.toString());
+    const evaluation = policy.evaluate(spend, { ton: 5, usd: 25 });
+
+    const { id, outcome } = policy.requestApproval(spend, evaluation);
+    expect(policy.listPending().map((p) => p.id)).toEqual([id]);
+
+    expect(policy.handleCallback(["approve", id], 999)).toMatch(/Only the owner/);
+    expect(policy.handleCallback(["approve", id], 2)).toBe("Approved");
+    expect(policy.resolve(id, false, "late")).toBeNull();
+
+    const settled = await outcome;
+    expect(settled.outcome).toBe("approved");
+    expect(settled.logId).not.toBeNull();
+    expect(policy.listPending()).toHaveLength(0);
+
+    const decisions = policy.listLog().map((e) => e.decision);
+    expect(decisions).toEqual(["approved", "approval_requested"]);
+  });
+
+  it("reserves pending approvals and checks the limits again on approval", async () => {
+    const policy = make({ daily_limit_ton: 20, approval_above_ton: 1 });
+    const spend = tonSpend(6, ALICE.toString());
+    const value = { ton: 6, usd: 30 };
+
+    // Two concurrent requests: each fits on its own, both are pending
+    const first = policy.requestApproval(spend, policy.evaluate(spend, value));
+    const second = policy.requestApproval(spend, policy.evaluate(spend, value));
+    const third = policy.evaluate(spend, value);
+    expect(third.decision).toBe("approval_required");
+    policy.requestApproval(spend, third);
+
+    // 18 TON is pending, so a fourth request can't be made
+    const fourth = policy.evaluate(spend, value);
+    expect(fourth.decision).toBe("denied");
+    expect(fourth.reason).toMatch(/awaiting approval/);
+
+    // The limit is lowered while they wait: the second approval no longer fits
+    policy.updateConfig({ ...WalletConfigSchema.parse({}), daily_limit_ton: 10 });
+    expect(policy.resolve(first.id, true, "owner")?.outcome).toBe("approved");
+    expect(policy.resolve(second.id, true, "owner")).toMatchObject({
+      outcome: "blocked",
+      logId: null,
+      reason: expect.stringMatching(/daily limit/),
+    });
+
+    expect((await first.outcome).outcome).toBe("approved");
+    expect(await second.outcome).toMatchObject({ outcome: "blocked" });
+    expect(policy.getUsage().ton).toBe(6);
+    expect(policy.listLog()[0]).toMatchObject({ decision: "denied", approvalId: second.id });
+  });
+
+  it("expires approvals after the timeout", async () => {
+    vi.useFakeTimers();
+    try {
+      const policy = make({ approval_above_ton: 1, approval_timeout_minutes: 1 });
+      const spend = tonSpend(5);
+      const { outcome } = policy.requestApproval(
+        spend,
+        policy.evaluate(spend, { ton: 5, usd: 25 })
+      );
+
+      vi.advanceTimersByTime(60_000);
+      expect((await outcome).outcome).toBe("expired");
+      expect(policy.listLog()[0].decision).toBe("expired");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("withSpendingPolicy throws on denial and marks executed spends", async () => {
+    const policy = initSpendingPolicy(db, {
+      wallet: { ...WalletConfigSchema.parse({}), max_per_tx_ton: 2 },
+      telegram: { admin_ids: [1] } as never,
+    });
+    const send = vi.fn().mockResolvedValue("tx");
+
+    await expect(withSpendingPolicy(tonSpend(5, ALICE.toString()), send)).rejects.toBeInstanceOf(
+      SpendingPolicyError
+    );
+    expect(send).not.toHaveBeenCalled();
+
+    await expect(withSpendingPolicy(tonSpend(1, ALICE.toString()), send)).resolves.toBe("tx");
+    const [latest, denied] = policy.listLog();
+    expect(latest).toMatchObject({ decision: "allowed", status: "sent", valueUsd: 5 });
+    expect(denied.decision).toBe("denied");
+  });
+});
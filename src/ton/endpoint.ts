@@ -1,9 +1,14 @@
+import { getTonNetwork, type TonNetwork } from "./network.js";
+
 const ENDPOINT_CACHE_TTL_MS = 60_000;
 const ORBS_HOST = "ton.access.orbs.network";
 const ORBS_TOPOLOGY_URL = `https://${ORBS_HOST}/mngr/nodes?npm_version=2.3.3`;
-const TONCENTER_FALLBACK = `https://toncenter.com/api/v2/jsonRPC`;
+const TONCENTER_FALLBACK: Record<TonNetwork, string> = {
+  mainnet: "https://toncenter.com/api/v2/jsonRPC",
+  testnet: "https://testnet.toncenter.com/api/v2/jsonRPC",
+};
 
-let _cache: { url: string; ts: number } | null = null;
+let _cache: { url: string; network: TonNetwork; ts: number } | null = null;
 
 interface OrbsNode {
   NodeId: string;
@@ -12,12 +17,12 @@ interface OrbsNode {
   Mngr?: { health?: Record<string, boolean> };
 }
 
-async function discoverOrbsEndpoint(): Promise<string> {
+async function discoverOrbsEndpoint(network: TonNetwork): Promise<string> {
   const res = await fetch(ORBS_TOPOLOGY_URL);
   const nodes: OrbsNode[] = await res.json();
 
   const healthy = nodes.filter(
-    (n) => n.Healthy === "1" && n.Weight > 0 && n.Mngr?.health?.["v2-mainnet"]
+    (n) => n.Healthy === "1" && n.Weight > 0 && n.Mngr?.health?.[`v2-${network}`]
   );
   if (healthy.length === 0) throw new Error("no healthy orbs nodes");
 
@@ -32,20 +37,25 @@ async function discoverOrbsEndpoint(): Promise<string> {
     }
   }
 
-  return `https://${ORBS_HOST}/${chosen.NodeId}/1/mainnet/toncenter-api-v2/jsonRPC`;
+  return `https://${ORBS_HOST}/${chosen.NodeId}/1/${network}/toncenter-api-v2/jsonRPC`;
 }
 
+/**
+ * Toncenter-compatible JSON-RPC endpoint for the active network
+ * (Orbs node when available, toncenter otherwise). Cached for 60s.
+ */
 export async function getCachedHttpEndpoint(): Promise<string> {
-  if (_cache && Date.now() - _cache.ts < ENDPOINT_CACHE_TTL_MS) {
+  const network = getTonNetwork();
+  if (_cache && _cache.network === network && Date.now() - _cache.ts < ENDPOINT_CACHE_TTL_MS) {
     return _cache.url;
   }
 
   let url: string;
   try {
-    url = await discoverOrbsEndpoint();
+    url = await discoverOrbsEndpoint(network);
   } catch {
-    url = TONCENTER_FALLBACK;
+    url = TONCENTER_FALLBACK[network];
   }
-  _cache = { url, ts: Date.now() };
+  _cache = { url, network, ts: Date.now() };
   return url;
 }
@@ -1,5 +1,6 @@
 import { fromNano } from "@ton/ton";
 import type { Transaction } from "@ton/ton";
+import { formatAddress, explorerUrl } from "./network.js";
 
 export type TransactionType =
   | "ton_received"
@@ -62,7 +63,7 @@ export function parseMessageBody(
     if (op === OP_CODES.NFT_TRANSFER) {
       const _queryId = slice.loadUint(64);
       const newOwner = slice.loadAddress();
-      return { op, nftAddress: newOwner?.toString() };
+      return { op, nftAddress: newOwner ? formatAddress(newOwner) : undefined };
     }
 
     return { op };
@@ -97,7 +98,7 @@ export function formatTransactions(transactions: Transaction[]): FormattedTransa
     const inMsg = tx.inMessage;
     const outMsgArray = [...tx.outMessages.values()];
     const hash = tx.hash().toString("hex");
-    const explorer = `https://tonviewer.com/transaction/${hash}`;
+    const explorer = explorerUrl("transaction", hash);
     const txTimeMs = tx.now * 1000;
     const date = new Date(txTimeMs).toISOString();
     const secondsAgo = Math.max(0, Math.floor((Date.now() - txTimeMs) / 1000));
@@ -105,7 +106,7 @@ export function formatTransactions(transactions: Transaction[]): FormattedTransa
     // Parse incoming message
     if (inMsg?.info.type === "internal") {
       const tonAmount = fromNano(inMsg.info.value.coins);
-      const from = inMsg.info.src?.toString() || "unknown";
+      const from = inMsg.info.src ? formatAddress(inMsg.info.src) : "unknown";
       const parsed = parseMessageBody(inMsg.body);
 
       // Gas refund (excesses)
@@ -173,7 +174,7 @@ export function formatTransactions(transactions: Transaction[]): FormattedTransa
         if (outMsg.info.type !== "internal") continue;
 
         const info = outMsg.info as any;
-        const to = info.dest?.toString() || "unknown";
+        const to = info.dest ? formatAddress(info.dest) : "unknown";
         const tonAmount = fromNano(info.value.coins);
         const parsed = parseMessageBody(outMsg.body);
 
@@ -0,0 +1,141 @@
+/**
+ * Passphrase-encrypted storage for the wallet mnemonic.
+ *
+ * The mnemonic is encrypted with AES-256-GCM under a key derived from the
+ * passphrase with scrypt. The wallet public key is bound as additional
+ * authenticated data, so a keystore can't be swapped between wallet files.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface EncryptedKeystore {
+  kdf: "scrypt";
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/** ~100ms on a modern CPU, 32 MiB of memory */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { n: 2 ** 15, r: 8, p: 1 };
+
+/** Minimum accepted passphrase length */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const KEY_LENGTH = 32;
+
+/**
+ * Thrown when a keystore can't be decrypted (wrong passphrase or tampered file).
+ */
+export class KeystoreDecryptError extends Error {
+  constructor() {
+    super("Wrong wallet passphrase (or keystore is corrupted)");
+    this.name = "KeystoreDecryptError";
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase.normalize("NFKC"),
+      salt,
+      KEY_LENGTH,
+      { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Validate a new passphrase. Throws with a user-facing message when too weak.
+ */
+export function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+/**
+ * Encrypt a mnemonic. `publicKey` (hex) is authenticated but not encrypted.
+ */
+export async function encryptMnemonic(
+  mnemonic: string[],
+  passphrase: string,
+  publicKey: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<EncryptedKeystore> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, params);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(publicKey, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(mnemonic.join(" "), "utf-8"), cipher.final()]);
+
+  return {
+    kdf: "scrypt",
+    ...params,
+    salt: salt.toString("base64"),
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt a mnemonic. Throws KeystoreDecryptError on a wrong passphrase.
+ */
+export async function decryptMnemonic(
+  keystore: EncryptedKeystore,
+  passphrase: string,
+  publicKey: string
+): Promise<string[]> {
+  if (keystore.kdf !== "scrypt" || keystore.cipher !== "aes-256-gcm") {
+    throw new Error(`Unsupported keystore format: ${keystore.kdf}/${keystore.cipher}`);
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(keystore.salt, "base64"), keystore);
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(keystore.iv, "base64"));
+    decipher.setAAD(Buffer.from(publicKey, "utf-8"));
+    decipher.setAuthTag(Buffer.from(keystore.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, "base64")),
+      decipher.final(),
+    ]);
+    return plaintext.toString("utf-8").split(" ");
+  } catch {
+    throw new KeystoreDecryptError();
+  }
+}
+
+/**
+ * Structural check for a keystore object read from disk.
+ */
+export function isEncryptedKeystore(value: unknown): value is EncryptedKeystore {
+  if (!value || typeof value !== "object") return false;
+  const k = value as Record<string, unknown>;
+  return (
+    k.kdf === "scrypt" &&
+    k.cipher === "aes-256-gcm" &&
+    typeof k.n === "number" &&
+    typeof k.r === "number" &&
+    typeof k.p === "number" &&
+    typeof k.salt === "string" &&
+    typeof k.iv === "string" &&
+    typeof k.tag === "string" &&
+    typeof k.ciphertext === "string"
+  );
+}
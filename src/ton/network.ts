@@ -0,0 +1,35 @@
+import { Address } from "@ton/core";
+
+export type TonNetwork = "mainnet" | "testnet";
+
+/** Active network, set once from `ton.network` at startup */
+let _network: TonNetwork = "mainnet";
+
+export function setTonNetwork(network: TonNetwork): void {
+  _network = network;
+}
+
+export function getTonNetwork(): TonNetwork {
+  return _network;
+}
+
+export function isTestnet(): boolean {
+  return _network === "testnet";
+}
+
+/**
+ * Format an address for the active network (testnet addresses carry the
+ * testOnly flag, i.e. kQ.../0Q... instead of EQ.../UQ...).
+ */
+export function formatAddress(address: Address | string, bounceable = true): string {
+  const parsed = typeof address === "string" ? Address.parse(address) : address;
+  return parsed.toString({ bounceable, testOnly: isTestnet() });
+}
+
+/**
+ * Tonviewer link for an address or transaction hash on the active network.
+ */
+export function explorerUrl(kind: "address" | "transaction", id: string): string {
+  const base = isTestnet() ? "https://testnet.tonviewer.com" : "https://tonviewer.com";
+  return kind === "transaction" ? `${base}/transaction/${id}` : `${base}/${id}`;
+}
@@ -2,6 +2,7 @@ import type Database from "better-sqlite3";
 import { TonClient, fromNano } from "@ton/ton";
 import { Address } from "@ton/core";
 import { getCachedHttpEndpoint } from "./endpoint.js";
+import { formatAddress } from "./network.js";
 import { withBlockchainRetry } from "../utils/retry.js";
 import { PAYMENT_TOLERANCE_RATIO } from "../constants/limits.js";
 import { getErrorMessage } from "../utils/errors.js";
@@ -92,7 +93,7 @@ export async function verifyPayment(
       if (tonAmount < betAmount * PAYMENT_TOLERANCE_RATIO) continue;
 
       if (!fromRaw) continue;
-      const playerWallet = fromRaw.toString({ bounceable: false });
+      const playerWallet = formatAddress(fromRaw, false);
 
       if (txTime < requestTime) continue;
 
@@ -0,0 +1,777 @@
+import type Database from "better-sqlite3";
+import { randomBytes } from "crypto";
+import { Address } from "@ton/core";
+import type { Config, WalletConfig } from "../config/schema.js";
+import type { TelegramBridge } from "../telegram/bridge.js";
+import { getTonPrice } from "./wallet-service.js";
+import { tonapiFetch } from "../constants/api-endpoints.js";
+import { audit } from "../memory/audit-log.js";
+import { getErrorMessage } from "../utils/errors.js";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("TON");
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * An outgoing movement of funds, described before anything is signed.
+ */
+export interface SpendRequest {
+  /** Originating tool or subsystem (e.g. "ton_send", "sdk.sendTON", "deals") */
+  tool: string;
+  kind: "ton" | "jetton" | "nft";
+  /** "TON", jetton master address or NFT item address */
+  asset: string;
+  /** Display label (e.g. "TON", "USDT", "NFT") */
+  symbol: string;
+  /** Amount in asset units (0 for NFTs) */
+  amount: number;
+  /**
+   * Recipient for plain transfers. Swaps and DNS bids leave this unset:
+   * their destination is a protocol contract, so only value limits apply.
+   */
+  destination?: string;
+  chatId?: string;
+  senderId?: number;
+}
+
+export interface SpendValue {
+  ton: number | null;
+  usd: number | null;
+}
+
+export type SpendDecision = "allowed" | "denied" | "approval_required";
+
+export interface SpendEvaluation {
+  decision: SpendDecision;
+  reason?: string;
+  value: SpendValue;
+}
+
+export type AuditDecision =
+  | "allowed"
+  | "denied"
+  | "approval_requested"
+  | "approved"
+  | "rejected"
+  | "expired";
+
+export interface SpendLogEntry {
+  id: number;
+  createdAt: number;
+  tool: string;
+  asset: string;
+  symbol: string;
+  amount: number;
+  valueTon: number | null;
+  valueUsd: number | null;
+  destination: string | null;
+  decision: AuditDecision;
+  reason: string | null;
+  approvalId: string | null;
+  decidedBy: string | null;
+  chatId: string | null;
+  senderId: number | null;
+  status: "sent" | "failed" | null;
+}
+
+interface SpendLogRow {
+  id: number;
+  created_at: number;
+  tool: string;
+  asset: string;
+  symbol: string;
+  amount: number;
+  value_ton: number | null;
+  value_usd: number | null;
+  destination: string | null;
+  decision: AuditDecision;
+  reason: string | null;
+  approval_id: string | null;
+  decided_by: string | null;
+  chat_id: string | null;
+  sender_id: number | null;
+  status: "sent" | "failed" | null;
+}
+
+/** "blocked": approved, but the limits no longer allow the spend */
+export type ApprovalOutcome = "approved" | "rejected" | "expired" | "blocked";
+
+export interface ApprovalResult {
+  outcome: ApprovalOutcome;
+  /** Audit row of the approval, to mark once executed */
+  logId: number | null;
+  reason?: string;
+}
+
+/** A spend reserved by evaluateAndReserve() */
+export interface SpendAuthorization {
+  evaluation: SpendEvaluation;
+  /** Audit row of an allowed spend, to pass to markExecuted() */
+  logId: number | null;
+  /** The pending approval opened for an approval_required spend */
+  approval?: { id: string; outcome: Promise<ApprovalResult> };
+}
+
+export interface PendingApproval {
+  id: string;
+  request: SpendRequest;
+  evaluation: SpendEvaluation;
+  createdAt: number;
+  expiresAt: number;
+  /** Owner DM prompt, so it can be edited once decided */
+  prompt?: { chatId: string; messageId: number };
+}
+
+interface ApprovalEntry extends PendingApproval {
+  settle: (result: ApprovalResult) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Thrown by synchronous spend paths (sendTon, SDK) when a transfer is refused.
+ */
+export class SpendingPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpendingPolicyError";
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return Address.parse(a).equals(Address.parse(b));
+  } catch {
+    return a.trim() === b.trim();
+  }
+}
+
+function fmt(n: number, currency: "TON" | "USD"): string {
+  return currency === "USD" ? `$${n.toFixed(2)}` : `${n.toFixed(4)} TON`;
+}
+
+/**
+ * Look up the TON and USD value of a spend. Unknown values are null.
+ */
+export async function valueSpend(request: SpendRequest): Promise<SpendValue> {
+  if (request.kind === "nft") {
+    return { ton: null, usd: null };
+  }
+
+  if (request.kind === "ton") {
+    const price = await getTonPrice();
+    return { ton: request.amount, usd: price ? request.amount * price.usd : null };
+  }
+
+  try {
+    const response = await tonapiFetch(
+      `/rates?tokens=${encodeURIComponent(request.asset)}&currencies=ton,usd`
+    );
+    if (!response.ok) return { ton: null, usd: null };
+    const data = await response.json();
+    const prices = data?.rates?.[request.asset]?.prices ?? {};
+    return {
+      ton: typeof prices.TON === "number" ? request.amount * prices.TON : null,
+      usd: typeof prices.USD === "number" ? request.amount * prices.USD : null,
+    };
+  } catch (error) {
+    log.warn({ err: error }, `Could not price ${request.symbol} for spending policy`);
+    return { ton: null, usd: null };
+  }
+}
+
+/**
+ * Spending limits, destination allowlist and owner approval for every
+ * outgoing transfer (`wallet` config section).
+ *
+ * Each decision is appended to `wallet_spend_log`; executed spends from the
+ * last 24h count toward the daily and per-recipient limits, and so do pending
+ * approvals until they are decided. Approved spends are checked again.
+ */
+export class SpendingPolicy {
+  private approvals = new Map<string, ApprovalEntry>();
+  private bridge: TelegramBridge | null = null;
+
+  constructor(
+    private db: Database.Database,
+    private config: WalletConfig,
+    private telegram: Pick<Config["telegram"], "admin_ids" | "owner_id">
+  ) {
+    this.ensureTable();
+  }
+
+  private ensureTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS wallet_spend_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        tool TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        amount REAL NOT NULL,
+        value_ton REAL,
+        value_usd REAL,
+        destination TEXT,
+        decision TEXT NOT NULL CHECK(decision IN ('allowed', 'denied', 'approval_requested', 'approved', 'rejected', 'expired')),
+        reason TEXT,
+        approval_id TEXT,
+        decided_by TEXT,
+        chat_id TEXT,
+        sender_id INTEGER,
+        status TEXT CHECK(status IN ('sent', 'failed'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_wallet_spend_log_created ON wallet_spend_log(created_at DESC);
+    `);
+  }
+
+  /** Bridge used to DM approval prompts to the owner */
+  setBridge(bridge: TelegramBridge): void {
+    this.bridge = bridge;
+  }
+
+  updateConfig(config: WalletConfig): void {
+    this.config = config;
+  }
+
+  /** Whether any limit, allowlist or approval threshold is configured */
+  isActive(): boolean {
+    const c = this.config;
+    return (
+      c.allowlist.length > 0 ||
+      [
+        c.max_per_tx_ton,
+        c.max_per_tx_usd,
+        c.daily_limit_ton,
+        c.daily_limit_usd,
+        c.recipient_daily_limit_ton,
+        c.recipient_daily_limit_usd,
+        c.approval_above_ton,
+        c.approval_above_usd,
+      ].some((v) => v !== undefined)
+    );
+  }
+
+  /**
+   * Value spent (TON and USD) in the last 24h, optionally to one destination.
+   */
+  getUsage(destination?: string, now = Date.now()): { ton: number; usd: number } {
+    const since = Math.floor(now / 1000) - DAY_SECONDS;
+    const rows = this.db
+      .prepare(
+        `SELECT destination, value_ton, value_usd FROM wallet_spend_log
+         WHERE created_at > ? AND decision IN ('allowed', 'approved')
+           AND (status IS NULL OR status = 'sent')`
+      )
+      .all(since) as Array<{
+      destination: string | null;
+      value_ton: number | null;
+      value_usd: number | null;
+    }>;
+
+    let ton = 0;
+    let usd = 0;
+    for (const row of rows) {
+      if (destination && (!row.destination || !sameAddress(row.destination, destination))) {
+        continue;
+      }
+      ton += row.value_ton ?? 0;
+      usd += row.value_usd ?? 0;
+    }
+    return { ton, usd };
+  }
+
+  /** Value of pending approvals, optionally to one destination */
+  private getReserved(destination?: string): { ton: number; usd: number } {
+    let ton = 0;
+    let usd = 0;
+    for (const { request, evaluation } of this.approvals.values()) {
+      if (destination && (!request.destination || !sameAddress(request.destination, destination))) {
+        continue;
+      }
+      ton += evaluation.value.ton ?? 0;
+      usd += evaluation.value.usd ?? 0;
+    }
+    return { ton, usd };
+  }
+
+  /** Spent in the last 24h plus, unless `pending` is false, reserved by pending approvals */
+  private getCommitted(destination: string | undefined, pending: boolean) {
+    const spent = this.getUsage(destination);
+    if (!pending) return spent;
+    const reserved = this.getReserved(destination);
+    return { ton: spent.ton + reserved.ton, usd: spent.usd + reserved.usd };
+  }
+
+  /**
+   * Apply limits to an already-valued request. Hard limits deny; approval
+   * thresholds (or a value that can't be determined) require the owner.
+   * Pending approvals count toward the limits unless `pending` is false.
+   */
+  evaluate(
+    request: SpendRequest,
+    value: SpendValue,
+    { pending = true }: { pending?: boolean } = {}
+  ): SpendEvaluation {
+    const c = this.config;
+
+    if (request.destination && c.allowlist.length > 0) {
+      const allowed = c.allowlist.some((a) => sameAddress(a, request.destination as string));
+      if (!allowed) {
+        return { decision: "denied", reason: "destination is not in the allowlist", value };
+      }
+    }
+
+    const usage = this.getCommitted(undefined, pending);
+    const recipientUsage = request.destination
+      ? this.getCommitted(request.destination, pending)
+      : null;
+    let unpriced: string | null = null;
+
+    for (const currency of ["TON", "USD"] as const) {
+      const key = currency === "TON" ? "ton" : "usd";
+      const amount = value[key];
+      const perTx = currency === "TON" ? c.max_per_tx_ton : c.max_per_tx_usd;
+      const daily = currency === "TON" ? c.daily_limit_ton : c.daily_limit_usd;
+      const perRecipient =
+        currency === "TON" ? c.recipient_daily_limit_ton : c.recipient_daily_limit_usd;
+      const limited =
+        perTx !== undefined ||
+        daily !== undefined ||
+        (recipientUsage !== null && perRecipient !== undefined);
+
+      if (amount === null) {
+        if (limited) unpriced = currency;
+        continue;
+      }
+
+      if (perTx !== undefined && amount > perTx) {
+        return {
+          decision: "denied",
+          reason: `${fmt(amount, currency)} exceeds the per-transaction limit of ${fmt(perTx, currency)}`,
+          value,
+        };
+      }
+      if (daily !== undefined && usage[key] + amount > daily) {
+        return {
+          decision: "denied",
+          reason: `daily limit of ${fmt(daily, currency)} would be exceeded (${fmt(usage[key], currency)} spent or awaiting approval in the last 24h)`,
+          value,
+        };
+      }
+      if (
+        recipientUsage &&
+        perRecipient !== undefined &&
+        recipientUsage[key] + amount > perRecipient
+      ) {
+        return {
+          decision: "denied",
+          reason: `per-recipient daily limit of ${fmt(perRecipient, currency)} would be exceeded`,
+          value,
+        };
+      }
+    }
+
+    if (unpriced) {
+      return {
+        decision: "approval_required",
+        reason: `could not determine the ${unpriced} value`,
+        value,
+      };
+    }
+
+    for (const currency of ["TON", "USD"] as const) {
+      const threshold = currency === "TON" ? c.approval_above_ton : c.approval_above_usd;
+      if (threshold === undefined) continue;
+      const amount = value[currency === "TON" ? "ton" : "usd"];
+      if (amount === null) {
+        return {
+          decision: "approval_required",
+          reason: `could not determine the ${currency} value`,
+          value,
+        };
+      }
+      if (amount > threshold) {
+        return {
+          decision: "approval_required",
+          reason: `above the approval threshold of ${fmt(threshold, currency)}`,
+          value,
+        };
+      }
+    }
+
+    return { decision: "allowed", value };
+  }
+
+  /**
+   * Evaluate an already-valued request and reserve it in one synchronous
+   * step: an allowed spend is recorded, one needing approval is opened as a
+   * pending approval, a denied one is recorded as denied. Nothing runs
+   * between the limit check and the reservation, so concurrent spends can't
+   * both fit under the same limit.
+   */
+  evaluateAndReserve(request: SpendRequest, value: SpendValue): SpendAuthorization {
+    return this.db.transaction((): SpendAuthorization => {
+      const evaluation = this.evaluate(request, value);
+      if (evaluation.decision === "denied") {
+        this.record(request, evaluation, "denied");
+        return { evaluation, logId: null };
+      }
+      if (evaluation.decision === "allowed") {
+        return { evaluation, logId: this.record(request, evaluation, "allowed") };
+      }
+      return { evaluation, logId: null, approval: this.requestApproval(request, evaluation) };
+    })();
+  }
+
+  /**
+   * Value a request, then evaluate and reserve it. Inactive policies allow
+   * everything without pricing calls or audit rows.
+   */
+  async authorize(request: SpendRequest): Promise<SpendAuthorization> {
+    if (!this.isActive()) {
+      return { evaluation: { decision: "allowed", value: { ton: null, usd: null } }, logId: null };
+    }
+    return this.evaluateAndReserve(request, await valueSpend(request));
+  }
+
+  /**
+   * Append a decision to the audit log. Returns the row id.
+   */
+  record(
+    request: SpendRequest,
+    evaluation: SpendEvaluation,
+    decision: AuditDecision,
+    extra: { approvalId?: string; decidedBy?: string } = {}
+  ): number {
+    const result = this.db
+      .prepare(
+        `INSERT INTO wallet_spend_log
+           (tool, asset, symbol, amount, value_ton, value_usd, destination, decision, reason,
+            approval_id, decided_by, chat_id, sender_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        request.tool,
+        request.asset,
+        request.symbol,
+        request.amount,
+        evaluation.value.ton,
+        evaluation.value.usd,
+        request.destination ?? null,
+        decision,
+        evaluation.reason ?? null,
+        extra.approvalId ?? null,
+        extra.decidedBy ?? null,
+        request.chatId ?? null,
+        request.senderId ?? null
+      );
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Record whether an allowed/approved spend actually went out */
+  markExecuted(logId: number, sent: boolean): void {
+    this.db
+      .prepare(`UPDATE wallet_spend_log SET status = ? WHERE id = ?`)
+      .run(sent ? "sent" : "failed", logId);
+  }
+
+  listLog(limit = 50): SpendLogEntry[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM wallet_spend_log ORDER BY id DESC LIMIT ?`)
+      .all(limit) as SpendLogRow[];
+    return rows.map((r) => ({
+      id: r.id,
+      createdAt: r.created_at,
+      tool: r.tool,
+      asset: r.asset,
+      symbol: r.symbol,
+      amount: r.amount,
+      valueTon: r.value_ton,
+      valueUsd: r.value_usd,
+      destination: r.destination,
+      decision: r.decision,
+      reason: r.reason,
+      approvalId: r.approval_id,
+      decidedBy: r.decided_by,
+      chatId: r.chat_id,
+      senderId: r.sender_id,
+      status: r.status,
+    }));
+  }
+
+  isApprover(userId: number): boolean {
+    return this.telegram.admin_ids.includes(userId) || this.telegram.owner_id === userId;
+  }
+
+  listPending(): PendingApproval[] {
+    return Array.from(this.approvals.values()).map(({ settle: _s, timer: _t, ...rest }) => rest);
+  }
+
+  /**
+   * Open an approval request and DM the owner an approve/deny prompt. Its
+   * value is reserved against the limits while it is pending. The promise
+   * settles when an approver decides or the request expires.
+   */
+  requestApproval(
+    request: SpendRequest,
+    evaluation: SpendEvaluation
+  ): { id: string; outcome: Promise<ApprovalResult> } {
+    const id = randomBytes(4).toString("hex");
+    const now = Date.now();
+    const timeoutMs = this.config.approval_timeout_minutes * 60 * 1000;
+
+    this.record(request, evaluation, "approval_requested", { approvalId: id });
+
+    const outcome = new Promise<ApprovalResult>((resolve) => {
+      const timer = setTimeout(() => {
+        if (!this.approvals.has(id)) return;
+        this.record(request, evaluation, "expired", { approvalId: id });
+        this.finish(id, { outcome: "expired", logId: null });
+      }, timeoutMs);
+      timer.unref?.();
+
+      this.approvals.set(id, {
+        id,
+        request,
+        evaluation,
+        createdAt: now,
+        expiresAt: now + timeoutMs,
+        settle: resolve,
+        timer,
+      });
+    });
+
+    this.sendPrompt(id).catch((error) =>
+      log.error({ err: error }, `Failed to send approval prompt ${id}`)
+    );
+
+    return { id, outcome };
+  }
+
+  /**
+   * Approve or reject a pending request. An approved request is checked
+   * against the limits again (spends since the request count) and is blocked
+   * if they no longer allow it. Returns null if unknown/expired.
+   */
+  resolve(id: string, approved: boolean, decidedBy: string): ApprovalResult | null {
+    const entry = this.approvals.get(id);
+    if (!entry) return null;
+
+    let result: ApprovalResult;
+    if (!approved) {
+      this.record(entry.request, entry.evaluation, "rejected", { approvalId: id, decidedBy });
+      result = { outcome: "rejected", logId: null };
+    } else {
+      // Other pending requests are not counted: they are checked when approved
+      const recheck = this.evaluate(entry.request, entry.evaluation.value, { pending: false });
+      if (recheck.decision === "denied") {
+        this.record(entry.request, recheck, "denied", { approvalId: id, decidedBy });
+        result = { outcome: "blocked", logId: null, reason: recheck.reason };
+      } else {
+        const logId = this.record(entry.request, entry.evaluation, "approved", {
+          approvalId: id,
+          decidedBy,
+        });
+        result = { outcome: "approved", logId };
+      }
+    }
+    this.finish(id, result);
+    return result;
+  }
+
+  private finish(id: string, result: ApprovalResult): void {
+    const entry = this.approvals.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    this.approvals.delete(id);
+    entry.settle(result);
+
+    const labels: Record<ApprovalOutcome, string> = {
+      approved: "✅ Approved",
+      rejected: "❌ Rejected",
+      expired: "⌛ Expired",
+      blocked: `🚫 Approved, but blocked by the spending policy: ${result.reason}`,
+    };
+    if (entry.prompt && this.bridge) {
+      this.bridge
+        .editMessage({
+          chatId: entry.prompt.chatId,
+          messageId: entry.prompt.messageId,
+          text: `${this.describe(entry)}\n\n${labels[result.outcome]}`,
+        })
+        .catch((error) => log.warn({ err: error }, `Failed to update approval prompt ${id}`));
+    }
+  }
+
+  private describe(entry: PendingApproval): string {
+    const { request, evaluation } = entry;
+    const amount =
+      request.kind === "nft"
+        ? `${request.symbol} (${request.asset})`
+        : `${request.amount} ${request.symbol}`;
+    const lines = [`💸 Spend approval #${entry.id}`, `Tool: ${request.tool}`, `Amount: ${amount}`];
+    const values: string[] = [];
+    if (evaluation.value.ton !== null && request.kind !== "ton") {
+      values.push(fmt(evaluation.value.ton, "TON"));
+    }
+    if (evaluation.value.usd !== null) values.push(fmt(evaluation.value.usd, "USD"));
+    if (values.length > 0) lines.push(`Value: ~${values.join(" / ")}`);
+    if (request.destination) lines.push(`To: ${request.destination}`);
+    if (evaluation.reason) lines.push(`Reason: ${evaluation.reason}`);
+    return lines.join("\n");
+  }
+
+  private async sendPrompt(id: string): Promise<void> {
+    const entry = this.approvals.get(id);
+    const ownerId = this.telegram.owner_id ?? this.telegram.admin_ids[0];
+    if (!entry || !this.bridge || ownerId === undefined) {
+      log.warn(`No owner to ask for spend approval #${id} (set telegram.owner_id)`);
+      return;
+    }
+
+    const chatId = String(ownerId);
+    const message = await this.bridge.sendMessage({
+      chatId,
+      text:
+        `${this.describe(entry)}\n\n` +
+        `Expires in ${this.config.approval_timeout_minutes} min. ` +
+        `Or reply /spend approve ${id} · /spend deny ${id}`,
+      inlineKeyboard: [
+        [
+          { text: "✅ Approve", callback_data: `spend:approve:${id}` },
+          { text: "❌ Deny", callback_data: `spend:deny:${id}` },
+        ],
+      ],
+    });
+    entry.prompt = { chatId, messageId: message.id };
+  }
+
+  /**
+   * Handle a `spend:approve|deny:<id>` button press. Returns the text to
+   * answer the callback query with.
+   */
+  handleCallback(params: string[], userId: number): string {
+    const [action, id] = params;
+    if (!this.isApprover(userId)) return "Only the owner can approve spends";
+    if ((action !== "approve" && action !== "deny") || !id) return "Invalid action";
+
+    const result = this.resolve(id, action === "approve", `telegram:${userId}`);
+    if (!result) return "Request not found or expired";
+    if (result.outcome === "blocked") return `Blocked by spending policy: ${result.reason}`;
+    return action === "approve" ? "Approved" : "Denied";
+  }
+
+  /**
+   * Gate a spend whose caller waits for the outcome (sendTon, plugin SDK,
+   * deals). Throws SpendingPolicyError when refused; returns the audit row
+   * id to pass to markExecuted().
+   */
+  async authorizeOrThrow(request: SpendRequest): Promise<number | null> {
+    const { evaluation, logId, approval } = await this.authorize(request);
+
+    if (evaluation.decision === "denied") {
+      throw new SpendingPolicyError(`Blocked by spending policy: ${evaluation.reason}`);
+    }
+    if (!approval) return logId;
+
+    const { id, outcome } = approval;
+    log.info(`⏳ Waiting for owner approval #${id} (${request.tool})`);
+    const result = await outcome;
+    if (result.outcome === "blocked") {
+      throw new SpendingPolicyError(`Blocked by spending policy: ${result.reason}`);
+    }
+    if (result.outcome !== "approved") {
+      throw new SpendingPolicyError(`Spend ${result.outcome} by owner (approval #${id})`);
+    }
+    return result.logId;
+  }
+}
+
+let instance: SpendingPolicy | null = null;
+
+/**
+ * Create the process-wide policy (called once at startup).
+ */
+export function initSpendingPolicy(
+  db: Database.Database,
+  config: Pick<Config, "wallet" | "telegram">
+): SpendingPolicy {
+  instance = new SpendingPolicy(db, config.wallet, config.telegram);
+  return instance;
+}
+
+/**
+ * The active policy, or null when the agent isn't running (CLI, tests).
+ */
+export function getSpendingPolicy(): SpendingPolicy | null {
+  return instance;
+}
+
+export type SpendAuditOutcome =
+  | "executed"
+  | "failed"
+  | "blocked"
+  | Exclude<ApprovalOutcome, "approved">;
+
+/**
+ * Record a fund-moving action in the audit log. Tool spends are attributed to
+ * the Telegram user whose message triggered them; SDK and deal spends to "system".
+ */
+export function auditSpend(
+  request: SpendRequest,
+  outcome: SpendAuditOutcome,
+  error?: string
+): void {
+  audit({
+    source: "agent",
+    actor: request.senderId !== undefined ? `telegram:${request.senderId}` : "system",
+    action: `spend.${request.tool}`,
+    target: request.destination ?? request.asset,
+    details: {
+      kind: request.kind,
+      symbol: request.symbol,
+      amount: request.amount,
+      chatId: request.chatId ?? null,
+      outcome,
+      ...(error ? { error } : {}),
+    },
+  });
+}
+
+/**
+ * Run a transfer under the spending policy, blocking on approval.
+ * Used by code paths without a chat to report back to.
+ */
+export async function withSpendingPolicy<T>(
+  request: SpendRequest,
+  send: () => Promise<T>,
+  isSent: (result: T) => boolean = () => true
+): Promise<T> {
+  const policy = getSpendingPolicy();
+
+  let logId: number | null = null;
+  if (policy) {
+    try {
+      logId = await policy.authorizeOrThrow(request);
+    } catch (error) {
+      auditSpend(request, "blocked", getErrorMessage(error));
+      throw error;
+    }
+  }
+
+  try {
+    const result = await send();
+    const sent = isSent(result);
+    if (logId !== null) policy?.markExecuted(logId, sent);
+    auditSpend(request, sent ? "executed" : "failed");
+    return result;
+  } catch (error) {
+    if (logId !== null) policy?.markExecuted(logId, false);
+    auditSpend(request, "failed", getErrorMessage(error));
+    if (policy) {
+      log.warn(`Spend ${request.tool} failed after authorization: ${getErrorMessage(error)}`);
+    }
+    throw error;
+  }
+}
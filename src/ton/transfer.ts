@@ -2,6 +2,7 @@ import { WalletContractV5R1, TonClient, toNano, internal } from "@ton/ton";
 import { Address, SendMode } from "@ton/core";
 import { getCachedHttpEndpoint } from "./endpoint.js";
 import { getKeyPair } from "./wallet-service.js";
+import { withSpendingPolicy, SpendingPolicyError } from "./spending-policy.js";
 import { createLogger } from "../utils/logger.js";
 
 const log = createLogger("TON");
@@ -11,11 +12,18 @@ export interface SendTonParams {
   amount: number;
   comment?: string;
   bounce?: boolean;
+  /** Caller label recorded by the spending policy (e.g. "deals", "sdk.sendTON") */
+  tool?: string;
 }
 
+/**
+ * Send TON from the agent wallet. Returns a pseudo tx reference, or null on
+ * failure. Throws SpendingPolicyError when the spending policy refuses the
+ * transfer (waits for owner approval when one is required).
+ */
 export async function sendTon(params: SendTonParams): Promise<string | null> {
   try {
-    const { toAddress, amount, comment = "", bounce = false } = params;
+    const { toAddress, amount, comment = "", bounce = false, tool = "sendTon" } = params;
 
     if (!Number.isFinite(amount) || amount <= 0) {
       log.error({ amount }, "Invalid transfer amount");
@@ -30,43 +38,50 @@ export async function sendTon(params: SendTonParams): Promise<string | null> {
       return null;
     }
 
-    const keyPair = await getKeyPair();
-    if (!keyPair) {
-      log.error("Wallet not initialized");
-      return null;
-    }
+    return await withSpendingPolicy(
+      { tool, kind: "ton", asset: "TON", symbol: "TON", amount, destination: toAddress },
+      async () => {
+        const keyPair = await getKeyPair();
+        if (!keyPair) {
+          log.error("Wallet not initialized");
+          return null;
+        }
 
-    const wallet = WalletContractV5R1.create({
-      workchain: 0,
-      publicKey: keyPair.publicKey,
-    });
+        const wallet = WalletContractV5R1.create({
+          workchain: 0,
+          publicKey: keyPair.publicKey,
+        });
 
-    const endpoint = await getCachedHttpEndpoint();
-    const client = new TonClient({ endpoint });
-    const contract = client.open(wallet);
+        const endpoint = await getCachedHttpEndpoint();
+        const client = new TonClient({ endpoint });
+        const contract = client.open(wallet);
 
-    const seqno = await contract.getSeqno();
+        const seqno = await contract.getSeqno();
 
-    await contract.sendTransfer({
-      seqno,
-      secretKey: keyPair.secretKey,
-      sendMode: SendMode.PAY_GAS_SEPARATELY,
-      messages: [
-        internal({
-          to: recipientAddress,
-          value: toNano(amount),
-          body: comment,
-          bounce,
-        }),
-      ],
-    });
+        await contract.sendTransfer({
+          seqno,
+          secretKey: keyPair.secretKey,
+          sendMode: SendMode.PAY_GAS_SEPARATELY,
+          messages: [
+            internal({
+              to: recipientAddress,
+              value: toNano(amount),
+              body: comment,
+              bounce,
+            }),
+          ],
+        });
 
-    const pseudoHash = `${seqno}_${Date.now()}_${amount.toFixed(2)}`;
+        const pseudoHash = `${seqno}_${Date.now()}_${amount.toFixed(2)}`;
 
-    log.info(`Sent ${amount} TON to ${toAddress.slice(0, 8)}... - seqno: ${seqno}`);
+        log.info(`Sent ${amount} TON to ${toAddress.slice(0, 8)}... - seqno: ${seqno}`);
 
-    return pseudoHash;
+        return pseudoHash;
+      },
+      (txRef) => txRef !== null
+    );
   } catch (error) {
+    if (error instanceof SpendingPolicyError) throw error;
     log.error({ err: error }, "Error sending TON");
     return null;
   }
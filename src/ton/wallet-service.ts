@@ -1,8 +1,16 @@
 import { mnemonicNew, mnemonicToPrivateKey, mnemonicValidate } from "@ton/crypto";
 import { WalletContractV5R1, TonClient, fromNano } from "@ton/ton";
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
 import { join, dirname } from "path";
 import { getCachedHttpEndpoint } from "./endpoint.js";
+import { formatAddress } from "./network.js";
+import {
+  encryptMnemonic,
+  decryptMnemonic,
+  assertPassphrase,
+  isEncryptedKeystore,
+  type EncryptedKeystore,
+} from "./keystore.js";
 import { fetchWithTimeout } from "../utils/fetch.js";
 import { TELETON_ROOT } from "../workspace/paths.js";
 import { tonapiFetch, COINGECKO_API_URL } from "../constants/api-endpoints.js";
@@ -12,9 +20,15 @@ const log = createLogger("TON");
 
 const WALLET_FILE = join(TELETON_ROOT, "wallet.json");
 
+/** Environment variable holding the wallet passphrase (unlock without a prompt) */
+export const WALLET_PASSPHRASE_ENV = "TELETON_WALLET_PASSPHRASE";
+
 // ─── Singleton Caches ────────────────────────────────────────────────
-/** Cached wallet data (invalidated on saveWallet) */
-let _walletCache: WalletData | null | undefined; // undefined = not yet loaded
+/** Cached wallet file (invalidated on saveWallet) */
+let _walletCache: WalletFile | null | undefined; // undefined = not yet loaded
+
+/** Mnemonic decrypted by unlockWallet() (encrypted wallets only) */
+let _unlockedMnemonic: string[] | null = null;
 
 /** Cached key pair derived from mnemonic */
 let _keyPairCache: { publicKey: Buffer; secretKey: Buffer } | null = null;
@@ -27,6 +41,37 @@ export interface WalletData {
   createdAt: string;
 }
 
+/**
+ * Wallet metadata as stored on disk. The mnemonic itself is only reachable
+ * through getKeyPair()/exportMnemonic().
+ */
+export interface StoredWallet {
+  version: "w5r1";
+  address: string;
+  publicKey: string;
+  createdAt: string;
+  /** Mnemonic is passphrase-encrypted (false = legacy plaintext file) */
+  encrypted: boolean;
+}
+
+/** On-disk format: legacy files carry `mnemonic`, encrypted ones `keystore` */
+interface WalletFile extends Omit<WalletData, "mnemonic"> {
+  mnemonic?: string[];
+  keystore?: EncryptedKeystore;
+}
+
+/**
+ * Thrown when signing is attempted while the encrypted wallet is locked.
+ */
+export class WalletLockedError extends Error {
+  constructor() {
+    super(
+      `Wallet is locked. Set ${WALLET_PASSPHRASE_ENV} or unlock it interactively in \`teleton start\`.`
+    );
+    this.name = "WalletLockedError";
+  }
+}
+
 /**
  * Generate a new TON wallet (W5R1)
  */
@@ -43,7 +88,7 @@ export async function generateWallet(): Promise<WalletData> {
     publicKey: keyPair.publicKey,
   });
 
-  const address = wallet.address.toString({ bounceable: true, testOnly: false });
+  const address = formatAddress(wallet.address);
 
   return {
     version: "w5r1",
@@ -55,25 +100,45 @@ export async function generateWallet(): Promise<WalletData> {
 }
 
 /**
- * Save wallet to ~/.teleton/wallet.json
+ * Save wallet to ~/.teleton/wallet.json.
+ *
+ * The mnemonic is encrypted when a passphrase is given (defaults to
+ * TELETON_WALLET_PASSPHRASE); otherwise it is written in plaintext and
+ * encrypted on the next `teleton start`. The saved wallet stays unlocked.
  */
-export function saveWallet(wallet: WalletData): void {
+export async function saveWallet(
+  wallet: WalletData,
+  passphrase: string | undefined = process.env[WALLET_PASSPHRASE_ENV]
+): Promise<void> {
+  const { mnemonic, ...meta } = wallet;
+  let file: WalletFile;
+  if (passphrase) {
+    assertPassphrase(passphrase);
+    file = { ...meta, keystore: await encryptMnemonic(mnemonic, passphrase, wallet.publicKey) };
+  } else {
+    file = wallet;
+  }
+
+  writeWalletFile(file);
+  _unlockedMnemonic = passphrase ? mnemonic : null;
+}
+
+function writeWalletFile(file: WalletFile): void {
   const dir = dirname(WALLET_FILE);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
 
-  writeFileSync(WALLET_FILE, JSON.stringify(wallet, null, 2), { encoding: "utf-8", mode: 0o600 });
+  const tmp = `${WALLET_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+  renameSync(tmp, WALLET_FILE);
 
   // Invalidate caches so next loadWallet()/getKeyPair() re-reads
   _walletCache = undefined;
   _keyPairCache = null;
 }
 
-/**
- * Load wallet from ~/.teleton/wallet.json (cached after first read)
- */
-export function loadWallet(): WalletData | null {
+function readWalletFile(): WalletFile | null {
   if (_walletCache !== undefined) return _walletCache;
 
   if (!existsSync(WALLET_FILE)) {
@@ -84,10 +149,18 @@ export function loadWallet(): WalletData | null {
   try {
     const content = readFileSync(WALLET_FILE, "utf-8");
     const parsed = JSON.parse(content);
-    if (!parsed.mnemonic || !Array.isArray(parsed.mnemonic) || parsed.mnemonic.length !== 24) {
+    if (parsed.keystore !== undefined) {
+      if (!isEncryptedKeystore(parsed.keystore)) {
+        throw new Error("Invalid wallet.json: malformed keystore");
+      }
+    } else if (
+      !parsed.mnemonic ||
+      !Array.isArray(parsed.mnemonic) ||
+      parsed.mnemonic.length !== 24
+    ) {
       throw new Error("Invalid wallet.json: mnemonic must be a 24-word array");
     }
-    _walletCache = parsed as WalletData;
+    _walletCache = parsed as WalletFile;
     return _walletCache;
   } catch (error) {
     log.error({ err: error }, "Failed to load wallet");
@@ -96,6 +169,21 @@ export function loadWallet(): WalletData | null {
   }
 }
 
+/**
+ * Load wallet metadata from ~/.teleton/wallet.json (cached after first read)
+ */
+export function loadWallet(): StoredWallet | null {
+  const file = readWalletFile();
+  if (!file) return null;
+  return {
+    version: file.version,
+    address: formatAddress(file.address),
+    publicKey: file.publicKey,
+    createdAt: file.createdAt,
+    encrypted: file.keystore !== undefined,
+  };
+}
+
 /**
  * Check if wallet exists
  */
@@ -103,6 +191,90 @@ export function walletExists(): boolean {
   return existsSync(WALLET_FILE);
 }
 
+/**
+ * True when the wallet is encrypted and no passphrase has been supplied yet.
+ */
+export function isWalletLocked(): boolean {
+  const file = readWalletFile();
+  return !!file?.keystore && !_unlockedMnemonic;
+}
+
+/**
+ * Decrypt the wallet with its passphrase and keep it unlocked for this
+ * process. Throws KeystoreDecryptError on a wrong passphrase.
+ */
+export async function unlockWallet(passphrase: string): Promise<void> {
+  const file = readWalletFile();
+  if (!file) throw new Error("No wallet found");
+  if (!file.keystore) return;
+
+  const mnemonic = await decryptMnemonic(file.keystore, passphrase, file.publicKey);
+  const keyPair = await mnemonicToPrivateKey(mnemonic);
+  if (keyPair.publicKey.toString("hex") !== file.publicKey) {
+    throw new Error("Decrypted mnemonic does not match the wallet public key");
+  }
+
+  _unlockedMnemonic = mnemonic;
+  _keyPairCache = keyPair;
+}
+
+/**
+ * Unlock with TELETON_WALLET_PASSPHRASE when set, then drop it from the
+ * environment so plugins and MCP subprocesses don't inherit it.
+ * Returns true when the wallet is usable for signing.
+ */
+export async function unlockWalletFromEnv(): Promise<boolean> {
+  const passphrase = process.env[WALLET_PASSPHRASE_ENV];
+  delete process.env[WALLET_PASSPHRASE_ENV];
+  if (isWalletLocked() && passphrase) {
+    await unlockWallet(passphrase);
+  }
+  return !isWalletLocked();
+}
+
+/**
+ * Forget the decrypted mnemonic and key pair.
+ */
+export function lockWallet(): void {
+  _unlockedMnemonic = null;
+  _keyPairCache = null;
+}
+
+/**
+ * Encrypt a legacy plaintext wallet, or re-encrypt an encrypted one under a
+ * new passphrase (`currentPassphrase` required unless already unlocked).
+ */
+export async function setWalletPassphrase(
+  newPassphrase: string,
+  currentPassphrase?: string
+): Promise<void> {
+  assertPassphrase(newPassphrase);
+  const mnemonic = await exportMnemonic(currentPassphrase);
+  const file = readWalletFile() as WalletFile;
+  const { mnemonic: _legacy, keystore: _old, ...meta } = file;
+
+  writeWalletFile({
+    ...meta,
+    keystore: await encryptMnemonic(mnemonic, newPassphrase, file.publicKey),
+  });
+  _unlockedMnemonic = mnemonic;
+}
+
+/**
+ * Return the 24-word mnemonic. Encrypted wallets need the passphrase unless
+ * already unlocked in this process.
+ */
+export async function exportMnemonic(passphrase?: string): Promise<string[]> {
+  const file = readWalletFile();
+  if (!file) throw new Error("No wallet found");
+  if (file.mnemonic) return file.mnemonic;
+  if (passphrase !== undefined && file.keystore) {
+    return decryptMnemonic(file.keystore, passphrase, file.publicKey);
+  }
+  if (_unlockedMnemonic) return _unlockedMnemonic;
+  throw new WalletLockedError();
+}
+
 /**
  * Import a wallet from an existing 24-word mnemonic
  */
@@ -119,7 +291,7 @@ export async function importWallet(mnemonic: string[]): Promise<WalletData> {
     publicKey: keyPair.publicKey,
   });
 
-  const address = wallet.address.toString({ bounceable: true, testOnly: false });
+  const address = formatAddress(wallet.address);
 
   return {
     version: "w5r1",
@@ -140,15 +312,19 @@ export function getWalletAddress(): string | null {
 
 /**
  * Get cached KeyPair (derives from mnemonic once, then reuses).
- * Returns null if no wallet is configured.
+ * Returns null if no wallet is configured; throws WalletLockedError while an
+ * encrypted wallet is locked.
  */
 export async function getKeyPair(): Promise<{ publicKey: Buffer; secretKey: Buffer } | null> {
   if (_keyPairCache) return _keyPairCache;
 
-  const wallet = loadWallet();
-  if (!wallet) return null;
+  const file = readWalletFile();
+  if (!file) return null;
+
+  const mnemonic = file.mnemonic ?? _unlockedMnemonic;
+  if (!mnemonic) throw new WalletLockedError();
 
-  _keyPairCache = await mnemonicToPrivateKey(wallet.mnemonic);
+  _keyPairCache = await mnemonicToPrivateKey(mnemonic);
   return _keyPairCache;
 }
 
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Type } from "@sinclair/typebox";
+import {
+  Tracer,
+  setTracer,
+  withTrace,
+  withSpan,
+  traceMethods,
+  currentTraceContext,
+  traceparent,
+  withTraceparent,
+  type SpanData,
+  type SpanExporter,
+} from "../tracer.js";
+import { FileSpanExporter, readTraceFromFile, toOtlpRequest } from "../exporters.js";
+import { ToolRegistry } from "../../agent/tools/registry.js";
+import type { ToolContext } from "../../agent/tools/types.js";
+
+class MemoryExporter implements SpanExporter {
+  spans: SpanData[] = [];
+  export(span: SpanData): void {
+    this.spans.push(span);
+  }
+  async shutdown(): Promise<void> {}
+}
+
+describe("Tracer", () => {
+  let exporter: MemoryExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new MemoryExporter();
+    tracer = new Tracer([exporter], 2);
+    setTracer(tracer);
+  });
+
+  afterEach(() => {
+    setTracer(null);
+  });
+
+  it("nests child spans under the root of the active trace", async () => {
+    await withTrace("telegram.message", { "chat.id": "42", "message.id": 7 }, async () => {
+      await withSpan("rag.retrieve", {}, async (span) => span.setAttribute("rag.chunks", 3));
+      await withSpan("llm.call", {}, async () => {
+        await withSpan("tool.execute", { "tool.name": "x" }, async () => {});
+      });
+    });
+
+    const [rag, tool, llm, root] = exporter.spans;
+    expect(root.name).toBe("telegram.message");
+    expect(root.parentSpanId).toBeNull();
+    expect(root.kind).toBe("server");
+    expect(rag.parentSpanId).toBe(root.spanId);
+    expect(llm.parentSpanId).toBe(root.spanId);
+    expect(tool.parentSpanId).toBe(llm.spanId);
+    expect(new Set(exporter.spans.map((s) => s.traceId)).size).toBe(1);
+    expect(rag.attributes).toEqual({ "rag.chunks": 3 });
+    expect(root.endTime).toBeGreaterThanOrEqual(tool.endTime);
+
+    expect(tracer.getTrace(root.traceId)?.map((s) => s.name)).toEqual([
+      "telegram.message",
+      "rag.retrieve",
+      "llm.call",
+      "tool.execute",
+    ]);
+    expect(tracer.listTraces({ chatId: "42", messageId: 7 })).toMatchObject([
+      { traceId: root.traceId, name: "telegram.message", spanCount: 4, status: "ok" },
+    ]);
+    expect(tracer.listTraces({ chatId: "43" })).toEqual([]);
+  });
+
+  it("records errors on the span and the trace summary", async () => {
+    await expect(
+      withTrace("task.run", {}, () =>
+        withSpan("tool.execute", {}, async () => {
+          throw new Error("boom");
+        })
+      )
+    ).rejects.toThrow("boom");
+
+    expect(exporter.spans.map((s) => [s.status, s.error])).toEqual([
+      ["error", "boom"],
+      ["error", "boom"],
+    ]);
+    expect(tracer.listTraces()[0].status).toBe("error");
+  });
+
+  it("does not start traces outside a root span or when disabled", async () => {
+    expect(await withSpan("llm.call", {}, async () => currentTraceContext())).toBeUndefined();
+    expect(exporter.spans).toEqual([]);
+
+    setTracer(null);
+    const result = await withTrace("telegram.message", {}, async (span) => {
+      span.setAttribute("ignored", true);
+      return currentTraceContext();
+    });
+    expect(result).toBeUndefined();
+    expect(exporter.spans).toEqual([]);
+  });
+
+  it("keeps only the most recent traces in memory", async () => {
+    for (const id of [1, 2, 3]) {
+      await withTrace("telegram.message", { "message.id": id }, async () => {});
+    }
+    expect(tracer.listTraces().map((t) => t.attributes["message.id"])).toEqual([3, 2]);
+  });
+
+  it("wraps sync and async SDK methods in client spans", async () => {
+    const api = traceMethods(
+      "sdk.ton",
+      { "plugin.name": "demo" },
+      {
+        toNano: (amount: number) => amount * 1e9,
+        async getBalance() {
+          return this.toNano(2);
+        },
+      }
+    );
+
+    expect(api.toNano(1)).toBe(1e9);
+    expect(exporter.spans).toEqual([]);
+
+    await withTrace("telegram.message", {}, async () => {
+      expect(await api.getBalance()).toBe(2e9);
+    });
+    const names = exporter.spans.map((s) => s.name);
+    expect(names).toEqual(["sdk.ton.toNano", "sdk.ton.getBalance", "telegram.message"]);
+    expect(exporter.spans[1]).toMatchObject({
+      kind: "client",
+      attributes: { "plugin.name": "demo" },
+    });
+    expect(exporter.spans[0].parentSpanId).toBe(exporter.spans[1].spanId);
+  });
+
+  it("resumes a trace from a traceparent sent by another process", async () => {
+    const api = traceMethods("sdk.ton", {}, { getAddress: () => "EQ..." });
+    const traceId = "1".repeat(32);
+    const spanId = "2".repeat(16);
+
+    expect(withTraceparent(traceparent(traceId, spanId), () => api.getAddress())).toBe("EQ...");
+    withTraceparent("not-a-traceparent", () => api.getAddress());
+    withTraceparent(undefined, () => api.getAddress());
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]).toMatchObject({
+      name: "sdk.ton.getAddress",
+      traceId,
+      parentSpanId: spanId,
+    });
+  });
+
+  it("passes the active trace to tools through ToolContext", async () => {
+    const registry = new ToolRegistry();
+    let seen: ToolContext["trace"];
+    registry.register(
+      { name: "probe", description: "Probe", parameters: Type.Object({}) },
+      async (_params, context) => {
+        seen = context.trace;
+        return { success: true };
+      }
+    );
+    const context = { chatId: "1", senderId: 1, isGroup: false } as ToolContext;
+    const call = { type: "toolCall" as const, id: "c1", name: "probe", arguments: {} };
+
+    await withTrace("telegram.message", {}, () => registry.execute(call, context));
+
+    const toolSpan = exporter.spans.find((s) => s.name === "tool.execute");
+    expect(toolSpan?.attributes).toMatchObject({ "tool.name": "probe", "tool.status": "success" });
+    expect(seen).toEqual({
+      traceId: toolSpan?.traceId,
+      spanId: toolSpan?.spanId,
+      traceparent: `00-${toolSpan?.traceId}-${toolSpan?.spanId}-01`,
+    });
+  });
+});
+
+describe("exporters", () => {
+  const span: SpanData = {
+    traceId: "a".repeat(32),
+    spanId: "b".repeat(16),
+    parentSpanId: null,
+    name: "telegram.message",
+    kind: "server",
+    startTime: 1_700_000_000_000.5,
+    endTime: 1_700_000_000_250,
+    attributes: { "chat.id": "42", "message.id": 7, ratio: 0.5, skipped: false },
+    status: "error",
+    error: "boom",
+  };
+
+  it("builds an OTLP/HTTP JSON request", () => {
+    const body = toOtlpRequest([span], "teleton-test");
+    const resource = body.resourceSpans[0];
+    expect(resource.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "teleton-test" } },
+    ]);
+    expect(resource.scopeSpans[0].spans[0]).toEqual({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      name: "telegram.message",
+      kind: 2,
+      startTimeUnixNano: "1700000000000500000",
+      endTimeUnixNano: "1700000000250000000",
+      attributes: [
+        { key: "chat.id", value: { stringValue: "42" } },
+        { key: "message.id", value: { intValue: "7" } },
+        { key: "ratio", value: { doubleValue: 0.5 } },
+        { key: "skipped", value: { boolValue: false } },
+      ],
+      status: { code: 2, message: "boom" },
+    });
+  });
+
+  it("writes JSONL and reads a trace back across a rollover", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "teleton-traces-"));
+    try {
+      const path = join(dir, "traces.jsonl");
+      const file = new FileSpanExporter(path, 1);
+      const other = { ...span, traceId: "c".repeat(32) };
+
+      file.export(span);
+      file.flush();
+      // Over the size limit, so this flush rolls the first file to .1
+      file.export(other);
+      file.export({ ...span, spanId: "d".repeat(16), startTime: span.startTime + 10 });
+      await file.shutdown();
+
+      const spans = await readTraceFromFile(path, span.traceId);
+      expect(spans.map((s) => s.spanId)).toEqual([span.spanId, "d".repeat(16)]);
+      expect(await readTraceFromFile(path, "e".repeat(32))).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  renameSync,
+  statSync,
+  createReadStream,
+} from "node:fs";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import { fetchWithTimeout } from "../utils/fetch.js";
+import { createLogger } from "../utils/logger.js";
+import type { AttributeValue, SpanData, SpanExporter } from "./tracer.js";
+
+const log = createLogger("Tracing");
+
+const FLUSH_INTERVAL_MS = 2_000;
+const OTLP_BATCH_SIZE = 256;
+const OTLP_MAX_QUEUE = 4_096;
+const OTLP_TIMEOUT_MS = 10_000;
+
+/**
+ * Appends spans to a JSONL file, one span per line. The file rolls over to
+ * `<file>.1` once it passes `maxBytes`, so at most two files are kept.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private pending: string[] = [];
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private path: string,
+    private maxBytes: number
+  ) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  export(span: SpanData): void {
+    this.pending.push(JSON.stringify(span));
+  }
+
+  flush(): void {
+    if (this.pending.length === 0) return;
+    const lines = this.pending.join("\n") + "\n";
+    this.pending = [];
+    try {
+      if (existsSync(this.path) && statSync(this.path).size >= this.maxBytes) {
+        renameSync(this.path, `${this.path}.1`);
+      }
+      appendFileSync(this.path, lines, { mode: 0o600 });
+    } catch (error) {
+      log.warn({ err: error }, `Could not write spans to ${this.path}`);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    this.flush();
+  }
+}
+
+/** Scan a span file (and its rolled-over predecessor) for one trace */
+export async function readTraceFromFile(path: string, traceId: string): Promise<SpanData[]> {
+  const spans: SpanData[] = [];
+  const needle = `"traceId":"${traceId}"`;
+  for (const file of [`${path}.1`, path]) {
+    if (!existsSync(file)) continue;
+    const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.includes(needle)) continue;
+      try {
+        spans.push(JSON.parse(line) as SpanData);
+      } catch {
+        // Partially written line
+      }
+    }
+  }
+  return spans.sort((a, b) => a.startTime - b.startTime);
+}
+
+const OTLP_KIND = { internal: 1, server: 2, client: 3 } as const;
+const OTLP_STATUS = { unset: 0, ok: 1, error: 2 } as const;
+
+function otlpValue(value: AttributeValue) {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function otlpNanos(ms: number): string {
+  return (BigInt(Math.floor(ms * 1000)) * 1000n).toString();
+}
+
+/** OTLP/HTTP JSON request body for a batch of spans */
+export function toOtlpRequest(spans: SpanData[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [{ key: "service.name", value: { stringValue: serviceName } }],
+        },
+        scopeSpans: [
+          {
+            scope: { name: "teleton" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: OTLP_KIND[span.kind],
+              startTimeUnixNano: otlpNanos(span.startTime),
+              endTimeUnixNano: otlpNanos(span.endTime),
+              attributes: Object.entries(span.attributes).map(([key, value]) => ({
+                key,
+                value: otlpValue(value),
+              })),
+              status: {
+                code: OTLP_STATUS[span.status],
+                ...(span.error && { message: span.error }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/** Batches spans and POSTs them to an OTLP/HTTP collector (JSON encoding) */
+export class OtlpHttpExporter implements SpanExporter {
+  private queue: SpanData[] = [];
+  private timer: ReturnType<typeof setInterval>;
+  private inflight: Promise<void> = Promise.resolve();
+  private failing = false;
+
+  constructor(
+    private endpoint: string,
+    private headers: Record<string, string>,
+    private serviceName: string
+  ) {
+    this.timer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  export(span: SpanData): void {
+    this.queue.push(span);
+    if (this.queue.length > OTLP_MAX_QUEUE) this.queue.shift();
+    if (this.queue.length >= OTLP_BATCH_SIZE) void this.flush();
+  }
+
+  flush(): Promise<void> {
+    if (this.queue.length === 0) return this.inflight;
+    const batch = this.queue.splice(0, OTLP_BATCH_SIZE);
+    this.inflight = this.inflight.then(() => this.send(batch));
+    return this.inflight;
+  }
+
+  private async send(batch: SpanData[]): Promise<void> {
+    try {
+      const res = await fetchWithTimeout(this.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify(toOtlpRequest(batch, this.serviceName)),
+        timeoutMs: OTLP_TIMEOUT_MS,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (this.failing) log.info("OTLP export recovered");
+      this.failing = false;
+    } catch (error) {
+      // Warn once per outage rather than on every batch
+      if (!this.failing) {
+        log.warn({ err: error }, `OTLP export to ${this.endpoint} failed, dropping spans`);
+      }
+      this.failing = true;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    while (this.queue.length > 0) await this.flush();
+    await this.inflight;
+  }
+}
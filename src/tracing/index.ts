@@ -0,0 +1,55 @@
+import { join } from "node:path";
+import type { TracingConfig } from "../config/schema.js";
+import { TELETON_ROOT } from "../workspace/paths.js";
+import { createLogger } from "../utils/logger.js";
+import { FileSpanExporter, OtlpHttpExporter } from "./exporters.js";
+import { Tracer, setTracer, getTracer, type SpanExporter } from "./tracer.js";
+
+export * from "./tracer.js";
+export {
+  FileSpanExporter,
+  OtlpHttpExporter,
+  readTraceFromFile,
+  toOtlpRequest,
+} from "./exporters.js";
+
+const log = createLogger("Tracing");
+
+export function traceFilePath(config: TracingConfig): string {
+  return config.file ?? join(TELETON_ROOT, "traces.jsonl");
+}
+
+/** Start tracing from config; returns null (and leaves tracing off) when disabled */
+export function initTracing(config: TracingConfig): Tracer | null {
+  if (!config.enabled) {
+    setTracer(null);
+    return null;
+  }
+
+  const exporters: SpanExporter[] = [];
+  if (config.exporter === "file") {
+    exporters.push(new FileSpanExporter(traceFilePath(config), config.max_file_mb * 1024 * 1024));
+  } else if (config.exporter === "otlp") {
+    exporters.push(
+      new OtlpHttpExporter(config.otlp_endpoint, config.otlp_headers, config.service_name)
+    );
+  }
+
+  const tracer = new Tracer(exporters, config.recent_traces);
+  setTracer(tracer);
+  const target = {
+    file: traceFilePath(config),
+    otlp: config.otlp_endpoint,
+    none: "in-memory only",
+  }[config.exporter];
+  log.info(`Tracing enabled → ${target}`);
+  return tracer;
+}
+
+/** Flush exporters and turn tracing off */
+export async function shutdownTracing(): Promise<void> {
+  const tracer = getTracer();
+  if (!tracer) return;
+  setTracer(null);
+  await tracer.shutdown();
+}
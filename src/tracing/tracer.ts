@@ -0,0 +1,347 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("Tracing");
+
+export type SpanKind = "internal" | "server" | "client";
+export type SpanStatus = "unset" | "ok" | "error";
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | null | undefined>;
+
+/** A finished span, as exported and served to the WebUI */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  /** Milliseconds since the epoch, sub-millisecond precision */
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  status: SpanStatus;
+  error?: string;
+}
+
+/** Identifies the active span; carried in ToolContext and forwarded to plugins and MCP */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  /** W3C trace context header value */
+  traceparent: string;
+}
+
+export interface SpanExporter {
+  export(span: SpanData): void;
+  shutdown(): Promise<void>;
+}
+
+/** What instrumented code sees; a no-op when tracing is off */
+export interface SpanHandle {
+  setAttribute(key: string, value: AttributeValue | null | undefined): void;
+  setAttributes(attributes: Attributes): void;
+  recordError(error: unknown): void;
+}
+
+const NOOP_SPAN: SpanHandle = {
+  setAttribute() {},
+  setAttributes() {},
+  recordError() {},
+};
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export function traceparent(traceId: string, spanId: string): string {
+  return `00-${traceId}-${spanId}-01`;
+}
+
+/** Trace context of a W3C traceparent header value, or null if malformed */
+export function parseTraceparent(value: string): TraceContext | null {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(value);
+  return match ? { traceId: match[1], spanId: match[2], traceparent: value } : null;
+}
+
+class Span implements SpanHandle {
+  readonly spanId = randomBytes(8).toString("hex");
+  private readonly startTime = now();
+  private attributes: Record<string, AttributeValue> = {};
+  private status: SpanStatus = "unset";
+  private error?: string;
+
+  constructor(
+    private tracer: Tracer,
+    readonly traceId: string,
+    readonly parentSpanId: string | null,
+    readonly name: string,
+    readonly kind: SpanKind
+  ) {}
+
+  setAttribute(key: string, value: AttributeValue | null | undefined): void {
+    if (value !== null && value !== undefined) this.attributes[key] = value;
+  }
+
+  setAttributes(attributes: Attributes): void {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+  }
+
+  recordError(error: unknown): void {
+    this.status = "error";
+    this.error = error instanceof Error ? error.message : String(error);
+  }
+
+  get context(): TraceContext {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      traceparent: traceparent(this.traceId, this.spanId),
+    };
+  }
+
+  end(): SpanData {
+    const data: SpanData = {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: now(),
+      attributes: this.attributes,
+      status: this.status === "unset" ? "ok" : this.status,
+      ...(this.error !== undefined && { error: this.error }),
+    };
+    this.tracer.onEnd(data);
+    return data;
+  }
+}
+
+/** Parent of new spans: a span of this process, or one resumed from another */
+type ParentSpan = Pick<Span, "traceId" | "spanId" | "context">;
+
+/** Root span summary for the WebUI trace list */
+export interface TraceSummary {
+  traceId: string;
+  name: string;
+  startTime: number;
+  durationMs: number;
+  spanCount: number;
+  status: SpanStatus;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface TraceFilter {
+  chatId?: string;
+  messageId?: number;
+  limit?: number;
+}
+
+export class Tracer {
+  private storage = new AsyncLocalStorage<ParentSpan>();
+  /** Finished spans of recent traces, oldest trace first */
+  private recent = new Map<string, SpanData[]>();
+
+  constructor(
+    private exporters: SpanExporter[],
+    private recentTraces: number
+  ) {}
+
+  active(): ParentSpan | undefined {
+    return this.storage.getStore();
+  }
+
+  /** Run `fn` with a span of another process as the parent of new spans */
+  resume<T>(context: TraceContext, fn: () => T): T {
+    return this.storage.run({ traceId: context.traceId, spanId: context.spanId, context }, fn);
+  }
+
+  async run<T>(
+    name: string,
+    kind: SpanKind,
+    root: boolean,
+    attributes: Attributes,
+    fn: (span: SpanHandle) => Promise<T>
+  ): Promise<T> {
+    const parent = root ? undefined : this.active();
+    const traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    const span = new Span(this, traceId, parent?.spanId ?? null, name, kind);
+    span.setAttributes(attributes);
+
+    try {
+      return await this.storage.run(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** Like `run` for a child span, but `fn` may return synchronously */
+  call<T>(name: string, kind: SpanKind, attributes: Attributes, fn: () => T): T {
+    const parent = this.active();
+    if (!parent) return fn();
+    const span = new Span(this, parent.traceId, parent.spanId, name, kind);
+    span.setAttributes(attributes);
+
+    let result: T;
+    try {
+      result = this.storage.run(span, fn);
+    } catch (error) {
+      span.recordError(error);
+      span.end();
+      throw error;
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        (value: unknown) => {
+          span.end();
+          return value;
+        },
+        (error: unknown) => {
+          span.recordError(error);
+          span.end();
+          throw error;
+        }
+      ) as T;
+    }
+    span.end();
+    return result;
+  }
+
+  onEnd(span: SpanData): void {
+    let spans = this.recent.get(span.traceId);
+    if (!spans) {
+      spans = [];
+      this.recent.set(span.traceId, spans);
+      if (this.recent.size > this.recentTraces) {
+        const oldest = this.recent.keys().next().value;
+        if (oldest !== undefined) this.recent.delete(oldest);
+      }
+    }
+    spans.push(span);
+
+    for (const exporter of this.exporters) {
+      try {
+        exporter.export(span);
+      } catch (error) {
+        log.warn({ err: error }, "Span export failed");
+      }
+    }
+  }
+
+  /** Finished spans of a recent trace, in start order */
+  getTrace(traceId: string): SpanData[] | null {
+    const spans = this.recent.get(traceId);
+    return spans ? [...spans].sort((a, b) => a.startTime - b.startTime) : null;
+  }
+
+  /** Completed recent traces, newest first */
+  listTraces(filter: TraceFilter = {}): TraceSummary[] {
+    const summaries: TraceSummary[] = [];
+    for (const spans of this.recent.values()) {
+      const summary = summarizeTrace(spans);
+      if (!summary) continue;
+      if (filter.chatId && summary.attributes["chat.id"] !== filter.chatId) continue;
+      if (filter.messageId && summary.attributes["message.id"] !== filter.messageId) continue;
+      summaries.push(summary);
+    }
+    summaries.reverse();
+    return summaries.slice(0, filter.limit ?? 50);
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.allSettled(this.exporters.map((e) => e.shutdown()));
+  }
+}
+
+/** Summary of a trace whose root span has finished, or null while it is still running */
+export function summarizeTrace(spans: SpanData[]): TraceSummary | null {
+  const root = spans.find((s) => s.parentSpanId === null);
+  if (!root) return null;
+  return {
+    traceId: root.traceId,
+    name: root.name,
+    startTime: root.startTime,
+    durationMs: root.endTime - root.startTime,
+    spanCount: spans.length,
+    status: spans.some((s) => s.status === "error") ? "error" : "ok",
+    attributes: root.attributes,
+  };
+}
+
+let tracer: Tracer | null = null;
+
+export function setTracer(instance: Tracer | null): void {
+  tracer = instance;
+}
+
+export function getTracer(): Tracer | null {
+  return tracer;
+}
+
+/**
+ * Start a new trace with `fn` running inside its root span.
+ * Runs `fn` untraced when tracing is off.
+ */
+export function withTrace<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: SpanHandle) => Promise<T>
+): Promise<T> {
+  if (!tracer) return fn(NOOP_SPAN);
+  return tracer.run(name, "server", true, attributes, fn);
+}
+
+/**
+ * Run `fn` inside a child of the active span. Outside a trace (or with
+ * tracing off) `fn` runs untraced, so background work never starts orphan traces.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: SpanHandle) => Promise<T>,
+  kind: SpanKind = "internal"
+): Promise<T> {
+  if (!tracer?.active()) return fn(NOOP_SPAN);
+  return tracer.run(name, kind, false, attributes, fn);
+}
+
+/**
+ * Wrap each method of `api` in a child span named `<prefix>.<method>`, for
+ * SDK namespaces whose methods may be sync or async. Calls outside a trace
+ * pass straight through.
+ */
+export function traceMethods<T extends object>(prefix: string, attributes: Attributes, api: T): T {
+  const wrapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(api)) {
+    if (typeof value !== "function") {
+      wrapped[key] = value;
+      continue;
+    }
+    const method = value as (...args: unknown[]) => unknown;
+    wrapped[key] = function (this: unknown, ...args: unknown[]) {
+      if (!tracer) return method.apply(this, args);
+      return tracer.call(`${prefix}.${key}`, "client", attributes, () => method.apply(this, args));
+    };
+  }
+  return wrapped as T;
+}
+
+/**
+ * Run `fn` inside the span a `traceparent` identifies, for calls arriving from
+ * another process (sandboxed plugin SDK calls). Without one, or with tracing
+ * off, `fn` runs untraced.
+ */
+export function withTraceparent<T>(value: string | undefined, fn: () => T): T {
+  const context = value ? parseTraceparent(value) : null;
+  if (!tracer || !context) return fn();
+  return tracer.resume(context, fn);
+}
+
+/** Context of the active span, if any */
+export function currentTraceContext(): TraceContext | undefined {
+  return tracer?.active()?.context;
+}
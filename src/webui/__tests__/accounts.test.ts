@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../../memory/schema.js";
+import { initAuditLog } from "../../memory/audit-log.js";
+import {
+  AccountStore,
+  AccountError,
+  LoginError,
+  hashPassword,
+  verifyPassword,
+} from "../accounts.js";
+import { currentTotpStep, totpCode, verifyTotp } from "../totp.js";
+import { requiredRole } from "../middleware/roles.js";
+import { WebUIServer } from "../server.js";
+import { WebUIConfigSchema } from "../../config/schema.js";
+import type { WebUIServerDeps } from "../types.js";
+
+const PASSWORD = "correct horse battery";
+const TOKEN = "shared-token-0123456789abcdef";
+
+describe("passwords and TOTP", () => {
+  it("hashes with scrypt and verifies", async () => {
+    const hash = await hashPassword(PASSWORD);
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+    expect(await verifyPassword("wrong password", hash)).toBe(false);
+  });
+
+  it("matches the RFC 6238 SHA-1 test vector", () => {
+    // Secret "12345678901234567890" in base32; T = 59s → 94287082 (last 6 digits)
+    const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+    expect(totpCode(secret, 1)).toBe("287082");
+    expect(verifyTotp(secret, "287082", 59_000)).toBe(1);
+    expect(verifyTotp(secret, "287082", 200_000)).toBeNull();
+  });
+});
+
+describe("AccountStore", () => {
+  let db: InstanceType<typeof Database>;
+  let accounts: AccountStore;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+    ensureSchema(db);
+    accounts = new AccountStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("creates accounts and opens sessions on login", async () => {
+    const alice = await accounts.create("alice", PASSWORD, "operator");
+    expect(alice).toMatchObject({ username: "alice", role: "operator", totpEnabled: false });
+    await expect(accounts.create("Alice", PASSWORD, "viewer")).rejects.toThrow(/already exists/);
+    await expect(accounts.create("bob", "short", "viewer")).rejects.toBeInstanceOf(AccountError);
+
+    const { token } = await accounts.login("ALICE", PASSWORD);
+    expect(accounts.resolveSession(token)).toEqual({
+      userId: alice.id,
+      username: "alice",
+      role: "operator",
+    });
+
+    accounts.logout(token);
+    expect(accounts.resolveSession(token)).toBeNull();
+    await expect(accounts.login("alice", "wrong password")).rejects.toBeInstanceOf(LoginError);
+  });
+
+  it("signs out everywhere when the password changes or the account is disabled", async () => {
+    const alice = await accounts.create("alice", PASSWORD, "viewer");
+    const { token } = await accounts.login("alice", PASSWORD);
+
+    await accounts.changePassword(alice.id, PASSWORD, "another long password");
+    expect(accounts.resolveSession(token)).toBeNull();
+
+    const second = await accounts.login("alice", "another long password");
+    await accounts.update(alice.id, { disabled: true });
+    expect(accounts.resolveSession(second.token)).toBeNull();
+    await expect(accounts.login("alice", "another long password")).rejects.toThrow(/Invalid/);
+  });
+
+  it("requires a fresh TOTP code once two-factor is enabled", async () => {
+    const alice = await accounts.create("alice", PASSWORD, "admin");
+    const { secret } = accounts.beginTotp(alice.id);
+    accounts.enableTotp(alice.id, totpCode(secret, currentTotpStep()));
+    expect(accounts.get(alice.id)?.totpEnabled).toBe(true);
+
+    const missing = await accounts.login("alice", PASSWORD).catch((e: LoginError) => e);
+    expect(missing).toMatchObject({ totpRequired: true });
+
+    // The code used for enrollment can't be replayed
+    await expect(
+      accounts.login("alice", PASSWORD, totpCode(secret, currentTotpStep()))
+    ).rejects.toThrow(/Invalid authenticator code/);
+    const { token } = await accounts.login(
+      "alice",
+      PASSWORD,
+      totpCode(secret, currentTotpStep() + 1)
+    );
+    expect(accounts.resolveSession(token)?.username).toBe("alice");
+  });
+
+  it("locks a username after repeated failures", async () => {
+    await accounts.create("alice", PASSWORD, "viewer");
+    for (let i = 0; i < 5; i++) {
+      await accounts.login("alice", "wrong password").catch(() => {});
+    }
+
+    await expect(accounts.login("alice", PASSWORD)).rejects.toThrow(/Too many failed attempts/);
+  });
+
+  it("keeps at least one enabled admin", async () => {
+    const root = await accounts.create("root", PASSWORD, "admin");
+    await expect(accounts.update(root.id, { role: "viewer" })).rejects.toThrow(/last admin/);
+    expect(() => accounts.delete(root.id)).toThrow(/last admin/);
+
+    await accounts.create("second", PASSWORD, "admin");
+    expect((await accounts.update(root.id, { role: "viewer" }))?.role).toBe("viewer");
+  });
+});
+
+describe("WebUI roles", () => {
+  it("maps routes to the minimum role", () => {
+    expect(requiredRole("GET", "/api/status")).toBe("viewer");
+    expect(requiredRole("GET", "/api/memory/stats")).toBe("viewer");
+    expect(requiredRole("GET", "/api/memory/search")).toBe("operator");
+    expect(requiredRole("PUT", "/api/tools/web_fetch")).toBe("operator");
+    expect(requiredRole("GET", "/api/workspace/read")).toBe("operator");
+    expect(requiredRole("POST", "/api/workspace/write")).toBe("admin");
+    expect(requiredRole("GET", "/api/config")).toBe("admin");
+    expect(requiredRole("POST", "/api/accounts/me/password")).toBe("viewer");
+    expect(requiredRole("GET", "/api/accounts")).toBe("admin");
+    expect(requiredRole("GET", "/api/statusx")).toBe("admin");
+  });
+
+  describe("server", () => {
+    let db: InstanceType<typeof Database>;
+    let server: WebUIServer;
+    let request: (path: string, init?: RequestInit) => Promise<Response>;
+
+    beforeEach(() => {
+      db = new Database(":memory:");
+      ensureSchema(db);
+      initAuditLog(db);
+      server = new WebUIServer({
+        memory: { db },
+        config: WebUIConfigSchema.parse({ auth_token: TOKEN }),
+        toolRegistry: { getAll: () => [] },
+      } as unknown as WebUIServerDeps);
+      const app = (server as unknown as { app: { request: typeof request } }).app;
+      request = (path, init) => app.request(path, init);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    const login = async (username: string) => {
+      const res = await request("/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password: PASSWORD }),
+      });
+      expect(res.status).toBe(200);
+      const cookie = res.headers.get("set-cookie") ?? "";
+      return { Cookie: cookie.split(";")[0] };
+    };
+
+    it("enforces roles and audits writes with the actor", async () => {
+      const admin = { Authorization: `Bearer ${TOKEN}`, "Content-Type": "application/json" };
+      const created = await request("/api/accounts", {
+        method: "POST",
+        headers: admin,
+        body: JSON.stringify({ username: "vera", password: PASSWORD, role: "viewer" }),
+      });
+      expect(created.status).toBe(200);
+
+      const viewer = await login("vera");
+      expect((await request("/api/accounts/me", { headers: viewer })).status).toBe(200);
+      expect((await request("/api/accounts", { headers: viewer })).status).toBe(403);
+      expect((await request("/api/config", { headers: viewer })).status).toBe(403);
+
+      const check = await (await request("/auth/check", { headers: viewer })).json();
+      expect(check.data).toEqual({
+        authenticated: true,
+        user: { username: "vera", role: "viewer" },
+      });
+
+      expect((await request("/api/audit", { headers: viewer })).status).toBe(403);
+      const audit = await (await request("/api/audit?source=webui", { headers: admin })).json();
+      expect(audit.data.entries[0]).toMatchObject({
+        source: "webui",
+        actor: "webui:token",
+        action: "api.request",
+        target: "/api/accounts",
+        details: { method: "POST", status: 200, role: "admin" },
+      });
+    });
+
+    it("rejects the shared token once disabled and an admin account exists", async () => {
+      server = new WebUIServer({
+        memory: { db },
+        config: WebUIConfigSchema.parse({ auth_token: TOKEN, token_auth: false }),
+        toolRegistry: { getAll: () => [] },
+      } as unknown as WebUIServerDeps);
+      const app = (server as unknown as { app: { request: typeof request } }).app;
+      const bearer = { Authorization: `Bearer ${TOKEN}` };
+
+      // No admin yet: the token still works so the first account can be created
+      expect((await app.request("/api/accounts", { headers: bearer })).status).toBe(200);
+      await new AccountStore(db).create("root", PASSWORD, "admin");
+      expect((await app.request("/api/accounts", { headers: bearer })).status).toBe(401);
+    });
+  });
+});
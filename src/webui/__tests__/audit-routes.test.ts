@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { ensureSchema } from "../../memory/schema.js";
+import { AuditLog } from "../../memory/audit-log.js";
+import { createAuditRoutes } from "../routes/audit.js";
+import type { WebUIServerDeps } from "../types.js";
+
+describe("audit export", () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    ensureSchema(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const exportCsv = async () => {
+    const app = createAuditRoutes({ memory: { db } } as unknown as WebUIServerDeps);
+    const res = await app.request("/export?format=csv");
+    expect(res.status).toBe(200);
+    const [, row] = (await res.text()).split("\r\n");
+    return row;
+  };
+
+  it("neutralizes cells that spreadsheets would run as formulas", async () => {
+    new AuditLog(db).record(
+      {
+        source: "webui",
+        actor: "@SUM(1+1)",
+        action: "+cmd",
+        target: '=HYPERLINK("http://evil.example")',
+        before: "-2+3",
+        after: "\t=1+1",
+        details: { note: "=1+1" },
+      },
+      1_000
+    );
+
+    const cells = (await exportCsv()).split(",");
+    expect(cells[3]).toBe("'@SUM(1+1)");
+    expect(cells[4]).toBe("'+cmd");
+    expect(cells[5]).toBe(`"'=HYPERLINK(""http://evil.example"")"`);
+    expect(cells[6]).toBe("'-2+3");
+    expect(cells[7]).toBe("'\t=1+1");
+    // JSON cells start with "{" and are left as they are
+    expect(cells[8]).toBe('"{""note"":""=1+1""}"');
+  });
+
+  it("leaves negative numbers as numbers", async () => {
+    new AuditLog(db).record(
+      {
+        source: "webui",
+        actor: "webui:alice",
+        action: "config.set",
+        target: "agent.temperature",
+        before: -2,
+        after: -0.5,
+      },
+      1_000
+    );
+
+    const cells = (await exportCsv()).split(",");
+    expect(cells[6]).toBe("-2");
+    expect(cells[7]).toBe("-0.5");
+  });
+
+  it("leaves ordinary values unchanged", async () => {
+    new AuditLog(db).record(
+      { source: "webui", actor: "webui:alice", action: "config.set", target: "agent.model" },
+      1_000
+    );
+
+    const cells = (await exportCsv()).split(",");
+    expect(cells.slice(0, 6)).toEqual([
+      "1",
+      "1970-01-01T00:16:40.000Z",
+      "webui",
+      "webui:alice",
+      "config.set",
+      "agent.model",
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const paths = vi.hoisted(() => {
+  const { mkdtempSync } = require("fs") as typeof import("fs");
+  const { tmpdir } = require("os") as typeof import("os");
+  const { join: joinPath } = require("path") as typeof import("path");
+  return { plugins: mkdtempSync(joinPath(tmpdir(), "teleton-marketplace-")) };
+});
+
+vi.mock("../../workspace/paths.js", () => ({ WORKSPACE_PATHS: { PLUGINS_DIR: paths.plugins } }));
+
+vi.mock("../../agent/tools/plugin-loader.js", () => ({
+  loadPlugin: vi.fn(),
+  ensurePluginDeps: vi.fn(async () => {}),
+}));
+
+import { loadPlugin } from "../../agent/tools/plugin-loader.js";
+import { MarketplaceService } from "../services/marketplace.js";
+import { IntegrityError, lockPlugin, readLockfile, sha256 } from "../services/plugin-integrity.js";
+import type { RegistryEntry } from "../types.js";
+
+const OLD_INDEX = Buffer.from("export const tools = []; // 1.0.0\n");
+const NEW_INDEX = Buffer.from("export const tools = []; // 1.1.0\n");
+const MANIFEST = Buffer.from('{"name":"weather","version":"1.1.0"}\n');
+const COMMIT = "a".repeat(40);
+
+const entry: RegistryEntry = {
+  id: "weather",
+  name: "weather",
+  description: "Weather forecasts",
+  author: "teleton",
+  tags: [],
+  path: "plugins/weather",
+  version: "1.1.0",
+  commit: COMMIT,
+  files: { "manifest.json": sha256(MANIFEST), "index.js": sha256(NEW_INDEX) },
+};
+
+function makeModule(version: string) {
+  return {
+    name: "weather",
+    version,
+    tools: vi.fn(() => [{ tool: { name: `weather_${version}` }, executor: vi.fn() }]),
+    migrate: vi.fn(),
+    start: vi.fn(async () => {}),
+    stop: vi.fn(async () => {}),
+  };
+}
+
+describe("MarketplaceService.updatePlugin", () => {
+  let pluginDir: string;
+  let served: Record<string, Buffer>;
+  let current: ReturnType<typeof makeModule>;
+  let modules: unknown[];
+  let toolRegistry: {
+    registerPluginTools: ReturnType<typeof vi.fn>;
+    removePluginTools: ReturnType<typeof vi.fn>;
+  };
+  let service: MarketplaceService;
+
+  beforeEach(() => {
+    pluginDir = join(paths.plugins, "weather");
+    mkdirSync(pluginDir);
+    writeFileSync(join(pluginDir, "index.js"), OLD_INDEX);
+    lockPlugin("weather", {
+      version: "1.0.0",
+      commit: "c".repeat(40),
+      path: "plugins/weather",
+      files: { "index.js": sha256(OLD_INDEX) },
+      verification: "pinned",
+      installedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    served = { "manifest.json": MANIFEST, "index.js": NEW_INDEX };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url.endsWith("/registry.json")) return Response.json({ plugins: [entry] });
+        const file = url.split(`/${COMMIT}/plugins/weather/`)[1];
+        return file && served[file]
+          ? new Response(new Uint8Array(served[file]))
+          : new Response(null, { status: 404 });
+      })
+    );
+
+    current = makeModule("1.0.0");
+    modules = [current];
+    toolRegistry = { registerPluginTools: vi.fn(() => 1), removePluginTools: vi.fn() };
+    service = new MarketplaceService({
+      modules,
+      config: {
+        marketplace: { publisher_keys: {}, require_signature: false, allow_unpinned: false },
+      },
+      sdkDeps: {},
+      pluginContext: { db: {} },
+      loadedModuleNames: [],
+      rewireHooks: vi.fn(),
+      toolRegistry,
+    } as unknown as ConstructorParameters<typeof MarketplaceService>[0]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(loadPlugin).mockReset();
+    for (const name of readdirSync(paths.plugins)) {
+      rmSync(join(paths.plugins, name), { recursive: true, force: true });
+    }
+  });
+
+  afterAll(() => {
+    rmSync(paths.plugins, { recursive: true, force: true });
+  });
+
+  const installedIndex = () => readFileSync(join(pluginDir, "index.js"));
+  const leftovers = () => readdirSync(paths.plugins).filter((name) => name.startsWith("."));
+
+  it("keeps the installed version when the download fails verification", async () => {
+    served["index.js"] = Buffer.from("evil()");
+
+    await expect(service.updatePlugin("weather")).rejects.toThrow(IntegrityError);
+
+    expect(installedIndex().equals(OLD_INDEX)).toBe(true);
+    expect(current.stop).not.toHaveBeenCalled();
+    expect(modules).toEqual([current]);
+    expect(readLockfile().plugins.weather.version).toBe("1.0.0");
+    expect(leftovers()).toEqual([]);
+  });
+
+  it("swaps in the verified version and records it in the lockfile", async () => {
+    const next = makeModule("1.1.0");
+    vi.mocked(loadPlugin).mockResolvedValueOnce(next as never);
+
+    await expect(service.updatePlugin("weather")).resolves.toEqual({
+      name: "weather",
+      version: "1.1.0",
+      toolCount: 1,
+    });
+
+    expect(installedIndex().equals(NEW_INDEX)).toBe(true);
+    expect(current.stop).toHaveBeenCalled();
+    expect(next.start).toHaveBeenCalled();
+    expect(modules).toEqual([next]);
+    expect(readLockfile().plugins.weather).toMatchObject({ version: "1.1.0", files: entry.files });
+    expect(leftovers()).toEqual([]);
+  });
+
+  it("restores the previous version when the new one fails to start", async () => {
+    const next = makeModule("1.1.0");
+    next.start.mockRejectedValueOnce(new Error("boom"));
+    vi.mocked(loadPlugin).mockResolvedValueOnce(next as never);
+
+    await expect(service.updatePlugin("weather")).rejects.toThrow("boom");
+
+    expect(installedIndex().equals(OLD_INDEX)).toBe(true);
+    expect(next.stop).toHaveBeenCalled();
+    expect(current.start).toHaveBeenCalled();
+    expect(toolRegistry.registerPluginTools).toHaveBeenLastCalledWith(
+      "weather",
+      current.tools.mock.results[0].value
+    );
+    expect(modules).toEqual([current]);
+    expect(readLockfile().plugins.weather.version).toBe("1.0.0");
+    expect(leftovers()).toEqual([]);
+    expect(existsSync(pluginDir)).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  checkUpdate,
+  diffPlugin,
+  lockPlugin,
+  readLockfile,
+  sha256,
+  signedPayload,
+  unlockPlugin,
+  validatePins,
+  verifyEntry,
+  verifyFile,
+  verifyInstalled,
+  IntegrityError,
+  type LockedPlugin,
+} from "../services/plugin-integrity.js";
+import type { RegistryEntry } from "../types.js";
+import type { MarketplaceConfig } from "../../config/schema.js";
+
+const INDEX_JS = Buffer.from("export const tools = [];\n");
+const MANIFEST_JSON = Buffer.from('{"name":"weather","version":"1.1.0"}\n');
+
+function makeEntry(overrides: Partial<RegistryEntry> = {}): RegistryEntry {
+  return {
+    id: "weather",
+    name: "Weather",
+    description: "Weather forecasts",
+    author: "teleton",
+    tags: [],
+    path: "plugins/weather",
+    version: "1.1.0",
+    commit: "a".repeat(40),
+    files: { "manifest.json": sha256(MANIFEST_JSON), "index.js": sha256(INDEX_JS) },
+    ...overrides,
+  };
+}
+
+const policy = (overrides: Partial<MarketplaceConfig> = {}): MarketplaceConfig => ({
+  publisher_keys: {},
+  require_signature: false,
+  allow_unpinned: false,
+  ...overrides,
+});
+
+function makePublisher() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const raw = Buffer.from(publicKey.export({ format: "jwk" }).x as string, "base64url");
+  return {
+    publicKey: raw.toString("base64"),
+    sign: (entry: RegistryEntry) => sign(null, signedPayload(entry), privateKey).toString("base64"),
+  };
+}
+
+describe("validatePins", () => {
+  it("accepts entries with and without pins", () => {
+    expect(() => validatePins(makeEntry())).not.toThrow();
+    expect(() =>
+      validatePins(makeEntry({ version: undefined, commit: undefined, files: undefined }))
+    ).not.toThrow();
+  });
+
+  it("rejects malformed commits, hashes and file paths", () => {
+    expect(() => validatePins(makeEntry({ commit: "main" }))).toThrow(/40-character SHA/);
+    expect(() => validatePins(makeEntry({ files: { "index.js": "abc" } }))).toThrow(/sha256/);
+    expect(() => validatePins(makeEntry({ files: { "../x.js": "a".repeat(64) } }))).toThrow(
+      /invalid file path/
+    );
+    expect(() => validatePins(makeEntry({ files: { "/etc/passwd": "a".repeat(64) } }))).toThrow(
+      /invalid file path/
+    );
+  });
+});
+
+describe("verifyEntry", () => {
+  it("accepts pinned entries and refuses unpinned ones unless allowed", () => {
+    expect(verifyEntry(makeEntry(), policy())).toBe("pinned");
+
+    const unpinned = makeEntry({ commit: undefined, files: undefined });
+    expect(() => verifyEntry(unpinned, policy())).toThrow(IntegrityError);
+    expect(verifyEntry(unpinned, policy({ allow_unpinned: true }))).toBe("unpinned");
+  });
+
+  it("verifies signatures against the configured publisher keys", () => {
+    const publisher = makePublisher();
+    const entry = makeEntry({ publisher: "teleton" });
+    entry.signature = publisher.sign(entry);
+
+    expect(verifyEntry(entry, policy({ publisher_keys: { teleton: publisher.publicKey } }))).toBe(
+      "signed"
+    );
+    expect(() => verifyEntry(entry, policy())).toThrow(/not in marketplace.publisher_keys/);
+  });
+
+  it("refuses entries whose pins changed after signing", () => {
+    const publisher = makePublisher();
+    const entry = makeEntry({ publisher: "teleton" });
+    entry.signature = publisher.sign(entry);
+    const tampered = { ...entry, commit: "b".repeat(40) };
+
+    expect(() =>
+      verifyEntry(tampered, policy({ publisher_keys: { teleton: publisher.publicKey } }))
+    ).toThrow(/invalid signature/);
+  });
+
+  it("requires a signature when require_signature is on", () => {
+    expect(() => verifyEntry(makeEntry(), policy({ require_signature: true }))).toThrow(
+      /not signed/
+    );
+  });
+
+  it("signs a payload that does not depend on file order", () => {
+    const a = makeEntry({ files: { "a.js": "1".repeat(64), "b.js": "2".repeat(64) } });
+    const b = makeEntry({ files: { "b.js": "2".repeat(64), "a.js": "1".repeat(64) } });
+    expect(signedPayload(a).equals(signedPayload(b))).toBe(true);
+  });
+});
+
+describe("verifyFile", () => {
+  it("accepts pinned content and refuses anything else", () => {
+    const entry = makeEntry();
+    expect(() => verifyFile(entry, "index.js", INDEX_JS)).not.toThrow();
+    expect(() => verifyFile(entry, "index.js", Buffer.from("evil()"))).toThrow(IntegrityError);
+    expect(() => verifyFile(entry, "extra.js", INDEX_JS)).toThrow(/not in the registry entry/);
+  });
+});
+
+describe("lockfile", () => {
+  let dir: string;
+  let path: string;
+
+  const locked: LockedPlugin = {
+    version: "1.0.0",
+    commit: "c".repeat(40),
+    path: "plugins/weather",
+    files: { "index.js": sha256(Buffer.from("old")) },
+    verification: "pinned",
+    installedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "teleton-lock-"));
+    path = join(dir, "plugins-lock.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records and removes installed plugins", () => {
+    expect(readLockfile(path).plugins).toEqual({});
+
+    lockPlugin("weather", locked, path);
+    expect(readLockfile(path).plugins).toEqual({ weather: locked });
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    unlockPlugin("weather", path);
+    expect(readLockfile(path).plugins).toEqual({});
+  });
+
+  it("checks installed files against the lockfile", () => {
+    writeFileSync(join(dir, "index.js"), "old");
+    expect(() => verifyInstalled("weather", dir, path)).not.toThrow();
+
+    lockPlugin("weather", locked, path);
+    expect(() => verifyInstalled("weather", dir, path)).not.toThrow();
+
+    writeFileSync(join(dir, "index.js"), "tampered");
+    expect(() => verifyInstalled("weather", dir, path)).toThrow(IntegrityError);
+
+    rmSync(join(dir, "index.js"));
+    expect(() => verifyInstalled("weather", dir, path)).toThrow(/missing/);
+  });
+
+  it("diffs an update against the installed files", () => {
+    const diff = diffPlugin(
+      { ...locked, files: { ...locked.files, "old.js": "d".repeat(64) } },
+      makeEntry()
+    );
+
+    expect(diff.from).toEqual({ version: "1.0.0", commit: locked.commit });
+    expect(diff.to).toEqual({ version: "1.1.0", commit: "a".repeat(40) });
+    expect(diff.added).toEqual(["manifest.json"]);
+    expect(diff.changed).toEqual(["index.js"]);
+    expect(diff.removed).toEqual(["old.js"]);
+  });
+
+  it("refuses a registry entry that changed content under the installed version", () => {
+    const installed = { ...locked, version: "1.1.0", commit: "a".repeat(40) };
+
+    expect(() => checkUpdate("weather", installed, makeEntry())).toThrow(/without a new version/);
+    expect(() =>
+      checkUpdate("weather", { ...installed, files: makeEntry().files ?? {} }, makeEntry())
+    ).not.toThrow();
+    expect(() => checkUpdate("weather", locked, makeEntry())).not.toThrow();
+  });
+});
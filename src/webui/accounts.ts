@@ -0,0 +1,407 @@
+/**
+ * Named WebUI accounts with roles, hashed passwords, optional TOTP and
+ * server-side sessions.
+ *
+ *   viewer    status and logs
+ *   operator  + tasks, tools, memory, workspace (read)
+ *   admin     + config, soul, plugins, MCP, pairing, workspace writes, accounts
+ *
+ * The shared webui.auth_token still works as an admin login (actor "token")
+ * unless webui.token_auth is disabled.
+ */
+
+import type Database from "better-sqlite3";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { generateToken, COOKIE_MAX_AGE } from "./middleware/auth.js";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp.js";
+import type { AuditActor } from "../memory/audit-log.js";
+
+export type WebUIRole = "viewer" | "operator" | "admin";
+
+export const WEBUI_ROLES: WebUIRole[] = ["viewer", "operator", "admin"];
+
+/** True when `role` grants at least the access of `required` */
+export function hasRole(role: WebUIRole, required: WebUIRole): boolean {
+  return WEBUI_ROLES.indexOf(role) >= WEBUI_ROLES.indexOf(required);
+}
+
+/** Who is making a request */
+export interface WebUIActor {
+  /** null for the shared auth token */
+  userId: number | null;
+  username: string;
+  role: WebUIRole;
+}
+
+export const TOKEN_ACTOR: WebUIActor = { userId: null, username: "token", role: "admin" };
+
+/** Audit-log identity for actions taken through the WebUI */
+export function auditActor(actor: WebUIActor): AuditActor {
+  return { source: "webui", actor: `webui:${actor.username}` };
+}
+
+export interface WebUIAccount {
+  id: number;
+  username: string;
+  role: WebUIRole;
+  totpEnabled: boolean;
+  disabled: boolean;
+  createdAt: number;
+  lastLoginAt: number | null;
+}
+
+/** Invalid input or a refused change; the message is safe to show the user */
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountError";
+  }
+}
+
+/** Failed login. `totpRequired` asks the client for a one-time code. */
+export class LoginError extends Error {
+  constructor(
+    message: string,
+    public readonly totpRequired = false
+  ) {
+    super(message);
+    this.name = "LoginError";
+  }
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+/** Failed logins per username before it is locked for LOGIN_LOCK_MS */
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCK_MS = 15 * 60 * 1000;
+
+const SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+const HASH_LENGTH = 32;
+
+function scryptAsync(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize("NFKC"),
+      salt,
+      HASH_LENGTH,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+/** Hash a password as `scrypt$N$r$p$salt$hash` (base64) */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [kdf, n, r, p, salt, hash] = stored.split("$");
+  if (kdf !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function assertPassword(password: string): void {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function assertRole(role: unknown): asserts role is WebUIRole {
+  if (!WEBUI_ROLES.includes(role as WebUIRole)) {
+    throw new AccountError(`Role must be one of: ${WEBUI_ROLES.join(", ")}`);
+  }
+}
+
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  role: WebUIRole;
+  totp_secret: string | null;
+  totp_pending: string | null;
+  totp_last_step: number | null;
+  disabled: number;
+  created_at: number;
+  last_login_at: number | null;
+}
+
+function toAccount(row: UserRow): WebUIAccount {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    totpEnabled: !!row.totp_secret,
+    disabled: !!row.disabled,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at,
+  };
+}
+
+export class AccountStore {
+  private failures = new Map<string, { count: number; lockedUntil: number }>();
+
+  constructor(private db: Database.Database) {}
+
+  list(): WebUIAccount[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM webui_users ORDER BY username COLLATE NOCASE`)
+      .all() as UserRow[];
+    return rows.map(toAccount);
+  }
+
+  get(id: number): WebUIAccount | null {
+    const row = this.getRow(id);
+    return row ? toAccount(row) : null;
+  }
+
+  /** True when at least one enabled admin account exists */
+  hasAdmin(): boolean {
+    return !!this.db
+      .prepare(`SELECT 1 FROM webui_users WHERE role = 'admin' AND disabled = 0 LIMIT 1`)
+      .get();
+  }
+
+  async create(username: string, password: string, role: WebUIRole): Promise<WebUIAccount> {
+    const name = typeof username === "string" ? username.trim() : "";
+    if (!/^[\w.-]{3,32}$/.test(name)) {
+      throw new AccountError("Username must be 3-32 letters, digits, '.', '_' or '-'");
+    }
+    if (name.toLowerCase() === TOKEN_ACTOR.username) {
+      throw new AccountError(`"${TOKEN_ACTOR.username}" is reserved`);
+    }
+    assertPassword(password);
+    assertRole(role);
+    if (this.db.prepare(`SELECT 1 FROM webui_users WHERE username = ?`).get(name)) {
+      throw new AccountError(`Account "${name}" already exists`);
+    }
+
+    const hash = await hashPassword(password);
+    const { lastInsertRowid } = this.db
+      .prepare(`INSERT INTO webui_users (username, password_hash, role) VALUES (?, ?, ?)`)
+      .run(name, hash, role);
+    return this.get(Number(lastInsertRowid)) as WebUIAccount;
+  }
+
+  /**
+   * Change role, enable/disable or reset the password. Disabling or a new
+   * password signs the account out everywhere. The last enabled admin can't
+   * be demoted or disabled.
+   */
+  async update(
+    id: number,
+    changes: { role?: WebUIRole; disabled?: boolean; password?: string }
+  ): Promise<WebUIAccount | null> {
+    const row = this.getRow(id);
+    if (!row) return null;
+
+    if (changes.role !== undefined) assertRole(changes.role);
+    if (changes.password !== undefined) assertPassword(changes.password);
+    const losesAdmin =
+      row.role === "admin" &&
+      !row.disabled &&
+      ((changes.role !== undefined && changes.role !== "admin") || changes.disabled === true);
+    if (losesAdmin) this.assertNotLastAdmin(id);
+
+    const hash = changes.password !== undefined ? await hashPassword(changes.password) : null;
+
+    this.db.transaction(() => {
+      if (changes.role !== undefined) {
+        this.db.prepare(`UPDATE webui_users SET role = ? WHERE id = ?`).run(changes.role, id);
+      }
+      if (changes.disabled !== undefined) {
+        this.db
+          .prepare(`UPDATE webui_users SET disabled = ? WHERE id = ?`)
+          .run(changes.disabled ? 1 : 0, id);
+      }
+      if (hash) {
+        this.db.prepare(`UPDATE webui_users SET password_hash = ? WHERE id = ?`).run(hash, id);
+      }
+      if (hash || changes.disabled) this.revokeSessions(id);
+    })();
+
+    return this.get(id);
+  }
+
+  delete(id: number): boolean {
+    const row = this.getRow(id);
+    if (!row) return false;
+    if (row.role === "admin" && !row.disabled) this.assertNotLastAdmin(id);
+    this.db.prepare(`DELETE FROM webui_users WHERE id = ?`).run(id);
+    return true;
+  }
+
+  async changePassword(id: number, current: string, next: string): Promise<void> {
+    const row = this.getRow(id);
+    if (!row) throw new AccountError("Account not found");
+    if (!(await verifyPassword(current ?? "", row.password_hash))) {
+      throw new AccountError("Current password is wrong");
+    }
+    await this.update(id, { password: next });
+  }
+
+  /**
+   * Check credentials and open a session. Returns the session token for the
+   * cookie. Repeated failures lock the username for a while.
+   */
+  async login(
+    username: string,
+    password: string,
+    totp?: string
+  ): Promise<{ token: string; account: WebUIAccount }> {
+    const key = (username ?? "").trim().toLowerCase();
+    const failure = this.failures.get(key);
+    if (failure && failure.lockedUntil > Date.now()) {
+      throw new LoginError("Too many failed attempts, try again later");
+    }
+
+    const row = this.db.prepare(`SELECT * FROM webui_users WHERE username = ?`).get(key) as
+      | UserRow
+      | undefined;
+    // Hash even for unknown users so response time doesn't reveal which names exist
+    const valid = row
+      ? (await verifyPassword(password ?? "", row.password_hash)) && !row.disabled
+      : !(await scryptAsync(password ?? "", randomBytes(16), SCRYPT_PARAMS));
+    if (!row || !valid) {
+      this.recordFailure(key);
+      throw new LoginError("Invalid username or password");
+    }
+
+    if (row.totp_secret) {
+      if (!totp) throw new LoginError("Authenticator code required", true);
+      const step = verifyTotp(row.totp_secret, totp);
+      if (step === null || (row.totp_last_step !== null && step <= row.totp_last_step)) {
+        this.recordFailure(key);
+        throw new LoginError("Invalid authenticator code", true);
+      }
+      this.db.prepare(`UPDATE webui_users SET totp_last_step = ? WHERE id = ?`).run(step, row.id);
+    }
+
+    this.failures.delete(key);
+    const token = generateToken();
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM webui_sessions WHERE expires_at <= unixepoch()`).run();
+      this.db
+        .prepare(
+          `INSERT INTO webui_sessions (token_hash, user_id, expires_at)
+           VALUES (?, ?, unixepoch() + ?)`
+        )
+        .run(hashSessionToken(token), row.id, COOKIE_MAX_AGE);
+      this.db
+        .prepare(`UPDATE webui_users SET last_login_at = unixepoch() WHERE id = ?`)
+        .run(row.id);
+    })();
+
+    return { token, account: this.get(row.id) as WebUIAccount };
+  }
+
+  /** The account behind a session token, or null if unknown, expired or disabled */
+  resolveSession(token: string): WebUIActor | null {
+    const row = this.db
+      .prepare(
+        `SELECT u.id, u.username, u.role FROM webui_sessions s
+         JOIN webui_users u ON u.id = s.user_id
+         WHERE s.token_hash = ? AND s.expires_at > unixepoch() AND u.disabled = 0`
+      )
+      .get(hashSessionToken(token)) as
+      | { id: number; username: string; role: WebUIRole }
+      | undefined;
+    return row ? { userId: row.id, username: row.username, role: row.role } : null;
+  }
+
+  logout(token: string): void {
+    this.db.prepare(`DELETE FROM webui_sessions WHERE token_hash = ?`).run(hashSessionToken(token));
+  }
+
+  /**
+   * Start TOTP enrollment: a new secret is stored as pending until
+   * enableTotp() confirms a code from the authenticator app.
+   */
+  beginTotp(id: number): { secret: string; uri: string } {
+    const row = this.getRow(id);
+    if (!row) throw new AccountError("Account not found");
+    if (row.totp_secret) throw new AccountError("Two-factor authentication is already enabled");
+
+    const secret = generateTotpSecret();
+    this.db.prepare(`UPDATE webui_users SET totp_pending = ? WHERE id = ?`).run(secret, id);
+    return { secret, uri: totpUri(secret, row.username) };
+  }
+
+  enableTotp(id: number, code: string): void {
+    const row = this.getRow(id);
+    if (!row?.totp_pending) throw new AccountError("Start two-factor setup first");
+    const step = verifyTotp(row.totp_pending, code ?? "");
+    if (step === null) throw new AccountError("Invalid authenticator code");
+
+    this.db
+      .prepare(
+        `UPDATE webui_users SET totp_secret = totp_pending, totp_pending = NULL, totp_last_step = ?
+         WHERE id = ?`
+      )
+      .run(step, id);
+  }
+
+  /** Turn TOTP off; requires a current code unless an admin resets it for someone else */
+  disableTotp(id: number, code?: string): void {
+    const row = this.getRow(id);
+    if (!row) throw new AccountError("Account not found");
+    if (code !== undefined && (!row.totp_secret || verifyTotp(row.totp_secret, code) === null)) {
+      throw new AccountError("Invalid authenticator code");
+    }
+    this.db
+      .prepare(
+        `UPDATE webui_users SET totp_secret = NULL, totp_pending = NULL, totp_last_step = NULL
+         WHERE id = ?`
+      )
+      .run(id);
+  }
+
+  private getRow(id: number): UserRow | undefined {
+    return this.db.prepare(`SELECT * FROM webui_users WHERE id = ?`).get(id) as UserRow | undefined;
+  }
+
+  private assertNotLastAdmin(id: number): void {
+    const others = this.db
+      .prepare(
+        `SELECT COUNT(*) AS n FROM webui_users WHERE role = 'admin' AND disabled = 0 AND id != ?`
+      )
+      .get(id) as { n: number };
+    if (others.n === 0) throw new AccountError("Can't remove the last admin account");
+  }
+
+  private revokeSessions(id: number): void {
+    this.db.prepare(`DELETE FROM webui_sessions WHERE user_id = ?`).run(id);
+  }
+
+  private recordFailure(key: string): void {
+    if (this.failures.size > 1000) {
+      for (const [name, entry] of this.failures) {
+        if (entry.lockedUntil <= Date.now()) this.failures.delete(name);
+      }
+    }
+    const entry = this.failures.get(key) ?? { count: 0, lockedUntil: 0 };
+    entry.count++;
+    if (entry.count >= MAX_LOGIN_FAILURES) {
+      entry.lockedUntil = Date.now() + LOGIN_LOCK_MS;
+      entry.count = 0;
+    }
+    this.failures.set(key, entry);
+  }
+}
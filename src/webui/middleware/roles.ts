@@ -0,0 +1,34 @@
+import type { WebUIRole } from "../accounts.js";
+
+/**
+ * Minimum role per /api route prefix, for reads (GET/HEAD) and writes.
+ * First match wins, so specific prefixes come first. Unlisted routes
+ * (config, soul, plugins, marketplace, MCP, pairing) are admin-only.
+ */
+const ROUTE_ROLES: Array<[prefix: string, read: WebUIRole, write: WebUIRole]> = [
+  ["/api/accounts/me", "viewer", "viewer"],
+  ["/api/accounts", "admin", "admin"],
+  ["/api/status", "viewer", "admin"],
+  ["/api/logs", "viewer", "admin"],
+  ["/api/memory/stats", "viewer", "admin"],
+  ["/api/memory", "operator", "operator"],
+  ["/api/tools", "operator", "operator"],
+  ["/api/tasks", "operator", "operator"],
+  ["/api/erasure", "operator", "operator"],
+  ["/api/usage", "operator", "admin"],
+  ["/api/traces", "operator", "admin"],
+  // Workspace writes can change SOUL.md and other prompt files
+  ["/api/workspace", "operator", "admin"],
+];
+
+export function isMutatingMethod(method: string): boolean {
+  return !["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase());
+}
+
+export function requiredRole(method: string, path: string): WebUIRole {
+  const write = isMutatingMethod(method);
+  for (const [prefix, read, mutate] of ROUTE_ROLES) {
+    if (path === prefix || path.startsWith(`${prefix}/`)) return write ? mutate : read;
+  }
+  return "admin";
+}
@@ -0,0 +1,168 @@
+import { Hono, type Context } from "hono";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import { AccountError, type AccountStore, type WebUIAccount, type WebUIRole } from "../accounts.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+/** 400 for refused changes, 500 for anything unexpected */
+function errorResponse(c: Context<WebUIEnv>, error: unknown) {
+  const response: APIResponse = { success: false, error: getErrorMessage(error) };
+  return c.json(response, error instanceof AccountError ? 400 : 500);
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export function createAccountsRoutes(_deps: WebUIServerDeps, accounts: AccountStore) {
+  const app = new Hono<WebUIEnv>();
+
+  // ── Own account (any role) ──────────────────────────────────────────
+
+  app.get("/me", (c) => {
+    const actor = c.get("actor");
+    const response: APIResponse<{
+      username: string;
+      role: WebUIRole;
+      account: WebUIAccount | null;
+    }> = {
+      success: true,
+      data: {
+        username: actor.username,
+        role: actor.role,
+        account: actor.userId !== null ? accounts.get(actor.userId) : null,
+      },
+    };
+    return c.json(response);
+  });
+
+  app.post("/me/password", async (c) => {
+    try {
+      const actor = c.get("actor");
+      if (actor.userId === null) throw new AccountError("The shared token has no password");
+      const body = await c.req.json<{ current?: string; password?: string }>();
+      await accounts.changePassword(actor.userId, body.current ?? "", body.password ?? "");
+      const response: APIResponse = { success: true };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  // Start two-factor enrollment: returns the secret and otpauth:// URL
+  app.post("/me/totp", (c) => {
+    try {
+      const actor = c.get("actor");
+      if (actor.userId === null) throw new AccountError("The shared token has no account");
+      const response: APIResponse<{ secret: string; uri: string }> = {
+        success: true,
+        data: accounts.beginTotp(actor.userId),
+      };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  app.post("/me/totp/confirm", async (c) => {
+    try {
+      const actor = c.get("actor");
+      if (actor.userId === null) throw new AccountError("The shared token has no account");
+      const body = await c.req.json<{ code?: string }>();
+      accounts.enableTotp(actor.userId, body.code ?? "");
+      const response: APIResponse = { success: true };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  app.post("/me/totp/disable", async (c) => {
+    try {
+      const actor = c.get("actor");
+      if (actor.userId === null) throw new AccountError("The shared token has no account");
+      const body = await c.req.json<{ code?: string }>();
+      accounts.disableTotp(actor.userId, body.code ?? "");
+      const response: APIResponse = { success: true };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  // ── Account management (admin) ──────────────────────────────────────
+
+  app.get("/", (c) => {
+    const response: APIResponse<WebUIAccount[]> = { success: true, data: accounts.list() };
+    return c.json(response);
+  });
+
+  app.post("/", async (c) => {
+    try {
+      const body = await c.req.json<{ username?: string; password?: string; role?: WebUIRole }>();
+      const account = await accounts.create(
+        body.username ?? "",
+        body.password ?? "",
+        body.role ?? "viewer"
+      );
+      const response: APIResponse<WebUIAccount> = { success: true, data: account };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  app.patch("/:id", async (c) => {
+    try {
+      const id = parseId(c.req.param("id"));
+      const body = await c.req.json<{ role?: WebUIRole; disabled?: boolean; password?: string }>();
+      if (id !== null && id === c.get("actor").userId && body.disabled) {
+        throw new AccountError("You can't disable your own account");
+      }
+      const account = id !== null ? await accounts.update(id, body) : null;
+      if (!account) {
+        const response: APIResponse = { success: false, error: "Account not found" };
+        return c.json(response, 404);
+      }
+      const response: APIResponse<WebUIAccount> = { success: true, data: account };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  // Reset two-factor for someone who lost their authenticator
+  app.delete("/:id/totp", (c) => {
+    try {
+      const id = parseId(c.req.param("id"));
+      if (id === null || !accounts.get(id)) {
+        const response: APIResponse = { success: false, error: "Account not found" };
+        return c.json(response, 404);
+      }
+      accounts.disableTotp(id);
+      const response: APIResponse = { success: true };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  app.delete("/:id", (c) => {
+    try {
+      const id = parseId(c.req.param("id"));
+      if (id !== null && id === c.get("actor").userId) {
+        throw new AccountError("You can't delete your own account");
+      }
+      if (id === null || !accounts.delete(id)) {
+        const response: APIResponse = { success: false, error: "Account not found" };
+        return c.json(response, 404);
+      }
+      const response: APIResponse = { success: true };
+      return c.json(response);
+    } catch (error) {
+      return errorResponse(c, error);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,173 @@
+import { Hono } from "hono";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import {
+  AuditLog,
+  AUDIT_SOURCES,
+  type AuditEntry,
+  type AuditFilter,
+  type AuditSource,
+  type AuditVerification,
+} from "../../memory/audit-log.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+const MAX_EXPORT_ROWS = 100_000;
+
+const CSV_COLUMNS = [
+  "id",
+  "created_at",
+  "source",
+  "actor",
+  "action",
+  "target",
+  "before",
+  "after",
+  "details",
+  "prev_hash",
+  "hash",
+] as const;
+
+/** Parse the shared query filters; returns an error message on bad input */
+function parseFilter(query: Record<string, string>): AuditFilter | string {
+  const filter: AuditFilter = {};
+
+  if (query.source) {
+    if (!(AUDIT_SOURCES as string[]).includes(query.source)) {
+      return `'source' must be one of: ${AUDIT_SOURCES.join(", ")}`;
+    }
+    filter.source = query.source as AuditSource;
+  }
+  if (query.actor) filter.actor = query.actor;
+  if (query.action) filter.action = query.action;
+  if (query.q) filter.search = query.q;
+
+  for (const key of ["since", "until"] as const) {
+    if (!query[key]) continue;
+    const value = Number(query[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      return `'${key}' must be a unix timestamp in seconds`;
+    }
+    filter[key] = value;
+  }
+
+  return filter;
+}
+
+/** Spreadsheets evaluate cells starting with these as formulas */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Only strings are guarded: numbers like -2 stay numbers, JSON starts with { [ or " */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text: string;
+  if (typeof value === "string") {
+    text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  } else {
+    text = JSON.stringify(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: AuditEntry[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const e of entries) {
+    lines.push(
+      [
+        e.id,
+        new Date(e.createdAt * 1000).toISOString(),
+        e.source,
+        e.actor,
+        e.action,
+        e.target,
+        e.before,
+        e.after,
+        e.details,
+        e.prevHash,
+        e.hash,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function createAuditRoutes(deps: WebUIServerDeps) {
+  const app = new Hono<WebUIEnv>();
+  const auditLog = new AuditLog(deps.memory.db);
+
+  // Filtered entries, newest first
+  app.get("/", (c) => {
+    try {
+      const filter = parseFilter(c.req.query());
+      if (typeof filter === "string") {
+        const response: APIResponse = { success: false, error: filter };
+        return c.json(response, 400);
+      }
+
+      const limit = parseInt(c.req.query("limit") || "50", 10);
+      const offset = parseInt(c.req.query("offset") || "0", 10);
+      if (isNaN(limit) || limit < 1 || limit > 500 || isNaN(offset) || offset < 0) {
+        const response: APIResponse = {
+          success: false,
+          error: "'limit' must be 1-500 and 'offset' non-negative",
+        };
+        return c.json(response, 400);
+      }
+
+      const response: APIResponse<{ entries: AuditEntry[]; total: number }> = {
+        success: true,
+        data: auditLog.list({ ...filter, limit, offset }),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Download the filtered entries as CSV or JSON
+  app.get("/export", (c) => {
+    try {
+      const filter = parseFilter(c.req.query());
+      if (typeof filter === "string") {
+        const response: APIResponse = { success: false, error: filter };
+        return c.json(response, 400);
+      }
+
+      const format = c.req.query("format") || "json";
+      if (format !== "json" && format !== "csv") {
+        const response: APIResponse = { success: false, error: "'format' must be json or csv" };
+        return c.json(response, 400);
+      }
+
+      const { entries } = auditLog.list({ ...filter, limit: MAX_EXPORT_ROWS });
+      const filename = `teleton-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      c.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+      if (format === "csv") {
+        c.header("Content-Type", "text/csv; charset=utf-8");
+        return c.body(toCsv(entries));
+      }
+      return c.json(entries);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Recompute the hash chain
+  app.get("/verify", (c) => {
+    try {
+      const response: APIResponse<AuditVerification> = {
+        success: true,
+        data: auditLog.verify(),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  return app;
+}
@@ -1,8 +1,11 @@
 import { Hono } from "hono";
-import type { WebUIServerDeps, APIResponse } from "../types.js";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import { auditActor } from "../accounts.js";
+import { audit } from "../../memory/audit-log.js";
 import {
   CONFIGURABLE_KEYS,
   getNestedValue,
+  getMaskedValue,
   setNestedValue,
   deleteNestedValue,
   readRawConfig,
@@ -22,7 +25,7 @@ interface ConfigKeyData {
 }
 
 export function createConfigRoutes(deps: WebUIServerDeps) {
-  const app = new Hono();
+  const app = new Hono<WebUIEnv>();
 
   // List all configurable keys with masked values
   app.get("/", (c) => {
@@ -95,8 +98,16 @@ export function createConfigRoutes(deps: WebUIServerDeps) {
     try {
       const parsed = meta.parse(value);
       const raw = readRawConfig(deps.configPath);
+      const before = getMaskedValue(raw, key, meta);
       setNestedValue(raw, key, parsed);
       writeRawConfig(raw, deps.configPath);
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "config.set",
+        target: key,
+        before,
+        after: meta.mask(value),
+      });
 
       // Update runtime config for immediate effect
       const runtimeConfig = deps.agent.getConfig() as Record<string, any>;
@@ -138,8 +149,16 @@ export function createConfigRoutes(deps: WebUIServerDeps) {
 
     try {
       const raw = readRawConfig(deps.configPath);
+      const before = getMaskedValue(raw, key, meta);
       deleteNestedValue(raw, key);
       writeRawConfig(raw, deps.configPath);
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "config.unset",
+        target: key,
+        before,
+        after: null,
+      });
 
       // Clear from runtime config
       const runtimeConfig = deps.agent.getConfig() as Record<string, any>;
@@ -0,0 +1,70 @@
+import { Hono } from "hono";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import { getMemoryEraser, type ErasureReport } from "../../memory/erasure.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+export function createErasureRoutes(_deps: WebUIServerDeps) {
+  const app = new Hono<WebUIEnv>();
+
+  // Erasure and retention reports, newest first
+  app.get("/", (c) => {
+    try {
+      const eraser = getMemoryEraser();
+      if (!eraser) throw new Error("Erasure not available");
+
+      const limit = parseInt(c.req.query("limit") || "50", 10);
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        const response: APIResponse = { success: false, error: "'limit' must be 1-500" };
+        return c.json(response, 400);
+      }
+
+      const response: APIResponse<ErasureReport[]> = {
+        success: true,
+        data: eraser.listReports(limit),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Forget a user (@username or ID) or a chat
+  app.post("/", async (c) => {
+    try {
+      const eraser = getMemoryEraser();
+      if (!eraser) throw new Error("Erasure not available");
+
+      const body = await c.req.json<{ kind?: string; subject?: string }>();
+      const subject = body.subject?.trim();
+      if ((body.kind !== "user" && body.kind !== "chat") || !subject) {
+        const response: APIResponse = {
+          success: false,
+          error: "'kind' must be 'user' or 'chat' and 'subject' is required",
+        };
+        return c.json(response, 400);
+      }
+
+      const requestedBy = `webui:${c.get("actor").username}`;
+      let report: ErasureReport;
+      if (body.kind === "chat") {
+        report = eraser.forgetChat(subject, requestedBy);
+      } else {
+        const user = eraser.resolveUser(subject);
+        if (!user) {
+          const response: APIResponse = { success: false, error: `Unknown user: ${subject}` };
+          return c.json(response, 404);
+        }
+        report = eraser.forgetUser(user.id, requestedBy);
+      }
+
+      const response: APIResponse<ErasureReport> = { success: true, data: report };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  return app;
+}
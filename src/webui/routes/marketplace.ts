@@ -1,13 +1,33 @@
-import { Hono } from "hono";
-import type { WebUIServerDeps, APIResponse, MarketplacePlugin } from "../types.js";
-import { MarketplaceService, ConflictError } from "../services/marketplace.js";
+import { Hono, type Context } from "hono";
+import type { PluginPermissions } from "../../agent/tools/plugin-validator.js";
+import type { WebUIServerDeps, WebUIEnv, APIResponse, MarketplacePlugin } from "../types.js";
+import { auditActor } from "../accounts.js";
+import { audit } from "../../memory/audit-log.js";
+import {
+  MarketplaceService,
+  ConflictError,
+  ConsentRequiredError,
+} from "../services/marketplace.js";
+import { IntegrityError } from "../services/plugin-integrity.js";
 import { writePluginSecret, deletePluginSecret, listPluginSecretKeys } from "../../sdk/secrets.js";
 
 const VALID_ID = /^[a-z0-9][a-z0-9-]*$/;
 const VALID_KEY = /^[a-zA-Z][a-zA-Z0-9_]*$/;
 
+/** 428: the client must show the permissions and retry with the accepted set */
+function consentRequired(c: Context<WebUIEnv>, err: ConsentRequiredError) {
+  return c.json<APIResponse<{ permissions: PluginPermissions; permissionSummary: string[] }>>(
+    {
+      success: false,
+      error: err.message,
+      data: { permissions: err.permissions, permissionSummary: err.summary },
+    },
+    428
+  );
+}
+
 export function createMarketplaceRoutes(deps: WebUIServerDeps) {
-  const app = new Hono();
+  const app = new Hono<WebUIEnv>();
   let service: MarketplaceService | null = null;
 
   const getService = () => {
@@ -43,12 +63,12 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
     }
 
     try {
-      const body = await c.req.json<{ id: string }>();
+      const body = await c.req.json<{ id: string; permissions?: unknown }>();
       if (!body.id) {
         return c.json<APIResponse>({ success: false, error: "Missing plugin id" }, 400);
       }
 
-      const result = await svc.installPlugin(body.id);
+      const result = await svc.installPlugin(body.id, body.permissions);
       // Update plugins list for the existing /api/plugins route
       deps.plugins.length = 0;
       deps.plugins.push(
@@ -58,7 +78,8 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
       );
       return c.json<APIResponse<typeof result>>({ success: true, data: result });
     } catch (err) {
-      const status = err instanceof ConflictError ? 409 : 500;
+      if (err instanceof ConsentRequiredError) return consentRequired(c, err);
+      const status = err instanceof ConflictError ? 409 : err instanceof IntegrityError ? 422 : 500;
       return c.json<APIResponse>(
         { success: false, error: err instanceof Error ? err.message : String(err) },
         status
@@ -89,7 +110,7 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
       );
       return c.json<APIResponse<typeof result>>({ success: true, data: result });
     } catch (err) {
-      const status = err instanceof ConflictError ? 409 : 500;
+      const status = err instanceof ConflictError ? 409 : err instanceof IntegrityError ? 422 : 500;
       return c.json<APIResponse>(
         { success: false, error: err instanceof Error ? err.message : String(err) },
         status
@@ -105,12 +126,12 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
     }
 
     try {
-      const body = await c.req.json<{ id: string }>();
+      const body = await c.req.json<{ id: string; permissions?: unknown }>();
       if (!body.id) {
         return c.json<APIResponse>({ success: false, error: "Missing plugin id" }, 400);
       }
 
-      const result = await svc.updatePlugin(body.id);
+      const result = await svc.updatePlugin(body.id, body.permissions);
       // Update plugins list
       deps.plugins.length = 0;
       deps.plugins.push(
@@ -120,7 +141,27 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
       );
       return c.json<APIResponse<typeof result>>({ success: true, data: result });
     } catch (err) {
-      const status = err instanceof ConflictError ? 409 : 500;
+      if (err instanceof ConsentRequiredError) return consentRequired(c, err);
+      const status = err instanceof ConflictError ? 409 : err instanceof IntegrityError ? 422 : 500;
+      return c.json<APIResponse>(
+        { success: false, error: err instanceof Error ? err.message : String(err) },
+        status
+      );
+    }
+  });
+
+  // GET /update-preview/:pluginId — what an update would change
+  app.get("/update-preview/:pluginId", async (c) => {
+    const svc = getService();
+    if (!svc) {
+      return c.json<APIResponse>({ success: false, error: "Marketplace not configured" }, 501);
+    }
+
+    try {
+      const preview = await svc.previewUpdate(c.req.param("pluginId"));
+      return c.json<APIResponse<typeof preview>>({ success: true, data: preview });
+    } catch (err) {
+      const status = err instanceof IntegrityError ? 422 : 500;
       return c.json<APIResponse>(
         { success: false, error: err instanceof Error ? err.message : String(err) },
         status
@@ -179,6 +220,11 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
         return c.json<APIResponse>({ success: false, error: "Missing or invalid value" }, 400);
       }
       writePluginSecret(pluginId, key, body.value);
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "plugin.secret.set",
+        target: `${pluginId}/${key}`,
+      });
       return c.json<APIResponse<{ key: string; set: boolean }>>({
         success: true,
         data: { key, set: true },
@@ -206,7 +252,14 @@ export function createMarketplaceRoutes(deps: WebUIServerDeps) {
     }
 
     try {
-      deletePluginSecret(pluginId, key);
+      const deleted = deletePluginSecret(pluginId, key);
+      if (deleted) {
+        audit({
+          ...auditActor(c.get("actor")),
+          action: "plugin.secret.unset",
+          target: `${pluginId}/${key}`,
+        });
+      }
       return c.json<APIResponse<{ key: string; set: boolean }>>({
         success: true,
         data: { key, set: false },
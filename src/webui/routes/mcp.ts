@@ -1,5 +1,7 @@
 import { Hono } from "hono";
-import type { WebUIServerDeps, APIResponse, McpServerInfo } from "../types.js";
+import type { WebUIServerDeps, WebUIEnv, APIResponse, McpServerInfo } from "../types.js";
+import { auditActor } from "../accounts.js";
+import { audit } from "../../memory/audit-log.js";
 import { readRawConfig, writeRawConfig } from "../../config/configurable-keys.js";
 import { getErrorMessage } from "../../utils/errors.js";
 
@@ -7,14 +9,20 @@ import { getErrorMessage } from "../../utils/errors.js";
 const SAFE_PACKAGE_RE = /^[@a-zA-Z0-9._\/-]+$/;
 const SAFE_ARG_RE = /^[a-zA-Z0-9._\/:=@-]+$/;
 
+/** Server entry for the audit log: env var names only, never their values */
+function auditedEntry(entry: Record<string, unknown>): Record<string, unknown> {
+  const { env, ...rest } = entry;
+  return env && typeof env === "object" ? { ...rest, env: Object.keys(env) } : rest;
+}
+
 export function createMcpRoutes(deps: WebUIServerDeps) {
-  const app = new Hono();
+  const app = new Hono<WebUIEnv>();
 
-  // List all MCP servers with their connection status and tools
+  // List all MCP servers with their connection health and tools
   app.get("/", (c) => {
     const response: APIResponse<McpServerInfo[]> = {
       success: true,
-      data: deps.mcpServers,
+      data: deps.mcpServers(),
     };
     return c.json(response);
   });
@@ -90,6 +98,13 @@ export function createMcpRoutes(deps: WebUIServerDeps) {
 
       servers[serverName] = entry;
       writeRawConfig(raw, deps.configPath);
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "mcp.add",
+        target: serverName,
+        before: null,
+        after: auditedEntry(entry),
+      });
 
       return c.json({
         success: true,
@@ -122,8 +137,16 @@ export function createMcpRoutes(deps: WebUIServerDeps) {
         );
       }
 
+      const removed = servers[name] as Record<string, unknown>;
       delete servers[name];
       writeRawConfig(raw, deps.configPath);
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "mcp.remove",
+        target: name,
+        before: auditedEntry(removed),
+        after: null,
+      });
 
       return c.json({
         success: true,
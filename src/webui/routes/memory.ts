@@ -1,6 +1,25 @@
 import { Hono } from "hono";
 import type { WebUIServerDeps, MemorySearchResult, SessionInfo, APIResponse } from "../types.js";
 import { getErrorMessage } from "../../utils/errors.js";
+import type { MemoryFact, MemoryProfile } from "../../memory/agent/profiles.js";
+
+/** Same cap as the memory_write tool */
+const MAX_FACT_LENGTH = 2000;
+
+function isProfileScope(scope: string): scope is MemoryFact["scope"] {
+  return scope === "user" || scope === "chat";
+}
+
+/** Validate a `{ text }` body; returns the trimmed text or an error message */
+function parseFactText(body: { text?: unknown }): { text: string } | { error: string } {
+  if (typeof body.text !== "string" || !body.text.trim()) {
+    return { error: "Request body must contain a non-empty 'text' field" };
+  }
+  if (body.text.length > MAX_FACT_LENGTH) {
+    return { error: `Fact too long. Maximum ${MAX_FACT_LENGTH} characters.` };
+  }
+  return { text: body.text.trim() };
+}
 
 export function createMemoryRoutes(deps: WebUIServerDeps) {
   const app = new Hono();
@@ -157,5 +176,138 @@ export function createMemoryRoutes(deps: WebUIServerDeps) {
     }
   });
 
+  // List users and chats that have memory facts
+  app.get("/profiles", (c) => {
+    try {
+      const response: APIResponse<MemoryProfile[]> = {
+        success: true,
+        data: deps.memory.profiles.listProfiles(),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Facts about one user or chat
+  app.get("/profiles/:scope/:subjectId", (c) => {
+    try {
+      const scope = c.req.param("scope");
+      if (!isProfileScope(scope)) {
+        const response: APIResponse = { success: false, error: "Scope must be 'user' or 'chat'" };
+        return c.json(response, 400);
+      }
+
+      const response: APIResponse<MemoryFact[]> = {
+        success: true,
+        data: deps.memory.profiles.listFacts(scope, c.req.param("subjectId")),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Add a fact to a profile
+  app.post("/profiles/:scope/:subjectId", async (c) => {
+    try {
+      const scope = c.req.param("scope");
+      if (!isProfileScope(scope)) {
+        const response: APIResponse = { success: false, error: "Scope must be 'user' or 'chat'" };
+        return c.json(response, 400);
+      }
+
+      const parsed = parseFactText(await c.req.json<{ text?: unknown }>());
+      if ("error" in parsed) {
+        const response: APIResponse = { success: false, error: parsed.error };
+        return c.json(response, 400);
+      }
+
+      const fact = await deps.memory.profiles.addFact(scope, c.req.param("subjectId"), parsed.text);
+      const response: APIResponse<MemoryFact> = { success: true, data: fact };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Delete a whole profile
+  app.delete("/profiles/:scope/:subjectId", (c) => {
+    try {
+      const scope = c.req.param("scope");
+      if (!isProfileScope(scope)) {
+        const response: APIResponse = { success: false, error: "Scope must be 'user' or 'chat'" };
+        return c.json(response, 400);
+      }
+
+      const deleted = deps.memory.profiles.deleteProfile(scope, c.req.param("subjectId"));
+      const response: APIResponse = { success: true, data: { deleted } };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Edit a fact
+  app.put("/facts/:id", async (c) => {
+    try {
+      const parsed = parseFactText(await c.req.json<{ text?: unknown }>());
+      if ("error" in parsed) {
+        const response: APIResponse = { success: false, error: parsed.error };
+        return c.json(response, 400);
+      }
+
+      const fact = await deps.memory.profiles.updateFact(c.req.param("id"), parsed.text);
+      if (!fact) {
+        const response: APIResponse = { success: false, error: "Fact not found" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse<MemoryFact> = { success: true, data: fact };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Delete a fact
+  app.delete("/facts/:id", (c) => {
+    try {
+      if (!deps.memory.profiles.deleteFact(c.req.param("id"))) {
+        const response: APIResponse = { success: false, error: "Fact not found" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse = { success: true, data: { message: "Fact deleted" } };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
   return app;
 }
@@ -0,0 +1,92 @@
+import { Hono } from "hono";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import type { PairingStore, PairingRequest, PairedPeer } from "../../telegram/pairing-store.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+export interface PairingOverview {
+  pending: PairingRequest[];
+  approved: PairedPeer[];
+}
+
+export function createPairingRoutes(deps: WebUIServerDeps) {
+  const app = new Hono<WebUIEnv>();
+
+  // Pairing store is only wired when the agent runs (not in setup mode)
+  function store(): PairingStore {
+    if (!deps.pairing) throw new Error("Pairing store not available");
+    return deps.pairing;
+  }
+
+  // List pending codes and approved peers
+  app.get("/", (c) => {
+    try {
+      const response: APIResponse<PairingOverview> = {
+        success: true,
+        data: { pending: store().listPending(), approved: store().listApproved() },
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Approve a pending code
+  app.post("/approve", async (c) => {
+    try {
+      const body = await c.req.json<{ code?: string }>();
+      if (!body.code) {
+        const response: APIResponse = { success: false, error: "Missing 'code'" };
+        return c.json(response, 400);
+      }
+
+      const paired = store().approve(body.code, `webui:${c.get("actor").username}`);
+      if (!paired) {
+        const response: APIResponse = { success: false, error: "Unknown or expired code" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse<PairedPeer> = { success: true, data: paired };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Deny a pending code
+  app.post("/deny", async (c) => {
+    try {
+      const body = await c.req.json<{ code?: string }>();
+      if (!body.code || !store().deny(body.code)) {
+        const response: APIResponse = { success: false, error: "Unknown or expired code" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse = { success: true, data: { message: "Request denied" } };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // Revoke an approved peer
+  app.delete("/:peerId", (c) => {
+    try {
+      const peerId = parseInt(c.req.param("peerId"), 10);
+      if (isNaN(peerId) || !store().revoke(peerId)) {
+        const response: APIResponse = { success: false, error: "Peer not paired" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse = { success: true, data: { message: "Pairing revoked" } };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  return app;
+}
@@ -318,7 +318,7 @@ export function createSetupRoutes(): Hono {
   app.post("/wallet/generate", async (c) => {
     try {
       const wallet = await generateWallet();
-      saveWallet(wallet);
+      await saveWallet(wallet);
       log.info("New TON wallet generated via setup UI");
       return c.json({
         success: true,
@@ -342,7 +342,7 @@ export function createSetupRoutes(): Hono {
       }
 
       const wallet = await importWallet(words);
-      saveWallet(wallet);
+      await saveWallet(wallet);
       log.info("TON wallet imported via setup UI");
       return c.json({ success: true, data: { address: wallet.address } });
     } catch (err) {
@@ -20,6 +20,7 @@ export function createStatusRoutes(deps: WebUIServerDeps) {
         provider: config.agent.provider,
         sessionCount: sessionCountRow?.count ?? 0,
         toolCount: deps.toolRegistry.getAll().length,
+        lastModel: deps.agent.getLastModel(),
       };
 
       const response: APIResponse<StatusResponse> = {
@@ -1,9 +1,24 @@
 import { Hono } from "hono";
 import type { WebUIServerDeps, APIResponse } from "../types.js";
-import { getTaskStore, type TaskStatus } from "../../memory/agent/tasks.js";
+import {
+  getTaskStore,
+  type Task,
+  type TaskRun,
+  type TaskStatus,
+} from "../../memory/agent/tasks.js";
+import { describeRecurrence } from "../../memory/agent/task-recurrence.js";
 import { getErrorMessage } from "../../utils/errors.js";
 
 const VALID_STATUSES: TaskStatus[] = ["pending", "in_progress", "done", "failed", "cancelled"];
+const RECENT_RUNS = 10;
+
+function serializeRun(run: TaskRun) {
+  return {
+    ...run,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+  };
+}
 
 export function createTasksRoutes(deps: WebUIServerDeps) {
   const app = new Hono();
@@ -12,6 +27,23 @@ export function createTasksRoutes(deps: WebUIServerDeps) {
     return getTaskStore(deps.memory.db);
   }
 
+  // Serialize dates and attach dependency info, schedule and recent runs
+  function enrich(t: Task) {
+    const active = t.status === "pending" || t.status === "in_progress";
+    return {
+      ...t,
+      createdAt: t.createdAt.toISOString(),
+      startedAt: t.startedAt?.toISOString() ?? null,
+      completedAt: t.completedAt?.toISOString() ?? null,
+      scheduledFor: t.scheduledFor?.toISOString() ?? null,
+      nextRunAt: active && !t.paused ? (t.scheduledFor?.toISOString() ?? null) : null,
+      recurrenceLabel: t.recurrence ? describeRecurrence(t.recurrence) : null,
+      dependencies: store().getDependencies(t.id),
+      dependents: store().getDependents(t.id),
+      runs: store().listRuns(t.id, RECENT_RUNS).map(serializeRun),
+    };
+  }
+
   // List tasks (optional ?status= filter)
   app.get("/", (c) => {
     try {
@@ -20,16 +52,7 @@ export function createTasksRoutes(deps: WebUIServerDeps) {
 
       const tasks = store().listTasks(filter);
 
-      // Enrich with dependency info
-      const enriched = tasks.map((t) => ({
-        ...t,
-        createdAt: t.createdAt.toISOString(),
-        startedAt: t.startedAt?.toISOString() ?? null,
-        completedAt: t.completedAt?.toISOString() ?? null,
-        scheduledFor: t.scheduledFor?.toISOString() ?? null,
-        dependencies: store().getDependencies(t.id),
-        dependents: store().getDependents(t.id),
-      }));
+      const enriched = tasks.map(enrich);
 
       const response: APIResponse = { success: true, data: enriched };
       return c.json(response);
@@ -51,17 +74,7 @@ export function createTasksRoutes(deps: WebUIServerDeps) {
         return c.json(response, 404);
       }
 
-      const enriched = {
-        ...task,
-        createdAt: task.createdAt.toISOString(),
-        startedAt: task.startedAt?.toISOString() ?? null,
-        completedAt: task.completedAt?.toISOString() ?? null,
-        scheduledFor: task.scheduledFor?.toISOString() ?? null,
-        dependencies: store().getDependencies(task.id),
-        dependents: store().getDependents(task.id),
-      };
-
-      const response: APIResponse = { success: true, data: enriched };
+      const response: APIResponse = { success: true, data: enrich(task) };
       return c.json(response);
     } catch (error) {
       const response: APIResponse = {
@@ -132,5 +145,58 @@ export function createTasksRoutes(deps: WebUIServerDeps) {
     }
   });
 
+  // Run history (?limit=, default 50)
+  app.get("/:id/runs", (c) => {
+    try {
+      const task = store().getTask(c.req.param("id"));
+      if (!task) {
+        const response: APIResponse = { success: false, error: "Task not found" };
+        return c.json(response, 404);
+      }
+
+      const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50", 10) || 50, 1), 500);
+      const runs = store().listRuns(task.id, limit).map(serializeRun);
+
+      const response: APIResponse = { success: true, data: runs };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = {
+        success: false,
+        error: getErrorMessage(error),
+      };
+      return c.json(response, 500);
+    }
+  });
+
+  // Pause / resume a recurring task
+  for (const action of ["pause", "resume"] as const) {
+    app.post(`/:id/${action}`, (c) => {
+      try {
+        const task = store().getTask(c.req.param("id"));
+        if (!task) {
+          const response: APIResponse = { success: false, error: "Task not found" };
+          return c.json(response, 404);
+        }
+        if (!task.recurrence) {
+          const response: APIResponse = {
+            success: false,
+            error: "Only recurring tasks can be paused",
+          };
+          return c.json(response, 400);
+        }
+
+        const updated = store().setPaused(task.id, action === "pause");
+        const response: APIResponse = { success: true, data: updated && enrich(updated) };
+        return c.json(response);
+      } catch (error) {
+        const response: APIResponse = {
+          success: false,
+          error: getErrorMessage(error),
+        };
+        return c.json(response, 500);
+      }
+    });
+  }
+
   return app;
 }
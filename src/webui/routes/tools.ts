@@ -1,9 +1,11 @@
 import { Hono } from "hono";
-import type { WebUIServerDeps, ToolInfo, ModuleInfo, APIResponse } from "../types.js";
+import type { WebUIServerDeps, WebUIEnv, ToolInfo, ModuleInfo, APIResponse } from "../types.js";
+import { auditActor } from "../accounts.js";
+import { audit } from "../../memory/audit-log.js";
 import { getErrorMessage } from "../../utils/errors.js";
 
 export function createToolsRoutes(deps: WebUIServerDeps) {
-  const app = new Hono();
+  const app = new Hono<WebUIEnv>();
 
   // Get all tools grouped by module
   app.get("/", (c) => {
@@ -87,6 +89,7 @@ export function createToolsRoutes(deps: WebUIServerDeps) {
       const config = deps.agent.getConfig();
       const body = await c.req.json();
       const { enabled, topK } = body as { enabled?: boolean; topK?: number };
+      const before = { enabled: config.tool_rag.enabled, top_k: config.tool_rag.top_k };
 
       if (enabled !== undefined) {
         config.tool_rag.enabled = enabled;
@@ -97,6 +100,13 @@ export function createToolsRoutes(deps: WebUIServerDeps) {
         }
         config.tool_rag.top_k = topK;
       }
+      audit({
+        ...auditActor(c.get("actor")),
+        action: "config.set",
+        target: "tool_rag",
+        before,
+        after: { enabled: config.tool_rag.enabled, top_k: config.tool_rag.top_k },
+      });
 
       const toolIndex = deps.toolRegistry.getToolIndex();
       const response: APIResponse = {
@@ -144,7 +154,12 @@ export function createToolsRoutes(deps: WebUIServerDeps) {
 
       // Update enabled status if provided
       if (enabled !== undefined) {
-        const success = deps.toolRegistry.setToolEnabled(toolName, enabled);
+        const success = deps.toolRegistry.setToolEnabled(
+          toolName,
+          enabled,
+          undefined,
+          auditActor(c.get("actor"))
+        );
         if (!success) {
           const response: APIResponse = {
             success: false,
@@ -158,7 +173,9 @@ export function createToolsRoutes(deps: WebUIServerDeps) {
       if (scope !== undefined) {
         const success = deps.toolRegistry.updateToolScope(
           toolName,
-          scope as "always" | "dm-only" | "group-only" | "admin-only"
+          scope as "always" | "dm-only" | "group-only" | "admin-only",
+          undefined,
+          auditActor(c.get("actor"))
         );
         if (!success) {
           const response: APIResponse = {
@@ -0,0 +1,84 @@
+import { Hono } from "hono";
+import type { WebUIServerDeps, WebUIEnv, APIResponse } from "../types.js";
+import {
+  getTracer,
+  readTraceFromFile,
+  traceFilePath,
+  type SpanData,
+  type TraceFilter,
+  type TraceSummary,
+} from "../../tracing/index.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+const TRACE_ID_RE = /^[0-9a-f]{32}$/;
+
+export function createTracesRoutes(deps: WebUIServerDeps) {
+  const app = new Hono<WebUIEnv>();
+
+  // Recent traces, newest first
+  app.get("/", (c) => {
+    try {
+      const limit = parseInt(c.req.query("limit") || "50", 10);
+      if (isNaN(limit) || limit < 1 || limit > 500) {
+        const response: APIResponse = { success: false, error: "'limit' must be 1-500" };
+        return c.json(response, 400);
+      }
+
+      const filter: TraceFilter = { limit };
+      const chatId = c.req.query("chat_id");
+      if (chatId) filter.chatId = chatId;
+      const messageId = c.req.query("message_id");
+      if (messageId) {
+        const id = Number(messageId);
+        if (!Number.isInteger(id)) {
+          const response: APIResponse = {
+            success: false,
+            error: "'message_id' must be an integer",
+          };
+          return c.json(response, 400);
+        }
+        filter.messageId = id;
+      }
+
+      const tracer = getTracer();
+      const response: APIResponse<{ enabled: boolean; traces: TraceSummary[] }> = {
+        success: true,
+        data: { enabled: tracer !== null, traces: tracer?.listTraces(filter) ?? [] },
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  // All spans of one trace, in start order. Falls back to the span file
+  // for traces that have left the in-memory buffer.
+  app.get("/:traceId", async (c) => {
+    try {
+      const traceId = c.req.param("traceId");
+      if (!TRACE_ID_RE.test(traceId)) {
+        const response: APIResponse = { success: false, error: "Invalid trace id" };
+        return c.json(response, 400);
+      }
+
+      let spans: SpanData[] | null = getTracer()?.getTrace(traceId) ?? null;
+      const config = deps.agent.getConfig().tracing;
+      if (!spans && config.exporter === "file") {
+        spans = await readTraceFromFile(traceFilePath(config), traceId);
+      }
+      if (!spans || spans.length === 0) {
+        const response: APIResponse = { success: false, error: "Trace not found" };
+        return c.json(response, 404);
+      }
+
+      const response: APIResponse<SpanData[]> = { success: true, data: spans };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  return app;
+}
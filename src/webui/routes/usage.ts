@@ -0,0 +1,33 @@
+import { Hono } from "hono";
+import type { WebUIServerDeps, APIResponse } from "../types.js";
+import { getUsageTracker, type UsageSummary } from "../../agent/usage-tracker.js";
+import { getErrorMessage } from "../../utils/errors.js";
+
+export function createUsageRoutes(_deps: WebUIServerDeps) {
+  const app = new Hono();
+
+  // Cost report for the last N days (default 30)
+  app.get("/", (c) => {
+    try {
+      const tracker = getUsageTracker();
+      if (!tracker) throw new Error("Usage tracking not available");
+
+      const days = parseInt(c.req.query("days") || "30", 10);
+      if (isNaN(days) || days < 1 || days > 365) {
+        const response: APIResponse = { success: false, error: "'days' must be 1-365" };
+        return c.json(response, 400);
+      }
+
+      const response: APIResponse<UsageSummary> = {
+        success: true,
+        data: tracker.getSummary(days),
+      };
+      return c.json(response);
+    } catch (error) {
+      const response: APIResponse = { success: false, error: getErrorMessage(error) };
+      return c.json(response, 500);
+    }
+  });
+
+  return app;
+}
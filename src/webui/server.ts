@@ -1,4 +1,4 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { serve } from "@hono/node-server";
 import { cors } from "hono/cors";
 import { bodyLimit } from "hono/body-limit";
@@ -6,7 +6,7 @@ import { setCookie, getCookie, deleteCookie } from "hono/cookie";
 import { existsSync, readFileSync } from "node:fs";
 import { join, dirname, resolve, relative } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { WebUIServerDeps } from "./types.js";
+import type { WebUIServerDeps, WebUIEnv } from "./types.js";
 import { createLogger } from "../utils/logger.js";
 
 const log = createLogger("WebUI");
@@ -17,6 +17,16 @@ import {
   COOKIE_NAME,
   COOKIE_MAX_AGE,
 } from "./middleware/auth.js";
+import { requiredRole, isMutatingMethod } from "./middleware/roles.js";
+import {
+  AccountStore,
+  LoginError,
+  TOKEN_ACTOR,
+  auditActor,
+  hasRole,
+  type WebUIActor,
+} from "./accounts.js";
+import { audit } from "../memory/audit-log.js";
 import { logInterceptor } from "./log-interceptor.js";
 import { createStatusRoutes } from "./routes/status.js";
 import { createToolsRoutes } from "./routes/tools.js";
@@ -29,6 +39,12 @@ import { createWorkspaceRoutes } from "./routes/workspace.js";
 import { createTasksRoutes } from "./routes/tasks.js";
 import { createConfigRoutes } from "./routes/config.js";
 import { createMarketplaceRoutes } from "./routes/marketplace.js";
+import { createPairingRoutes } from "./routes/pairing.js";
+import { createUsageRoutes } from "./routes/usage.js";
+import { createErasureRoutes } from "./routes/erasure.js";
+import { createAccountsRoutes } from "./routes/accounts.js";
+import { createAuditRoutes } from "./routes/audit.js";
+import { createTracesRoutes } from "./routes/traces.js";
 
 function findWebDist(): string | null {
   // Try common locations relative to CWD (where teleton is launched from)
@@ -52,14 +68,16 @@ function findWebDist(): string | null {
 }
 
 export class WebUIServer {
-  private app: Hono;
+  private app: Hono<WebUIEnv>;
   private server: ReturnType<typeof serve> | null = null;
   private deps: WebUIServerDeps;
   private authToken: string;
+  private accounts: AccountStore;
 
   constructor(deps: WebUIServerDeps) {
     this.deps = deps;
-    this.app = new Hono();
+    this.app = new Hono<WebUIEnv>();
+    this.accounts = new AccountStore(deps.memory.db);
 
     // Generate or use configured auth token
     this.authToken = deps.config.auth_token || generateToken();
@@ -68,9 +86,9 @@ export class WebUIServer {
     this.setupRoutes();
   }
 
-  /** Set an HttpOnly session cookie */
-  private setSessionCookie(c: any): void {
-    setCookie(c, COOKIE_NAME, this.authToken, {
+  /** Set an HttpOnly session cookie (the shared token, or an account session) */
+  private setSessionCookie(c: Context, value: string = this.authToken): void {
+    setCookie(c, COOKIE_NAME, value, {
       path: "/",
       httpOnly: true,
       sameSite: "Strict",
@@ -120,33 +138,54 @@ export class WebUIServer {
     });
 
     // Auth for all /api/* routes
-    // Accepts: HttpOnly cookie > Bearer header > ?token= query param (fallback)
+    // Accepts: HttpOnly cookie > Bearer header > ?token= query param (shared token only)
     this.app.use("/api/*", async (c, next) => {
-      // 1. Check HttpOnly session cookie (primary — browser)
-      const cookieToken = getCookie(c, COOKIE_NAME);
-      if (cookieToken && safeCompare(cookieToken, this.authToken)) {
-        return next();
-      }
+      const bearer = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const queryToken = c.req.query("token");
+      const actor =
+        this.authenticate(getCookie(c, COOKIE_NAME)) ??
+        this.authenticate(bearer) ??
+        (queryToken && this.isSharedToken(queryToken) ? TOKEN_ACTOR : null);
 
-      // 2. Check Authorization header (secondary — API/curl)
-      const authHeader = c.req.header("Authorization");
-      if (authHeader) {
-        const match = authHeader.match(/^Bearer\s+(.+)$/i);
-        if (match && safeCompare(match[1], this.authToken)) {
-          return next();
-        }
+      if (!actor) {
+        return c.json({ success: false, error: "Unauthorized" }, 401);
       }
 
-      // 3. Check ?token= query param (fallback — backward compat)
-      const queryToken = c.req.query("token");
-      if (queryToken && safeCompare(queryToken, this.authToken)) {
-        return next();
+      const required = requiredRole(c.req.method, c.req.path);
+      if (!hasRole(actor.role, required)) {
+        return c.json({ success: false, error: `Forbidden: requires ${required} role` }, 403);
       }
 
-      return c.json({ success: false, error: "Unauthorized" }, 401);
+      c.set("actor", actor);
+      await next();
+
+      if (isMutatingMethod(c.req.method)) {
+        audit({
+          ...auditActor(actor),
+          action: "api.request",
+          target: c.req.path,
+          details: { method: c.req.method, status: c.res.status, role: actor.role },
+        });
+      }
     });
   }
 
+  /**
+   * The shared auth token is accepted while webui.token_auth is on, and
+   * always while no admin account exists (so nobody is locked out).
+   */
+  private isSharedToken(token: string): boolean {
+    if (!safeCompare(token, this.authToken)) return false;
+    return this.deps.config.token_auth || !this.accounts.hasAdmin();
+  }
+
+  /** Resolve a cookie or bearer value: the shared token, or an account session */
+  private authenticate(token: string | undefined): WebUIActor | null {
+    if (!token) return null;
+    if (this.isSharedToken(token)) return TOKEN_ACTOR;
+    return this.accounts.resolveSession(token);
+  }
+
   private setupRoutes() {
     // Health check (no auth)
     this.app.get("/health", (c) => c.json({ status: "ok" }));
@@ -156,7 +195,7 @@ export class WebUIServer {
     // Token exchange: browser opens with ?token=, gets HttpOnly cookie, redirects to /
     this.app.get("/auth/exchange", (c) => {
       const token = c.req.query("token");
-      if (!token || !safeCompare(token, this.authToken)) {
+      if (!token || !this.isSharedToken(token)) {
         return c.json({ success: false, error: "Invalid token" }, 401);
       }
 
@@ -164,32 +203,67 @@ export class WebUIServer {
       return c.redirect("/");
     });
 
-    // Manual login: POST with token, get cookie
+    // Login with the shared token ({ token }) or an account ({ username, password, totp? })
     this.app.post("/auth/login", async (c) => {
+      let body: { token?: string; username?: string; password?: string; totp?: string };
       try {
-        const body = await c.req.json<{ token: string }>();
-        if (!body.token || !safeCompare(body.token, this.authToken)) {
+        body = await c.req.json();
+      } catch {
+        return c.json({ success: false, error: "Invalid request body" }, 400);
+      }
+
+      if (body.token !== undefined) {
+        if (!body.token || !this.isSharedToken(body.token)) {
           return c.json({ success: false, error: "Invalid token" }, 401);
         }
-
         this.setSessionCookie(c);
-        return c.json({ success: true });
-      } catch {
-        return c.json({ success: false, error: "Invalid request body" }, 400);
+        return c.json({
+          success: true,
+          data: { username: TOKEN_ACTOR.username, role: TOKEN_ACTOR.role },
+        });
+      }
+
+      try {
+        const { token, account } = await this.accounts.login(
+          body.username ?? "",
+          body.password ?? "",
+          body.totp
+        );
+        this.setSessionCookie(c, token);
+        log.info(`WebUI login: ${account.username} (${account.role})`);
+        return c.json({ success: true, data: { username: account.username, role: account.role } });
+      } catch (error) {
+        if (error instanceof LoginError) {
+          log.warn(`WebUI login failed for "${body.username ?? ""}": ${error.message}`);
+          return c.json(
+            { success: false, error: error.message, data: { totpRequired: error.totpRequired } },
+            401
+          );
+        }
+        throw error;
       }
     });
 
-    // Logout: clear cookie
+    // Logout: end the account session and clear cookie
     this.app.post("/auth/logout", (c) => {
+      const cookieToken = getCookie(c, COOKIE_NAME);
+      if (cookieToken && !safeCompare(cookieToken, this.authToken)) {
+        this.accounts.logout(cookieToken);
+      }
       deleteCookie(c, COOKIE_NAME, { path: "/" });
       return c.json({ success: true });
     });
 
-    // Check auth status (no auth required — returns whether cookie is valid)
+    // Check auth status (no auth required — returns whether cookie is valid and who it belongs to)
     this.app.get("/auth/check", (c) => {
-      const cookieToken = getCookie(c, COOKIE_NAME);
-      const authenticated = !!(cookieToken && safeCompare(cookieToken, this.authToken));
-      return c.json({ success: true, data: { authenticated } });
+      const actor = this.authenticate(getCookie(c, COOKIE_NAME));
+      return c.json({
+        success: true,
+        data: {
+          authenticated: !!actor,
+          user: actor ? { username: actor.username, role: actor.role } : null,
+        },
+      });
     });
 
     // API routes (all require auth via middleware above)
@@ -204,6 +278,12 @@ export class WebUIServer {
     this.app.route("/api/tasks", createTasksRoutes(this.deps));
     this.app.route("/api/config", createConfigRoutes(this.deps));
     this.app.route("/api/marketplace", createMarketplaceRoutes(this.deps));
+    this.app.route("/api/pairing", createPairingRoutes(this.deps));
+    this.app.route("/api/usage", createUsageRoutes(this.deps));
+    this.app.route("/api/erasure", createErasureRoutes(this.deps));
+    this.app.route("/api/accounts", createAccountsRoutes(this.deps, this.accounts));
+    this.app.route("/api/audit", createAuditRoutes(this.deps));
+    this.app.route("/api/traces", createTracesRoutes(this.deps));
 
     // Serve static files in production (if built)
     const webDist = findWebDist();
@@ -284,8 +364,12 @@ export class WebUIServer {
             const url = `http://${info.address}:${info.port}`;
 
             log.info(`WebUI server running`);
-            log.info(`URL: ${url}/auth/exchange?token=${this.authToken}`);
-            log.info(`Token: ${maskToken(this.authToken)} (use Bearer header for API access)`);
+            if (this.isSharedToken(this.authToken)) {
+              log.info(`URL: ${url}/auth/exchange?token=${this.authToken}`);
+              log.info(`Token: ${maskToken(this.authToken)} (use Bearer header for API access)`);
+            } else {
+              log.info(`URL: ${url} (sign in with a WebUI account; token login is disabled)`);
+            }
             resolve();
           }
         );
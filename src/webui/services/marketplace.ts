@@ -3,20 +3,46 @@
  * from the community registry at GitHub.
  */
 
-import { existsSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
-import { join, resolve } from "node:path";
-import { pathToFileURL } from "node:url";
+import { existsSync, mkdirSync, renameSync, writeFileSync, rmSync } from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
 import { WORKSPACE_PATHS } from "../../workspace/paths.js";
-import { adaptPlugin, ensurePluginDeps } from "../../agent/tools/plugin-loader.js";
+import {
+  loadPlugin,
+  ensurePluginDeps,
+  type PluginModuleWithHooks,
+} from "../../agent/tools/plugin-loader.js";
+import {
+  describePermissions,
+  parsePermissions,
+  permissionsCovered,
+  NO_PERMISSIONS,
+  type PluginPermissions,
+} from "../../agent/tools/plugin-validator.js";
 import type { ToolRegistry } from "../../agent/tools/registry.js";
+import type { PluginModule } from "../../agent/tools/types.js";
 import type { MarketplaceDeps, RegistryEntry, MarketplacePlugin } from "../types.js";
+import {
+  checkUpdate,
+  diffPlugin,
+  lockPlugin,
+  readLockfile,
+  sha256,
+  unlockPlugin,
+  validatePins,
+  verifyEntry,
+  verifyFile,
+  type LockedPlugin,
+  type PluginDiff,
+  type Verification,
+} from "./plugin-integrity.js";
 import { createLogger } from "../../utils/logger.js";
 
 const log = createLogger("WebUI");
 
 const REGISTRY_URL =
   "https://raw.githubusercontent.com/TONresistor/teleton-plugins/main/registry.json";
-const PLUGIN_BASE_URL = "https://raw.githubusercontent.com/TONresistor/teleton-plugins/main";
+const RAW_BASE_URL = "https://raw.githubusercontent.com/TONresistor/teleton-plugins";
+const COMPARE_URL = "https://github.com/TONresistor/teleton-plugins/compare";
 const GITHUB_API_BASE = "https://api.github.com/repos/TONresistor/teleton-plugins/contents";
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 const PLUGINS_DIR = WORKSPACE_PATHS.PLUGINS_DIR;
@@ -30,6 +56,7 @@ interface ManifestData {
   author?: string;
   tools?: Array<{ name: string; description: string }>;
   secrets?: Record<string, { required: boolean; description: string; env?: string }>;
+  permissions?: unknown;
 }
 
 interface ServiceDeps extends MarketplaceDeps {
@@ -92,6 +119,7 @@ export class MarketplaceService {
       if (!VALID_PATH.test(entry.path) || entry.path.includes("..")) {
         throw new Error(`Invalid registry path for "${entry.id}": "${entry.path}"`);
       }
+      validatePins(entry);
     }
 
     return plugins as RegistryEntry[];
@@ -99,13 +127,15 @@ export class MarketplaceService {
 
   // ── Remote manifest ─────────────────────────────────────────────────
 
+  /** Manifest at the pinned commit (hash-checked when pinned), else at main */
   private async fetchRemoteManifest(entry: RegistryEntry): Promise<ManifestData> {
-    const cached = this.manifestCache.get(entry.id);
+    const cacheKey = `${entry.id}@${entry.commit ?? "main"}`;
+    const cached = this.manifestCache.get(cacheKey);
     if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
       return cached.data;
     }
 
-    const url = `${PLUGIN_BASE_URL}/${entry.path}/manifest.json`;
+    const url = `${RAW_BASE_URL}/${entry.commit ?? "main"}/${entry.path}/manifest.json`;
     const res = await fetch(url);
     if (!res.ok) {
       // Fallback: construct from registry entry
@@ -116,13 +146,15 @@ export class MarketplaceService {
         author: entry.author,
       };
     }
-    const raw = await res.json();
+    const content = new Uint8Array(await res.arrayBuffer());
+    if (entry.files?.["manifest.json"]) verifyFile(entry, "manifest.json", content);
+    const raw = JSON.parse(Buffer.from(content).toString("utf-8"));
     // Normalize author: manifest may have { name, url } object or a plain string
     const data: ManifestData = {
       ...raw,
       author: normalizeAuthor(raw.author),
     };
-    this.manifestCache.set(entry.id, { data, fetchedAt: Date.now() });
+    this.manifestCache.set(cacheKey, { data, fetchedAt: Date.now() });
     return data;
   }
 
@@ -153,7 +185,7 @@ export class MarketplaceService {
       // Cross-reference with loaded modules
       const installed = this.deps.modules.find((m) => m.name === entry.id || m.name === entry.name);
       const installedVersion = installed?.version ?? null;
-      const remoteVersion = manifest.version || "0.0.0";
+      const remoteVersion = entry.version ?? (manifest.version || "0.0.0");
 
       let status: MarketplacePlugin["status"] = "available";
       if (installedVersion) {
@@ -176,6 +208,21 @@ export class MarketplaceService {
         toolCount = tools.length;
       }
 
+      let permissions = NO_PERMISSIONS;
+      try {
+        permissions = requestedPermissions(entry, manifest);
+      } catch (err) {
+        log.warn({ err }, `Ignoring permissions of "${entry.id}"`);
+      }
+
+      let verification: MarketplacePlugin["verification"] = "invalid";
+      let verificationError: string | undefined;
+      try {
+        verification = verifyEntry(entry, this.deps.config.marketplace);
+      } catch (err) {
+        verificationError = err instanceof Error ? err.message : String(err);
+      }
+
       results.push({
         id: entry.id,
         name: entry.name,
@@ -188,6 +235,10 @@ export class MarketplaceService {
         toolCount,
         tools,
         secrets: manifest.secrets,
+        permissions,
+        permissionSummary: describePermissions(permissions),
+        verification,
+        ...(verificationError && { verificationError }),
       });
     }
 
@@ -196,8 +247,13 @@ export class MarketplaceService {
 
   // ── Install ─────────────────────────────────────────────────────────
 
+  /**
+   * Install a plugin. A plugin whose manifest requests permissions installs
+   * only if `acceptedPermissions` (what the user consented to) covers them.
+   */
   async installPlugin(
-    pluginId: string
+    pluginId: string,
+    acceptedPermissions?: unknown
   ): Promise<{ name: string; version: string; toolCount: number }> {
     this.validateId(pluginId);
 
@@ -215,36 +271,17 @@ export class MarketplaceService {
     const pluginDir = join(PLUGINS_DIR, pluginId);
 
     try {
-      // Find entry in registry
-      const registry = await this.getRegistry();
-      const entry = registry.find((e) => e.id === pluginId);
-      if (!entry) throw new Error(`Plugin "${pluginId}" not found in registry`);
-
-      // Fetch remote manifest
-      const manifest = await this.fetchRemoteManifest(entry);
+      const { entry, verification, granted } = await this.prepare(pluginId, acceptedPermissions);
 
       // Create plugin directory
       mkdirSync(pluginDir, { recursive: true });
 
-      // Download the entire plugin directory from GitHub
-      await this.downloadDir(entry.path, pluginDir);
+      const files = await this.download(entry, verification, pluginDir);
 
       // Install npm deps if package.json exists
       await ensurePluginDeps(pluginDir, pluginId);
 
-      // Import the plugin module
-      const indexPath = join(pluginDir, "index.js");
-      const moduleUrl = pathToFileURL(indexPath).href + `?t=${Date.now()}`;
-      const mod = await import(moduleUrl);
-
-      // Adapt plugin (validates manifest, tools, SDK version, etc.)
-      const adapted = adaptPlugin(
-        mod,
-        pluginId,
-        this.deps.config,
-        this.deps.loadedModuleNames,
-        this.deps.sdkDeps
-      );
+      const adapted = await this.load(pluginId, pluginDir, granted);
 
       // Run migrations
       adapted.migrate?.(this.deps.pluginContext.db);
@@ -259,6 +296,8 @@ export class MarketplaceService {
       // Add to modules array (shared reference)
       this.deps.modules.push(adapted);
 
+      lockPlugin(pluginId, lockEntry(entry, verification, files, adapted.version));
+
       // Re-wire plugin event hooks
       this.deps.rewireHooks();
 
@@ -318,6 +357,7 @@ export class MarketplaceService {
       if (existsSync(pluginDir)) {
         rmSync(pluginDir, { recursive: true, force: true });
       }
+      unlockPlugin(pluginId);
 
       return { message: `Plugin "${pluginId}" uninstalled successfully` };
     } finally {
@@ -327,11 +367,148 @@ export class MarketplaceService {
 
   // ── Update ──────────────────────────────────────────────────────────
 
+  /**
+   * Update an installed plugin. The new version is downloaded and verified
+   * into a staging directory while the installed one keeps running. The
+   * directories are then swapped, and swapped back (with the old module
+   * restarted) if the new version fails to load or start.
+   */
   async updatePlugin(
-    pluginId: string
+    pluginId: string,
+    acceptedPermissions?: unknown
   ): Promise<{ name: string; version: string; toolCount: number }> {
-    await this.uninstallPlugin(pluginId);
-    return this.installPlugin(pluginId);
+    this.validateId(pluginId);
+
+    if (this.installing.has(pluginId)) {
+      throw new ConflictError(`Plugin "${pluginId}" has an operation in progress`);
+    }
+
+    const current = this.findModuleByPluginId(pluginId);
+    if (!current) {
+      throw new Error(`Plugin "${pluginId}" is not installed`);
+    }
+
+    this.installing.add(pluginId);
+    const pluginDir = join(PLUGINS_DIR, pluginId);
+    const stagingDir = join(PLUGINS_DIR, `.staging-${pluginId}`);
+    const previousDir = join(PLUGINS_DIR, `.previous-${pluginId}`);
+    let swapped = false;
+    let adapted: PluginModuleWithHooks | null = null;
+    let oldTools: ReturnType<PluginModule["tools"]> | null = null;
+    let oldStopped = false;
+
+    try {
+      // Verify and ask for consent before touching the working version
+      const { entry, verification, granted } = await this.prepare(pluginId, acceptedPermissions);
+      checkUpdate(pluginId, readLockfile().plugins[pluginId], entry);
+
+      rmSync(stagingDir, { recursive: true, force: true });
+      mkdirSync(stagingDir, { recursive: true });
+      const files = await this.download(entry, verification, stagingDir);
+      await ensurePluginDeps(stagingDir, pluginId);
+
+      // Swap in the verified files and load them; the old module is still running
+      rmSync(previousDir, { recursive: true, force: true });
+      renameSync(pluginDir, previousDir);
+      swapped = true;
+      renameSync(stagingDir, pluginDir);
+      adapted = await this.load(pluginId, pluginDir, granted);
+      const tools = adapted.tools(this.deps.config);
+
+      oldTools = current.tools(this.deps.config);
+      try {
+        await current.stop?.();
+      } catch (stopErr) {
+        log.warn({ err: stopErr }, `Old plugin "${current.name}" stop() failed`);
+      }
+      oldStopped = true;
+      this.deps.toolRegistry.removePluginTools(current.name);
+
+      adapted.migrate?.(this.deps.pluginContext.db);
+      const toolCount = this.deps.toolRegistry.registerPluginTools(adapted.name, tools);
+      await adapted.start?.(this.deps.pluginContext);
+      this.deps.modules.splice(this.deps.modules.indexOf(current), 1, adapted);
+
+      lockPlugin(pluginId, lockEntry(entry, verification, files, adapted.version));
+      rmSync(previousDir, { recursive: true, force: true });
+      this.deps.rewireHooks();
+
+      return {
+        name: adapted.name,
+        version: adapted.version,
+        toolCount,
+      };
+    } catch (err) {
+      if (swapped) {
+        await this.rollbackUpdate(pluginId, current, oldTools, oldStopped, adapted);
+      }
+      throw err;
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+      this.installing.delete(pluginId);
+    }
+  }
+
+  /** Put the previous version's directory, tools and module back after a failed update */
+  private async rollbackUpdate(
+    pluginId: string,
+    current: PluginModule,
+    oldTools: ReturnType<PluginModule["tools"]> | null,
+    oldStopped: boolean,
+    adapted: PluginModuleWithHooks | null
+  ): Promise<void> {
+    const pluginDir = join(PLUGINS_DIR, pluginId);
+    if (adapted) {
+      this.deps.toolRegistry.removePluginTools(adapted.name);
+      if (oldStopped || adapted.sandboxed) {
+        try {
+          await adapted.stop?.();
+        } catch (stopErr) {
+          log.warn({ err: stopErr }, `Failed to stop the new version of "${pluginId}"`);
+        }
+      }
+    }
+
+    try {
+      rmSync(pluginDir, { recursive: true, force: true });
+      renameSync(join(PLUGINS_DIR, `.previous-${pluginId}`), pluginDir);
+    } catch (err) {
+      log.error({ err }, `Failed to restore the previous version of "${pluginId}"`);
+    }
+
+    if (!oldStopped) return;
+    try {
+      if (oldTools) this.deps.toolRegistry.registerPluginTools(current.name, oldTools);
+      // Reopen plugin DB (stop() closed it)
+      current.migrate?.(this.deps.pluginContext.db);
+      await current.start?.(this.deps.pluginContext);
+      log.warn(`Rolled back to previous version of "${pluginId}"`);
+    } catch (err) {
+      log.error({ err }, `Rollback also failed for "${pluginId}" — plugin disabled`);
+      this.deps.toolRegistry.removePluginTools(current.name);
+      const idx = this.deps.modules.indexOf(current);
+      if (idx >= 0) this.deps.modules.splice(idx, 1);
+    }
+    this.deps.rewireHooks();
+  }
+
+  /** What an update would change: version, commit, files and a GitHub compare link */
+  async previewUpdate(
+    pluginId: string
+  ): Promise<PluginDiff & { verification: Verification; compareUrl: string | null }> {
+    this.validateId(pluginId);
+    const entry = (await this.getRegistry()).find((e) => e.id === pluginId);
+    if (!entry) throw new Error(`Plugin "${pluginId}" not found in registry`);
+
+    const verification = verifyEntry(entry, this.deps.config.marketplace);
+    const locked = readLockfile().plugins[pluginId];
+    checkUpdate(pluginId, locked, entry);
+    const diff = diffPlugin(locked, entry);
+    const compareUrl =
+      diff.from?.commit && diff.to.commit && diff.from.commit !== diff.to.commit
+        ? `${COMPARE_URL}/${diff.from.commit}...${diff.to.commit}`
+        : null;
+    return { ...diff, verification, compareUrl };
   }
 
   // ── Helpers ─────────────────────────────────────────────────────────
@@ -353,11 +530,91 @@ export class MarketplaceService {
     return mod ?? null;
   }
 
+  /**
+   * Find the registry entry, verify its pins and signature, and check consent,
+   * all before anything is downloaded.
+   */
+  private async prepare(
+    pluginId: string,
+    acceptedPermissions: unknown
+  ): Promise<{ entry: RegistryEntry; verification: Verification; granted: PluginPermissions }> {
+    const registry = await this.getRegistry();
+    const entry = registry.find((e) => e.id === pluginId);
+    if (!entry) throw new Error(`Plugin "${pluginId}" not found in registry`);
+
+    const verification = verifyEntry(entry, this.deps.config.marketplace);
+    const manifest = await this.fetchRemoteManifest(entry);
+    const granted = checkConsent(entry, manifest, acceptedPermissions);
+    return { entry, verification, granted };
+  }
+
+  /**
+   * Download the pinned files (or, unpinned, the directory at main) into
+   * `dir`; each pinned file is hash-checked before it is written.
+   */
+  private download(
+    entry: RegistryEntry,
+    verification: Verification,
+    dir: string
+  ): Promise<Record<string, string>> {
+    return verification === "unpinned"
+      ? this.downloadDir(entry.path, dir)
+      : this.downloadPinned(entry, dir);
+  }
+
+  /** Load the plugin in `dir` (validates manifest, tools, SDK version, etc.) */
+  private load(
+    pluginId: string,
+    dir: string,
+    granted: PluginPermissions
+  ): Promise<PluginModuleWithHooks> {
+    return loadPlugin(
+      pluginId,
+      join(dir, "index.js"),
+      this.deps.config,
+      this.deps.loadedModuleNames,
+      this.deps.sdkDeps,
+      // The code may not declare more than the registry manifest the user accepted
+      { fresh: true, allowedPermissions: granted }
+    );
+  }
+
+  /**
+   * Download exactly the files pinned in the registry entry, at its commit.
+   * Returns their hashes for the lockfile.
+   */
+  private async downloadPinned(
+    entry: RegistryEntry,
+    localDir: string
+  ): Promise<Record<string, string>> {
+    const files = entry.files ?? {};
+    for (const file of Object.keys(files)) {
+      const target = resolve(localDir, file);
+      if (!target.startsWith(resolve(localDir) + sep)) {
+        throw new Error(`Path escape detected: ${target}`);
+      }
+      const res = await fetch(`${RAW_BASE_URL}/${entry.commit}/${entry.path}/${file}`);
+      if (!res.ok) throw new Error(`Failed to download ${file}: ${res.status}`);
+      const content = new Uint8Array(await res.arrayBuffer());
+      verifyFile(entry, file, content);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content);
+    }
+    return { ...files };
+  }
+
   /**
    * Recursively download a GitHub directory to a local path.
    * Uses the GitHub Contents API to list files, then fetches each via raw.githubusercontent.
+   * Returns the hashes of the files, by path relative to the top directory.
    */
-  private async downloadDir(remotePath: string, localDir: string, depth = 0): Promise<void> {
+  private async downloadDir(
+    remotePath: string,
+    localDir: string,
+    depth = 0,
+    hashes: Record<string, string> = {},
+    prefix = ""
+  ): Promise<Record<string, string>> {
     if (depth > 5) throw new Error("Plugin directory too deeply nested");
 
     const res = await fetch(`${GITHUB_API_BASE}/${remotePath}`);
@@ -382,7 +639,7 @@ export class MarketplaceService {
 
       if (item.type === "dir") {
         mkdirSync(target, { recursive: true });
-        await this.downloadDir(item.path, target, depth + 1);
+        await this.downloadDir(item.path, target, depth + 1, hashes, `${prefix}${item.name}/`);
       } else if (item.type === "file" && item.download_url) {
         // Validate download URL is from GitHub
         const url = new URL(item.download_url);
@@ -394,10 +651,12 @@ export class MarketplaceService {
         }
         const fileRes = await fetch(item.download_url);
         if (!fileRes.ok) throw new Error(`Failed to download ${item.name}: ${fileRes.status}`);
-        const content = await fileRes.text();
-        writeFileSync(target, content, "utf-8");
+        const content = new Uint8Array(await fileRes.arrayBuffer());
+        writeFileSync(target, content);
+        hashes[`${prefix}${item.name}`] = sha256(content);
       }
     }
+    return hashes;
   }
 
   private validateId(id: string): void {
@@ -415,9 +674,67 @@ function normalizeAuthor(author: unknown): string {
   return "unknown";
 }
 
+function lockEntry(
+  entry: RegistryEntry,
+  verification: Verification,
+  files: Record<string, string>,
+  loadedVersion: string
+): LockedPlugin {
+  return {
+    version: entry.version ?? loadedVersion,
+    commit: entry.commit ?? null,
+    path: entry.path,
+    files,
+    verification,
+    ...(verification === "signed" && { publisher: entry.publisher }),
+    installedAt: new Date().toISOString(),
+  };
+}
+
+function requestedPermissions(entry: RegistryEntry, manifest: ManifestData): PluginPermissions {
+  try {
+    return parsePermissions(manifest.permissions);
+  } catch {
+    throw new Error(`Plugin "${entry.id}" has invalid permissions in its manifest`);
+  }
+}
+
+/** Permissions granted for the install; throws if they were not all accepted */
+function checkConsent(
+  entry: RegistryEntry,
+  manifest: ManifestData,
+  acceptedPermissions: unknown
+): PluginPermissions {
+  const requested = requestedPermissions(entry, manifest);
+  let accepted = NO_PERMISSIONS;
+  try {
+    accepted = parsePermissions(acceptedPermissions);
+  } catch {
+    // Treated as no consent
+  }
+  if (!permissionsCovered(accepted, requested)) {
+    throw new ConsentRequiredError(entry.id, requested);
+  }
+  return requested;
+}
+
 export class ConflictError extends Error {
   constructor(message: string) {
     super(message);
     this.name = "ConflictError";
   }
 }
+
+/** The plugin requests permissions the user has not accepted */
+export class ConsentRequiredError extends Error {
+  readonly summary: string[];
+
+  constructor(
+    pluginId: string,
+    readonly permissions: PluginPermissions
+  ) {
+    super(`Plugin "${pluginId}" requests permissions that must be accepted before installing`);
+    this.name = "ConsentRequiredError";
+    this.summary = describePermissions(permissions);
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Integrity of marketplace plugins — registry pins (version, commit SHA,
+ * file hashes), ed25519 publisher signatures, and the lockfile recording
+ * what is installed.
+ *
+ * A publisher signs `signedPayload(entry)`: the JSON of
+ * `{ id, path, version, commit, files }` with `files` sorted by path.
+ */
+
+import { createHash, createPublicKey, verify } from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { MarketplaceConfig } from "../../config/schema.js";
+import { WORKSPACE_PATHS } from "../../workspace/paths.js";
+import { createLogger } from "../../utils/logger.js";
+import type { RegistryEntry } from "../types.js";
+
+const log = createLogger("WebUI");
+
+export const LOCKFILE_PATH = join(WORKSPACE_PATHS.PLUGINS_DIR, "plugins-lock.json");
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/;
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+const SEMVER = /^\d+\.\d+\.\d+$/;
+const SIGNATURE = /^[A-Za-z0-9+/]{86}==$/;
+const VALID_FILE = /^[a-zA-Z0-9_.-]+(\/[a-zA-Z0-9_.-]+)*$/;
+
+/** How a registry entry is verified; "unpinned" only with `marketplace.allow_unpinned` */
+export type Verification = "signed" | "pinned" | "unpinned";
+
+export interface LockedPlugin {
+  version: string;
+  /** null for unpinned installs */
+  commit: string | null;
+  path: string;
+  /** sha256 (hex) of every installed file, by path relative to the plugin directory */
+  files: Record<string, string>;
+  verification: Verification;
+  publisher?: string;
+  installedAt: string;
+}
+
+interface Lockfile {
+  lockfileVersion: 1;
+  plugins: Record<string, LockedPlugin>;
+}
+
+export interface PluginDiff {
+  from: { version: string; commit: string | null } | null;
+  to: { version: string | null; commit: string | null };
+  /** false when the registry entry has no file hashes to compare with */
+  pinned: boolean;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/** The downloaded code does not match what the registry pins or the publisher signed */
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+export function sha256(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Reject malformed pins when the registry is fetched; pins themselves are optional */
+export function validatePins(entry: RegistryEntry): void {
+  const fail = (reason: string) => {
+    throw new Error(`Invalid registry entry "${entry.id}": ${reason}`);
+  };
+  if (entry.version !== undefined && !SEMVER.test(entry.version)) fail("version must be semver");
+  if (entry.commit !== undefined && !COMMIT_SHA.test(entry.commit)) {
+    fail("commit must be a 40-character SHA");
+  }
+  if (entry.files !== undefined) {
+    for (const [file, hash] of Object.entries(entry.files)) {
+      if (!VALID_FILE.test(file) || file.split("/").some((s) => s === "." || s === "..")) {
+        fail(`invalid file path "${file}"`);
+      }
+      if (!SHA256_HEX.test(hash)) fail(`invalid sha256 for "${file}"`);
+    }
+  }
+  if (entry.signature !== undefined && !SIGNATURE.test(entry.signature)) {
+    fail("signature must be a base64 ed25519 signature");
+  }
+}
+
+function isPinned(entry: RegistryEntry): boolean {
+  return (
+    entry.version !== undefined &&
+    entry.commit !== undefined &&
+    entry.files !== undefined &&
+    Object.keys(entry.files).length > 0
+  );
+}
+
+/** Bytes covered by the publisher signature */
+export function signedPayload(entry: RegistryEntry): Buffer {
+  const files = Object.fromEntries(
+    Object.entries(entry.files ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  );
+  return Buffer.from(
+    JSON.stringify({
+      id: entry.id,
+      path: entry.path,
+      version: entry.version,
+      commit: entry.commit,
+      files,
+    })
+  );
+}
+
+function verifySignature(payload: Buffer, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: Buffer.from(publicKey, "base64").toString("base64url"),
+      },
+      format: "jwk",
+    });
+    return verify(null, payload, key, Buffer.from(signature, "base64"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an entry against the marketplace policy before anything is downloaded.
+ * Throws IntegrityError if it may not be installed.
+ */
+export function verifyEntry(entry: RegistryEntry, config: MarketplaceConfig): Verification {
+  if (entry.signature !== undefined) {
+    if (!isPinned(entry)) {
+      throw new IntegrityError(
+        `"${entry.id}" is signed but has no version, commit and file hashes`
+      );
+    }
+    const publicKey = config.publisher_keys[entry.publisher ?? ""];
+    if (!publicKey) {
+      throw new IntegrityError(
+        `"${entry.id}" is signed by "${entry.publisher ?? "unknown"}", which is not in marketplace.publisher_keys`
+      );
+    }
+    if (!verifySignature(signedPayload(entry), entry.signature, publicKey)) {
+      throw new IntegrityError(`"${entry.id}" has an invalid signature from "${entry.publisher}"`);
+    }
+    return "signed";
+  }
+
+  if (config.require_signature) {
+    throw new IntegrityError(`"${entry.id}" is not signed (marketplace.require_signature is on)`);
+  }
+  if (isPinned(entry)) return "pinned";
+  if (config.allow_unpinned) return "unpinned";
+  throw new IntegrityError(
+    `"${entry.id}" has no pinned commit and file hashes in the registry (marketplace.allow_unpinned is off)`
+  );
+}
+
+/** Throws unless `content` is the pinned version of `file` */
+export function verifyFile(entry: RegistryEntry, file: string, content: Uint8Array): void {
+  const expected = entry.files?.[file];
+  if (!expected) throw new IntegrityError(`"${entry.id}": ${file} is not in the registry entry`);
+  const actual = sha256(content);
+  if (actual !== expected) {
+    throw new IntegrityError(
+      `"${entry.id}": ${file} has sha256 ${actual}, registry pins ${expected}`
+    );
+  }
+}
+
+// ── Lockfile ─────────────────────────────────────────────────────────
+
+export function readLockfile(path = LOCKFILE_PATH): Lockfile {
+  if (!existsSync(path)) return { lockfileVersion: 1, plugins: {} };
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as Partial<Lockfile>;
+    return { lockfileVersion: 1, plugins: data.plugins ?? {} };
+  } catch (err) {
+    log.warn({ err }, `Ignoring unreadable plugin lockfile ${path}`);
+    return { lockfileVersion: 1, plugins: {} };
+  }
+}
+
+function writeLockfile(lockfile: Lockfile, path: string): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(lockfile, null, 2) + "\n", { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+export function lockPlugin(id: string, locked: LockedPlugin, path = LOCKFILE_PATH): void {
+  const lockfile = readLockfile(path);
+  lockfile.plugins[id] = locked;
+  writeLockfile(lockfile, path);
+}
+
+export function unlockPlugin(id: string, path = LOCKFILE_PATH): void {
+  const lockfile = readLockfile(path);
+  if (!(id in lockfile.plugins)) return;
+  delete lockfile.plugins[id];
+  writeLockfile(lockfile, path);
+}
+
+/**
+ * Throws unless the files of an installed plugin still match its lockfile
+ * entry. Plugins not in the lockfile (not from the marketplace) pass.
+ */
+export function verifyInstalled(id: string, dir: string, path = LOCKFILE_PATH): void {
+  const locked = readLockfile(path).plugins[id];
+  if (!locked) return;
+  for (const [file, expected] of Object.entries(locked.files)) {
+    const target = join(dir, file);
+    if (!existsSync(target)) {
+      throw new IntegrityError(`"${id}": ${file} is missing (recorded in the plugin lockfile)`);
+    }
+    const actual = sha256(readFileSync(target));
+    if (actual !== expected) {
+      throw new IntegrityError(`"${id}": ${file} has sha256 ${actual}, lockfile has ${expected}`);
+    }
+  }
+}
+
+// ── Updates ──────────────────────────────────────────────────────────
+
+/** Files that an update from `locked` to `entry` adds, removes and changes */
+export function diffPlugin(locked: LockedPlugin | undefined, entry: RegistryEntry): PluginDiff {
+  const diff: PluginDiff = {
+    from: locked ? { version: locked.version, commit: locked.commit } : null,
+    to: { version: entry.version ?? null, commit: entry.commit ?? null },
+    pinned: isPinned(entry),
+    added: [],
+    removed: [],
+    changed: [],
+  };
+  if (!diff.pinned) return diff;
+
+  const before = locked?.files ?? {};
+  const after = entry.files ?? {};
+  for (const [file, hash] of Object.entries(after)) {
+    if (!(file in before)) diff.added.push(file);
+    else if (before[file] !== hash) diff.changed.push(file);
+  }
+  diff.removed = Object.keys(before).filter((file) => !(file in after));
+  for (const list of [diff.added, diff.removed, diff.changed]) list.sort();
+  return diff;
+}
+
+/** A published version is immutable: the same version with other content is refused */
+export function checkUpdate(
+  id: string,
+  locked: LockedPlugin | undefined,
+  entry: RegistryEntry
+): void {
+  if (!locked || !isPinned(entry) || locked.version !== entry.version) return;
+  const diff = diffPlugin(locked, entry);
+  if (
+    locked.commit !== entry.commit ||
+    diff.added.length + diff.removed.length + diff.changed.length > 0
+  ) {
+    throw new IntegrityError(
+      `"${id}" ${entry.version} in the registry differs from the installed ${locked.version} (commit or file hashes changed without a new version)`
+    );
+  }
+}
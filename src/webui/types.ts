@@ -5,7 +5,11 @@ import type { ToolRegistry } from "../agent/tools/registry.js";
 import type { WebUIConfig, Config } from "../config/schema.js";
 import type { Database } from "better-sqlite3";
 import type { PluginModule, PluginContext } from "../agent/tools/types.js";
+import type { PluginPermissions } from "../agent/tools/plugin-validator.js";
+import type { Verification } from "./services/plugin-integrity.js";
 import type { SDKDependencies } from "../sdk/index.js";
+import type { PairingStore } from "../telegram/pairing-store.js";
+import type { WebUIActor } from "./accounts.js";
 
 export interface LoadedPlugin {
   name: string;
@@ -14,11 +18,17 @@ export interface LoadedPlugin {
 
 export interface McpServerInfo {
   name: string;
-  type: "stdio" | "sse";
+  type: "stdio" | "http" | "sse";
   target: string;
   scope: string;
   enabled: boolean;
   connected: boolean;
+  /** Null for servers that were not loaded (disabled, or added since startup) */
+  health: "connected" | "reconnecting" | "closed" | null;
+  lastError: string | null;
+  /** Unix ms of the last successful connect or health check */
+  lastSeenAt: number | null;
+  reconnectAttempts: number;
   toolCount: number;
   tools: string[];
   envKeys: string[];
@@ -31,10 +41,13 @@ export interface WebUIServerDeps {
     db: Database;
     embedder: MemorySystem["embedder"];
     knowledge: MemorySystem["knowledge"];
+    profiles: MemorySystem["profiles"];
   };
   toolRegistry: ToolRegistry;
   plugins: LoadedPlugin[];
-  mcpServers: McpServerInfo[];
+  /** Snapshot of MCP servers with live connection health */
+  mcpServers: () => McpServerInfo[];
+  pairing?: PairingStore;
   config: WebUIConfig;
   configPath: string;
   marketplace?: MarketplaceDeps;
@@ -49,6 +62,13 @@ export interface RegistryEntry {
   author: string;
   tags: string[];
   path: string;
+  /** Pins: version, commit of the plugins repo, and sha256 (hex) of each file */
+  version?: string;
+  commit?: string;
+  files?: Record<string, string>;
+  /** ed25519 signature (base64) over the pins, by a key in marketplace.publisher_keys */
+  publisher?: string;
+  signature?: string;
 }
 
 export interface MarketplacePlugin {
@@ -63,6 +83,13 @@ export interface MarketplacePlugin {
   toolCount: number;
   tools: Array<{ name: string; description: string }>;
   secrets?: Record<string, { required: boolean; description: string; env?: string }>;
+  /** Requested in the plugin manifest; installing requires accepting them */
+  permissions: PluginPermissions;
+  /** Human-readable lines for the consent prompt */
+  permissionSummary: string[];
+  /** How the registry entry is verified, or "invalid" if it may not be installed */
+  verification: Verification | "invalid";
+  verificationError?: string;
 }
 
 export interface MarketplaceDeps {
@@ -80,6 +107,11 @@ export interface LogEntry {
   timestamp: number;
 }
 
+/** Hono env for /api routes: the authenticated actor is set by the auth middleware */
+export interface WebUIEnv {
+  Variables: { actor: WebUIActor };
+}
+
 export interface APIResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -92,6 +124,8 @@ export interface StatusResponse {
   provider: string;
   sessionCount: number;
   toolCount: number;
+  /** Model that answered the last message (differs from `model` after a failover) */
+  lastModel: { provider: string; model: string; isFallback: boolean; at: number } | null;
 }
 
 export interface ToolInfo {
@@ -29,6 +29,8 @@ export default defineConfig({
   entry: {
     index: "src/index.ts",
     "cli/index": "src/cli/index.ts",
+    // Started by PluginSandbox in its own process; must stay plain JS
+    "plugin-sandbox": "src/sdk/sandbox/runner.ts",
   },
   format: "esm",
   target: "node20",
@@ -1,5 +1,5 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type ReactNode } from 'react';
 import { Layout } from './components/Layout';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Dashboard } from './pages/Dashboard';
@@ -12,9 +12,15 @@ import { Workspace } from './pages/Workspace';
 import { Tasks } from './pages/Tasks';
 import { Mcp } from './pages/Mcp';
 import { Config } from './pages/Config';
+import { Pairing } from './pages/Pairing';
+import { Usage } from './pages/Usage';
+import { Erasure } from './pages/Erasure';
+import { Accounts } from './pages/Accounts';
+import { Audit } from './pages/Audit';
+import { Traces } from './pages/Traces';
 import { Setup } from './pages/Setup';
 import { SetupLayout } from './components/setup/SetupLayout';
-import { checkAuth, login } from './lib/api';
+import { checkAuth, login, loginWithPassword, hasRole, type AuthUser, type WebUIRole } from './lib/api';
 import { logStore } from './lib/log-store';
 
 function App() {
@@ -37,10 +43,16 @@ function App() {
 }
 
 function AuthenticatedApp() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<'account' | 'token'>('account');
   const [tokenInput, setTokenInput] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [totp, setTotp] = useState('');
+  const [totpRequired, setTotpRequired] = useState(false);
   const [loginError, setLoginError] = useState('');
+  const isAuthenticated = user !== null;
 
   useEffect(() => {
     // Check for token exchange (from setup launch flow)
@@ -59,8 +71,8 @@ function AuthenticatedApp() {
     }
 
     // Check if we already have a valid session cookie
-    checkAuth().then((valid) => {
-      setIsAuthenticated(valid);
+    checkAuth().then((current) => {
+      setUser(current);
       setLoading(false);
     });
   }, []);
@@ -72,15 +84,27 @@ function AuthenticatedApp() {
   }, [isAuthenticated]);
 
   const handleLogin = async () => {
-    const token = tokenInput.trim();
-    if (!token) return;
-
     setLoginError('');
-    const success = await login(token);
-    if (success) {
-      setIsAuthenticated(true);
+
+    if (mode === 'token') {
+      const token = tokenInput.trim();
+      if (!token) return;
+      const success = await login(token);
+      if (success) {
+        setUser(await checkAuth());
+      } else {
+        setLoginError('Invalid token');
+      }
+      return;
+    }
+
+    if (!username.trim() || !password) return;
+    const result = await loginWithPassword(username.trim(), password, totp.trim());
+    if (result.user) {
+      setUser(result.user);
     } else {
-      setLoginError('Invalid token');
+      setTotpRequired(!!result.totpRequired);
+      setLoginError(result.error ?? 'Login failed');
     }
   };
 
@@ -94,23 +118,68 @@ function AuthenticatedApp() {
     );
   }
 
-  if (!isAuthenticated) {
+  if (!user) {
     return (
       <div className="login-container">
         <div className="login-card">
           <h1>Teleton</h1>
-          <p>Enter your authentication token to access the dashboard.</p>
-          <div className="form-group">
-            <label>Token</label>
-            <input
-              type="password"
-              value={tokenInput}
-              onChange={(e) => setTokenInput(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
-              placeholder="Paste token from config..."
-              style={{ width: '100%' }}
-            />
-          </div>
+          {mode === 'account' ? (
+            <>
+              <p>Sign in with your WebUI account.</p>
+              <div className="form-group">
+                <label>Username</label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                  autoComplete="username"
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <div className="form-group">
+                <label>Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                  autoComplete="current-password"
+                  style={{ width: '100%' }}
+                />
+              </div>
+              {totpRequired && (
+                <div className="form-group">
+                  <label>Authenticator code</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={totp}
+                    onChange={(e) => setTotp(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <p>Enter your authentication token to access the dashboard.</p>
+              <div className="form-group">
+                <label>Token</label>
+                <input
+                  type="password"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                  placeholder="Paste token from config..."
+                  style={{ width: '100%' }}
+                />
+              </div>
+            </>
+          )}
           {loginError && (
             <div className="alert error" style={{ marginBottom: '1rem' }}>
               {loginError}
@@ -119,26 +188,50 @@ function AuthenticatedApp() {
           <button onClick={handleLogin} style={{ width: '100%' }}>
             Sign In
           </button>
+          <button
+            className="btn-ghost"
+            onClick={() => {
+              setMode(mode === 'account' ? 'token' : 'account');
+              setLoginError('');
+            }}
+            style={{ width: '100%', marginTop: '8px', fontSize: '13px' }}
+          >
+            {mode === 'account' ? 'Use auth token instead' : 'Use account instead'}
+          </button>
         </div>
       </div>
     );
   }
 
+  // Pages above the user's role redirect to the dashboard (the API refuses them anyway)
+  const guard = (path: string, role: WebUIRole, element: ReactNode) => (
+    <Route
+      path={path}
+      element={hasRole(user.role, role) ? element : <Navigate to="/" replace />}
+    />
+  );
+
   return (
     <BrowserRouter>
       <ErrorBoundary>
         <Routes>
-          <Route path="/" element={<Layout />}>
+          <Route path="/" element={<Layout user={user} />}>
             <Route index element={<Dashboard />} />
-            <Route path="tools" element={<Tools />} />
-            <Route path="plugins" element={<Plugins />} />
-            <Route path="soul" element={<Soul />} />
-            <Route path="memory" element={<Memory />} />
+            {guard('tools', 'operator', <Tools />)}
+            {guard('plugins', 'admin', <Plugins />)}
+            {guard('soul', 'admin', <Soul />)}
+            {guard('memory', 'operator', <Memory />)}
             <Route path="logs" element={<Logs />} />
-            <Route path="workspace" element={<Workspace />} />
-            <Route path="tasks" element={<Tasks />} />
-            <Route path="mcp" element={<Mcp />} />
-            <Route path="config" element={<Config />} />
+            {guard('workspace', 'operator', <Workspace />)}
+            {guard('tasks', 'operator', <Tasks />)}
+            {guard('mcp', 'admin', <Mcp />)}
+            {guard('pairing', 'admin', <Pairing />)}
+            {guard('usage', 'operator', <Usage />)}
+            {guard('traces', 'operator', <Traces />)}
+            {guard('erasure', 'operator', <Erasure />)}
+            {guard('config', 'admin', <Config />)}
+            {guard('audit', 'admin', <Audit />)}
+            <Route path="accounts" element={<Accounts user={user} />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Route>
         </Routes>
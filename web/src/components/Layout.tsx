@@ -1,8 +1,28 @@
 import { Link, useLocation } from 'react-router-dom';
 import { Shell } from './Shell';
-import { logout } from '../lib/api';
+import { logout, hasRole, type AuthUser, type WebUIRole } from '../lib/api';
 
-function DashboardNav() {
+/** Nav links with the minimum role that can open them */
+const NAV_LINKS: Array<[path: string, label: string, role: WebUIRole]> = [
+  ['/', 'Dashboard', 'viewer'],
+  ['/tools', 'Tools', 'operator'],
+  ['/plugins', 'Plugins', 'admin'],
+  ['/soul', 'Soul', 'admin'],
+  ['/memory', 'Memory', 'operator'],
+  ['/logs', 'Logs', 'viewer'],
+  ['/workspace', 'Workspace', 'operator'],
+  ['/tasks', 'Tasks', 'operator'],
+  ['/mcp', 'MCP', 'admin'],
+  ['/pairing', 'Pairing', 'admin'],
+  ['/usage', 'Usage', 'operator'],
+  ['/traces', 'Traces', 'operator'],
+  ['/erasure', 'Erasure', 'operator'],
+  ['/config', 'Config', 'admin'],
+  ['/audit', 'Audit', 'admin'],
+  ['/accounts', 'Accounts', 'viewer'],
+];
+
+function DashboardNav({ user }: { user: AuthUser }) {
   const location = useLocation();
   const isActive = (path: string) => location.pathname === path;
 
@@ -14,18 +34,14 @@ function DashboardNav() {
   return (
     <>
       <nav>
-        <Link to="/" className={isActive('/') ? 'active' : ''}>Dashboard</Link>
-        <Link to="/tools" className={isActive('/tools') ? 'active' : ''}>Tools</Link>
-        <Link to="/plugins" className={isActive('/plugins') ? 'active' : ''}>Plugins</Link>
-        <Link to="/soul" className={isActive('/soul') ? 'active' : ''}>Soul</Link>
-        <Link to="/memory" className={isActive('/memory') ? 'active' : ''}>Memory</Link>
-        <Link to="/logs" className={isActive('/logs') ? 'active' : ''}>Logs</Link>
-        <Link to="/workspace" className={isActive('/workspace') ? 'active' : ''}>Workspace</Link>
-        <Link to="/tasks" className={isActive('/tasks') ? 'active' : ''}>Tasks</Link>
-        <Link to="/mcp" className={isActive('/mcp') ? 'active' : ''}>MCP</Link>
-        <Link to="/config" className={isActive('/config') ? 'active' : ''}>Config</Link>
+        {NAV_LINKS.filter(([, , role]) => hasRole(user.role, role)).map(([path, label]) => (
+          <Link key={path} to={path} className={isActive(path) ? 'active' : ''}>{label}</Link>
+        ))}
       </nav>
       <div style={{ marginTop: 'auto', padding: '14px' }}>
+        <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '8px' }}>
+          {user.username} · {user.role}
+        </div>
         <button
           onClick={handleLogout}
           style={{ width: '100%', opacity: 0.7, fontSize: '13px' }}
@@ -37,6 +53,6 @@ function DashboardNav() {
   );
 }
 
-export function Layout() {
-  return <Shell sidebar={<DashboardNav />} />;
+export function Layout({ user }: { user: AuthUser }) {
+  return <Shell sidebar={<DashboardNav user={user} />} />;
 }
@@ -93,6 +93,7 @@ export interface StatusData {
   provider: string;
   sessionCount: number;
   toolCount: number;
+  lastModel: { provider: string; model: string; isFallback: boolean; at: number } | null;
 }
 
 export interface MemoryStats {
@@ -111,6 +112,23 @@ export interface SearchResult {
   keywordScore?: number;
 }
 
+export interface MemoryProfile {
+  scope: 'user' | 'chat';
+  subjectId: string;
+  name: string | null;
+  facts: number;
+  updatedAt: number;
+}
+
+export interface MemoryFact {
+  id: string;
+  scope: 'user' | 'chat';
+  subjectId: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface ToolInfo {
   name: string;
   description: string;
@@ -152,6 +170,187 @@ export interface TaskData {
   error?: string | null;
   dependencies: string[];
   dependents: string[];
+  recurrence?: TaskRecurrenceData;
+  recurrenceLabel: string | null;
+  maxRuns?: number;
+  runCount: number;
+  paused: boolean;
+  nextRunAt: string | null;
+  runs: TaskRunData[];
+}
+
+export type TaskRecurrenceData =
+  | { kind: 'cron'; expression: string; timezone?: string }
+  | { kind: 'interval'; minutes: number }
+  | { kind: 'daily'; time: string; timezone?: string };
+
+export interface TaskRunData {
+  id: number;
+  taskId: string;
+  status: 'running' | 'done' | 'failed' | 'skipped';
+  startedAt: string;
+  finishedAt: string | null;
+  result?: string;
+  error?: string;
+}
+
+export interface PairingRequestData {
+  code: string;
+  peerId: number;
+  username?: string;
+  firstName?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface PairedPeerData {
+  peerId: number;
+  username?: string;
+  firstName?: string;
+  approvedAt: number;
+  approvedBy: string;
+  expiresAt: number | null;
+}
+
+export interface PairingOverview {
+  pending: PairingRequestData[];
+  approved: PairedPeerData[];
+}
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+export interface UsageData {
+  days: number;
+  today: UsageTotals;
+  month: UsageTotals;
+  range: UsageTotals;
+  daily: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  topChats: Array<UsageTotals & { chatId: string; title: string | null; isGroup: boolean }>;
+  topUsers: Array<UsageTotals & { userId: string; username: string | null; firstName: string | null }>;
+  budget: {
+    user_daily_usd?: number;
+    group_daily_usd?: number;
+    group_overrides: Record<string, number>;
+    monthly_usd?: number;
+    on_exceeded: 'decline' | 'utility_model';
+  };
+}
+
+export interface ErasureReport {
+  id: number;
+  createdAt: number;
+  kind: 'user' | 'chat' | 'retention';
+  subject: string | null;
+  requestedBy: string | null;
+  deleted: Record<string, number>;
+  files: Array<{ path: string; action: 'deleted' | 'redacted'; lines?: number }>;
+}
+
+export type WebUIRole = 'viewer' | 'operator' | 'admin';
+
+export const WEBUI_ROLES: WebUIRole[] = ['viewer', 'operator', 'admin'];
+
+/** True when `role` grants at least the access of `required` */
+export function hasRole(role: WebUIRole, required: WebUIRole): boolean {
+  return WEBUI_ROLES.indexOf(role) >= WEBUI_ROLES.indexOf(required);
+}
+
+/** Signed-in identity; username "token" for the shared auth token */
+export interface AuthUser {
+  username: string;
+  role: WebUIRole;
+}
+
+export interface WebUIAccount {
+  id: number;
+  username: string;
+  role: WebUIRole;
+  totpEnabled: boolean;
+  disabled: boolean;
+  createdAt: number;
+  lastLoginAt: number | null;
+}
+
+export interface MyAccount extends AuthUser {
+  account: WebUIAccount | null;
+}
+
+export type AuditSource = 'telegram' | 'webui' | 'cli' | 'agent';
+
+export const AUDIT_SOURCES: AuditSource[] = ['telegram', 'webui', 'cli', 'agent'];
+
+export interface AuditEntry {
+  id: number;
+  createdAt: number;
+  source: AuditSource;
+  actor: string;
+  action: string;
+  target: string | null;
+  before: unknown;
+  after: unknown;
+  details: Record<string, unknown> | null;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilter {
+  source?: AuditSource;
+  actor?: string;
+  action?: string;
+  q?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  checked: number;
+  brokenAt: number | null;
+}
+
+function queryString(filter: object, extra: Record<string, string | number> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filter, ...extra })) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: 'internal' | 'server' | 'client';
+  /** Milliseconds since the epoch */
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, string | number | boolean>;
+  status: SpanStatus;
+  error?: string;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  name: string;
+  startTime: number;
+  durationMs: number;
+  spanCount: number;
+  status: SpanStatus;
+  attributes: Record<string, string | number | boolean>;
+}
+
+export interface TraceFilter {
+  chat_id?: string;
+  message_id?: number;
 }
 
 export interface FileEntry {
@@ -183,13 +382,21 @@ export interface ToolRagStatus {
   skipUnlimitedProviders?: boolean;
 }
 
+export type McpHealth = 'connected' | 'reconnecting' | 'closed';
+
 export interface McpServerInfo {
   name: string;
-  type: 'stdio' | 'sse';
+  type: 'stdio' | 'http' | 'sse';
   target: string;
   scope: string;
   enabled: boolean;
   connected: boolean;
+  /** Null when the server was not loaded (disabled, or added since startup) */
+  health: McpHealth | null;
+  lastError: string | null;
+  /** Unix ms of the last successful connect or health check */
+  lastSeenAt: number | null;
+  reconnectAttempts: number;
   toolCount: number;
   tools: string[];
   envKeys: string[];
@@ -224,6 +431,27 @@ export interface MarketplacePlugin {
   toolCount: number;
   tools: Array<{ name: string; description: string }>;
   secrets?: Record<string, { required: boolean; description: string; env?: string }>;
+  permissions: PluginPermissions;
+  permissionSummary: string[];
+  verification: 'signed' | 'pinned' | 'unpinned' | 'invalid';
+  verificationError?: string;
+}
+
+export interface PluginUpdatePreview {
+  from: { version: string; commit: string | null } | null;
+  to: { version: string | null; commit: string | null };
+  pinned: boolean;
+  added: string[];
+  removed: string[];
+  changed: string[];
+  verification: 'signed' | 'pinned' | 'unpinned';
+  compareUrl: string | null;
+}
+
+export interface PluginPermissions {
+  capabilities: Array<'ton.send' | 'telegram.send' | 'telegram.raw'>;
+  network: string[];
+  fs: string[];
 }
 
 export interface SecretDeclaration {
@@ -288,14 +516,14 @@ async function fetchAPI<T>(endpoint: string, options?: RequestInit): Promise<T>
 
 // ── Auth ────────────────────────────────────────────────────────────
 
-/** Check if session cookie is valid */
-export async function checkAuth(): Promise<boolean> {
+/** Check if session cookie is valid; returns who it belongs to */
+export async function checkAuth(): Promise<AuthUser | null> {
   try {
     const res = await fetch('/auth/check', { credentials: 'include' });
     const data = await res.json();
-    return data.success && data.data?.authenticated;
+    return data.success && data.data?.authenticated ? data.data.user : null;
   } catch {
-    return false;
+    return null;
   }
 }
 
@@ -314,6 +542,27 @@ export async function login(token: string): Promise<boolean> {
   }
 }
 
+/** Login with a named account — server sets HttpOnly cookie */
+export async function loginWithPassword(
+  username: string,
+  password: string,
+  totp?: string
+): Promise<{ user?: AuthUser; error?: string; totpRequired?: boolean }> {
+  try {
+    const res = await fetch('/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password, totp: totp || undefined }),
+      credentials: 'include',
+    });
+    const data = await res.json();
+    if (res.ok) return { user: data.data };
+    return { error: data.error || 'Login failed', totpRequired: !!data.data?.totpRequired };
+  } catch {
+    return { error: 'Network error' };
+  }
+}
+
 /** Logout — server clears cookie */
 export async function logout(): Promise<void> {
   await fetch('/auth/logout', { method: 'POST', credentials: 'include' }).catch(() => {});
@@ -338,6 +587,40 @@ export const api = {
     return fetchAPI<APIResponse<SearchResult[]>>(`/memory/search?q=${encodeURIComponent(query)}&limit=${limit}`);
   },
 
+  async getMemoryProfiles() {
+    return fetchAPI<APIResponse<MemoryProfile[]>>('/memory/profiles');
+  },
+
+  async getMemoryFacts(scope: MemoryProfile['scope'], subjectId: string) {
+    return fetchAPI<APIResponse<MemoryFact[]>>(`/memory/profiles/${scope}/${encodeURIComponent(subjectId)}`);
+  },
+
+  async addMemoryFact(scope: MemoryProfile['scope'], subjectId: string, text: string) {
+    return fetchAPI<APIResponse<MemoryFact>>(`/memory/profiles/${scope}/${encodeURIComponent(subjectId)}`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  },
+
+  async deleteMemoryProfile(scope: MemoryProfile['scope'], subjectId: string) {
+    return fetchAPI<APIResponse<{ deleted: number }>>(`/memory/profiles/${scope}/${encodeURIComponent(subjectId)}`, {
+      method: 'DELETE',
+    });
+  },
+
+  async updateMemoryFact(id: string, text: string) {
+    return fetchAPI<APIResponse<MemoryFact>>(`/memory/facts/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ text }),
+    });
+  },
+
+  async deleteMemoryFact(id: string) {
+    return fetchAPI<APIResponse<{ message: string }>>(`/memory/facts/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+  },
+
   async getSoulFile(filename: string) {
     return fetchAPI<APIResponse<{ content: string }>>(`/soul/${filename}`);
   },
@@ -452,10 +735,141 @@ export const api = {
     return fetchAPI<APIResponse<TaskData>>(`/tasks/${id}/cancel`, { method: 'POST' });
   },
 
+  async tasksPause(id: string) {
+    return fetchAPI<APIResponse<TaskData>>(`/tasks/${id}/pause`, { method: 'POST' });
+  },
+
+  async tasksResume(id: string) {
+    return fetchAPI<APIResponse<TaskData>>(`/tasks/${id}/resume`, { method: 'POST' });
+  },
+
+  async tasksRuns(id: string, limit = 50) {
+    return fetchAPI<APIResponse<TaskRunData[]>>(`/tasks/${id}/runs?limit=${limit}`);
+  },
+
   async tasksCleanDone() {
     return fetchAPI<APIResponse<{ deleted: number }>>('/tasks/clean-done', { method: 'POST' });
   },
 
+  async getPairing() {
+    return fetchAPI<APIResponse<PairingOverview>>('/pairing');
+  },
+
+  async approvePairing(code: string) {
+    return fetchAPI<APIResponse<PairedPeerData>>('/pairing/approve', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  async denyPairing(code: string) {
+    return fetchAPI<APIResponse<{ message: string }>>('/pairing/deny', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  async revokePairing(peerId: number) {
+    return fetchAPI<APIResponse<{ message: string }>>(`/pairing/${peerId}`, { method: 'DELETE' });
+  },
+
+  async getUsage(days: number) {
+    return fetchAPI<APIResponse<UsageData>>(`/usage?days=${days}`);
+  },
+
+  async getErasureReports(limit = 50) {
+    return fetchAPI<APIResponse<ErasureReport[]>>(`/erasure?limit=${limit}`);
+  },
+
+  async forget(kind: 'user' | 'chat', subject: string) {
+    return fetchAPI<APIResponse<ErasureReport>>('/erasure', {
+      method: 'POST',
+      body: JSON.stringify({ kind, subject }),
+    });
+  },
+
+  async getMyAccount() {
+    return fetchAPI<APIResponse<MyAccount>>('/accounts/me');
+  },
+
+  async changePassword(current: string, password: string) {
+    return fetchAPI<APIResponse<null>>('/accounts/me/password', {
+      method: 'POST',
+      body: JSON.stringify({ current, password }),
+    });
+  },
+
+  async beginTotp() {
+    return fetchAPI<APIResponse<{ secret: string; uri: string }>>('/accounts/me/totp', {
+      method: 'POST',
+    });
+  },
+
+  async confirmTotp(code: string) {
+    return fetchAPI<APIResponse<null>>('/accounts/me/totp/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  async disableTotp(code: string) {
+    return fetchAPI<APIResponse<null>>('/accounts/me/totp/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  async getAccounts() {
+    return fetchAPI<APIResponse<WebUIAccount[]>>('/accounts');
+  },
+
+  async createAccount(username: string, password: string, role: WebUIRole) {
+    return fetchAPI<APIResponse<WebUIAccount>>('/accounts', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, role }),
+    });
+  },
+
+  async updateAccount(id: number, changes: { role?: WebUIRole; disabled?: boolean; password?: string }) {
+    return fetchAPI<APIResponse<WebUIAccount>>(`/accounts/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async resetAccountTotp(id: number) {
+    return fetchAPI<APIResponse<null>>(`/accounts/${id}/totp`, { method: 'DELETE' });
+  },
+
+  async deleteAccount(id: number) {
+    return fetchAPI<APIResponse<null>>(`/accounts/${id}`, { method: 'DELETE' });
+  },
+
+  async getAudit(filter: AuditFilter, limit = 50, offset = 0) {
+    return fetchAPI<APIResponse<{ entries: AuditEntry[]; total: number }>>(
+      `/audit?${queryString(filter, { limit, offset })}`
+    );
+  },
+
+  async verifyAudit() {
+    return fetchAPI<APIResponse<AuditVerification>>('/audit/verify');
+  },
+
+  /** Download URL for the filtered log (the session cookie authenticates it) */
+  auditExportUrl(filter: AuditFilter, format: 'csv' | 'json') {
+    return `${API_BASE}/audit/export?${queryString(filter, { format })}`;
+  },
+
+  async getTraces(filter: TraceFilter, limit = 50) {
+    return fetchAPI<APIResponse<{ enabled: boolean; traces: TraceSummary[] }>>(
+      `/traces?${queryString(filter, { limit })}`
+    );
+  },
+
+  async getTrace(traceId: string) {
+    return fetchAPI<APIResponse<SpanData[]>>(`/traces/${traceId}`);
+  },
+
   async getConfigKeys() {
     return fetchAPI<APIResponse<ConfigKeyData[]>>('/config');
   },
@@ -478,10 +892,10 @@ export const api = {
     return fetchAPI<APIResponse<MarketplacePlugin[]>>(`/marketplace${qs}`);
   },
 
-  async installPlugin(id: string) {
+  async installPlugin(id: string, permissions?: PluginPermissions) {
     return fetchAPI<APIResponse<{ name: string; version: string; toolCount: number }>>('/marketplace/install', {
       method: 'POST',
-      body: JSON.stringify({ id }),
+      body: JSON.stringify({ id, permissions }),
     });
   },
 
@@ -492,13 +906,17 @@ export const api = {
     });
   },
 
-  async updatePlugin(id: string) {
+  async updatePlugin(id: string, permissions?: PluginPermissions) {
     return fetchAPI<APIResponse<{ name: string; version: string; toolCount: number }>>('/marketplace/update', {
       method: 'POST',
-      body: JSON.stringify({ id }),
+      body: JSON.stringify({ id, permissions }),
     });
   },
 
+  async previewPluginUpdate(id: string) {
+    return fetchAPI<APIResponse<PluginUpdatePreview>>(`/marketplace/update-preview/${encodeURIComponent(id)}`);
+  },
+
   async getPluginSecrets(pluginId: string) {
     return fetchAPI<APIResponse<PluginSecretsInfo>>(`/marketplace/secrets/${encodeURIComponent(pluginId)}`);
   },
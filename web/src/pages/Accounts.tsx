@@ -0,0 +1,364 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  api,
+  hasRole,
+  WEBUI_ROLES,
+  AuthUser,
+  MyAccount,
+  WebUIAccount,
+  WebUIRole,
+} from '../lib/api';
+import { Select } from '../components/Select';
+
+function formatTime(sec: number | null): string {
+  if (!sec) return 'never';
+  return new Date(sec * 1000).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function MyAccountCard({ me, onChange, onError }: {
+  me: MyAccount;
+  onChange: () => void;
+  onError: (message: string) => void;
+}) {
+  const [current, setCurrent] = useState('');
+  const [password, setPassword] = useState('');
+  const [totpSetup, setTotpSetup] = useState<{ secret: string; uri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!me.account) {
+    return (
+      <div className="card">
+        <div className="section-title">Your account</div>
+        <p className="text-muted" style={{ fontSize: '13px', margin: 0 }}>
+          Signed in with the shared auth token (full admin access). Create named accounts below, then
+          set <code>webui.token_auth: false</code> to require them.
+        </p>
+      </div>
+    );
+  }
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      setNotice(success);
+      setTimeout(() => setNotice(null), 2000);
+      onChange();
+    } catch (err) {
+      onError(errorMessage(err));
+    }
+  };
+
+  const changePassword = () =>
+    run(async () => {
+      await api.changePassword(current, password);
+      setCurrent('');
+      setPassword('');
+    }, 'Password changed');
+
+  const beginTotp = async () => {
+    try {
+      const res = await api.beginTotp();
+      setTotpSetup(res.data);
+    } catch (err) {
+      onError(errorMessage(err));
+    }
+  };
+
+  const confirmTotp = () =>
+    run(async () => {
+      await api.confirmTotp(code);
+      setTotpSetup(null);
+      setCode('');
+    }, 'Two-factor authentication enabled');
+
+  const disableTotp = () =>
+    run(async () => {
+      await api.disableTotp(code);
+      setCode('');
+    }, 'Two-factor authentication disabled');
+
+  return (
+    <div className="card">
+      <div className="section-title">
+        Your account · {me.username} ({me.role})
+      </div>
+      {notice && <div className="alert success" style={{ marginBottom: '14px' }}>{notice}</div>}
+
+      <div className="form-group">
+        <label>Change password</label>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            type="password"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            style={{ flex: 1 }}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New password (min 10 characters)"
+            autoComplete="new-password"
+            style={{ flex: 1 }}
+          />
+          <button onClick={changePassword} disabled={!current || !password}>
+            Change
+          </button>
+        </div>
+      </div>
+
+      <div className="form-group" style={{ marginBottom: 0 }}>
+        <label>Two-factor authentication</label>
+        {me.account.totpEnabled ? (
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <span style={{ flex: 1, fontSize: '13px' }}>Enabled</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Current code"
+              style={{ width: '120px' }}
+            />
+            <button className="btn-danger" onClick={disableTotp} disabled={!code}>
+              Disable
+            </button>
+          </div>
+        ) : totpSetup ? (
+          <div style={{ fontSize: '13px' }}>
+            <p style={{ marginTop: 0 }}>
+              Add this secret to your authenticator app, then enter the code it shows.
+            </p>
+            <div style={{ marginBottom: '6px' }}>
+              Secret: <code>{totpSetup.secret}</code>
+            </div>
+            <div className="text-muted" style={{ marginBottom: '10px', wordBreak: 'break-all' }}>
+              <code>{totpSetup.uri}</code>
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && confirmTotp()}
+                placeholder="123456"
+                style={{ width: '120px' }}
+              />
+              <button onClick={confirmTotp} disabled={!code}>
+                Confirm
+              </button>
+              <button className="btn-ghost" onClick={() => setTotpSetup(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <span className="text-muted" style={{ flex: 1, fontSize: '13px' }}>Not enabled</span>
+            <button onClick={beginTotp}>Enable</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AccountItem({ account, isSelf, onChange, onError }: {
+  account: WebUIAccount;
+  isSelf: boolean;
+  onChange: () => void;
+  onError: (message: string) => void;
+}) {
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChange();
+    } catch (err) {
+      onError(errorMessage(err));
+    }
+  };
+
+  const resetPassword = () => {
+    const password = prompt(`New password for ${account.username} (min 10 characters)`);
+    if (password) run(() => api.updateAccount(account.id, { password }));
+  };
+
+  const remove = () => {
+    if (confirm(`Delete account ${account.username}?`)) run(() => api.deleteAccount(account.id));
+  };
+
+  return (
+    <div className="result-item">
+      <div className="result-meta" style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <strong style={{ flex: 1, opacity: account.disabled ? 0.5 : 1 }}>
+          {account.username}
+          {isSelf ? ' (you)' : ''}
+          {account.disabled ? ' · disabled' : ''}
+          {account.totpEnabled ? ' · 2FA' : ''}
+        </strong>
+        <span className="text-muted" style={{ fontSize: '12px' }}>
+          last login {formatTime(account.lastLoginAt)}
+        </span>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '6px' }}>
+        <Select
+          value={account.role}
+          options={WEBUI_ROLES}
+          onChange={(v) => run(() => api.updateAccount(account.id, { role: v as WebUIRole }))}
+          style={{ minWidth: '110px' }}
+        />
+        <button className="btn-ghost btn-sm" onClick={resetPassword}>Reset password</button>
+        {account.totpEnabled && (
+          <button className="btn-ghost btn-sm" onClick={() => run(() => api.resetAccountTotp(account.id))}>
+            Reset 2FA
+          </button>
+        )}
+        {!isSelf && (
+          <>
+            <button
+              className="btn-ghost btn-sm"
+              onClick={() => run(() => api.updateAccount(account.id, { disabled: !account.disabled }))}
+            >
+              {account.disabled ? 'Enable' : 'Disable'}
+            </button>
+            <button className="btn-danger btn-sm" onClick={remove}>Delete</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function Accounts({ user }: { user: AuthUser }) {
+  const isAdmin = hasRole(user.role, 'admin');
+  const [me, setMe] = useState<MyAccount | null>(null);
+  const [accounts, setAccounts] = useState<WebUIAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<WebUIRole>('viewer');
+
+  const load = useCallback(async () => {
+    try {
+      const meRes = await api.getMyAccount();
+      setMe(meRes.data);
+      if (isAdmin) {
+        const accountsRes = await api.getAccounts();
+        setAccounts(accountsRes.data);
+      }
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const create = async () => {
+    if (!username.trim() || !password) return;
+    try {
+      setError(null);
+      await api.createAccount(username.trim(), password, role);
+      setUsername('');
+      setPassword('');
+      load();
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  if (loading) return <div className="loading">Loading...</div>;
+
+  return (
+    <div>
+      <div className="header">
+        <h1>Accounts</h1>
+        <p>
+          {isAdmin
+            ? 'Named WebUI accounts: viewer (status, logs), operator (tasks, tools, memory), admin (everything)'
+            : 'Your WebUI account'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert error" style={{ marginBottom: '14px' }}>
+          {error}
+          <button onClick={() => setError(null)} style={{ marginLeft: '10px', padding: '2px 8px', fontSize: '12px' }}>Dismiss</button>
+        </div>
+      )}
+
+      {me && <MyAccountCard me={me} onChange={load} onError={setError} />}
+
+      {isAdmin && (
+        <>
+          <div className="card">
+            <div className="form-group" style={{ marginBottom: 0 }}>
+              <label>New account</label>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Username"
+                  style={{ flex: 1 }}
+                />
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && create()}
+                  placeholder="Password (min 10 characters)"
+                  autoComplete="new-password"
+                  style={{ flex: 1 }}
+                />
+                <Select
+                  value={role}
+                  options={WEBUI_ROLES}
+                  onChange={(v) => setRole(v as WebUIRole)}
+                  style={{ minWidth: '110px' }}
+                />
+                <button onClick={create} disabled={!username.trim() || !password}>
+                  Create
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="section-title">Accounts ({accounts.length})</div>
+            {accounts.length === 0 ? (
+              <div className="empty">No accounts yet — everyone signs in with the shared token</div>
+            ) : (
+              accounts.map((a) => (
+                <AccountItem
+                  key={a.id}
+                  account={a}
+                  isSelf={a.id === me?.account?.id}
+                  onChange={load}
+                  onError={setError}
+                />
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  api,
+  AUDIT_SOURCES,
+  AuditEntry,
+  AuditFilter,
+  AuditSource,
+  AuditVerification,
+} from '../lib/api';
+import { Select } from '../components/Select';
+
+const PAGE_SIZE = 50;
+
+function formatTime(sec: number): string {
+  return new Date(sec * 1000).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** yyyy-mm-dd from a date input → unix seconds (start or end of that day) */
+function dayToUnix(day: string, endOfDay: boolean): number | undefined {
+  if (!day) return undefined;
+  const date = new Date(`${day}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Math.floor(date.getTime() / 1000);
+}
+
+function EntryItem({ entry }: { entry: AuditEntry }) {
+  const changed = entry.before !== null || entry.after !== null;
+  return (
+    <div className="result-item">
+      <div className="result-meta" style={{ display: 'flex', gap: '8px' }}>
+        <strong style={{ flex: 1 }}>
+          #{entry.id} · {entry.action}
+          {entry.target ? <> · <code>{entry.target}</code></> : null}
+        </strong>
+        <span className="text-muted" style={{ fontSize: '12px' }}>
+          {entry.actor} via {entry.source} · {formatTime(entry.createdAt)}
+        </span>
+      </div>
+      <div className="result-text" style={{ fontSize: '13px' }}>
+        {changed && (
+          <div>
+            <span className="text-muted">{formatValue(entry.before)}</span> →{' '}
+            <strong>{formatValue(entry.after)}</strong>
+          </div>
+        )}
+        {entry.details && (
+          <div className="text-muted" style={{ wordBreak: 'break-all' }}>
+            {Object.entries(entry.details)
+              .map(([k, v]) => `${k}: ${formatValue(v)}`)
+              .join(' · ')}
+          </div>
+        )}
+        <div className="text-muted" style={{ fontSize: '11px', fontFamily: 'monospace' }}>
+          {entry.hash.slice(0, 16)}…
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function Audit() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+
+  const [source, setSource] = useState<AuditSource | 'all'>('all');
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+  const [query, setQuery] = useState('');
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [filter, setFilter] = useState<AuditFilter>({});
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.getAudit(filter, PAGE_SIZE, offset);
+      setEntries(res.data.entries);
+      setTotal(res.data.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, offset]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyFilters = () => {
+    setOffset(0);
+    setFilter({
+      source: source === 'all' ? undefined : source,
+      actor: actor.trim() || undefined,
+      action: action.trim() || undefined,
+      q: query.trim() || undefined,
+      since: dayToUnix(since, false),
+      until: dayToUnix(until, true),
+    });
+  };
+
+  const verify = async () => {
+    try {
+      const res = await api.verifyAudit();
+      setVerification(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Served as an attachment, so the browser downloads it and stays on the page
+  const exportAs = (format: 'csv' | 'json') => window.location.assign(api.auditExportUrl(filter, format));
+
+  const onEnter = (e: React.KeyboardEvent) => e.key === 'Enter' && applyFilters();
+
+  if (loading) return <div className="loading">Loading...</div>;
+
+  return (
+    <div>
+      <div className="header">
+        <h1>Audit</h1>
+        <p>Append-only, hash-chained log of admin commands, config and tool changes, and spends</p>
+      </div>
+
+      {error && (
+        <div className="alert error" style={{ marginBottom: '14px' }}>
+          {error}
+          <button onClick={() => setError(null)} style={{ marginLeft: '10px', padding: '2px 8px', fontSize: '12px' }}>Dismiss</button>
+        </div>
+      )}
+
+      {verification && (
+        <div className={`alert ${verification.ok ? 'success' : 'error'}`} style={{ marginBottom: '14px' }}>
+          {verification.ok
+            ? `Hash chain intact (${verification.checked} entries checked)`
+            : `Hash chain broken at entry #${verification.brokenAt} — entries from there on may have been altered or removed`}
+        </div>
+      )}
+
+      <div className="card">
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px' }}>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Source</label>
+            <Select
+              value={source}
+              options={['all', ...AUDIT_SOURCES]}
+              onChange={(v) => setSource(v as AuditSource | 'all')}
+            />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Actor</label>
+            <input
+              type="text"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              onKeyDown={onEnter}
+              placeholder="webui:alice, telegram:123"
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Action</label>
+            <input
+              type="text"
+              value={action}
+              onChange={(e) => setAction(e.target.value)}
+              onKeyDown={onEnter}
+              placeholder="config, policy.dm, spend"
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Search</label>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={onEnter}
+              placeholder="Target, actor or action"
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>From</label>
+            <input type="date" value={since} onChange={(e) => setSince(e.target.value)} style={{ width: '100%' }} />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>To</label>
+            <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} style={{ width: '100%' }} />
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '8px', marginTop: '14px' }}>
+          <button onClick={applyFilters}>Apply filters</button>
+          <button className="btn-ghost" onClick={verify}>Verify chain</button>
+          <span style={{ flex: 1 }} />
+          <button className="btn-ghost btn-sm" onClick={() => exportAs('csv')}>
+            Export CSV
+          </button>
+          <button className="btn-ghost btn-sm" onClick={() => exportAs('json')}>
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="section-title">Entries ({total})</div>
+        {entries.length === 0 ? (
+          <div className="empty">No audit entries match</div>
+        ) : (
+          entries.map((e) => <EntryItem key={e.id} entry={e} />)
+        )}
+        {total > PAGE_SIZE && (
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '12px' }}>
+            <button
+              className="btn-ghost btn-sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              Newer
+            </button>
+            <span className="text-muted" style={{ fontSize: '12px' }}>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              className="btn-ghost btn-sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Older
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,19 +9,27 @@ export function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState<string | null>(null);
+  const [canConfigure, setCanConfigure] = useState(false);
 
   // Local input state — decoupled from server values to avoid sending empty/partial values
   const [localInputs, setLocalInputs] = useState<Record<string, string>>({});
 
   const loadData = useCallback(() => {
-    Promise.all([api.getStatus(), api.getMemoryStats(), api.getConfigKeys(), api.getToolRag()])
+    // Settings need operator (Tool RAG) or admin (config) access; viewers only see status
+    Promise.all([
+      api.getStatus(),
+      api.getMemoryStats(),
+      api.getConfigKeys().catch(() => null),
+      api.getToolRag().catch(() => null),
+    ])
       .then(([statusRes, statsRes, configRes, ragRes]) => {
         setStatus(statusRes.data);
         setStats(statsRes.data);
-        setToolRag(ragRes.data);
+        setToolRag(ragRes?.data ?? null);
+        setCanConfigure(configRes !== null);
         // Sync local inputs from server values
         const inputs: Record<string, string> = {};
-        for (const c of configRes.data) {
+        for (const c of configRes?.data ?? []) {
           if (c.value != null) inputs[c.key] = c.value;
         }
         setLocalInputs(inputs);
@@ -103,6 +111,11 @@ export function Dashboard() {
           <div className="value" style={{ fontSize: '14px' }}>
             {status.model}
           </div>
+          {status.lastModel?.isFallback && (
+            <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+              Last reply: {status.lastModel.provider}/{status.lastModel.model} (fallback)
+            </div>
+          )}
         </div>
         <div className="stat-card">
           <h3>Sessions</h3>
@@ -133,68 +146,70 @@ export function Dashboard() {
       </div>
 
       {/* Agent Settings */}
-      <div className="card">
-        <div className="section-title">Agent</div>
-        <div style={{ display: 'grid', gap: '16px' }}>
-          <div className="form-group" style={{ marginBottom: 0 }}>
-            <label>Provider</label>
-            <Select
-              value={getLocal('agent.provider')}
-              options={['anthropic', 'openai', 'google', 'xai', 'groq', 'openrouter']}
-              onChange={(v) => saveConfig('agent.provider', v)}
-            />
-          </div>
-          <div className="form-group" style={{ marginBottom: 0 }}>
-            <label>Model</label>
-            <input
-              type="text"
-              value={getLocal('agent.model')}
-              onChange={(e) => setLocal('agent.model', e.target.value)}
-              onBlur={(e) => saveConfig('agent.model', e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.model', e.currentTarget.value)}
-              style={{ width: '100%' }}
-            />
-          </div>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '16px' }}>
+      {canConfigure && (
+        <div className="card">
+          <div className="section-title">Agent</div>
+          <div style={{ display: 'grid', gap: '16px' }}>
             <div className="form-group" style={{ marginBottom: 0 }}>
-              <label>Temperature (0-2)</label>
-              <input
-                type="number"
-                min="0"
-                max="2"
-                step="0.1"
-                value={getLocal('agent.temperature')}
-                onChange={(e) => setLocal('agent.temperature', e.target.value)}
-                onBlur={(e) => saveConfig('agent.temperature', e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.temperature', e.currentTarget.value)}
+              <label>Provider</label>
+              <Select
+                value={getLocal('agent.provider')}
+                options={['anthropic', 'openai', 'google', 'xai', 'groq', 'openrouter']}
+                onChange={(v) => saveConfig('agent.provider', v)}
               />
             </div>
             <div className="form-group" style={{ marginBottom: 0 }}>
-              <label>Max Tokens</label>
+              <label>Model</label>
               <input
-                type="number"
-                min="1"
-                value={getLocal('agent.max_tokens')}
-                onChange={(e) => setLocal('agent.max_tokens', e.target.value)}
-                onBlur={(e) => saveConfig('agent.max_tokens', e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.max_tokens', e.currentTarget.value)}
+                type="text"
+                value={getLocal('agent.model')}
+                onChange={(e) => setLocal('agent.model', e.target.value)}
+                onBlur={(e) => saveConfig('agent.model', e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.model', e.currentTarget.value)}
+                style={{ width: '100%' }}
               />
             </div>
-            <div className="form-group" style={{ marginBottom: 0 }}>
-              <label>Max Iterations (1-20)</label>
-              <input
-                type="number"
-                min="1"
-                max="20"
-                value={getLocal('agent.max_agentic_iterations')}
-                onChange={(e) => setLocal('agent.max_agentic_iterations', e.target.value)}
-                onBlur={(e) => saveConfig('agent.max_agentic_iterations', e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.max_agentic_iterations', e.currentTarget.value)}
-              />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '16px' }}>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Temperature (0-2)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={getLocal('agent.temperature')}
+                  onChange={(e) => setLocal('agent.temperature', e.target.value)}
+                  onBlur={(e) => saveConfig('agent.temperature', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.temperature', e.currentTarget.value)}
+                />
+              </div>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Max Tokens</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={getLocal('agent.max_tokens')}
+                  onChange={(e) => setLocal('agent.max_tokens', e.target.value)}
+                  onBlur={(e) => saveConfig('agent.max_tokens', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.max_tokens', e.currentTarget.value)}
+                />
+              </div>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Max Iterations (1-20)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={getLocal('agent.max_agentic_iterations')}
+                  onChange={(e) => setLocal('agent.max_agentic_iterations', e.target.value)}
+                  onBlur={(e) => saveConfig('agent.max_agentic_iterations', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.max_agentic_iterations', e.currentTarget.value)}
+                />
+              </div>
             </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Tool RAG Settings */}
       {toolRag && (
@@ -232,133 +247,137 @@ export function Dashboard() {
         </div>
       )}
 
-      {/* Telegram Settings */}
-      <div className="card">
-        <div className="section-title">Telegram</div>
-        <div style={{ display: 'grid', gap: '16px' }}>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
-            <div className="form-group" style={{ marginBottom: 0 }}>
-              <label>DM Policy</label>
-              <Select
-                value={getLocal('telegram.dm_policy')}
-                options={['open', 'pairing', 'admin']}
-                onChange={(v) => saveConfig('telegram.dm_policy', v)}
-              />
+      {canConfigure && (
+        <>
+          {/* Telegram Settings */}
+          <div className="card">
+            <div className="section-title">Telegram</div>
+            <div style={{ display: 'grid', gap: '16px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+                <div className="form-group" style={{ marginBottom: 0 }}>
+                  <label>DM Policy</label>
+                  <Select
+                    value={getLocal('telegram.dm_policy')}
+                    options={['open', 'pairing', 'admin']}
+                    onChange={(v) => saveConfig('telegram.dm_policy', v)}
+                  />
+                </div>
+                <div className="form-group" style={{ marginBottom: 0 }}>
+                  <label>Group Policy</label>
+                  <Select
+                    value={getLocal('telegram.group_policy')}
+                    options={['open', 'admin', 'disabled']}
+                    onChange={(v) => saveConfig('telegram.group_policy', v)}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="require-mention">
+                  Require Mention
+                </label>
+                <label className="toggle">
+                  <input
+                    id="require-mention"
+                    type="checkbox"
+                    checked={getLocal('telegram.require_mention') === 'true'}
+                    onChange={(e) => saveConfig('telegram.require_mention', String(e.target.checked))}
+                  />
+                  <span className="toggle-track" />
+                  <span className="toggle-thumb" />
+                </label>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="typing-sim">
+                  Typing Simulation
+                </label>
+                <label className="toggle">
+                  <input
+                    id="typing-sim"
+                    type="checkbox"
+                    checked={getLocal('telegram.typing_simulation') === 'true'}
+                    onChange={(e) => saveConfig('telegram.typing_simulation', String(e.target.checked))}
+                  />
+                  <span className="toggle-track" />
+                  <span className="toggle-thumb" />
+                </label>
+              </div>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Debounce (ms)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={getLocal('telegram.debounce_ms')}
+                  onChange={(e) => setLocal('telegram.debounce_ms', e.target.value)}
+                  onBlur={(e) => saveConfig('telegram.debounce_ms', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveConfig('telegram.debounce_ms', e.currentTarget.value)}
+                  style={{ width: '100%' }}
+                />
+              </div>
             </div>
-            <div className="form-group" style={{ marginBottom: 0 }}>
-              <label>Group Policy</label>
-              <Select
-                value={getLocal('telegram.group_policy')}
-                options={['open', 'admin', 'disabled']}
-                onChange={(v) => saveConfig('telegram.group_policy', v)}
-              />
-            </div>
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-            <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="require-mention">
-              Require Mention
-            </label>
-            <label className="toggle">
-              <input
-                id="require-mention"
-                type="checkbox"
-                checked={getLocal('telegram.require_mention') === 'true'}
-                onChange={(e) => saveConfig('telegram.require_mention', String(e.target.checked))}
-              />
-              <span className="toggle-track" />
-              <span className="toggle-thumb" />
-            </label>
           </div>
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-            <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="typing-sim">
-              Typing Simulation
-            </label>
-            <label className="toggle">
-              <input
-                id="typing-sim"
-                type="checkbox"
-                checked={getLocal('telegram.typing_simulation') === 'true'}
-                onChange={(e) => saveConfig('telegram.typing_simulation', String(e.target.checked))}
-              />
-              <span className="toggle-track" />
-              <span className="toggle-thumb" />
-            </label>
-          </div>
-          <div className="form-group" style={{ marginBottom: 0 }}>
-            <label>Debounce (ms)</label>
-            <input
-              type="number"
-              min="0"
-              value={getLocal('telegram.debounce_ms')}
-              onChange={(e) => setLocal('telegram.debounce_ms', e.target.value)}
-              onBlur={(e) => saveConfig('telegram.debounce_ms', e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && saveConfig('telegram.debounce_ms', e.currentTarget.value)}
-              style={{ width: '100%' }}
-            />
-          </div>
-        </div>
-      </div>
 
-      {/* Session Settings */}
-      <div className="card">
-        <div className="section-title">Session</div>
-        <div style={{ display: 'grid', gap: '16px' }}>
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-            <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="daily-reset">
-              Daily Reset
-            </label>
-            <label className="toggle">
-              <input
-                id="daily-reset"
-                type="checkbox"
-                checked={getLocal('agent.session_reset_policy.daily_reset_enabled') === 'true'}
-                onChange={(e) =>
-                  saveConfig('agent.session_reset_policy.daily_reset_enabled', String(e.target.checked))
-                }
-              />
-              <span className="toggle-track" />
-              <span className="toggle-thumb" />
-            </label>
-          </div>
-          <div className="form-group" style={{ marginBottom: 0 }}>
-            <label>Reset Hour (0-23)</label>
-            <Select
-              value={getLocal('agent.session_reset_policy.daily_reset_hour')}
-              options={Array.from({ length: 24 }, (_, i) => String(i))}
-              onChange={(v) => saveConfig('agent.session_reset_policy.daily_reset_hour', v)}
-            />
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-            <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="idle-expiry">
-              Idle Expiry
-            </label>
-            <label className="toggle">
-              <input
-                id="idle-expiry"
-                type="checkbox"
-                checked={getLocal('agent.session_reset_policy.idle_expiry_enabled') === 'true'}
-                onChange={(e) =>
-                  saveConfig('agent.session_reset_policy.idle_expiry_enabled', String(e.target.checked))
-                }
-              />
-              <span className="toggle-track" />
-              <span className="toggle-thumb" />
-            </label>
-          </div>
-          <div className="form-group" style={{ marginBottom: 0 }}>
-            <label>Idle Minutes</label>
-            <input
-              type="number"
-              min="1"
-              value={getLocal('agent.session_reset_policy.idle_expiry_minutes')}
-              onChange={(e) => setLocal('agent.session_reset_policy.idle_expiry_minutes', e.target.value)}
-              onBlur={(e) => saveConfig('agent.session_reset_policy.idle_expiry_minutes', e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.session_reset_policy.idle_expiry_minutes', e.currentTarget.value)}
-              style={{ width: '100%' }}
-            />
+          {/* Session Settings */}
+          <div className="card">
+            <div className="section-title">Session</div>
+            <div style={{ display: 'grid', gap: '16px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="daily-reset">
+                  Daily Reset
+                </label>
+                <label className="toggle">
+                  <input
+                    id="daily-reset"
+                    type="checkbox"
+                    checked={getLocal('agent.session_reset_policy.daily_reset_enabled') === 'true'}
+                    onChange={(e) =>
+                      saveConfig('agent.session_reset_policy.daily_reset_enabled', String(e.target.checked))
+                    }
+                  />
+                  <span className="toggle-track" />
+                  <span className="toggle-thumb" />
+                </label>
+              </div>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Reset Hour (0-23)</label>
+                <Select
+                  value={getLocal('agent.session_reset_policy.daily_reset_hour')}
+                  options={Array.from({ length: 24 }, (_, i) => String(i))}
+                  onChange={(v) => saveConfig('agent.session_reset_policy.daily_reset_hour', v)}
+                />
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <label style={{ fontSize: '13px', color: 'var(--text-secondary)', cursor: 'pointer' }} htmlFor="idle-expiry">
+                  Idle Expiry
+                </label>
+                <label className="toggle">
+                  <input
+                    id="idle-expiry"
+                    type="checkbox"
+                    checked={getLocal('agent.session_reset_policy.idle_expiry_enabled') === 'true'}
+                    onChange={(e) =>
+                      saveConfig('agent.session_reset_policy.idle_expiry_enabled', String(e.target.checked))
+                    }
+                  />
+                  <span className="toggle-track" />
+                  <span className="toggle-thumb" />
+                </label>
+              </div>
+              <div className="form-group" style={{ marginBottom: 0 }}>
+                <label>Idle Minutes</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={getLocal('agent.session_reset_policy.idle_expiry_minutes')}
+                  onChange={(e) => setLocal('agent.session_reset_policy.idle_expiry_minutes', e.target.value)}
+                  onBlur={(e) => saveConfig('agent.session_reset_policy.idle_expiry_minutes', e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveConfig('agent.session_reset_policy.idle_expiry_minutes', e.currentTarget.value)}
+                  style={{ width: '100%' }}
+                />
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,138 @@
+import { useEffect, useState, useCallback } from 'react';
+import { api, ErasureReport } from '../lib/api';
+import { Select } from '../components/Select';
+
+function formatTime(sec: number): string {
+  return new Date(sec * 1000).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function reportTitle(r: ErasureReport): string {
+  if (r.kind === 'retention') return 'Retention cleanup';
+  return `Forgot ${r.kind} ${r.subject}`;
+}
+
+function ReportItem({ report }: { report: ErasureReport }) {
+  const deleted = Object.entries(report.deleted);
+  return (
+    <div className="result-item">
+      <div className="result-meta" style={{ display: 'flex', gap: '8px' }}>
+        <strong style={{ flex: 1 }}>
+          #{report.id} · {reportTitle(report)}
+        </strong>
+        <span className="text-muted" style={{ fontSize: '12px' }}>
+          {report.kind !== 'retention' && report.requestedBy ? `by ${report.requestedBy} · ` : ''}
+          {formatTime(report.createdAt)}
+        </span>
+      </div>
+      <div className="result-text" style={{ fontSize: '13px' }}>
+        {deleted.length === 0 && report.files.length === 0 ? (
+          <span className="text-muted">Nothing stored</span>
+        ) : (
+          <>
+            {deleted.map(([store, count]) => (
+              <div key={store}>
+                {store}: <strong>{count}</strong>
+              </div>
+            ))}
+            {report.files.map((f) => (
+              <div key={`${f.action}:${f.path}`} className="text-muted">
+                <code>{f.path}</code> {f.action}
+                {f.lines ? ` (${f.lines} lines)` : ''}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function Erasure() {
+  const [reports, setReports] = useState<ErasureReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<'user' | 'chat'>('user');
+  const [subject, setSubject] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getErasureReports();
+      setReports(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const forget = async () => {
+    const target = subject.trim();
+    if (!target) return;
+    if (!confirm(`Permanently erase everything stored about ${kind} ${target}?`)) return;
+    try {
+      await api.forget(kind, target);
+      setSubject('');
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div>
+      <div className="header">
+        <h1>Erasure</h1>
+        <p>Forget users and chats, and review what erasures and retention removed</p>
+      </div>
+
+      {error && <div className="alert error" style={{ marginBottom: '14px' }}>{error}</div>}
+
+      <div className="card">
+        <div className="form-group">
+          <label>Forget</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <Select
+              value={kind}
+              options={['user', 'chat']}
+              onChange={(v) => setKind(v as 'user' | 'chat')}
+              style={{ minWidth: '100px' }}
+            />
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && forget()}
+              placeholder={kind === 'user' ? '@username or user ID' : 'Chat ID'}
+              style={{ flex: 1 }}
+            />
+            <button className="btn-danger" onClick={forget}>
+              Forget
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="section-title">Reports ({reports.length})</div>
+        {loading ? (
+          <div className="loading">Loading...</div>
+        ) : reports.length === 0 ? (
+          <div className="empty">No erasures yet</div>
+        ) : (
+          reports.map((r) => <ReportItem key={r.id} report={r} />)
+        )}
+      </div>
+    </div>
+  );
+}
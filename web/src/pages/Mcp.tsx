@@ -1,6 +1,27 @@
 import { useEffect, useState } from 'react';
 import { api, McpServerInfo } from '../lib/api';
 
+const POLL_INTERVAL_MS = 10_000;
+
+function healthLabel(server: McpServerInfo): { text: string; color: string } {
+  if (server.health === 'connected') return { text: 'Connected', color: 'var(--green)' };
+  if (server.health === 'reconnecting') {
+    return {
+      text: server.reconnectAttempts > 0 ? `Reconnecting (attempt ${server.reconnectAttempts + 1})` : 'Reconnecting',
+      color: 'var(--orange)',
+    };
+  }
+  if (server.health === null && server.enabled) return { text: 'Restart to connect', color: 'var(--text-secondary)' };
+  return { text: 'Disconnected', color: 'var(--red)' };
+}
+
+function timeAgo(ms: number): string {
+  const sec = Math.max(0, Math.round((Date.now() - ms) / 1000));
+  if (sec < 60) return `${sec}s ago`;
+  if (sec < 3600) return `${Math.round(sec / 60)}m ago`;
+  return `${Math.round(sec / 3600)}h ago`;
+}
+
 export function Mcp() {
   const [servers, setServers] = useState<McpServerInfo[]>([]);
   const [loading, setLoading] = useState(true);
@@ -30,6 +51,9 @@ export function Mcp() {
 
   useEffect(() => {
     loadData(true);
+    // Keep connection health current while the page is open
+    const timer = setInterval(() => loadData(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
   const toggleExpand = (name: string) => {
@@ -268,20 +292,23 @@ export function Mcp() {
                   )}
                 </div>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                  <span style={{
-                    display: 'inline-flex',
-                    alignItems: 'center',
-                    gap: '4px',
-                    fontSize: '12px',
-                    color: server.connected ? 'var(--green)' : 'var(--red)',
-                  }}>
+                  <span
+                    title={server.lastSeenAt ? `Last seen ${timeAgo(server.lastSeenAt)}` : undefined}
+                    style={{
+                      display: 'inline-flex',
+                      alignItems: 'center',
+                      gap: '4px',
+                      fontSize: '12px',
+                      color: healthLabel(server).color,
+                    }}
+                  >
                     <span style={{
                       width: '6px',
                       height: '6px',
                       borderRadius: '50%',
-                      background: server.connected ? 'var(--green)' : 'var(--red)',
+                      background: healthLabel(server).color,
                     }} />
-                    {server.connected ? 'Connected' : 'Disconnected'}
+                    {healthLabel(server).text}
                   </span>
                   {!server.enabled && (
                     <span style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>disabled</span>
@@ -305,6 +332,12 @@ export function Mcp() {
                 {server.target}
               </div>
 
+              {server.lastError && (
+                <div style={{ fontSize: '12px', color: server.connected ? 'var(--text-secondary)' : 'var(--red)', marginBottom: '8px' }}>
+                  Last error: {server.lastError}
+                </div>
+              )}
+
               {server.envKeys.length > 0 && (
                 <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '8px' }}>
                   {server.envKeys.map((k) => (
@@ -1,5 +1,199 @@
-import { useState } from 'react';
-import { api, SearchResult } from '../lib/api';
+import { useState, useEffect, useCallback } from 'react';
+import { api, SearchResult, MemoryProfile, MemoryFact } from '../lib/api';
+
+function profileLabel(p: MemoryProfile): string {
+  const kind = p.scope === 'user' ? 'User' : 'Chat';
+  return p.name ? `${p.name} (${p.subjectId})` : `${kind} ${p.subjectId}`;
+}
+
+function FactRow({ fact, onChanged }: { fact: MemoryFact; onChanged: () => void }) {
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(fact.text);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await api.updateMemoryFact(fact.id, text);
+      setEditing(false);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm('Delete this fact?')) return;
+    try {
+      await api.deleteMemoryFact(fact.id);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="result-item">
+      <div className="result-meta">
+        Updated {new Date(fact.updatedAt * 1000).toLocaleString()}
+      </div>
+      {editing ? (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
+          <textarea value={text} onChange={(e) => setText(e.target.value)} rows={2} style={{ flex: 1 }} />
+          <button className="btn-sm" onClick={save} disabled={saving || !text.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button className="btn-ghost btn-sm" onClick={() => { setText(fact.text); setEditing(false); }}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
+          <div className="result-text" style={{ flex: 1 }}>{fact.text}</div>
+          <button className="btn-ghost btn-sm" onClick={() => setEditing(true)}>Edit</button>
+          <button className="btn-danger btn-sm" onClick={remove}>Delete</button>
+        </div>
+      )}
+      {error && <div className="alert error" style={{ marginTop: '8px' }}>{error}</div>}
+    </div>
+  );
+}
+
+function Profiles() {
+  const [profiles, setProfiles] = useState<MemoryProfile[]>([]);
+  const [selected, setSelected] = useState<MemoryProfile | null>(null);
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [newFact, setNewFact] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const res = await api.getMemoryProfiles();
+      setProfiles(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadFacts = useCallback(async () => {
+    if (!selected) return;
+    try {
+      const res = await api.getMemoryFacts(selected.scope, selected.subjectId);
+      setFacts(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [selected]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  useEffect(() => {
+    loadFacts();
+  }, [loadFacts]);
+
+  const refresh = () => {
+    loadFacts();
+    loadProfiles();
+  };
+
+  const addFact = async () => {
+    if (!selected || !newFact.trim()) return;
+    setError(null);
+    try {
+      await api.addMemoryFact(selected.scope, selected.subjectId, newFact);
+      setNewFact('');
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!selected) return;
+    if (!confirm(`Delete everything remembered about ${profileLabel(selected)}?`)) return;
+    setError(null);
+    try {
+      await api.deleteMemoryProfile(selected.scope, selected.subjectId);
+      setSelected(null);
+      setFacts([]);
+      loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="section-title">Profiles</div>
+      <p className="text-muted" style={{ fontSize: '13px', marginBottom: '12px' }}>
+        Facts the agent remembers about a person or a chat. They are only used when talking to that person or in that chat.
+      </p>
+
+      {error && <div className="alert error" style={{ marginBottom: '12px' }}>{error}</div>}
+
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : profiles.length === 0 ? (
+        <div className="empty">No profiles yet</div>
+      ) : (
+        <div style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
+          <div style={{ width: '260px', flexShrink: 0 }}>
+            {profiles.map((p) => {
+              const active = selected?.scope === p.scope && selected.subjectId === p.subjectId;
+              return (
+                <div
+                  key={`${p.scope}:${p.subjectId}`}
+                  className="file-row"
+                  onClick={() => setSelected(p)}
+                  style={{ cursor: 'pointer', background: active ? 'var(--accent-dim)' : undefined }}
+                >
+                  <span style={{ flex: 1 }}>{profileLabel(p)}</span>
+                  <span className="badge count">{p.facts}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ flex: 1, minWidth: 0 }}>
+            {!selected ? (
+              <div className="empty">Select a profile</div>
+            ) : (
+              <>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                  <strong>{profileLabel(selected)}</strong>
+                  <button className="btn-danger btn-sm" onClick={deleteProfile}>Delete profile</button>
+                </div>
+                {facts.map((f) => (
+                  <FactRow key={`${f.id}:${f.updatedAt}`} fact={f} onChanged={refresh} />
+                ))}
+                <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                  <input
+                    type="text"
+                    value={newFact}
+                    onChange={(e) => setNewFact(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addFact()}
+                    placeholder="Add a fact..."
+                    style={{ flex: 1 }}
+                  />
+                  <button onClick={addFact} disabled={!newFact.trim()}>Add</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export function Memory() {
   const [query, setQuery] = useState('');
@@ -28,7 +222,7 @@ export function Memory() {
     <div>
       <div className="header">
         <h1>Memory</h1>
-        <p>Search knowledge base</p>
+        <p>Search knowledge base and manage user profiles</p>
       </div>
 
       <div className="card">
@@ -69,6 +263,8 @@ export function Memory() {
           </div>
         )}
       </div>
+
+      <Profiles />
     </div>
   );
 }
@@ -0,0 +1,129 @@
+import { useEffect, useState, useCallback } from 'react';
+import { api, PairingOverview } from '../lib/api';
+
+function peerLabel(p: { peerId: number; username?: string; firstName?: string }): string {
+  if (p.username) return `@${p.username}`;
+  return p.firstName || `user:${p.peerId}`;
+}
+
+function formatTime(ms: number | null): string {
+  if (!ms) return '—';
+  return new Date(ms).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function Pairing() {
+  const [data, setData] = useState<PairingOverview>({ pending: [], approved: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getPairing();
+      setData(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const approve = (c: string) => run(() => api.approvePairing(c));
+  const deny = (c: string) => run(() => api.denyPairing(c));
+  const revoke = (peerId: number) => {
+    if (!confirm(`Revoke pairing for user:${peerId}?`)) return;
+    run(() => api.revokePairing(peerId));
+  };
+
+  return (
+    <div>
+      <div className="header">
+        <h1>Pairing</h1>
+        <p>Approve DM pairing codes (dm_policy: pairing)</p>
+      </div>
+
+      {error && <div className="alert error" style={{ marginBottom: '14px' }}>{error}</div>}
+
+      <div className="card">
+        <div className="form-group">
+          <label>Approve by code</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === 'Enter' && code.trim() && approve(code.trim())}
+              placeholder="ABC234"
+              style={{ flex: 1 }}
+            />
+            <button onClick={() => code.trim() && approve(code.trim())}>Approve</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="section-title">Pending ({data.pending.length})</div>
+        {loading ? (
+          <div className="loading">Loading...</div>
+        ) : data.pending.length === 0 ? (
+          <div className="empty">No pending requests</div>
+        ) : (
+          data.pending.map((r) => (
+            <div key={r.code} className="result-item" style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <code>{r.code}</code>
+              <span style={{ flex: 1 }}>
+                {peerLabel(r)} <span className="text-muted">({r.peerId})</span>
+              </span>
+              <span className="text-muted" style={{ fontSize: '12px' }}>expires {formatTime(r.expiresAt)}</span>
+              <button onClick={() => approve(r.code)}>Approve</button>
+              <button className="btn-ghost" onClick={() => deny(r.code)}>Deny</button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="card">
+        <div className="section-title">Paired ({data.approved.length})</div>
+        {!loading && data.approved.length === 0 ? (
+          <div className="empty">No paired users</div>
+        ) : (
+          data.approved.map((p) => (
+            <div key={p.peerId} className="result-item" style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <span style={{ flex: 1 }}>
+                {peerLabel(p)} <span className="text-muted">({p.peerId})</span>
+              </span>
+              <span className="text-muted" style={{ fontSize: '12px' }}>
+                by {p.approvedBy} · {formatTime(p.approvedAt)}
+                {p.expiresAt ? ` · until ${formatTime(p.expiresAt)}` : ''}
+              </span>
+              <button className="icon-button" onClick={() => revoke(p.peerId)} title="Revoke">
+                &#10006;
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
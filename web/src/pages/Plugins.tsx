@@ -124,11 +124,47 @@ export function Plugins() {
     }
   };
 
+  // Ask before granting what the manifest requests; null if the user declines
+  const acceptPermissions = (plugin: MarketplacePlugin | undefined) => {
+    if (!plugin || plugin.permissionSummary.length === 0) return plugin?.permissions;
+    const lines = plugin.permissionSummary.map((line) => `  • ${line}`).join('\n');
+    return confirm(`"${plugin.name}" requests these permissions:\n\n${lines}\n\nAllow?`)
+      ? plugin.permissions
+      : null;
+  };
+
+  // Show what an update changes; resolves to the accepted permissions, or null if declined
+  const confirmUpdate = async (plugin: MarketplacePlugin) => {
+    const { data: preview } = await api.previewPluginUpdate(plugin.id);
+    const short = (commit: string | null) => (commit ? ` (${commit.slice(0, 7)})` : '');
+    const from = preview.from ? `v${preview.from.version}${short(preview.from.commit)}` : 'the installed version';
+    const to = `v${preview.to.version ?? plugin.remoteVersion}${short(preview.to.commit)}`;
+    const files = preview.pinned
+      ? [
+          ['Changed', preview.changed],
+          ['Added', preview.added],
+          ['Removed', preview.removed],
+        ]
+          .filter(([, list]) => list.length > 0)
+          .map(([label, list]) => `${label}: ${(list as string[]).join(', ')}`)
+          .join('\n') || 'No file changes'
+      : 'Files are not pinned in the registry and cannot be compared';
+    const permissions = plugin.permissionSummary.length > 0
+      ? `\n\nPermissions:\n${plugin.permissionSummary.map((line) => `  • ${line}`).join('\n')}`
+      : '';
+    const compare = preview.compareUrl ? `\n\nCompare: ${preview.compareUrl}` : '';
+    return confirm(`Update "${plugin.name}" from ${from} to ${to}?\n\n${files}${permissions}${compare}`)
+      ? plugin.permissions
+      : null;
+  };
+
   const handleInstall = async (id: string) => {
     const plugin = marketplace.find(p => p.id === id);
+    const permissions = acceptPermissions(plugin);
+    if (permissions === null) return;
     setOperating(id);
     try {
-      await api.installPlugin(id);
+      await api.installPlugin(id, permissions);
       await Promise.all([loadMarketplace(), loadData()]);
       if (plugin?.secrets && Object.keys(plugin.secrets).length > 0) {
         // Check if secrets already exist (reinstall case)
@@ -167,9 +203,13 @@ export function Plugins() {
   };
 
   const handleUpdate = async (id: string) => {
+    const plugin = marketplace.find(p => p.id === id);
+    if (!plugin) return;
     setOperating(id);
     try {
-      await api.updatePlugin(id);
+      const permissions = await confirmUpdate(plugin);
+      if (permissions === null) return;
+      await api.updatePlugin(id, permissions);
       await Promise.all([loadMarketplace(), loadData()]);
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
@@ -183,7 +223,9 @@ export function Plugins() {
     for (const plugin of toUpdate) {
       setOperating(plugin.id);
       try {
-        await api.updatePlugin(plugin.id);
+        const permissions = await confirmUpdate(plugin);
+        if (permissions === null) continue;
+        await api.updatePlugin(plugin.id, permissions);
       } catch (err) {
         setError(err instanceof Error ? err.message : String(err));
         break;
@@ -627,6 +669,15 @@ function MarketplaceCard({
             {plugin.status === 'updatable' && (
               <span className="badge warn" style={{ fontSize: '10px' }}>Update available</span>
             )}
+            {plugin.verification === 'signed' && (
+              <span className="badge always" style={{ fontSize: '10px' }}>Signed</span>
+            )}
+            {plugin.verification === 'unpinned' && (
+              <span className="badge warn" style={{ fontSize: '10px' }}>Unpinned</span>
+            )}
+            {plugin.verification === 'invalid' && (
+              <span className="badge warn" style={{ fontSize: '10px' }} title={plugin.verificationError}>Unverified</span>
+            )}
             {hasRequiredSecrets && plugin.status === 'available' && (
               <span className="badge warn" style={{ fontSize: '10px' }}>Requires API Key</span>
             )}
@@ -651,7 +702,7 @@ function MarketplaceCard({
         {/* Right: actions */}
         <div style={{ flexShrink: 0, display: 'flex', flexDirection: 'column', gap: '6px', alignItems: 'flex-end' }}>
           {plugin.status === 'available' && (
-            <button className="btn-sm" onClick={() => onInstall(plugin.id)} disabled={busy}>
+            <button className="btn-sm" onClick={() => onInstall(plugin.id)} disabled={busy || plugin.verification === 'invalid'} title={plugin.verificationError}>
               {isOp ? 'Installing...' : 'Install'}
             </button>
           )}
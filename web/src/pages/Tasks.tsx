@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { api, TaskData } from '../lib/api';
+import { api, TaskData, TaskRunData } from '../lib/api';
 
 type TaskStatus = TaskData['status'];
 type Task = TaskData;
@@ -38,6 +38,13 @@ function StatusBadge({ status }: { status: TaskStatus }) {
   );
 }
 
+const RUN_COLORS: Record<TaskRunData['status'], string> = {
+  running: '#5bc0de',
+  done: '#5cb85c',
+  failed: '#d9534f',
+  skipped: '#777',
+};
+
 function formatDate(iso: string | null | undefined): string {
   if (!iso) return '—';
   const d = new Date(iso);
@@ -109,6 +116,15 @@ export function Tasks() {
     }
   };
 
+  const setPaused = async (id: string, paused: boolean) => {
+    try {
+      await (paused ? api.tasksPause(id) : api.tasksResume(id));
+      loadTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const deleteTask = async (id: string) => {
     if (!confirm('Permanently delete this task?')) return;
     try {
@@ -222,7 +238,7 @@ export function Tasks() {
                 <th style={{ textAlign: 'left', padding: '8px 14px' }}>Description</th>
                 <th style={{ textAlign: 'center', padding: '8px 10px', width: 80 }}>Status</th>
                 <th style={{ textAlign: 'center', padding: '8px 10px', width: 60 }}>Priority</th>
-                <th style={{ textAlign: 'right', padding: '8px 14px', width: 120 }}>Scheduled</th>
+                <th style={{ textAlign: 'right', padding: '8px 14px', width: 120 }}>Next run</th>
                 <th style={{ textAlign: 'right', padding: '8px 14px', width: 120 }}>Created</th>
                 <th style={{ textAlign: 'right', padding: '8px 14px', width: 70 }}></th>
               </tr>
@@ -247,6 +263,11 @@ export function Tasks() {
                             {isExpanded ? '\u25BC' : '\u25B6'}
                           </span>
                           {truncate(task.description, 80)}
+                          {task.recurrenceLabel && (
+                            <span className="text-muted" style={{ fontSize: '11px', marginLeft: '6px' }} title={task.recurrenceLabel}>
+                              &#128257;{task.paused ? ' paused' : ''}
+                            </span>
+                          )}
                         </div>
                         {task.reason && (
                           <div style={{ fontSize: '11px', color: 'var(--text-secondary)', marginTop: '2px', paddingLeft: '14px' }}>
@@ -261,7 +282,7 @@ export function Tasks() {
                         <PriorityDots priority={task.priority} />
                       </td>
                       <td style={{ textAlign: 'right', padding: '8px 14px', color: 'var(--text-secondary)' }}>
-                        {formatDate(task.scheduledFor)}
+                        {formatDate(task.recurrence ? task.nextRunAt : task.scheduledFor)}
                       </td>
                       <td style={{ textAlign: 'right', padding: '8px 14px', color: 'var(--text-secondary)' }}>
                         {formatDate(task.createdAt)}
@@ -270,6 +291,15 @@ export function Tasks() {
                         style={{ textAlign: 'right', padding: '8px 14px', whiteSpace: 'nowrap' }}
                         onClick={(e) => e.stopPropagation()}
                       >
+                        {task.recurrence && (task.status === 'pending' || task.status === 'in_progress') && (
+                          <button
+                            className="icon-button"
+                            onClick={() => setPaused(task.id, !task.paused)}
+                            title={task.paused ? 'Resume' : 'Pause'}
+                          >
+                            {task.paused ? '\u25B6' : '\u23F8'}
+                          </button>
+                        )}
                         {(task.status === 'pending' || task.status === 'in_progress') && (
                           <button className="icon-button" onClick={() => cancelTask(task.id)} title="Cancel">
                             &#10006;
@@ -312,6 +342,25 @@ export function Tasks() {
                             <span style={{ color: 'var(--text-secondary)' }}>Scheduled for</span>
                             <span>{formatDate(selected.scheduledFor)}</span>
 
+                            {selected.recurrenceLabel && (
+                              <>
+                                <span style={{ color: 'var(--text-secondary)' }}>Repeats</span>
+                                <span>
+                                  {selected.recurrenceLabel}
+                                  {selected.paused ? ' (paused)' : ''}
+                                </span>
+
+                                <span style={{ color: 'var(--text-secondary)' }}>Runs</span>
+                                <span>
+                                  {selected.runCount}
+                                  {selected.maxRuns ? ` / ${selected.maxRuns}` : ''}
+                                </span>
+
+                                <span style={{ color: 'var(--text-secondary)' }}>Next run</span>
+                                <span>{formatDate(selected.nextRunAt)}</span>
+                              </>
+                            )}
+
                             <span style={{ color: 'var(--text-secondary)' }}>Started</span>
                             <span>{formatDate(selected.startedAt)}</span>
 
@@ -381,6 +430,26 @@ export function Tasks() {
                             </div>
                           )}
 
+                          {selected.runs.length > 0 && (
+                            <div style={{ marginTop: '12px' }}>
+                              <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '4px' }}>
+                                Run history (last {selected.runs.length})
+                              </div>
+                              {selected.runs.map((run) => (
+                                <div
+                                  key={run.id}
+                                  style={{ display: 'flex', gap: '10px', fontSize: '12px', padding: '3px 0', borderTop: '1px solid var(--separator)' }}
+                                >
+                                  <span style={{ width: '110px', color: 'var(--text-secondary)' }}>{formatDate(run.startedAt)}</span>
+                                  <span style={{ width: '60px', color: RUN_COLORS[run.status], fontWeight: 600 }}>{run.status}</span>
+                                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={run.error || run.result}>
+                                    {truncate(run.error || run.result, 120)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
                           {selected.error && (
                             <div style={{ marginTop: '12px' }}>
                               <div style={{ fontSize: '12px', color: '#d9534f', marginBottom: '4px' }}>Error</div>
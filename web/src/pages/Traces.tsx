@@ -0,0 +1,267 @@
+import { useEffect, useState, useCallback } from 'react';
+import { api, SpanData, TraceFilter, TraceSummary } from '../lib/api';
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1) return `${ms.toFixed(2)} ms`;
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(2)} s`;
+}
+
+/** Spans in tree order (each parent followed by its children), with their depth */
+function flattenSpans(spans: SpanData[]): Array<{ span: SpanData; depth: number }> {
+  const ids = new Set(spans.map((s) => s.spanId));
+  const children = new Map<string | null, SpanData[]>();
+  for (const span of spans) {
+    // Spans whose parent was not recorded are shown at the top level
+    const parent = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : null;
+    const list = children.get(parent) ?? [];
+    list.push(span);
+    children.set(parent, list);
+  }
+
+  const rows: Array<{ span: SpanData; depth: number }> = [];
+  const visit = (parent: string | null, depth: number) => {
+    const list = (children.get(parent) ?? []).sort((a, b) => a.startTime - b.startTime);
+    for (const span of list) {
+      rows.push({ span, depth });
+      visit(span.spanId, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
+
+function TraceItem({
+  trace,
+  selected,
+  onSelect,
+}: {
+  trace: TraceSummary;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const chat = trace.attributes['chat.id'];
+  const message = trace.attributes['message.id'];
+  return (
+    <div
+      className="result-item"
+      onClick={onSelect}
+      style={{ cursor: 'pointer', borderColor: selected ? 'var(--accent)' : undefined }}
+    >
+      <div className="result-meta" style={{ display: 'flex', gap: '8px' }}>
+        <strong style={{ flex: 1 }}>
+          {trace.name}
+          {chat !== undefined && <> · chat <code>{String(chat)}</code></>}
+          {message !== undefined && <> · msg #{String(message)}</>}
+        </strong>
+        {trace.status === 'error' && <span className="badge error">error</span>}
+        <span className="text-muted" style={{ fontSize: '12px' }}>
+          {formatDuration(trace.durationMs)} · {trace.spanCount} spans · {formatTime(trace.startTime)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function Waterfall({ spans }: { spans: SpanData[] }) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const start = Math.min(...spans.map((s) => s.startTime));
+  const total = Math.max(Math.max(...spans.map((s) => s.endTime)) - start, 1);
+
+  return (
+    <div>
+      {flattenSpans(spans).map(({ span, depth }) => {
+        const left = ((span.startTime - start) / total) * 100;
+        const width = Math.max(((span.endTime - span.startTime) / total) * 100, 0.3);
+        const failed = span.status === 'error';
+        const open = expanded === span.spanId;
+        return (
+          <div key={span.spanId} style={{ borderBottom: '1px solid var(--separator)' }}>
+            <div
+              onClick={() => setExpanded(open ? null : span.spanId)}
+              style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '4px 0', cursor: 'pointer' }}
+            >
+              <div
+                style={{
+                  width: '260px',
+                  flexShrink: 0,
+                  paddingLeft: `${depth * 14}px`,
+                  fontSize: '12px',
+                  fontFamily: 'var(--font-mono)',
+                  color: failed ? 'var(--red)' : undefined,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+                title={span.name}
+              >
+                {span.name}
+              </div>
+              <div style={{ flex: 1, position: 'relative', height: '14px' }}>
+                <div
+                  style={{
+                    position: 'absolute',
+                    left: `${left}%`,
+                    width: `${width}%`,
+                    height: '100%',
+                    borderRadius: '3px',
+                    background: failed ? 'var(--red)' : span.kind === 'client' ? 'var(--purple)' : 'var(--accent)',
+                  }}
+                />
+              </div>
+              <div className="text-muted" style={{ width: '70px', textAlign: 'right', fontSize: '12px' }}>
+                {formatDuration(span.endTime - span.startTime)}
+              </div>
+            </div>
+            {open && (
+              <div className="text-muted" style={{ fontSize: '12px', padding: '4px 0 8px', wordBreak: 'break-all' }}>
+                {span.error && <div style={{ color: 'var(--red)' }}>{span.error}</div>}
+                {Object.keys(span.attributes).length === 0
+                  ? 'No attributes'
+                  : Object.entries(span.attributes)
+                      .map(([k, v]) => `${k}: ${String(v)}`)
+                      .join(' · ')}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function Traces() {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [spans, setSpans] = useState<SpanData[] | null>(null);
+
+  const [chatId, setChatId] = useState('');
+  const [messageId, setMessageId] = useState('');
+  const [filter, setFilter] = useState<TraceFilter>({});
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.getTraces(filter);
+      setEnabled(res.data.enabled);
+      setTraces(res.data.traces);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const select = async (traceId: string) => {
+    setSelected(traceId);
+    setSpans(null);
+    try {
+      const res = await api.getTrace(traceId);
+      setSpans(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const applyFilters = () => {
+    const id = parseInt(messageId, 10);
+    setFilter({
+      chat_id: chatId.trim() || undefined,
+      message_id: isNaN(id) ? undefined : id,
+    });
+  };
+
+  const onEnter = (e: React.KeyboardEvent) => e.key === 'Enter' && applyFilters();
+
+  if (loading) return <div className="loading">Loading...</div>;
+
+  return (
+    <div>
+      <div className="header">
+        <h1>Traces</h1>
+        <p>Span waterfall of each handled message: retrieval, LLM calls, tool calls and compaction</p>
+      </div>
+
+      {error && (
+        <div className="alert error" style={{ marginBottom: '14px' }}>
+          {error}
+          <button onClick={() => setError(null)} style={{ marginLeft: '10px', padding: '2px 8px', fontSize: '12px' }}>Dismiss</button>
+        </div>
+      )}
+
+      {!enabled && (
+        <div className="alert error" style={{ marginBottom: '14px' }}>
+          Tracing is disabled. Set <code>tracing.enabled: true</code> in config.yaml and restart to record traces.
+        </div>
+      )}
+
+      <div className="card">
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '12px', alignItems: 'end' }}>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Chat ID</label>
+            <input
+              type="text"
+              value={chatId}
+              onChange={(e) => setChatId(e.target.value)}
+              onKeyDown={onEnter}
+              placeholder="-1001234567890"
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div className="form-group" style={{ marginBottom: 0 }}>
+            <label>Message ID</label>
+            <input
+              type="text"
+              value={messageId}
+              onChange={(e) => setMessageId(e.target.value)}
+              onKeyDown={onEnter}
+              placeholder="42"
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button onClick={applyFilters}>Apply filters</button>
+            <button className="btn-ghost" onClick={load}>Refresh</button>
+          </div>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="card">
+          <div className="section-title">
+            Trace <code>{selected}</code>
+          </div>
+          {spans === null ? <div className="loading">Loading...</div> : <Waterfall spans={spans} />}
+        </div>
+      )}
+
+      <div className="card">
+        <div className="section-title">Recent traces ({traces.length})</div>
+        {traces.length === 0 ? (
+          <div className="empty">No traces recorded</div>
+        ) : (
+          traces.map((t) => (
+            <TraceItem key={t.traceId} trace={t} selected={t.traceId === selected} onSelect={() => select(t.traceId)} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
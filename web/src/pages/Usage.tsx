@@ -0,0 +1,215 @@
+import { useEffect, useState, useCallback } from 'react';
+import { api, UsageData, UsageTotals } from '../lib/api';
+import { Select } from '../components/Select';
+
+const RANGES = ['7', '30', '90'];
+
+function usd(n: number): string {
+  return `$${n.toFixed(n < 1 ? 4 : 2)}`;
+}
+
+function tokens(t: UsageTotals): string {
+  return `${(t.inputTokens / 1000).toFixed(1)}K in · ${(t.outputTokens / 1000).toFixed(1)}K out`;
+}
+
+/** Fill missing days so the chart has one bar per day */
+function fillDays(data: UsageData): Array<{ day: string; costUsd: number; requests: number }> {
+  const byDay = new Map(data.daily.map((d) => [d.day, d]));
+  const out: Array<{ day: string; costUsd: number; requests: number }> = [];
+  const today = new Date();
+  for (let i = data.days - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - i));
+    const day = d.toISOString().slice(0, 10);
+    out.push({ day, costUsd: byDay.get(day)?.costUsd ?? 0, requests: byDay.get(day)?.requests ?? 0 });
+  }
+  return out;
+}
+
+function DailyChart({ data }: { data: UsageData }) {
+  const days = fillDays(data);
+  const max = Math.max(...days.map((d) => d.costUsd), 0.0001);
+  const width = 720;
+  const height = 160;
+  const gap = 2;
+  const barWidth = Math.max(1, width / days.length - gap);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height + 18}`} style={{ width: '100%', height: 'auto' }} role="img" aria-label="Daily cost">
+      {days.map((d, i) => {
+        const h = (d.costUsd / max) * height;
+        const x = i * (barWidth + gap);
+        return (
+          <rect key={d.day} x={x} y={height - h} width={barWidth} height={Math.max(h, d.costUsd > 0 ? 1 : 0)} rx={2} fill="var(--accent)">
+            <title>{`${d.day}: ${usd(d.costUsd)} (${d.requests} calls)`}</title>
+          </rect>
+        );
+      })}
+      <line x1={0} y1={height} x2={width} y2={height} stroke="var(--glass-border)" />
+      <text x={0} y={height + 14} fontSize="11" fill="var(--text-secondary)">{days[0]?.day}</text>
+      <text x={width} y={height + 14} fontSize="11" fill="var(--text-secondary)" textAnchor="end">
+        {days[days.length - 1]?.day}
+      </text>
+    </svg>
+  );
+}
+
+function ShareBar({ label, value, total, detail }: { label: string; value: number; total: number; detail: string }) {
+  const pct = total > 0 ? (value / total) * 100 : 0;
+  return (
+    <div style={{ marginBottom: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', marginBottom: '4px' }}>
+        <span>{label}</span>
+        <span style={{ color: 'var(--text-secondary)' }}>
+          {usd(value)} · {detail}
+        </span>
+      </div>
+      <div style={{ height: '6px', borderRadius: '3px', background: 'var(--accent-dim)' }}>
+        <div style={{ width: `${pct}%`, height: '100%', borderRadius: '3px', background: 'var(--accent)' }} />
+      </div>
+    </div>
+  );
+}
+
+export function Usage() {
+  const [range, setRange] = useState('30');
+  const [data, setData] = useState<UsageData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getUsage(parseInt(range, 10));
+      setData(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const budget = data?.budget;
+  const caps: string[] = [];
+  if (budget?.user_daily_usd !== undefined) caps.push(`${usd(budget.user_daily_usd)} per user / day`);
+  if (budget?.group_daily_usd !== undefined) caps.push(`${usd(budget.group_daily_usd)} per group / day`);
+  if (budget && Object.keys(budget.group_overrides).length > 0) {
+    caps.push(`${Object.keys(budget.group_overrides).length} group override(s)`);
+  }
+  if (budget?.monthly_usd !== undefined) caps.push(`${usd(budget.monthly_usd)} per month`);
+
+  return (
+    <div>
+      <div className="header" style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between' }}>
+        <div>
+          <h1>Usage</h1>
+          <p>LLM cost by day, model, chat and user</p>
+        </div>
+        <Select
+          value={range}
+          options={RANGES}
+          labels={RANGES.map((r) => `Last ${r} days`)}
+          onChange={setRange}
+          style={{ minWidth: '140px' }}
+        />
+      </div>
+
+      {error && <div className="alert error" style={{ marginBottom: '14px' }}>{error}</div>}
+
+      {loading && !data ? (
+        <div className="loading">Loading...</div>
+      ) : data ? (
+        <>
+          <div className="stats">
+            <div className="stat-card">
+              <h3>Today</h3>
+              <div className="value">{usd(data.today.costUsd)}</div>
+              <div className="text-muted" style={{ fontSize: '12px' }}>{data.today.requests} calls</div>
+            </div>
+            <div className="stat-card">
+              <h3>This month</h3>
+              <div className="value">{usd(data.month.costUsd)}</div>
+              {budget?.monthly_usd !== undefined && (
+                <div className="text-muted" style={{ fontSize: '12px' }}>of {usd(budget.monthly_usd)}</div>
+              )}
+            </div>
+            <div className="stat-card">
+              <h3>Last {data.days} days</h3>
+              <div className="value">{usd(data.range.costUsd)}</div>
+              <div className="text-muted" style={{ fontSize: '12px' }}>{tokens(data.range)}</div>
+            </div>
+            <div className="stat-card">
+              <h3>Budgets</h3>
+              <div style={{ fontSize: '13px' }}>{caps.length > 0 ? caps.join(', ') : 'None configured'}</div>
+              {caps.length > 0 && (
+                <div className="text-muted" style={{ fontSize: '12px' }}>
+                  over budget: {budget?.on_exceeded === 'utility_model' ? 'utility model' : 'decline'}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="section-title">Daily cost</div>
+            <DailyChart data={data} />
+          </div>
+
+          <div className="card">
+            <div className="section-title">By model</div>
+            {data.byModel.length === 0 ? (
+              <div className="empty">No LLM calls in this period</div>
+            ) : (
+              data.byModel.map((m) => (
+                <ShareBar
+                  key={`${m.provider}/${m.model}`}
+                  label={`${m.provider}/${m.model}`}
+                  value={m.costUsd}
+                  total={data.range.costUsd}
+                  detail={`${m.requests} calls`}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="card">
+            <div className="section-title">Top chats</div>
+            {data.topChats.length === 0 ? (
+              <div className="empty">No chats yet</div>
+            ) : (
+              data.topChats.map((c) => (
+                <ShareBar
+                  key={c.chatId}
+                  label={`${c.title ?? c.chatId}${c.isGroup ? ' (group)' : ''}`}
+                  value={c.costUsd}
+                  total={data.range.costUsd}
+                  detail={tokens(c)}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="card">
+            <div className="section-title">Top users</div>
+            {data.topUsers.length === 0 ? (
+              <div className="empty">No users yet</div>
+            ) : (
+              data.topUsers.map((u) => (
+                <ShareBar
+                  key={u.userId}
+                  label={u.username ? `@${u.username}` : u.firstName || `user:${u.userId}`}
+                  value={u.costUsd}
+                  total={data.range.costUsd}
+                  detail={`${u.requests} calls`}
+                />
+              ))
+            )}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}